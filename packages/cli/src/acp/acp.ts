@@ -4,75 +4,179 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-/* ACP defines a schema for a simple (experimental) JSON-RPC protocol that allows GUI applications to interact with agents. */
+/* The Agent Client Protocol (ACP) is a JSON-RPC protocol over stdio that lets editors drive agents: https://agentclientprotocol.com */
 
-import { Icon } from '@qwen-code/qwen-code-core';
 import { WritableStream, ReadableStream } from 'node:stream/web';
 
-export class ClientConnection implements Client {
-  #connection: Connection<Agent>;
+export const PROTOCOL_VERSION = 1;
+
+export const AGENT_METHODS = {
+  initialize: 'initialize',
+  authenticate: 'authenticate',
+  session_new: 'session/new',
+  session_load: 'session/load',
+  session_set_mode: 'session/set_mode',
+  session_prompt: 'session/prompt',
+  session_cancel: 'session/cancel',
+} as const;
+
+export const CLIENT_METHODS = {
+  session_update: 'session/update',
+  session_request_permission: 'session/request_permission',
+  fs_read_text_file: 'fs/read_text_file',
+  fs_write_text_file: 'fs/write_text_file',
+} as const;
+
+/**
+ * The connection of an agent to its client. Requests from the client are
+ * passed to the agent, and the agent calls the client through this object.
+ */
+export class AgentSideConnection implements Client {
+  #connection: Connection;
 
   constructor(
-    agent: (client: Client) => Agent,
+    toAgent: (client: Client) => Agent,
     input: WritableStream<Uint8Array>,
     output: ReadableStream<Uint8Array>,
   ) {
-    this.#connection = new Connection(agent(this), input, output);
+    const agent = toAgent(this);
+    this.#connection = new Connection(
+      async (method, params) => {
+        switch (method) {
+          case AGENT_METHODS.initialize:
+            return agent.initialize(params as InitializeRequest);
+          case AGENT_METHODS.authenticate:
+            return agent.authenticate(params as AuthenticateRequest);
+          case AGENT_METHODS.session_new:
+            return agent.newSession(params as NewSessionRequest);
+          case AGENT_METHODS.session_load:
+            return agent.loadSession(params as LoadSessionRequest);
+          case AGENT_METHODS.session_set_mode:
+            return agent.setSessionMode(params as SetSessionModeRequest);
+          case AGENT_METHODS.session_prompt:
+            return agent.prompt(params as PromptRequest);
+          case AGENT_METHODS.session_cancel:
+            return agent.cancel(params as CancelNotification);
+          default:
+            throw RequestError.methodNotFound(method);
+        }
+      },
+      input,
+      output,
+    );
   }
 
-  /**
-   * Streams part of an assistant response to the client
-   */
-  async streamAssistantMessageChunk(
-    params: StreamAssistantMessageChunkParams,
-  ): Promise<void> {
-    await this.#connection.sendRequest('streamAssistantMessageChunk', params);
+  async sessionUpdate(params: SessionNotification): Promise<void> {
+    await this.#connection.sendNotification(
+      CLIENT_METHODS.session_update,
+      params,
+    );
   }
 
-  /**
-   * Request confirmation before running a tool
-   *
-   * When allowed, the client returns a [`ToolCallId`] which can be used
-   * to update the tool call's `status` and `content` as it runs.
-   */
-  requestToolCallConfirmation(
-    params: RequestToolCallConfirmationParams,
-  ): Promise<RequestToolCallConfirmationResponse> {
-    return this.#connection.sendRequest('requestToolCallConfirmation', params);
+  requestPermission(
+    params: RequestPermissionRequest,
+  ): Promise<RequestPermissionResponse> {
+    return this.#connection.sendRequest(
+      CLIENT_METHODS.session_request_permission,
+      params,
+    );
   }
 
-  /**
-   * pushToolCall allows the agent to start a tool call
-   * when it does not need to request permission to do so.
-   *
-   * The returned id can be used to update the UI for the tool
-   * call as needed.
-   */
-  pushToolCall(params: PushToolCallParams): Promise<PushToolCallResponse> {
-    return this.#connection.sendRequest('pushToolCall', params);
+  readTextFile(params: ReadTextFileRequest): Promise<ReadTextFileResponse> {
+    return this.#connection.sendRequest(
+      CLIENT_METHODS.fs_read_text_file,
+      params,
+    );
   }
 
-  /**
-   * updateToolCall allows the agent to update the content and status of the tool call.
-   *
-   * The new content replaces what is currently displayed in the UI.
-   *
-   * The [`ToolCallId`] is included in the response of
-   * `pushToolCall` or `requestToolCallConfirmation` respectively.
-   */
-  async updateToolCall(params: UpdateToolCallParams): Promise<void> {
-    await this.#connection.sendRequest('updateToolCall', params);
+  async writeTextFile(params: WriteTextFileRequest): Promise<void> {
+    await this.#connection.sendRequest(
+      CLIENT_METHODS.fs_write_text_file,
+      params,
+    );
+  }
+}
+
+/**
+ * The connection of a client to an agent, the counterpart of
+ * `AgentSideConnection`.
+ */
+export class ClientSideConnection implements Agent {
+  #connection: Connection;
+
+  constructor(
+    toClient: (agent: Agent) => Client,
+    input: WritableStream<Uint8Array>,
+    output: ReadableStream<Uint8Array>,
+  ) {
+    const client = toClient(this);
+    this.#connection = new Connection(
+      async (method, params) => {
+        switch (method) {
+          case CLIENT_METHODS.session_update:
+            return client.sessionUpdate(params as SessionNotification);
+          case CLIENT_METHODS.session_request_permission:
+            return client.requestPermission(params as RequestPermissionRequest);
+          case CLIENT_METHODS.fs_read_text_file:
+            return client.readTextFile(params as ReadTextFileRequest);
+          case CLIENT_METHODS.fs_write_text_file:
+            return client.writeTextFile(params as WriteTextFileRequest);
+          default:
+            throw RequestError.methodNotFound(method);
+        }
+      },
+      input,
+      output,
+    );
+  }
+
+  initialize(params: InitializeRequest): Promise<InitializeResponse> {
+    return this.#connection.sendRequest(AGENT_METHODS.initialize, params);
+  }
+
+  async authenticate(params: AuthenticateRequest): Promise<void> {
+    await this.#connection.sendRequest(AGENT_METHODS.authenticate, params);
+  }
+
+  newSession(params: NewSessionRequest): Promise<NewSessionResponse> {
+    return this.#connection.sendRequest(AGENT_METHODS.session_new, params);
+  }
+
+  loadSession(params: LoadSessionRequest): Promise<LoadSessionResponse> {
+    return this.#connection.sendRequest(AGENT_METHODS.session_load, params);
+  }
+
+  async setSessionMode(params: SetSessionModeRequest): Promise<void> {
+    await this.#connection.sendRequest(AGENT_METHODS.session_set_mode, params);
+  }
+
+  prompt(params: PromptRequest): Promise<PromptResponse> {
+    return this.#connection.sendRequest(AGENT_METHODS.session_prompt, params);
+  }
+
+  async cancel(params: CancelNotification): Promise<void> {
+    await this.#connection.sendNotification(
+      AGENT_METHODS.session_cancel,
+      params,
+    );
   }
 }
 
-type AnyMessage = AnyRequest | AnyResponse;
+type AnyMessage = AnyRequest | AnyNotification | AnyResponse;
 
 type AnyRequest = {
+  jsonrpc: '2.0';
   id: number;
   method: string;
   params?: unknown;
 };
 
+type AnyNotification = {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+};
+
 type AnyResponse = { jsonrpc: '2.0'; id: number } & Result<unknown>;
 
 type Result<T> =
@@ -94,23 +198,25 @@ type PendingResponse = {
   reject: (error: ErrorResponse) => void;
 };
 
-class Connection<D> {
+type MethodHandler = (method: string, params?: unknown) => Promise<unknown>;
+
+class Connection {
   #pendingResponses: Map<number, PendingResponse> = new Map();
   #nextRequestId: number = 0;
-  #delegate: D;
+  #handler: MethodHandler;
   #peerInput: WritableStream<Uint8Array>;
   #writeQueue: Promise<void> = Promise.resolve();
   #textEncoder: TextEncoder;
 
   constructor(
-    delegate: D,
+    handler: MethodHandler,
     peerInput: WritableStream<Uint8Array>,
     peerOutput: ReadableStream<Uint8Array>,
   ) {
     this.#peerInput = peerInput;
     this.#textEncoder = new TextEncoder();
 
-    this.#delegate = delegate;
+    this.#handler = handler;
     this.#receive(peerOutput);
   }
 
@@ -126,7 +232,13 @@ class Connection<D> {
         const trimmedLine = line.trim();
 
         if (trimmedLine) {
-          const message = JSON.parse(trimmedLine);
+          let message: AnyMessage;
+          try {
+            message = JSON.parse(trimmedLine);
+          } catch (error) {
+            console.error('ACP received invalid JSON:', error);
+            continue;
+          }
           this.#processMessage(message);
         }
       }
@@ -135,32 +247,35 @@ class Connection<D> {
 
   async #processMessage(message: AnyMessage) {
     if ('method' in message) {
-      const response = await this.#tryCallDelegateMethod(
+      const response = await this.#tryCallHandler(
         message.method,
         message.params,
       );
 
-      await this.#sendMessage({
-        jsonrpc: '2.0',
-        id: message.id,
-        ...response,
-      });
+      if ('id' in message) {
+        await this.#sendMessage({
+          jsonrpc: '2.0',
+          id: message.id,
+          ...response,
+        });
+      } else if ('error' in response) {
+        // Notifications have no response to report errors in
+        console.error(
+          `ACP notification ${message.method} failed:`,
+          response.error,
+        );
+      }
     } else {
       this.#handleResponse(message);
     }
   }
 
-  async #tryCallDelegateMethod(
+  async #tryCallHandler(
     method: string,
     params?: unknown,
   ): Promise<Result<unknown>> {
-    const methodName = method as keyof D;
-    if (typeof this.#delegate[methodName] !== 'function') {
-      return RequestError.methodNotFound(method).toResult();
-    }
-
     try {
-      const result = await this.#delegate[methodName](params);
+      const result = await this.#handler(method, params);
       return { result: result ?? null };
     } catch (error: unknown) {
       if (error instanceof RequestError) {
@@ -205,6 +320,10 @@ class Connection<D> {
     return responsePromise as Promise<Resp>;
   }
 
+  async sendNotification<Req>(method: string, params?: Req): Promise<void> {
+    await this.#sendMessage({ jsonrpc: '2.0', method, params });
+  }
+
   async #sendMessage(json: AnyMessage) {
     const content = JSON.stringify(json) + '\n';
     this.#writeQueue = this.#writeQueue
@@ -259,6 +378,10 @@ export class RequestError extends Error {
     return new RequestError(-32603, 'Internal error', details);
   }
 
+  static authRequired(details?: string): RequestError {
+    return new RequestError(-32000, 'Authentication required', details);
+  }
+
   toResult<T>(): Result<T> {
     return {
       error: {
@@ -272,193 +395,343 @@ export class RequestError extends Error {
 
 // Protocol types
 
-export const LATEST_PROTOCOL_VERSION = '0.0.9';
-
-export type AssistantMessageChunk =
+export type ContentBlock =
   | {
+      type: 'text';
       text: string;
     }
   | {
-      thought: string;
-    };
-
-export type ToolCallConfirmation =
-  | {
-      description?: string | null;
-      type: 'edit';
+      type: 'image';
+      data: string;
+      mimeType: string;
+      uri?: string | null;
     }
   | {
-      description?: string | null;
-      type: 'execute';
-      command: string;
-      rootCommand: string;
+      type: 'audio';
+      data: string;
+      mimeType: string;
     }
   | {
+      type: 'resource_link';
+      uri: string;
+      name: string;
+      mimeType?: string | null;
       description?: string | null;
-      type: 'mcp';
-      serverName: string;
-      toolDisplayName: string;
-      toolName: string;
+      size?: number | null;
     }
   | {
-      description?: string | null;
-      type: 'fetch';
-      urls: string[];
+      type: 'resource';
+      resource: EmbeddedResource;
+    };
+
+export type EmbeddedResource =
+  | {
+      uri: string;
+      text: string;
+      mimeType?: string | null;
     }
   | {
-      description: string;
-      type: 'other';
+      uri: string;
+      blob: string;
+      mimeType?: string | null;
     };
 
+export type ToolKind =
+  | 'read'
+  | 'edit'
+  | 'delete'
+  | 'move'
+  | 'search'
+  | 'execute'
+  | 'think'
+  | 'fetch'
+  | 'other';
+
+export type ToolCallStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
 export type ToolCallContent =
   | {
-      type: 'markdown';
-      markdown: string;
+      type: 'content';
+      content: ContentBlock;
     }
   | {
       type: 'diff';
-      newText: string;
-      oldText: string | null;
       path: string;
+      oldText: string | null;
+      newText: string;
     };
 
-export type ToolCallStatus = 'running' | 'finished' | 'error';
+export interface ToolCallLocation {
+  path: string;
+  line?: number | null;
+}
 
-export type ToolCallId = number;
+export interface ToolCall {
+  toolCallId: string;
+  title: string;
+  kind?: ToolKind;
+  status?: ToolCallStatus;
+  content?: ToolCallContent[];
+  locations?: ToolCallLocation[];
+  rawInput?: unknown;
+}
 
-export type ToolCallConfirmationOutcome =
-  | 'allow'
-  | 'alwaysAllow'
-  | 'alwaysAllowMcpServer'
-  | 'alwaysAllowTool'
-  | 'reject'
-  | 'cancel';
+/** Changes to a tool call. Fields that are left out keep their value. */
+export interface ToolCallUpdate {
+  toolCallId: string;
+  title?: string | null;
+  kind?: ToolKind | null;
+  status?: ToolCallStatus | null;
+  content?: ToolCallContent[] | null;
+  locations?: ToolCallLocation[] | null;
+  rawInput?: unknown;
+}
 
-/**
- * A part in a user message
- */
-export type UserMessageChunk =
+export type SessionUpdate =
   | {
-      text: string;
+      sessionUpdate: 'user_message_chunk';
+      content: ContentBlock;
     }
   | {
-      path: string;
+      sessionUpdate: 'agent_message_chunk';
+      content: ContentBlock;
+    }
+  | {
+      sessionUpdate: 'agent_thought_chunk';
+      content: ContentBlock;
+    }
+  | ({ sessionUpdate: 'tool_call' } & ToolCall)
+  | ({ sessionUpdate: 'tool_call_update' } & ToolCallUpdate)
+  | {
+      sessionUpdate: 'current_mode_update';
+      currentModeId: string;
     };
 
-export interface StreamAssistantMessageChunkParams {
-  chunk: AssistantMessageChunk;
+export interface SessionNotification {
+  sessionId: string;
+  update: SessionUpdate;
 }
 
-export interface RequestToolCallConfirmationParams {
-  confirmation: ToolCallConfirmation;
-  content?: ToolCallContent | null;
-  icon: Icon;
-  label: string;
-  locations?: ToolCallLocation[];
+export interface PermissionOption {
+  optionId: string;
+  name: string;
+  kind: 'allow_once' | 'allow_always' | 'reject_once' | 'reject_always';
 }
 
-export interface ToolCallLocation {
-  line?: number | null;
+export interface RequestPermissionRequest {
+  sessionId: string;
+  toolCall: ToolCallUpdate;
+  options: PermissionOption[];
+}
+
+export interface RequestPermissionResponse {
+  outcome:
+    | {
+        outcome: 'cancelled';
+      }
+    | {
+        outcome: 'selected';
+        optionId: string;
+      };
+}
+
+export interface ReadTextFileRequest {
+  sessionId: string;
   path: string;
+  line?: number | null;
+  limit?: number | null;
 }
 
-export interface PushToolCallParams {
-  content?: ToolCallContent | null;
-  icon: Icon;
-  label: string;
-  locations?: ToolCallLocation[];
+export interface ReadTextFileResponse {
+  content: string;
 }
 
-export interface UpdateToolCallParams {
-  content: ToolCallContent | null;
-  status: ToolCallStatus;
-  toolCallId: ToolCallId;
+export interface WriteTextFileRequest {
+  sessionId: string;
+  path: string;
+  content: string;
 }
 
-export interface RequestToolCallConfirmationResponse {
-  id: ToolCallId;
-  outcome: ToolCallConfirmationOutcome;
+export interface FileSystemCapability {
+  readTextFile?: boolean;
+  writeTextFile?: boolean;
 }
 
-export interface PushToolCallResponse {
-  id: ToolCallId;
+export interface ClientCapabilities {
+  fs?: FileSystemCapability;
 }
 
-export interface InitializeParams {
+export interface InitializeRequest {
   /**
-   * The version of the protocol that the client supports.
-   * This should be the latest version supported by the client.
+   * The latest version of the protocol that the client supports.
    */
-  protocolVersion: string;
+  protocolVersion: number;
+  clientCapabilities?: ClientCapabilities;
 }
 
-export interface SendUserMessageParams {
-  chunks: UserMessageChunk[];
+export interface AuthMethod {
+  id: string;
+  name: string;
+  description?: string | null;
+}
+
+export interface AgentCapabilities {
+  loadSession?: boolean;
+  promptCapabilities?: {
+    image?: boolean;
+    audio?: boolean;
+    embeddedContext?: boolean;
+  };
 }
 
 export interface InitializeResponse {
   /**
-   * Indicates whether the agent is authenticated and
-   * ready to handle requests.
+   * The version of the protocol that the agent supports. If the agent supports
+   * the requested version, it responds with the same version. Otherwise, it
+   * responds with the latest version it supports.
    */
-  isAuthenticated: boolean;
+  protocolVersion: number;
+  agentCapabilities: AgentCapabilities;
   /**
-   * The version of the protocol that the agent supports.
-   * If the agent supports the requested version, it should respond with the same version.
-   * Otherwise, the agent should respond with the latest version it supports.
+   * The ways the client can authenticate the agent with `authenticate`.
    */
-  protocolVersion: string;
+  authMethods: AuthMethod[];
 }
 
-export interface Error {
-  code: number;
-  data?: unknown;
-  message: string;
+export interface AuthenticateRequest {
+  methodId: string;
+}
+
+/** An MCP server for the agent to connect to in a session. */
+export interface McpServer {
+  name: string;
+  command: string;
+  args: string[];
+  env: Array<{ name: string; value: string }>;
+}
+
+export interface SessionMode {
+  id: string;
+  name: string;
+  description?: string | null;
+}
+
+export interface SessionModeState {
+  currentModeId: string;
+  availableModes: SessionMode[];
+}
+
+export interface NewSessionRequest {
+  /** The absolute path of the directory the session works in. */
+  cwd: string;
+  mcpServers: McpServer[];
+}
+
+export interface NewSessionResponse {
+  sessionId: string;
+  modes?: SessionModeState | null;
+}
+
+export interface LoadSessionRequest {
+  sessionId: string;
+  cwd: string;
+  mcpServers: McpServer[];
+}
+
+export interface LoadSessionResponse {
+  modes?: SessionModeState | null;
+}
+
+export interface SetSessionModeRequest {
+  sessionId: string;
+  modeId: string;
+}
+
+export interface PromptRequest {
+  sessionId: string;
+  prompt: ContentBlock[];
+}
+
+export type StopReason =
+  | 'end_turn'
+  | 'max_tokens'
+  | 'max_turn_requests'
+  | 'refusal'
+  | 'cancelled';
+
+export interface PromptResponse {
+  stopReason: StopReason;
+}
+
+export interface CancelNotification {
+  sessionId: string;
 }
 
 export interface Client {
-  streamAssistantMessageChunk(
-    params: StreamAssistantMessageChunkParams,
-  ): Promise<void>;
+  /**
+   * Reports progress of a session: message chunks, tool calls and mode
+   * changes.
+   */
+  sessionUpdate(params: SessionNotification): Promise<void>;
 
-  requestToolCallConfirmation(
-    params: RequestToolCallConfirmationParams,
-  ): Promise<RequestToolCallConfirmationResponse>;
+  /**
+   * Asks the user for permission to run a tool call.
+   */
+  requestPermission(
+    params: RequestPermissionRequest,
+  ): Promise<RequestPermissionResponse>;
 
-  pushToolCall(params: PushToolCallParams): Promise<PushToolCallResponse>;
+  /**
+   * Reads a file, including changes that are not saved yet. Only called when
+   * the client advertises the `fs.readTextFile` capability.
+   */
+  readTextFile(params: ReadTextFileRequest): Promise<ReadTextFileResponse>;
 
-  updateToolCall(params: UpdateToolCallParams): Promise<void>;
+  /**
+   * Writes a file. Only called when the client advertises the
+   * `fs.writeTextFile` capability.
+   */
+  writeTextFile(params: WriteTextFileRequest): Promise<void>;
 }
 
 export interface Agent {
   /**
-   * Initializes the agent's state. It should be called before any other method,
-   * and no other methods should be called until it has completed.
-   *
-   * If the agent is not authenticated, then the client should prompt the user to authenticate,
-   * and then call the `authenticate` method.
-   * Otherwise the client can send other messages to the agent.
+   * Negotiates the protocol version and capabilities. It is called before any
+   * other method.
+   */
+  initialize(params: InitializeRequest): Promise<InitializeResponse>;
+
+  /**
+   * Authenticates with one of the methods returned by `initialize`. Called
+   * when creating a session fails because authentication is required.
+   */
+  authenticate(params: AuthenticateRequest): Promise<void>;
+
+  /**
+   * Creates a session.
+   */
+  newSession(params: NewSessionRequest): Promise<NewSessionResponse>;
+
+  /**
+   * Resumes a saved session. The conversation so far is replayed to the
+   * client as session updates before the response.
    */
-  initialize(params: InitializeParams): Promise<InitializeResponse>;
+  loadSession(params: LoadSessionRequest): Promise<LoadSessionResponse>;
 
   /**
-   * Begins the authentication process.
-   *
-   * This method should only be called if `initialize` indicates the user isn't already authenticated.
-   * The Promise MUST not resolve until authentication is complete.
+   * Switches the mode of a session, which decides which tool calls need
+   * permission.
    */
-  authenticate(): Promise<void>;
+  setSessionMode(params: SetSessionModeRequest): Promise<void>;
 
   /**
-   * Allows the user to send a message to the agent.
-   * This method should complete after the agent is finished, during
-   * which time the agent may update the client by calling
-   * streamAssistantMessageChunk and other methods.
+   * Sends a message from the user. Completes when the agent's turn is over,
+   * during which the agent reports progress with `sessionUpdate`.
    */
-  sendUserMessage(params: SendUserMessageParams): Promise<void>;
+  prompt(params: PromptRequest): Promise<PromptResponse>;
 
   /**
-   * Cancels the current generation.
+   * Cancels the running prompt of a session.
    */
-  cancelSendMessage(): Promise<void>;
+  cancel(params: CancelNotification): Promise<void>;
 }
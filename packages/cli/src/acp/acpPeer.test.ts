@@ -0,0 +1,610 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { TransformStream } from 'node:stream/web';
+import { Content, GenerateContentResponse } from '@google/genai';
+import {
+  ApprovalMode,
+  AuthType,
+  BaseTool,
+  FileSystemService,
+  HookEventName,
+  HookRunner,
+  Icon,
+  StandardFileSystemService,
+  ToolCallConfirmationDetails,
+  ToolLocation,
+  ToolResult,
+} from '@qwen-code/qwen-code-core';
+import * as acp from './acp.js';
+import { GeminiAgent } from './acpPeer.js';
+import { AcpFileSystemService } from './fileSystemService.js';
+import { loadCliConfig, CliArgs } from '../config/config.js';
+import { LoadedSettings } from '../config/settings.js';
+
+const savedHistories = vi.hoisted(() => new Map<string, Content[]>());
+
+vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@qwen-code/qwen-code-core')>();
+  return {
+    ...actual,
+    logToolCall: vi.fn(),
+    clearCachedCredentialFile: vi.fn(),
+    Logger: class {
+      constructor(private readonly sessionId: string) {}
+      async initialize() {}
+      async saveSessionHistory(history: Content[]) {
+        savedHistories.set(this.sessionId, history);
+      }
+      async loadSessionHistory(sessionId: string) {
+        return savedHistories.get(sessionId) ?? [];
+      }
+      close() {}
+    },
+  };
+});
+
+vi.mock('../config/config.js', () => ({
+  loadCliConfig: vi.fn(),
+}));
+
+class EditTool extends BaseTool<{ file_path: string }, ToolResult> {
+  fileSystemService?: FileSystemService;
+
+  constructor() {
+    super('edit', 'Edit', 'Edits a file', Icon.Pencil, {});
+  }
+
+  override getDescription(params: { file_path: string }): string {
+    return `Edit ${params.file_path}`;
+  }
+
+  override toolLocations(params: { file_path: string }): ToolLocation[] {
+    return [{ path: params.file_path }];
+  }
+
+  override async shouldConfirmExecute(params: {
+    file_path: string;
+  }): Promise<ToolCallConfirmationDetails | false> {
+    return {
+      type: 'edit',
+      title: 'Confirm Edit',
+      fileName: 'a.txt',
+      filePath: params.file_path,
+      fileDiff: '',
+      originalContent: 'old',
+      newContent: 'new',
+      onConfirm: async () => {},
+    };
+  }
+
+  execute = vi.fn(
+    async (params: { file_path: string }): Promise<ToolResult> => {
+      const content = await this.fileSystemService!.readTextFile(
+        params.file_path,
+      );
+      await this.fileSystemService!.writeTextFile(
+        params.file_path,
+        content.replace('old', 'new'),
+      );
+      return { llmContent: 'Edited', returnDisplay: 'Edited' };
+    },
+  );
+}
+
+function response(
+  parts: Array<{ text?: string; thought?: boolean }>,
+  functionCalls?: Array<{ id: string; name: string; args: object }>,
+): GenerateContentResponse {
+  return {
+    candidates: [{ content: { role: 'model', parts } }],
+    functionCalls,
+  } as GenerateContentResponse;
+}
+
+async function* stream(responses: GenerateContentResponse[]) {
+  for (const resp of responses) {
+    yield resp;
+  }
+}
+
+class FakeClient implements acp.Client {
+  updates: acp.SessionNotification[] = [];
+  permissionRequests: acp.RequestPermissionRequest[] = [];
+  permissionResponse: acp.RequestPermissionResponse = {
+    outcome: { outcome: 'selected', optionId: 'proceed_once' },
+  };
+  files = new Map<string, string>();
+
+  async sessionUpdate(params: acp.SessionNotification): Promise<void> {
+    this.updates.push(params);
+  }
+
+  async requestPermission(
+    params: acp.RequestPermissionRequest,
+  ): Promise<acp.RequestPermissionResponse> {
+    this.permissionRequests.push(params);
+    return this.permissionResponse;
+  }
+
+  async readTextFile({
+    path,
+  }: acp.ReadTextFileRequest): Promise<acp.ReadTextFileResponse> {
+    return { content: this.files.get(path) ?? '' };
+  }
+
+  async writeTextFile({
+    path,
+    content,
+  }: acp.WriteTextFileRequest): Promise<void> {
+    this.files.set(path, content);
+  }
+}
+
+describe('GeminiAgent over ACP', () => {
+  let agent: acp.ClientSideConnection;
+  let client: FakeClient;
+  let tool: EditTool;
+  let approvalMode: ApprovalMode;
+  let sendMessageStream: ReturnType<typeof vi.fn>;
+  let history: Content[];
+  let fileSystemService: FileSystemService;
+  let hookRunner: HookRunner;
+
+  // Waits for the notifications that are still on their way to the client
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    savedHistories.clear();
+    tool = new EditTool();
+    approvalMode = ApprovalMode.DEFAULT;
+    history = [];
+    fileSystemService = new StandardFileSystemService();
+    sendMessageStream = vi.fn();
+    hookRunner = new HookRunner({}, 'test-session-id', '/project');
+
+    const config = {
+      initialize: vi.fn(),
+      refreshAuth: vi.fn(),
+      getApprovalMode: () => approvalMode,
+      setApprovalMode: (mode: ApprovalMode) => {
+        approvalMode = mode;
+      },
+      getTargetDir: () => '/project',
+      getDebugMode: () => false,
+      getFileSystemService: () => fileSystemService,
+      setFileSystemService: (service: FileSystemService) => {
+        fileSystemService = service;
+        tool.fileSystemService = service;
+      },
+      getToolRegistry: async () => ({
+        getTool: (name: string) => (name === 'edit' ? tool : undefined),
+        getFunctionDeclarations: () => [tool.schema],
+      }),
+      getGeminiClient: () => ({
+        getChat: () => ({ sendMessageStream, addHistory: vi.fn() }),
+        getHistory: () => history,
+      }),
+      getHookRunner: () => hookRunner,
+    };
+    vi.mocked(loadCliConfig).mockResolvedValue(
+      config as unknown as Awaited<ReturnType<typeof loadCliConfig>>,
+    );
+
+    const settings = {
+      merged: { selectedAuthType: AuthType.USE_OPENAI, mcpServers: {} },
+      setValue: vi.fn(),
+    } as unknown as LoadedSettings;
+
+    const toAgent = new TransformStream<Uint8Array, Uint8Array>();
+    const toClient = new TransformStream<Uint8Array, Uint8Array>();
+    client = new FakeClient();
+    new acp.AgentSideConnection(
+      (conn) =>
+        new GeminiAgent(config as never, settings, [], {} as CliArgs, conn),
+      toClient.writable,
+      toAgent.readable,
+    );
+    agent = new acp.ClientSideConnection(
+      () => client,
+      toAgent.writable,
+      toClient.readable,
+    );
+  });
+
+  const initialize = () =>
+    agent.initialize({
+      protocolVersion: acp.PROTOCOL_VERSION,
+      clientCapabilities: { fs: { readTextFile: true, writeTextFile: true } },
+    });
+
+  it('initializes with the protocol version and capabilities', async () => {
+    const result = await initialize();
+
+    expect(result.protocolVersion).toBe(acp.PROTOCOL_VERSION);
+    expect(result.agentCapabilities?.loadSession).toBe(true);
+    expect(result.authMethods.map((method) => method.id)).toContain(
+      AuthType.USE_OPENAI,
+    );
+  });
+
+  it('rejects unknown authentication methods', async () => {
+    await initialize();
+
+    await expect(agent.authenticate({ methodId: 'nope' })).rejects.toEqual(
+      expect.objectContaining({ code: -32602 }),
+    );
+  });
+
+  it('creates independent sessions with the available modes', async () => {
+    await initialize();
+
+    const first = await agent.newSession({ cwd: '/project', mcpServers: [] });
+    const second = await agent.newSession({
+      cwd: '/project',
+      mcpServers: [{ name: 'srv', command: 'node', args: [], env: [] }],
+    });
+
+    expect(first.sessionId).not.toBe(second.sessionId);
+    expect(first.modes?.currentModeId).toBe(ApprovalMode.DEFAULT);
+    expect(first.modes?.availableModes.map((mode) => mode.id)).toEqual([
+      ApprovalMode.DEFAULT,
+      ApprovalMode.AUTO_EDIT,
+      ApprovalMode.YOLO,
+    ]);
+    expect(vi.mocked(loadCliConfig).mock.calls[1][0].mcpServers).toEqual({
+      srv: expect.objectContaining({ command: 'node' }),
+    });
+    expect(vi.mocked(loadCliConfig).mock.calls[1][5]).toBe('/project');
+  });
+
+  it('rejects relative session directories', async () => {
+    await initialize();
+
+    await expect(
+      agent.newSession({ cwd: 'project', mcpServers: [] }),
+    ).rejects.toEqual(expect.objectContaining({ code: -32602 }));
+  });
+
+  it('streams the reply of the model', async () => {
+    await initialize();
+    const { sessionId } = await agent.newSession({
+      cwd: '/project',
+      mcpServers: [],
+    });
+    sendMessageStream.mockResolvedValueOnce(
+      stream([response([{ text: 'thinking', thought: true }, { text: 'Hi' }])]),
+    );
+
+    const result = await agent.prompt({
+      sessionId,
+      prompt: [{ type: 'text', text: 'Hello' }],
+    });
+    await flush();
+
+    expect(result.stopReason).toBe('end_turn');
+    expect(sendMessageStream.mock.calls[0][0].message).toEqual([
+      { text: 'Hello' },
+    ]);
+    expect(client.updates.map((update) => update.update)).toEqual([
+      {
+        sessionUpdate: 'agent_thought_chunk',
+        content: { type: 'text', text: 'thinking' },
+      },
+      {
+        sessionUpdate: 'agent_message_chunk',
+        content: { type: 'text', text: 'Hi' },
+      },
+    ]);
+  });
+
+  it('asks the client for permission and edits files through it', async () => {
+    await initialize();
+    const { sessionId } = await agent.newSession({
+      cwd: '/project',
+      mcpServers: [],
+    });
+    const filePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'acp-')),
+      'a.txt',
+    );
+    fs.writeFileSync(filePath, 'old text on disk');
+    // The editor has unsaved changes
+    client.files.set(filePath, 'old text in editor');
+    sendMessageStream
+      .mockResolvedValueOnce(
+        stream([
+          response(
+            [],
+            [
+              {
+                id: 'call-1',
+                name: 'edit',
+                args: { file_path: filePath },
+              },
+            ],
+          ),
+        ]),
+      )
+      .mockResolvedValueOnce(stream([response([{ text: 'Done' }])]));
+
+    const result = await agent.prompt({
+      sessionId,
+      prompt: [{ type: 'text', text: 'Edit a.txt' }],
+    });
+    await flush();
+
+    expect(result.stopReason).toBe('end_turn');
+    expect(fileSystemService).toBeInstanceOf(AcpFileSystemService);
+    expect(client.files.get(filePath)).toBe('new text in editor');
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('old text on disk');
+    expect(client.permissionRequests).toHaveLength(1);
+    const [request] = client.permissionRequests;
+    expect(request.toolCall).toMatchObject({
+      toolCallId: 'call-1',
+      title: `Edit ${filePath}`,
+      kind: 'edit',
+      status: 'pending',
+      locations: [{ path: filePath }],
+      content: [
+        {
+          type: 'diff',
+          path: filePath,
+          oldText: 'old',
+          newText: 'new',
+        },
+      ],
+    });
+    expect(request.options.map((option) => option.kind)).toEqual([
+      'allow_once',
+      'allow_always',
+      'reject_once',
+    ]);
+    expect(
+      client.updates
+        .map(({ update }) => update)
+        .filter((update) => update.sessionUpdate === 'tool_call_update'),
+    ).toEqual([
+      expect.objectContaining({ toolCallId: 'call-1', status: 'in_progress' }),
+      expect.objectContaining({
+        toolCallId: 'call-1',
+        status: 'completed',
+        content: [
+          { type: 'content', content: { type: 'text', text: 'Edited' } },
+        ],
+      }),
+    ]);
+    const functionResponse =
+      sendMessageStream.mock.calls[1][0].message[0].functionResponse;
+    expect(functionResponse.id).toBe('call-1');
+
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  it('does not run tool calls the client rejects', async () => {
+    await initialize();
+    const { sessionId } = await agent.newSession({
+      cwd: '/project',
+      mcpServers: [],
+    });
+    client.permissionResponse = {
+      outcome: { outcome: 'selected', optionId: 'cancel' },
+    };
+    sendMessageStream
+      .mockResolvedValueOnce(
+        stream([
+          response(
+            [],
+            [
+              {
+                id: 'call-1',
+                name: 'edit',
+                args: { file_path: '/project/a.txt' },
+              },
+            ],
+          ),
+        ]),
+      )
+      .mockResolvedValueOnce(stream([response([{ text: 'OK' }])]));
+
+    await agent.prompt({ sessionId, prompt: [{ type: 'text', text: 'Edit' }] });
+    await flush();
+
+    expect(tool.execute).not.toHaveBeenCalled();
+    expect(
+      sendMessageStream.mock.calls[1][0].message[0].functionResponse.response,
+    ).toEqual({ error: 'Tool "edit" not allowed to run by the user.' });
+    expect(client.updates.at(-2)?.update).toMatchObject({
+      sessionUpdate: 'tool_call_update',
+      status: 'failed',
+    });
+  });
+
+  it('does not run tool calls that a PreToolUse hook blocks', async () => {
+    await initialize();
+    const { sessionId } = await agent.newSession({
+      cwd: '/project',
+      mcpServers: [],
+    });
+    vi.spyOn(hookRunner, 'hasHooks').mockImplementation(
+      (event) => event === HookEventName.PreToolUse,
+    );
+    const runHooks = vi.spyOn(hookRunner, 'run').mockResolvedValue({
+      decision: 'deny',
+      reason: 'Edits are frozen.',
+    });
+    sendMessageStream
+      .mockResolvedValueOnce(
+        stream([
+          response(
+            [],
+            [
+              {
+                id: 'call-1',
+                name: 'edit',
+                args: { file_path: '/project/a.txt' },
+              },
+            ],
+          ),
+        ]),
+      )
+      .mockResolvedValueOnce(stream([response([{ text: 'OK' }])]));
+
+    await agent.prompt({ sessionId, prompt: [{ type: 'text', text: 'Edit' }] });
+    await flush();
+
+    expect(runHooks).toHaveBeenCalledWith(
+      HookEventName.PreToolUse,
+      { tool_name: 'edit', tool_input: { file_path: '/project/a.txt' } },
+      expect.any(AbortSignal),
+    );
+    expect(tool.execute).not.toHaveBeenCalled();
+    expect(client.permissionRequests).toHaveLength(0);
+    expect(
+      sendMessageStream.mock.calls[1][0].message[0].functionResponse.response,
+    ).toEqual({
+      error: 'Tool call blocked by a PreToolUse hook: Edits are frozen.',
+    });
+  });
+
+  it('switches modes and skips permission requests in YOLO mode', async () => {
+    await initialize();
+    const { sessionId } = await agent.newSession({
+      cwd: '/project',
+      mcpServers: [],
+    });
+
+    await agent.setSessionMode({ sessionId, modeId: ApprovalMode.YOLO });
+    sendMessageStream
+      .mockResolvedValueOnce(
+        stream([
+          response(
+            [],
+            [
+              {
+                id: 'call-1',
+                name: 'edit',
+                args: { file_path: '/project/a.txt' },
+              },
+            ],
+          ),
+        ]),
+      )
+      .mockResolvedValueOnce(stream([response([{ text: 'Done' }])]));
+    await agent.prompt({ sessionId, prompt: [{ type: 'text', text: 'Edit' }] });
+    await flush();
+
+    expect(approvalMode).toBe(ApprovalMode.YOLO);
+    expect(client.updates[0].update).toEqual({
+      sessionUpdate: 'current_mode_update',
+      currentModeId: ApprovalMode.YOLO,
+    });
+    expect(client.permissionRequests).toHaveLength(0);
+    expect(client.updates[1].update).toMatchObject({
+      sessionUpdate: 'tool_call',
+      toolCallId: 'call-1',
+      status: 'in_progress',
+    });
+    await expect(
+      agent.setSessionMode({ sessionId, modeId: 'plan' }),
+    ).rejects.toEqual(expect.objectContaining({ code: -32602 }));
+  });
+
+  it('loads a saved session and replays its history', async () => {
+    await initialize();
+    const { sessionId } = await agent.newSession({
+      cwd: '/project',
+      mcpServers: [],
+    });
+    history = [
+      { role: 'user', parts: [{ text: 'This is the context for our chat.' }] },
+      { role: 'model', parts: [{ text: 'Got it.' }] },
+      { role: 'user', parts: [{ text: 'Hello' }] },
+      {
+        role: 'model',
+        parts: [
+          { text: 'Hi' },
+          {
+            functionCall: {
+              id: 'call-1',
+              name: 'edit',
+              args: { file_path: '/project/a.txt' },
+            },
+          },
+        ],
+      },
+    ];
+    sendMessageStream.mockResolvedValueOnce(stream([response([])]));
+    await agent.prompt({
+      sessionId,
+      prompt: [{ type: 'text', text: 'Hello' }],
+    });
+    client.updates = [];
+
+    await agent.loadSession({ sessionId, cwd: '/project', mcpServers: [] });
+    await flush();
+
+    expect(vi.mocked(loadCliConfig).mock.calls[1][4]).toEqual(history);
+    expect(client.updates.map(({ update }) => update)).toEqual([
+      {
+        sessionUpdate: 'user_message_chunk',
+        content: { type: 'text', text: 'Hello' },
+      },
+      {
+        sessionUpdate: 'agent_message_chunk',
+        content: { type: 'text', text: 'Hi' },
+      },
+      expect.objectContaining({
+        sessionUpdate: 'tool_call',
+        toolCallId: 'call-1',
+        kind: 'edit',
+        status: 'completed',
+      }),
+    ]);
+  });
+
+  it('fails to load unknown sessions', async () => {
+    await initialize();
+
+    await expect(
+      agent.loadSession({ sessionId: 'nope', cwd: '/project', mcpServers: [] }),
+    ).rejects.toEqual(expect.objectContaining({ code: -32602 }));
+  });
+
+  it('cancels a running prompt', async () => {
+    await initialize();
+    const { sessionId } = await agent.newSession({
+      cwd: '/project',
+      mcpServers: [],
+    });
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    sendMessageStream.mockImplementationOnce(async () =>
+      (async function* () {
+        await released;
+        yield response([{ text: 'Too late' }]);
+      })(),
+    );
+
+    const result = agent.prompt({
+      sessionId,
+      prompt: [{ type: 'text', text: 'Hello' }],
+    });
+    await flush();
+    await agent.cancel({ sessionId });
+    await flush();
+    release();
+
+    expect((await result).stopReason).toBe('cancelled');
+    expect(client.updates).toHaveLength(0);
+  });
+});
@@ -5,11 +5,16 @@
  */
 
 import { WritableStream, ReadableStream } from 'node:stream/web';
+import { randomUUID } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
 
 import {
+  ApprovalMode,
   AuthType,
   Config,
-  GeminiChat,
+  Icon,
+  Logger,
+  MCPServerConfig,
   ToolRegistry,
   logToolCall,
   ToolResult,
@@ -21,16 +26,27 @@ import {
   getErrorMessage,
   isWithinRoot,
   getErrorStatus,
+  terminalLinesToText,
+  runPreToolUseHooks,
+  runPostToolUseHooks,
+  addResponseNotes,
 } from '@qwen-code/qwen-code-core';
 import * as acp from './acp.js';
-import { Agent } from './acp.js';
+import { AcpFileSystemService } from './fileSystemService.js';
 import { Readable, Writable } from 'node:stream';
 import { Content, Part, FunctionCall, PartListUnion } from '@google/genai';
 import { LoadedSettings, SettingScope } from '../config/settings.js';
+import { CliArgs, loadCliConfig } from '../config/config.js';
+import { Extension } from '../config/extension.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
-export async function runAcpPeer(config: Config, settings: LoadedSettings) {
+export async function runAcpPeer(
+  config: Config,
+  settings: LoadedSettings,
+  extensions: Extension[],
+  argv: CliArgs,
+) {
   const stdout = Writable.toWeb(process.stdout) as WritableStream;
   const stdin = Readable.toWeb(process.stdin) as ReadableStream<Uint8Array>;
 
@@ -40,156 +56,409 @@ export async function runAcpPeer(config: Config, settings: LoadedSettings) {
   console.info = console.error;
   console.debug = console.error;
 
-  new acp.ClientConnection(
-    (client: acp.Client) => new GeminiAgent(config, settings, client),
+  new acp.AgentSideConnection(
+    (client: acp.Client) =>
+      new GeminiAgent(config, settings, extensions, argv, client),
     stdout,
     stdin,
   );
 }
 
-class GeminiAgent implements Agent {
-  chat?: GeminiChat;
-  pendingSend?: AbortController;
+const AUTH_METHODS: acp.AuthMethod[] = [
+  {
+    id: AuthType.QWEN_OAUTH,
+    name: 'Qwen OAuth',
+    description: 'Log in with your qwen.ai account in the browser',
+  },
+  {
+    id: AuthType.LOGIN_WITH_GOOGLE,
+    name: 'Log in with Google',
+    description: 'Log in with your Google account in the browser',
+  },
+  {
+    id: AuthType.USE_OPENAI,
+    name: 'OpenAI-compatible API',
+    description: 'Requires OPENAI_API_KEY to be set',
+  },
+  {
+    id: AuthType.USE_GEMINI,
+    name: 'Gemini API key',
+    description: 'Requires GEMINI_API_KEY to be set',
+  },
+];
+
+const SESSION_MODES: acp.SessionMode[] = [
+  {
+    id: ApprovalMode.DEFAULT,
+    name: 'Default',
+    description: 'Ask before editing files or running commands',
+  },
+  {
+    id: ApprovalMode.AUTO_EDIT,
+    name: 'Auto Edit',
+    description: 'Edit files without asking',
+  },
+  {
+    id: ApprovalMode.YOLO,
+    name: 'YOLO',
+    description: 'Run every tool call without asking',
+  },
+];
+
+export class GeminiAgent implements acp.Agent {
+  #sessions = new Map<string, Session>();
+  #clientCapabilities: acp.ClientCapabilities = {};
 
   constructor(
     private config: Config,
     private settings: LoadedSettings,
+    private extensions: Extension[],
+    private argv: CliArgs,
     private client: acp.Client,
   ) {}
 
-  async initialize(_: acp.InitializeParams): Promise<acp.InitializeResponse> {
-    let isAuthenticated = false;
-    if (this.settings.merged.selectedAuthType) {
-      try {
-        await this.config.refreshAuth(this.settings.merged.selectedAuthType);
-        isAuthenticated = true;
-      } catch (error) {
-        console.error('Failed to refresh auth:', error);
-      }
-    }
-    return { protocolVersion: acp.LATEST_PROTOCOL_VERSION, isAuthenticated };
+  async initialize(
+    params: acp.InitializeRequest,
+  ): Promise<acp.InitializeResponse> {
+    this.#clientCapabilities = params.clientCapabilities ?? {};
+    return {
+      protocolVersion: acp.PROTOCOL_VERSION,
+      agentCapabilities: {
+        loadSession: true,
+        promptCapabilities: { image: true, audio: true, embeddedContext: true },
+      },
+      authMethods: AUTH_METHODS,
+    };
   }
 
-  async authenticate(): Promise<void> {
+  async authenticate({ methodId }: acp.AuthenticateRequest): Promise<void> {
+    if (!AUTH_METHODS.some((method) => method.id === methodId)) {
+      throw acp.RequestError.invalidParams(
+        `Unknown authentication method: ${methodId}`,
+      );
+    }
+    const authType = methodId as AuthType;
     await clearCachedCredentialFile();
-    await this.config.refreshAuth(AuthType.LOGIN_WITH_GOOGLE);
-    this.settings.setValue(
-      SettingScope.User,
-      'selectedAuthType',
-      AuthType.LOGIN_WITH_GOOGLE,
+    await this.config.refreshAuth(authType);
+    this.settings.setValue(SettingScope.User, 'selectedAuthType', authType);
+  }
+
+  async newSession({
+    cwd,
+    mcpServers,
+  }: acp.NewSessionRequest): Promise<acp.NewSessionResponse> {
+    const sessionId = randomUUID();
+    const session = await this.#createSession(sessionId, cwd, mcpServers);
+    return { sessionId, modes: session.getModes() };
+  }
+
+  async loadSession({
+    sessionId,
+    cwd,
+    mcpServers,
+  }: acp.LoadSessionRequest): Promise<acp.LoadSessionResponse> {
+    const logger = new Logger(sessionId, cwd);
+    let history: Content[];
+    try {
+      await logger.initialize();
+      history = await logger.loadSessionHistory(sessionId);
+    } finally {
+      logger.close();
+    }
+    if (history.length === 0) {
+      throw acp.RequestError.invalidParams(
+        `No session found with ID: ${sessionId}`,
+      );
+    }
+
+    const session = await this.#createSession(
+      sessionId,
+      cwd,
+      mcpServers,
+      history,
     );
+    await session.replayHistory(history);
+    return { modes: session.getModes() };
+  }
+
+  async setSessionMode({
+    sessionId,
+    modeId,
+  }: acp.SetSessionModeRequest): Promise<void> {
+    await this.#getSession(sessionId).setMode(modeId);
   }
 
-  async cancelSendMessage(): Promise<void> {
-    if (!this.pendingSend) {
-      throw new Error('Not currently generating');
+  async prompt(params: acp.PromptRequest): Promise<acp.PromptResponse> {
+    return this.#getSession(params.sessionId).prompt(params.prompt);
+  }
+
+  async cancel({ sessionId }: acp.CancelNotification): Promise<void> {
+    this.#getSession(sessionId).cancelPendingPrompt();
+  }
+
+  #getSession(sessionId: string): Session {
+    const session = this.#sessions.get(sessionId);
+    if (!session) {
+      throw acp.RequestError.invalidParams(`Unknown session: ${sessionId}`);
     }
+    return session;
+  }
 
-    this.pendingSend.abort();
-    delete this.pendingSend;
+  async #createSession(
+    sessionId: string,
+    cwd: string,
+    mcpServers: acp.McpServer[],
+    history?: Content[],
+  ): Promise<Session> {
+    if (!path.isAbsolute(cwd)) {
+      throw acp.RequestError.invalidParams(
+        `The session directory must be an absolute path: ${cwd}`,
+      );
+    }
+    const authType = this.settings.merged.selectedAuthType;
+    if (!authType) {
+      throw acp.RequestError.authRequired();
+    }
+
+    // Servers from the client take precedence over configured ones
+    const servers = { ...this.settings.merged.mcpServers };
+    for (const server of mcpServers ?? []) {
+      servers[server.name] = new MCPServerConfig(
+        server.command,
+        server.args,
+        Object.fromEntries(server.env.map(({ name, value }) => [name, value])),
+      );
+    }
+    const config = await loadCliConfig(
+      { ...this.settings.merged, mcpServers: servers },
+      this.extensions,
+      sessionId,
+      this.argv,
+      history,
+      cwd,
+    );
+    await config.initialize();
+    try {
+      await config.refreshAuth(authType);
+    } catch (error) {
+      console.error('Failed to refresh auth:', error);
+      throw acp.RequestError.authRequired(getErrorMessage(error));
+    }
+
+    const fsCapabilities = this.#clientCapabilities.fs;
+    if (fsCapabilities?.readTextFile || fsCapabilities?.writeTextFile) {
+      config.setFileSystemService(
+        new AcpFileSystemService(
+          this.client,
+          sessionId,
+          fsCapabilities,
+          config.getFileSystemService(),
+        ),
+      );
+    }
+
+    const session = new Session(sessionId, config, this.client);
+    this.#sessions.set(sessionId, session);
+    return session;
   }
+}
 
-  async sendUserMessage(params: acp.SendUserMessageParams): Promise<void> {
-    this.pendingSend?.abort();
-    const pendingSend = new AbortController();
-    this.pendingSend = pendingSend;
+type MessageChunk = { text: string } | { path: string };
+
+class Session {
+  #pendingPrompt?: AbortController;
+  #logger: Logger;
+
+  constructor(
+    readonly id: string,
+    private readonly config: Config,
+    private readonly client: acp.Client,
+  ) {
+    this.#logger = new Logger(id, config.getTargetDir());
+  }
+
+  getModes(): acp.SessionModeState {
+    return {
+      currentModeId: this.config.getApprovalMode(),
+      availableModes: SESSION_MODES,
+    };
+  }
 
-    if (!this.chat) {
-      const geminiClient = this.config.getGeminiClient();
-      this.chat = await geminiClient.startChat();
+  async setMode(modeId: string): Promise<void> {
+    if (!SESSION_MODES.some((mode) => mode.id === modeId)) {
+      throw acp.RequestError.invalidParams(`Unknown mode: ${modeId}`);
     }
+    this.config.setApprovalMode(modeId as ApprovalMode);
+    await this.#sendUpdate({
+      sessionUpdate: 'current_mode_update',
+      currentModeId: modeId,
+    });
+  }
+
+  cancelPendingPrompt(): void {
+    this.#pendingPrompt?.abort();
+    this.#pendingPrompt = undefined;
+  }
+
+  /**
+   * Sends the messages of a resumed conversation to the client, leaving out
+   * the environment context that starts every chat.
+   */
+  async replayHistory(history: Content[]): Promise<void> {
+    const toolRegistry = await this.config.getToolRegistry();
+    const firstText = history[0]?.parts?.find((part) => part.text)?.text;
+    const start = firstText?.match(/context for our chat/) ? 2 : 0;
+
+    for (const content of history.slice(start)) {
+      for (const part of content.parts ?? []) {
+        if (part.text) {
+          await this.#sendUpdate({
+            sessionUpdate:
+              content.role === 'user'
+                ? 'user_message_chunk'
+                : part.thought
+                  ? 'agent_thought_chunk'
+                  : 'agent_message_chunk',
+            content: { type: 'text', text: part.text },
+          });
+        } else if (part.functionCall) {
+          const name = part.functionCall.name ?? '';
+          const tool = toolRegistry.getTool(name);
+          await this.#sendUpdate({
+            sessionUpdate: 'tool_call',
+            toolCallId: part.functionCall.id ?? `${name}-${randomUUID()}`,
+            title: tool?.displayName ?? name,
+            kind: tool ? toToolKind(tool.icon) : 'other',
+            status: 'completed',
+            rawInput: part.functionCall.args,
+          });
+        }
+      }
+    }
+  }
+
+  async prompt(prompt: acp.ContentBlock[]): Promise<acp.PromptResponse> {
+    this.#pendingPrompt?.abort();
+    const pendingSend = new AbortController();
+    this.#pendingPrompt = pendingSend;
 
+    const chat = this.config.getGeminiClient().getChat();
     const promptId = Math.random().toString(16).slice(2);
-    const chat = this.chat!;
     const toolRegistry: ToolRegistry = await this.config.getToolRegistry();
-    const parts = await this.#resolveUserMessage(params, pendingSend.signal);
+    const parts = await this.#resolvePrompt(prompt, pendingSend.signal);
 
     let nextMessage: Content | null = { role: 'user', parts };
 
-    while (nextMessage !== null) {
-      if (pendingSend.signal.aborted) {
-        chat.addHistory(nextMessage);
-        return;
-      }
-
-      const functionCalls: FunctionCall[] = [];
+    try {
+      while (nextMessage !== null) {
+        if (pendingSend.signal.aborted) {
+          chat.addHistory(nextMessage);
+          return { stopReason: 'cancelled' };
+        }
 
-      try {
-        const responseStream = await chat.sendMessageStream(
-          {
-            message: nextMessage?.parts ?? [],
-            config: {
-              abortSignal: pendingSend.signal,
-              tools: [
-                {
-                  functionDeclarations: toolRegistry.getFunctionDeclarations(),
-                },
-              ],
+        const functionCalls: FunctionCall[] = [];
+
+        try {
+          const responseStream = await chat.sendMessageStream(
+            {
+              message: nextMessage?.parts ?? [],
+              config: {
+                abortSignal: pendingSend.signal,
+                tools: [
+                  {
+                    functionDeclarations:
+                      toolRegistry.getFunctionDeclarations(),
+                  },
+                ],
+              },
             },
-          },
-          promptId,
-        );
-        nextMessage = null;
+            promptId,
+          );
+          nextMessage = null;
 
-        for await (const resp of responseStream) {
-          if (pendingSend.signal.aborted) {
-            return;
-          }
+          for await (const resp of responseStream) {
+            if (pendingSend.signal.aborted) {
+              return { stopReason: 'cancelled' };
+            }
 
-          if (resp.candidates && resp.candidates.length > 0) {
-            const candidate = resp.candidates[0];
-            for (const part of candidate.content?.parts ?? []) {
-              if (!part.text) {
-                continue;
+            if (resp.candidates && resp.candidates.length > 0) {
+              const candidate = resp.candidates[0];
+              for (const part of candidate.content?.parts ?? []) {
+                if (!part.text) {
+                  continue;
+                }
+
+                await this.#sendUpdate({
+                  sessionUpdate: part.thought
+                    ? 'agent_thought_chunk'
+                    : 'agent_message_chunk',
+                  content: { type: 'text', text: part.text },
+                });
               }
+            }
 
-              this.client.streamAssistantMessageChunk({
-                chunk: part.thought
-                  ? { thought: part.text }
-                  : { text: part.text },
-              });
+            if (resp.functionCalls) {
+              functionCalls.push(...resp.functionCalls);
             }
           }
-
-          if (resp.functionCalls) {
-            functionCalls.push(...resp.functionCalls);
+        } catch (error) {
+          if (pendingSend.signal.aborted) {
+            return { stopReason: 'cancelled' };
+          }
+          if (getErrorStatus(error) === 429) {
+            throw new acp.RequestError(
+              429,
+              'Rate limit exceeded. Try again later.',
+            );
           }
-        }
-      } catch (error) {
-        if (getErrorStatus(error) === 429) {
-          throw new acp.RequestError(
-            429,
-            'Rate limit exceeded. Try again later.',
-          );
-        }
 
-        throw error;
-      }
+          throw error;
+        }
 
-      if (functionCalls.length > 0) {
-        const toolResponseParts: Part[] = [];
+        if (functionCalls.length > 0) {
+          const toolResponseParts: Part[] = [];
 
-        for (const fc of functionCalls) {
-          const response = await this.#runTool(
-            pendingSend.signal,
-            promptId,
-            fc,
-          );
+          for (const fc of functionCalls) {
+            const response = await this.#runTool(
+              pendingSend.signal,
+              promptId,
+              fc,
+            );
 
-          const parts = Array.isArray(response) ? response : [response];
+            const parts = Array.isArray(response) ? response : [response];
 
-          for (const part of parts) {
-            if (typeof part === 'string') {
-              toolResponseParts.push({ text: part });
-            } else if (part) {
-              toolResponseParts.push(part);
+            for (const part of parts) {
+              if (typeof part === 'string') {
+                toolResponseParts.push({ text: part });
+              } else if (part) {
+                toolResponseParts.push(part);
+              }
             }
           }
-        }
 
-        nextMessage = { role: 'user', parts: toolResponseParts };
+          nextMessage = { role: 'user', parts: toolResponseParts };
+        }
+      }
+    } finally {
+      // Save after every prompt so that the session can be loaded later
+      await this.#saveHistory();
+      if (this.#pendingPrompt === pendingSend) {
+        this.#pendingPrompt = undefined;
       }
     }
+
+    return { stopReason: 'end_turn' };
+  }
+
+  async #sendUpdate(update: acp.SessionUpdate): Promise<void> {
+    await this.client.sessionUpdate({ sessionId: this.id, update });
+  }
+
+  async #saveHistory(): Promise<void> {
+    await this.#logger.initialize();
+    await this.#logger.saveSessionHistory(
+      this.config.getGeminiClient().getHistory(),
+    );
   }
 
   async #runTool(
@@ -239,68 +508,104 @@ class GeminiAgent implements Agent {
       );
     }
 
-    let toolCallId: number | undefined = undefined;
+    const hookOutcome = await runPreToolUseHooks(
+      this.config,
+      fc.name,
+      args,
+      abortSignal,
+    );
+    if (hookOutcome.denyMessage) {
+      return errorResponse(new Error(hookOutcome.denyMessage));
+    }
+    const toolArgs = hookOutcome.args;
+
+    let announced = false;
     try {
-      const invocation = tool.build(args);
+      const invocation = tool.build(toolArgs);
+      const toolCall: acp.ToolCall = {
+        toolCallId: callId,
+        title: invocation.getDescription(),
+        kind: toToolKind(tool.icon),
+        locations: invocation.toolLocations(),
+        rawInput: toolArgs,
+      };
+
+      // Like the tool scheduler, YOLO mode and approving hooks run the tool
+      // call without asking
       const confirmationDetails =
-        await invocation.shouldConfirmExecute(abortSignal);
+        this.config.getApprovalMode() === ApprovalMode.YOLO ||
+        hookOutcome.approved
+          ? false
+          : await invocation.shouldConfirmExecute(abortSignal);
       if (confirmationDetails) {
-        let content: acp.ToolCallContent | null = null;
+        const content: acp.ToolCallContent[] = [];
         if (confirmationDetails.type === 'edit') {
-          content = {
+          content.push({
             type: 'diff',
-            path: confirmationDetails.fileName,
+            path: confirmationDetails.filePath,
             oldText: confirmationDetails.originalContent,
             newText: confirmationDetails.newContent,
-          };
+          });
         }
 
-        const result = await this.client.requestToolCallConfirmation({
-          label: invocation.getDescription(),
-          icon: tool.icon,
-          content,
-          confirmation: toAcpToolCallConfirmation(confirmationDetails),
-          locations: invocation.toolLocations(),
+        announced = true;
+        const { outcome } = await this.client.requestPermission({
+          sessionId: this.id,
+          options: toPermissionOptions(confirmationDetails),
+          toolCall: { ...toolCall, status: 'pending', content },
         });
 
-        await confirmationDetails.onConfirm(toToolCallOutcome(result.outcome));
-        switch (result.outcome) {
-          case 'reject':
-            return errorResponse(
-              new Error(`Tool "${fc.name}" not allowed to run by the user.`),
-            );
-
-          case 'cancel':
-            return errorResponse(
-              new Error(`Tool "${fc.name}" was canceled by the user.`),
-            );
-          case 'allow':
-          case 'alwaysAllow':
-          case 'alwaysAllowMcpServer':
-          case 'alwaysAllowTool':
-            break;
-          default: {
-            const resultOutcome: never = result.outcome;
-            throw new Error(`Unexpected: ${resultOutcome}`);
-          }
+        const toolOutcome =
+          outcome.outcome === 'cancelled'
+            ? ToolConfirmationOutcome.Cancel
+            : toToolCallOutcome(outcome.optionId);
+        await confirmationDetails.onConfirm(toolOutcome);
+        if (toolOutcome === ToolConfirmationOutcome.Cancel) {
+          await this.#sendUpdate({
+            sessionUpdate: 'tool_call_update',
+            toolCallId: callId,
+            status: 'failed',
+          });
+          return errorResponse(
+            new Error(
+              outcome.outcome === 'cancelled'
+                ? `Tool "${fc.name}" was canceled by the user.`
+                : `Tool "${fc.name}" not allowed to run by the user.`,
+            ),
+          );
         }
-        toolCallId = result.id;
+        await this.#sendUpdate({
+          sessionUpdate: 'tool_call_update',
+          toolCallId: callId,
+          status: 'in_progress',
+        });
       } else {
-        const result = await this.client.pushToolCall({
-          icon: tool.icon,
-          label: invocation.getDescription(),
-          locations: invocation.toolLocations(),
+        announced = true;
+        await this.#sendUpdate({
+          sessionUpdate: 'tool_call',
+          ...toolCall,
+          status: 'in_progress',
         });
-        toolCallId = result.id;
       }
 
       const toolResult: ToolResult = await invocation.execute(abortSignal);
-      const toolCallContent = toToolCallContent(toolResult);
+      const hookFeedback = await runPostToolUseHooks(
+        this.config,
+        fc.name,
+        toolArgs,
+        toolResult,
+        abortSignal,
+      );
+      const toolCallContent = toToolCallContent(
+        toolResult,
+        toolCall.locations?.[0]?.path,
+      );
 
-      await this.client.updateToolCall({
-        toolCallId,
-        status: 'finished',
-        content: toolCallContent,
+      await this.#sendUpdate({
+        sessionUpdate: 'tool_call_update',
+        toolCallId: callId,
+        status: toolResult.error ? 'failed' : 'completed',
+        content: toolCallContent ? [toolCallContent] : [],
       });
 
       const durationMs = Date.now() - startTime;
@@ -308,34 +613,101 @@ class GeminiAgent implements Agent {
         'event.name': 'tool_call',
         'event.timestamp': new Date().toISOString(),
         function_name: fc.name,
-        function_args: args,
+        function_args: toolArgs,
         duration_ms: durationMs,
-        success: true,
+        success: !toolResult.error,
         prompt_id: promptId,
       });
 
-      return convertToFunctionResponse(fc.name, callId, toolResult.llmContent);
+      return addResponseNotes(
+        convertToFunctionResponse(fc.name, callId, toolResult.llmContent),
+        hookFeedback ? [hookFeedback] : [],
+      );
     } catch (e) {
       const error = e instanceof Error ? e : new Error(String(e));
-      if (toolCallId) {
-        await this.client.updateToolCall({
-          toolCallId,
-          status: 'error',
-          content: { type: 'markdown', markdown: error.message },
+      if (announced) {
+        await this.#sendUpdate({
+          sessionUpdate: 'tool_call_update',
+          toolCallId: callId,
+          status: 'failed',
+          content: [
+            { type: 'content', content: { type: 'text', text: error.message } },
+          ],
         });
       }
       return errorResponse(error);
     }
   }
 
-  async #resolveUserMessage(
-    message: acp.SendUserMessageParams,
+  /**
+   * Turns the content blocks of a prompt into parts for the model. Links to
+   * files are read like `@path` references in the terminal UI.
+   */
+  async #resolvePrompt(
+    prompt: acp.ContentBlock[],
+    abortSignal: AbortSignal,
+  ): Promise<Part[]> {
+    const chunks: MessageChunk[] = [];
+    const attachedParts: Part[] = [];
+
+    for (const block of prompt) {
+      switch (block.type) {
+        case 'text':
+          chunks.push({ text: block.text });
+          break;
+        case 'resource_link':
+          if (block.uri.startsWith('file://')) {
+            chunks.push({
+              path: path.relative(
+                this.config.getTargetDir(),
+                fileURLToPath(block.uri),
+              ),
+            });
+          } else {
+            chunks.push({ text: block.uri });
+          }
+          break;
+        case 'image':
+        case 'audio':
+          attachedParts.push({
+            inlineData: { mimeType: block.mimeType, data: block.data },
+          });
+          break;
+        case 'resource':
+          if ('text' in block.resource) {
+            attachedParts.push({
+              text: `\n--- Content from ${block.resource.uri} ---\n${block.resource.text}\n--- End of content ---`,
+            });
+          } else {
+            attachedParts.push({
+              inlineData: {
+                mimeType: block.resource.mimeType ?? 'application/octet-stream',
+                data: block.resource.blob,
+              },
+            });
+          }
+          break;
+        default: {
+          const unreachable: never = block;
+          throw acp.RequestError.invalidParams(
+            `Unexpected content block: ${JSON.stringify(unreachable)}`,
+          );
+        }
+      }
+    }
+
+    const parts = await this.#resolveMessageChunks(chunks, abortSignal);
+    return [...parts, ...attachedParts];
+  }
+
+  async #resolveMessageChunks(
+    chunks: MessageChunk[],
     abortSignal: AbortSignal,
   ): Promise<Part[]> {
-    const atPathCommandParts = message.chunks.filter((part) => 'path' in part);
+    const atPathCommandParts = chunks.filter((part) => 'path' in part);
 
     if (atPathCommandParts.length === 0) {
-      return message.chunks.map((chunk) => {
+      return chunks.map((chunk) => {
         if ('text' in chunk) {
           return { text: chunk.text };
         } else {
@@ -466,8 +838,8 @@ class GeminiAgent implements Agent {
 
     // Construct the initial part of the query for the LLM
     let initialQueryText = '';
-    for (let i = 0; i < message.chunks.length; i++) {
-      const chunk = message.chunks[i];
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
       if ('text' in chunk) {
         initialQueryText += chunk.text;
       } else {
@@ -480,7 +852,7 @@ class GeminiAgent implements Agent {
           resolvedSpec
         ) {
           // Add space if previous part was text and didn't end with space, or if previous was @path
-          const prevPart = message.chunks[i - 1];
+          const prevPart = chunks[i - 1];
           if (
             'text' in prevPart ||
             ('path' in prevPart && atPathToResolvedSpecMap.has(prevPart.path))
@@ -528,23 +900,33 @@ class GeminiAgent implements Agent {
       respectGitIgnore, // Use configuration setting
     };
 
-    let toolCallId: number | undefined = undefined;
+    const toolCallId = `read_many_files-${randomUUID()}`;
+    let announced = false;
     try {
       const invocation = readManyFilesTool.build(toolArgs);
-      const toolCall = await this.client.pushToolCall({
-        icon: readManyFilesTool.icon,
-        label: invocation.getDescription(),
+      announced = true;
+      await this.#sendUpdate({
+        sessionUpdate: 'tool_call',
+        toolCallId,
+        title: invocation.getDescription(),
+        kind: 'read',
+        status: 'in_progress',
+        locations: invocation.toolLocations(),
+        rawInput: toolArgs,
       });
-      toolCallId = toolCall.id;
       const result = await invocation.execute(abortSignal);
       const content = toToolCallContent(result) || {
-        type: 'markdown',
-        markdown: `Successfully read: ${contentLabelsForDisplay.join(', ')}`,
+        type: 'content',
+        content: {
+          type: 'text',
+          text: `Successfully read: ${contentLabelsForDisplay.join(', ')}`,
+        },
       };
-      await this.client.updateToolCall({
-        toolCallId: toolCall.id,
-        status: 'finished',
-        content,
+      await this.#sendUpdate({
+        sessionUpdate: 'tool_call_update',
+        toolCallId,
+        status: 'completed',
+        content: [content],
       });
 
       if (Array.isArray(result.llmContent)) {
@@ -579,14 +961,20 @@ class GeminiAgent implements Agent {
 
       return processedQueryParts;
     } catch (error: unknown) {
-      if (toolCallId) {
-        await this.client.updateToolCall({
+      if (announced) {
+        await this.#sendUpdate({
+          sessionUpdate: 'tool_call_update',
           toolCallId,
-          status: 'error',
-          content: {
-            type: 'markdown',
-            markdown: `Error reading files (${contentLabelsForDisplay.join(', ')}): ${getErrorMessage(error)}`,
-          },
+          status: 'failed',
+          content: [
+            {
+              type: 'content',
+              content: {
+                type: 'text',
+                text: `Error reading files (${contentLabelsForDisplay.join(', ')}): ${getErrorMessage(error)}`,
+              },
+            },
+          ],
         });
       }
       throw error;
@@ -600,17 +988,38 @@ class GeminiAgent implements Agent {
   }
 }
 
-function toToolCallContent(toolResult: ToolResult): acp.ToolCallContent | null {
+function toToolCallContent(
+  toolResult: ToolResult,
+  filePath?: string,
+): acp.ToolCallContent | null {
   if (toolResult.returnDisplay) {
     if (typeof toolResult.returnDisplay === 'string') {
       return {
-        type: 'markdown',
-        markdown: toolResult.returnDisplay,
+        type: 'content',
+        content: { type: 'text', text: toolResult.returnDisplay },
+      };
+    } else if ('toolCalls' in toolResult.returnDisplay) {
+      return {
+        type: 'content',
+        content: {
+          type: 'text',
+          text: toolResult.returnDisplay.toolCalls
+            .map((call) => `- ${call.name} ${call.description}`)
+            .join('\n'),
+        },
+      };
+    } else if ('terminal' in toolResult.returnDisplay) {
+      return {
+        type: 'content',
+        content: {
+          type: 'text',
+          text: terminalLinesToText(toolResult.returnDisplay.terminal),
+        },
       };
     } else {
       return {
         type: 'diff',
-        path: toolResult.returnDisplay.fileName,
+        path: filePath ?? toolResult.returnDisplay.fileName,
         oldText: toolResult.returnDisplay.originalContent,
         newText: toolResult.returnDisplay.newContent,
       };
@@ -620,33 +1029,102 @@ function toToolCallContent(toolResult: ToolResult): acp.ToolCallContent | null {
   }
 }
 
-function toAcpToolCallConfirmation(
+function toToolKind(icon: Icon): acp.ToolKind {
+  switch (icon) {
+    case Icon.FileSearch:
+    case Icon.Folder:
+    case Icon.Regex:
+      return 'search';
+    case Icon.Pencil:
+      return 'edit';
+    case Icon.Terminal:
+      return 'execute';
+    case Icon.Globe:
+      return 'fetch';
+    case Icon.LightBulb:
+      return 'think';
+    case Icon.Hammer:
+      return 'other';
+    default: {
+      const unreachable: never = icon;
+      throw new Error(`Unexpected: ${unreachable}`);
+    }
+  }
+}
+
+function toPermissionOptions(
   confirmationDetails: ToolCallConfirmationDetails,
-): acp.ToolCallConfirmation {
+): acp.PermissionOption[] {
+  const allowOnce: acp.PermissionOption = {
+    optionId: ToolConfirmationOutcome.ProceedOnce,
+    name: 'Allow',
+    kind: 'allow_once',
+  };
+  const reject: acp.PermissionOption = {
+    optionId: ToolConfirmationOutcome.Cancel,
+    name: 'Reject',
+    kind: 'reject_once',
+  };
   switch (confirmationDetails.type) {
     case 'edit':
-      return { type: 'edit' };
+      return [
+        allowOnce,
+        {
+          optionId: ToolConfirmationOutcome.ProceedAlways,
+          name: 'Allow all edits',
+          kind: 'allow_always',
+        },
+        reject,
+      ];
     case 'exec':
-      return {
-        type: 'execute',
-        rootCommand: confirmationDetails.rootCommand,
-        command: confirmationDetails.command,
-      };
+      return [
+        allowOnce,
+        {
+          optionId: ToolConfirmationOutcome.ProceedAlways,
+          name: `Always allow ${confirmationDetails.rootCommand}`,
+          kind: 'allow_always',
+        },
+        reject,
+      ];
     case 'mcp':
-      return {
-        type: 'mcp',
-        serverName: confirmationDetails.serverName,
-        toolName: confirmationDetails.toolName,
-        toolDisplayName: confirmationDetails.toolDisplayName,
-      };
+      return [
+        allowOnce,
+        {
+          optionId: ToolConfirmationOutcome.ProceedAlwaysServer,
+          name: `Always allow ${confirmationDetails.serverName}`,
+          kind: 'allow_always',
+        },
+        {
+          optionId: ToolConfirmationOutcome.ProceedAlwaysTool,
+          name: `Always allow ${confirmationDetails.toolName}`,
+          kind: 'allow_always',
+        },
+        reject,
+      ];
     case 'info':
-      return {
-        type: 'fetch',
-        urls: confirmationDetails.urls || [],
-        description: confirmationDetails.urls?.length
-          ? null
-          : confirmationDetails.prompt,
-      };
+      return [
+        allowOnce,
+        {
+          optionId: ToolConfirmationOutcome.ProceedAlways,
+          name: 'Always allow',
+          kind: 'allow_always',
+        },
+        reject,
+      ];
+    case 'plan':
+      return [
+        {
+          optionId: ToolConfirmationOutcome.ProceedAlways,
+          name: 'Yes, and auto-accept edits',
+          kind: 'allow_always',
+        },
+        {
+          optionId: ToolConfirmationOutcome.ProceedOnce,
+          name: 'Yes, and manually approve edits',
+          kind: 'allow_once',
+        },
+        { ...reject, name: 'No, keep planning' },
+      ];
     default: {
       const unreachable: never = confirmationDetails;
       throw new Error(`Unexpected: ${unreachable}`);
@@ -654,24 +1132,17 @@ function toAcpToolCallConfirmation(
   }
 }
 
-function toToolCallOutcome(
-  outcome: acp.ToolCallConfirmationOutcome,
-): ToolConfirmationOutcome {
-  switch (outcome) {
-    case 'allow':
-      return ToolConfirmationOutcome.ProceedOnce;
-    case 'alwaysAllow':
-      return ToolConfirmationOutcome.ProceedAlways;
-    case 'alwaysAllowMcpServer':
-      return ToolConfirmationOutcome.ProceedAlwaysServer;
-    case 'alwaysAllowTool':
-      return ToolConfirmationOutcome.ProceedAlwaysTool;
-    case 'reject':
-    case 'cancel':
-      return ToolConfirmationOutcome.Cancel;
-    default: {
-      const unreachable: never = outcome;
-      throw new Error(`Unexpected: ${unreachable}`);
-    }
+function toToolCallOutcome(optionId: string): ToolConfirmationOutcome {
+  switch (optionId) {
+    case ToolConfirmationOutcome.ProceedOnce:
+    case ToolConfirmationOutcome.ProceedAlways:
+    case ToolConfirmationOutcome.ProceedAlwaysServer:
+    case ToolConfirmationOutcome.ProceedAlwaysTool:
+    case ToolConfirmationOutcome.Cancel:
+      return optionId;
+    default:
+      throw acp.RequestError.invalidParams(
+        `Unexpected permission option: ${optionId}`,
+      );
   }
 }
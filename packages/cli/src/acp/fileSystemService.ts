@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { existsSync } from 'node:fs';
+import { FileSystemService } from '@qwen-code/qwen-code-core';
+import * as acp from './acp.js';
+
+/**
+ * Reads and writes files through the ACP client, so that tools see the
+ * editor's unsaved changes and their edits land in its buffers. Falls back to
+ * the given service for what the client does not support.
+ */
+export class AcpFileSystemService implements FileSystemService {
+  constructor(
+    private readonly client: acp.Client,
+    private readonly sessionId: string,
+    private readonly capabilities: acp.FileSystemCapability,
+    private readonly fallback: FileSystemService,
+  ) {}
+
+  async readTextFile(filePath: string): Promise<string> {
+    // Tools tell new files apart by the ENOENT error of the fallback
+    if (!this.capabilities.readTextFile || !existsSync(filePath)) {
+      return this.fallback.readTextFile(filePath);
+    }
+    const { content } = await this.client.readTextFile({
+      sessionId: this.sessionId,
+      path: filePath,
+    });
+    return content;
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    if (!this.capabilities.writeTextFile) {
+      return this.fallback.writeTextFile(filePath, content);
+    }
+    await this.client.writeTextFile({
+      sessionId: this.sessionId,
+      path: filePath,
+      content,
+    });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'codeduet serve' command
+import type { CommandModule } from 'yargs';
+
+export const DEFAULT_SERVE_PORT = 4317;
+
+export const serveCommand: CommandModule = {
+  command: 'serve',
+  describe: 'Serve agent sessions over local HTTP and Server-Sent Events',
+  builder: (yargs) =>
+    yargs
+      .usage('Usage: codeduet serve [options]')
+      .option('port', {
+        describe: 'Port to listen on',
+        type: 'number',
+        default: DEFAULT_SERVE_PORT,
+      })
+      .option('host', {
+        describe: 'Host to listen on',
+        type: 'string',
+        default: '127.0.0.1',
+      })
+      .option('token', {
+        describe:
+          'Bearer token that clients must send (defaults to CODEDUET_SERVE_TOKEN, or else a generated token)',
+        type: 'string',
+      })
+      .option('model', {
+        alias: 'm',
+        describe: 'Model of the sessions',
+        type: 'string',
+      })
+      .option('debug', {
+        alias: 'd',
+        describe: 'Run in debug mode?',
+        type: 'boolean',
+        default: false,
+      }),
+  handler: async (argv) => {
+    // Loaded on demand so that parsing arguments does not load the server.
+    const { serve } = await import('../serve/serve.js');
+    await serve({
+      host: argv['host'] as string,
+      port: argv['port'] as number,
+      token: argv['token'] as string | undefined,
+      model: argv['model'] as string | undefined,
+      debug: argv['debug'] as boolean,
+    });
+  },
+};
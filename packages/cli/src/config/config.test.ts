@@ -8,11 +8,18 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as os from 'os';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ShellTool, EditTool, WriteFileTool } from '@qwen-code/qwen-code-core';
+import {
+  OutputFormat,
+  ShellTool,
+  EditTool,
+  WriteFileTool,
+  StartBackgroundJobTool,
+} from '@qwen-code/qwen-code-core';
 import { loadCliConfig, parseArguments } from './config.js';
 import { Settings } from './settings.js';
 import { Extension } from './extension.js';
 import * as ServerConfig from '@qwen-code/qwen-code-core';
+import { loadSubagentProfiles } from './subagentProfiles.js';
 
 vi.mock('os', async (importOriginal) => {
   const actualOs = await importOriginal<typeof os>();
@@ -26,6 +33,10 @@ vi.mock('open', () => ({
   default: vi.fn(),
 }));
 
+vi.mock('./subagentProfiles.js', () => ({
+  loadSubagentProfiles: vi.fn(() => Promise.resolve([])),
+}));
+
 vi.mock('read-package-up', () => ({
   readPackageUp: vi.fn(() =>
     Promise.resolve({ packageJson: { version: 'test-version' } }),
@@ -174,6 +185,42 @@ describe('loadCliConfig', () => {
     vi.restoreAllMocks();
   });
 
+  it('should default the output format to text', async () => {
+    process.argv = ['node', 'script.js', '--prompt', 'test'];
+    const argv = await parseArguments();
+    const config = await loadCliConfig({}, [], 'test-session', argv);
+    expect(config.getOutputFormat()).toBe(OutputFormat.TEXT);
+  });
+
+  it('should set the output format from --output-format', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--prompt',
+      'test',
+      '--output-format',
+      'stream-json',
+    ];
+    const argv = await parseArguments();
+    const config = await loadCliConfig({}, [], 'test-session', argv);
+    expect(config.getOutputFormat()).toBe(OutputFormat.STREAM_JSON);
+  });
+
+  it('should only run shell commands in a pseudo-terminal in the terminal UI', async () => {
+    process.argv = ['node', 'script.js', '-i', 'test'];
+    const argv = await parseArguments();
+
+    const interactiveConfig = await loadCliConfig({}, [], 'test-session', argv);
+    const serveConfig = await loadCliConfig({}, [], 'test-session', {
+      ...argv,
+      promptInteractive: undefined,
+      serve: true,
+    });
+
+    expect(interactiveConfig.getInteractiveShell()).toBe(true);
+    expect(serveConfig.getInteractiveShell()).toBe(false);
+  });
+
   it('should set showMemoryUsage to true when --show-memory-usage flag is present', async () => {
     process.argv = ['node', 'script.js', '--show-memory-usage'];
     const argv = await parseArguments();
@@ -636,7 +683,12 @@ describe('loadCliConfig systemPromptMappings', () => {
 });
 
 describe('mergeExcludeTools', () => {
-  const defaultExcludes = [ShellTool.Name, EditTool.Name, WriteFileTool.Name];
+  const defaultExcludes = [
+    ShellTool.Name,
+    EditTool.Name,
+    WriteFileTool.Name,
+    StartBackgroundJobTool.Name,
+  ];
   const originalIsTTY = process.stdin.isTTY;
 
   beforeEach(() => {
@@ -771,6 +823,21 @@ describe('mergeExcludeTools', () => {
     expect(config.getExcludeTools()).toEqual(defaultExcludes);
   });
 
+  it('should exclude background jobs when it is not interactive', async () => {
+    process.stdin.isTTY = false;
+    process.argv = ['node', 'script.js', '-p', 'test'];
+    const argv = await parseArguments();
+    const config = await loadCliConfig({}, [], 'test-session', argv);
+    expect(config.getExcludeTools()).toContain(StartBackgroundJobTool.Name);
+
+    process.argv = ['node', 'script.js', '-p', 'test', '--yolo'];
+    const yoloArgv = await parseArguments();
+    const yoloConfig = await loadCliConfig({}, [], 'test-session', yoloArgv);
+    expect(yoloConfig.getExcludeTools()).not.toContain(
+      StartBackgroundJobTool.Name,
+    );
+  });
+
   it('should handle settings with excludeTools but no extensions', async () => {
     process.argv = ['node', 'script.js'];
     const argv = await parseArguments();
@@ -1022,6 +1089,20 @@ describe('loadCliConfig extensions', () => {
   });
 });
 
+describe('loadCliConfig subagent profiles', () => {
+  it('should pass loaded subagent profiles to the config', async () => {
+    const reviewer = { name: 'reviewer', systemPrompt: 'Review code.' };
+    vi.mocked(loadSubagentProfiles).mockResolvedValueOnce([reviewer]);
+    process.argv = ['node', 'script.js'];
+    const argv = await parseArguments();
+
+    const config = await loadCliConfig({}, [], 'test-session', argv);
+
+    expect(loadSubagentProfiles).toHaveBeenCalledWith(process.cwd(), []);
+    expect(config.getSubagentProfile('reviewer')).toEqual(reviewer);
+  });
+});
+
 describe('loadCliConfig model selection', () => {
   it('selects a model from settings.json if provided', async () => {
     process.argv = ['node', 'script.js'];
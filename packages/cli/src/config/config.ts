@@ -11,13 +11,16 @@ import * as crypto from 'node:crypto';
 import yargs from 'yargs/yargs';
 import { hideBin } from 'yargs/helpers';
 import process from 'node:process';
+import { Content } from '@google/genai';
 import { mcpCommand } from '../commands/mcp.js';
+import { serveCommand } from '../commands/serve.js';
 import {
   Config,
   loadServerHierarchicalMemory,
   setGeminiMdFilename as setServerGeminiMdFilename,
   getCurrentGeminiMdFilename,
   ApprovalMode,
+  OutputFormat,
   DEFAULT_GEMINI_MODEL,
   DEFAULT_GEMINI_EMBEDDING_MODEL,
   DEFAULT_MEMORY_FILE_FILTERING_OPTIONS,
@@ -27,6 +30,7 @@ import {
   ShellTool,
   EditTool,
   WriteFileTool,
+  StartBackgroundJobTool,
   MCPServerConfig,
   ConfigParameters,
 } from '@qwen-code/qwen-code-core';
@@ -36,6 +40,7 @@ import { Settings } from './settings.js';
 import { Extension, annotateActiveExtensions } from './extension.js';
 import { getCliVersion } from '../utils/version.js';
 import { loadSandboxConfig } from './sandboxConfig.js';
+import { loadSubagentProfiles } from './subagentProfiles.js';
 import { resolvePath } from '../utils/resolvePath.js';
 
 // Simple console logger for now - replace with actual logger if available
@@ -55,6 +60,11 @@ export interface CliArgs {
   debug: boolean | undefined;
   prompt: string | undefined;
   promptInteractive: string | undefined;
+  outputFormat: string | undefined;
+  continue: boolean | undefined;
+  resume: string | undefined;
+  export: string | undefined;
+  exportRedact: boolean | undefined;
   allFiles: boolean | undefined;
   all_files: boolean | undefined;
   showMemoryUsage: boolean | undefined;
@@ -77,6 +87,7 @@ export interface CliArgs {
   proxy: string | undefined;
   includeDirectories: string[] | undefined;
   tavilyApiKey: string | undefined;
+  serve?: boolean;
 }
 
 export async function parseArguments(): Promise<CliArgs> {
@@ -104,6 +115,31 @@ export async function parseArguments(): Promise<CliArgs> {
           description:
             'Execute the provided prompt and continue in interactive mode',
         })
+        .option('output-format', {
+          type: 'string',
+          choices: Object.values(OutputFormat),
+          description:
+            'Format of the non-interactive output: plain text, a single JSON result, or newline-delimited JSON events',
+          default: OutputFormat.TEXT,
+        })
+        .option('continue', {
+          type: 'boolean',
+          description: 'Continue the most recent session in this project',
+        })
+        .option('resume', {
+          type: 'string',
+          description:
+            'Resume a previous session by ID, or pick one from a list when no ID is given',
+        })
+        .option('export', {
+          type: 'string',
+          description:
+            'Write the transcript of a non-interactive run to this file (Markdown, HTML or JSON, by extension)',
+        })
+        .option('export-redact', {
+          type: 'boolean',
+          description: 'Redact detected secrets from the --export transcript',
+        })
         .option('sandbox', {
           alias: 's',
           type: 'boolean',
@@ -248,11 +284,16 @@ export async function parseArguments(): Promise<CliArgs> {
               'Cannot use both --prompt (-p) and --prompt-interactive (-i) together',
             );
           }
+          if (argv.continue && argv.resume !== undefined) {
+            throw new Error('Cannot use both --continue and --resume together');
+          }
           return true;
         }),
     )
     // Register MCP subcommands
     .command(mcpCommand)
+    // Register the serve subcommand
+    .command(serveCommand)
     .version(await getCliVersion()) // This will enable the --version flag based on package.json
     .alias('v', 'version')
     .help()
@@ -269,6 +310,10 @@ export async function parseArguments(): Promise<CliArgs> {
     // MCP commands handle their own execution and process exit
     process.exit(0);
   }
+  if (result._.length > 0 && result._[0] === 'serve') {
+    // The server runs until it is stopped, then exits
+    process.exit(0);
+  }
 
   // The import format is now only controlled by settings.memoryImportFormat
   // We no longer accept it as a CLI argument
@@ -321,6 +366,8 @@ export async function loadCliConfig(
   extensions: Extension[],
   sessionId: string,
   argv: CliArgs,
+  resumedHistory?: Content[],
+  cwd: string = process.cwd(),
 ): Promise<Config> {
   const debugMode =
     argv.debug ||
@@ -376,7 +423,7 @@ export async function loadCliConfig(
     (e) => e.contextFiles,
   );
 
-  const fileService = new FileDiscoveryService(process.cwd());
+  const fileService = new FileDiscoveryService(cwd);
 
   const fileFiltering = {
     ...DEFAULT_MEMORY_FILE_FILTERING_OPTIONS,
@@ -389,7 +436,7 @@ export async function loadCliConfig(
 
   // Call the (now wrapper) loadHierarchicalGeminiMemory which calls the server's version
   const { memoryContent, fileCount } = await loadHierarchicalGeminiMemory(
-    process.cwd(),
+    cwd,
     settings.loadMemoryFromIncludeDirectories ? includeDirectories : [],
     debugMode,
     fileService,
@@ -423,12 +470,21 @@ export async function loadCliConfig(
   if (approvalMode === ApprovalMode.YOLO) {
     yoloValidator.validateYoloContext(sessionId);
   }
+  // Clients of `codeduet serve` and ACP clients approve tool calls themselves.
   const interactive =
-    !!argv.promptInteractive || (process.stdin.isTTY && question.length === 0);
+    !!argv.serve ||
+    !!argv.experimentalAcp ||
+    !!argv.promptInteractive ||
+    (process.stdin.isTTY && question.length === 0);
   // In non-interactive and non-yolo mode, exclude interactive built in tools.
   const extraExcludes =
     !interactive && approvalMode !== ApprovalMode.YOLO
-      ? [ShellTool.Name, EditTool.Name, WriteFileTool.Name]
+      ? [
+          ShellTool.Name,
+          EditTool.Name,
+          WriteFileTool.Name,
+          StartBackgroundJobTool.Name,
+        ]
       : undefined;
 
   const excludeTools = mergeExcludeTools(
@@ -467,12 +523,16 @@ export async function loadCliConfig(
 
   const sandboxConfig = await loadSandboxConfig(settings, argv);
   const cliVersion = await getCliVersion();
+  const subagentProfiles = await loadSubagentProfiles(
+    cwd,
+    allExtensions,
+  );
 
   return new Config({
     sessionId,
     embeddingModel: DEFAULT_GEMINI_EMBEDDING_MODEL,
     sandbox: sandboxConfig,
-    targetDir: process.cwd(),
+    targetDir: cwd,
     includeDirectories,
     loadMemoryFromIncludeDirectories:
       settings.loadMemoryFromIncludeDirectories || false,
@@ -485,9 +545,13 @@ export async function loadCliConfig(
     toolCallCommand: settings.toolCallCommand,
     mcpServerCommand: settings.mcpServerCommand,
     mcpServers,
+    lspServers: settings.lspServers,
+    hooks: settings.hooks,
     userMemory: memoryContent,
     geminiMdFileCount: fileCount,
     approvalMode,
+    outputFormat: argv.outputFormat as OutputFormat | undefined,
+    resumedHistory,
     showMemoryUsage:
       argv.showMemoryUsage ||
       argv.show_memory_usage ||
@@ -520,16 +584,22 @@ export async function loadCliConfig(
       process.env.https_proxy ||
       process.env.HTTP_PROXY ||
       process.env.http_proxy,
-    cwd: process.cwd(),
+    cwd,
     fileDiscoveryService: fileService,
     bugCommand: settings.bugCommand,
     model: argv.model || settings.model || DEFAULT_GEMINI_MODEL,
     extensionContextFilePaths,
     maxSessionTurns: settings.maxSessionTurns ?? -1,
+    maxConcurrentToolCalls: settings.maxConcurrentToolCalls,
     sessionTokenLimit: settings.sessionTokenLimit ?? -1,
+    sessionBudgetUsd: settings.sessionBudgetUsd ?? -1,
+    modelPricing: settings.modelPricing,
+    modelMetadata: settings.modelMetadata,
+    fallbackChain: settings.fallbackChain,
     experimentalAcp: argv.experimentalAcp || false,
     listExtensions: argv.listExtensions || false,
     extensions: allExtensions,
+    subagentProfiles,
     blockedMcpServers,
     noBrowser: !!process.env.NO_BROWSER,
     summarizeToolOutput: settings.summarizeToolOutput,
@@ -554,10 +624,17 @@ export async function loadCliConfig(
     cliVersion,
     tavilyApiKey:
       argv.tavilyApiKey || settings.tavilyApiKey || process.env.TAVILY_API_KEY,
+    webSearch: settings.webSearch,
     chatCompression: settings.chatCompression,
     folderTrustFeature,
     folderTrust,
     interactive,
+    // Only the terminal UI can forward keystrokes to a running command.
+    interactiveShell:
+      interactive &&
+      !argv.serve &&
+      !argv.experimentalAcp &&
+      (settings.interactiveShell ?? true),
   });
 }
 
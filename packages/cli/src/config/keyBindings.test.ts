@@ -4,11 +4,16 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   Command,
   KeyBindingConfig,
   defaultKeyBindings,
+  formatKeyBinding,
+  loadKeyBindings,
 } from './keyBindings.js';
 
 describe('keyBindings config', () => {
@@ -59,4 +64,124 @@ describe('keyBindings config', () => {
       expect(config[Command.HOME]).toBeDefined();
     });
   });
+
+  describe('loadKeyBindings', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    const writeKeyBindings = (content: unknown) =>
+      fs.writeFileSync(
+        filePath,
+        typeof content === 'string' ? content : JSON.stringify(content),
+      );
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keybindings-test-'));
+      filePath = path.join(tempDir, 'keybindings.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should return the defaults when the file does not exist', () => {
+      const { config, warnings } = loadKeyBindings(filePath);
+
+      expect(config).toEqual(defaultKeyBindings);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should replace the bindings of the listed commands', () => {
+      writeKeyBindings(`{
+        // readline style
+        "submit": [{ "key": "j", "ctrl": true }],
+        "newline": [{ "key": "return", "command": true }],
+        "historyUp": []
+      }`);
+
+      const { config, warnings } = loadKeyBindings(filePath);
+
+      expect(warnings).toEqual([]);
+      expect(config[Command.SUBMIT]).toEqual([{ key: 'j', ctrl: true }]);
+      expect(config[Command.NEWLINE]).toEqual([
+        { key: 'return', command: true },
+      ]);
+      expect(config[Command.HISTORY_UP]).toEqual([]);
+      expect(config[Command.HISTORY_DOWN]).toBe(
+        defaultKeyBindings[Command.HISTORY_DOWN],
+      );
+    });
+
+    it('should ignore unknown commands and invalid bindings', () => {
+      writeKeyBindings({
+        sumbit: [{ key: 'j', ctrl: true }],
+        submit: [{ key: 'j', alt: true }],
+        newline: [
+          { key: 'return', ctrl: 'yes' },
+          { key: 'j', ctrl: true },
+        ],
+        historyUp: { key: 'p', ctrl: true },
+      });
+
+      const { config, warnings } = loadKeyBindings(filePath);
+
+      expect(warnings).toEqual([
+        `${filePath}: unknown command "sumbit" ignored.`,
+        `${filePath}: invalid binding {"key":"j","alt":true} for "submit" ignored: unknown property "alt".`,
+        `${filePath}: invalid binding {"key":"return","ctrl":"yes"} for "newline" ignored: "ctrl" must be true or false.`,
+        `${filePath}: the bindings for "historyUp" must be an array; keeping the defaults.`,
+      ]);
+      expect(config[Command.SUBMIT]).toBe(defaultKeyBindings[Command.SUBMIT]);
+      expect(config[Command.NEWLINE]).toEqual([{ key: 'j', ctrl: true }]);
+      expect(config[Command.HISTORY_UP]).toBe(
+        defaultKeyBindings[Command.HISTORY_UP],
+      );
+    });
+
+    it('should reject bindings that conflict with reserved keys', () => {
+      writeKeyBindings({
+        submit: [{ key: 'd', ctrl: true }, { key: 'c' }],
+        newline: [{ key: 'c', ctrl: false }],
+        quit: [{ key: 'q', ctrl: true }],
+      });
+
+      const { config, warnings } = loadKeyBindings(filePath);
+
+      expect(warnings).toEqual([
+        `${filePath}: binding {"key":"d","ctrl":true} for "submit" ignored: Ctrl+D is reserved.`,
+        `${filePath}: binding {"key":"c"} for "submit" ignored: Ctrl+C is reserved.`,
+        `${filePath}: "quit" is reserved and cannot be remapped.`,
+      ]);
+      expect(config[Command.SUBMIT]).toBe(defaultKeyBindings[Command.SUBMIT]);
+      expect(config[Command.NEWLINE]).toEqual([{ key: 'c', ctrl: false }]);
+      expect(config[Command.QUIT]).toBe(defaultKeyBindings[Command.QUIT]);
+    });
+
+    it('should fall back to the defaults when the file is not valid JSON', () => {
+      writeKeyBindings('{ "submit": ');
+
+      const { config, warnings } = loadKeyBindings(filePath);
+
+      expect(config).toEqual(defaultKeyBindings);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain(`Could not parse ${filePath}`);
+    });
+  });
+
+  describe('formatKeyBinding', () => {
+    it('should format modifiers, key names and sequences', () => {
+      expect(formatKeyBinding({ key: 'return', ctrl: true })).toBe(
+        'Ctrl+Return',
+      );
+      expect(formatKeyBinding({ key: 'x', ctrl: true, shift: true })).toBe(
+        'Ctrl+Shift+X',
+      );
+      expect(formatKeyBinding({ key: 'return', paste: true })).toBe(
+        'Return (paste)',
+      );
+      expect(formatKeyBinding({ sequence: '\x18', ctrl: true })).toBe(
+        'Ctrl+"\\u0018"',
+      );
+    });
+  });
 });
@@ -4,6 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import stripJsonComments from 'strip-json-comments';
+import { getErrorMessage, isNodeError } from '@qwen-code/qwen-code-core';
+import { USER_SETTINGS_DIR } from './settings.js';
+
 /**
  * Command enum for all available keyboard shortcuts
  */
@@ -50,6 +56,7 @@ export enum Command {
   QUIT = 'quit',
   EXIT = 'exit',
   SHOW_MORE_LINES = 'showMoreLines',
+  TOGGLE_SHELL_FOCUS = 'toggleShellFocus',
 
   // Shell commands
   REVERSE_SEARCH = 'reverseSearch',
@@ -167,6 +174,7 @@ export const defaultKeyBindings: KeyBindingConfig = {
   [Command.EXIT]: [{ key: 'd', ctrl: true }],
   // Original: key.ctrl && key.name === 's'
   [Command.SHOW_MORE_LINES]: [{ key: 's', ctrl: true }],
+  [Command.TOGGLE_SHELL_FOCUS]: [{ key: 'f', ctrl: true }],
 
   // Shell commands
   // Original: key.ctrl && key.name === 'r'
@@ -177,3 +185,222 @@ export const defaultKeyBindings: KeyBindingConfig = {
   // Original: key.name === 'tab'
   [Command.ACCEPT_SUGGESTION_REVERSE_SEARCH]: [{ key: 'tab' }],
 };
+
+export const KEY_BINDINGS_FILENAME = 'keybindings.json';
+export const USER_KEY_BINDINGS_PATH = path.join(
+  USER_SETTINGS_DIR,
+  KEY_BINDINGS_FILENAME,
+);
+
+/**
+ * Keys that always quit or exit the CLI. Only the listed commands may be
+ * bound to them, and those commands cannot be remapped, so a bad
+ * keybindings.json can never leave the user without a way out.
+ */
+const RESERVED_KEYS: ReadonlyArray<{
+  label: string;
+  key: string;
+  sequence: string;
+  commands: readonly Command[];
+}> = [
+  {
+    label: 'Ctrl+C',
+    key: 'c',
+    sequence: '\x03',
+    commands: [Command.QUIT, Command.CLEAR_INPUT],
+  },
+  {
+    label: 'Ctrl+D',
+    key: 'd',
+    sequence: '\x04',
+    commands: [Command.EXIT],
+  },
+];
+
+const RESERVED_COMMANDS: ReadonlySet<Command> = new Set([
+  Command.QUIT,
+  Command.EXIT,
+]);
+
+const MODIFIER_PROPERTIES = ['ctrl', 'shift', 'command', 'paste'] as const;
+
+export interface KeyBindingsLoadResult {
+  /** The default bindings with the valid user overrides applied. */
+  config: KeyBindingConfig;
+  /** Problems found in the file. The affected entries are ignored. */
+  warnings: string[];
+}
+
+/**
+ * Returns whether a binding would also fire on a reserved Ctrl+<key> press.
+ */
+function matchesReservedKey(
+  binding: KeyBinding,
+  reserved: (typeof RESERVED_KEYS)[number],
+): boolean {
+  const keyMatches =
+    binding.key !== undefined
+      ? binding.key === reserved.key
+      : binding.sequence === reserved.sequence;
+  return (
+    keyMatches &&
+    binding.ctrl !== false &&
+    binding.shift !== true &&
+    binding.command !== true &&
+    binding.paste !== true
+  );
+}
+
+/**
+ * Validates one binding from keybindings.json, returning an error message if
+ * it is invalid.
+ */
+function validateKeyBinding(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'a binding must be an object';
+  }
+  const binding = value as Record<string, unknown>;
+  for (const property of Object.keys(binding)) {
+    if (
+      property !== 'key' &&
+      property !== 'sequence' &&
+      !(MODIFIER_PROPERTIES as readonly string[]).includes(property)
+    ) {
+      return `unknown property "${property}"`;
+    }
+  }
+  const hasKey = binding['key'] !== undefined;
+  const hasSequence = binding['sequence'] !== undefined;
+  if (hasKey === hasSequence) {
+    return 'a binding must have either "key" or "sequence"';
+  }
+  const name = hasKey ? 'key' : 'sequence';
+  if (typeof binding[name] !== 'string' || binding[name] === '') {
+    return `"${name}" must be a non-empty string`;
+  }
+  for (const modifier of MODIFIER_PROPERTIES) {
+    if (
+      binding[modifier] !== undefined &&
+      typeof binding[modifier] !== 'boolean'
+    ) {
+      return `"${modifier}" must be true or false`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Loads the user's key binding overrides from keybindings.json. The file maps
+ * command names to arrays of bindings; each listed command's bindings replace
+ * its defaults. A missing file yields the defaults.
+ */
+export function loadKeyBindings(
+  filePath: string = USER_KEY_BINDINGS_PATH,
+): KeyBindingsLoadResult {
+  const config: { [C in Command]: readonly KeyBinding[] } = {
+    ...defaultKeyBindings,
+  };
+  const warnings: string[] = [];
+
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    if (isNodeError(error) && error.code === 'ENOENT') {
+      return { config, warnings };
+    }
+    warnings.push(
+      `Could not read ${filePath}: ${getErrorMessage(error)}. Using the default key bindings.`,
+    );
+    return { config, warnings };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonComments(content));
+  } catch (error) {
+    warnings.push(
+      `Could not parse ${filePath}: ${getErrorMessage(error)}. Using the default key bindings.`,
+    );
+    return { config, warnings };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    warnings.push(
+      `${filePath} must contain an object mapping commands to key bindings. Using the default key bindings.`,
+    );
+    return { config, warnings };
+  }
+
+  const commands = new Set<string>(Object.values(Command));
+  for (const [name, value] of Object.entries(parsed)) {
+    if (!commands.has(name)) {
+      warnings.push(`${filePath}: unknown command "${name}" ignored.`);
+      continue;
+    }
+    const command = name as Command;
+    if (RESERVED_COMMANDS.has(command)) {
+      warnings.push(
+        `${filePath}: "${name}" is reserved and cannot be remapped.`,
+      );
+      continue;
+    }
+    if (!Array.isArray(value)) {
+      warnings.push(
+        `${filePath}: the bindings for "${name}" must be an array; keeping the defaults.`,
+      );
+      continue;
+    }
+
+    const bindings: KeyBinding[] = [];
+    for (const entry of value) {
+      const error = validateKeyBinding(entry);
+      if (error) {
+        warnings.push(
+          `${filePath}: invalid binding ${JSON.stringify(entry)} for "${name}" ignored: ${error}.`,
+        );
+        continue;
+      }
+      const binding = entry as KeyBinding;
+      const reserved = RESERVED_KEYS.find(
+        (reservedKey) =>
+          !reservedKey.commands.includes(command) &&
+          matchesReservedKey(binding, reservedKey),
+      );
+      if (reserved) {
+        warnings.push(
+          `${filePath}: binding ${JSON.stringify(entry)} for "${name}" ignored: ${reserved.label} is reserved.`,
+        );
+        continue;
+      }
+      bindings.push(binding);
+    }
+
+    // An explicitly empty array unbinds the command; a list whose entries
+    // were all rejected keeps the defaults instead.
+    if (value.length === 0 || bindings.length > 0) {
+      config[command] = bindings;
+    }
+  }
+
+  return { config, warnings };
+}
+
+/**
+ * Formats a binding for display, e.g. `Ctrl+Return` or `Return (paste)`.
+ */
+export function formatKeyBinding(binding: KeyBinding): string {
+  const parts: string[] = [];
+  if (binding.ctrl) parts.push('Ctrl');
+  if (binding.command) parts.push('Meta');
+  if (binding.shift) parts.push('Shift');
+  if (binding.key !== undefined) {
+    parts.push(
+      binding.key.length === 1
+        ? binding.key.toUpperCase()
+        : binding.key.charAt(0).toUpperCase() + binding.key.slice(1),
+    );
+  } else {
+    parts.push(JSON.stringify(binding.sequence));
+  }
+  return parts.join('+') + (binding.paste ? ' (paste)' : '');
+}
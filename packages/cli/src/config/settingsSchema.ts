@@ -10,6 +10,12 @@ import {
   TelemetrySettings,
   AuthType,
   ChatCompressionSettings,
+  LspServerConfig,
+  WebSearchConfig,
+  HooksConfig,
+  ModelPricing,
+  ModelMetadataMap,
+  FallbackTarget,
 } from '@qwen-code/qwen-code-core';
 import { CustomTheme } from '../ui/themes/theme.js';
 
@@ -133,6 +139,26 @@ export const SETTINGS_SCHEMA = {
       'Maximum number of user/model/tool turns to keep in a session.',
     showInDialog: false,
   },
+  maxConcurrentToolCalls: {
+    type: 'number',
+    label: 'Max Concurrent Tool Calls',
+    category: 'General',
+    requiresRestart: true,
+    default: undefined as number | undefined,
+    description:
+      'Maximum number of tool calls to run in parallel. Calls that may interfere with each other always run one at a time.',
+    showInDialog: false,
+  },
+  interactiveShell: {
+    type: 'boolean',
+    label: 'Interactive Shell',
+    category: 'General',
+    requiresRestart: true,
+    default: true,
+    description:
+      'Run shell commands in a pseudo-terminal that you can focus to type input.',
+    showInDialog: false,
+  },
   memoryImportFormat: {
     type: 'string',
     label: 'Memory Import Format',
@@ -368,6 +394,26 @@ export const SETTINGS_SCHEMA = {
     description: 'A blacklist of MCP servers to exclude.',
     showInDialog: false,
   },
+  lspServers: {
+    type: 'object',
+    label: 'LSP Servers',
+    category: 'Advanced',
+    requiresRestart: true,
+    default: undefined as Record<string, LspServerConfig> | undefined,
+    description:
+      'Language servers used by the code intelligence tools, by name. Replaces the built-in server of the same name.',
+    showInDialog: false,
+  },
+  hooks: {
+    type: 'object',
+    label: 'Hooks',
+    category: 'Advanced',
+    requiresRestart: true,
+    default: undefined as HooksConfig | undefined,
+    description:
+      'Commands to run on lifecycle events such as PreToolUse, PostToolUse, UserPromptSubmit, Stop and SessionStart.',
+    showInDialog: false,
+  },
   telemetry: {
     type: 'object',
     label: 'Telemetry',
@@ -530,6 +576,46 @@ export const SETTINGS_SCHEMA = {
     description: 'The maximum number of tokens allowed in a session.',
     showInDialog: false,
   },
+  sessionBudgetUsd: {
+    type: 'number',
+    label: 'Session Budget (USD)',
+    category: 'General',
+    requiresRestart: false,
+    default: undefined as number | undefined,
+    description:
+      'The maximum estimated cost in US dollars of a session, after which no more requests are sent.',
+    showInDialog: false,
+  },
+  modelPricing: {
+    type: 'object',
+    label: 'Model Pricing',
+    category: 'General',
+    requiresRestart: true,
+    default: undefined as ModelPricing | undefined,
+    description:
+      'Prices in US dollars per million tokens, keyed by model name, "<provider>/<model>" or "<provider>/*". Overrides the built-in prices.',
+    showInDialog: false,
+  },
+  modelMetadata: {
+    type: 'object',
+    label: 'Model Metadata',
+    category: 'General',
+    requiresRestart: true,
+    default: undefined as ModelMetadataMap | undefined,
+    description:
+      'Context lengths, output limits and capabilities of models, keyed by model name, "<provider>/<model>" or "<provider>/*". Overrides the built-in and discovered metadata.',
+    showInDialog: false,
+  },
+  fallbackChain: {
+    type: 'array',
+    label: 'Fallback Chain',
+    category: 'General',
+    requiresRestart: true,
+    default: undefined as FallbackTarget[] | undefined,
+    description:
+      'Providers, and optionally models, to fall back to in order when the current provider runs out of quota, keeps timing out or keeps failing with server errors.',
+    showInDialog: false,
+  },
   systemPromptMappings: {
     type: 'object',
     label: 'System Prompt Mappings',
@@ -548,13 +634,24 @@ export const SETTINGS_SCHEMA = {
     description: 'The API key for the Tavily API.',
     showInDialog: false,
   },
+  webSearch: {
+    type: 'object',
+    label: 'Web Search',
+    category: 'General',
+    requiresRestart: true,
+    default: undefined as WebSearchConfig | undefined,
+    description:
+      'The backend of the web search tool: tavily (default), brave, searxng or a generic json endpoint.',
+    showInDialog: false,
+  },
   dangerouslySkipPermissions: {
     type: 'boolean',
     label: 'Dangerously Skip Permissions',
     category: 'Advanced',
     requiresRestart: false,
     default: false,
-    description: 'Automatically approve all file operations and commands without prompting (DANGEROUS).',
+    description:
+      'Automatically approve all file operations and commands without prompting (DANGEROUS).',
     showInDialog: true,
   },
 } as const;
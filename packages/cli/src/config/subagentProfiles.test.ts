@@ -0,0 +1,157 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import {
+  getProjectAgentsDir,
+  getUserAgentsDir,
+} from '@qwen-code/qwen-code-core';
+import mock from 'mock-fs';
+import { vi } from 'vitest';
+import { loadSubagentProfiles } from './subagentProfiles.js';
+
+describe('loadSubagentProfiles', () => {
+  const projectRoot = '/path/to/project';
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    vi.restoreAllMocks();
+  });
+
+  it('loads a profile with all supported fields', async () => {
+    mock({
+      [getUserAgentsDir()]: {
+        'reviewer.toml': `
+description = "Reviews code changes"
+prompt = "You review code. Focus on \${task}."
+tools = ["read_file", "glob"]
+model = "review-model"
+temperature = 0.2
+top_p = 0.9
+max_turns = 8
+max_time_minutes = 5
+
+[outputs]
+review = "The review comments"
+`,
+      },
+    });
+
+    const profiles = await loadSubagentProfiles(projectRoot, []);
+
+    expect(profiles).toEqual([
+      {
+        name: 'reviewer',
+        description: 'Reviews code changes',
+        systemPrompt: 'You review code. Focus on ${task}.',
+        tools: ['read_file', 'glob'],
+        model: 'review-model',
+        temp: 0.2,
+        top_p: 0.9,
+        max_turns: 8,
+        max_time_minutes: 5,
+        outputs: { review: 'The review comments' },
+        filePath: path.join(getUserAgentsDir(), 'reviewer.toml'),
+        extensionName: undefined,
+      },
+    ]);
+  });
+
+  it('names nested profiles with colons', async () => {
+    mock({
+      [getUserAgentsDir()]: {
+        review: {
+          'security.toml': 'prompt = "Look for vulnerabilities."',
+        },
+      },
+    });
+
+    const profiles = await loadSubagentProfiles(projectRoot, []);
+
+    expect(profiles.map((p) => p.name)).toEqual(['review:security']);
+  });
+
+  it('lets project profiles override user profiles', async () => {
+    mock({
+      [getUserAgentsDir()]: {
+        'reviewer.toml': 'prompt = "User reviewer"',
+      },
+      [getProjectAgentsDir(projectRoot)]: {
+        'reviewer.toml': 'prompt = "Project reviewer"',
+      },
+    });
+
+    const profiles = await loadSubagentProfiles(projectRoot, []);
+
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0].systemPrompt).toBe('Project reviewer');
+  });
+
+  it('loads profiles from active extensions and renames conflicts', async () => {
+    const extensionDir = path.join(projectRoot, '.qwen/extensions/test-ext');
+    const inactiveDir = path.join(projectRoot, '.qwen/extensions/inactive');
+    mock({
+      [getProjectAgentsDir(projectRoot)]: {
+        'reviewer.toml': 'prompt = "Project reviewer"',
+      },
+      [path.join(extensionDir, 'agents')]: {
+        'reviewer.toml': 'prompt = "Extension reviewer"',
+        'tester.toml': 'prompt = "Extension tester"',
+      },
+      [path.join(inactiveDir, 'agents')]: {
+        'ignored.toml': 'prompt = "Ignored"',
+      },
+    });
+
+    const profiles = await loadSubagentProfiles(projectRoot, [
+      {
+        name: 'test-ext',
+        version: '1.0.0',
+        isActive: true,
+        path: extensionDir,
+      },
+      {
+        name: 'inactive',
+        version: '1.0.0',
+        isActive: false,
+        path: inactiveDir,
+      },
+    ]);
+
+    expect(
+      profiles.map((p) => [p.name, p.systemPrompt, p.extensionName]),
+    ).toEqual([
+      ['reviewer', 'Project reviewer', undefined],
+      ['test-ext.reviewer', 'Extension reviewer', 'test-ext'],
+      ['tester', 'Extension tester', 'test-ext'],
+    ]);
+  });
+
+  it('skips files that are invalid', async () => {
+    mock({
+      [getUserAgentsDir()]: {
+        'no-prompt.toml': 'description = "Missing a prompt"',
+        'bad-syntax.toml': 'prompt = "unterminated',
+        'good.toml': 'prompt = "Fine"',
+      },
+    });
+
+    const profiles = await loadSubagentProfiles(projectRoot, []);
+
+    expect(profiles.map((p) => p.name)).toEqual(['good']);
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns no profiles when no agent directories exist', async () => {
+    mock({});
+
+    expect(await loadSubagentProfiles(projectRoot, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import toml from '@iarna/toml';
+import { glob } from 'glob';
+import { z } from 'zod';
+import {
+  GeminiCLIExtension,
+  SubagentProfile,
+  getProjectAgentsDir,
+  getUserAgentsDir,
+} from '@qwen-code/qwen-code-core';
+
+interface AgentDirectory {
+  path: string;
+  extensionName?: string;
+}
+
+/**
+ * Defines the Zod schema for an agent profile file. This serves as the
+ * single source of truth for both validation and type inference.
+ */
+const TomlAgentDefSchema = z.object({
+  prompt: z.string({
+    required_error: "The 'prompt' field is required.",
+    invalid_type_error: "The 'prompt' field must be a string.",
+  }),
+  description: z.string().optional(),
+  tools: z.array(z.string()).optional(),
+  model: z.string().optional(),
+  temperature: z.number().optional(),
+  top_p: z.number().optional(),
+  max_turns: z.number().int().positive().optional(),
+  max_time_minutes: z.number().positive().optional(),
+  outputs: z.record(z.string()).optional(),
+});
+
+/**
+ * Discovers subagent profiles from .toml files in the user's agents directory,
+ * the project's agents directory and the `agents` directory of each active
+ * extension.
+ *
+ * Profiles are named after their path relative to the agents directory, with
+ * `:` separating nested directories (e.g. `review/security.toml` becomes
+ * `review:security`). Project profiles override user profiles with the same
+ * name. Extension profiles that conflict with an existing name are renamed to
+ * `extensionName.profileName`.
+ *
+ * @param projectRoot The absolute path to the project's root directory.
+ * @param extensions The extensions known to the CLI; only active ones are used.
+ * @returns The loaded profiles. Invalid files are reported and skipped.
+ */
+export async function loadSubagentProfiles(
+  projectRoot: string,
+  extensions: GeminiCLIExtension[],
+): Promise<SubagentProfile[]> {
+  const profiles = new Map<string, SubagentProfile>();
+
+  for (const dirInfo of getAgentDirectories(projectRoot, extensions)) {
+    let files: string[];
+    try {
+      files = await glob('**/*.toml', {
+        cwd: dirInfo.path,
+        nodir: true,
+        dot: true,
+        follow: true,
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(
+          `[SubagentProfiles] Error loading agents from ${dirInfo.path}:`,
+          error,
+        );
+      }
+      continue;
+    }
+
+    // Sort for deterministic conflict resolution.
+    for (const file of files.sort()) {
+      const profile = await parseProfileFile(
+        path.join(dirInfo.path, file),
+        dirInfo.path,
+        dirInfo.extensionName,
+      );
+      if (!profile) {
+        continue;
+      }
+
+      if (profile.extensionName && profiles.has(profile.name)) {
+        let renamedName = `${profile.extensionName}.${profile.name}`;
+        let suffix = 1;
+        while (profiles.has(renamedName)) {
+          renamedName = `${profile.extensionName}.${profile.name}${suffix}`;
+          suffix++;
+        }
+        profile.name = renamedName;
+      }
+      profiles.set(profile.name, profile);
+    }
+  }
+
+  return Array.from(profiles.values());
+}
+
+/**
+ * Get all agent directories in order for loading.
+ * User agents → Project agents → Extension agents
+ */
+function getAgentDirectories(
+  projectRoot: string,
+  extensions: GeminiCLIExtension[],
+): AgentDirectory[] {
+  const dirs: AgentDirectory[] = [
+    { path: getUserAgentsDir() },
+    { path: getProjectAgentsDir(projectRoot) },
+  ];
+
+  const activeExtensions = extensions
+    .filter((ext) => ext.isActive)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const ext of activeExtensions) {
+    dirs.push({
+      path: path.join(ext.path, 'agents'),
+      extensionName: ext.name,
+    });
+  }
+
+  return dirs;
+}
+
+/**
+ * Parses a single .toml file into a SubagentProfile.
+ * @param filePath The absolute path to the .toml file.
+ * @param baseDir The root agents directory for name calculation.
+ * @param extensionName The extension shipping the profile, if any.
+ * @returns A promise resolving to a SubagentProfile, or null if the file is invalid.
+ */
+async function parseProfileFile(
+  filePath: string,
+  baseDir: string,
+  extensionName?: string,
+): Promise<SubagentProfile | null> {
+  let parsed: unknown;
+  try {
+    parsed = toml.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: unknown) {
+    console.error(
+      `[SubagentProfiles] Failed to load agent file ${filePath}:`,
+      error instanceof Error ? error.message : String(error),
+    );
+    return null;
+  }
+
+  const validationResult = TomlAgentDefSchema.safeParse(parsed);
+  if (!validationResult.success) {
+    console.error(
+      `[SubagentProfiles] Skipping invalid agent file: ${filePath}. Validation errors:`,
+      validationResult.error.flatten(),
+    );
+    return null;
+  }
+
+  const def = validationResult.data;
+  const relativePath = path
+    .relative(baseDir, filePath)
+    .slice(0, -'.toml'.length);
+  const name = relativePath
+    .split(path.sep)
+    .map((segment) => segment.replaceAll(':', '_'))
+    .join(':');
+
+  return {
+    name,
+    description: def.description,
+    systemPrompt: def.prompt,
+    tools: def.tools,
+    model: def.model,
+    temp: def.temperature,
+    top_p: def.top_p,
+    max_turns: def.max_turns,
+    max_time_minutes: def.max_time_minutes,
+    outputs: def.outputs,
+    filePath,
+    extensionName,
+  };
+}
@@ -22,6 +22,8 @@ import {
   SettingScope,
 } from './config/settings.js';
 import { themeManager } from './ui/themes/theme-manager.js';
+import { loadKeyBindings } from './config/keyBindings.js';
+import { setKeyBindingConfig } from './ui/keyMatchers.js';
 import { getStartupWarnings } from './utils/startupWarnings.js';
 import { getUserStartupWarnings } from './utils/userStartupWarnings.js';
 import { runNonInteractive } from './nonInteractiveCli.js';
@@ -37,6 +39,7 @@ import {
   logIdeConnection,
   IdeConnectionEvent,
   IdeConnectionType,
+  getErrorMessage,
 } from '@qwen-code/qwen-code-core';
 import { validateAuthMethod } from './config/auth.js';
 import { setMaxSizedBoxDebugging } from './ui/components/shared/MaxSizedBox.js';
@@ -45,6 +48,10 @@ import { checkForUpdates } from './ui/utils/updateCheck.js';
 import { handleAutoUpdate } from './utils/handleAutoUpdate.js';
 import { appEvents, AppEvent } from './utils/events.js';
 import { SettingsContext } from './ui/contexts/SettingsContext.js';
+import {
+  ResumedSession,
+  resolveResumedSession,
+} from './utils/sessionResume.js';
 
 export function validateDnsResolutionOrder(
   order: string | undefined,
@@ -150,11 +157,21 @@ export async function main() {
 
   const argv = await parseArguments();
   const extensions = loadExtensions(workspaceRoot);
+
+  let resumedSession: ResumedSession | undefined;
+  try {
+    resumedSession = await resolveResumedSession(argv, sessionId);
+  } catch (error) {
+    console.error(`Error: ${getErrorMessage(error)}`);
+    process.exit(1);
+  }
+
   const config = await loadCliConfig(
     settings.merged,
     extensions,
-    sessionId,
+    resumedSession?.sessionId ?? sessionId,
     argv,
+    resumedSession?.history,
   );
 
   dns.setDefaultResultOrder(
@@ -207,6 +224,10 @@ export async function main() {
     }
   }
 
+  // Apply the user's key binding overrides from keybindings.json
+  const keyBindings = loadKeyBindings();
+  setKeyBindingConfig(keyBindings.config);
+
   // hop into sandbox if we are outside and sandboxing is enabled
   if (!process.env.SANDBOX) {
     const memoryArgs = settings.merged.autoConfigureMaxOldSpaceSize
@@ -251,13 +272,14 @@ export async function main() {
   }
 
   if (config.getExperimentalAcp()) {
-    return runAcpPeer(config, settings);
+    return runAcpPeer(config, settings, extensions, argv);
   }
 
   let input = config.getQuestion();
   const startupWarnings = [
     ...(await getStartupWarnings()),
     ...(await getUserStartupWarnings(workspaceRoot)),
+    ...keyBindings.warnings,
   ];
   
   // Add YOLO mode warning - check the same conditions used in config.ts
@@ -299,6 +321,8 @@ export async function main() {
       });
 
     registerCleanup(() => instance.unmount());
+    registerCleanup(() => config.getLspManager().shutdown());
+    registerCleanup(() => config.getBackgroundJobManager().shutdown());
     return;
   }
   // If not a TTY, read from stdin
@@ -334,7 +358,19 @@ export async function main() {
     );
   }
 
-  await runNonInteractive(nonInteractiveConfig, input, prompt_id);
+  await runNonInteractive(
+    nonInteractiveConfig,
+    input,
+    prompt_id,
+    argv.export
+      ? {
+          filePath: argv.export,
+          redactSecrets: argv.exportRedact,
+          sessionId: nonInteractiveConfig.getSessionId(),
+          model: nonInteractiveConfig.getModel(),
+        }
+      : undefined,
+  );
   process.exit(0);
 }
 
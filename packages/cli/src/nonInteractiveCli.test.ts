@@ -6,17 +6,26 @@
 
 import {
   Config,
+  Logger,
   executeToolCall,
   ToolRegistry,
   ToolErrorType,
   shutdownTelemetry,
   GeminiEventType,
+  OutputFormat,
   ServerGeminiStreamEvent,
+  HookEventName,
 } from '@qwen-code/qwen-code-core';
 import { Part } from '@google/genai';
 import { runNonInteractive } from './nonInteractiveCli.js';
 import { vi } from 'vitest';
 
+const mockLogger = vi.hoisted(() => ({
+  initialize: vi.fn(),
+  logMessage: vi.fn(),
+  saveSessionHistory: vi.fn(),
+}));
+
 // Mock core modules
 vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
   const original =
@@ -26,6 +35,7 @@ vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
     executeToolCall: vi.fn(),
     shutdownTelemetry: vi.fn(),
     isTelemetrySdkInitialized: vi.fn().mockReturnValue(true),
+    Logger: vi.fn(),
   };
 });
 
@@ -39,11 +49,13 @@ describe('runNonInteractive', () => {
   let processStdoutSpy: vi.SpyInstance;
   let mockGeminiClient: {
     sendMessageStream: vi.Mock;
+    getHistory: vi.Mock;
   };
 
   beforeEach(() => {
     mockCoreExecuteToolCall = vi.mocked(executeToolCall);
     mockShutdownTelemetry = vi.mocked(shutdownTelemetry);
+    vi.mocked(Logger).mockImplementation(() => mockLogger as unknown as Logger);
 
     consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
     processExitSpy = vi
@@ -60,6 +72,7 @@ describe('runNonInteractive', () => {
 
     mockGeminiClient = {
       sendMessageStream: vi.fn(),
+      getHistory: vi.fn().mockReturnValue([]),
     };
 
     mockConfig = {
@@ -71,6 +84,15 @@ describe('runNonInteractive', () => {
       getFullContext: vi.fn().mockReturnValue(false),
       getContentGeneratorConfig: vi.fn().mockReturnValue({}),
       getDebugMode: vi.fn().mockReturnValue(false),
+      getOutputFormat: vi.fn().mockReturnValue(OutputFormat.TEXT),
+      getSessionId: vi.fn().mockReturnValue('test-session-id'),
+      setModelFallbackHandler: vi.fn(),
+      getLspManager: vi.fn().mockReturnValue({
+        shutdown: vi.fn().mockResolvedValue(undefined),
+      }),
+      getBackgroundJobManager: vi.fn().mockReturnValue({
+        shutdown: vi.fn().mockResolvedValue(undefined),
+      }),
     } as unknown as Config;
   });
 
@@ -178,6 +200,68 @@ describe('runNonInteractive', () => {
     expect(processExitSpy).toHaveBeenCalledWith(1);
   });
 
+  it('should not run tool calls that a PreToolUse hook blocks', async () => {
+    const actual = await vi.importActual<
+      typeof import('@qwen-code/qwen-code-core')
+    >('@qwen-code/qwen-code-core');
+    mockCoreExecuteToolCall.mockImplementation(actual.executeToolCall);
+    const execute = vi.fn();
+    vi.mocked(mockToolRegistry.getTool).mockReturnValue({
+      build: () => ({ execute }),
+    } as unknown as ReturnType<ToolRegistry['getTool']>);
+    const hookRunner = {
+      hasHooks: (event: HookEventName) => event === HookEventName.PreToolUse,
+      run: vi.fn().mockResolvedValue({
+        decision: 'deny',
+        reason: 'Writes are frozen.',
+      }),
+    };
+    mockConfig = {
+      ...mockConfig,
+      getHookRunner: () => hookRunner,
+      getUsageStatisticsEnabled: () => false,
+    } as unknown as Config;
+    const toolCallEvent: ServerGeminiStreamEvent = {
+      type: GeminiEventType.ToolCallRequest,
+      value: {
+        callId: 'tool-1',
+        name: 'write_file',
+        args: { file_path: 'a.txt' },
+        isClientInitiated: false,
+        prompt_id: 'prompt-id-hooks',
+      },
+    };
+    mockGeminiClient.sendMessageStream
+      .mockReturnValueOnce(createStreamFromEvents([toolCallEvent]))
+      .mockReturnValueOnce(
+        createStreamFromEvents([
+          { type: GeminiEventType.Content, value: 'Understood' },
+        ]),
+      );
+
+    await runNonInteractive(mockConfig, 'Write a file', 'prompt-id-hooks');
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(mockGeminiClient.sendMessageStream).toHaveBeenNthCalledWith(
+      2,
+      [
+        {
+          functionResponse: {
+            id: 'tool-1',
+            name: 'write_file',
+            response: {
+              error:
+                'Tool call blocked by a PreToolUse hook: Writes are frozen.',
+            },
+          },
+        },
+      ],
+      expect.any(AbortSignal),
+      'prompt-id-hooks',
+    );
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
   it('should exit with error if sendMessageStream throws initially', async () => {
     const apiError = new Error('API connection failed');
     mockGeminiClient.sendMessageStream.mockImplementation(() => {
@@ -192,6 +276,22 @@ describe('runNonInteractive', () => {
     expect(processExitSpy).toHaveBeenCalledWith(1);
   });
 
+  it('should stop language servers and background jobs before exiting with an error', async () => {
+    mockGeminiClient.sendMessageStream.mockImplementation(() => {
+      throw new Error('API connection failed');
+    });
+
+    await runNonInteractive(mockConfig, 'Initial fail', 'prompt-id-4');
+
+    const lspShutdown = vi.mocked(mockConfig.getLspManager().shutdown);
+    const jobsShutdown = vi.mocked(
+      mockConfig.getBackgroundJobManager().shutdown,
+    );
+    const exitOrder = processExitSpy.mock.invocationCallOrder[0];
+    expect(lspShutdown.mock.invocationCallOrder[0]).toBeLessThan(exitOrder);
+    expect(jobsShutdown.mock.invocationCallOrder[0]).toBeLessThan(exitOrder);
+  });
+
   it('should not exit if a tool is not found, and should send error back to model', async () => {
     const toolCallEvent: ServerGeminiStreamEvent = {
       type: GeminiEventType.ToolCallRequest,
@@ -242,4 +342,158 @@ describe('runNonInteractive', () => {
       '\n Reached max session turns for this session. Increase the number of turns by specifying maxSessionTurns in settings.json.',
     );
   });
+
+  it('should exit with an error when the session budget is exceeded', async () => {
+    const message =
+      'Session budget exceeded: $1.25 spent of the $1.00 budget. Please start a new session or increase the sessionBudgetUsd in your settings.json.';
+    mockGeminiClient.sendMessageStream.mockReturnValue(
+      createStreamFromEvents([
+        {
+          type: GeminiEventType.SessionBudgetExceeded,
+          value: { currentCostUsd: 1.25, budgetUsd: 1, message },
+        },
+      ]),
+    );
+
+    await runNonInteractive(mockConfig, 'Over budget', 'prompt-id-budget');
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(message);
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should report falling back to another provider on stderr', async () => {
+    const processStderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+    mockGeminiClient.sendMessageStream.mockReturnValue(
+      createStreamFromEvents([]),
+    );
+
+    await runNonInteractive(mockConfig, 'Test input', 'prompt-id-fallback');
+    const handler = vi.mocked(mockConfig.setModelFallbackHandler).mock
+      .calls[0][0];
+    handler({
+      fromProvider: 'anthropic',
+      fromModel: 'claude-sonnet-4',
+      toProvider: 'openai',
+      toModel: 'gpt-4o',
+      reason: 'server_error',
+      error: new Error('503'),
+    });
+
+    expect(processStderrSpy).toHaveBeenCalledWith(
+      'claude-sonnet-4 (anthropic) is unavailable. Switched to gpt-4o (openai) for the rest of this session. The conversation history was kept.\n',
+    );
+  });
+
+  it('should save the session history after each turn', async () => {
+    const history = [{ role: 'user', parts: [{ text: 'Test input' }] }];
+    mockGeminiClient.getHistory.mockReturnValue(history);
+    mockGeminiClient.sendMessageStream.mockReturnValue(
+      createStreamFromEvents([
+        { type: GeminiEventType.Content, value: 'Hello' },
+      ]),
+    );
+
+    await runNonInteractive(mockConfig, 'Test input', 'prompt-id-10');
+
+    expect(mockLogger.logMessage).toHaveBeenCalledWith('user', 'Test input');
+    expect(mockLogger.saveSessionHistory).toHaveBeenCalledWith(history);
+  });
+
+  describe('structured output', () => {
+    const getWrittenLines = () =>
+      processStdoutSpy.mock.calls
+        .map(([chunk]) => chunk as string)
+        .join('')
+        .trim()
+        .split('\n');
+
+    it('should write stream events and a result as JSON lines with stream-json', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(
+        OutputFormat.STREAM_JSON,
+      );
+      const toolCallEvent: ServerGeminiStreamEvent = {
+        type: GeminiEventType.ToolCallRequest,
+        value: {
+          callId: 'tool-1',
+          name: 'testTool',
+          args: { arg1: 'value1' },
+          isClientInitiated: false,
+          prompt_id: 'prompt-id-7',
+        },
+      };
+      mockCoreExecuteToolCall.mockResolvedValue({
+        callId: 'tool-1',
+        responseParts: [{ text: 'Tool response' }],
+        resultDisplay: 'Done',
+        error: undefined,
+      });
+      mockGeminiClient.sendMessageStream
+        .mockReturnValueOnce(createStreamFromEvents([toolCallEvent]))
+        .mockReturnValueOnce(
+          createStreamFromEvents([
+            { type: GeminiEventType.Content, value: 'Final answer' },
+            {
+              type: GeminiEventType.UsageMetadata,
+              value: { promptTokenCount: 3, totalTokenCount: 5 },
+            },
+          ]),
+        );
+
+      await runNonInteractive(mockConfig, 'Use a tool', 'prompt-id-7');
+
+      const lines = getWrittenLines().map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.type)).toEqual([
+        'tool_call_request',
+        'tool_call_response',
+        'content',
+        'usage_metadata',
+        'result',
+      ]);
+      expect(lines[1].value).toMatchObject({
+        callId: 'tool-1',
+        resultDisplay: 'Done',
+      });
+      expect(lines[4]).toMatchObject({
+        type: 'result',
+        response: 'Final answer',
+        stats: {
+          tokens: expect.objectContaining({ total: expect.any(Number) }),
+        },
+      });
+      expect(lines[4].error).toBeUndefined();
+    });
+
+    it('should write a single result object with json', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.JSON);
+      mockGeminiClient.sendMessageStream.mockReturnValue(
+        createStreamFromEvents([
+          { type: GeminiEventType.Content, value: 'Hello' },
+          { type: GeminiEventType.Content, value: ' World' },
+        ]),
+      );
+
+      await runNonInteractive(mockConfig, 'Test input', 'prompt-id-8');
+
+      const result = JSON.parse(getWrittenLines().join('\n'));
+      expect(result).toMatchObject({ type: 'result', response: 'Hello World' });
+      expect(processStdoutSpy).not.toHaveBeenCalledWith('Hello');
+    });
+
+    it('should report errors in the result object', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.JSON);
+      mockGeminiClient.sendMessageStream.mockImplementation(() => {
+        throw new Error('API connection failed');
+      });
+
+      await runNonInteractive(mockConfig, 'Initial fail', 'prompt-id-9');
+
+      const result = JSON.parse(getWrittenLines().join('\n'));
+      expect(result.error).toEqual({
+        message: '[API Error: API connection failed]',
+      });
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
 });
@@ -13,22 +13,36 @@ import {
   isTelemetrySdkInitialized,
   GeminiEventType,
   ToolErrorType,
+  Logger,
+  MessageSenderType,
+  describeModelFallback,
 } from '@qwen-code/qwen-code-core';
 import { Content, Part, FunctionCall } from '@google/genai';
 
 import { parseAndFormatApiError } from './ui/utils/errorParsing.js';
 import { ConsolePatcher } from './ui/utils/ConsolePatcher.js';
+import {
+  NonInteractiveExportOptions,
+  NonInteractiveOutput,
+} from './utils/nonInteractiveOutput.js';
 
 export async function runNonInteractive(
   config: Config,
   input: string,
   prompt_id: string,
+  exportOptions?: NonInteractiveExportOptions,
 ): Promise<void> {
   const consolePatcher = new ConsolePatcher({
     stderr: true,
     debugMode: config.getDebugMode(),
   });
+  const output = new NonInteractiveOutput(
+    config.getOutputFormat(),
+    exportOptions,
+  );
+  output.addUserPrompt(input);
 
+  let exitCode: number | undefined;
   try {
     consolePatcher.patch();
     // Handle EPIPE errors when the output is piped to a command that closes early.
@@ -39,8 +53,15 @@ export async function runNonInteractive(
       }
     });
 
+    config.setModelFallbackHandler((event) => {
+      process.stderr.write(`${describeModelFallback(event)}\n`);
+    });
+
     const geminiClient = config.getGeminiClient();
     const toolRegistry: ToolRegistry = await config.getToolRegistry();
+    const logger = new Logger(config.getSessionId());
+    await logger.initialize();
+    await logger.logMessage(MessageSenderType.USER, input);
 
     const abortController = new AbortController();
     let currentMessages: Content[] = [
@@ -53,9 +74,10 @@ export async function runNonInteractive(
         config.getMaxSessionTurns() >= 0 &&
         turnCount > config.getMaxSessionTurns()
       ) {
-        console.error(
-          '\n Reached max session turns for this session. Increase the number of turns by specifying maxSessionTurns in settings.json.',
-        );
+        const message =
+          'Reached max session turns for this session. Increase the number of turns by specifying maxSessionTurns in settings.json.';
+        console.error(`\n ${message}`);
+        output.finish(message);
         return;
       }
       const functionCalls: FunctionCall[] = [];
@@ -69,12 +91,12 @@ export async function runNonInteractive(
       for await (const event of responseStream) {
         if (abortController.signal.aborted) {
           console.error('Operation cancelled.');
+          output.finish('Operation cancelled.');
           return;
         }
 
-        if (event.type === GeminiEventType.Content) {
-          process.stdout.write(event.value);
-        } else if (event.type === GeminiEventType.ToolCallRequest) {
+        output.emit(event);
+        if (event.type === GeminiEventType.ToolCallRequest) {
           const toolCallRequest = event.value;
           const fc: FunctionCall = {
             name: toolCallRequest.name,
@@ -82,8 +104,15 @@ export async function runNonInteractive(
             id: toolCallRequest.callId,
           };
           functionCalls.push(fc);
+        } else if (event.type === GeminiEventType.SessionBudgetExceeded) {
+          console.error(event.value.message);
+          output.finish(event.value.message);
+          exitCode = 1;
+          return;
         }
       }
+      // Save after every turn so that the session can be resumed later
+      await logger.saveSessionHistory(geminiClient.getHistory());
 
       if (functionCalls.length > 0) {
         const toolResponseParts: Part[] = [];
@@ -105,12 +134,19 @@ export async function runNonInteractive(
             abortController.signal,
           );
 
+          output.emit({
+            type: GeminiEventType.ToolCallResponse,
+            value: toolResponse,
+          });
+
           if (toolResponse.error) {
-            console.error(
-              `Error executing tool ${fc.name}: ${toolResponse.resultDisplay || toolResponse.error.message}`,
-            );
-            if (toolResponse.errorType === ToolErrorType.UNHANDLED_EXCEPTION)
-              process.exit(1);
+            const message = `Error executing tool ${fc.name}: ${toolResponse.resultDisplay || toolResponse.error.message}`;
+            console.error(message);
+            if (toolResponse.errorType === ToolErrorType.UNHANDLED_EXCEPTION) {
+              output.finish(message);
+              exitCode = 1;
+              return;
+            }
           }
 
           if (toolResponse.responseParts) {
@@ -128,22 +164,28 @@ export async function runNonInteractive(
         }
         currentMessages = [{ role: 'user', parts: toolResponseParts }];
       } else {
-        process.stdout.write('\n'); // Ensure a final newline
+        output.finish();
         return;
       }
     }
   } catch (error) {
-    console.error(
-      parseAndFormatApiError(
-        error,
-        config.getContentGeneratorConfig()?.authType,
-      ),
+    const message = parseAndFormatApiError(
+      error,
+      config.getContentGeneratorConfig()?.authType,
     );
-    process.exit(1);
+    console.error(message);
+    output.finish(message);
+    exitCode = 1;
   } finally {
     consolePatcher.cleanup();
+    await config.getLspManager().shutdown();
+    await config.getBackgroundJobManager().shutdown();
     if (isTelemetrySdkInitialized()) {
       await shutdownTelemetry();
     }
+    // Exit only after the language servers and background jobs have stopped.
+    if (exitCode !== undefined) {
+      process.exit(exitCode);
+    }
   }
 }
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes } from 'node:crypto';
+import { getErrorMessage } from '@qwen-code/qwen-code-core';
+import { loadSettings } from '../config/settings.js';
+import { loadExtensions } from '../config/extension.js';
+import { CliArgs, loadCliConfig } from '../config/config.js';
+import { resolveNonInteractiveAuthType } from '../validateNonInterActiveAuth.js';
+import { SessionServer } from './sessionServer.js';
+
+export interface ServeOptions {
+  host: string;
+  port: number;
+  token?: string;
+  model?: string;
+  debug?: boolean;
+}
+
+/**
+ * Returns the arguments that served sessions are configured with. The flags of
+ * the main command do not apply to them.
+ */
+function createCliArgs(options: ServeOptions): CliArgs {
+  return {
+    model: options.model,
+    sandbox: undefined,
+    sandboxImage: undefined,
+    debug: options.debug,
+    prompt: undefined,
+    promptInteractive: undefined,
+    outputFormat: undefined,
+    continue: undefined,
+    resume: undefined,
+    export: undefined,
+    exportRedact: undefined,
+    allFiles: undefined,
+    all_files: undefined,
+    showMemoryUsage: undefined,
+    show_memory_usage: undefined,
+    yolo: undefined,
+    telemetry: undefined,
+    checkpointing: undefined,
+    telemetryTarget: undefined,
+    telemetryOtlpEndpoint: undefined,
+    telemetryLogPrompts: undefined,
+    telemetryOutfile: undefined,
+    allowedMcpServerNames: undefined,
+    experimentalAcp: undefined,
+    extensions: undefined,
+    listExtensions: undefined,
+    ideModeFeature: undefined,
+    openaiLogging: undefined,
+    openaiApiKey: undefined,
+    openaiBaseUrl: undefined,
+    proxy: undefined,
+    includeDirectories: undefined,
+    tavilyApiKey: undefined,
+    serve: true,
+  };
+}
+
+/** Serves agent sessions until the process is interrupted. */
+export async function serve(options: ServeOptions): Promise<void> {
+  // Without a token, any local process or web page could drive the agent.
+  const configuredToken = options.token || process.env['CODEDUET_SERVE_TOKEN'];
+  const token = configuredToken || randomBytes(32).toString('hex');
+
+  const workspaceRoot = process.cwd();
+  const settings = loadSettings(workspaceRoot);
+  if (settings.errors.length > 0) {
+    for (const error of settings.errors) {
+      console.error(`Error in ${error.path}: ${error.message}`);
+    }
+    process.exit(1);
+  }
+  const extensions = loadExtensions(workspaceRoot);
+  const authType = resolveNonInteractiveAuthType(
+    settings.merged.selectedAuthType,
+    settings.merged.useExternalAuth,
+  );
+
+  const server = new SessionServer({
+    host: options.host,
+    port: options.port,
+    token,
+    createConfig: async (sessionId) => {
+      const config = await loadCliConfig(
+        settings.merged,
+        extensions,
+        sessionId,
+        createCliArgs(options),
+      );
+      await config.initialize();
+      await config.refreshAuth(authType);
+      return config;
+    },
+  });
+
+  let url: string;
+  try {
+    url = await server.listen();
+  } catch (error) {
+    console.error(`Failed to start the server: ${getErrorMessage(error)}`);
+    process.exit(1);
+  }
+  console.log(`Serving agent sessions at ${url}`);
+  if (!configuredToken) {
+    console.log(`Send the header "Authorization: Bearer ${token}".`);
+  }
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+  await server.close();
+}
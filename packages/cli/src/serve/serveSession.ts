@@ -0,0 +1,308 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CompletedToolCall,
+  Config,
+  CoreToolScheduler,
+  GeminiEventType,
+  getErrorMessage,
+  ServerGeminiStreamEvent,
+  ToolCall,
+  ToolCallRequestInfo,
+  ToolConfirmationOutcome,
+  ToolResultDisplay,
+} from '@qwen-code/qwen-code-core';
+import { Content, Part, PartListUnion } from '@google/genai';
+import { toJsonEvent } from '../utils/nonInteractiveOutput.js';
+
+export type ServeSessionState = 'idle' | 'running' | 'awaiting_approval';
+
+/**
+ * An event sent to the clients of a session. Besides the events of the
+ * model stream, the server sends:
+ *
+ * - `tool_calls_update` with the state of every tool call of the turn.
+ * - `tool_output` with live output of a running tool.
+ * - `turn_finished` once the agent waits for the next message.
+ * - `session_closed` once the session is removed.
+ */
+export interface ServeEvent {
+  id: number;
+  type: string;
+  value?: unknown;
+}
+
+/** A tool call without the tool objects, which do not serialize. */
+export interface ServeToolCall {
+  callId: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCall['status'];
+  /** What the client is asked to approve, for calls awaiting approval. */
+  confirmationDetails?: Record<string, unknown>;
+  resultDisplay?: ToolResultDisplay;
+  error?: string;
+}
+
+export interface ServeSessionInfo {
+  id: string;
+  state: ServeSessionState;
+  model: string;
+  createdAt: string;
+  pendingToolCalls: ServeToolCall[];
+}
+
+export type ServeEventListener = (event: ServeEvent) => void;
+
+/** Thrown for requests that do not fit the state of the session. */
+export class SessionStateError extends Error {}
+
+function toServeToolCall(call: ToolCall): ServeToolCall {
+  const serveCall: ServeToolCall = {
+    callId: call.request.callId,
+    name: call.request.name,
+    args: call.request.args,
+    status: call.status,
+  };
+  if (call.status === 'awaiting_approval') {
+    const { onConfirm: _onConfirm, ...details } = call.confirmationDetails;
+    serveCall.confirmationDetails = details;
+  }
+  if ('response' in call) {
+    serveCall.resultDisplay = call.response.resultDisplay;
+    serveCall.error = call.response.error?.message;
+  }
+  return serveCall;
+}
+
+function toParts(responses: PartListUnion[]): Part[] {
+  return responses.flatMap((response) =>
+    (Array.isArray(response) ? response : [response]).map((part) =>
+      typeof part === 'string' ? { text: part } : part,
+    ),
+  );
+}
+
+/**
+ * One conversation with the agent, driven over HTTP. It runs the same loop
+ * as the interactive UI: stream the model's response, schedule the tool
+ * calls it requests with the `CoreToolScheduler`, wait for the client to
+ * approve those that need confirmation, and send the results back until the
+ * model is done.
+ */
+export class ServeSession {
+  readonly createdAt = new Date();
+  private readonly listeners = new Set<ServeEventListener>();
+  private readonly scheduler: CoreToolScheduler;
+  /** The events of the current turn, replayed to clients that subscribe late. */
+  private turnEvents: ServeEvent[] = [];
+  private nextEventId = 1;
+  private turnCount = 0;
+  private toolCalls: ToolCall[] = [];
+  private abortController: AbortController | undefined;
+  private resolveToolCalls:
+    | ((completed: CompletedToolCall[]) => void)
+    | undefined;
+
+  constructor(
+    readonly id: string,
+    private readonly config: Config,
+  ) {
+    this.scheduler = new CoreToolScheduler({
+      toolRegistry: config.getToolRegistry(),
+      config,
+      getPreferredEditor: () => undefined,
+      onEditorClose: () => {},
+      outputUpdateHandler: (callId, output) =>
+        this.emit('tool_output', { callId, output }),
+      onToolCallsUpdate: (toolCalls) => {
+        this.toolCalls = toolCalls;
+        this.emit('tool_calls_update', toolCalls.map(toServeToolCall));
+      },
+      onAllToolCallsComplete: async (completed) => {
+        this.resolveToolCalls?.(completed);
+      },
+    });
+  }
+
+  getState(): ServeSessionState {
+    if (this.toolCalls.some((call) => call.status === 'awaiting_approval')) {
+      return 'awaiting_approval';
+    }
+    return this.abortController ? 'running' : 'idle';
+  }
+
+  getInfo(): ServeSessionInfo {
+    return {
+      id: this.id,
+      state: this.getState(),
+      model: this.config.getModel(),
+      createdAt: this.createdAt.toISOString(),
+      pendingToolCalls: this.toolCalls
+        .filter((call) => call.status === 'awaiting_approval')
+        .map(toServeToolCall),
+    };
+  }
+
+  getHistory(): Content[] {
+    return this.config.getGeminiClient().getHistory();
+  }
+
+  /**
+   * Calls the listener with the events of the current turn so far and every
+   * event from now on. Returns a function that unsubscribes.
+   */
+  subscribe(listener: ServeEventListener): () => void {
+    for (const event of this.turnEvents) {
+      listener(event);
+    }
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Starts a turn with a message from the user. The turn runs in the
+   * background and reports its progress to subscribers.
+   * @returns The prompt ID of the turn.
+   * @throws {SessionStateError} If a turn is already running.
+   */
+  sendMessage(text: string): string {
+    if (this.abortController) {
+      throw new SessionStateError(
+        'The session is busy. Wait for the turn to finish or cancel it.',
+      );
+    }
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.turnEvents = [];
+    const promptId = `${this.id}########${++this.turnCount}`;
+
+    void this.runTurn([{ text }], promptId, abortController.signal).finally(
+      () => {
+        this.abortController = undefined;
+        this.toolCalls = [];
+        this.emit('turn_finished', this.getInfo());
+      },
+    );
+    return promptId;
+  }
+
+  /**
+   * Approves or denies a tool call that awaits approval.
+   * @throws {SessionStateError} If no such call awaits approval.
+   */
+  async confirmToolCall(
+    callId: string,
+    outcome: ToolConfirmationOutcome,
+  ): Promise<void> {
+    const call = this.toolCalls.find(
+      (toolCall) => toolCall.request.callId === callId,
+    );
+    if (call?.status !== 'awaiting_approval') {
+      throw new SessionStateError(
+        `Tool call ${callId} is not awaiting approval.`,
+      );
+    }
+    await call.confirmationDetails.onConfirm(outcome);
+  }
+
+  /**
+   * Cancels the running turn, including tool calls that await approval.
+   * @returns Whether a turn was running.
+   */
+  async cancel(): Promise<boolean> {
+    if (!this.abortController) {
+      return false;
+    }
+    this.abortController.abort();
+    for (const call of this.toolCalls) {
+      if (call.status === 'awaiting_approval') {
+        await call.confirmationDetails.onConfirm(
+          ToolConfirmationOutcome.Cancel,
+        );
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Cancels the running turn and stops the language servers and background
+   * jobs it started.
+   */
+  async close(): Promise<void> {
+    await this.cancel();
+    await this.config.getLspManager().shutdown();
+    await this.config.getBackgroundJobManager().shutdown();
+    this.emit('session_closed');
+    this.listeners.clear();
+  }
+
+  private emit(type: string, value?: unknown): void {
+    const event: ServeEvent = { id: this.nextEventId++, type, value };
+    this.turnEvents.push(event);
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private async runTurn(
+    initialParts: Part[],
+    promptId: string,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const geminiClient = this.config.getGeminiClient();
+    let parts: Part[] | null = initialParts;
+    try {
+      while (parts && !signal.aborted) {
+        const requests: ToolCallRequestInfo[] = [];
+        for await (const event of geminiClient.sendMessageStream(
+          parts,
+          signal,
+          promptId,
+        )) {
+          this.emitStreamEvent(event);
+          if (event.type === GeminiEventType.ToolCallRequest) {
+            requests.push(event.value);
+          }
+        }
+        parts = null;
+        if (requests.length === 0 || signal.aborted) {
+          break;
+        }
+
+        const completed = await new Promise<CompletedToolCall[]>(
+          (resolve, reject) => {
+            this.resolveToolCalls = resolve;
+            this.scheduler.schedule(requests, signal).catch(reject);
+          },
+        );
+        this.resolveToolCalls = undefined;
+        const responseParts = toParts(
+          completed.map((call) => call.response.responseParts),
+        );
+        if (
+          signal.aborted ||
+          completed.every((call) => call.status === 'cancelled')
+        ) {
+          // Let the model know about the cancelled calls next turn.
+          geminiClient.addHistory({ role: 'user', parts: responseParts });
+          break;
+        }
+        parts = responseParts;
+      }
+    } catch (error) {
+      this.emit(GeminiEventType.Error, {
+        error: { message: getErrorMessage(error) },
+      });
+    }
+  }
+
+  private emitStreamEvent(event: ServerGeminiStreamEvent): void {
+    const { type, value } = toJsonEvent(event);
+    this.emit(type, value);
+  }
+}
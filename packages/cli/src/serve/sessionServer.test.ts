@@ -0,0 +1,312 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ApprovalMode,
+  BaseTool,
+  Config,
+  GeminiEventType,
+  Icon,
+  ServerGeminiStreamEvent,
+  ToolCallConfirmationDetails,
+  ToolResult,
+} from '@qwen-code/qwen-code-core';
+import { SessionServer } from './sessionServer.js';
+
+class ConfirmingTool extends BaseTool<object, ToolResult> {
+  constructor() {
+    super('run', 'Run', 'A tool that asks for approval', Icon.Hammer, {});
+  }
+
+  override async shouldConfirmExecute(): Promise<
+    ToolCallConfirmationDetails | false
+  > {
+    return {
+      type: 'exec',
+      title: 'Confirm Run',
+      command: 'ls',
+      rootCommand: 'ls',
+      onConfirm: async () => {},
+    };
+  }
+
+  execute = vi.fn(
+    async (): Promise<ToolResult> => ({
+      llmContent: 'file.txt',
+      returnDisplay: 'file.txt',
+    }),
+  );
+}
+
+async function* stream(
+  events: ServerGeminiStreamEvent[],
+): AsyncGenerator<ServerGeminiStreamEvent> {
+  for (const event of events) {
+    yield event;
+  }
+}
+
+const TOKEN = 'secret';
+
+describe('SessionServer', () => {
+  let server: SessionServer;
+  let baseUrl: string;
+  let tool: ConfirmingTool;
+  let geminiClient: {
+    sendMessageStream: ReturnType<typeof vi.fn>;
+    getHistory: ReturnType<typeof vi.fn>;
+    addHistory: ReturnType<typeof vi.fn>;
+  };
+  let lspShutdown: ReturnType<typeof vi.fn>;
+  let jobsShutdown: ReturnType<typeof vi.fn>;
+
+  const request = async (
+    method: string,
+    path: string,
+    body?: unknown,
+    token = TOKEN,
+  ) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  const waitForState = async (sessionId: string, state: string) => {
+    await vi.waitFor(async () => {
+      const { body } = await request('GET', `/sessions/${sessionId}`);
+      expect(body.state).toBe(state);
+    });
+  };
+
+  const startServer = async () => {
+    server = new SessionServer({
+      host: '127.0.0.1',
+      port: 0,
+      token: TOKEN,
+      createConfig: async () =>
+        ({
+          getToolRegistry: async () => ({ getTool: () => tool }),
+          getApprovalMode: () => ApprovalMode.DEFAULT,
+          getUsageStatisticsEnabled: () => false,
+          getDebugMode: () => false,
+          getHookRunner: () => ({ hasHooks: () => false }),
+          getMaxConcurrentToolCalls: () => 8,
+          getSessionId: () => 'session',
+          getModel: () => 'qwen3-coder-plus',
+          getGeminiClient: () => geminiClient,
+          getLspManager: () => ({ shutdown: lspShutdown }),
+          getBackgroundJobManager: () => ({ shutdown: jobsShutdown }),
+        }) as unknown as Config,
+    });
+    baseUrl = await server.listen();
+  };
+
+  beforeEach(() => {
+    tool = new ConfirmingTool();
+    lspShutdown = vi.fn();
+    jobsShutdown = vi.fn();
+    geminiClient = {
+      sendMessageStream: vi
+        .fn()
+        .mockImplementationOnce(() =>
+          stream([
+            { type: GeminiEventType.Content, value: 'Listing files.' },
+            {
+              type: GeminiEventType.ToolCallRequest,
+              value: {
+                callId: 'call-1',
+                name: 'run',
+                args: {},
+                isClientInitiated: false,
+                prompt_id: 'prompt',
+              },
+            },
+          ]),
+        )
+        .mockImplementationOnce(() =>
+          stream([{ type: GeminiEventType.Content, value: 'Done.' }]),
+        ),
+      getHistory: vi
+        .fn()
+        .mockReturnValue([{ role: 'user', parts: [{ text: 'hi' }] }]),
+      addHistory: vi.fn(),
+    };
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('runs a turn that waits for a tool call to be approved', async () => {
+    await startServer();
+
+    const created = await request('POST', '/sessions');
+    expect(created.status).toBe(201);
+    const sessionId = created.body.id;
+
+    const sent = await request('POST', `/sessions/${sessionId}/messages`, {
+      text: 'list the files',
+    });
+    expect(sent.status).toBe(202);
+    expect(sent.body.promptId).toBe(`${sessionId}########1`);
+
+    await waitForState(sessionId, 'awaiting_approval');
+    const { body: info } = await request('GET', `/sessions/${sessionId}`);
+    expect(info.pendingToolCalls).toEqual([
+      expect.objectContaining({
+        callId: 'call-1',
+        name: 'run',
+        status: 'awaiting_approval',
+        confirmationDetails: expect.objectContaining({ command: 'ls' }),
+      }),
+    ]);
+
+    const busy = await request('POST', `/sessions/${sessionId}/messages`, {
+      text: 'again',
+    });
+    expect(busy.status).toBe(409);
+
+    const approved = await request(
+      'POST',
+      `/sessions/${sessionId}/tool-calls/call-1/approve`,
+    );
+    expect(approved.status).toBe(200);
+    await waitForState(sessionId, 'idle');
+
+    expect(tool.execute).toHaveBeenCalled();
+    expect(geminiClient.sendMessageStream).toHaveBeenCalledTimes(2);
+    expect(geminiClient.sendMessageStream.mock.calls[1][0]).toEqual([
+      expect.objectContaining({
+        functionResponse: expect.objectContaining({ id: 'call-1' }),
+      }),
+    ]);
+
+    const history = await request('GET', `/sessions/${sessionId}/history`);
+    expect(history.body).toEqual({
+      history: [{ role: 'user', parts: [{ text: 'hi' }] }],
+    });
+  });
+
+  it('streams the events of a turn', async () => {
+    await startServer();
+    const { body: session } = await request('POST', '/sessions');
+    await request('POST', `/sessions/${session.id}/messages`, { text: 'go' });
+    await waitForState(session.id, 'awaiting_approval');
+
+    const response = await fetch(`${baseUrl}/sessions/${session.id}/events`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const reader = response.body!.getReader();
+    let received = '';
+    while (!received.includes('event: tool_calls_update')) {
+      const { value } = await reader.read();
+      received += new TextDecoder().decode(value);
+    }
+    await reader.cancel();
+
+    expect(received).toContain('event: content\ndata: "Listing files."');
+    expect(received).toContain('event: tool_call_request');
+  });
+
+  it('denies and cancels tool calls', async () => {
+    await startServer();
+    const { body: session } = await request('POST', '/sessions');
+    await request('POST', `/sessions/${session.id}/messages`, { text: 'go' });
+    await waitForState(session.id, 'awaiting_approval');
+
+    const denied = await request(
+      'POST',
+      `/sessions/${session.id}/tool-calls/call-1/deny`,
+    );
+    expect(denied.status).toBe(200);
+    await waitForState(session.id, 'idle');
+
+    expect(tool.execute).not.toHaveBeenCalled();
+    expect(geminiClient.sendMessageStream).toHaveBeenCalledTimes(1);
+    expect(geminiClient.addHistory).toHaveBeenCalledWith({
+      role: 'user',
+      parts: [
+        expect.objectContaining({
+          functionResponse: expect.objectContaining({ id: 'call-1' }),
+        }),
+      ],
+    });
+    const cancelled = await request('POST', `/sessions/${session.id}/cancel`);
+    expect(cancelled.body).toEqual({ cancelled: false });
+  });
+
+  it('removes sessions', async () => {
+    await startServer();
+    const { body: session } = await request('POST', '/sessions');
+
+    const removed = await request('DELETE', `/sessions/${session.id}`);
+
+    expect(removed.status).toBe(204);
+    expect(lspShutdown).toHaveBeenCalled();
+    expect(jobsShutdown).toHaveBeenCalled();
+    expect((await request('GET', '/sessions')).body).toEqual({ sessions: [] });
+    expect((await request('GET', `/sessions/${session.id}`)).status).toBe(404);
+  });
+
+  it('rejects invalid requests', async () => {
+    await startServer();
+    const { body: session } = await request('POST', '/sessions');
+
+    const empty = await request('POST', `/sessions/${session.id}/messages`, {
+      text: ' ',
+    });
+    expect(empty.status).toBe(400);
+    const unknownCall = await request(
+      'POST',
+      `/sessions/${session.id}/tool-calls/nope/approve`,
+    );
+    expect(unknownCall).toEqual({
+      status: 409,
+      body: { error: { message: 'Tool call nope is not awaiting approval.' } },
+    });
+    expect((await request('GET', '/elsewhere')).status).toBe(404);
+  });
+
+  it('requires the token', async () => {
+    await startServer();
+
+    expect((await request('GET', '/sessions', undefined, '')).status).toBe(401);
+    expect((await request('POST', '/sessions', undefined, '')).status).toBe(
+      401,
+    );
+    expect((await request('GET', '/sessions', undefined, 'wrong')).status).toBe(
+      401,
+    );
+    expect((await request('GET', '/sessions')).body).toEqual({ sessions: [] });
+  });
+
+  it('requires JSON request bodies', async () => {
+    await startServer();
+    const { body: session } = await request('POST', '/sessions');
+
+    // Browsers send such requests to other sites without asking first.
+    const response = await fetch(`${baseUrl}/sessions/${session.id}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/plain',
+        Authorization: `Bearer ${TOKEN}`,
+      },
+      body: JSON.stringify({ text: 'go' }),
+    });
+
+    expect(response.status).toBe(415);
+    expect(geminiClient.sendMessageStream).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import http from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import {
+  Config,
+  getErrorMessage,
+  ToolConfirmationOutcome,
+} from '@qwen-code/qwen-code-core';
+import { ServeSession, SessionStateError } from './serveSession.js';
+
+/** Request bodies larger than this are rejected. */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** SSE comments sent this often keep idle connections from timing out. */
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+export interface SessionServerOptions {
+  host: string;
+  port: number;
+  /** Requests must send it as `Authorization: Bearer <token>`. */
+  token: string;
+  /** Creates the authenticated config of a new session. */
+  createConfig: (sessionId: string) => Promise<Config>;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(
+  req: http.IncomingMessage,
+): Promise<Record<string, unknown>> {
+  const contentType = req.headers['content-type']?.split(';')[0].trim();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body is too large.');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  if (!text) {
+    return {};
+  }
+  if (contentType?.toLowerCase() !== 'application/json') {
+    throw new HttpError(415, 'Request body must be sent as application/json.');
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object.');
+  }
+  return body as Record<string, unknown>;
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Serves agent sessions over local HTTP, with Server-Sent Events for the
+ * progress of each turn.
+ *
+ * - `POST /sessions` creates a session.
+ * - `GET /sessions` lists the sessions, `GET /sessions/:id` describes one.
+ * - `DELETE /sessions/:id` cancels and removes a session.
+ * - `POST /sessions/:id/messages` with `{ "text": "..." }` starts a turn.
+ * - `GET /sessions/:id/events` streams the events of the session.
+ * - `POST /sessions/:id/tool-calls/:callId/approve` (optionally with
+ *   `{ "always": true }`) and `.../deny` answer tool confirmations.
+ * - `GET /sessions/:id/history` returns the conversation history.
+ * - `POST /sessions/:id/cancel` cancels the running turn.
+ */
+export class SessionServer {
+  private readonly sessions = new Map<string, ServeSession>();
+  private readonly server: http.Server;
+
+  constructor(private readonly options: SessionServerOptions) {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (res.headersSent) {
+          res.end();
+        } else {
+          sendJson(res, status, { error: { message: getErrorMessage(error) } });
+        }
+      });
+    });
+  }
+
+  /** Starts listening. Returns the URL the server is reachable at. */
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    const { address, port } = this.server.address() as AddressInfo;
+    const host = address.includes(':') ? `[${address}]` : address;
+    return `http://${host}:${port}`;
+  }
+
+  /** Cancels every session and stops the server. */
+  async close(): Promise<void> {
+    for (const id of [...this.sessions.keys()]) {
+      await this.removeSession(id);
+    }
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    this.authorize(req);
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean);
+    const method = req.method ?? 'GET';
+
+    if (segments[0] !== 'sessions') {
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+    if (segments.length === 1) {
+      if (method === 'GET') {
+        sendJson(res, 200, {
+          sessions: [...this.sessions.values()].map((session) =>
+            session.getInfo(),
+          ),
+        });
+        return;
+      }
+      if (method === 'POST') {
+        const session = await this.createSession();
+        sendJson(res, 201, session.getInfo());
+        return;
+      }
+      throw new HttpError(405, `Method ${method} is not allowed.`);
+    }
+
+    const sessionId = segments[1];
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new HttpError(404, `Unknown session: ${sessionId}`);
+    }
+    const route = `${method} ${segments.slice(2).join('/')}`;
+
+    try {
+      if (route === 'GET ') {
+        sendJson(res, 200, session.getInfo());
+      } else if (route === 'DELETE ') {
+        await this.removeSession(sessionId);
+        res.writeHead(204).end();
+      } else if (route === 'GET events') {
+        this.streamEvents(req, res, session);
+      } else if (route === 'GET history') {
+        sendJson(res, 200, { history: session.getHistory() });
+      } else if (route === 'POST messages') {
+        const { text } = await readJsonBody(req);
+        if (typeof text !== 'string' || text.trim() === '') {
+          throw new HttpError(400, 'The "text" of the message is required.');
+        }
+        sendJson(res, 202, { promptId: session.sendMessage(text) });
+      } else if (route === 'POST cancel') {
+        sendJson(res, 200, { cancelled: await session.cancel() });
+      } else if (
+        method === 'POST' &&
+        segments[2] === 'tool-calls' &&
+        segments.length === 5 &&
+        (segments[4] === 'approve' || segments[4] === 'deny')
+      ) {
+        const { always } = await readJsonBody(req);
+        const outcome =
+          segments[4] === 'deny'
+            ? ToolConfirmationOutcome.Cancel
+            : always === true
+              ? ToolConfirmationOutcome.ProceedAlways
+              : ToolConfirmationOutcome.ProceedOnce;
+        await session.confirmToolCall(decodeURIComponent(segments[3]), outcome);
+        sendJson(res, 200, session.getInfo());
+      } else {
+        throw new HttpError(404, `Not found: ${method} ${url.pathname}`);
+      }
+    } catch (error) {
+      if (error instanceof SessionStateError) {
+        throw new HttpError(409, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private authorize(req: http.IncomingMessage): void {
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match || !tokensMatch(this.options.token, match[1].trim())) {
+      throw new HttpError(401, 'Missing or invalid bearer token.');
+    }
+  }
+
+  private async createSession(): Promise<ServeSession> {
+    const id = randomUUID();
+    const config = await this.options.createConfig(id);
+    const session = new ServeSession(id, config);
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  private async removeSession(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    this.sessions.delete(id);
+    await session?.close();
+  }
+
+  private streamEvents(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    session: ServeSession,
+  ): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    const unsubscribe = session.subscribe((event) => {
+      res.write(
+        `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.value ?? null)}\n\n`,
+      );
+      if (event.type === 'session_closed') {
+        res.end();
+      }
+    });
+    const keepAlive = setInterval(
+      () => res.write(': keep-alive\n\n'),
+      KEEP_ALIVE_INTERVAL_MS,
+    );
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  }
+}
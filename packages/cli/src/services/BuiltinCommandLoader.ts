@@ -8,6 +8,7 @@ import { ICommandLoader } from './types.js';
 import { SlashCommand } from '../ui/commands/types.js';
 import { Config } from '@qwen-code/qwen-code-core';
 import { aboutCommand } from '../ui/commands/aboutCommand.js';
+import { agentsCommand } from '../ui/commands/agentsCommand.js';
 import { authCommand } from '../ui/commands/authCommand.js';
 import { bugCommand } from '../ui/commands/bugCommand.js';
 import { chatCommand } from '../ui/commands/chatCommand.js';
@@ -18,13 +19,19 @@ import { corgiCommand } from '../ui/commands/corgiCommand.js';
 import { docsCommand } from '../ui/commands/docsCommand.js';
 import { directoryCommand } from '../ui/commands/directoryCommand.js';
 import { editorCommand } from '../ui/commands/editorCommand.js';
+import { exportCommand } from '../ui/commands/exportCommand.js';
 import { extensionsCommand } from '../ui/commands/extensionsCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
 import { ideCommand } from '../ui/commands/ideCommand.js';
+import { indexCommand } from '../ui/commands/indexCommand.js';
 import { initCommand } from '../ui/commands/initCommand.js';
+import { jobsCommand } from '../ui/commands/jobsCommand.js';
+import { keybindingsCommand } from '../ui/commands/keybindingsCommand.js';
 import { mcpCommand } from '../ui/commands/mcpCommand.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
+import { modelCommand } from '../ui/commands/modelCommand.js';
 import { privacyCommand } from '../ui/commands/privacyCommand.js';
+import { providerCommand } from '../ui/commands/providerCommand.js';
 import { quitCommand } from '../ui/commands/quitCommand.js';
 import { restoreCommand } from '../ui/commands/restoreCommand.js';
 import { statsCommand } from '../ui/commands/statsCommand.js';
@@ -51,6 +58,7 @@ export class BuiltinCommandLoader implements ICommandLoader {
   async loadCommands(_signal: AbortSignal): Promise<SlashCommand[]> {
     const allDefinitions: Array<SlashCommand | null> = [
       aboutCommand,
+      agentsCommand,
       authCommand,
       bugCommand,
       chatCommand,
@@ -61,13 +69,19 @@ export class BuiltinCommandLoader implements ICommandLoader {
       docsCommand,
       directoryCommand,
       editorCommand,
+      exportCommand,
       extensionsCommand,
       helpCommand,
       ideCommand(this.config),
+      indexCommand,
       initCommand,
+      jobsCommand,
+      keybindingsCommand,
       mcpCommand,
       memoryCommand,
+      modelCommand,
       privacyCommand,
+      providerCommand,
       quitCommand,
       restoreCommand(this.config),
       statsCommand,
@@ -153,10 +153,18 @@ vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
         getCheckpointingEnabled: vi.fn(() => opts.checkpointing ?? true),
         getAllGeminiMdFilenames: vi.fn(() => ['QWEN.md']),
         setFlashFallbackHandler: vi.fn(),
+        setModelFallbackHandler: vi.fn(),
+        setMcpClientRequestHandler: vi.fn(),
         getSessionId: vi.fn(() => 'test-session-id'),
+        getResumedHistory: vi.fn(() => undefined),
         getUserTier: vi.fn().mockResolvedValue(undefined),
         getIdeModeFeature: vi.fn(() => false),
         getIdeMode: vi.fn(() => false),
+        getSessionBudgetUsd: vi.fn(() => -1),
+        getModelRegistry: vi.fn(() => ({
+          getContextLength: vi.fn(() => 1_048_576),
+        })),
+        getContentGeneratorConfig: vi.fn(() => ({})),
         getWorkspaceContext: vi.fn(() => ({
           getDirectories: vi.fn(() => []),
         })),
@@ -18,10 +18,12 @@ import { StreamingState, type HistoryItem, MessageType } from './types.js';
 import { useTerminalSize } from './hooks/useTerminalSize.js';
 import { useGeminiStream } from './hooks/useGeminiStream.js';
 import { useLoadingIndicator } from './hooks/useLoadingIndicator.js';
+import { useShellFocus } from './hooks/useShellFocus.js';
 import { useThemeCommand } from './hooks/useThemeCommand.js';
 import { useAuthCommand } from './hooks/useAuthCommand.js';
 import { useQwenAuth } from './hooks/useQwenAuth.js';
 import { useFolderTrust } from './hooks/useFolderTrust.js';
+import { useMcpClientRequests } from './hooks/useMcpClientRequests.js';
 import { useEditorSettings } from './hooks/useEditorSettings.js';
 import { useSlashCommandProcessor } from './hooks/slashCommandProcessor.js';
 import { useAutoAcceptIndicator } from './hooks/useAutoAcceptIndicator.js';
@@ -39,12 +41,15 @@ import { QwenOAuthProgress } from './components/QwenOAuthProgress.js';
 import { EditorSettingsDialog } from './components/EditorSettingsDialog.js';
 import { FolderTrustDialog } from './components/FolderTrustDialog.js';
 import { ShellConfirmationDialog } from './components/ShellConfirmationDialog.js';
+import { McpSamplingDialog } from './components/McpSamplingDialog.js';
+import { McpElicitationDialog } from './components/McpElicitationDialog.js';
 import { RadioButtonSelect } from './components/shared/RadioButtonSelect.js';
 import { Colors } from './colors.js';
 import { loadHierarchicalGeminiMemory } from '../config/config.js';
 import { LoadedSettings, SettingScope } from '../config/settings.js';
 import { Tips } from './components/Tips.js';
 import { ConsolePatcher } from './utils/ConsolePatcher.js';
+import { convertToHistoryItems } from './utils/historyUtils.js';
 import { registerCleanup } from '../utils/cleanup.js';
 import { DetailedMessagesDisplay } from './components/DetailedMessagesDisplay.js';
 import { HistoryItemDisplay } from './components/HistoryItemDisplay.js';
@@ -63,6 +68,8 @@ import {
   AuthType,
   type IdeContext,
   ideContext,
+  getSessionCostUsd,
+  describeModelFallback,
 } from '@qwen-code/qwen-code-core';
 import {
   IdeIntegrationNudge,
@@ -126,6 +133,17 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   const nightly = version.includes('nightly');
   const { history, addItem, clearItems, loadHistory } = useHistory();
 
+  useEffect(() => {
+    const resumedHistory = config.getResumedHistory();
+    if (resumedHistory) {
+      loadHistory(
+        convertToHistoryItems(resumedHistory).map(
+          (item, index) => ({ ...item, id: index }) as HistoryItem,
+        ),
+      );
+    }
+  }, [config, loadHistory]);
+
   const [idePromptAnswered, setIdePromptAnswered] = useState(false);
   const currentIDE = config.getIdeClient().getCurrentIde();
   useEffect(() => {
@@ -175,6 +193,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   const [corgiMode, setCorgiMode] = useState(false);
   const [currentModel, setCurrentModel] = useState(config.getModel());
   const [shellModeActive, setShellModeActive] = useState(false);
+  const [shellFocused, setShellFocused] = useState(false);
   const [showErrorDetails, setShowErrorDetails] = useState<boolean>(false);
   const [showToolDescriptions, setShowToolDescriptions] =
     useState<boolean>(false);
@@ -257,6 +276,9 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   const { isFolderTrustDialogOpen, handleFolderTrustSelect } =
     useFolderTrust(settings);
 
+  const { mcpSamplingRequest, mcpElicitationRequest } =
+    useMcpClientRequests(config);
+
   const {
     isAuthDialogOpen,
     openAuthDialog,
@@ -482,6 +504,16 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     config.setFlashFallbackHandler(flashFallbackHandler);
   }, [config, addItem, userTier]);
 
+  // Announce falling back along the configured fallback chain
+  useEffect(() => {
+    config.setModelFallbackHandler((event) => {
+      addItem(
+        { type: MessageType.INFO, text: `⚡ ${describeModelFallback(event)}` },
+        Date.now(),
+      );
+    });
+  }, [config, addItem]);
+
   // Terminal and UI setup
   const { rows: terminalHeight, columns: terminalWidth } = useTerminalSize();
   const isNarrow = isNarrowWidth(terminalWidth);
@@ -551,6 +583,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     toggleVimEnabled,
     setIsProcessing,
     setGeminiMdFileCount,
+    history,
   );
 
   const buffer = useTextBuffer({
@@ -593,6 +626,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     setModelSwitchedFromQuotaError,
     refreshStatic,
     handleUserCancel,
+    shellFocused,
   );
 
   // Input handling
@@ -630,6 +664,11 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   const { handleInput: vimHandleInput } = useVim(buffer, handleFinalSubmit);
   const pendingHistoryItems = [...pendingSlashCommandHistoryItems];
   pendingHistoryItems.push(...pendingGeminiHistoryItems);
+  const activePtyPid = useShellFocus(
+    pendingHistoryItems,
+    shellFocused,
+    setShellFocused,
+  );
 
   const { elapsedTime, currentLoadingPhrase } =
     useLoadingIndicator(streamingState);
@@ -660,6 +699,11 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
 
   const handleGlobalKeypress = useCallback(
     (key: Key) => {
+      // A focused shell receives all keys, including Ctrl+C.
+      if (shellFocused) {
+        return;
+      }
+
       let enteringConstrainHeightMode = false;
       if (!constrainHeight) {
         enteringConstrainHeightMode = true;
@@ -705,6 +749,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
       }
     },
     [
+      shellFocused,
       constrainHeight,
       setConstrainHeight,
       setShowErrorDetails,
@@ -734,7 +779,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     }
   }, [config, config.getGeminiMdFileCount]);
 
-  const logger = useLogger();
+  const logger = useLogger(config.getSessionId());
 
   useEffect(() => {
     const fetchUserMessages = async () => {
@@ -983,6 +1028,10 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
             <FolderTrustDialog onSelect={handleFolderTrustSelect} />
           ) : shellConfirmationRequest ? (
             <ShellConfirmationDialog request={shellConfirmationRequest} />
+          ) : mcpSamplingRequest ? (
+            <McpSamplingDialog request={mcpSamplingRequest} />
+          ) : mcpElicitationRequest ? (
+            <McpElicitationDialog request={mcpElicitationRequest} />
           ) : confirmationRequest ? (
             <Box flexDirection="column">
               {confirmationRequest.prompt}
@@ -1113,6 +1162,13 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
                 }
                 elapsedTime={elapsedTime}
               />
+              {activePtyPid !== undefined && (
+                <Text color={Colors.Gray}>
+                  {shellFocused
+                    ? 'Input goes to the shell (ctrl+f to return)'
+                    : 'ctrl+f to focus the shell and type input'}
+                </Text>
+              )}
 
               <Box
                 marginTop={1}
@@ -1239,6 +1295,14 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
               config.getDebugMode() || settings.merged.showMemoryUsage || false
             }
             promptTokenCount={sessionStats.lastPromptTokenCount}
+            contextLength={config
+              .getModelRegistry()
+              .getContextLength(
+                currentModel,
+                config.getContentGeneratorConfig()?.authType,
+              )}
+            sessionCostUsd={getSessionCostUsd(sessionStats.metrics)}
+            sessionBudgetUsd={config.getSessionBudgetUsd()}
             nightly={nightly}
             vimMode={vimModeEnabled ? vimMode : undefined}
           />
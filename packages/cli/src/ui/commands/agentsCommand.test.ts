@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SubagentProfile } from '@qwen-code/qwen-code-core';
+import { agentsCommand } from './agentsCommand.js';
+import { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+describe('agentsCommand', () => {
+  const reviewer: SubagentProfile = {
+    name: 'reviewer',
+    description: 'Reviews code changes',
+    systemPrompt: 'You review code.',
+    tools: ['read_file', 'glob'],
+    max_turns: 8,
+    outputs: { review: 'The review comments' },
+  };
+  const tester: SubagentProfile = {
+    name: 'tester',
+    systemPrompt: 'You write tests.',
+    extensionName: 'test-ext',
+  };
+
+  let context: CommandContext;
+
+  const getSubCommand = (name: string): SlashCommand => {
+    const subCommand = agentsCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand?.action) {
+      throw new Error(`/agents ${name} command has no action`);
+    }
+    return subCommand;
+  };
+
+  beforeEach(() => {
+    const profiles = [reviewer, tester];
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getSubagentProfiles: () => profiles,
+          getSubagentProfile: (name: string) =>
+            profiles.find((profile) => profile.name === name),
+        },
+      },
+    });
+  });
+
+  describe('list', () => {
+    it('lists the available profiles', async () => {
+      const result = await getSubCommand('list').action!(context, '');
+
+      expect(result).toMatchObject({ type: 'message', messageType: 'info' });
+      const content = (result as { content: string }).content;
+      expect(content).toContain('reviewer');
+      expect(content).toContain('Reviews code changes');
+      expect(content).toContain('[test-ext]');
+    });
+
+    it('is the default action', async () => {
+      expect(await agentsCommand.action!(context, '')).toEqual(
+        await getSubCommand('list').action!(context, ''),
+      );
+    });
+
+    it('explains where to add profiles when there are none', async () => {
+      const emptyContext = createMockCommandContext({
+        services: { config: { getSubagentProfiles: () => [] } },
+      });
+
+      const result = await getSubCommand('list').action!(emptyContext, '');
+
+      expect(result).toMatchObject({
+        type: 'message',
+        content: expect.stringContaining('No agent profiles found.'),
+      });
+    });
+  });
+
+  describe('show', () => {
+    it('shows the details of a profile', async () => {
+      const result = await getSubCommand('show').action!(context, 'reviewer');
+
+      const content = (result as { content: string }).content;
+      expect(content).toContain('Tools: read_file, glob');
+      expect(content).toContain('Max turns: 8');
+      expect(content).toContain('Output review: The review comments');
+      expect(content).toContain('You review code.');
+    });
+
+    it('reports unknown profiles', async () => {
+      const result = await getSubCommand('show').action!(context, 'missing');
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: "Unknown agent 'missing'. Available agents: reviewer, tester.",
+      });
+    });
+  });
+
+  describe('run', () => {
+    it('schedules delegate_task with the profile and task', async () => {
+      const result = await getSubCommand('run').action!(
+        context,
+        'reviewer check the last commit',
+      );
+
+      expect(result).toEqual({
+        type: 'tool',
+        toolName: 'delegate_task',
+        toolArgs: { agent: 'reviewer', task: 'check the last commit' },
+      });
+    });
+
+    it('requires a task', async () => {
+      const result = await getSubCommand('run').action!(context, 'reviewer');
+
+      expect(result).toMatchObject({ type: 'message', messageType: 'error' });
+    });
+
+    it('completes profile names', async () => {
+      expect(await getSubCommand('run').completion!(context, 're')).toEqual([
+        'reviewer',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DEFAULT_SUBAGENT_TOOLS,
+  DelegateTaskTool,
+  SubagentProfile,
+} from '@qwen-code/qwen-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+  SlashCommandActionReturn,
+} from './types.js';
+
+const getProfiles = (context: CommandContext): SubagentProfile[] =>
+  context.services.config?.getSubagentProfiles() ?? [];
+
+const completeProfileName = async (
+  context: CommandContext,
+  partialArg: string,
+): Promise<string[]> =>
+  getProfiles(context)
+    .map((profile) => profile.name)
+    .filter((name) => name.startsWith(partialArg));
+
+const unknownProfile = (
+  context: CommandContext,
+  name: string,
+): MessageActionReturn => {
+  const names = getProfiles(context).map((profile) => profile.name);
+  return {
+    type: 'message',
+    messageType: 'error',
+    content: `Unknown agent '${name}'. Available agents: ${names.length > 0 ? names.join(', ') : 'none'}.`,
+  };
+};
+
+const listProfiles = async (
+  context: CommandContext,
+): Promise<MessageActionReturn> => {
+  const profiles = getProfiles(context);
+  if (profiles.length === 0) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content:
+        'No agent profiles found. Add .toml files to .qwen/agents/ in your project or home directory.',
+    };
+  }
+
+  let message = 'Available agents:\n\n';
+  for (const profile of profiles) {
+    const source = profile.extensionName
+      ? ` \u001b[90m[${profile.extensionName}]\u001b[0m`
+      : '';
+    const description = profile.description ? `: ${profile.description}` : '';
+    message += `  - \u001b[36m${profile.name}\u001b[0m${source}${description}\n`;
+  }
+  message += `\n\u001b[90mUse /agents run <name> <task> to delegate a task.\u001b[0m`;
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: message,
+  };
+};
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'List available agent profiles',
+  kind: CommandKind.BUILT_IN,
+  action: listProfiles,
+};
+
+const showCommand: SlashCommand = {
+  name: 'show',
+  description:
+    'Show the details of an agent profile. Usage: /agents show <name>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const name = args.trim();
+    if (!name) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing agent name. Usage: /agents show <name>',
+      };
+    }
+    const profile = context.services.config?.getSubagentProfile(name);
+    if (!profile) {
+      return unknownProfile(context, name);
+    }
+
+    const lines = [`Agent \u001b[36m${profile.name}\u001b[0m`, ''];
+    if (profile.description) {
+      lines.push(`Description: ${profile.description}`);
+    }
+    if (profile.filePath) {
+      lines.push(`File: ${profile.filePath}`);
+    }
+    if (profile.extensionName) {
+      lines.push(`Extension: ${profile.extensionName}`);
+    }
+    lines.push(
+      `Tools: ${(profile.tools ?? DEFAULT_SUBAGENT_TOOLS).join(', ')}`,
+      `Model: ${profile.model ?? 'session model'}`,
+    );
+    if (profile.max_turns !== undefined) {
+      lines.push(`Max turns: ${profile.max_turns}`);
+    }
+    if (profile.max_time_minutes !== undefined) {
+      lines.push(`Max time: ${profile.max_time_minutes} min`);
+    }
+    for (const [key, description] of Object.entries(profile.outputs ?? {})) {
+      lines.push(`Output ${key}: ${description}`);
+    }
+    lines.push('', 'Prompt:', profile.systemPrompt);
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: lines.join('\n'),
+    };
+  },
+  completion: completeProfileName,
+};
+
+const runCommand: SlashCommand = {
+  name: 'run',
+  description:
+    'Delegate a task to an agent profile. Usage: /agents run <name> <task>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<SlashCommandActionReturn> => {
+    const trimmed = args.trim();
+    const separator = trimmed.search(/\s/);
+    const name = separator === -1 ? trimmed : trimmed.slice(0, separator);
+    const task = separator === -1 ? '' : trimmed.slice(separator).trim();
+    if (!name || !task) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing agent name or task. Usage: /agents run <name> <task>',
+      };
+    }
+    if (!context.services.config?.getSubagentProfile(name)) {
+      return unknownProfile(context, name);
+    }
+
+    return {
+      type: 'tool',
+      toolName: DelegateTaskTool.Name,
+      toolArgs: { agent: name, task },
+    };
+  },
+  completion: completeProfileName,
+};
+
+export const agentsCommand: SlashCommand = {
+  name: 'agents',
+  description: 'List, inspect and run subagent profiles.',
+  kind: CommandKind.BUILT_IN,
+  action: listProfiles,
+  subCommands: [listCommand, showCommand, runCommand],
+};
@@ -16,7 +16,7 @@ import {
   SlashCommandActionReturn,
 } from './types.js';
 import path from 'path';
-import { HistoryItemWithoutId, MessageType } from '../types.js';
+import { convertToHistoryItems } from '../utils/historyUtils.js';
 
 interface ChatDetail {
   name: string;
@@ -187,38 +187,9 @@ const resumeCommand: SlashCommand = {
       };
     }
 
-    const rolemap: { [key: string]: MessageType } = {
-      user: MessageType.USER,
-      model: MessageType.GEMINI,
-    };
-
-    const uiHistory: HistoryItemWithoutId[] = [];
-    let hasSystemPrompt = false;
-    let i = 0;
-
-    for (const item of conversation) {
-      i += 1;
-      const text =
-        item.parts
-          ?.filter((m) => !!m.text)
-          .map((m) => m.text)
-          .join('') || '';
-      if (!text) {
-        continue;
-      }
-      if (i === 1 && text.match(/context for our chat/)) {
-        hasSystemPrompt = true;
-      }
-      if (i > 2 || !hasSystemPrompt) {
-        uiHistory.push({
-          type: (item.role && rolemap[item.role]) || MessageType.GEMINI,
-          text,
-        } as HistoryItemWithoutId);
-      }
-    }
     return {
       type: 'load_history',
-      history: uiHistory,
+      history: convertToHistoryItems(conversation),
       clientHistory: conversation,
     };
   },
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fsPromises from 'fs/promises';
+import path from 'path';
+import { getErrorMessage } from '@qwen-code/qwen-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import {
+  ExportFormat,
+  getExportableItems,
+  getExportFileExtension,
+  getExportFormatForPath,
+  renderSession,
+} from '../../utils/sessionExport.js';
+
+const REDACT_FLAG = '--redact';
+const USAGE = `Usage: /export [${Object.values(ExportFormat).join('|')}] [file] [${REDACT_FLAG}]`;
+
+const isExportFormat = (value: string): value is ExportFormat =>
+  (Object.values(ExportFormat) as string[]).includes(value);
+
+export const exportCommand: SlashCommand = {
+  name: 'export',
+  description: `Export the session transcript to Markdown, HTML or JSON. ${USAGE}`,
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+
+    let format: ExportFormat | undefined;
+    let filePath: string | undefined;
+    let redactSecrets = false;
+    for (const token of args.trim().split(/\s+/).filter(Boolean)) {
+      if (token === REDACT_FLAG) {
+        redactSecrets = true;
+      } else if (!format && isExportFormat(token)) {
+        format = token;
+      } else if (!filePath) {
+        filePath = token;
+      } else {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `Unexpected argument: ${token}. ${USAGE}`,
+        };
+      }
+    }
+
+    format ??=
+      (filePath && getExportFormatForPath(filePath)) || ExportFormat.MARKDOWN;
+    filePath ??= `codeduet-session-${new Date()
+      .toISOString()
+      .replace(/[:.]/g, '-')}.${getExportFileExtension(format)}`;
+
+    const items = getExportableItems(context.ui.history);
+    if (items.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'Nothing to export yet.',
+      };
+    }
+
+    const outputPath = path.resolve(config.getTargetDir(), filePath);
+    try {
+      await fsPromises.writeFile(
+        outputPath,
+        renderSession(items, {
+          format,
+          redactSecrets,
+          sessionId: config.getSessionId(),
+          model: config.getModel(),
+        }),
+        'utf-8',
+      );
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to export the session: ${getErrorMessage(error)}`,
+      };
+    }
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Exported ${items.length} history items to ${outputPath}${
+        redactSecrets ? ' with secrets redacted' : ''
+      }.`,
+    };
+  },
+  completion: async (_context, partialArg) =>
+    [...Object.values(ExportFormat), REDACT_FLAG].filter((option) =>
+      option.startsWith(partialArg),
+    ),
+};
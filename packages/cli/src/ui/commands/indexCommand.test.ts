@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { indexCommand } from './indexCommand.js';
+import { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { MessageType } from '../types.js';
+
+describe('indexCommand', () => {
+  let context: CommandContext;
+  let index: {
+    getStatus: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    rebuild: ReturnType<typeof vi.fn>;
+  };
+
+  const getSubCommand = (name: string): SlashCommand => {
+    const subCommand = indexCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand?.action) {
+      throw new Error(`/index ${name} command has no action`);
+    }
+    return subCommand;
+  };
+
+  beforeEach(() => {
+    index = {
+      getStatus: vi.fn().mockReturnValue({
+        indexPath: '/tmp/project/semantic-index.json',
+        fileCount: 42,
+        chunkCount: 180,
+        indexing: false,
+        watching: true,
+        lastUpdated: new Date('2025-01-01T00:00:00Z'),
+      }),
+      update: vi.fn(),
+      rebuild: vi.fn(),
+    };
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getSemanticIndex: () => index,
+        },
+      },
+    });
+  });
+
+  it('shows the status of the index by default', async () => {
+    const result = await indexCommand.action!(context, '');
+
+    expect(result).toMatchObject({ type: 'message', messageType: 'info' });
+    const content = (result as { content: string }).content;
+    expect(content).toContain('Files: 42');
+    expect(content).toContain('Chunks: 180');
+    expect(content).toContain('Watching for changes: yes');
+    expect(content).toContain('/tmp/project/semantic-index.json');
+  });
+
+  it('reports when the index has not been built', async () => {
+    index.getStatus.mockReturnValue({
+      indexPath: '/tmp/project/semantic-index.json',
+      fileCount: 0,
+      chunkCount: 0,
+      indexing: false,
+      watching: false,
+      lastError: 'Embeddings are not supported',
+    });
+
+    const result = await getSubCommand('status').action!(context, '');
+
+    const content = (result as { content: string }).content;
+    expect(content).toContain('not built yet');
+    expect(content).toContain('Last error: Embeddings are not supported');
+  });
+
+  it('updates the index and reports what changed', async () => {
+    index.update.mockResolvedValue({
+      indexedFiles: 3,
+      removedFiles: 1,
+      fileCount: 42,
+      chunkCount: 180,
+    });
+
+    const result = await getSubCommand('update').action!(context, '');
+
+    expect(index.update).toHaveBeenCalled();
+    expect(context.ui.addItem).toHaveBeenCalledWith(
+      { type: MessageType.INFO, text: 'Updating the semantic index...' },
+      expect.any(Number),
+    );
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Indexed 3 changed file(s) and removed 1. The index covers 42 file(s) in 180 chunk(s).',
+    });
+  });
+
+  it('reports errors while rebuilding', async () => {
+    index.rebuild.mockRejectedValue(new Error('Embeddings are not supported'));
+
+    const result = await getSubCommand('rebuild').action!(context, '');
+
+    expect(index.rebuild).toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Failed to update the semantic index: Embeddings are not supported',
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  getErrorMessage,
+  SemanticIndex,
+  SemanticIndexUpdate,
+} from '@qwen-code/qwen-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import { MessageType } from '../types.js';
+
+const noConfig: MessageActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'Config not loaded.',
+};
+
+const showStatus = async (
+  context: CommandContext,
+): Promise<MessageActionReturn> => {
+  const index = context.services.config?.getSemanticIndex();
+  if (!index) {
+    return noConfig;
+  }
+
+  const status = index.getStatus();
+  const lines = ['Semantic index:', ''];
+  if (status.indexing) {
+    lines.push('  Status: indexing...');
+  } else if (status.lastUpdated) {
+    lines.push(`  Status: last updated ${status.lastUpdated.toLocaleString()}`);
+  } else {
+    lines.push('  Status: not built yet');
+  }
+  lines.push(
+    `  Files: ${status.fileCount}`,
+    `  Chunks: ${status.chunkCount}`,
+    `  Watching for changes: ${status.watching ? 'yes' : 'no'}`,
+    `  Stored in: ${status.indexPath}`,
+  );
+  if (status.lastError) {
+    lines.push(`  Last error: ${status.lastError}`);
+  }
+  lines.push(
+    '',
+    '\u001b[90mUse /index update to index changed files or /index rebuild to start over.\u001b[0m',
+  );
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: lines.join('\n'),
+  };
+};
+
+const runUpdate = async (
+  context: CommandContext,
+  progressText: string,
+  update: (index: SemanticIndex) => Promise<SemanticIndexUpdate>,
+): Promise<MessageActionReturn> => {
+  const index = context.services.config?.getSemanticIndex();
+  if (!index) {
+    return noConfig;
+  }
+
+  context.ui.addItem(
+    { type: MessageType.INFO, text: progressText },
+    Date.now(),
+  );
+  try {
+    const result = await update(index);
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Indexed ${result.indexedFiles} changed file(s) and removed ${result.removedFiles}. The index covers ${result.fileCount} file(s) in ${result.chunkCount} chunk(s).`,
+    };
+  } catch (error) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content: `Failed to update the semantic index: ${getErrorMessage(error)}`,
+    };
+  }
+};
+
+const statusCommand: SlashCommand = {
+  name: 'status',
+  description: 'Show the state of the semantic index',
+  kind: CommandKind.BUILT_IN,
+  action: showStatus,
+};
+
+const updateCommand: SlashCommand = {
+  name: 'update',
+  description: 'Index the files that changed since the last update',
+  kind: CommandKind.BUILT_IN,
+  action: (context) =>
+    runUpdate(context, 'Updating the semantic index...', (index) =>
+      index.update(),
+    ),
+};
+
+const rebuildCommand: SlashCommand = {
+  name: 'rebuild',
+  description: 'Discard the semantic index and index every file again',
+  kind: CommandKind.BUILT_IN,
+  action: (context) =>
+    runUpdate(context, 'Rebuilding the semantic index...', (index) =>
+      index.rebuild(),
+    ),
+};
+
+export const indexCommand: SlashCommand = {
+  name: 'index',
+  description: 'Show, update or rebuild the semantic code index.',
+  kind: CommandKind.BUILT_IN,
+  action: showStatus,
+  subCommands: [statusCommand, updateCommand, rebuildCommand],
+};
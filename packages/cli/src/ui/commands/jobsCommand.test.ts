@@ -0,0 +1,181 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BackgroundJobInfo } from '@qwen-code/qwen-code-core';
+import { jobsCommand } from './jobsCommand.js';
+import { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+describe('jobsCommand', () => {
+  const server: BackgroundJobInfo = {
+    name: 'server',
+    command: 'npm run dev',
+    cwd: '/project',
+    pid: 1234,
+    status: 'running',
+    exitCode: null,
+    signal: null,
+    startTime: 0,
+    outputLength: 40,
+  };
+  const build: BackgroundJobInfo = {
+    name: 'build',
+    command: 'npm run build',
+    cwd: '/project',
+    pid: 1235,
+    status: 'exited',
+    exitCode: 1,
+    signal: null,
+    startTime: 0,
+    endTime: 2500,
+    outputLength: 0,
+  };
+
+  let jobs: BackgroundJobInfo[];
+  let manager: {
+    list: ReturnType<typeof vi.fn>;
+    get: ReturnType<typeof vi.fn>;
+    read: ReturnType<typeof vi.fn>;
+    kill: ReturnType<typeof vi.fn>;
+  };
+  let context: CommandContext;
+
+  const getSubCommand = (name: string): SlashCommand => {
+    const subCommand = jobsCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand?.action) {
+      throw new Error(`/jobs ${name} command has no action`);
+    }
+    return subCommand;
+  };
+
+  beforeEach(() => {
+    jobs = [server, build];
+    const findJob = (name: string) => {
+      const job = jobs.find((job) => job.name === name);
+      if (!job) {
+        throw new Error(`No background job named '${name}'.`);
+      }
+      return job;
+    };
+    manager = {
+      list: vi.fn(() => jobs),
+      get: vi.fn((name: string) => jobs.find((job) => job.name === name)),
+      read: vi.fn((name: string) => ({
+        job: findJob(name),
+        output: name === 'server' ? 'compiling\nready on port 3000\n' : '',
+        startOffset: 0,
+        nextOffset: 0,
+      })),
+      kill: vi.fn(async (name: string) => ({
+        ...findJob(name),
+        status: findJob(name).status === 'running' ? 'killed' : 'exited',
+      })),
+    };
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getBackgroundJobManager: () => manager,
+        },
+      },
+    });
+  });
+
+  describe('list', () => {
+    it('lists the jobs with their status', async () => {
+      const result = await getSubCommand('list').action!(context, '');
+
+      expect(result).toMatchObject({ type: 'message', messageType: 'info' });
+      const content = (result as { content: string }).content;
+      expect(content).toContain('server');
+      expect(content).toContain('running (PID 1234)');
+      expect(content).toContain('npm run dev');
+      expect(content).toContain('exited with code 1');
+      expect(content).toContain('2.5s');
+    });
+
+    it('is the default action', async () => {
+      expect(await jobsCommand.action!(context, '')).toEqual(
+        await getSubCommand('list').action!(context, ''),
+      );
+    });
+
+    it('explains how jobs are started when there are none', async () => {
+      jobs = [];
+
+      const result = await jobsCommand.action!(context, '');
+
+      expect((result as { content: string }).content).toContain(
+        'No background jobs.',
+      );
+    });
+  });
+
+  describe('output', () => {
+    it('shows the latest output of a job', async () => {
+      const result = await getSubCommand('output').action!(context, 'server');
+
+      const content = (result as { content: string }).content;
+      expect(content).toContain('running (PID 1234). Last 2 lines of output:');
+      expect(content).toContain('compiling\nready on port 3000');
+    });
+
+    it('reports unknown jobs', async () => {
+      const result = await getSubCommand('output').action!(context, 'dev');
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: "No background job named 'dev'.",
+      });
+    });
+
+    it('completes the names of all jobs', async () => {
+      expect(await getSubCommand('output').completion!(context, '')).toEqual([
+        'server',
+        'build',
+      ]);
+    });
+  });
+
+  describe('kill', () => {
+    it('stops a running job', async () => {
+      const result = await getSubCommand('kill').action!(context, 'server');
+
+      expect(manager.kill).toHaveBeenCalledWith('server');
+      expect((result as { content: string }).content).toBe(
+        "Stopped background job 'server'.",
+      );
+    });
+
+    it('reports jobs that are not running', async () => {
+      const result = await getSubCommand('kill').action!(context, 'build');
+
+      expect((result as { content: string }).content).toBe(
+        "Background job 'build' is not running: it exited with code 1.",
+      );
+    });
+
+    it('requires a job name', async () => {
+      const result = await getSubCommand('kill').action!(context, ' ');
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing job name. Usage: /jobs kill <name>',
+      });
+      expect(manager.kill).not.toHaveBeenCalled();
+    });
+
+    it('only completes the names of running jobs', async () => {
+      expect(await getSubCommand('kill').completion!(context, '')).toEqual([
+        'server',
+      ]);
+    });
+  });
+});
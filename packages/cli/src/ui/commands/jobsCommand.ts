@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BackgroundJobInfo,
+  BackgroundJobManager,
+  describeJobStatus,
+  getErrorMessage,
+} from '@qwen-code/qwen-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import { formatDuration } from '../utils/formatters.js';
+
+/** The number of lines of output that /jobs output shows. */
+const OUTPUT_TAIL_LINES = 20;
+
+const noConfig: MessageActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'Config not loaded.',
+};
+
+const getManager = (
+  context: CommandContext,
+): BackgroundJobManager | undefined =>
+  context.services.config?.getBackgroundJobManager();
+
+const completeJobName =
+  (filter: (job: BackgroundJobInfo) => boolean) =>
+  async (context: CommandContext, partialArg: string): Promise<string[]> =>
+    (getManager(context)?.list() ?? [])
+      .filter(filter)
+      .map((job) => job.name)
+      .filter((name) => name.startsWith(partialArg));
+
+const formatJob = (job: BackgroundJobInfo): string => {
+  const statusColor = job.status === 'running' ? '\u001b[32m' : '\u001b[90m';
+  const runtime = formatDuration((job.endTime ?? Date.now()) - job.startTime);
+  return [
+    `  - \u001b[36m${job.name}\u001b[0m ${statusColor}${describeJobStatus(job)}\u001b[0m, ${runtime}`,
+    `    ${job.command}`,
+  ].join('\n');
+};
+
+const listJobs = async (
+  context: CommandContext,
+): Promise<MessageActionReturn> => {
+  const manager = getManager(context);
+  if (!manager) {
+    return noConfig;
+  }
+  const jobs = manager.list();
+  if (jobs.length === 0) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content:
+        'No background jobs. The model starts them with the start_background_job tool, e.g. for dev servers and watchers.',
+    };
+  }
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: [
+      'Background jobs:',
+      '',
+      ...jobs.map(formatJob),
+      '',
+      '\u001b[90mUse /jobs output <name> to show the latest output of a job or /jobs kill <name> to stop it.\u001b[0m',
+    ].join('\n'),
+  };
+};
+
+const missingName = (usage: string): MessageActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content: `Missing job name. Usage: ${usage}`,
+});
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'List the background jobs of the session',
+  kind: CommandKind.BUILT_IN,
+  action: listJobs,
+};
+
+const outputCommand: SlashCommand = {
+  name: 'output',
+  description:
+    'Show the latest output of a background job. Usage: /jobs output <name>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const name = args.trim();
+    if (!name) {
+      return missingName('/jobs output <name>');
+    }
+    const manager = getManager(context);
+    if (!manager) {
+      return noConfig;
+    }
+    try {
+      const { job, output } = manager.read(name);
+      const lines = output.replace(/\n$/, '').split('\n');
+      const tail = lines.slice(-OUTPUT_TAIL_LINES).join('\n');
+      const header = `Job \u001b[36m${job.name}\u001b[0m ${describeJobStatus(job)}`;
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: output
+          ? `${header}. Last ${Math.min(lines.length, OUTPUT_TAIL_LINES)} lines of output:\n\n${tail}`
+          : `${header}. It has no output yet.`,
+      };
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: getErrorMessage(error),
+      };
+    }
+  },
+  completion: completeJobName(() => true),
+};
+
+const killCommand: SlashCommand = {
+  name: 'kill',
+  description: 'Stop a background job. Usage: /jobs kill <name>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const name = args.trim();
+    if (!name) {
+      return missingName('/jobs kill <name>');
+    }
+    const manager = getManager(context);
+    if (!manager) {
+      return noConfig;
+    }
+    try {
+      const wasRunning = manager.get(name)?.status === 'running';
+      const job = await manager.kill(name);
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: wasRunning
+          ? `Stopped background job '${job.name}'.`
+          : `Background job '${job.name}' is not running: it ${describeJobStatus(job)}.`,
+      };
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: getErrorMessage(error),
+      };
+    }
+  },
+  completion: completeJobName((job) => job.status === 'running'),
+};
+
+export const jobsCommand: SlashCommand = {
+  name: 'jobs',
+  description: 'List, inspect and stop background jobs.',
+  kind: CommandKind.BUILT_IN,
+  action: listJobs,
+  subCommands: [listCommand, outputCommand, killCommand],
+};
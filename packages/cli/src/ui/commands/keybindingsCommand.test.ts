@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { keybindingsCommand } from './keybindingsCommand.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { MessageType } from '../types.js';
+import { Command, setKeyBindingConfig } from '../keyMatchers.js';
+import {
+  USER_KEY_BINDINGS_PATH,
+  defaultKeyBindings,
+} from '../../config/keyBindings.js';
+
+describe('keybindingsCommand', () => {
+  afterEach(() => {
+    setKeyBindingConfig(defaultKeyBindings);
+  });
+
+  it('should list the effective binding of every command', () => {
+    setKeyBindingConfig({
+      ...defaultKeyBindings,
+      [Command.SUBMIT]: [{ key: 'j', ctrl: true }],
+      [Command.HISTORY_UP]: [],
+    });
+    const mockContext = createMockCommandContext();
+
+    if (!keybindingsCommand.action) throw new Error('Action not defined');
+    keybindingsCommand.action(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      { type: MessageType.INFO, text: expect.any(String) },
+      expect.any(Number),
+    );
+    const { text } = (mockContext.ui.addItem as ReturnType<typeof vi.fn>).mock
+      .calls[0][0];
+    const lines: string[] = text.split('\n');
+    const lineFor = (command: Command) =>
+      lines.find((line) => line.includes(`${command} `));
+
+    expect(lines.filter((line) => line.startsWith('  '))).toHaveLength(
+      Object.values(Command).length,
+    );
+    expect(lineFor(Command.SUBMIT)).toMatch(/Ctrl\+J {2}\(custom\)$/);
+    expect(lineFor(Command.HISTORY_UP)).toMatch(/\(unbound\) {2}\(custom\)$/);
+    expect(lineFor(Command.NEWLINE)).toMatch(
+      /Ctrl\+Return, Meta\+Return, Return \(paste\)$/,
+    );
+    expect(text).toContain(USER_KEY_BINDINGS_PATH);
+  });
+});
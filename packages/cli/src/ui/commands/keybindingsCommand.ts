@@ -0,0 +1,44 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type CommandContext,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+import { MessageType } from '../types.js';
+import { Command, getKeyBindingConfig } from '../keyMatchers.js';
+import {
+  USER_KEY_BINDINGS_PATH,
+  defaultKeyBindings,
+  formatKeyBinding,
+} from '../../config/keyBindings.js';
+
+export const keybindingsCommand: SlashCommand = {
+  name: 'keybindings',
+  description: 'show the effective key bindings',
+  kind: CommandKind.BUILT_IN,
+  action: (context: CommandContext): void => {
+    const config = getKeyBindingConfig();
+    const commands = Object.values(Command);
+    const width = Math.max(...commands.map((command) => command.length));
+
+    let message = 'Key bindings:\n\n';
+    for (const command of commands) {
+      const bindings = config[command];
+      const keys =
+        bindings.length > 0
+          ? bindings.map(formatKeyBinding).join(', ')
+          : '(unbound)';
+      const custom =
+        bindings !== defaultKeyBindings[command] ? '  (custom)' : '';
+      message += `  \u001b[36m${command.padEnd(width)}\u001b[0m  ${keys}${custom}\n`;
+    }
+    message += `\nCustomize them in ${USER_KEY_BINDINGS_PATH}\n`;
+
+    context.ui.addItem({ type: MessageType.INFO, text: message }, Date.now());
+  },
+};
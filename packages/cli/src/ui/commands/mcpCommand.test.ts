@@ -12,6 +12,8 @@ import {
   MCPDiscoveryState,
   getMCPServerStatus,
   getMCPDiscoveryState,
+  getMCPServerReconnectHistory,
+  MCPReconnectEventType,
   DiscoveredMCPTool,
 } from '@qwen-code/qwen-code-core';
 
@@ -25,6 +27,7 @@ vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
     ...actual,
     getMCPServerStatus: vi.fn(),
     getMCPDiscoveryState: vi.fn(),
+    getMCPServerReconnectHistory: vi.fn(),
     MCPOAuthProvider: {
       authenticate: vi.fn(),
     },
@@ -67,6 +70,7 @@ describe('mcpCommand', () => {
     getMcpServers: ReturnType<typeof vi.fn>;
     getBlockedMcpServers: ReturnType<typeof vi.fn>;
     getPromptRegistry: ReturnType<typeof vi.fn>;
+    getResourceRegistry: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(() => {
@@ -80,6 +84,7 @@ describe('mcpCommand', () => {
     vi.mocked(getMCPDiscoveryState).mockReturnValue(
       MCPDiscoveryState.COMPLETED,
     );
+    vi.mocked(getMCPServerReconnectHistory).mockReturnValue([]);
 
     // Create mock config with all necessary methods
     mockConfig = {
@@ -92,6 +97,10 @@ describe('mcpCommand', () => {
         getAllPrompts: vi.fn().mockReturnValue([]),
         getPromptsByServer: vi.fn().mockReturnValue([]),
       }),
+      getResourceRegistry: vi.fn().mockReturnValue({
+        getResourcesByServer: vi.fn().mockReturnValue([]),
+        getResourceTemplatesByServer: vi.fn().mockReturnValue([]),
+      }),
     };
 
     mockContext = createMockCommandContext({
@@ -360,6 +369,77 @@ describe('mcpCommand', () => {
       }
     });
 
+    it('should list the resources of a server', async () => {
+      mockConfig.getMcpServers = vi
+        .fn()
+        .mockReturnValue({ docs: { command: 'cmd1' } });
+      mockConfig.getResourceRegistry = vi.fn().mockReturnValue({
+        getResourcesByServer: vi.fn().mockReturnValue([
+          {
+            uri: 'docs://readme',
+            name: 'readme',
+            description: 'The readme',
+            serverName: 'docs',
+            updated: true,
+          },
+        ]),
+        getResourceTemplatesByServer: vi
+          .fn()
+          .mockReturnValue([
+            { uriTemplate: 'docs://pages/{page}', serverName: 'docs' },
+          ]),
+      });
+
+      const result = await mcpCommand.action!(mockContext, 'desc');
+
+      expect(isMessageAction(result)).toBe(true);
+      if (isMessageAction(result)) {
+        const message = result.content;
+        expect(message).toContain(
+          '🟢 \u001b[1mdocs\u001b[0m - Ready (2 resources)',
+        );
+        expect(message).toContain(
+          '  - \u001b[36mdocs:docs://readme\u001b[0m \u001b[33m(updated)\u001b[0m:\n      \u001b[32mThe readme\u001b[0m\n',
+        );
+        expect(message).toContain(
+          '  - \u001b[36mdocs:docs://pages/{page}\u001b[0m \u001b[90m(template)\u001b[0m\n',
+        );
+        expect(message).not.toContain('No tools or prompts available');
+      }
+    });
+
+    it('should show the reconnect history of a server', async () => {
+      mockConfig.getMcpServers = vi
+        .fn()
+        .mockReturnValue({ flaky: { command: 'cmd1' } });
+      vi.mocked(getMCPServerStatus).mockReturnValue(
+        MCPServerStatus.DISCONNECTED,
+      );
+      vi.mocked(getMCPServerReconnectHistory).mockReturnValue([
+        { type: MCPReconnectEventType.DISCONNECTED, timestamp: 0 },
+        { type: MCPReconnectEventType.FAILED, timestamp: 1000, attempt: 1 },
+      ]);
+      mockConfig.getToolRegistry = vi.fn().mockResolvedValue({
+        getAllTools: vi
+          .fn()
+          .mockReturnValue([createMockMCPTool('cached_tool', 'flaky')]),
+      });
+
+      const result = await mcpCommand.action!(mockContext, '');
+
+      expect(isMessageAction(result)).toBe(true);
+      if (isMessageAction(result)) {
+        const message = result.content;
+        // Cached tools do not hide the lost connection
+        expect(message).toContain(
+          '🔴 \u001b[1mflaky\u001b[0m - Disconnected, reconnecting... (1 tools cached)',
+        );
+        expect(message).toContain('Reconnect history:');
+        expect(message).toContain(' Connection lost\u001b[0m\n');
+        expect(message).toContain(' Reconnect attempt 1 failed\u001b[0m\n');
+      }
+    });
+
     it('should show startup indicator when servers are connecting', async () => {
       const mockMcpServers = {
         server1: { command: 'cmd1' },
@@ -982,6 +1062,10 @@ describe('mcpCommand', () => {
             getPromptRegistry: vi.fn().mockResolvedValue({
               getPromptsByServer: vi.fn().mockReturnValue([]),
             }),
+            getResourceRegistry: vi.fn().mockReturnValue({
+              getResourcesByServer: vi.fn().mockReturnValue([]),
+              getResourceTemplatesByServer: vi.fn().mockReturnValue([]),
+            }),
           },
         },
       });
@@ -13,10 +13,15 @@ import {
 } from './types.js';
 import {
   DiscoveredMCPPrompt,
+  DiscoveredMCPResource,
+  DiscoveredMCPResourceTemplate,
   DiscoveredMCPTool,
   getMCPDiscoveryState,
+  getMCPServerReconnectHistory,
   getMCPServerStatus,
   MCPDiscoveryState,
+  MCPReconnectEvent,
+  MCPReconnectEventType,
   MCPServerStatus,
   mcpServerRequiresOAuth,
   getErrorMessage,
@@ -29,6 +34,25 @@ const COLOR_CYAN = '\u001b[36m';
 const COLOR_GREY = '\u001b[90m';
 const RESET_COLOR = '\u001b[0m';
 
+const MAX_RECONNECT_EVENTS_SHOWN = 5;
+
+const formatReconnectEvent = (event: MCPReconnectEvent): string => {
+  const time = new Date(event.timestamp).toLocaleTimeString();
+  switch (event.type) {
+    case MCPReconnectEventType.DISCONNECTED:
+      return `${time} Connection lost`;
+    case MCPReconnectEventType.FAILED:
+      return `${time} Reconnect attempt ${event.attempt} failed`;
+    case MCPReconnectEventType.RECONNECTED:
+      return `${time} Reconnected after ${event.attempt} ${
+        event.attempt === 1 ? 'attempt' : 'attempts'
+      }`;
+    case MCPReconnectEventType.GAVE_UP:
+    default:
+      return `${time} Gave up reconnecting after ${event.attempt} attempts`;
+  }
+};
+
 const getMcpStatus = async (
   context: CommandContext,
   showDescriptions: boolean,
@@ -93,14 +117,29 @@ const getMcpStatus = async (
     ) as DiscoveredMCPTool[];
     const promptRegistry = await config.getPromptRegistry();
     const serverPrompts = promptRegistry.getPromptsByServer(serverName) || [];
+    const resourceRegistry = config.getResourceRegistry();
+    const serverResources = resourceRegistry.getResourcesByServer(serverName);
+    const serverResourceTemplates =
+      resourceRegistry.getResourceTemplatesByServer(serverName);
+    const resourceCount =
+      serverResources.length + serverResourceTemplates.length;
 
     const originalStatus = getMCPServerStatus(serverName);
-    const hasCachedItems = serverTools.length > 0 || serverPrompts.length > 0;
-
-    // If the server is "disconnected" but has prompts or cached tools, display it as Ready
-    // by using CONNECTED as the display status.
+    const hasCachedItems =
+      serverTools.length > 0 || serverPrompts.length > 0 || resourceCount > 0;
+    const reconnectHistory = getMCPServerReconnectHistory(serverName);
+    const lastReconnectEvent = reconnectHistory[reconnectHistory.length - 1];
+    const connectionLost =
+      originalStatus !== MCPServerStatus.CONNECTED &&
+      lastReconnectEvent !== undefined &&
+      lastReconnectEvent.type !== MCPReconnectEventType.RECONNECTED;
+
+    // If the server is "disconnected" but has prompts, resources or cached tools, display it as Ready
+    // by using CONNECTED as the display status, unless its connection was lost.
     const status =
-      originalStatus === MCPServerStatus.DISCONNECTED && hasCachedItems
+      originalStatus === MCPServerStatus.DISCONNECTED &&
+      hasCachedItems &&
+      !connectionLost
         ? MCPServerStatus.CONNECTED
         : originalStatus;
 
@@ -114,12 +153,20 @@ const getMcpStatus = async (
         break;
       case MCPServerStatus.CONNECTING:
         statusIndicator = '🔄';
-        statusText = 'Starting... (first startup may take longer)';
+        statusText = connectionLost
+          ? 'Reconnecting...'
+          : 'Starting... (first startup may take longer)';
         break;
       case MCPServerStatus.DISCONNECTED:
       default:
         statusIndicator = '🔴';
-        statusText = 'Disconnected';
+        if (!connectionLost) {
+          statusText = 'Disconnected';
+        } else if (lastReconnectEvent.type === MCPReconnectEventType.GAVE_UP) {
+          statusText = 'Disconnected (use /mcp refresh to reconnect)';
+        } else {
+          statusText = 'Disconnected, reconnecting...';
+        }
         break;
     }
 
@@ -173,6 +220,11 @@ const getMcpStatus = async (
           }`,
         );
       }
+      if (resourceCount > 0) {
+        parts.push(
+          `${resourceCount} ${resourceCount === 1 ? 'resource' : 'resources'}`,
+        );
+      }
       if (parts.length > 0) {
         message += ` (${parts.join(', ')})`;
       } else {
@@ -202,6 +254,13 @@ const getMcpStatus = async (
     // Reset formatting after server entry
     message += RESET_COLOR;
 
+    if (reconnectHistory.length > 0) {
+      message += `  ${COLOR_CYAN}Reconnect history:${RESET_COLOR}\n`;
+      for (const event of reconnectHistory.slice(-MAX_RECONNECT_EVENTS_SHOWN)) {
+        message += `  - ${COLOR_GREY}${formatReconnectEvent(event)}${RESET_COLOR}\n`;
+      }
+    }
+
     if (serverTools.length > 0) {
       message += `  ${COLOR_CYAN}Tools:${RESET_COLOR}\n`;
       serverTools.forEach((tool) => {
@@ -264,7 +323,37 @@ const getMcpStatus = async (
       });
     }
 
-    if (serverTools.length === 0 && serverPrompts.length === 0) {
+    if (resourceCount > 0) {
+      if (serverTools.length > 0 || serverPrompts.length > 0) {
+        message += '\n';
+      }
+      message += `  ${COLOR_CYAN}Resources:${RESET_COLOR}\n`;
+      serverResources.forEach((resource: DiscoveredMCPResource) => {
+        message += `  - ${COLOR_CYAN}${serverName}:${resource.uri}${RESET_COLOR}`;
+        if (resource.updated) {
+          message += ` ${COLOR_YELLOW}(updated)${RESET_COLOR}`;
+        }
+        if (showDescriptions && resource.description) {
+          message += ':\n';
+          for (const descLine of resource.description.trim().split('\n')) {
+            message += `      ${COLOR_GREEN}${descLine}${RESET_COLOR}\n`;
+          }
+        } else {
+          message += '\n';
+        }
+      });
+      serverResourceTemplates.forEach(
+        (template: DiscoveredMCPResourceTemplate) => {
+          message += `  - ${COLOR_CYAN}${serverName}:${template.uriTemplate}${RESET_COLOR} ${COLOR_GREY}(template)${RESET_COLOR}\n`;
+        },
+      );
+    }
+
+    if (
+      serverTools.length === 0 &&
+      serverPrompts.length === 0 &&
+      resourceCount === 0
+    ) {
       message += '  No tools or prompts available\n';
     } else if (serverTools.length === 0) {
       message += '  No tools available';
@@ -298,6 +387,7 @@ const getMcpStatus = async (
     message += `  • Use ${COLOR_CYAN}/mcp schema${RESET_COLOR} to show tool parameter schemas\n`;
     message += `  • Use ${COLOR_CYAN}/mcp nodesc${RESET_COLOR} to hide descriptions\n`;
     message += `  • Use ${COLOR_CYAN}/mcp auth <server-name>${RESET_COLOR} to authenticate with OAuth-enabled servers\n`;
+    message += `  • Use ${COLOR_CYAN}@<server-name>:<uri>${RESET_COLOR} in a prompt to include a server resource\n`;
     message += `  • Press ${COLOR_CYAN}Ctrl+T${RESET_COLOR} to toggle tool descriptions on/off\n`;
     message += '\n';
   }
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  AuthType,
+  initializeProviderManager,
+  ProviderManager,
+} from '@qwen-code/qwen-code-core';
+import { modelCommand } from './modelCommand.js';
+import { CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@qwen-code/qwen-code-core')>();
+  return {
+    ...actual,
+    initializeProviderManager: vi.fn(),
+  };
+});
+
+describe('modelCommand', () => {
+  let context: CommandContext;
+  let switchModel: ReturnType<typeof vi.fn>;
+  let getProviderModels: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    switchModel = vi.fn().mockResolvedValue(undefined);
+    getProviderModels = vi.fn().mockResolvedValue(['llama3', 'qwen2.5-coder']);
+    vi.mocked(initializeProviderManager).mockResolvedValue({
+      getProviderNameForAuthType: () => 'ollama',
+      getProviderModels,
+    } as unknown as ProviderManager);
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getContentGeneratorConfig: () => ({
+            model: 'llama3',
+            authType: AuthType.USE_OLLAMA,
+          }),
+          getModel: () => 'llama3',
+          switchModel,
+        },
+      },
+    });
+  });
+
+  it('lists the models of the active provider', async () => {
+    const result = await modelCommand.action!(context, '');
+
+    expect(getProviderModels).toHaveBeenCalledWith('ollama');
+    expect(result).toMatchObject({ type: 'message', messageType: 'info' });
+    const content = (result as { content: string }).content;
+    expect(content).toContain('llama3\u001b[0m (current)');
+    expect(content).toContain('qwen2.5-coder');
+  });
+
+  it('reports when the provider does not list models', async () => {
+    getProviderModels.mockResolvedValue([]);
+
+    const result = await modelCommand.action!(context, '');
+
+    expect((result as { content: string }).content).toContain(
+      'The ollama provider did not report any models.',
+    );
+  });
+
+  it('switches to the given model', async () => {
+    const result = await modelCommand.action!(context, ' qwen2.5-coder ');
+
+    expect(switchModel).toHaveBeenCalledWith('qwen2.5-coder');
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Switched to model qwen2.5-coder. The conversation history was kept.',
+    });
+  });
+
+  it('reports a failed switch', async () => {
+    switchModel.mockRejectedValue(new Error('connection refused'));
+
+    const result = await modelCommand.action!(context, 'qwen2.5-coder');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Failed to switch to model qwen2.5-coder: connection refused',
+    });
+  });
+
+  it('does not rebuild the client for the current model', async () => {
+    await modelCommand.action!(context, 'llama3');
+
+    expect(switchModel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Config,
+  getErrorMessage,
+  initializeProviderManager,
+} from '@qwen-code/qwen-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+
+const COLOR_CYAN = '\u001b[36m';
+const COLOR_GREY = '\u001b[90m';
+const RESET_COLOR = '\u001b[0m';
+
+const listModels = async (config: Config): Promise<MessageActionReturn> => {
+  const authType = config.getContentGeneratorConfig()?.authType;
+  if (!authType) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content: 'No provider is active. Use /auth or /provider to choose one.',
+    };
+  }
+
+  const currentModel = config.getModel();
+  const manager = await initializeProviderManager();
+  const providerName = manager.getProviderNameForAuthType(authType);
+  const models = providerName
+    ? await manager.getProviderModels(providerName)
+    : [];
+
+  let message = `Current model: ${COLOR_CYAN}${currentModel}${RESET_COLOR}\n\n`;
+  if (models.length === 0) {
+    message += `The ${providerName ?? authType} provider did not report any models.\n`;
+  } else {
+    message += `Models available from ${providerName}:\n\n`;
+    for (const model of models) {
+      const marker = model === currentModel ? ' (current)' : '';
+      message += `  - ${COLOR_CYAN}${model}${RESET_COLOR}${marker}\n`;
+    }
+  }
+  message += `\n${COLOR_GREY}Use /model <name> to switch models.${RESET_COLOR}`;
+
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: message,
+  };
+};
+
+const switchModel = async (
+  config: Config,
+  model: string,
+): Promise<MessageActionReturn> => {
+  if (model === config.getModel()) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Already using model ${model}.`,
+    };
+  }
+
+  try {
+    await config.switchModel(model);
+  } catch (error) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content: `Failed to switch to model ${model}: ${getErrorMessage(error)}`,
+    };
+  }
+
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: `Switched to model ${model}. The conversation history was kept.`,
+  };
+};
+
+export const modelCommand: SlashCommand = {
+  name: 'model',
+  description:
+    'List the models of the active provider or switch models. Usage: /model [name]',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+
+    const model = args.trim();
+    return model ? switchModel(config, model) : listModels(config);
+  },
+};
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  AuthType,
+  initializeProviderManager,
+  IProvider,
+  ProviderManager,
+} from '@qwen-code/qwen-code-core';
+import { providerCommand } from './providerCommand.js';
+import { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@qwen-code/qwen-code-core')>();
+  return {
+    ...actual,
+    initializeProviderManager: vi.fn(),
+  };
+});
+
+describe('providerCommand', () => {
+  const makeProvider = (
+    name: string,
+    model: string,
+    error?: string,
+  ): IProvider =>
+    ({
+      name,
+      displayName: name.toUpperCase(),
+      config: { model },
+      validate: vi.fn().mockResolvedValue({ isValid: !error, error }),
+    }) as unknown as IProvider;
+
+  const providers = new Map([
+    ['ollama', makeProvider('ollama', 'llama3')],
+    ['openai', makeProvider('openai', 'gpt-4', 'API Key is required')],
+  ]);
+  const authTypes: Record<string, AuthType> = {
+    ollama: AuthType.USE_OLLAMA,
+    openai: AuthType.USE_OPENAI,
+  };
+
+  let context: CommandContext;
+  let manager: {
+    getAllProviders: () => Map<string, IProvider>;
+    getProvider: (name: string) => IProvider | undefined;
+    getAuthTypeForProvider: (name: string) => AuthType | undefined;
+    getProviderNameForAuthType: () => string;
+    setActiveProvider: ReturnType<typeof vi.fn>;
+    testProviderConnection: ReturnType<typeof vi.fn>;
+  };
+  let refreshAuth: ReturnType<typeof vi.fn>;
+
+  const getSubCommand = (name: string): SlashCommand => {
+    const subCommand = providerCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand?.action) {
+      throw new Error(`/provider ${name} command has no action`);
+    }
+    return subCommand;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    manager = {
+      getAllProviders: () => providers,
+      getProvider: (name) => providers.get(name),
+      getAuthTypeForProvider: (name) => authTypes[name],
+      getProviderNameForAuthType: () => 'ollama',
+      setActiveProvider: vi.fn().mockResolvedValue(undefined),
+      testProviderConnection: vi.fn().mockResolvedValue(true),
+    };
+    vi.mocked(initializeProviderManager).mockResolvedValue(
+      manager as unknown as ProviderManager,
+    );
+    refreshAuth = vi.fn().mockResolvedValue(undefined);
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getContentGeneratorConfig: () => ({
+            model: 'llama3',
+            authType: AuthType.USE_OLLAMA,
+          }),
+          getModel: () => 'gpt-4',
+          refreshAuth,
+        },
+      },
+    });
+  });
+
+  it('lists providers with their status by default', async () => {
+    const result = await providerCommand.action!(context, '');
+
+    const content = (result as { content: string }).content;
+    expect(content).toContain('ollama\u001b[0m (active): OLLAMA - llama3');
+    expect(content).toContain('API Key is required');
+  });
+
+  describe('test', () => {
+    it('tests the active provider when no name is given', async () => {
+      const result = await getSubCommand('test').action!(context, '');
+
+      expect(manager.testProviderConnection).toHaveBeenCalledWith('ollama');
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: 'Connection to ollama succeeded.',
+      });
+    });
+
+    it('reports a failed connection', async () => {
+      manager.testProviderConnection.mockResolvedValue(false);
+
+      const result = await getSubCommand('test').action!(context, 'openai');
+
+      expect(result).toMatchObject({
+        messageType: 'error',
+        content: 'Connection to openai failed.',
+      });
+    });
+  });
+
+  describe('switch', () => {
+    it('activates the provider and refreshes auth', async () => {
+      const result = await getSubCommand('switch').action!(context, 'openai');
+
+      expect(manager.setActiveProvider).toHaveBeenCalledWith('openai');
+      expect(refreshAuth).toHaveBeenCalledWith(AuthType.USE_OPENAI);
+      expect(result).toMatchObject({
+        messageType: 'info',
+        content: expect.stringContaining(
+          'Switched to provider openai with model gpt-4.',
+        ),
+      });
+    });
+
+    it('reports providers that cannot be activated', async () => {
+      manager.setActiveProvider.mockRejectedValue(
+        new Error("Cannot activate invalid provider 'openai'"),
+      );
+
+      const result = await getSubCommand('switch').action!(context, 'openai');
+
+      expect(refreshAuth).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ messageType: 'error' });
+    });
+
+    it('rejects unknown providers', async () => {
+      const result = await getSubCommand('switch').action!(context, 'nope');
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content:
+          "Unknown provider 'nope'. Available providers: ollama, openai.",
+      });
+    });
+
+    it('completes provider names', async () => {
+      expect(await getSubCommand('switch').completion!(context, 'o')).toEqual([
+        'ollama',
+        'openai',
+      ]);
+    });
+  });
+});
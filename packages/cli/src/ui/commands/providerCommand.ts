@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Config,
+  getErrorMessage,
+  initializeProviderManager,
+  ProviderManager,
+} from '@qwen-code/qwen-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+
+const COLOR_GREEN = '\u001b[32m';
+const COLOR_RED = '\u001b[31m';
+const COLOR_CYAN = '\u001b[36m';
+const COLOR_GREY = '\u001b[90m';
+const RESET_COLOR = '\u001b[0m';
+
+const configNotLoaded: MessageActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'Config not loaded.',
+};
+
+const getActiveProviderName = (
+  config: Config,
+  manager: ProviderManager,
+): string | null => {
+  const authType = config.getContentGeneratorConfig()?.authType;
+  return authType ? manager.getProviderNameForAuthType(authType) : null;
+};
+
+const unknownProvider = (
+  manager: ProviderManager,
+  name: string,
+): MessageActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content: `Unknown provider '${name}'. Available providers: ${Array.from(
+    manager.getAllProviders().keys(),
+  ).join(', ')}.`,
+});
+
+const completeProviderName = async (
+  _context: CommandContext,
+  partialArg: string,
+): Promise<string[]> => {
+  const manager = await initializeProviderManager();
+  return Array.from(manager.getAllProviders().keys()).filter((name) =>
+    name.startsWith(partialArg),
+  );
+};
+
+const listProviders = async (
+  context: CommandContext,
+): Promise<MessageActionReturn> => {
+  const { config } = context.services;
+  if (!config) {
+    return configNotLoaded;
+  }
+
+  const manager = await initializeProviderManager();
+  const activeProvider = getActiveProviderName(config, manager);
+
+  let message = 'Providers:\n\n';
+  for (const provider of manager.getAllProviders().values()) {
+    const validation = await provider.validate();
+    const status = validation.isValid
+      ? `${COLOR_GREEN}ready${RESET_COLOR}`
+      : `${COLOR_RED}unavailable${RESET_COLOR} ${COLOR_GREY}(${validation.error})${RESET_COLOR}`;
+    const model = provider.config.model ? ` - ${provider.config.model}` : '';
+    const active = provider.name === activeProvider ? ' (active)' : '';
+    message += `  - ${COLOR_CYAN}${provider.name}${RESET_COLOR}${active}: ${provider.displayName}${model} [${status}]\n`;
+  }
+  message += `\n${COLOR_GREY}Use /provider test <name> to check a connection and /provider switch <name> to change providers.${RESET_COLOR}`;
+
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: message,
+  };
+};
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'List the configured providers',
+  kind: CommandKind.BUILT_IN,
+  action: listProviders,
+};
+
+const testCommand: SlashCommand = {
+  name: 'test',
+  description:
+    'Test the connection to a provider. Usage: /provider test [name]',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return configNotLoaded;
+    }
+
+    const manager = await initializeProviderManager();
+    const name = args.trim() || getActiveProviderName(config, manager);
+    if (!name) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'No provider is active. Usage: /provider test <name>',
+      };
+    }
+    if (!manager.getProvider(name)) {
+      return unknownProvider(manager, name);
+    }
+
+    const connected = await manager.testProviderConnection(name);
+    return connected
+      ? {
+          type: 'message',
+          messageType: 'info',
+          content: `Connection to ${name} succeeded.`,
+        }
+      : {
+          type: 'message',
+          messageType: 'error',
+          content: `Connection to ${name} failed.`,
+        };
+  },
+  completion: completeProviderName,
+};
+
+const switchCommand: SlashCommand = {
+  name: 'switch',
+  description:
+    'Switch to another provider for this session. Usage: /provider switch <name>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return configNotLoaded;
+    }
+
+    const name = args.trim();
+    if (!name) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing provider name. Usage: /provider switch <name>',
+      };
+    }
+
+    const manager = await initializeProviderManager();
+    const authType = manager.getAuthTypeForProvider(name);
+    if (!manager.getProvider(name) || !authType) {
+      return unknownProvider(manager, name);
+    }
+
+    try {
+      await manager.setActiveProvider(name);
+      await config.refreshAuth(authType);
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to switch to provider ${name}: ${getErrorMessage(error)}`,
+      };
+    }
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Switched to provider ${name} with model ${config.getModel()}. The conversation history was kept.`,
+    };
+  },
+  completion: completeProviderName,
+};
+
+export const providerCommand: SlashCommand = {
+  name: 'provider',
+  description: 'List, test and switch model providers.',
+  kind: CommandKind.BUILT_IN,
+  action: listProviders,
+  subCommands: [listCommand, testCommand, switchCommand],
+};
@@ -34,6 +34,8 @@ export interface CommandContext {
   };
   // UI state and history management
   ui: {
+    /** The items currently in the history display. */
+    history: HistoryItem[];
     /** Adds a new item to the history display. */
     addItem: UseHistoryManagerReturn['addItem'];
     /** Clears all history items and the console screen. */
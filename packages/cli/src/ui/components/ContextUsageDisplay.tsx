@@ -11,11 +11,14 @@ import { tokenLimit } from '@qwen-code/qwen-code-core';
 export const ContextUsageDisplay = ({
   promptTokenCount,
   model,
+  contextLength,
 }: {
   promptTokenCount: number;
   model: string;
+  /** Defaults to the built-in context window of the model. */
+  contextLength?: number;
 }) => {
-  const percentage = promptTokenCount / tokenLimit(model);
+  const percentage = promptTokenCount / (contextLength ?? tokenLimit(model));
 
   return (
     <Text color={Colors.Gray}>
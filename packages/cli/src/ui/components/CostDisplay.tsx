@@ -0,0 +1,37 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Text } from 'ink';
+import { Colors } from '../colors.js';
+import { formatCost } from '../utils/formatters.js';
+
+/** The share of the budget from which the cost is highlighted. */
+const BUDGET_WARNING_THRESHOLD = 0.8;
+
+export const CostDisplay = ({
+  costUsd,
+  budgetUsd,
+}: {
+  costUsd: number;
+  budgetUsd: number;
+}) => {
+  if (budgetUsd <= 0) {
+    return <Text color={Colors.Gray}> ({formatCost(costUsd)})</Text>;
+  }
+
+  const color =
+    costUsd >= budgetUsd
+      ? Colors.AccentRed
+      : costUsd >= budgetUsd * BUDGET_WARNING_THRESHOLD
+        ? Colors.AccentYellow
+        : Colors.Gray;
+  return (
+    <Text color={color}>
+      {' '}
+      ({formatCost(costUsd)} of {formatCost(budgetUsd)} budget)
+    </Text>
+  );
+};
@@ -103,4 +103,29 @@ describe('<Footer />', () => {
     expect(lastFrame()).toContain(defaultProps.model);
     expect(lastFrame()).toMatch(/\(\d+% context[\s\S]*left\)/);
   });
+
+  it('computes the context percentage from the given context length', () => {
+    useTerminalSizeMock.mockReturnValue({ columns: 120, rows: 24 });
+    const { lastFrame } = render(
+      <Footer
+        {...defaultProps}
+        promptTokenCount={32_000}
+        contextLength={128_000}
+      />,
+    );
+    expect(lastFrame()).toMatch(/\(75% context[\s\S]*left\)/);
+  });
+
+  it('does not display the cost before any has been spent', () => {
+    const { lastFrame } = renderWithWidth(120);
+    expect(lastFrame()).not.toContain('$');
+  });
+
+  it('displays the session cost and budget', () => {
+    useTerminalSizeMock.mockReturnValue({ columns: 120, rows: 24 });
+    const { lastFrame } = render(
+      <Footer {...defaultProps} sessionCostUsd={1.5} sessionBudgetUsd={5} />,
+    );
+    expect(lastFrame()).toMatch(/\(\$1\.50[\s\S]*of \$5\.00 budget\)/);
+  });
 });
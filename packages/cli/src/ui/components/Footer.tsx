@@ -14,6 +14,7 @@ import path from 'node:path';
 import Gradient from 'ink-gradient';
 import { MemoryUsageDisplay } from './MemoryUsageDisplay.js';
 import { ContextUsageDisplay } from './ContextUsageDisplay.js';
+import { CostDisplay } from './CostDisplay.js';
 import { DebugProfiler } from './DebugProfiler.js';
 
 import { useTerminalSize } from '../hooks/useTerminalSize.js';
@@ -30,6 +31,9 @@ interface FooterProps {
   showErrorDetails: boolean;
   showMemoryUsage?: boolean;
   promptTokenCount: number;
+  contextLength?: number;
+  sessionCostUsd?: number;
+  sessionBudgetUsd?: number;
   nightly: boolean;
   vimMode?: string;
 }
@@ -45,6 +49,9 @@ export const Footer: React.FC<FooterProps> = ({
   showErrorDetails,
   showMemoryUsage,
   promptTokenCount,
+  contextLength,
+  sessionCostUsd = 0,
+  sessionBudgetUsd = -1,
   nightly,
   vimMode,
 }) => {
@@ -125,7 +132,14 @@ export const Footer: React.FC<FooterProps> = ({
           <ContextUsageDisplay
             promptTokenCount={promptTokenCount}
             model={model}
+            contextLength={contextLength}
           />
+          {(sessionCostUsd > 0 || sessionBudgetUsd > 0) && (
+            <CostDisplay
+              costUsd={sessionCostUsd}
+              budgetUsd={sessionBudgetUsd}
+            />
+          )}
         </Text>
         {corgiMode && (
           <Text>
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildElicitationContent,
+  getInitialElicitationValues,
+  McpElicitationDialog,
+} from './McpElicitationDialog.js';
+
+const wait = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('McpElicitationDialog', () => {
+  const requestedSchema = {
+    type: 'object' as const,
+    properties: {
+      name: { type: 'string' as const, title: 'Release name', minLength: 3 },
+      replicas: { type: 'integer' as const, minimum: 1 },
+      env: {
+        type: 'string' as const,
+        enum: ['dev', 'prod'],
+        enumNames: ['Development', 'Production'],
+      },
+      notify: { type: 'boolean' as const, default: true },
+    },
+    required: ['name', 'env'],
+  };
+
+  describe('buildElicitationContent', () => {
+    it('converts the values to the types of the schema', () => {
+      expect(
+        buildElicitationContent(requestedSchema, {
+          name: 'v1.2',
+          replicas: '3',
+          env: 'prod',
+          notify: false,
+        }),
+      ).toEqual({
+        content: { name: 'v1.2', replicas: 3, env: 'prod', notify: false },
+      });
+    });
+
+    it('leaves out optional fields without a value', () => {
+      expect(
+        buildElicitationContent(requestedSchema, {
+          ...getInitialElicitationValues(requestedSchema),
+          name: 'v1.2',
+          env: 'dev',
+        }),
+      ).toEqual({ content: { name: 'v1.2', env: 'dev', notify: true } });
+    });
+
+    it.each([
+      [{ name: '', env: 'dev' }, "'Release name' is required."],
+      [
+        { name: 'v1', env: 'dev' },
+        "'Release name' must be at least 3 characters.",
+      ],
+      [
+        { name: 'v1.2', replicas: 'two', env: 'dev' },
+        "'replicas' must be a number.",
+      ],
+      [
+        { name: 'v1.2', replicas: '1.5', env: 'dev' },
+        "'replicas' must be an integer.",
+      ],
+      [
+        { name: 'v1.2', replicas: '0', env: 'dev' },
+        "'replicas' must be at least 1.",
+      ],
+      [{ name: 'v1.2' }, "'env' is required."],
+    ])('rejects %o', (values, error) => {
+      expect(buildElicitationContent(requestedSchema, values)).toEqual({
+        error,
+      });
+    });
+  });
+
+  it('renders the message and the fields', () => {
+    const { lastFrame } = render(
+      <McpElicitationDialog
+        request={{
+          serverName: 'deploy',
+          message: 'Which release should be deployed?',
+          requestedSchema,
+          onSubmit: vi.fn(),
+        }}
+      />,
+    );
+    const output = lastFrame();
+    expect(output).toContain('MCP Input Request');
+    expect(output).toContain('Which release should be deployed?');
+    expect(output).toContain('Release name*:');
+    expect(output).toContain('‹ (none) ›');
+    expect(output).toContain('[x]');
+    expect(output).toContain('Submit');
+    expect(output).toContain('Decline');
+  });
+
+  it('submits the filled in form', async () => {
+    const onSubmit = vi.fn();
+    const { stdin } = render(
+      <McpElicitationDialog
+        request={{
+          serverName: 'deploy',
+          message: 'Which release should be deployed?',
+          requestedSchema,
+          onSubmit,
+        }}
+      />,
+    );
+
+    stdin.write('v1.2');
+    await wait();
+    stdin.write('\r'); // replicas
+    await wait();
+    stdin.write('\r'); // env
+    await wait();
+    stdin.write('\u001b[C'); // right arrow selects the first option
+    await wait();
+    stdin.write('\r'); // notify
+    await wait();
+    stdin.write(' '); // toggles notify off
+    await wait();
+    stdin.write('\r'); // submit
+    await wait();
+    stdin.write('\r');
+    await wait();
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      action: 'accept',
+      content: { name: 'v1.2', env: 'dev', notify: false },
+    });
+  });
+
+  it('shows validation errors instead of submitting', async () => {
+    const onSubmit = vi.fn();
+    const { stdin, lastFrame } = render(
+      <McpElicitationDialog
+        request={{
+          serverName: 'deploy',
+          message: 'Which release should be deployed?',
+          requestedSchema,
+          onSubmit,
+        }}
+      />,
+    );
+
+    stdin.write('\u001b[A'); // up arrow wraps to decline
+    await wait();
+    stdin.write('\u001b[A'); // submit
+    await wait();
+    stdin.write('\r');
+    await wait();
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(lastFrame()).toContain("'Release name' is required.");
+  });
+
+  it('cancels the request on escape', async () => {
+    const onSubmit = vi.fn();
+    const { stdin } = render(
+      <McpElicitationDialog
+        request={{
+          serverName: 'deploy',
+          message: 'Which release should be deployed?',
+          requestedSchema,
+          onSubmit,
+        }}
+      />,
+    );
+
+    stdin.write('\u001b');
+    await wait();
+
+    expect(onSubmit).toHaveBeenCalledWith({ action: 'cancel' });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MCPElicitationRequest } from '@qwen-code/qwen-code-core';
+import { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { Box, Text, useInput } from 'ink';
+import React, { useState } from 'react';
+import { Colors } from '../colors.js';
+
+export interface McpElicitationFormRequest extends MCPElicitationRequest {
+  onSubmit: (result: ElicitResult) => void;
+}
+
+export interface McpElicitationDialogProps {
+  request: McpElicitationFormRequest;
+}
+
+type ElicitationSchema = MCPElicitationRequest['requestedSchema'];
+type FieldSchema = ElicitationSchema['properties'][string];
+type FieldValue = string | boolean | undefined;
+
+function getEnumValues(field: FieldSchema): string[] | undefined {
+  return 'enum' in field && Array.isArray(field.enum)
+    ? (field.enum as string[])
+    : undefined;
+}
+
+function getEnumLabel(field: FieldSchema, value: string): string {
+  const values = getEnumValues(field) ?? [];
+  const names = 'enumNames' in field ? (field.enumNames as string[]) : [];
+  return names?.[values.indexOf(value)] ?? value;
+}
+
+/**
+ * Returns the initial values of the form fields, taken from the schema
+ * defaults where present.
+ */
+export function getInitialElicitationValues(
+  schema: ElicitationSchema,
+): Record<string, FieldValue> {
+  const values: Record<string, FieldValue> = {};
+  for (const [name, field] of Object.entries(schema.properties)) {
+    const defaultValue = 'default' in field ? field.default : undefined;
+    if (field.type === 'boolean') {
+      values[name] = defaultValue === true;
+    } else if (getEnumValues(field)) {
+      values[name] =
+        typeof defaultValue === 'string' ? defaultValue : undefined;
+    } else {
+      values[name] = defaultValue === undefined ? '' : String(defaultValue);
+    }
+  }
+  return values;
+}
+
+/**
+ * Validates the form values against the schema and converts them into the
+ * content of an accepted elicitation.
+ */
+export function buildElicitationContent(
+  schema: ElicitationSchema,
+  values: Record<string, FieldValue>,
+): { content: Record<string, unknown> } | { error: string } {
+  const content: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(schema.properties)) {
+    const title = field.title ?? name;
+    const value = values[name];
+    const required = schema.required?.includes(name) ?? false;
+
+    if (field.type === 'boolean') {
+      content[name] = value === true;
+      continue;
+    }
+    if (value === undefined || value === '') {
+      if (required) {
+        return { error: `'${title}' is required.` };
+      }
+      continue;
+    }
+    if (typeof value !== 'string' || getEnumValues(field)) {
+      content[name] = value;
+      continue;
+    }
+
+    if (field.type === 'number' || field.type === 'integer') {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        return { error: `'${title}' must be a number.` };
+      }
+      if (field.type === 'integer' && !Number.isInteger(number)) {
+        return { error: `'${title}' must be an integer.` };
+      }
+      if (typeof field.minimum === 'number') {
+        if (number < field.minimum) {
+          return { error: `'${title}' must be at least ${field.minimum}.` };
+        }
+      }
+      if (typeof field.maximum === 'number') {
+        if (number > field.maximum) {
+          return { error: `'${title}' must be at most ${field.maximum}.` };
+        }
+      }
+      content[name] = number;
+      continue;
+    }
+
+    if (typeof field.minLength === 'number') {
+      if (value.length < field.minLength) {
+        return {
+          error: `'${title}' must be at least ${field.minLength} characters.`,
+        };
+      }
+    }
+    if (typeof field.maxLength === 'number') {
+      if (value.length > field.maxLength) {
+        return {
+          error: `'${title}' must be at most ${field.maxLength} characters.`,
+        };
+      }
+    }
+    content[name] = value;
+  }
+  return { content };
+}
+
+export const McpElicitationDialog: React.FC<McpElicitationDialogProps> = ({
+  request,
+}) => {
+  const { serverName, message, requestedSchema, onSubmit } = request;
+  const fieldNames = Object.keys(requestedSchema.properties);
+  // The submit and decline buttons follow the fields.
+  const submitIndex = fieldNames.length;
+  const declineIndex = fieldNames.length + 1;
+
+  const [values, setValues] = useState(() =>
+    getInitialElicitationValues(requestedSchema),
+  );
+  const [focusIndex, setFocusIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const setValue = (name: string, value: FieldValue) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    setError(null);
+  };
+
+  const submit = () => {
+    const result = buildElicitationContent(requestedSchema, values);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    onSubmit({ action: 'accept', content: result.content });
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onSubmit({ action: 'cancel' });
+      return;
+    }
+    if (key.return) {
+      if (focusIndex === submitIndex) {
+        submit();
+      } else if (focusIndex === declineIndex) {
+        onSubmit({ action: 'decline' });
+      } else {
+        setFocusIndex(focusIndex + 1);
+      }
+      return;
+    }
+    if ((key.tab && !key.shift) || key.downArrow) {
+      setFocusIndex((focusIndex + 1) % (declineIndex + 1));
+      return;
+    }
+    if ((key.tab && key.shift) || key.upArrow) {
+      setFocusIndex((focusIndex + declineIndex) % (declineIndex + 1));
+      return;
+    }
+
+    const name = fieldNames[focusIndex];
+    if (name === undefined) {
+      return;
+    }
+    const field = requestedSchema.properties[name];
+    const value = values[name];
+    const enumValues = getEnumValues(field);
+
+    if (field.type === 'boolean') {
+      if (input === ' ' || key.leftArrow || key.rightArrow) {
+        setValue(name, value !== true);
+      }
+    } else if (enumValues) {
+      if (key.leftArrow || key.rightArrow) {
+        const step = key.rightArrow ? 1 : enumValues.length - 1;
+        const index =
+          typeof value === 'string'
+            ? (enumValues.indexOf(value) + step) % enumValues.length
+            : key.rightArrow
+              ? 0
+              : enumValues.length - 1;
+        setValue(name, enumValues[index]);
+      }
+    } else if (key.backspace || key.delete) {
+      setValue(name, String(value ?? '').slice(0, -1));
+    } else {
+      const text = (input || '')
+        .split('')
+        .filter((ch) => ch.charCodeAt(0) >= 32)
+        .join('');
+      if (text.length > 0) {
+        setValue(name, String(value ?? '') + text);
+      }
+    }
+  });
+
+  const renderValue = (name: string) => {
+    const field = requestedSchema.properties[name];
+    const value = values[name];
+    if (field.type === 'boolean') {
+      return value === true ? '[x]' : '[ ]';
+    }
+    if (getEnumValues(field)) {
+      return typeof value === 'string'
+        ? `‹ ${getEnumLabel(field, value)} ›`
+        : '‹ (none) ›';
+    }
+    return String(value ?? '');
+  };
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentBlue}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Text bold color={Colors.AccentBlue}>
+        MCP Input Request
+      </Text>
+      <Text>
+        MCP server <Text color={Colors.AccentCyan}>{serverName}</Text> asks:
+      </Text>
+      <Box marginTop={1}>
+        <Text>{message}</Text>
+      </Box>
+
+      {fieldNames.map((name, index) => {
+        const field = requestedSchema.properties[name];
+        const isFocused = index === focusIndex;
+        const isRequired = requestedSchema.required?.includes(name);
+        return (
+          <Box key={name} marginTop={1} flexDirection="column">
+            <Box flexDirection="row">
+              <Box width={24}>
+                <Text color={isFocused ? Colors.AccentBlue : Colors.Gray}>
+                  {field.title ?? name}
+                  {isRequired ? '*' : ''}:
+                </Text>
+              </Box>
+              <Box flexGrow={1}>
+                <Text>
+                  {isFocused ? '> ' : '  '}
+                  {renderValue(name)}
+                </Text>
+              </Box>
+            </Box>
+            {field.description && (
+              <Text color={Colors.Gray}>{field.description}</Text>
+            )}
+          </Box>
+        );
+      })}
+
+      <Box marginTop={1} flexDirection="row">
+        <Text
+          color={focusIndex === submitIndex ? Colors.AccentGreen : Colors.Gray}
+        >
+          {focusIndex === submitIndex ? '> ' : '  '}Submit
+        </Text>
+        <Text
+          color={focusIndex === declineIndex ? Colors.AccentRed : Colors.Gray}
+        >
+          {'    '}
+          {focusIndex === declineIndex ? '> ' : '  '}Decline
+        </Text>
+      </Box>
+
+      {error && (
+        <Box marginTop={1}>
+          <Text color={Colors.AccentRed}>{error}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text color={Colors.Gray}>
+          Press Enter to continue, Tab/↑↓ to navigate, ←→ to change a choice,
+          Esc to cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect, vi } from 'vitest';
+import { McpSamplingDialog } from './McpSamplingDialog.js';
+
+describe('McpSamplingDialog', () => {
+  const request = {
+    serverName: 'logs',
+    params: {
+      messages: [
+        {
+          role: 'user' as const,
+          content: { type: 'text' as const, text: 'Summarize the log' },
+        },
+        {
+          role: 'user' as const,
+          content: {
+            type: 'image' as const,
+            data: 'aGVsbG8=',
+            mimeType: 'image/png',
+          },
+        },
+      ],
+      systemPrompt: 'You are a log analyzer.',
+      maxTokens: 100,
+    },
+    onConfirm: vi.fn(),
+  };
+
+  it('shows the server and the messages of the request', () => {
+    const { lastFrame } = render(<McpSamplingDialog request={request} />);
+    const output = lastFrame();
+    expect(output).toContain('MCP Sampling Request');
+    expect(output).toContain('logs');
+    expect(output).toContain('system: You are a log analyzer.');
+    expect(output).toContain('user: Summarize the log');
+    expect(output).toContain('user: [image/png]');
+    expect(output).toContain('Max tokens: 100');
+    expect(output).toContain('Yes, send the request to the model');
+    expect(output).toContain('No (esc)');
+  });
+
+  it('approves the request when the first option is selected', async () => {
+    const onConfirm = vi.fn();
+    const { stdin } = render(
+      <McpSamplingDialog request={{ ...request, onConfirm }} />,
+    );
+
+    stdin.write('\r');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(onConfirm).toHaveBeenCalledWith(true);
+  });
+
+  it('rejects the request on escape', async () => {
+    const onConfirm = vi.fn();
+    const { stdin } = render(
+      <McpSamplingDialog request={{ ...request, onConfirm }} />,
+    );
+
+    stdin.write('\u001b');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(onConfirm).toHaveBeenCalledWith(false);
+  });
+});
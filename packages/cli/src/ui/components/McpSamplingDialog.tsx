@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MCPSamplingRequest } from '@qwen-code/qwen-code-core';
+import { Box, Text, useInput } from 'ink';
+import React from 'react';
+import { Colors } from '../colors.js';
+import {
+  RadioButtonSelect,
+  RadioSelectItem,
+} from './shared/RadioButtonSelect.js';
+
+export interface McpSamplingConfirmationRequest extends MCPSamplingRequest {
+  onConfirm: (approved: boolean) => void;
+}
+
+export interface McpSamplingDialogProps {
+  request: McpSamplingConfirmationRequest;
+}
+
+export const McpSamplingDialog: React.FC<McpSamplingDialogProps> = ({
+  request,
+}) => {
+  const { serverName, params, onConfirm } = request;
+
+  useInput((_, key) => {
+    if (key.escape) {
+      onConfirm(false);
+    }
+  });
+
+  const options: Array<RadioSelectItem<boolean>> = [
+    {
+      label: 'Yes, send the request to the model',
+      value: true,
+    },
+    {
+      label: 'No (esc)',
+      value: false,
+    },
+  ];
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentYellow}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Box flexDirection="column" marginBottom={1}>
+        <Text bold>MCP Sampling Request</Text>
+        <Text>
+          MCP server <Text color={Colors.AccentCyan}>{serverName}</Text> wants
+          to send the following messages to the model:
+        </Text>
+        <Box
+          flexDirection="column"
+          borderStyle="round"
+          borderColor={Colors.Gray}
+          paddingX={1}
+          marginTop={1}
+        >
+          {params.systemPrompt && (
+            <Text color={Colors.Gray}>system: {params.systemPrompt}</Text>
+          )}
+          {params.messages.map((message, index) => (
+            <Text key={index}>
+              <Text color={Colors.AccentCyan}>{message.role}: </Text>
+              {message.content.type === 'text'
+                ? message.content.text
+                : `[${message.content.mimeType}]`}
+            </Text>
+          ))}
+        </Box>
+        <Text color={Colors.Gray}>Max tokens: {params.maxTokens}</Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text>Do you want to allow this request?</Text>
+      </Box>
+
+      <RadioButtonSelect items={options} onSelect={onConfirm} isFocused />
+    </Box>
+  );
+};
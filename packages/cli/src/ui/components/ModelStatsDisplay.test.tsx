@@ -249,4 +249,53 @@ describe('<ModelStatsDisplay />', () => {
     expect(output).not.toContain('gemini-2.5-flash');
     expect(output).toMatchSnapshot();
   });
+
+  it('should display the estimated cost per model and provider', () => {
+    const tokens = {
+      prompt: 100,
+      candidates: 200,
+      total: 300,
+      cached: 0,
+      thoughts: 0,
+      tool: 0,
+    };
+    const { lastFrame } = renderWithMockedStats({
+      models: {
+        'gpt-4o': {
+          api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+          tokens,
+          provider: 'openai',
+          costUsd: 0.5,
+        },
+        'claude-sonnet-4': {
+          api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+          tokens,
+          provider: 'anthropic',
+          costUsd: 1.25,
+        },
+        'my-finetune': {
+          api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+          tokens,
+          provider: 'runpod',
+        },
+      },
+      tools: {
+        totalCalls: 0,
+        totalSuccess: 0,
+        totalFail: 0,
+        totalDurationMs: 0,
+        totalDecisions: { accept: 0, reject: 0, modify: 0 },
+        byName: {},
+      },
+    });
+
+    const output = lastFrame();
+    expect(output).toContain('Cost');
+    expect(output).toContain('$0.50');
+    expect(output).toContain('$1.25');
+    expect(output).toContain('unknown price');
+    expect(output).toContain(
+      'Estimated session cost: $1.75 (openai: $0.50, anthropic: $1.25)',
+    );
+  });
 });
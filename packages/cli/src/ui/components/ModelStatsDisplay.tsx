@@ -7,13 +7,17 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import { Colors } from '../colors.js';
-import { formatDuration } from '../utils/formatters.js';
+import { formatCost, formatDuration } from '../utils/formatters.js';
 import {
   calculateAverageLatency,
   calculateCacheHitRate,
   calculateErrorRate,
 } from '../utils/computeStats.js';
 import { useSessionStats, ModelMetrics } from '../contexts/SessionContext.js';
+import {
+  getSessionCostByProvider,
+  getSessionCostUsd,
+} from '@qwen-code/qwen-code-core';
 
 const METRIC_COL_WIDTH = 28;
 const MODEL_COL_WIDTH = 22;
@@ -78,6 +82,12 @@ export const ModelStatsDisplay: React.FC = () => {
   const hasCached = activeModels.some(
     ([, metrics]) => metrics.tokens.cached > 0,
   );
+  const hasCost = activeModels.some(
+    ([, metrics]) => metrics.costUsd !== undefined,
+  );
+  const costByProvider = Object.entries(
+    getSessionCostByProvider(stats.metrics),
+  );
 
   return (
     <Box
@@ -192,6 +202,42 @@ export const ModelStatsDisplay: React.FC = () => {
         isSubtle
         values={getModelValues((m) => m.tokens.candidates.toLocaleString())}
       />
+
+      {hasCost && (
+        <>
+          <Box height={1} />
+
+          {/* Cost Section */}
+          <StatRow title="Cost" values={[]} isSection />
+          <StatRow
+            title="Provider"
+            values={getModelValues((m) => m.provider ?? '-')}
+          />
+          <StatRow
+            title="Estimated"
+            values={getModelValues((m) =>
+              m.costUsd !== undefined ? (
+                <Text color={Colors.AccentYellow}>{formatCost(m.costUsd)}</Text>
+              ) : (
+                'unknown price'
+              ),
+            )}
+          />
+
+          <Box marginTop={1}>
+            <Text>
+              Estimated session cost:{' '}
+              <Text color={Colors.AccentYellow}>
+                {formatCost(getSessionCostUsd(stats.metrics))}
+              </Text>
+              {costByProvider.length > 1 &&
+                ` (${costByProvider
+                  .map(([provider, cost]) => `${provider}: ${formatCost(cost)}`)
+                  .join(', ')})`}
+            </Text>
+          </Box>
+        </>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text, render, useInput } from 'ink';
+import { SessionSummary } from '@qwen-code/qwen-code-core';
+import { Colors } from '../colors.js';
+import {
+  RadioButtonSelect,
+  RadioSelectItem,
+} from './shared/RadioButtonSelect.js';
+
+const MAX_PREVIEW_LENGTH = 60;
+
+interface SessionPickerProps {
+  sessions: SessionSummary[];
+  onSelect: (sessionId: string | undefined) => void;
+}
+
+export function formatSessionLabel(session: SessionSummary): string {
+  const preview = session.firstUserMessage?.replace(/\s+/g, ' ').trim();
+  const truncated =
+    preview && preview.length > MAX_PREVIEW_LENGTH
+      ? `${preview.slice(0, MAX_PREVIEW_LENGTH - 3)}...`
+      : preview;
+  return [
+    new Date(session.lastUpdated).toLocaleString(),
+    `${session.messageCount} messages`,
+    truncated ?? session.sessionId,
+  ].join(' · ');
+}
+
+export function SessionPicker({
+  sessions,
+  onSelect,
+}: SessionPickerProps): React.JSX.Element {
+  const items: Array<RadioSelectItem<string>> = sessions.map((session) => ({
+    label: formatSessionLabel(session),
+    value: session.sessionId,
+  }));
+
+  useInput((_input, key) => {
+    if (key.escape) {
+      onSelect(undefined);
+    }
+  });
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={Colors.Gray}
+      flexDirection="column"
+      padding={1}
+      width="100%"
+    >
+      <Text bold>Resume a session</Text>
+      <Box marginTop={1}>
+        <RadioButtonSelect
+          items={items}
+          onSelect={onSelect}
+          isFocused={true}
+          showScrollArrows={true}
+        />
+      </Box>
+      <Box marginTop={1}>
+        <Text color={Colors.Gray}>
+          (Use Enter to resume, Esc to start a new session)
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Shows the session picker and resolves with the chosen session ID, or
+ * `undefined` if the user starts a new session instead.
+ */
+export function pickSession(
+  sessions: SessionSummary[],
+): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const instance = render(
+      <SessionPicker
+        sessions={sessions}
+        onSelect={(sessionId) => {
+          instance.unmount();
+          resolve(sessionId);
+        }}
+      />,
+    );
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import {
+  SubagentProgressDisplay,
+  SubagentToolCallDisplay,
+} from '@qwen-code/qwen-code-core';
+import { Colors } from '../../colors.js';
+
+// Only the most recent calls are listed while the subagent is running, so a
+// long investigation doesn't push the rest of the tool group off screen.
+const MAX_VISIBLE_TOOL_CALLS = 5;
+
+interface SubagentProgressMessageProps {
+  progress: SubagentProgressDisplay;
+  isCollapsed: boolean;
+  terminalWidth: number;
+}
+
+/**
+ * Renders the tool calls made by a subagent as a nested group under the
+ * parent tool call. The group collapses to a one-line summary once the
+ * subagent has finished.
+ */
+export const SubagentProgressMessage: React.FC<
+  SubagentProgressMessageProps
+> = ({ progress, isCollapsed, terminalWidth }) => {
+  const { toolCalls, terminateReason } = progress;
+  const hiddenCount = isCollapsed
+    ? toolCalls.length
+    : Math.max(0, toolCalls.length - MAX_VISIBLE_TOOL_CALLS);
+  const visibleCalls = toolCalls.slice(hiddenCount);
+
+  const summary = `${toolCalls.length} tool call${toolCalls.length === 1 ? '' : 's'}`;
+  return (
+    <Box flexDirection="column" width={terminalWidth}>
+      <Text color={Colors.Gray} wrap="truncate-end">
+        {isCollapsed ? '▸' : '▾'} {progress.subagentName} subagent · {summary}
+        {terminateReason ? ` · ${terminateReason}` : ''}
+      </Text>
+      {!isCollapsed && hiddenCount > 0 && (
+        <Box paddingLeft={2}>
+          <Text color={Colors.Gray}>... {hiddenCount} earlier</Text>
+        </Box>
+      )}
+      {visibleCalls.map((call) => (
+        <Box key={call.callId} paddingLeft={2}>
+          <SubagentToolCallStatus status={call.status} />
+          <Text wrap="truncate-end">
+            <Text bold>{call.name}</Text>{' '}
+            <Text color={Colors.Gray}>{call.description}</Text>
+          </Text>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+const SubagentToolCallStatus: React.FC<{
+  status: SubagentToolCallDisplay['status'];
+}> = ({ status }) => {
+  switch (status) {
+    case 'executing':
+      return <Text color={Colors.AccentYellow}>⊷ </Text>;
+    case 'success':
+      return <Text color={Colors.AccentGreen}>✔ </Text>;
+    case 'error':
+      return <Text color={Colors.AccentRed}>x </Text>;
+    default: {
+      const exhaustiveCheck: never = status;
+      return exhaustiveCheck;
+    }
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect } from 'react';
+import { Box, Text } from 'ink';
+import {
+  ShellExecutionService,
+  TerminalDisplay,
+} from '@qwen-code/qwen-code-core';
+import { MaxSizedBox } from '../shared/MaxSizedBox.js';
+
+interface TerminalOutputProps {
+  display: TerminalDisplay;
+  availableTerminalHeight?: number;
+  terminalWidth: number;
+}
+
+/**
+ * Renders the screen of a command running in a pseudo-terminal with its
+ * colors and styles.
+ */
+export const TerminalOutput: React.FC<TerminalOutputProps> = ({
+  display,
+  availableTerminalHeight,
+  terminalWidth,
+}) => {
+  const { pid, terminal } = display;
+
+  useEffect(() => {
+    // Let the command lay out its output for the width it is shown in.
+    ShellExecutionService.resizePty(pid, Math.max(terminalWidth, 1));
+  }, [pid, terminalWidth]);
+
+  return (
+    <MaxSizedBox maxHeight={availableTerminalHeight} maxWidth={terminalWidth}>
+      {terminal.map((line, lineIndex) => (
+        <Box key={lineIndex}>
+          <Text wrap="wrap">
+            {line.map((span, spanIndex) => (
+              <Text
+                key={spanIndex}
+                color={span.fg}
+                backgroundColor={span.bg}
+                bold={span.bold}
+                dimColor={span.dim}
+                italic={span.italic}
+                underline={span.underline}
+                inverse={span.inverse}
+                strikethrough={span.strikethrough}
+              >
+                {span.text}
+              </Text>
+            ))}
+          </Text>
+        </Box>
+      ))}
+    </MaxSizedBox>
+  );
+};
@@ -55,4 +55,27 @@ describe('ToolConfirmationMessage', () => {
       '- https://raw.githubusercontent.com/google/gemini-react/main/README.md',
     );
   });
+
+  it('should display the plan and the plan approval options', () => {
+    const confirmationDetails: ToolCallConfirmationDetails = {
+      type: 'plan',
+      title: 'Approve Plan',
+      plan: 'Add a retry helper.\n\n1. Write the helper\n2. Use it in the client',
+      onConfirm: vi.fn(),
+    };
+
+    const { lastFrame } = render(
+      <ToolConfirmationMessage
+        confirmationDetails={confirmationDetails}
+        availableTerminalHeight={30}
+        terminalWidth={80}
+      />,
+    );
+
+    expect(lastFrame()).toContain('Add a retry helper.');
+    expect(lastFrame()).toContain('2. Use it in the client');
+    expect(lastFrame()).toContain('Would you like to proceed with this plan?');
+    expect(lastFrame()).toContain('Yes, and auto-accept edits');
+    expect(lastFrame()).toContain('No, keep planning (esc)');
+  });
 });
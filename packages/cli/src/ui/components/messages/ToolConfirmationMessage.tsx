@@ -20,6 +20,7 @@ import {
   RadioSelectItem,
 } from '../shared/RadioButtonSelect.js';
 import { MaxSizedBox } from '../shared/MaxSizedBox.js';
+import { MarkdownDisplay } from '../../utils/MarkdownDisplay.js';
 
 export interface ToolConfirmationMessageProps {
   confirmationDetails: ToolCallConfirmationDetails;
@@ -229,6 +230,33 @@ export const ToolConfirmationMessage: React.FC<
         )}
       </Box>
     );
+  } else if (confirmationDetails.type === 'plan') {
+    question = `Would you like to proceed with this plan?`;
+    options.push(
+      {
+        label: 'Yes, and auto-accept edits',
+        value: ToolConfirmationOutcome.ProceedAlways,
+      },
+      {
+        label: 'Yes, and manually approve edits',
+        value: ToolConfirmationOutcome.ProceedOnce,
+      },
+      {
+        label: 'No, keep planning (esc)',
+        value: ToolConfirmationOutcome.Cancel,
+      },
+    );
+
+    bodyContent = (
+      <Box flexDirection="column" paddingX={1} marginLeft={1}>
+        <MarkdownDisplay
+          text={confirmationDetails.plan}
+          isPending={false}
+          availableTerminalHeight={availableBodyContentHeight()}
+          terminalWidth={Math.max(childWidth - 4, 1)}
+        />
+      </Box>
+    );
   } else {
     // mcp tool confirmation
     const mcpProps = confirmationDetails as ToolMcpConfirmationDetails;
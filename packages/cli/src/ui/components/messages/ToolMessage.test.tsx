@@ -10,6 +10,7 @@ import { ToolMessage, ToolMessageProps } from './ToolMessage.js';
 import { StreamingState, ToolCallStatus } from '../../types.js';
 import { Text } from 'ink';
 import { StreamingContext } from '../../contexts/StreamingContext.js';
+import { SubagentProgressDisplay } from '@qwen-code/qwen-code-core';
 
 // Mock child components or utilities if they are complex or have side effects
 vi.mock('../GeminiRespondingSpinner.js', () => ({
@@ -163,6 +164,76 @@ describe('<ToolMessage />', () => {
     expect(lastFrame()).toMatch(/MockDiff:--- a\/file\.txt/);
   });
 
+  it('renders the screen of a command running in a pseudo-terminal', () => {
+    const { lastFrame } = renderWithContext(
+      <ToolMessage
+        {...baseProps}
+        status={ToolCallStatus.Executing}
+        resultDisplay={{
+          pid: 4321,
+          terminal: [
+            [{ text: 'Continue? ' }, { text: '[y/N]', bold: true }],
+            [{ text: 'done', fg: 'green' }],
+          ],
+        }}
+      />,
+      StreamingState.Responding,
+    );
+    const output = lastFrame();
+    expect(output).toContain('Continue? [y/N]');
+    expect(output).toContain('done');
+    expect(output).not.toContain('MockMarkdown');
+  });
+
+  describe('subagent progress', () => {
+    const progress: SubagentProgressDisplay = {
+      subagentName: 'delegate',
+      task: 'Find callers',
+      toolCalls: [
+        {
+          callId: 'sub-1',
+          name: 'glob',
+          description: "'**/*.ts'",
+          status: 'success',
+        },
+        {
+          callId: 'sub-2',
+          name: 'read_file',
+          description: 'src/foo.ts',
+          status: 'executing',
+        },
+      ],
+    };
+
+    it('lists the nested tool calls while the subagent is running', () => {
+      const { lastFrame } = renderWithContext(
+        <ToolMessage
+          {...baseProps}
+          status={ToolCallStatus.Executing}
+          resultDisplay={progress}
+        />,
+        StreamingState.Idle,
+      );
+      const output = lastFrame();
+      expect(output).toContain('▾ delegate subagent · 2 tool calls');
+      expect(output).toContain('glob');
+      expect(output).toContain('src/foo.ts');
+    });
+
+    it('collapses to a summary once the subagent has finished', () => {
+      const { lastFrame } = renderWithContext(
+        <ToolMessage
+          {...baseProps}
+          resultDisplay={{ ...progress, terminateReason: 'GOAL' }}
+        />,
+        StreamingState.Idle,
+      );
+      const output = lastFrame();
+      expect(output).toContain('▸ delegate subagent · 2 tool calls · GOAL');
+      expect(output).not.toContain('src/foo.ts');
+    });
+  });
+
   it('renders emphasis correctly', () => {
     const { lastFrame: highEmphasisFrame } = renderWithContext(
       <ToolMessage {...baseProps} emphasis="high" />,
@@ -8,6 +8,8 @@ import React from 'react';
 import { Box, Text } from 'ink';
 import { IndividualToolCallDisplay, ToolCallStatus } from '../../types.js';
 import { DiffRenderer } from './DiffRenderer.js';
+import { SubagentProgressMessage } from './SubagentProgressMessage.js';
+import { TerminalOutput } from './TerminalOutput.js';
 import { Colors } from '../../colors.js';
 import { MarkdownDisplay } from '../../utils/MarkdownDisplay.js';
 import { GeminiRespondingSpinner } from '../GeminiRespondingSpinner.js';
@@ -94,14 +96,31 @@ export const ToolMessage: React.FC<ToolMessageProps> = ({
                 </Box>
               </MaxSizedBox>
             )}
-            {typeof resultDisplay !== 'string' && (
-              <DiffRenderer
-                diffContent={resultDisplay.fileDiff}
-                filename={resultDisplay.fileName}
-                availableTerminalHeight={availableHeight}
-                terminalWidth={childWidth}
-              />
-            )}
+            {typeof resultDisplay !== 'string' &&
+              'toolCalls' in resultDisplay && (
+                <SubagentProgressMessage
+                  progress={resultDisplay}
+                  isCollapsed={status !== ToolCallStatus.Executing}
+                  terminalWidth={childWidth}
+                />
+              )}
+            {typeof resultDisplay !== 'string' &&
+              'fileDiff' in resultDisplay && (
+                <DiffRenderer
+                  diffContent={resultDisplay.fileDiff}
+                  filename={resultDisplay.fileName}
+                  availableTerminalHeight={availableHeight}
+                  terminalWidth={childWidth}
+                />
+              )}
+            {typeof resultDisplay !== 'string' &&
+              'terminal' in resultDisplay && (
+                <TerminalOutput
+                  display={resultDisplay}
+                  availableTerminalHeight={availableHeight}
+                  terminalWidth={childWidth}
+                />
+              )}
           </Box>
         </Box>
       )}
@@ -11,6 +11,8 @@ import {
   FileDiscoveryService,
   GlobTool,
   ReadManyFilesTool,
+  ReadMcpResourceTool,
+  ResourceRegistry,
   ToolRegistry,
 } from '@qwen-code/qwen-code-core';
 import * as os from 'os';
@@ -1082,4 +1084,117 @@ describe('handleAtCommand', () => {
       });
     });
   });
+
+  describe('MCP resources', () => {
+    let readResource: Mock;
+
+    beforeEach(async () => {
+      readResource = vi.fn().mockResolvedValue({
+        contents: [{ uri: 'docs://readme', text: '# Readme' }],
+      });
+      const resourceRegistry = new ResourceRegistry();
+      resourceRegistry.setResourcesForServer(
+        'docs',
+        [
+          {
+            uri: 'docs://readme',
+            name: 'readme',
+            serverName: 'docs',
+            read: readResource,
+          },
+        ],
+        [],
+      );
+      Object.assign(mockConfig, {
+        getResourceRegistry: () => resourceRegistry,
+      });
+      const registry = await mockConfig.getToolRegistry();
+      registry.registerTool(new ReadMcpResourceTool(mockConfig));
+    });
+
+    it('should read a referenced resource of an MCP server', async () => {
+      const query = 'Summarize @docs:docs://readme please.';
+
+      const result = await handleAtCommand({
+        query,
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 500,
+        signal: abortController.signal,
+      });
+
+      expect(result).toEqual({
+        processedQuery: [
+          { text: query },
+          { text: '\n--- Content from referenced MCP resources ---' },
+          { text: '\nContent from @docs:docs://readme:\n' },
+          { text: '--- docs://readme ---\n\n# Readme\n\n' },
+          { text: '\n--- End of content ---' },
+        ],
+        shouldProceed: true,
+      });
+      expect(mockAddItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'tool_group',
+          tools: [
+            expect.objectContaining({
+              name: 'ReadMcpResource',
+              status: ToolCallStatus.Success,
+            }),
+          ],
+        }),
+        500,
+      );
+    });
+
+    it('should read resources and files together', async () => {
+      const filePath = await createTestFile(
+        path.join(testRootDir, 'notes.txt'),
+        'Notes',
+      );
+      const query = `Compare @${filePath} with @docs:docs://readme`;
+
+      const result = await handleAtCommand({
+        query,
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 501,
+        signal: abortController.signal,
+      });
+
+      expect(result.processedQuery).toEqual([
+        { text: query },
+        { text: '\n--- Content from referenced files ---' },
+        { text: `\nContent from @${filePath}:\n` },
+        { text: 'Notes' },
+        { text: '\n--- End of content ---' },
+        { text: '\n--- Content from referenced MCP resources ---' },
+        { text: '\nContent from @docs:docs://readme:\n' },
+        { text: '--- docs://readme ---\n\n# Readme\n\n' },
+        { text: '\n--- End of content ---' },
+      ]);
+    });
+
+    it('should not proceed if a resource cannot be read', async () => {
+      const result = await handleAtCommand({
+        query: '@docs:docs://missing',
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 502,
+        signal: abortController.signal,
+      });
+
+      expect(result).toEqual({ processedQuery: null, shouldProceed: false });
+      expect(mockAddItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'tool_group',
+          tools: [expect.objectContaining({ status: ToolCallStatus.Error })],
+        }),
+        502,
+      );
+    });
+  });
 });
@@ -12,6 +12,8 @@ import {
   Config,
   getErrorMessage,
   isNodeError,
+  ReadMcpResourceTool,
+  ResourceRegistry,
   unescapePath,
 } from '@qwen-code/qwen-code-core';
 import {
@@ -40,6 +42,101 @@ interface AtCommandPart {
   content: string;
 }
 
+interface McpResourceReference {
+  serverName: string;
+  uri: string;
+}
+
+/**
+ * Parses an '@<server>:<uri>' reference to a resource of an MCP server.
+ * Returns undefined for paths and for servers without resources.
+ */
+function parseMcpResourceReference(
+  pathName: string,
+  resourceRegistry: ResourceRegistry,
+): McpResourceReference | undefined {
+  const separatorIndex = pathName.indexOf(':');
+  if (separatorIndex <= 0) {
+    return undefined;
+  }
+  const serverName = pathName.substring(0, separatorIndex);
+  const uri = pathName.substring(separatorIndex + 1);
+  if (!uri || !resourceRegistry.hasServer(serverName)) {
+    return undefined;
+  }
+  return { serverName, uri };
+}
+
+/**
+ * Reads the referenced MCP resources with the 'read_mcp_resource' tool and
+ * adds the reads to the history. Returns the query parts with the contents of
+ * the resources, or null if a resource could not be read.
+ */
+async function readMcpResources(
+  references: McpResourceReference[],
+  readMcpResourceTool: ReadMcpResourceTool,
+  addItem: UseHistoryManagerReturn['addItem'],
+  userMessageTimestamp: number,
+  signal: AbortSignal,
+): Promise<PartUnion[] | null> {
+  const parts: PartUnion[] = [
+    { text: '\n--- Content from referenced MCP resources ---' },
+  ];
+  const toolCallDisplays: IndividualToolCallDisplay[] = [];
+  let failed = false;
+
+  for (const [index, { serverName, uri }] of references.entries()) {
+    const callId = `client-read-resource-${userMessageTimestamp}-${index}`;
+    try {
+      const invocation = readMcpResourceTool.build({
+        server_name: serverName,
+        uri,
+      });
+      const result = await invocation.execute(signal);
+      toolCallDisplays.push({
+        callId,
+        name: readMcpResourceTool.displayName,
+        description: invocation.getDescription(),
+        status: result.error ? ToolCallStatus.Error : ToolCallStatus.Success,
+        resultDisplay: result.returnDisplay,
+        confirmationDetails: undefined,
+      });
+      if (result.error) {
+        failed = true;
+        break;
+      }
+      parts.push({ text: `\nContent from @${serverName}:${uri}:\n` });
+      const content = Array.isArray(result.llmContent)
+        ? result.llmContent
+        : [result.llmContent];
+      for (const part of content) {
+        parts.push(typeof part === 'string' ? { text: part } : part);
+      }
+    } catch (error: unknown) {
+      toolCallDisplays.push({
+        callId,
+        name: readMcpResourceTool.displayName,
+        description: `${serverName}:${uri}`,
+        status: ToolCallStatus.Error,
+        resultDisplay: `Error reading MCP resource: ${getErrorMessage(error)}`,
+        confirmationDetails: undefined,
+      });
+      failed = true;
+      break;
+    }
+  }
+
+  addItem(
+    { type: 'tool_group', tools: toolCallDisplays } as Omit<HistoryItem, 'id'>,
+    userMessageTimestamp,
+  );
+  if (failed) {
+    return null;
+  }
+  parts.push({ text: '\n--- End of content ---' });
+  return parts;
+}
+
 /**
  * Parses a query string to find all '@<path>' commands and text segments.
  * Handles \ escaped spaces within paths.
@@ -118,7 +215,9 @@ function parseAllAtCommands(query: string): AtCommandPart[] {
  * Processes user input potentially containing one or more '@<path>' commands.
  * If found, it attempts to read the specified files/directories using the
  * 'read_many_files' tool. The user query is modified to include resolved paths,
- * and the content of the files is appended in a structured block.
+ * and the content of the files is appended in a structured block. References
+ * to MCP resources, '@<server>:<uri>', are read with the 'read_mcp_resource'
+ * tool.
  *
  * @returns An object indicating whether the main hook should proceed with an
  *          LLM call and the processed query parts (including file content).
@@ -151,6 +250,7 @@ export async function handleAtCommand({
   const pathSpecsToRead: string[] = [];
   const atPathToResolvedSpecMap = new Map<string, string>();
   const contentLabelsForDisplay: string[] = [];
+  const resourceReferences: McpResourceReference[] = [];
   const ignoredByReason: Record<string, string[]> = {
     git: [],
     gemini: [],
@@ -160,6 +260,9 @@ export async function handleAtCommand({
   const toolRegistry = await config.getToolRegistry();
   const readManyFilesTool = toolRegistry.getTool('read_many_files');
   const globTool = toolRegistry.getTool('glob');
+  const readMcpResourceTool = toolRegistry.getTool(ReadMcpResourceTool.Name) as
+    | ReadMcpResourceTool
+    | undefined;
 
   if (!readManyFilesTool) {
     addItem(
@@ -195,6 +298,17 @@ export async function handleAtCommand({
       return { processedQuery: null, shouldProceed: false };
     }
 
+    const resourceReference = readMcpResourceTool
+      ? parseMcpResourceReference(pathName, config.getResourceRegistry())
+      : undefined;
+    if (resourceReference) {
+      onDebugMessage(
+        `Path ${pathName} refers to a resource of MCP server ${resourceReference.serverName}.`,
+      );
+      resourceReferences.push(resourceReference);
+      continue;
+    }
+
     // Check if path should be ignored based on filtering options
 
     const workspaceContext = config.getWorkspaceContext();
@@ -383,8 +497,29 @@ export async function handleAtCommand({
     onDebugMessage(message);
   }
 
+  const resourceQueryParts: PartUnion[] = [];
+  if (readMcpResourceTool && resourceReferences.length > 0) {
+    const parts = await readMcpResources(
+      resourceReferences,
+      readMcpResourceTool,
+      addItem,
+      userMessageTimestamp,
+      signal,
+    );
+    if (!parts) {
+      return { processedQuery: null, shouldProceed: false };
+    }
+    resourceQueryParts.push(...parts);
+  }
+
   // Fallback for lone "@" or completely invalid @-commands resulting in empty initialQueryText
   if (pathSpecsToRead.length === 0) {
+    if (resourceQueryParts.length > 0) {
+      return {
+        processedQuery: [{ text: initialQueryText }, ...resourceQueryParts],
+        shouldProceed: true,
+      };
+    }
     onDebugMessage('No valid file paths found in @ commands to read.');
     if (initialQueryText === '@' && query.trim() === '@') {
       // If the only thing was a lone @, pass original query (which might have spaces)
@@ -464,6 +599,7 @@ export async function handleAtCommand({
       >,
       userMessageTimestamp,
     );
+    processedQueryParts.push(...resourceQueryParts);
     return { processedQuery: processedQueryParts, shouldProceed: true };
   } catch (error: unknown) {
     toolCallDisplay = {
@@ -27,7 +27,17 @@ vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
   };
 });
 vi.mock('fs');
-vi.mock('os');
+// Core reads the home directory while it is imported.
+vi.mock('os', async (importOriginal) => {
+  const actualOs = await importOriginal<typeof import('os')>();
+  const mockOs = {
+    ...actualOs,
+    homedir: vi.fn(() => '/mock/home/user'),
+    platform: vi.fn(),
+    tmpdir: vi.fn(),
+  };
+  return { ...mockOs, default: mockOs };
+});
 vi.mock('crypto');
 vi.mock('../utils/textUtils.js');
 
@@ -65,7 +75,10 @@ describe('useShellCommandProcessor', () => {
     setPendingHistoryItemMock = vi.fn();
     onExecMock = vi.fn();
     onDebugMessageMock = vi.fn();
-    mockConfig = { getTargetDir: () => '/test/dir' } as Config;
+    mockConfig = {
+      getTargetDir: () => '/test/dir',
+      getInteractiveShell: () => true,
+    } as unknown as Config;
     mockGeminiClient = { addHistory: vi.fn() } as unknown as GeminiClient;
 
     vi.mocked(os.platform).mockReturnValue('linux');
@@ -78,12 +91,12 @@ describe('useShellCommandProcessor', () => {
 
     mockShellExecutionService.mockImplementation((_cmd, _cwd, callback) => {
       mockShellOutputCallback = callback;
-      return {
+      return Promise.resolve({
         pid: 12345,
         result: new Promise((resolve) => {
           resolveExecutionPromise = resolve;
         }),
-      };
+      });
     });
   });
 
@@ -141,6 +154,7 @@ describe('useShellCommandProcessor', () => {
       '/test/dir',
       expect.any(Function),
       expect.any(Object),
+      { usePty: true },
     );
     expect(onExecMock).toHaveBeenCalledWith(expect.any(Promise));
   });
@@ -252,6 +266,33 @@ describe('useShellCommandProcessor', () => {
       );
     });
 
+    it('should show the screen of a pseudo-terminal without throttling', async () => {
+      const { result } = renderProcessorHook();
+      act(() => {
+        result.current.handleShellCommand(
+          'npm init',
+          new AbortController().signal,
+        );
+      });
+      await act(async () => {});
+
+      const lines = [[{ text: 'package name: ', bold: true }]];
+      act(() => {
+        mockShellOutputCallback({ type: 'terminal', lines });
+      });
+
+      expect(setPendingHistoryItemMock).toHaveBeenCalledTimes(2);
+      expect(setPendingHistoryItemMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          tools: [
+            expect.objectContaining({
+              resultDisplay: { pid: 12345, terminal: lines },
+            }),
+          ],
+        }),
+      );
+    });
+
     it('should show binary progress messages correctly', async () => {
       const { result } = renderProcessorHook();
       act(() => {
@@ -319,6 +360,7 @@ describe('useShellCommandProcessor', () => {
       '/test/dir',
       expect.any(Function),
       expect.any(Object),
+      { usePty: true },
     );
   });
 
@@ -376,7 +418,7 @@ describe('useShellCommandProcessor', () => {
   it('should handle promise rejection and show an error', async () => {
     const { result } = renderProcessorHook();
     const testError = new Error('Unexpected failure');
-    mockShellExecutionService.mockImplementation(() => ({
+    mockShellExecutionService.mockImplementation(async () => ({
       pid: 12345,
       result: Promise.reject(testError),
     }));
@@ -16,6 +16,8 @@ import {
   isBinary,
   ShellExecutionResult,
   ShellExecutionService,
+  TerminalLine,
+  ToolResultDisplay,
 } from '@qwen-code/qwen-code-core';
 import { type PartListUnion } from '@google/genai';
 import { UseHistoryManagerReturn } from './useHistoryManager.js';
@@ -107,6 +109,7 @@ export const useShellCommandProcessor = (
         let cumulativeStderr = '';
         let isBinaryStream = false;
         let binaryBytesReceived = 0;
+        let terminalLines: TerminalLine[] | undefined;
 
         const initialToolDisplay: IndividualToolCallDisplay = {
           callId,
@@ -134,7 +137,7 @@ export const useShellCommandProcessor = (
         onDebugMessage(`Executing in ${targetDir}: ${commandToExecute}`);
 
         try {
-          const { pid, result } = ShellExecutionService.execute(
+          ShellExecutionService.execute(
             commandToExecute,
             targetDir,
             (event) => {
@@ -155,14 +158,22 @@ export const useShellCommandProcessor = (
                   isBinaryStream = true;
                   binaryBytesReceived = event.bytesReceived;
                   break;
+                case 'terminal':
+                  terminalLines = event.lines;
+                  break;
                 default: {
                   throw new Error('An unhandled ShellOutputEvent was found.');
                 }
               }
 
               // Compute the display string based on the *current* state.
-              let currentDisplayOutput: string;
-              if (isBinaryStream) {
+              let currentDisplayOutput: ToolResultDisplay;
+              if (terminalLines) {
+                currentDisplayOutput = {
+                  pid: executionPid!,
+                  terminal: terminalLines,
+                };
+              } else if (isBinaryStream) {
                 if (binaryBytesReceived > 0) {
                   currentDisplayOutput = `[Receiving binary output... ${formatMemoryUsage(
                     binaryBytesReceived,
@@ -177,8 +188,13 @@ export const useShellCommandProcessor = (
                   (cumulativeStderr ? `\n${cumulativeStderr}` : '');
               }
 
-              // Throttle pending UI updates to avoid excessive re-renders.
-              if (Date.now() - lastUpdateTime > OUTPUT_UPDATE_INTERVAL_MS) {
+              // Throttle pending UI updates to avoid excessive re-renders. The
+              // service already throttles terminal updates, and typed input
+              // should show up right away.
+              if (
+                terminalLines ||
+                Date.now() - lastUpdateTime > OUTPUT_UPDATE_INTERVAL_MS
+              ) {
                 setPendingHistoryItem({
                   type: 'tool_group',
                   tools: [
@@ -192,11 +208,16 @@ export const useShellCommandProcessor = (
               }
             },
             abortSignal,
-          );
-
-          executionPid = pid;
-
-          result
+            {
+              // Commands in the background would be hung up with the terminal.
+              usePty:
+                config.getInteractiveShell() && !rawQuery.trim().endsWith('&'),
+            },
+          )
+            .then(({ pid, result }) => {
+              executionPid = pid;
+              return result;
+            })
             .then((result: ShellExecutionResult) => {
               setPendingHistoryItem(null);
 
@@ -10,10 +10,12 @@ import process from 'node:process';
 import { UseHistoryManagerReturn } from './useHistoryManager.js';
 import { useStateAndRef } from './useStateAndRef.js';
 import {
+  addMCPServerUpdateListener,
   Config,
   GitService,
   Logger,
   logSlashCommand,
+  removeMCPServerUpdateListener,
   SlashCommandEvent,
   ToolConfirmationOutcome,
 } from '@qwen-code/qwen-code-core';
@@ -54,6 +56,7 @@ export const useSlashCommandProcessor = (
   toggleVimEnabled: () => Promise<boolean>,
   setIsProcessing: (isProcessing: boolean) => void,
   setGeminiMdFileCount: (count: number) => void,
+  history: HistoryItem[] = [],
 ) => {
   const session = useSessionStats();
   const [commands, setCommands] = useState<readonly SlashCommand[]>([]);
@@ -159,6 +162,7 @@ export const useSlashCommandProcessor = (
         logger,
       },
       ui: {
+        history,
         addItem,
         clear: () => {
           clearItems();
@@ -185,6 +189,7 @@ export const useSlashCommandProcessor = (
       gitService,
       logger,
       loadHistory,
+      history,
       addItem,
       clearItems,
       refreshStatic,
@@ -202,6 +207,14 @@ export const useSlashCommandProcessor = (
 
   const ideMode = config?.getIdeMode();
 
+  // Reload the commands when an MCP server changes its prompts
+  const [mcpUpdateCount, setMcpUpdateCount] = useState(0);
+  useEffect(() => {
+    const listener = () => setMcpUpdateCount((count) => count + 1);
+    addMCPServerUpdateListener(listener);
+    return () => removeMCPServerUpdateListener(listener);
+  }, []);
+
   useEffect(() => {
     const controller = new AbortController();
     const load = async () => {
@@ -222,7 +235,7 @@ export const useSlashCommandProcessor = (
     return () => {
       controller.abort();
     };
-  }, [config, ideMode]);
+  }, [config, ideMode, mcpUpdateCount]);
 
   const handleSlashCommand = useCallback(
     async (
@@ -9,7 +9,11 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { renderHook, waitFor, act } from '@testing-library/react';
 import { useAtCompletion } from './useAtCompletion.js';
-import { Config, FileSearch } from '@qwen-code/qwen-code-core';
+import {
+  Config,
+  FileSearch,
+  ResourceRegistry,
+} from '@qwen-code/qwen-code-core';
 import {
   createTmpDir,
   cleanupTmpDir,
@@ -43,14 +47,17 @@ function useTestHarnessForAtCompletion(
 describe('useAtCompletion', () => {
   let testRootDir: string;
   let mockConfig: Config;
+  let resourceRegistry: ResourceRegistry;
 
   beforeEach(() => {
+    resourceRegistry = new ResourceRegistry();
     mockConfig = {
       getFileFilteringOptions: vi.fn(() => ({
         respectGitIgnore: true,
         respectGeminiIgnore: true,
       })),
       getEnableRecursiveFileSearch: () => true,
+      getResourceRegistry: () => resourceRegistry,
     } as unknown as Config;
     vi.clearAllMocks();
   });
@@ -141,6 +148,60 @@ describe('useAtCompletion', () => {
     });
   });
 
+  describe('MCP Resources', () => {
+    beforeEach(() => {
+      resourceRegistry.setResourcesForServer(
+        'docs',
+        [
+          {
+            uri: 'docs://readme',
+            name: 'readme',
+            serverName: 'docs',
+            read: vi.fn(),
+          },
+        ],
+        [],
+      );
+    });
+
+    it('should suggest matching resources first when the pattern has a colon', async () => {
+      testRootDir = await createTmpDir({ 'docs.txt': '' });
+
+      const { result } = renderHook(() =>
+        useTestHarnessForAtCompletion(true, 'docs:', mockConfig, testRootDir),
+      );
+
+      await waitFor(() => {
+        expect(result.current.suggestions.length).toBeGreaterThan(0);
+      });
+
+      expect(result.current.suggestions).toEqual([
+        {
+          label: 'docs:docs://readme',
+          value: 'docs:docs://readme',
+          description: 'readme',
+        },
+      ]);
+    });
+
+    it('should suggest resources after files', async () => {
+      testRootDir = await createTmpDir({ 'readme.md': '' });
+
+      const { result } = renderHook(() =>
+        useTestHarnessForAtCompletion(true, 'readme', mockConfig, testRootDir),
+      );
+
+      await waitFor(() => {
+        expect(result.current.suggestions.length).toBeGreaterThan(0);
+      });
+
+      expect(result.current.suggestions.map((s) => s.value)).toEqual([
+        'readme.md',
+        'docs:docs://readme',
+      ]);
+    });
+  });
+
   describe('UI State and Loading Behavior', () => {
     it('should be in a loading state during initial file system crawl', async () => {
       testRootDir = await createTmpDir({});
@@ -448,6 +509,7 @@ describe('useAtCompletion', () => {
           respectGitIgnore: true,
           respectGeminiIgnore: true,
         })),
+        getResourceRegistry: () => resourceRegistry,
       } as unknown as Config;
 
       const { result } = renderHook(() =>
@@ -89,6 +89,32 @@ function atCompletionReducer(
   }
 }
 
+/**
+ * Suggests the resources of MCP servers, as '<server>:<uri>', that contain
+ * the pattern.
+ */
+function searchMcpResources(
+  config: Config | undefined,
+  pattern: string,
+): Suggestion[] {
+  const lowerCasePattern = pattern.toLowerCase();
+  const resources = config?.getResourceRegistry()?.getAllResources() ?? [];
+  return resources
+    .map((resource) => ({
+      reference: `${resource.serverName}:${resource.uri}`,
+      resource,
+    }))
+    .filter(({ reference }) =>
+      reference.toLowerCase().includes(lowerCasePattern),
+    )
+    .slice(0, MAX_SUGGESTIONS_TO_SHOW)
+    .map(({ reference, resource }) => ({
+      label: reference,
+      value: escapePath(reference),
+      description: resource.name,
+    }));
+}
+
 export interface UseAtCompletionProps {
   enabled: boolean;
   pattern: string;
@@ -210,10 +236,15 @@ export function useAtCompletion(props: UseAtCompletionProps): void {
           return;
         }
 
-        const suggestions = results.map((p) => ({
+        const fileSuggestions = results.map((p) => ({
           label: p,
           value: escapePath(p),
         }));
+        const resourceSuggestions = searchMcpResources(config, state.pattern);
+        // A colon in the pattern most likely starts the URI of a resource
+        const suggestions = state.pattern.includes(':')
+          ? [...resourceSuggestions, ...fileSuggestions]
+          : [...fileSuggestions, ...resourceSuggestions];
         dispatch({ type: 'SEARCH_SUCCESS', payload: suggestions });
       } catch (error) {
         if (!(error instanceof Error && error.name === 'AbortError')) {
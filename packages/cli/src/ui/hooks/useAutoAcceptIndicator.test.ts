@@ -202,6 +202,14 @@ describe('useAutoAcceptIndicator', () => {
     );
     expect(result.current).toBe(ApprovalMode.AUTO_EDIT);
 
+    act(() => {
+      capturedUseInputHandler('', { tab: true, shift: true } as InkKey);
+    });
+    expect(mockConfigInstance.setApprovalMode).toHaveBeenCalledWith(
+      ApprovalMode.PLAN,
+    );
+    expect(result.current).toBe(ApprovalMode.PLAN);
+
     act(() => {
       capturedUseInputHandler('', { tab: true, shift: true } as InkKey);
     });
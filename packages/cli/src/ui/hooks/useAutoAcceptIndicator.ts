@@ -32,10 +32,18 @@ export function useAutoAcceptIndicator({
           ? ApprovalMode.DEFAULT
           : ApprovalMode.YOLO;
     } else if (key.tab && key.shift) {
-      nextApprovalMode =
-        config.getApprovalMode() === ApprovalMode.AUTO_EDIT
-          ? ApprovalMode.DEFAULT
-          : ApprovalMode.AUTO_EDIT;
+      // Cycle DEFAULT -> AUTO_EDIT -> PLAN -> DEFAULT. YOLO goes to AUTO_EDIT.
+      switch (config.getApprovalMode()) {
+        case ApprovalMode.AUTO_EDIT:
+          nextApprovalMode = ApprovalMode.PLAN;
+          break;
+        case ApprovalMode.PLAN:
+          nextApprovalMode = ApprovalMode.DEFAULT;
+          break;
+        default:
+          nextApprovalMode = ApprovalMode.AUTO_EDIT;
+          break;
+      }
     }
 
     if (nextApprovalMode) {
@@ -45,6 +45,8 @@ const MockedGeminiClientClass = vi.hoisted(() =>
     this.startChat = mockStartChat;
     this.sendMessageStream = mockSendMessageStream;
     this.addHistory = vi.fn();
+    this.isInitialized = vi.fn().mockReturnValue(true);
+    this.getHistory = vi.fn().mockReturnValue([]);
   }),
 );
 
@@ -108,9 +110,11 @@ vi.mock('./useStateAndRef.js', () => ({
   }),
 }));
 
+const mockSaveSessionHistory = vi.hoisted(() => vi.fn());
 vi.mock('./useLogger.js', () => ({
   useLogger: vi.fn().mockReturnValue({
     logMessage: vi.fn().mockResolvedValue(undefined),
+    saveSessionHistory: mockSaveSessionHistory,
   }),
 }));
 
@@ -2071,4 +2075,29 @@ describe('useGeminiStream', () => {
       expect(userMessages[0][0].text).toBe('Query 1');
     });
   });
+
+  describe('Session History', () => {
+    it('should save the session history after each turn', async () => {
+      const sessionHistory = [
+        { role: 'user', parts: [{ text: 'Hello' }] },
+        { role: 'model', parts: [{ text: 'Hi there' }] },
+      ];
+      const client = new MockedGeminiClientClass(mockConfig);
+      client.getHistory.mockReturnValue(sessionHistory);
+      mockSendMessageStream.mockReturnValue(
+        (async function* () {
+          yield { type: ServerGeminiEventType.Content, value: 'Hi there' };
+          yield { type: ServerGeminiEventType.Finished, value: 'STOP' };
+        })(),
+      );
+
+      const { result } = renderTestHook([], client);
+
+      await act(async () => {
+        await result.current.submitQuery('Hello');
+      });
+
+      expect(mockSaveSessionHistory).toHaveBeenCalledWith(sessionHistory);
+    });
+  });
 });
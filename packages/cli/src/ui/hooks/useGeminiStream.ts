@@ -95,6 +95,7 @@ export const useGeminiStream = (
   setModelSwitchedFromQuotaError: React.Dispatch<React.SetStateAction<boolean>>,
   onEditorClose: () => void,
   onCancelSubmit: () => void,
+  shellFocused = false,
 ) => {
   const [initError, setInitError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -106,7 +107,7 @@ export const useGeminiStream = (
     useStateAndRef<HistoryItemWithoutId | null>(null);
   const processedMemoryToolsRef = useRef<Set<string>>(new Set());
   const { startNewPrompt, getPromptCount } = useSessionStats();
-  const logger = useLogger();
+  const logger = useLogger(config.getSessionId());
   const gitService = useMemo(() => {
     if (!config.getProjectRoot()) {
       return;
@@ -215,11 +216,15 @@ export const useGeminiStream = (
     pendingHistoryItemRef,
   ]);
 
-  useInput((_input, key) => {
-    if (key.escape) {
-      cancelOngoingRequest();
-    }
-  });
+  useInput(
+    (_input, key) => {
+      if (key.escape) {
+        cancelOngoingRequest();
+      }
+    },
+    // A focused shell receives the escape key itself.
+    { isActive: !shellFocused },
+  );
 
   const prepareQueryForGemini = useCallback(
     async (
@@ -548,6 +553,23 @@ export const useGeminiStream = (
     [addItem],
   );
 
+  const handleSessionBudgetExceededEvent = useCallback(
+    (value: { currentCostUsd: number; budgetUsd: number; message: string }) =>
+      addItem(
+        {
+          type: 'error',
+          text:
+            `🚫 Session budget exceeded: $${value.currentCostUsd.toFixed(2)} spent of the $${value.budgetUsd.toFixed(2)} budget.\n\n` +
+            `💡 Solutions:\n` +
+            `   • Start a new session: Restart the CLI\n` +
+            `   • Increase the budget: Set "sessionBudgetUsd" (e.g., 10) in your settings.json\n` +
+            `   • Check the spend per model: Use /stats model`,
+        },
+        Date.now(),
+      ),
+    [addItem],
+  );
+
   const handleLoopDetectedEvent = useCallback(() => {
     addItem(
       {
@@ -592,6 +614,7 @@ export const useGeminiStream = (
             break;
           case ServerGeminiEventType.ToolCallConfirmation:
           case ServerGeminiEventType.ToolCallResponse:
+          case ServerGeminiEventType.UsageMetadata:
             // do nothing
             break;
           case ServerGeminiEventType.MaxSessionTurns:
@@ -600,6 +623,9 @@ export const useGeminiStream = (
           case ServerGeminiEventType.SessionTokenLimitExceeded:
             handleSessionTokenLimitExceededEvent(event.value);
             break;
+          case ServerGeminiEventType.SessionBudgetExceeded:
+            handleSessionBudgetExceededEvent(event.value);
+            break;
           case ServerGeminiEventType.Finished:
             handleFinishedEvent(
               event as ServerGeminiFinishedEvent,
@@ -632,6 +658,7 @@ export const useGeminiStream = (
       handleFinishedEvent,
       handleMaxSessionTurnsEvent,
       handleSessionTokenLimitExceededEvent,
+      handleSessionBudgetExceededEvent,
     ],
   );
 
@@ -738,6 +765,11 @@ export const useGeminiStream = (
       } finally {
         setIsResponding(false);
         isSubmittingQueryRef.current = false;
+        // Save after every turn so that a closed terminal never loses the
+        // conversation.
+        if (logger && geminiClient.isInitialized()) {
+          await logger.saveSessionHistory(geminiClient.getHistory());
+        }
       }
     },
     [
@@ -755,6 +787,7 @@ export const useGeminiStream = (
       startNewPrompt,
       getPromptCount,
       handleLoopDetectedEvent,
+      logger,
     ],
   );
 
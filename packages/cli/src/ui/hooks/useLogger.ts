@@ -5,12 +5,13 @@
  */
 
 import { useState, useEffect } from 'react';
-import { sessionId, Logger } from '@qwen-code/qwen-code-core';
+import { Logger } from '@qwen-code/qwen-code-core';
 
 /**
  * Hook to manage the logger instance.
+ * @param sessionId The ID of the session to log for.
  */
-export const useLogger = () => {
+export const useLogger = (sessionId: string) => {
   const [logger, setLogger] = useState<Logger | null>(null);
 
   useEffect(() => {
@@ -26,7 +27,7 @@ export const useLogger = () => {
         setLogger(newLogger);
       })
       .catch(() => {});
-  }, []);
+  }, [sessionId]);
 
   return logger;
 };
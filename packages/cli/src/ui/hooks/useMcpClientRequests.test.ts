@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { Config, MCPClientRequestHandler } from '@qwen-code/qwen-code-core';
+import { useMcpClientRequests } from './useMcpClientRequests.js';
+
+describe('useMcpClientRequests', () => {
+  const samplingRequest = {
+    serverName: 'logs',
+    params: { messages: [], maxTokens: 10 },
+  };
+  const elicitationRequest = {
+    serverName: 'deploy',
+    message: 'Which environment?',
+    requestedSchema: { type: 'object' as const, properties: {} },
+  };
+
+  const setup = () => {
+    let handler: MCPClientRequestHandler | undefined;
+    const config = {
+      setMcpClientRequestHandler: vi.fn((h) => {
+        handler = h;
+      }),
+    } as unknown as Config;
+    const hook = renderHook(() => useMcpClientRequests(config));
+    return { hook, getHandler: () => handler! };
+  };
+
+  it('shows the requests one at a time', async () => {
+    const { hook, getHandler } = setup();
+
+    let approved: Promise<boolean>;
+    let elicited: Promise<unknown>;
+    act(() => {
+      approved = getHandler().confirmSampling(samplingRequest);
+      elicited = getHandler().elicit(elicitationRequest);
+    });
+
+    expect(hook.result.current.mcpSamplingRequest).toMatchObject(
+      samplingRequest,
+    );
+    expect(hook.result.current.mcpElicitationRequest).toBeNull();
+
+    act(() => {
+      hook.result.current.mcpSamplingRequest!.onConfirm(true);
+    });
+    await expect(approved!).resolves.toBe(true);
+    expect(hook.result.current.mcpSamplingRequest).toBeNull();
+    expect(hook.result.current.mcpElicitationRequest).toMatchObject(
+      elicitationRequest,
+    );
+
+    act(() => {
+      hook.result.current.mcpElicitationRequest!.onSubmit({
+        action: 'decline',
+      });
+    });
+    await expect(elicited!).resolves.toEqual({ action: 'decline' });
+    expect(hook.result.current.mcpElicitationRequest).toBeNull();
+  });
+
+  it('removes the handler on unmount', () => {
+    const { hook, getHandler } = setup();
+    expect(getHandler()).toBeDefined();
+
+    hook.unmount();
+
+    expect(getHandler()).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { Config } from '@qwen-code/qwen-code-core';
+import { McpSamplingConfirmationRequest } from '../components/McpSamplingDialog.js';
+import { McpElicitationFormRequest } from '../components/McpElicitationDialog.js';
+
+type PendingRequest =
+  | { kind: 'sampling'; request: McpSamplingConfirmationRequest }
+  | { kind: 'elicitation'; request: McpElicitationFormRequest };
+
+/**
+ * Lets MCP servers ask the user to approve sampling requests and to answer
+ * elicitation requests. Requests that arrive while a dialog is open wait for
+ * their turn.
+ */
+export const useMcpClientRequests = (config: Config) => {
+  const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([]);
+
+  useEffect(() => {
+    const enqueue = (pending: PendingRequest) =>
+      setPendingRequests((prev) => [...prev, pending]);
+    const dequeue = (request: PendingRequest['request']) =>
+      setPendingRequests((prev) =>
+        prev.filter((pending) => pending.request !== request),
+      );
+
+    config.setMcpClientRequestHandler({
+      confirmSampling: (samplingRequest) =>
+        new Promise((resolve) => {
+          const request: McpSamplingConfirmationRequest = {
+            ...samplingRequest,
+            onConfirm: (approved) => {
+              dequeue(request);
+              resolve(approved);
+            },
+          };
+          enqueue({ kind: 'sampling', request });
+        }),
+      elicit: (elicitationRequest) =>
+        new Promise((resolve) => {
+          const request: McpElicitationFormRequest = {
+            ...elicitationRequest,
+            onSubmit: (result) => {
+              dequeue(request);
+              resolve(result);
+            },
+          };
+          enqueue({ kind: 'elicitation', request });
+        }),
+    });
+    return () => config.setMcpClientRequestHandler(undefined);
+  }, [config]);
+
+  const current = pendingRequests[0];
+  return {
+    mcpSamplingRequest: current?.kind === 'sampling' ? current.request : null,
+    mcpElicitationRequest:
+      current?.kind === 'elicitation' ? current.request : null,
+  };
+};
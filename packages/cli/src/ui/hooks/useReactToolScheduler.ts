@@ -238,6 +238,7 @@ export function mapToDisplay(
         callId: trackedCall.request.callId,
         name: displayName,
         description,
+        args: trackedCall.request.args,
         renderOutputAsMarkdown,
       };
 
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useState } from 'react';
+import { ShellExecutionService } from '@qwen-code/qwen-code-core';
+import { findActivePtyPid, useShellFocus } from './useShellFocus.js';
+import { useKeypress, Key } from './useKeypress.js';
+import {
+  HistoryItemWithoutId,
+  IndividualToolCallDisplay,
+  ToolCallStatus,
+} from '../types.js';
+
+vi.mock('./useKeypress.js', () => ({
+  useKeypress: vi.fn(),
+}));
+
+vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import('@qwen-code/qwen-code-core')>();
+  return {
+    ...original,
+    ShellExecutionService: {
+      writeToPty: vi.fn(),
+    },
+  };
+});
+
+const mockUseKeypress = vi.mocked(useKeypress);
+const mockWriteToPty = vi.mocked(ShellExecutionService.writeToPty);
+
+function createTool(
+  status: ToolCallStatus,
+  pid?: number,
+): IndividualToolCallDisplay {
+  return {
+    callId: `call-${pid}`,
+    name: 'Shell',
+    description: 'run a command',
+    resultDisplay: pid === undefined ? 'output' : { pid, terminal: [] },
+    status,
+    confirmationDetails: undefined,
+  };
+}
+
+function createKey(overrides: Partial<Key>): Key {
+  return {
+    name: '',
+    ctrl: false,
+    meta: false,
+    shift: false,
+    paste: false,
+    sequence: '',
+    ...overrides,
+  };
+}
+
+describe('findActivePtyPid', () => {
+  it('should return the pid of the last executing pseudo-terminal', () => {
+    const items: HistoryItemWithoutId[] = [
+      {
+        type: 'tool_group',
+        tools: [
+          createTool(ToolCallStatus.Executing, 100),
+          createTool(ToolCallStatus.Executing),
+          createTool(ToolCallStatus.Executing, 200),
+          createTool(ToolCallStatus.Success, 300),
+        ],
+      },
+    ];
+
+    expect(findActivePtyPid(items)).toBe(200);
+  });
+
+  it('should return undefined when no pseudo-terminal is running', () => {
+    const items: HistoryItemWithoutId[] = [
+      { type: 'info', text: 'hello' },
+      {
+        type: 'tool_group',
+        tools: [
+          createTool(ToolCallStatus.Executing),
+          createTool(ToolCallStatus.Canceled, 100),
+        ],
+      },
+    ];
+
+    expect(findActivePtyPid(items)).toBeUndefined();
+  });
+});
+
+describe('useShellFocus', () => {
+  const pendingItems: HistoryItemWithoutId[] = [
+    {
+      type: 'tool_group',
+      tools: [createTool(ToolCallStatus.Executing, 1234)],
+    },
+  ];
+
+  const renderShellFocus = (items: HistoryItemWithoutId[]) =>
+    renderHook(() => {
+      const [shellFocused, setShellFocused] = useState(false);
+      const activePtyPid = useShellFocus(items, shellFocused, setShellFocused);
+      return { shellFocused, activePtyPid };
+    });
+
+  const pressKey = (key: Partial<Key>) => {
+    const handler = mockUseKeypress.mock.calls.at(-1)![0];
+    act(() => handler(createKey(key)));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not listen for keys without a pseudo-terminal', () => {
+    const { result } = renderShellFocus([]);
+
+    expect(result.current.activePtyPid).toBeUndefined();
+    expect(mockUseKeypress).toHaveBeenLastCalledWith(expect.any(Function), {
+      isActive: false,
+    });
+  });
+
+  it('should toggle the focus with ctrl+f', () => {
+    const { result } = renderShellFocus(pendingItems);
+
+    expect(result.current.activePtyPid).toBe(1234);
+    expect(mockUseKeypress).toHaveBeenLastCalledWith(expect.any(Function), {
+      isActive: true,
+    });
+
+    pressKey({ name: 'f', ctrl: true, sequence: '\x06' });
+    expect(result.current.shellFocused).toBe(true);
+
+    pressKey({ name: 'f', ctrl: true, sequence: '\x06' });
+    expect(result.current.shellFocused).toBe(false);
+    expect(mockWriteToPty).not.toHaveBeenCalled();
+  });
+
+  it('should only send keys to the command while focused', () => {
+    const { result } = renderShellFocus(pendingItems);
+
+    pressKey({ name: 'a', sequence: 'a' });
+    expect(mockWriteToPty).not.toHaveBeenCalled();
+
+    pressKey({ name: 'f', ctrl: true, sequence: '\x06' });
+    pressKey({ name: 'y', sequence: 'y' });
+    pressKey({ name: 'c', ctrl: true, sequence: '\x03' });
+
+    expect(result.current.shellFocused).toBe(true);
+    expect(mockWriteToPty).toHaveBeenCalledWith(1234, 'y');
+    expect(mockWriteToPty).toHaveBeenCalledWith(1234, '\x03');
+  });
+
+  it('should return the focus when the command exits', () => {
+    let items = pendingItems;
+    const { result, rerender } = renderHook(() => {
+      const [shellFocused, setShellFocused] = useState(false);
+      useShellFocus(items, shellFocused, setShellFocused);
+      return shellFocused;
+    });
+
+    pressKey({ name: 'f', ctrl: true, sequence: '\x06' });
+    expect(result.current).toBe(true);
+
+    items = [];
+    rerender();
+    expect(result.current).toBe(false);
+  });
+});
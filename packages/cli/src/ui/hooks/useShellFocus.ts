@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect } from 'react';
+import { ShellExecutionService } from '@qwen-code/qwen-code-core';
+import { HistoryItemWithoutId, ToolCallStatus } from '../types.js';
+import { useKeypress } from './useKeypress.js';
+import { keyMatchers, Command } from '../keyMatchers.js';
+
+/**
+ * Returns the pid of the last command that is running in a pseudo-terminal,
+ * if any.
+ */
+export function findActivePtyPid(
+  pendingHistoryItems: HistoryItemWithoutId[],
+): number | undefined {
+  let pid: number | undefined;
+  for (const item of pendingHistoryItems) {
+    if (item.type !== 'tool_group') {
+      continue;
+    }
+    for (const tool of item.tools) {
+      if (
+        tool.status === ToolCallStatus.Executing &&
+        typeof tool.resultDisplay === 'object' &&
+        'terminal' in tool.resultDisplay
+      ) {
+        pid = tool.resultDisplay.pid;
+      }
+    }
+  }
+  return pid;
+}
+
+/**
+ * Lets the user focus a command running in a pseudo-terminal to type into it.
+ * While the shell is focused, every key except the toggle goes to the command.
+ * Focus returns to the CLI when the toggle is pressed again or the command
+ * exits.
+ * @returns The pid of the command that can be focused, if any.
+ */
+export const useShellFocus = (
+  pendingHistoryItems: HistoryItemWithoutId[],
+  shellFocused: boolean,
+  setShellFocused: (focused: boolean) => void,
+): number | undefined => {
+  const activePtyPid = findActivePtyPid(pendingHistoryItems);
+
+  useEffect(() => {
+    setShellFocused(false);
+  }, [activePtyPid, setShellFocused]);
+
+  useKeypress(
+    (key) => {
+      if (activePtyPid === undefined) {
+        return;
+      }
+      if (keyMatchers[Command.TOGGLE_SHELL_FOCUS](key)) {
+        setShellFocused(!shellFocused);
+      } else if (shellFocused) {
+        ShellExecutionService.writeToPty(activePtyPid, key.sequence);
+      }
+    },
+    { isActive: activePtyPid !== undefined },
+  );
+
+  return activePtyPid;
+};
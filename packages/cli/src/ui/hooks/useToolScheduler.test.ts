@@ -53,6 +53,8 @@ const mockConfig = {
   getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
   getUsageStatisticsEnabled: () => true,
   getDebugMode: () => false,
+  getHookRunner: () => ({ hasHooks: () => false }),
+  getMaxConcurrentToolCalls: () => 8,
 };
 
 class MockTool extends BaseTool<object, ToolResult> {
@@ -732,13 +734,21 @@ describe('useReactToolScheduler', () => {
       request: requests[1],
       response: expect.objectContaining({
         resultDisplay: 'Display 2',
-        responseParts: {
-          functionResponse: {
-            id: 'multi2',
-            name: 'tool2',
-            response: { output: 'Output 2' },
+        // Neither tool reports the files it touches, so they run in order.
+        responseParts: [
+          {
+            functionResponse: {
+              id: 'multi2',
+              name: 'tool2',
+              response: { output: 'Output 2' },
+            },
           },
-        },
+          {
+            text: expect.stringContaining(
+              'this call ran after the earlier "tool1" call(s)',
+            ),
+          },
+        ],
       }),
     });
     expect(result.current[0]).toEqual([]);
@@ -4,8 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect } from 'vitest';
-import { keyMatchers, Command, createKeyMatchers } from './keyMatchers.js';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  keyMatchers,
+  Command,
+  createKeyMatchers,
+  getKeyBindingConfig,
+  setKeyBindingConfig,
+} from './keyMatchers.js';
 import { KeyBindingConfig, defaultKeyBindings } from '../config/keyBindings.js';
 import type { Key } from './hooks/useKeypress.js';
 
@@ -55,6 +61,7 @@ describe('keyMatchers', () => {
     [Command.QUIT]: (key: Key) => key.ctrl && key.name === 'c',
     [Command.EXIT]: (key: Key) => key.ctrl && key.name === 'd',
     [Command.SHOW_MORE_LINES]: (key: Key) => key.ctrl && key.name === 's',
+    [Command.TOGGLE_SHELL_FOCUS]: (key: Key) => key.ctrl && key.name === 'f',
     [Command.REVERSE_SEARCH]: (key: Key) => key.ctrl && key.name === 'r',
     [Command.SUBMIT_REVERSE_SEARCH]: (key: Key) =>
       key.name === 'return' && !key.ctrl,
@@ -225,6 +232,11 @@ describe('keyMatchers', () => {
       positive: [createKey('s', { ctrl: true })],
       negative: [createKey('s'), createKey('l', { ctrl: true })],
     },
+    {
+      command: Command.TOGGLE_SHELL_FOCUS,
+      positive: [createKey('f', { ctrl: true })],
+      negative: [createKey('f'), createKey('t', { ctrl: true })],
+    },
 
     // Shell commands
     {
@@ -289,6 +301,10 @@ describe('keyMatchers', () => {
   });
 
   describe('Custom key bindings', () => {
+    afterEach(() => {
+      setKeyBindingConfig(defaultKeyBindings);
+    });
+
     it('should work with custom configuration', () => {
       const customConfig: KeyBindingConfig = {
         ...defaultKeyBindings,
@@ -306,6 +322,21 @@ describe('keyMatchers', () => {
       );
     });
 
+    it('should use the active configuration for keyMatchers', () => {
+      setKeyBindingConfig({
+        ...defaultKeyBindings,
+        [Command.SUBMIT]: [{ key: 'j', ctrl: true }],
+      });
+
+      expect(keyMatchers[Command.SUBMIT](createKey('j', { ctrl: true }))).toBe(
+        true,
+      );
+      expect(keyMatchers[Command.SUBMIT](createKey('return'))).toBe(false);
+      expect(getKeyBindingConfig()[Command.SUBMIT]).toEqual([
+        { key: 'j', ctrl: true },
+      ]);
+    });
+
     it('should support multiple key bindings for same command', () => {
       const config: KeyBindingConfig = {
         ...defaultKeyBindings,
@@ -96,10 +96,36 @@ export function createKeyMatchers(
   return matchers as KeyMatchers;
 }
 
+let activeKeyBindings: KeyBindingConfig = defaultKeyBindings;
+
+/**
+ * Returns the key binding configuration used by `keyMatchers`
+ */
+export function getKeyBindingConfig(): KeyBindingConfig {
+  return activeKeyBindings;
+}
+
 /**
- * Default key binding matchers using the default configuration
+ * Replaces the key binding configuration used by `keyMatchers`, e.g. with the
+ * user's keybindings.json applied
  */
-export const keyMatchers: KeyMatchers = createKeyMatchers(defaultKeyBindings);
+export function setKeyBindingConfig(config: KeyBindingConfig): void {
+  activeKeyBindings = config;
+}
+
+/**
+ * Key binding matchers using the active configuration
+ */
+export const keyMatchers: KeyMatchers = (() => {
+  const matchers = {} as { [C in Command]: KeyMatcher };
+
+  for (const command of Object.values(Command)) {
+    matchers[command] = (key: Key) =>
+      matchCommand(command, key, activeKeyBindings);
+  }
+
+  return matchers as KeyMatchers;
+})();
 
 // Re-export Command for convenience
 export { Command };
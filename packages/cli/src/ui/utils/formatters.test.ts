@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { formatDuration, formatMemoryUsage } from './formatters.js';
+import { formatCost, formatDuration, formatMemoryUsage } from './formatters.js';
 
 describe('formatters', () => {
   describe('formatMemoryUsage', () => {
@@ -22,6 +22,17 @@ describe('formatters', () => {
     });
   });
 
+  describe('formatCost', () => {
+    it('should format amounts in dollars and cents', () => {
+      expect(formatCost(0)).toBe('$0.00');
+      expect(formatCost(1.254)).toBe('$1.25');
+    });
+
+    it('should show amounts below a cent with more precision', () => {
+      expect(formatCost(0.00421)).toBe('$0.0042');
+    });
+  });
+
   describe('formatDuration', () => {
     it('should format milliseconds less than a second', () => {
       expect(formatDuration(500)).toBe('500ms');
@@ -15,6 +15,19 @@ export const formatMemoryUsage = (bytes: number): string => {
   return `${gb.toFixed(2)} GB`;
 };
 
+/**
+ * Formats an amount in US dollars, with more precision for amounts below a
+ * cent so that small sessions do not show as free.
+ * @param usd The amount in US dollars.
+ * @returns A formatted string, e.g. "$1.25" or "$0.0042".
+ */
+export const formatCost = (usd: number): string => {
+  if (usd > 0 && usd < 0.01) {
+    return `$${usd.toFixed(4)}`;
+  }
+  return `$${usd.toFixed(2)}`;
+};
+
 /**
  * Formats a duration in milliseconds into a concise, human-readable string (e.g., "1h 5s").
  * It omits any time units that are zero.
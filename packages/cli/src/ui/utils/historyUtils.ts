@@ -0,0 +1,48 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content } from '@google/genai';
+import { HistoryItemWithoutId, MessageType } from '../types.js';
+
+const rolemap: { [key: string]: MessageType } = {
+  user: MessageType.USER,
+  model: MessageType.GEMINI,
+};
+
+/**
+ * Converts a saved model conversation into items for the UI history. Parts
+ * without text are dropped, as is the environment context that opens every
+ * chat.
+ */
+export function convertToHistoryItems(
+  conversation: Content[],
+): HistoryItemWithoutId[] {
+  const uiHistory: HistoryItemWithoutId[] = [];
+  let hasSystemPrompt = false;
+  let i = 0;
+
+  for (const item of conversation) {
+    i += 1;
+    const text =
+      item.parts
+        ?.filter((m) => !!m.text)
+        .map((m) => m.text)
+        .join('') || '';
+    if (!text) {
+      continue;
+    }
+    if (i === 1 && text.match(/context for our chat/)) {
+      hasSystemPrompt = true;
+    }
+    if (i > 2 || !hasSystemPrompt) {
+      uiHistory.push({
+        type: (item.role && rolemap[item.role]) || MessageType.GEMINI,
+        text,
+      } as HistoryItemWithoutId);
+    }
+  }
+  return uiHistory;
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import path from 'path';
+import {
+  GeminiEventType,
+  ModelMetrics,
+  OutputFormat,
+  SessionMetrics,
+} from '@qwen-code/qwen-code-core';
+import {
+  getTokenTotals,
+  NonInteractiveOutput,
+} from './nonInteractiveOutput.js';
+
+const makeModelMetrics = (
+  tokens: Partial<ModelMetrics['tokens']>,
+): ModelMetrics => ({
+  api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 10 },
+  tokens: {
+    prompt: 0,
+    candidates: 0,
+    total: 0,
+    cached: 0,
+    thoughts: 0,
+    tool: 0,
+    ...tokens,
+  },
+});
+
+describe('getTokenTotals', () => {
+  it('sums the tokens of every model', () => {
+    const metrics = {
+      models: {
+        'model-a': makeModelMetrics({ prompt: 10, candidates: 5, total: 15 }),
+        'model-b': makeModelMetrics({ prompt: 4, total: 6, cached: 2 }),
+      },
+    } as unknown as SessionMetrics;
+
+    expect(getTokenTotals(metrics)).toEqual({
+      prompt: 14,
+      candidates: 5,
+      total: 21,
+      cached: 2,
+      thoughts: 0,
+      tool: 0,
+    });
+  });
+});
+
+describe('NonInteractiveOutput', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes only content and a final newline in text mode', () => {
+    const write = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const output = new NonInteractiveOutput(OutputFormat.TEXT);
+
+    output.emit({ type: GeminiEventType.Content, value: 'Hi' });
+    output.emit({
+      type: GeminiEventType.Thought,
+      value: { subject: 'Thinking', description: '' },
+    });
+    output.finish();
+
+    expect(write.mock.calls).toEqual([['Hi'], ['\n']]);
+  });
+
+  it('reduces tool errors to their message in stream-json mode', () => {
+    const write = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const output = new NonInteractiveOutput(OutputFormat.STREAM_JSON);
+
+    output.emit({
+      type: GeminiEventType.ToolCallResponse,
+      value: {
+        callId: 'call-1',
+        responseParts: [],
+        resultDisplay: undefined,
+        error: new Error('boom'),
+        errorType: undefined,
+      },
+    });
+
+    expect(JSON.parse(write.mock.calls[0][0] as string)).toEqual({
+      type: 'tool_call_response',
+      value: { callId: 'call-1', responseParts: [], error: 'boom' },
+    });
+  });
+
+  it('uses the last stream error when the run ends without one', () => {
+    const write = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const output = new NonInteractiveOutput(OutputFormat.JSON);
+
+    output.emit({
+      type: GeminiEventType.Error,
+      value: { error: { message: 'Rate limited', status: 429 } },
+    });
+    output.finish();
+
+    expect(JSON.parse(write.mock.calls[0][0] as string).error).toEqual({
+      message: 'Rate limited',
+    });
+  });
+
+  it('exports the transcript of the run when asked to', () => {
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-test-'));
+    const filePath = path.join(tmpDir, 'run.json');
+    const output = new NonInteractiveOutput(OutputFormat.TEXT, {
+      filePath,
+      sessionId: 'session-1',
+    });
+
+    try {
+      output.addUserPrompt('List files');
+      output.emit({
+        type: GeminiEventType.ToolCallRequest,
+        value: {
+          callId: 'call-1',
+          name: 'list_directory',
+          args: { path: '.' },
+          isClientInitiated: false,
+          prompt_id: 'prompt-1',
+        },
+      });
+      output.emit({
+        type: GeminiEventType.ToolCallResponse,
+        value: {
+          callId: 'call-1',
+          responseParts: [],
+          resultDisplay: 'a.txt',
+          error: undefined,
+          errorType: undefined,
+        },
+      });
+      output.emit({ type: GeminiEventType.Content, value: 'One ' });
+      output.emit({ type: GeminiEventType.Content, value: 'file.' });
+      output.finish();
+
+      const exported = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      expect(exported.sessionId).toBe('session-1');
+      expect(exported.items).toEqual([
+        { type: 'user', text: 'List files' },
+        {
+          type: 'tool_group',
+          tools: [
+            expect.objectContaining({
+              name: 'list_directory',
+              args: { path: '.' },
+              resultDisplay: 'a.txt',
+              status: 'Success',
+            }),
+          ],
+        },
+        { type: 'gemini', text: 'One file.' },
+      ]);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
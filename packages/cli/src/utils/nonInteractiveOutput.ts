@@ -0,0 +1,256 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import path from 'path';
+import {
+  GeminiEventType,
+  getErrorMessage,
+  ModelMetrics,
+  OutputFormat,
+  ServerGeminiStreamEvent,
+  SessionMetrics,
+  ToolCallRequestInfo,
+  uiTelemetryService,
+} from '@qwen-code/qwen-code-core';
+import { HistoryItemWithoutId, ToolCallStatus } from '../ui/types.js';
+import {
+  ExportOptions,
+  getExportFormatForPath,
+  ExportFormat,
+  renderSession,
+} from './sessionExport.js';
+
+export type TokenTotals = ModelMetrics['tokens'];
+
+export interface NonInteractiveStats {
+  tokens: TokenTotals;
+  models: SessionMetrics['models'];
+  tools: SessionMetrics['tools'];
+}
+
+/**
+ * The final object written by the `json` and `stream-json` output formats.
+ */
+export interface NonInteractiveResult {
+  type: 'result';
+  response: string;
+  duration_ms: number;
+  stats: NonInteractiveStats;
+  error?: { message: string };
+}
+
+/**
+ * Where and how to export the transcript of a non-interactive run.
+ */
+export interface NonInteractiveExportOptions
+  extends Omit<ExportOptions, 'format'> {
+  filePath: string;
+}
+
+/**
+ * Sums the token counts of every model used during the session.
+ */
+export function getTokenTotals(metrics: SessionMetrics): TokenTotals {
+  const totals: TokenTotals = {
+    prompt: 0,
+    candidates: 0,
+    total: 0,
+    cached: 0,
+    thoughts: 0,
+    tool: 0,
+  };
+  for (const model of Object.values(metrics.models)) {
+    for (const key of Object.keys(totals) as Array<keyof TokenTotals>) {
+      totals[key] += model.tokens[key];
+    }
+  }
+  return totals;
+}
+
+/**
+ * Converts a stream event into a JSON-safe object. Errors in tool responses
+ * are reduced to their message because `Error` does not serialize.
+ */
+export function toJsonEvent(event: ServerGeminiStreamEvent): {
+  type: GeminiEventType;
+  value?: unknown;
+} {
+  if (event.type === GeminiEventType.ToolCallResponse) {
+    const { error, ...value } = event.value;
+    return {
+      type: event.type,
+      value: { ...value, error: error?.message },
+    };
+  }
+  return event;
+}
+
+/**
+ * Writes the output of a non-interactive run in the requested format.
+ *
+ * - `text` streams the model's text to stdout.
+ * - `json` writes a single result object once the run ends.
+ * - `stream-json` writes every stream event as a line of JSON, followed by
+ *   the result object.
+ */
+export class NonInteractiveOutput {
+  private readonly startTime = Date.now();
+  private response = '';
+  private lastError: string | undefined;
+  private readonly history: HistoryItemWithoutId[] = [];
+  private readonly toolRequests = new Map<string, ToolCallRequestInfo>();
+
+  constructor(
+    private readonly format: OutputFormat,
+    private readonly exportOptions?: NonInteractiveExportOptions,
+  ) {}
+
+  /**
+   * Records the user's prompt for the exported transcript.
+   */
+  addUserPrompt(text: string): void {
+    this.history.push({ type: 'user', text });
+  }
+
+  /**
+   * Reports an event from the model stream or a tool call response.
+   */
+  emit(event: ServerGeminiStreamEvent): void {
+    if (event.type === GeminiEventType.Content) {
+      this.response += event.value;
+    } else if (event.type === GeminiEventType.Error) {
+      this.lastError = event.value.error.message;
+    }
+    if (this.exportOptions) {
+      this.recordHistory(event);
+    }
+
+    switch (this.format) {
+      case OutputFormat.STREAM_JSON:
+        this.writeLine(toJsonEvent(event));
+        break;
+      case OutputFormat.JSON:
+        break;
+      case OutputFormat.TEXT:
+      default:
+        if (event.type === GeminiEventType.Content) {
+          process.stdout.write(event.value);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Ends the output. In text mode errors are left to the caller, which
+   * reports them on stderr.
+   * @param error The reason the run failed, if it did.
+   */
+  finish(error?: string): void {
+    if (this.exportOptions) {
+      this.exportSession(this.exportOptions, error);
+    }
+
+    if (this.format === OutputFormat.TEXT) {
+      if (!error) {
+        process.stdout.write('\n'); // Ensure a final newline
+      }
+      return;
+    }
+
+    const result = this.getResult(error ?? this.lastError);
+    if (this.format === OutputFormat.JSON) {
+      process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+      this.writeLine(result);
+    }
+  }
+
+  private recordHistory(event: ServerGeminiStreamEvent): void {
+    const lastItem = this.history[this.history.length - 1];
+    switch (event.type) {
+      case GeminiEventType.Content:
+        if (lastItem?.type === 'gemini') {
+          lastItem.text += event.value;
+        } else {
+          this.history.push({ type: 'gemini', text: event.value });
+        }
+        break;
+      case GeminiEventType.ToolCallRequest:
+        this.toolRequests.set(event.value.callId, event.value);
+        break;
+      case GeminiEventType.ToolCallResponse: {
+        const { callId, error, resultDisplay } = event.value;
+        const request = this.toolRequests.get(callId);
+        const tool = {
+          callId,
+          name: request?.name ?? callId,
+          description: '',
+          args: request?.args,
+          resultDisplay: resultDisplay ?? error?.message,
+          status: error ? ToolCallStatus.Error : ToolCallStatus.Success,
+          confirmationDetails: undefined,
+        };
+        if (lastItem?.type === 'tool_group') {
+          lastItem.tools.push(tool);
+        } else {
+          this.history.push({ type: 'tool_group', tools: [tool] });
+        }
+        break;
+      }
+      case GeminiEventType.Error:
+        this.history.push({ type: 'error', text: event.value.error.message });
+        break;
+      default:
+        break;
+    }
+  }
+
+  private exportSession(
+    { filePath, ...options }: NonInteractiveExportOptions,
+    error: string | undefined,
+  ): void {
+    if (error) {
+      this.history.push({ type: 'error', text: error });
+    }
+    try {
+      fs.writeFileSync(
+        path.resolve(filePath),
+        renderSession(this.history, {
+          ...options,
+          format: getExportFormatForPath(filePath) ?? ExportFormat.MARKDOWN,
+        }),
+        'utf-8',
+      );
+    } catch (exportError) {
+      console.error(
+        `Failed to export the session: ${getErrorMessage(exportError)}`,
+      );
+    }
+  }
+
+  private getResult(error: string | undefined): NonInteractiveResult {
+    const metrics = uiTelemetryService.getMetrics();
+    const result: NonInteractiveResult = {
+      type: 'result',
+      response: this.response,
+      duration_ms: Date.now() - this.startTime,
+      stats: {
+        tokens: getTokenTotals(metrics),
+        models: metrics.models,
+        tools: metrics.tools,
+      },
+    };
+    if (error) {
+      result.error = { message: error };
+    }
+    return result;
+  }
+
+  private writeLine(value: object): void {
+    process.stdout.write(`${JSON.stringify(value)}\n`);
+  }
+}
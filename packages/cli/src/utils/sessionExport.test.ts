@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HistoryItemWithoutId, ToolCallStatus } from '../ui/types.js';
+import {
+  ExportFormat,
+  getExportFormatForPath,
+  renderSession,
+} from './sessionExport.js';
+
+const history: HistoryItemWithoutId[] = [
+  { type: 'user', text: 'Fix the <title> tag' },
+  { type: 'about', cliVersion: '1.0.0' } as HistoryItemWithoutId,
+  {
+    type: 'tool_group',
+    tools: [
+      {
+        callId: 'call-1',
+        name: 'replace',
+        description: 'index.html',
+        args: { file_path: 'index.html' },
+        resultDisplay: {
+          fileName: 'index.html',
+          fileDiff: '--- a\n+++ b\n-<title>Old</title>\n+<title>New</title>',
+        },
+        status: ToolCallStatus.Success,
+        confirmationDetails: undefined,
+      },
+    ],
+  },
+  { type: 'gemini', text: 'Done. Here is `code`:\n```js\nx();\n```' },
+];
+
+describe('getExportFormatForPath', () => {
+  it('maps known extensions to formats', () => {
+    expect(getExportFormatForPath('out.MD')).toBe(ExportFormat.MARKDOWN);
+    expect(getExportFormatForPath('out.htm')).toBe(ExportFormat.HTML);
+    expect(getExportFormatForPath('out.json')).toBe(ExportFormat.JSON);
+    expect(getExportFormatForPath('out.txt')).toBeUndefined();
+  });
+});
+
+describe('renderSession', () => {
+  it('renders the conversation as Markdown', () => {
+    const markdown = renderSession(history, {
+      format: ExportFormat.MARKDOWN,
+      sessionId: 'session-1',
+      model: 'qwen3-coder-plus',
+    });
+
+    expect(markdown).toContain('# CodeDuet session');
+    expect(markdown).toContain('- Session: session-1');
+    expect(markdown).toContain('- Model: qwen3-coder-plus');
+    expect(markdown).toContain('## User\n\nFix the <title> tag');
+    expect(markdown).toContain('### Tool: replace (Success)');
+    expect(markdown).toContain('"file_path": "index.html"');
+    expect(markdown).toContain('```diff\n--- a');
+    expect(markdown).toContain('## Assistant');
+    expect(markdown).not.toContain('1.0.0');
+  });
+
+  it('escapes content and highlights diffs in HTML', () => {
+    const html = renderSession(history, { format: ExportFormat.HTML });
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('Fix the &lt;title&gt; tag');
+    expect(html).not.toContain('<title>Old</title>');
+    expect(html).toContain(
+      '<span class="add">+&lt;title&gt;New&lt;/title&gt;</span>',
+    );
+  });
+
+  it('redacts secrets when asked to', () => {
+    const secret = 'sk-ant-REDACTED';
+    const json = JSON.parse(
+      renderSession([{ type: 'user', text: `My key is ${secret}` }], {
+        format: ExportFormat.JSON,
+        redactSecrets: true,
+      }),
+    );
+
+    expect(json.items[0].text).toBe('My key is [REDACTED:anthropic_api_key]');
+  });
+});
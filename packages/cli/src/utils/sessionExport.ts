@@ -0,0 +1,367 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import {
+  InputValidator,
+  terminalLinesToText,
+  ToolResultDisplay,
+} from '@qwen-code/qwen-code-core';
+import {
+  HistoryItemWithoutId,
+  IndividualToolCallDisplay,
+} from '../ui/types.js';
+
+export enum ExportFormat {
+  MARKDOWN = 'markdown',
+  HTML = 'html',
+  JSON = 'json',
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  [ExportFormat.MARKDOWN]: 'md',
+  [ExportFormat.HTML]: 'html',
+  [ExportFormat.JSON]: 'json',
+};
+
+// History items that belong to the conversation. The rest (stats, help,
+// about...) only make sense inside the terminal.
+const EXPORTED_TYPES = new Set<HistoryItemWithoutId['type']>([
+  'user',
+  'user_shell',
+  'gemini',
+  'gemini_content',
+  'info',
+  'error',
+  'tool_group',
+]);
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Replaces secrets detected by `InputValidator` with a marker. */
+  redactSecrets?: boolean;
+  sessionId?: string;
+  model?: string;
+}
+
+/**
+ * Picks the export format from a file extension, if it is a known one.
+ */
+export function getExportFormatForPath(
+  filePath: string,
+): ExportFormat | undefined {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.md':
+    case '.markdown':
+      return ExportFormat.MARKDOWN;
+    case '.html':
+    case '.htm':
+      return ExportFormat.HTML;
+    case '.json':
+      return ExportFormat.JSON;
+    default:
+      return undefined;
+  }
+}
+
+export function getExportFileExtension(format: ExportFormat): string {
+  return FILE_EXTENSIONS[format];
+}
+
+/**
+ * Returns the history items that are part of the conversation.
+ */
+export function getExportableItems<T extends HistoryItemWithoutId>(
+  history: T[],
+): T[] {
+  return history.filter((item) => EXPORTED_TYPES.has(item.type));
+}
+
+function redactStrings<T>(value: T): T {
+  if (typeof value === 'string') {
+    return InputValidator.redactSecrets(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactStrings) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, redactStrings(entry)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Renders the conversation in the session history as a Markdown document, a
+ * self-contained HTML page or JSON.
+ */
+export function renderSession(
+  history: HistoryItemWithoutId[],
+  options: ExportOptions,
+): string {
+  let items = getExportableItems(history);
+  if (options.redactSecrets) {
+    items = redactStrings(items);
+  }
+  const metadata = {
+    sessionId: options.sessionId,
+    model: options.model,
+    exportedAt: new Date().toISOString(),
+  };
+
+  switch (options.format) {
+    case ExportFormat.JSON:
+      return JSON.stringify({ ...metadata, items }, null, 2);
+    case ExportFormat.HTML:
+      return renderHtml(items, metadata);
+    case ExportFormat.MARKDOWN:
+    default:
+      return renderMarkdown(items, metadata);
+  }
+}
+
+interface SessionMetadata {
+  sessionId?: string;
+  model?: string;
+  exportedAt: string;
+}
+
+// --- Markdown ---
+
+function fence(language: string, content: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${content.replace(/\n$/, '')}\n${marker}`;
+}
+
+function quote(label: string, text: string): string {
+  return `> **${label}:** ${text.split('\n').join('\n> ')}`;
+}
+
+function renderToolResultMarkdown(result: ToolResultDisplay): string {
+  if (typeof result === 'string') {
+    return fence('text', result);
+  }
+  if ('fileDiff' in result) {
+    return `**${result.fileName}**\n\n${fence('diff', result.fileDiff)}`;
+  }
+  if ('terminal' in result) {
+    return fence('text', terminalLinesToText(result.terminal));
+  }
+  const calls = result.toolCalls
+    .map((call) => `- ${call.name} (${call.status}): ${call.description}`)
+    .join('\n');
+  return [`Subagent **${result.subagentName}**: ${result.task}`, calls]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function renderToolMarkdown(tool: IndividualToolCallDisplay): string {
+  const parts = [`### Tool: ${tool.name} (${tool.status})`];
+  if (tool.description) {
+    parts.push(fence('', tool.description));
+  }
+  if (tool.args && Object.keys(tool.args).length > 0) {
+    parts.push(fence('json', JSON.stringify(tool.args, null, 2)));
+  }
+  if (tool.resultDisplay) {
+    parts.push(renderToolResultMarkdown(tool.resultDisplay));
+  }
+  return parts.join('\n\n');
+}
+
+function renderMarkdown(
+  items: HistoryItemWithoutId[],
+  metadata: SessionMetadata,
+): string {
+  const sections = ['# CodeDuet session'];
+  const details = [
+    metadata.sessionId && `- Session: ${metadata.sessionId}`,
+    metadata.model && `- Model: ${metadata.model}`,
+    `- Exported: ${metadata.exportedAt}`,
+  ].filter(Boolean);
+  sections.push(details.join('\n'));
+
+  for (const item of items) {
+    switch (item.type) {
+      case 'user':
+        sections.push(`## User\n\n${item.text}`);
+        break;
+      case 'user_shell':
+        sections.push(`## Shell\n\n${fence('sh', `$ ${item.text}`)}`);
+        break;
+      case 'gemini':
+        sections.push(`## Assistant\n\n${item.text}`);
+        break;
+      case 'gemini_content':
+        // Continuation of the previous assistant message
+        sections.push(item.text);
+        break;
+      case 'info':
+        sections.push(quote('Info', item.text));
+        break;
+      case 'error':
+        sections.push(quote('Error', item.text));
+        break;
+      case 'tool_group':
+        sections.push(...item.tools.map(renderToolMarkdown));
+        break;
+      default:
+        break;
+    }
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+// --- HTML ---
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+section { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 6px; border: 1px solid #d0d7de; }
+section.user { background: #ddf4ff; }
+section.info { background: #f6f8fa; }
+section.error { background: #ffebe9; }
+h2, h3 { margin: 0 0 0.5rem; font-size: 1rem; }
+.text { white-space: pre-wrap; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; border-radius: 6px; }
+.add { color: #1a7f37; }
+.del { color: #cf222e; }
+`.trim();
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderDiffHtml(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      const escaped = escapeHtml(line);
+      if (line.startsWith('+') && !line.startsWith('+++')) {
+        return `<span class="add">${escaped}</span>`;
+      }
+      if (line.startsWith('-') && !line.startsWith('---')) {
+        return `<span class="del">${escaped}</span>`;
+      }
+      return escaped;
+    })
+    .join('\n');
+}
+
+function renderToolResultHtml(result: ToolResultDisplay): string {
+  if (typeof result === 'string') {
+    return `<pre>${escapeHtml(result)}</pre>`;
+  }
+  if ('fileDiff' in result) {
+    return `<p><strong>${escapeHtml(result.fileName)}</strong></p><pre>${renderDiffHtml(result.fileDiff)}</pre>`;
+  }
+  if ('terminal' in result) {
+    return `<pre>${escapeHtml(terminalLinesToText(result.terminal))}</pre>`;
+  }
+  const calls = result.toolCalls
+    .map(
+      (call) =>
+        `<li>${escapeHtml(call.name)} (${escapeHtml(call.status)}): ${escapeHtml(call.description)}</li>`,
+    )
+    .join('');
+  return `<p>Subagent <strong>${escapeHtml(result.subagentName)}</strong>: ${escapeHtml(result.task)}</p>${calls ? `<ul>${calls}</ul>` : ''}`;
+}
+
+function renderToolHtml(tool: IndividualToolCallDisplay): string {
+  const parts = [
+    `<h3>Tool: ${escapeHtml(tool.name)} (${escapeHtml(tool.status)})</h3>`,
+  ];
+  if (tool.description) {
+    parts.push(`<pre>${escapeHtml(tool.description)}</pre>`);
+  }
+  if (tool.args && Object.keys(tool.args).length > 0) {
+    parts.push(`<pre>${escapeHtml(JSON.stringify(tool.args, null, 2))}</pre>`);
+  }
+  if (tool.resultDisplay) {
+    parts.push(renderToolResultHtml(tool.resultDisplay));
+  }
+  return `<section class="tool">${parts.join('')}</section>`;
+}
+
+function renderTextSection(
+  className: string,
+  title: string,
+  text: string,
+): string {
+  return `<section class="${className}"><h2>${title}</h2><div class="text">${escapeHtml(text)}</div></section>`;
+}
+
+function renderHtml(
+  items: HistoryItemWithoutId[],
+  metadata: SessionMetadata,
+): string {
+  const sections: string[] = [];
+  for (const item of items) {
+    switch (item.type) {
+      case 'user':
+        sections.push(renderTextSection('user', 'User', item.text));
+        break;
+      case 'user_shell':
+        sections.push(
+          `<section class="user"><h2>Shell</h2><pre>$ ${escapeHtml(item.text)}</pre></section>`,
+        );
+        break;
+      case 'gemini':
+      case 'gemini_content':
+        sections.push(renderTextSection('assistant', 'Assistant', item.text));
+        break;
+      case 'info':
+        sections.push(renderTextSection('info', 'Info', item.text));
+        break;
+      case 'error':
+        sections.push(renderTextSection('error', 'Error', item.text));
+        break;
+      case 'tool_group':
+        sections.push(...item.tools.map(renderToolHtml));
+        break;
+      default:
+        break;
+    }
+  }
+
+  const details = [
+    metadata.sessionId && ['Session', metadata.sessionId],
+    metadata.model && ['Model', metadata.model],
+    ['Exported', metadata.exportedAt],
+  ]
+    .filter((detail): detail is string[] => Array.isArray(detail))
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>CodeDuet session</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<header><h1>CodeDuet session</h1><dl>${details}</dl></header>
+<main>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
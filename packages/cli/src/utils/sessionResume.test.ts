@@ -0,0 +1,145 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionSummary } from '@qwen-code/qwen-code-core';
+import { resolveResumedSession } from './sessionResume.js';
+
+const mockLogger = vi.hoisted(() => ({
+  initialize: vi.fn(),
+  listSessions: vi.fn(),
+  loadSessionHistory: vi.fn(),
+  close: vi.fn(),
+}));
+
+vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@qwen-code/qwen-code-core')>();
+  return {
+    ...actual,
+    Logger: vi.fn().mockImplementation(() => mockLogger),
+  };
+});
+
+vi.mock('../ui/components/SessionPicker.js', () => ({
+  pickSession: vi.fn(),
+}));
+
+const makeSession = (sessionId: string): SessionSummary => ({
+  sessionId,
+  lastUpdated: '2025-01-01T12:00:00.000Z',
+  messageCount: 2,
+  firstUserMessage: 'Hello',
+});
+
+describe('resolveResumedSession', () => {
+  const history = [{ role: 'user', parts: [{ text: 'Hello' }] }];
+  const selectSession = vi.fn();
+  const originalIsTTY = process.stdin.isTTY;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogger.listSessions.mockResolvedValue([
+      makeSession('abc-123'),
+      makeSession('abd-456'),
+    ]);
+    mockLogger.loadSessionHistory.mockResolvedValue(history);
+    process.stdin.isTTY = true;
+  });
+
+  afterEach(() => {
+    process.stdin.isTTY = originalIsTTY;
+  });
+
+  it('does nothing without --continue or --resume', async () => {
+    const result = await resolveResumedSession(
+      { continue: undefined, resume: undefined },
+      'new-session',
+    );
+
+    expect(result).toBeUndefined();
+    expect(mockLogger.initialize).not.toHaveBeenCalled();
+  });
+
+  it('continues the most recent session', async () => {
+    const result = await resolveResumedSession(
+      { continue: true, resume: undefined },
+      'new-session',
+    );
+
+    expect(mockLogger.loadSessionHistory).toHaveBeenCalledWith('abc-123');
+    expect(result).toEqual({ sessionId: 'abc-123', history });
+    expect(mockLogger.close).toHaveBeenCalled();
+  });
+
+  it('resumes a session by a unique ID prefix', async () => {
+    const result = await resolveResumedSession(
+      { continue: undefined, resume: 'abd' },
+      'new-session',
+    );
+
+    expect(result?.sessionId).toBe('abd-456');
+  });
+
+  it('rejects ambiguous and unknown IDs', async () => {
+    await expect(
+      resolveResumedSession({ continue: undefined, resume: 'ab' }, 'new'),
+    ).rejects.toThrow('Session ID prefix ab is ambiguous');
+    await expect(
+      resolveResumedSession({ continue: undefined, resume: 'zzz' }, 'new'),
+    ).rejects.toThrow('No session found with ID: zzz');
+  });
+
+  it('fails when the project has no saved sessions', async () => {
+    mockLogger.listSessions.mockResolvedValue([]);
+
+    await expect(
+      resolveResumedSession({ continue: true, resume: undefined }, 'new'),
+    ).rejects.toThrow('No previous session found for this project.');
+  });
+
+  it('lets the user pick a session when --resume has no ID', async () => {
+    selectSession.mockResolvedValue('abd-456');
+
+    const result = await resolveResumedSession(
+      { continue: undefined, resume: '' },
+      'new-session',
+      selectSession,
+    );
+
+    expect(selectSession).toHaveBeenCalledWith([
+      makeSession('abc-123'),
+      makeSession('abd-456'),
+    ]);
+    expect(result?.sessionId).toBe('abd-456');
+  });
+
+  it('starts a new session when the picker is dismissed', async () => {
+    selectSession.mockResolvedValue(undefined);
+
+    const result = await resolveResumedSession(
+      { continue: undefined, resume: '' },
+      'new-session',
+      selectSession,
+    );
+
+    expect(result).toBeUndefined();
+    expect(mockLogger.loadSessionHistory).not.toHaveBeenCalled();
+  });
+
+  it('requires an ID when input is not a terminal', async () => {
+    process.stdin.isTTY = false;
+
+    await expect(
+      resolveResumedSession(
+        { continue: undefined, resume: '' },
+        'new-session',
+        selectSession,
+      ),
+    ).rejects.toThrow('A session ID is required for --resume');
+    expect(selectSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content } from '@google/genai';
+import { Logger, SessionSummary } from '@qwen-code/qwen-code-core';
+import { CliArgs } from '../config/config.js';
+import { pickSession } from '../ui/components/SessionPicker.js';
+
+export interface ResumedSession {
+  sessionId: string;
+  history: Content[];
+}
+
+/**
+ * Finds the session to resume from `--continue` or `--resume`. Returns
+ * `undefined` when neither flag is given, or when the user starts a new
+ * session from the picker instead.
+ * @param argv The parsed command-line arguments.
+ * @param sessionId The ID of the new session, used to read the project logs.
+ * @param selectSession Asks the user to choose among the saved sessions.
+ */
+export async function resolveResumedSession(
+  argv: Pick<CliArgs, 'continue' | 'resume'>,
+  sessionId: string,
+  selectSession: (
+    sessions: SessionSummary[],
+  ) => Promise<string | undefined> = pickSession,
+): Promise<ResumedSession | undefined> {
+  if (!argv.continue && argv.resume === undefined) {
+    return undefined;
+  }
+
+  const logger = new Logger(sessionId);
+  await logger.initialize();
+  try {
+    const sessions = await logger.listSessions();
+    if (sessions.length === 0) {
+      throw new Error('No previous session found for this project.');
+    }
+
+    let resumedId: string | undefined;
+    if (argv.continue) {
+      resumedId = sessions[0].sessionId;
+    } else if (argv.resume) {
+      resumedId = findSession(sessions, argv.resume).sessionId;
+    } else {
+      if (!process.stdin.isTTY) {
+        throw new Error(
+          'A session ID is required for --resume when input is not a terminal.',
+        );
+      }
+      resumedId = await selectSession(sessions);
+      if (!resumedId) {
+        return undefined;
+      }
+    }
+
+    return {
+      sessionId: resumedId,
+      history: await logger.loadSessionHistory(resumedId),
+    };
+  } finally {
+    logger.close();
+  }
+}
+
+/**
+ * Matches a session by its full ID or by an unambiguous ID prefix.
+ */
+function findSession(
+  sessions: SessionSummary[],
+  idOrPrefix: string,
+): SessionSummary {
+  const exact = sessions.find((session) => session.sessionId === idOrPrefix);
+  if (exact) {
+    return exact;
+  }
+  const matches = sessions.filter((session) =>
+    session.sessionId.startsWith(idOrPrefix),
+  );
+  if (matches.length === 0) {
+    throw new Error(`No session found with ID: ${idOrPrefix}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `Session ID prefix ${idOrPrefix} is ambiguous. Matching sessions: ${matches
+        .map((session) => session.sessionId)
+        .join(', ')}`,
+    );
+  }
+  return matches[0];
+}
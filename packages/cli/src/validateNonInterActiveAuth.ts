@@ -27,11 +27,14 @@ function getAuthTypeFromEnv(): AuthType | undefined {
   return undefined;
 }
 
-export async function validateNonInteractiveAuth(
+/**
+ * Picks the auth method of a run without a UI, from the settings or the
+ * environment. Exits the process if there is no usable one.
+ */
+export function resolveNonInteractiveAuthType(
   configuredAuthType: AuthType | undefined,
   useExternalAuth: boolean | undefined,
-  nonInteractiveConfig: Config,
-) {
+): AuthType {
   const effectiveAuthType = configuredAuthType || getAuthTypeFromEnv();
 
   if (!effectiveAuthType) {
@@ -49,6 +52,18 @@ export async function validateNonInteractiveAuth(
     }
   }
 
+  return effectiveAuthType;
+}
+
+export async function validateNonInteractiveAuth(
+  configuredAuthType: AuthType | undefined,
+  useExternalAuth: boolean | undefined,
+  nonInteractiveConfig: Config,
+) {
+  const effectiveAuthType = resolveNonInteractiveAuthType(
+    configuredAuthType,
+    useExternalAuth,
+  );
   await nonInteractiveConfig.refreshAuth(effectiveAuthType);
   return nonInteractiveConfig;
 }
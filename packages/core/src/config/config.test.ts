@@ -18,6 +18,8 @@ import {
 } from '../core/contentGenerator.js';
 import { GeminiClient } from '../core/client.js';
 import { GitService } from '../services/gitService.js';
+import { HookRunner } from '../hooks/hookRunner.js';
+import { HookEventName } from '../hooks/types.js';
 
 vi.mock('fs', async (importOriginal) => {
   const actual = await importOriginal<typeof import('fs')>();
@@ -287,6 +289,117 @@ describe('Server Config (config.ts)', () => {
       // Verify that setHistory was not called since there was no existing history
       expect(mockNewClient.setHistory).not.toHaveBeenCalled();
     });
+
+    it('should start the first client from the resumed history', async () => {
+      const resumedHistory = [
+        { role: 'user', parts: [{ text: 'Earlier question' }] },
+        { role: 'model', parts: [{ text: 'Earlier answer' }] },
+      ];
+      const config = new Config({ ...baseParams, resumedHistory });
+
+      (createContentGeneratorConfig as Mock).mockReturnValue({
+        model: 'gemini-pro',
+        apiKey: 'test-key',
+      });
+
+      const mockNewClient = {
+        isInitialized: vi.fn().mockReturnValue(true),
+        getHistory: vi.fn().mockReturnValue([]),
+        setHistory: vi.fn(),
+        initialize: vi.fn().mockResolvedValue(undefined),
+      };
+      (config as unknown as { geminiClient: null }).geminiClient = null;
+      (GeminiClient as Mock).mockImplementation(() => mockNewClient);
+
+      await config.refreshAuth(AuthType.USE_GEMINI);
+
+      expect(config.getResumedHistory()).toBe(resumedHistory);
+      expect(mockNewClient.setHistory).toHaveBeenCalledWith(resumedHistory);
+    });
+  });
+
+  describe('switchModel', () => {
+    it('should throw if auth has not been configured', async () => {
+      const config = new Config(baseParams);
+
+      await expect(config.switchModel('gemini-flash')).rejects.toThrow(
+        'Cannot switch models before authentication',
+      );
+    });
+
+    it('should rebuild the client with the new model and keep history', async () => {
+      const config = new Config(baseParams);
+      const mockContentConfig = {
+        model: 'gemini-pro',
+        apiKey: 'test-key',
+        authType: AuthType.USE_GEMINI,
+      };
+      (createContentGeneratorConfig as Mock).mockReturnValue(mockContentConfig);
+      await config.refreshAuth(AuthType.USE_GEMINI);
+
+      const mockExistingHistory = [
+        { role: 'user', parts: [{ text: 'Hello' }] },
+        { role: 'model', parts: [{ text: 'Hi there!' }] },
+      ];
+      (
+        config as unknown as {
+          geminiClient: { isInitialized: Mock; getHistory: Mock };
+        }
+      ).geminiClient = {
+        isInitialized: vi.fn().mockReturnValue(true),
+        getHistory: vi.fn().mockReturnValue(mockExistingHistory),
+      };
+      const mockNewClient = {
+        setHistory: vi.fn(),
+        initialize: vi.fn().mockResolvedValue(undefined),
+      };
+      (GeminiClient as Mock).mockImplementation(() => mockNewClient);
+      config.setFallbackMode(true);
+
+      await config.switchModel('gemini-flash');
+
+      expect(mockNewClient.initialize).toHaveBeenCalledWith({
+        ...mockContentConfig,
+        model: 'gemini-flash',
+      });
+      expect(mockNewClient.setHistory).toHaveBeenCalledWith(
+        mockExistingHistory,
+      );
+      expect(config.getModel()).toBe('gemini-flash');
+      expect(config.getContentGeneratorConfig().apiKey).toBe('test-key');
+      expect(config.isInFallbackMode()).toBe(false);
+    });
+
+    it('should run SessionStart hooks only for the first client', async () => {
+      const config = new Config(baseParams);
+      const hookRunner = {
+        hasHooks: (event: HookEventName) =>
+          event === HookEventName.SessionStart,
+        run: vi.fn().mockResolvedValue({}),
+      };
+      vi.spyOn(config, 'getHookRunner').mockReturnValue(
+        hookRunner as unknown as HookRunner,
+      );
+      (createContentGeneratorConfig as Mock).mockReturnValue({
+        model: 'gemini-pro',
+        apiKey: 'test-key',
+        authType: AuthType.USE_GEMINI,
+      });
+      (GeminiClient as Mock).mockImplementation(() => ({
+        initialize: vi.fn().mockResolvedValue(undefined),
+        isInitialized: vi.fn().mockReturnValue(true),
+        getHistory: vi.fn().mockReturnValue([]),
+      }));
+
+      await config.refreshAuth(AuthType.USE_GEMINI);
+      await config.switchModel('gemini-flash');
+      await config.refreshAuth(AuthType.USE_GEMINI);
+
+      expect(hookRunner.run).toHaveBeenCalledTimes(1);
+      expect(hookRunner.run).toHaveBeenCalledWith(HookEventName.SessionStart, {
+        source: 'startup',
+      });
+    });
   });
 
   it('Config constructor should store userMemory correctly', () => {
@@ -452,4 +565,30 @@ describe('Server Config (config.ts)', () => {
       expect(config.getTelemetryOtlpEndpoint()).toBe(DEFAULT_OTLP_ENDPOINT);
     });
   });
+
+  describe('Web Search Settings', () => {
+    it('should use tavilyApiKey for the default Tavily provider', () => {
+      const config = new Config({ ...baseParams, tavilyApiKey: 'tvly-key' });
+      expect(config.getWebSearchProvider()?.displayName).toBe('Tavily');
+    });
+
+    it('should not use tavilyApiKey for other providers', () => {
+      vi.stubEnv('BRAVE_API_KEY', '');
+      const config = new Config({
+        ...baseParams,
+        tavilyApiKey: 'tvly-key',
+        webSearch: { provider: 'brave' },
+      });
+      expect(config.getWebSearchProvider()).toBeUndefined();
+      vi.unstubAllEnvs();
+    });
+
+    it('should return the configured SearxNG provider', () => {
+      const config = new Config({
+        ...baseParams,
+        webSearch: { provider: 'searxng', baseUrl: 'http://localhost:8888' },
+      });
+      expect(config.getWebSearchProvider()?.displayName).toBe('SearxNG');
+    });
+  });
 });
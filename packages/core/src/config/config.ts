@@ -12,6 +12,7 @@ import {
   createContentGeneratorConfig,
 } from '../core/contentGenerator.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
 import { LSTool } from '../tools/ls.js';
 import { ReadFileTool } from '../tools/read-file.js';
@@ -19,6 +20,12 @@ import { GrepTool } from '../tools/grep.js';
 import { GlobTool } from '../tools/glob.js';
 import { EditTool } from '../tools/edit.js';
 import { ShellTool } from '../tools/shell.js';
+import {
+  KillBackgroundJobTool,
+  ReadBackgroundJobTool,
+  StartBackgroundJobTool,
+  WaitForBackgroundJobTool,
+} from '../tools/background-jobs.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { WebFetchTool } from '../tools/web-fetch.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
@@ -28,8 +35,23 @@ import {
   GEMINI_CONFIG_DIR as GEMINI_DIR,
 } from '../tools/memoryTool.js';
 import { WebSearchTool } from '../tools/web-search.js';
+import { ExitPlanModeTool } from '../tools/exit-plan-mode.js';
+import { DelegateTaskTool } from '../tools/delegate-task.js';
+import {
+  LspDefinitionTool,
+  LspHoverTool,
+  LspReferencesTool,
+  LspRenamePreviewTool,
+  LspWorkspaceSymbolsTool,
+} from '../tools/lsp.js';
+import { SemanticSearchTool } from '../tools/semantic-search.js';
+import { ReadMcpResourceTool } from '../tools/read-mcp-resource.js';
 import { GeminiClient } from '../core/client.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import {
+  FileSystemService,
+  StandardFileSystemService,
+} from '../services/fileSystemService.js';
 import { GitService } from '../services/gitService.js';
 import { getProjectTempDir } from '../utils/paths.js';
 import {
@@ -46,14 +68,30 @@ import {
 import { QwenLogger } from '../telemetry/qwen-logger/qwen-logger.js';
 import { shouldAttemptBrowserLaunch } from '../utils/browser.js';
 import { MCPOAuthConfig } from '../mcp/oauth-provider.js';
+import type { MCPClientRequestHandler } from '../mcp/client-requests.js';
 import { IdeClient } from '../ide/ide-client.js';
 import type { Content } from '@google/genai';
+import type { SubagentProfile } from '../core/subagent.js';
 import { logIdeConnection } from '../telemetry/loggers.js';
 import { IdeConnectionEvent, IdeConnectionType } from '../telemetry/types.js';
 
 // Re-export OAuth config type
 export type { MCPOAuthConfig };
 import { WorkspaceContext } from '../utils/workspaceContext.js';
+import { LspManager } from '../lsp/lspManager.js';
+import { BackgroundJobManager } from '../services/backgroundJobManager.js';
+import { DEFAULT_LSP_SERVERS, LspServerConfig } from '../lsp/types.js';
+import { SemanticIndex } from '../semantic/semanticIndex.js';
+import { createWebSearchProvider } from '../web-search/providers.js';
+import { WebSearchConfig, WebSearchProvider } from '../web-search/types.js';
+import { HookRunner } from '../hooks/hookRunner.js';
+import { HookEventName, HooksConfig } from '../hooks/types.js';
+import { DEFAULT_MODEL_PRICING, ModelPricing } from '../core/modelPricing.js';
+import { ModelMetadataMap, ModelRegistry } from '../core/modelRegistry.js';
+import {
+  FallbackTarget,
+  ModelFallbackHandler,
+} from '../core/fallbackContentGenerator.js';
 
 // Re-export new unified configuration system
 export { ConfigManager, SettingScope } from './ConfigManager.js';
@@ -65,6 +103,13 @@ export enum ApprovalMode {
   DEFAULT = 'default',
   AUTO_EDIT = 'autoEdit',
   YOLO = 'yolo',
+  PLAN = 'plan',
+}
+
+export enum OutputFormat {
+  TEXT = 'text',
+  JSON = 'json',
+  STREAM_JSON = 'stream-json',
 }
 
 export interface AccessibilitySettings {
@@ -117,6 +162,7 @@ export const DEFAULT_FILE_FILTERING_OPTIONS: FileFilteringOptions = {
   respectGitIgnore: true,
   respectGeminiIgnore: true,
 };
+export const DEFAULT_MAX_CONCURRENT_TOOL_CALLS = 8;
 export class MCPServerConfig {
   constructor(
     // For stdio transport
@@ -175,6 +221,7 @@ export interface ConfigParameters {
   toolCallCommand?: string;
   mcpServerCommand?: string;
   mcpServers?: Record<string, MCPServerConfig>;
+  lspServers?: Record<string, LspServerConfig>;
   userMemory?: string;
   geminiMdFileCount?: number;
   approvalMode?: ApprovalMode;
@@ -199,9 +246,14 @@ export interface ConfigParameters {
   extensionContextFilePaths?: string[];
   maxSessionTurns?: number;
   sessionTokenLimit?: number;
+  sessionBudgetUsd?: number;
+  modelPricing?: ModelPricing;
+  modelMetadata?: ModelMetadataMap;
+  fallbackChain?: FallbackTarget[];
   experimentalAcp?: boolean;
   listExtensions?: boolean;
   extensions?: GeminiCLIExtension[];
+  subagentProfiles?: SubagentProfile[];
   blockedMcpServers?: Array<{ name: string; extensionName: string }>;
   noBrowser?: boolean;
   summarizeToolOutput?: Record<string, SummarizeToolOutputSettings>;
@@ -226,13 +278,20 @@ export interface ConfigParameters {
   loadMemoryFromIncludeDirectories?: boolean;
   // Web search providers
   tavilyApiKey?: string;
+  webSearch?: WebSearchConfig;
+  hooks?: HooksConfig;
+  maxConcurrentToolCalls?: number;
   chatCompression?: ChatCompressionSettings;
   interactive?: boolean;
+  interactiveShell?: boolean;
+  outputFormat?: OutputFormat;
+  resumedHistory?: Content[];
 }
 
 export class Config {
   private toolRegistry!: ToolRegistry;
   private promptRegistry!: PromptRegistry;
+  private resourceRegistry!: ResourceRegistry;
   private readonly sessionId: string;
   private contentGeneratorConfig!: ContentGeneratorConfig;
   private readonly embeddingModel: string;
@@ -284,13 +343,27 @@ export class Config {
   }>;
   private readonly maxSessionTurns: number;
   private readonly sessionTokenLimit: number;
+  private readonly sessionBudgetUsd: number;
+  private readonly modelPricing: ModelPricing;
+  private readonly modelMetadata: ModelMetadataMap;
+  private modelRegistry: ModelRegistry | undefined;
+  private readonly fallbackChain: FallbackTarget[];
   private readonly listExtensions: boolean;
   private readonly _extensions: GeminiCLIExtension[];
+  private readonly subagentProfiles: SubagentProfile[];
+  private readonly lspServers: Record<string, LspServerConfig>;
+  private lspManager: LspManager | undefined;
+  private backgroundJobManager: BackgroundJobManager | undefined;
+  private semanticIndex: SemanticIndex | undefined;
+  private fileSystemService: FileSystemService =
+    new StandardFileSystemService();
   private readonly _blockedMcpServers: Array<{
     name: string;
     extensionName: string;
   }>;
   flashFallbackHandler?: FlashFallbackHandler;
+  modelFallbackHandler?: ModelFallbackHandler;
+  private mcpClientRequestHandler?: MCPClientRequestHandler;
   private quotaErrorOccurred: boolean = false;
   private readonly summarizeToolOutput:
     | Record<string, SummarizeToolOutputSettings>
@@ -305,8 +378,16 @@ export class Config {
   private readonly cliVersion?: string;
   private readonly loadMemoryFromIncludeDirectories: boolean = false;
   private readonly tavilyApiKey?: string;
+  private readonly webSearch: WebSearchConfig;
+  private readonly hooks: HooksConfig;
+  private hookRunner: HookRunner | undefined;
+  private sessionStarted = false;
+  private readonly maxConcurrentToolCalls: number;
   private readonly chatCompression: ChatCompressionSettings | undefined;
   private readonly interactive: boolean;
+  private readonly interactiveShell: boolean;
+  private readonly outputFormat: OutputFormat;
+  private readonly resumedHistory: Content[] | undefined;
   private initialized: boolean = false;
 
   constructor(params: ConfigParameters) {
@@ -362,9 +443,18 @@ export class Config {
     this.extensionContextFilePaths = params.extensionContextFilePaths ?? [];
     this.maxSessionTurns = params.maxSessionTurns ?? -1;
     this.sessionTokenLimit = params.sessionTokenLimit ?? -1;
+    this.sessionBudgetUsd = params.sessionBudgetUsd ?? -1;
+    this.modelPricing = {
+      ...DEFAULT_MODEL_PRICING,
+      ...params.modelPricing,
+    };
+    this.modelMetadata = params.modelMetadata ?? {};
+    this.fallbackChain = params.fallbackChain ?? [];
     this.experimentalAcp = params.experimentalAcp ?? false;
     this.listExtensions = params.listExtensions ?? false;
     this._extensions = params.extensions ?? [];
+    this.subagentProfiles = params.subagentProfiles ?? [];
+    this.lspServers = { ...DEFAULT_LSP_SERVERS, ...params.lspServers };
     this._blockedMcpServers = params.blockedMcpServers ?? [];
     this.noBrowser = params.noBrowser ?? false;
     this.summarizeToolOutput = params.summarizeToolOutput;
@@ -382,9 +472,16 @@ export class Config {
       params.loadMemoryFromIncludeDirectories ?? false;
     this.chatCompression = params.chatCompression;
     this.interactive = params.interactive ?? false;
+    this.interactiveShell = params.interactiveShell ?? false;
+    this.outputFormat = params.outputFormat ?? OutputFormat.TEXT;
+    this.resumedHistory = params.resumedHistory;
 
     // Web search
     this.tavilyApiKey = params.tavilyApiKey;
+    this.webSearch = params.webSearch ?? {};
+    this.hooks = params.hooks ?? {};
+    this.maxConcurrentToolCalls =
+      params.maxConcurrentToolCalls ?? DEFAULT_MAX_CONCURRENT_TOOL_CALLS;
 
     if (params.contextFileName) {
       setGeminiMdFilename(params.contextFileName);
@@ -417,28 +514,58 @@ export class Config {
       await this.getGitService();
     }
     this.promptRegistry = new PromptRegistry();
+    this.resourceRegistry = new ResourceRegistry();
     this.toolRegistry = await this.createToolRegistry();
   }
 
   async refreshAuth(authMethod: AuthType) {
-    // Save the current conversation history before creating a new client
-    let existingHistory: Content[] = [];
-    if (this.geminiClient && this.geminiClient.isInitialized()) {
-      existingHistory = this.geminiClient.getHistory();
-    }
-
     // Create new content generator config
     const newContentGeneratorConfig = createContentGeneratorConfig(
       this,
       authMethod,
     );
 
+    await this.replaceGeminiClient(newContentGeneratorConfig);
+
+    // Reset the session flag since we're explicitly changing auth and using default model
+    this.inFallbackMode = false;
+  }
+
+  /**
+   * Switches the session to another model of the current provider. The
+   * content generator is rebuilt because some generators bind the model
+   * when they are created. The conversation history is preserved.
+   */
+  async switchModel(newModel: string): Promise<void> {
+    if (!this.contentGeneratorConfig) {
+      throw new Error('Cannot switch models before authentication');
+    }
+
+    await this.replaceGeminiClient({
+      ...this.contentGeneratorConfig,
+      model: newModel,
+    });
+
+    // The user picked this model explicitly, so it is not a fallback
+    this.inFallbackMode = false;
+  }
+
+  private async replaceGeminiClient(
+    contentGeneratorConfig: ContentGeneratorConfig,
+  ): Promise<void> {
+    // Save the current conversation history before creating a new client.
+    // The first client starts from the resumed session, if there is one.
+    let existingHistory: Content[] = this.resumedHistory ?? [];
+    if (this.geminiClient && this.geminiClient.isInitialized()) {
+      existingHistory = this.geminiClient.getHistory();
+    }
+
     // Create and initialize new client in local variable first
     const newGeminiClient = new GeminiClient(this);
-    await newGeminiClient.initialize(newContentGeneratorConfig);
+    await newGeminiClient.initialize(contentGeneratorConfig);
 
     // Only assign to instance properties after successful initialization
-    this.contentGeneratorConfig = newContentGeneratorConfig;
+    this.contentGeneratorConfig = contentGeneratorConfig;
     this.geminiClient = newGeminiClient;
 
     // Restore the conversation history to the new client
@@ -446,8 +573,15 @@ export class Config {
       this.geminiClient.setHistory(existingHistory);
     }
 
-    // Reset the session flag since we're explicitly changing auth and using default model
-    this.inFallbackMode = false;
+    // Later clients replace the first one after an auth or model change,
+    // which continues the same session.
+    if (!this.sessionStarted) {
+      this.sessionStarted = true;
+      const hookRunner = this.getHookRunner();
+      if (hookRunner.hasHooks(HookEventName.SessionStart)) {
+        await hookRunner.run(HookEventName.SessionStart, { source: 'startup' });
+      }
+    }
   }
 
   getSessionId(): string {
@@ -484,6 +618,39 @@ export class Config {
     this.flashFallbackHandler = handler;
   }
 
+  getFallbackChain(): FallbackTarget[] {
+    return this.fallbackChain;
+  }
+
+  /**
+   * Sets the handler that is told when the session falls back to another
+   * provider of the fallback chain.
+   */
+  setModelFallbackHandler(handler: ModelFallbackHandler): void {
+    this.modelFallbackHandler = handler;
+  }
+
+  /**
+   * Sets the handler that asks the user about sampling and elicitation
+   * requests of MCP servers. Without one, such requests are declined.
+   */
+  setMcpClientRequestHandler(handler?: MCPClientRequestHandler): void {
+    this.mcpClientRequestHandler = handler;
+  }
+
+  getMcpClientRequestHandler(): MCPClientRequestHandler | undefined {
+    return this.mcpClientRequestHandler;
+  }
+
+  /**
+   * Moves the session to a provider of the fallback chain. The client keeps
+   * its chat, whose content generator has already switched to the provider.
+   */
+  activateFallback(contentGeneratorConfig: ContentGeneratorConfig): void {
+    this.contentGeneratorConfig = contentGeneratorConfig;
+    this.inFallbackMode = true;
+  }
+
   getMaxSessionTurns(): number {
     return this.maxSessionTurns;
   }
@@ -492,6 +659,23 @@ export class Config {
     return this.sessionTokenLimit;
   }
 
+  getSessionBudgetUsd(): number {
+    return this.sessionBudgetUsd;
+  }
+
+  getModelPricing(): ModelPricing {
+    return this.modelPricing;
+  }
+
+  /**
+   * Returns the registry of the context windows, output limits and
+   * capabilities of models.
+   */
+  getModelRegistry(): ModelRegistry {
+    this.modelRegistry ??= new ModelRegistry(this.modelMetadata);
+    return this.modelRegistry;
+  }
+
   setQuotaErrorOccurred(value: boolean): void {
     this.quotaErrorOccurred = value;
   }
@@ -531,6 +715,72 @@ export class Config {
     return this.workspaceContext;
   }
 
+  getLspServers(): Record<string, LspServerConfig> {
+    return this.lspServers;
+  }
+
+  /**
+   * Returns the manager of the language servers used by the LSP tools. Servers
+   * are only started when a tool first needs them.
+   */
+  getLspManager(): LspManager {
+    this.lspManager ??= new LspManager(this.lspServers, this.workspaceContext);
+    return this.lspManager;
+  }
+
+  /**
+   * Returns the manager of the commands that run in the background for the
+   * session, such as dev servers and watchers.
+   */
+  getBackgroundJobManager(): BackgroundJobManager {
+    this.backgroundJobManager ??= new BackgroundJobManager();
+    return this.backgroundJobManager;
+  }
+
+  /**
+   * Returns the embedding index of the workspace used by the semantic search
+   * tool. It is only built when first searched or updated.
+   */
+  getSemanticIndex(): SemanticIndex {
+    this.semanticIndex ??= new SemanticIndex(this);
+    return this.semanticIndex;
+  }
+
+  /**
+   * Returns the service that the file tools read and write files through.
+   */
+  getFileSystemService(): FileSystemService {
+    return this.fileSystemService;
+  }
+
+  setFileSystemService(fileSystemService: FileSystemService): void {
+    this.fileSystemService = fileSystemService;
+  }
+
+  getHooks(): HooksConfig {
+    return this.hooks;
+  }
+
+  /**
+   * Returns the runner of the commands configured in the `hooks` settings.
+   */
+  getHookRunner(): HookRunner {
+    this.hookRunner ??= new HookRunner(
+      this.hooks,
+      this.sessionId,
+      this.targetDir,
+    );
+    return this.hookRunner;
+  }
+
+  /**
+   * Returns how many tool calls of a batch may run at the same time. Calls
+   * that may interfere with each other always run one at a time.
+   */
+  getMaxConcurrentToolCalls(): number {
+    return this.maxConcurrentToolCalls;
+  }
+
   getToolRegistry(): Promise<ToolRegistry> {
     return Promise.resolve(this.toolRegistry);
   }
@@ -539,6 +789,10 @@ export class Config {
     return this.promptRegistry;
   }
 
+  getResourceRegistry(): ResourceRegistry {
+    return this.resourceRegistry;
+  }
+
   getDebugMode(): boolean {
     return this.debugMode;
   }
@@ -703,6 +957,14 @@ export class Config {
     return this._extensions;
   }
 
+  getSubagentProfiles(): SubagentProfile[] {
+    return this.subagentProfiles;
+  }
+
+  getSubagentProfile(name: string): SubagentProfile | undefined {
+    return this.subagentProfiles.find((profile) => profile.name === name);
+  }
+
   getBlockedMcpServers(): Array<{ name: string; extensionName: string }> {
     return this._blockedMcpServers;
   }
@@ -726,6 +988,24 @@ export class Config {
     return this.tavilyApiKey;
   }
 
+  getWebSearchConfig(): WebSearchConfig {
+    return this.webSearch;
+  }
+
+  /**
+   * Returns the backend of the web search tool, or undefined if the selected
+   * backend is missing its API key or URL. `tavilyApiKey` is the API key of
+   * the default Tavily backend.
+   */
+  getWebSearchProvider(): WebSearchProvider | undefined {
+    const { provider = 'tavily', apiKey } = this.webSearch;
+    return createWebSearchProvider({
+      ...this.webSearch,
+      provider,
+      apiKey: apiKey ?? (provider === 'tavily' ? this.tavilyApiKey : undefined),
+    });
+  }
+
   getIdeModeFeature(): boolean {
     return this.ideModeFeature;
   }
@@ -800,6 +1080,26 @@ export class Config {
     return this.interactive;
   }
 
+  /**
+   * Returns whether shell commands run in a pseudo-terminal that the user can
+   * type into, when a PTY implementation is available.
+   */
+  getInteractiveShell(): boolean {
+    return this.interactiveShell;
+  }
+
+  getOutputFormat(): OutputFormat {
+    return this.outputFormat;
+  }
+
+  /**
+   * The conversation of a previous session restored with `--continue` or
+   * `--resume`, if any.
+   */
+  getResumedHistory(): Content[] | undefined {
+    return this.resumedHistory;
+  }
+
   async getGitService(): Promise<GitService> {
     if (!this.gitService) {
       this.gitService = new GitService(this.targetDir);
@@ -853,9 +1153,27 @@ export class Config {
     registerCoreTool(WebFetchTool, this);
     registerCoreTool(ReadManyFilesTool, this);
     registerCoreTool(ShellTool, this);
+    registerCoreTool(StartBackgroundJobTool, this);
+    registerCoreTool(ReadBackgroundJobTool, this);
+    registerCoreTool(WaitForBackgroundJobTool, this);
+    registerCoreTool(KillBackgroundJobTool, this);
     registerCoreTool(MemoryTool);
-    // Conditionally register web search tool only if Tavily API key is set
-    if (this.getTavilyApiKey()) {
+    registerCoreTool(DelegateTaskTool, this);
+    registerCoreTool(LspDefinitionTool, this);
+    registerCoreTool(LspReferencesTool, this);
+    registerCoreTool(LspWorkspaceSymbolsTool, this);
+    registerCoreTool(LspHoverTool, this);
+    registerCoreTool(LspRenamePreviewTool, this);
+    registerCoreTool(SemanticSearchTool, this);
+    if (
+      Object.keys(this.getMcpServers() ?? {}).length > 0 ||
+      this.getMcpServerCommand()
+    ) {
+      registerCoreTool(ReadMcpResourceTool, this);
+    }
+    registerCoreTool(ExitPlanModeTool, this);
+    // Conditionally register web search tool only if a search provider is configured
+    if (this.getWebSearchProvider()) {
       registerCoreTool(WebSearchTool, this);
     }
 
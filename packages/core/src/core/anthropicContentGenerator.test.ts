@@ -0,0 +1,687 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { FinishReason, GenerateContentResponse, Type } from '@google/genai';
+import {
+  AnthropicApiError,
+  AnthropicContentGenerator,
+} from './anthropicContentGenerator.js';
+import { AuthType } from './contentGenerator.js';
+import { ModelRegistry } from './modelRegistry.js';
+import { Config } from '../config/config.js';
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+type StubHandler = (
+  req: RecordedRequest,
+  res: http.ServerResponse,
+) => void | Promise<void>;
+
+function sse(events: Array<Record<string, unknown>>): string {
+  return events
+    .map(
+      (event) => `event: ${event['type']}\ndata: ${JSON.stringify(event)}\n\n`,
+    )
+    .join('');
+}
+
+function writeSse(
+  res: http.ServerResponse,
+  events: Array<Record<string, unknown>>,
+) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  res.end(sse(events));
+}
+
+async function collect(
+  stream: AsyncGenerator<GenerateContentResponse>,
+): Promise<GenerateContentResponse[]> {
+  const responses: GenerateContentResponse[] = [];
+  for await (const response of stream) {
+    responses.push(response);
+  }
+  return responses;
+}
+
+describe('AnthropicContentGenerator', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let handler: StubHandler;
+  let generator: AnthropicContentGenerator;
+
+  const mockConfig = {
+    getCliVersion: vi.fn().mockReturnValue('1.0.0'),
+    getDebugMode: vi.fn().mockReturnValue(false),
+    getModelRegistry: () => new ModelRegistry(),
+  } as unknown as Config;
+
+  beforeEach(async () => {
+    requests = [];
+    handler = (_req, res) => {
+      res.writeHead(500);
+      res.end();
+    };
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const recorded = {
+          url: req.url ?? '',
+          headers: req.headers,
+          body: raw ? JSON.parse(raw) : {},
+        };
+        requests.push(recorded);
+        void handler(recorded, res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    generator = new AnthropicContentGenerator(
+      {
+        model: 'claude-sonnet-4-20250514',
+        apiKey: 'test-key',
+        baseUrl,
+        authType: AuthType.USE_ANTHROPIC,
+      },
+      mockConfig,
+    );
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('generateContentStream', () => {
+    it('should stream text deltas and report usage on finish', async () => {
+      handler = (_req, res) =>
+        writeSse(res, [
+          {
+            type: 'message_start',
+            message: {
+              id: 'msg_1',
+              model: 'claude-sonnet-4-20250514',
+              role: 'assistant',
+              content: [],
+              stop_reason: null,
+              usage: {
+                input_tokens: 10,
+                output_tokens: 1,
+                cache_read_input_tokens: 5,
+              },
+            },
+          },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'text', text: '' },
+          },
+          { type: 'ping' },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: 'Hello' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: ' world' },
+          },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'end_turn' },
+            usage: { output_tokens: 7 },
+          },
+          { type: 'message_stop' },
+        ]);
+
+      const responses = await collect(
+        await generator.generateContentStream(
+          {
+            model: 'claude-sonnet-4-20250514',
+            contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+            config: { systemInstruction: 'Be brief.' },
+          },
+          'prompt-1',
+        ),
+      );
+
+      const text = responses
+        .flatMap((r) => r.candidates?.[0]?.content?.parts ?? [])
+        .map((p) => p.text ?? '')
+        .join('');
+      expect(text).toBe('Hello world');
+
+      const last = responses[responses.length - 1];
+      expect(last.candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+      expect(last.responseId).toBe('msg_1');
+      expect(last.usageMetadata).toEqual({
+        promptTokenCount: 15,
+        candidatesTokenCount: 7,
+        totalTokenCount: 22,
+        cachedContentTokenCount: 5,
+      });
+
+      const [request] = requests;
+      expect(request.url).toBe('/v1/messages');
+      expect(request.headers['x-api-key']).toBe('test-key');
+      expect(request.headers['anthropic-version']).toBe('2023-06-01');
+      expect(request.body['stream']).toBe(true);
+      expect(request.body['system']).toEqual([
+        {
+          type: 'text',
+          text: 'Be brief.',
+          cache_control: { type: 'ephemeral' },
+        },
+      ]);
+      expect(request.body['messages']).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Hi', cache_control: { type: 'ephemeral' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should assemble streamed tool_use input into a function call', async () => {
+      handler = (_req, res) =>
+        writeSse(res, [
+          {
+            type: 'message_start',
+            message: {
+              id: 'msg_2',
+              model: 'claude-sonnet-4-20250514',
+              role: 'assistant',
+              content: [],
+              stop_reason: null,
+              usage: { input_tokens: 3, output_tokens: 1 },
+            },
+          },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: {
+              type: 'tool_use',
+              id: 'toolu_1',
+              name: 'read_file',
+              input: {},
+            },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'input_json_delta', partial_json: '{"absolute_' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'input_json_delta', partial_json: 'path":"/a.ts"}' },
+          },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use' },
+            usage: { output_tokens: 12 },
+          },
+          { type: 'message_stop' },
+        ]);
+
+      const responses = await collect(
+        await generator.generateContentStream(
+          {
+            model: 'claude-sonnet-4-20250514',
+            contents: [{ role: 'user', parts: [{ text: 'Read a.ts' }] }],
+            config: {
+              tools: [
+                {
+                  functionDeclarations: [
+                    {
+                      name: 'read_file',
+                      description: 'Reads a file',
+                      parameters: {
+                        type: Type.OBJECT,
+                        properties: { absolute_path: { type: Type.STRING } },
+                      },
+                    },
+                  ],
+                },
+              ],
+            },
+          },
+          'prompt-2',
+        ),
+      );
+
+      const functionCalls = responses.flatMap((r) => r.functionCalls ?? []);
+      expect(functionCalls).toEqual([
+        { id: 'toolu_1', name: 'read_file', args: { absolute_path: '/a.ts' } },
+      ]);
+      expect(requests[0].body['tools']).toEqual([
+        {
+          name: 'read_file',
+          description: 'Reads a file',
+          input_schema: {
+            type: 'object',
+            properties: { absolute_path: { type: 'string' } },
+          },
+          cache_control: { type: 'ephemeral' },
+        },
+      ]);
+    });
+
+    it('should map thinking deltas to thought parts and replay them with tool results', async () => {
+      handler = (req, res) => {
+        if (requests.length > 1) {
+          writeSse(res, [
+            {
+              type: 'message_start',
+              message: {
+                id: 'msg_4',
+                model: 'claude-sonnet-4-20250514',
+                role: 'assistant',
+                content: [],
+                stop_reason: null,
+                usage: { input_tokens: 1, output_tokens: 1 },
+              },
+            },
+            {
+              type: 'message_delta',
+              delta: { stop_reason: 'end_turn' },
+              usage: { output_tokens: 1 },
+            },
+          ]);
+          return;
+        }
+        writeSse(res, [
+          {
+            type: 'message_start',
+            message: {
+              id: 'msg_3',
+              model: 'claude-sonnet-4-20250514',
+              role: 'assistant',
+              content: [],
+              stop_reason: null,
+              usage: { input_tokens: 3, output_tokens: 1 },
+            },
+          },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'thinking', thinking: '', signature: '' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: {
+              type: 'thinking_delta',
+              thinking: 'Checking the file first. It may be large.\n\nThen',
+            },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'thinking_delta', thinking: ' summarize' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'signature_delta', signature: 'sig-123' },
+          },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'content_block_start',
+            index: 1,
+            content_block: {
+              type: 'tool_use',
+              id: 'toolu_9',
+              name: 'ls',
+              input: { path: '/' },
+            },
+          },
+          { type: 'content_block_stop', index: 1 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use' },
+            usage: { output_tokens: 20 },
+          },
+        ]);
+      };
+
+      const thinkingConfig = { includeThoughts: true };
+      const responses = await collect(
+        await generator.generateContentStream(
+          {
+            model: 'claude-sonnet-4-20250514',
+            contents: [{ role: 'user', parts: [{ text: 'List /' }] }],
+            config: { thinkingConfig },
+          },
+          'prompt-3',
+        ),
+      );
+
+      const thoughts = responses
+        .map((r) => r.candidates?.[0]?.content?.parts?.[0])
+        .filter((part) => part?.thought)
+        .map((part) => part?.text);
+      expect(thoughts).toEqual([
+        '**Checking the file first** Checking the file first. It may be large.',
+        '**Then summarize** Then summarize',
+      ]);
+      expect(requests[0].body['thinking']).toEqual({
+        type: 'enabled',
+        budget_tokens: 2048,
+      });
+      expect(requests[0].body['temperature']).toBeUndefined();
+
+      await collect(
+        await generator.generateContentStream(
+          {
+            model: 'claude-sonnet-4-20250514',
+            contents: [
+              { role: 'user', parts: [{ text: 'List /' }] },
+              {
+                role: 'model',
+                parts: [
+                  {
+                    functionCall: {
+                      id: 'toolu_9',
+                      name: 'ls',
+                      args: { path: '/' },
+                    },
+                  },
+                ],
+              },
+              {
+                role: 'user',
+                parts: [
+                  {
+                    functionResponse: {
+                      id: 'toolu_9',
+                      name: 'ls',
+                      response: { output: 'a.ts' },
+                    },
+                  },
+                ],
+              },
+            ],
+            config: { thinkingConfig },
+          },
+          'prompt-3',
+        ),
+      );
+
+      const messages = requests[1].body['messages'] as Array<{
+        role: string;
+        content: Array<Record<string, unknown>>;
+      }>;
+      expect(messages[1].content).toEqual([
+        {
+          type: 'thinking',
+          thinking:
+            'Checking the file first. It may be large.\n\nThen summarize',
+          signature: 'sig-123',
+        },
+        { type: 'tool_use', id: 'toolu_9', name: 'ls', input: { path: '/' } },
+      ]);
+      expect(messages[2].content[0]).toMatchObject({
+        type: 'tool_result',
+        tool_use_id: 'toolu_9',
+        content: '{"output":"a.ts"}',
+      });
+      expect(requests[1].body['thinking']).toBeDefined();
+    });
+
+    it('should throw an AnthropicApiError for mid-stream error events', async () => {
+      handler = (_req, res) =>
+        writeSse(res, [
+          {
+            type: 'error',
+            error: { type: 'overloaded_error', message: 'Overloaded' },
+          },
+        ]);
+
+      const stream = await generator.generateContentStream(
+        {
+          model: 'claude-sonnet-4-20250514',
+          contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        },
+        'prompt-4',
+      );
+
+      await expect(collect(stream)).rejects.toMatchObject({
+        name: 'AnthropicApiError',
+        status: 529,
+        type: 'overloaded_error',
+      });
+    });
+  });
+
+  describe('generateContent', () => {
+    it('should convert a non-streaming message and drop orphaned tool calls', async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            id: 'msg_5',
+            model: 'claude-sonnet-4-20250514',
+            role: 'assistant',
+            content: [{ type: 'text', text: 'Done.' }],
+            stop_reason: 'max_tokens',
+            usage: { input_tokens: 4, output_tokens: 2 },
+          }),
+        );
+      };
+
+      const response = await generator.generateContent(
+        {
+          model: 'claude-sonnet-4-20250514',
+          contents: [
+            { role: 'user', parts: [{ text: 'Go' }] },
+            {
+              role: 'model',
+              parts: [
+                { text: 'Calling' },
+                { functionCall: { id: 'orphan', name: 'ls', args: {} } },
+              ],
+            },
+            { role: 'user', parts: [{ text: 'Continue' }] },
+          ],
+        },
+        'prompt-5',
+      );
+
+      expect(response.text).toBe('Done.');
+      expect(response.candidates?.[0]?.finishReason).toBe(
+        FinishReason.MAX_TOKENS,
+      );
+      expect(requests[0].body['messages']).toEqual([
+        { role: 'user', content: [{ type: 'text', text: 'Go' }] },
+        { role: 'assistant', content: [{ type: 'text', text: 'Calling' }] },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: 'Continue',
+              cache_control: { type: 'ephemeral' },
+            },
+          ],
+        },
+      ]);
+      expect(requests[0].body['temperature']).toBe(0);
+      expect(requests[0].body['max_tokens']).toBe(64_000);
+    });
+
+    it('should pair function calls and responses that have no ids', async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            id: 'msg_6',
+            model: 'claude-sonnet-4-20250514',
+            role: 'assistant',
+            content: [{ type: 'text', text: 'Both exist.' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 4, output_tokens: 2 },
+          }),
+        );
+      };
+
+      await generator.generateContent(
+        {
+          model: 'claude-sonnet-4-20250514',
+          contents: [
+            { role: 'user', parts: [{ text: 'Do a and b exist?' }] },
+            {
+              role: 'model',
+              parts: [
+                { functionCall: { name: 'ls', args: { path: 'a' } } },
+                { functionCall: { name: 'ls', args: { path: 'b' } } },
+              ],
+            },
+            {
+              role: 'user',
+              parts: [
+                { functionResponse: { name: 'ls', response: { output: 'a' } } },
+                { functionResponse: { name: 'ls', response: { output: 'b' } } },
+              ],
+            },
+          ],
+        },
+        'prompt-7',
+      );
+
+      const messages = requests[0].body['messages'] as Array<{
+        content: Array<Record<string, unknown>>;
+      }>;
+      expect(messages[1].content).toEqual([
+        {
+          type: 'tool_use',
+          id: 'toolu_generated_1',
+          name: 'ls',
+          input: { path: 'a' },
+        },
+        {
+          type: 'tool_use',
+          id: 'toolu_generated_2',
+          name: 'ls',
+          input: { path: 'b' },
+        },
+      ]);
+      expect(messages[2].content.map((block) => block['tool_use_id'])).toEqual([
+        'toolu_generated_1',
+        'toolu_generated_2',
+      ]);
+    });
+
+    it('should surface HTTP errors with status and request id', async () => {
+      handler = (_req, res) => {
+        res.writeHead(429, {
+          'Content-Type': 'application/json',
+          'request-id': 'req_123',
+        });
+        res.end(
+          JSON.stringify({
+            type: 'error',
+            error: { type: 'rate_limit_error', message: 'Slow down' },
+          }),
+        );
+      };
+
+      const error = await generator
+        .generateContent(
+          {
+            model: 'claude-sonnet-4-20250514',
+            contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+          },
+          'prompt-6',
+        )
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AnthropicApiError);
+      expect(error).toMatchObject({
+        status: 429,
+        type: 'rate_limit_error',
+        requestId: 'req_123',
+        message: 'Anthropic API error (429): Slow down',
+      });
+    });
+  });
+
+  describe('countTokens', () => {
+    it('should use the count_tokens endpoint', async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ input_tokens: 42 }));
+      };
+
+      const result = await generator.countTokens({
+        model: 'claude-sonnet-4-20250514',
+        contents: [{ role: 'user', parts: [{ text: 'How many?' }] }],
+      });
+
+      expect(result.totalTokens).toBe(42);
+      expect(requests[0].url).toBe('/v1/messages/count_tokens');
+      expect(requests[0].body['model']).toBe('claude-sonnet-4-20250514');
+    });
+
+    it('should estimate the count without warning when the API fails', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+      const result = await generator.countTokens({
+        model: 'claude-sonnet-4-20250514',
+        contents: [{ role: 'user', parts: [{ text: 'How many?' }] }],
+      });
+
+      expect(result.totalTokens).toBeGreaterThan(0);
+      expect(warnSpy).not.toHaveBeenCalled();
+      expect(debugSpy).not.toHaveBeenCalled();
+
+      vi.mocked(mockConfig.getDebugMode).mockReturnValueOnce(true);
+      await generator.countTokens({
+        model: 'claude-sonnet-4-20250514',
+        contents: [{ role: 'user', parts: [{ text: 'How many?' }] }],
+      });
+      expect(debugSpy).toHaveBeenCalledWith(
+        'Anthropic token counting failed, falling back to character approximation:',
+        expect.any(Error),
+      );
+      warnSpy.mockRestore();
+      debugSpy.mockRestore();
+    });
+
+    it('should not call the API for empty contents', async () => {
+      const result = await generator.countTokens({
+        model: 'claude-sonnet-4-20250514',
+        contents: [],
+      });
+
+      expect(result.totalTokens).toBe(0);
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  it('should reject embedding requests', async () => {
+    await expect(
+      generator.embedContent({
+        model: 'claude-sonnet-4-20250514',
+        contents: ['text'],
+      }),
+    ).rejects.toThrow('Anthropic does not provide an embeddings API');
+  });
+});
@@ -0,0 +1,1016 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CallableTool,
+  Content,
+  ContentListUnion,
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  Tool,
+  ToolListUnion,
+} from '@google/genai';
+import {
+  ContentGenerator,
+  ContentGeneratorConfig,
+} from './contentGenerator.js';
+import { Config } from '../config/config.js';
+import { toContents } from '../code_assist/converter.js';
+import { safeJsonParse } from '../utils/safeJsonParse.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const DEFAULT_TIMEOUT_MS = 120000;
+// Claude 3 models cap output at 4096 tokens, so this is the only safe default.
+const DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_THINKING_BUDGET = 2048;
+const MIN_THINKING_BUDGET = 1024;
+const MAX_THOUGHT_SUBJECT_LENGTH = 80;
+
+type CacheControl = { type: 'ephemeral' };
+
+interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+  cache_control?: CacheControl;
+}
+
+interface AnthropicImageBlock {
+  type: 'image';
+  source: { type: 'base64'; media_type: string; data: string };
+  cache_control?: CacheControl;
+}
+
+interface AnthropicDocumentBlock {
+  type: 'document';
+  source: { type: 'base64'; media_type: string; data: string };
+  cache_control?: CacheControl;
+}
+
+interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  cache_control?: CacheControl;
+}
+
+interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+  cache_control?: CacheControl;
+}
+
+interface AnthropicThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+}
+
+interface AnthropicRedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+type AnthropicThinkingContent =
+  | AnthropicThinkingBlock
+  | AnthropicRedactedThinkingBlock;
+
+type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicDocumentBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | AnthropicThinkingContent;
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+  cache_control?: CacheControl;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface AnthropicMessagesRequest {
+  model: string;
+  max_tokens: number;
+  messages: AnthropicMessage[];
+  system?: AnthropicTextBlock[];
+  tools?: AnthropicTool[];
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  thinking?: { type: 'enabled'; budget_tokens: number };
+}
+
+interface AnthropicMessagesResponse {
+  id: string;
+  model: string;
+  role: 'assistant';
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: AnthropicUsage;
+}
+
+type AnthropicContentDelta =
+  | { type: 'text_delta'; text: string }
+  | { type: 'input_json_delta'; partial_json: string }
+  | { type: 'thinking_delta'; thinking: string }
+  | { type: 'signature_delta'; signature: string };
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicMessagesResponse }
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: AnthropicContentBlock;
+    }
+  | { type: 'content_block_delta'; index: number; delta: AnthropicContentDelta }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason: string | null };
+      usage?: AnthropicUsage;
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+/**
+ * State for a content block that is still being streamed.
+ */
+interface StreamingBlock {
+  block: AnthropicContentBlock;
+  partialJson: string;
+  pendingThought: string;
+}
+
+/**
+ * Error returned by the Anthropic Messages API. `status` is the HTTP status
+ * so that `retryWithBackoff` can treat 429/5xx responses as transient.
+ */
+export class AnthropicApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly type?: string,
+    readonly requestId?: string,
+  ) {
+    super(message);
+    this.name = 'AnthropicApiError';
+  }
+}
+
+/**
+ * Maps Anthropic error types that arrive mid-stream (and therefore carry no
+ * HTTP status) to the status the same error would have had as a response.
+ */
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * Parses a `text/event-stream` body into the JSON payloads of its events.
+ */
+async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<AnthropicStreamEvent> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+
+  const parseEvent = (rawEvent: string): AnthropicStreamEvent | undefined => {
+    const data = rawEvent
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    return data ? (JSON.parse(data) as AnthropicStreamEvent) : undefined;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let separatorIndex = buffer.indexOf('\n\n');
+      while (separatorIndex !== -1) {
+        const event = parseEvent(buffer.slice(0, separatorIndex));
+        buffer = buffer.slice(separatorIndex + 2);
+        if (event) {
+          yield event;
+        }
+        separatorIndex = buffer.indexOf('\n\n');
+      }
+    }
+
+    const trailingEvent = parseEvent(buffer + decoder.decode());
+    if (trailingEvent) {
+      yield trailingEvent;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Gemini thoughts carry a bold subject (e.g. `**Planning**`) that the UI
+ * shows as the loading phrase. Claude's thinking is plain prose, so the first
+ * sentence of each paragraph is promoted to the subject.
+ */
+function toThoughtText(paragraph: string): string {
+  const trimmed = paragraph.trim();
+  if (/\*\*(.*?)\*\*/s.test(trimmed)) {
+    return trimmed;
+  }
+  const sentenceEnd = trimmed.search(/[.!?:\n]/);
+  let subject = sentenceEnd === -1 ? trimmed : trimmed.slice(0, sentenceEnd);
+  if (subject.length > MAX_THOUGHT_SUBJECT_LENGTH) {
+    subject = `${subject.slice(0, MAX_THOUGHT_SUBJECT_LENGTH - 3)}...`;
+  }
+  return `**${subject.trim()}** ${trimmed}`;
+}
+
+function mapStopReason(stopReason: string | null | undefined): FinishReason {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'tool_use':
+    case 'stop_sequence':
+    case 'pause_turn':
+      return FinishReason.STOP;
+    case 'max_tokens':
+      return FinishReason.MAX_TOKENS;
+    case 'refusal':
+      return FinishReason.SAFETY;
+    default:
+      return FinishReason.FINISH_REASON_UNSPECIFIED;
+  }
+}
+
+function convertUsage(
+  usage: AnthropicUsage,
+): GenerateContentResponseUsageMetadata {
+  const cachedTokens = usage.cache_read_input_tokens ?? 0;
+  const promptTokens =
+    (usage.input_tokens ?? 0) +
+    cachedTokens +
+    (usage.cache_creation_input_tokens ?? 0);
+  const outputTokens = usage.output_tokens ?? 0;
+  return {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: outputTokens,
+    totalTokenCount: promptTokens + outputTokens,
+    cachedContentTokenCount: cachedTokens,
+  };
+}
+
+/**
+ * Lowercases Gemini `Type` enum values so `parameters` schemas become valid
+ * JSON Schema for `input_schema`.
+ */
+function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toJsonSchema);
+  }
+  if (typeof schema !== 'object' || schema === null) {
+    return schema;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    result[key] =
+      key === 'type' && typeof value === 'string'
+        ? value.toLowerCase()
+        : toJsonSchema(value);
+  }
+  return result;
+}
+
+function collectText(contents: ContentListUnion): string {
+  return toContents(contents)
+    .flatMap((content) => content.parts ?? [])
+    .map((part) => part.text ?? '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Gives ids to function calls and responses that have none, e.g. in history
+ * recorded while another provider was in use. The ids only depend on the
+ * position of the calls in the history, so they stay the same across
+ * requests, and each response gets the id of the earliest unanswered call
+ * to the same function.
+ */
+class ToolUseIdAssigner {
+  private count = 0;
+  private readonly pending = new Map<string, string[]>();
+
+  forCall(name = ''): string {
+    const id = `toolu_generated_${++this.count}`;
+    const ids = this.pending.get(name) ?? [];
+    ids.push(id);
+    this.pending.set(name, ids);
+    return id;
+  }
+
+  forResponse(name = ''): string {
+    return this.pending.get(name)?.shift() ?? `toolu_generated_${++this.count}`;
+  }
+}
+
+/**
+ * ContentGenerator backed by the native Anthropic Messages API, so Claude gets
+ * tool_use/tool_result blocks, extended thinking, prompt caching and exact
+ * token counts instead of the OpenAI compatibility layer.
+ */
+export class AnthropicContentGenerator implements ContentGenerator {
+  private readonly model: string;
+  private readonly maxOutputTokens: number;
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  /**
+   * Thinking blocks keyed by the id of the tool_use they led to. The API
+   * requires them to be replayed verbatim when continuing a tool-use turn, but
+   * GeminiChat never records thoughts in history.
+   */
+  private readonly thinkingByToolUseId = new Map<
+    string,
+    AnthropicThinkingContent[]
+  >();
+
+  constructor(
+    private readonly contentGeneratorConfig: ContentGeneratorConfig,
+    private readonly gcConfig: Config,
+  ) {
+    this.model = contentGeneratorConfig.model;
+    this.maxOutputTokens =
+      gcConfig
+        .getModelRegistry()
+        .getMetadata(this.model, contentGeneratorConfig.authType)
+        .maxOutputTokens ?? DEFAULT_MAX_TOKENS;
+    this.baseUrl = (contentGeneratorConfig.baseUrl || DEFAULT_BASE_URL)
+      .replace(/\/+$/, '')
+      .replace(/\/v1$/, '');
+
+    const version = gcConfig.getCliVersion() || 'unknown';
+    this.headers = {
+      'Content-Type': 'application/json',
+      'User-Agent': `CodeDuet/${version} (${process.platform}; ${process.arch})`,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'x-api-key': contentGeneratorConfig.apiKey ?? '',
+    };
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const body = await this.buildMessagesRequest(request);
+    const response = await this.post(
+      '/v1/messages',
+      body,
+      request.config?.abortSignal,
+    );
+    const message = (await response.json()) as AnthropicMessagesResponse;
+    return this.convertMessageToGemini(message);
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const body = await this.buildMessagesRequest(request);
+    body.stream = true;
+    const response = await this.post(
+      '/v1/messages',
+      body,
+      request.config?.abortSignal,
+    );
+    if (!response.body) {
+      throw new AnthropicApiError('Anthropic API returned an empty stream');
+    }
+    return this.streamGenerator(response.body);
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    const messages = this.convertContentsToMessages(
+      toContents(request.contents),
+    );
+    if (messages.length === 0) {
+      return { totalTokens: 0 };
+    }
+
+    const body: Record<string, unknown> = { model: this.model, messages };
+    if (request.config?.systemInstruction) {
+      const system = collectText(request.config.systemInstruction);
+      if (system) {
+        body['system'] = system;
+      }
+    }
+    if (request.config?.tools) {
+      const tools = await this.convertTools(request.config.tools);
+      if (tools.length > 0) {
+        body['tools'] = tools;
+      }
+    }
+
+    try {
+      const response = await this.post(
+        '/v1/messages/count_tokens',
+        body,
+        request.config?.abortSignal,
+      );
+      const result = (await response.json()) as { input_tokens: number };
+      return { totalTokens: result.input_tokens };
+    } catch (error) {
+      if (this.gcConfig.getDebugMode()) {
+        console.debug(
+          'Anthropic token counting failed, falling back to character approximation:',
+          error,
+        );
+      }
+      // Rough estimate: 1 token ≈ 4 characters
+      return { totalTokens: Math.ceil(JSON.stringify(body).length / 4) };
+    }
+  }
+
+  async embedContent(
+    _request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    throw new Error(
+      'Anthropic does not provide an embeddings API. Configure a different provider for embeddings.',
+    );
+  }
+
+  private async post(
+    path: string,
+    body: unknown,
+    abortSignal?: AbortSignal,
+  ): Promise<Response> {
+    const timeout = this.contentGeneratorConfig.timeout ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    abortSignal?.addEventListener('abort', onAbort);
+    // The timeout only covers waiting for response headers; long streams are
+    // bounded by the model's max_tokens instead.
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted && !abortSignal?.aborted) {
+        throw new AnthropicApiError(
+          `Request timed out after ${Math.round(timeout / 1000)}s. Try reducing input length or increasing timeout in config: contentGenerator.timeout`,
+          undefined,
+          'timeout',
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      abortSignal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!response.ok) {
+      throw await this.toApiError(response);
+    }
+    return response;
+  }
+
+  private async toApiError(response: Response): Promise<AnthropicApiError> {
+    const requestId = response.headers.get('request-id') ?? undefined;
+    const text = await response.text();
+    const parsed = safeJsonParse<{
+      error?: { type?: string; message?: string };
+    }>(text, {});
+    const message = parsed.error?.message || text || response.statusText;
+    return new AnthropicApiError(
+      `Anthropic API error (${response.status}): ${message}`,
+      response.status,
+      parsed.error?.type,
+      requestId,
+    );
+  }
+
+  private async buildMessagesRequest(
+    request: GenerateContentParameters,
+  ): Promise<AnthropicMessagesRequest> {
+    const messages = this.convertContentsToMessages(
+      toContents(request.contents),
+    );
+    const samplingParams = this.contentGeneratorConfig.samplingParams;
+    const body: AnthropicMessagesRequest = {
+      model: this.model,
+      max_tokens:
+        samplingParams?.max_tokens ??
+        request.config?.maxOutputTokens ??
+        this.maxOutputTokens,
+      messages,
+    };
+
+    if (request.config?.systemInstruction) {
+      const systemText = collectText(request.config.systemInstruction);
+      if (systemText) {
+        body.system = [{ type: 'text', text: systemText }];
+      }
+    }
+
+    if (request.config?.tools) {
+      const tools = await this.convertTools(request.config.tools);
+      if (tools.length > 0) {
+        body.tools = tools;
+      }
+    }
+
+    if (request.config?.stopSequences?.length) {
+      body.stop_sequences = request.config.stopSequences;
+    }
+
+    const thinkingBudget = this.getThinkingBudget(request, messages);
+    if (thinkingBudget !== undefined) {
+      // Extended thinking rejects temperature/top_k and needs headroom in
+      // max_tokens for the answer itself.
+      body.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+      if (body.max_tokens <= thinkingBudget) {
+        body.max_tokens = thinkingBudget + DEFAULT_MAX_TOKENS;
+      }
+      if (samplingParams?.top_p !== undefined && samplingParams.top_p >= 0.95) {
+        body.top_p = samplingParams.top_p;
+      }
+    } else {
+      // Sampling parameters: config > request > default. top_p is only sent
+      // when set explicitly because newer models reject it alongside temperature.
+      body.temperature =
+        samplingParams?.temperature ?? request.config?.temperature ?? 0.0;
+      const topP = samplingParams?.top_p ?? request.config?.topP;
+      if (topP !== undefined) {
+        body.top_p = topP;
+      }
+      const topK = samplingParams?.top_k ?? request.config?.topK;
+      if (topK !== undefined) {
+        body.top_k = topK;
+      }
+    }
+
+    this.addCacheControl(body);
+    return body;
+  }
+
+  /**
+   * Returns the thinking budget for this request, or undefined when thinking
+   * should be off. Thinking is skipped when the pending tool-use turn has no
+   * recorded thinking (e.g. it was produced before thinking was enabled),
+   * because the API rejects such a continuation.
+   */
+  private getThinkingBudget(
+    request: GenerateContentParameters,
+    messages: AnthropicMessage[],
+  ): number | undefined {
+    const thinkingConfig = request.config?.thinkingConfig;
+    if (
+      !thinkingConfig?.includeThoughts ||
+      thinkingConfig.thinkingBudget === 0
+    ) {
+      return undefined;
+    }
+
+    const lastAssistant = [...messages]
+      .reverse()
+      .find((message) => message.role === 'assistant');
+    if (
+      lastAssistant &&
+      lastAssistant.content.some((block) => block.type === 'tool_use') &&
+      !lastAssistant.content.some(
+        (block) =>
+          block.type === 'thinking' || block.type === 'redacted_thinking',
+      )
+    ) {
+      return undefined;
+    }
+
+    const requested = thinkingConfig.thinkingBudget;
+    return requested && requested > 0
+      ? Math.max(requested, MIN_THINKING_BUDGET)
+      : DEFAULT_THINKING_BUDGET;
+  }
+
+  /**
+   * Marks the tools, the system prompt and the latest message as cache
+   * breakpoints so repeated turns only pay for the new suffix.
+   */
+  private addCacheControl(body: AnthropicMessagesRequest): void {
+    const ephemeral: CacheControl = { type: 'ephemeral' };
+    if (body.tools && body.tools.length > 0) {
+      body.tools[body.tools.length - 1].cache_control = ephemeral;
+    }
+    if (body.system && body.system.length > 0) {
+      body.system[body.system.length - 1].cache_control = ephemeral;
+    }
+    const lastMessage = body.messages[body.messages.length - 1];
+    const lastBlock = lastMessage?.content[lastMessage.content.length - 1];
+    if (
+      lastBlock &&
+      lastBlock.type !== 'thinking' &&
+      lastBlock.type !== 'redacted_thinking'
+    ) {
+      lastBlock.cache_control = ephemeral;
+    }
+  }
+
+  private async convertTools(tools: ToolListUnion): Promise<AnthropicTool[]> {
+    const anthropicTools: AnthropicTool[] = [];
+    for (const tool of tools) {
+      const actualTool: Tool =
+        'tool' in tool ? await (tool as CallableTool).tool() : (tool as Tool);
+
+      for (const func of actualTool.functionDeclarations ?? []) {
+        if (!func.name) {
+          continue;
+        }
+        // MCP tools already carry JSON Schema; Gemini tools need conversion.
+        const schema = func.parametersJsonSchema
+          ? { ...(func.parametersJsonSchema as Record<string, unknown>) }
+          : (toJsonSchema(func.parameters ?? {}) as Record<string, unknown>);
+        anthropicTools.push({
+          name: func.name,
+          description: func.description ?? '',
+          input_schema: { type: 'object', ...schema },
+        });
+      }
+    }
+    return anthropicTools;
+  }
+
+  private convertPart(
+    part: Part,
+    toolUseIds: ToolUseIdAssigner,
+  ): AnthropicContentBlock | undefined {
+    if (part.thought) {
+      return undefined;
+    }
+    if (part.functionCall) {
+      return {
+        type: 'tool_use',
+        id: part.functionCall.id || toolUseIds.forCall(part.functionCall.name),
+        name: part.functionCall.name || '',
+        input: (part.functionCall.args ?? {}) as Record<string, unknown>,
+      };
+    }
+    if (part.functionResponse) {
+      const response = part.functionResponse.response;
+      return {
+        type: 'tool_result',
+        tool_use_id:
+          part.functionResponse.id ||
+          toolUseIds.forResponse(part.functionResponse.name),
+        content:
+          typeof response === 'string' ? response : JSON.stringify(response),
+        ...(response && 'error' in response ? { is_error: true } : {}),
+      };
+    }
+    if (part.inlineData?.data && part.inlineData.mimeType) {
+      const source = {
+        type: 'base64' as const,
+        media_type: part.inlineData.mimeType,
+        data: part.inlineData.data,
+      };
+      if (part.inlineData.mimeType.startsWith('image/')) {
+        return { type: 'image', source };
+      }
+      if (part.inlineData.mimeType === 'application/pdf') {
+        return { type: 'document', source };
+      }
+      return undefined;
+    }
+    if (part.text) {
+      return { type: 'text', text: part.text };
+    }
+    return undefined;
+  }
+
+  private convertContentsToMessages(contents: Content[]): AnthropicMessage[] {
+    const messages: AnthropicMessage[] = [];
+    const toolUseIds = new ToolUseIdAssigner();
+    for (const content of contents) {
+      const role = content.role === 'model' ? 'assistant' : 'user';
+      const blocks = (content.parts ?? [])
+        .map((part) => this.convertPart(part, toolUseIds))
+        .filter((block): block is AnthropicContentBlock => !!block);
+      if (blocks.length > 0) {
+        messages.push({ role, content: blocks });
+      }
+    }
+    return this.restoreThinkingBlocks(
+      this.mergeConsecutiveMessages(this.removeOrphanedToolBlocks(messages)),
+    );
+  }
+
+  /**
+   * Drops tool_use blocks without a matching tool_result and vice versa; the
+   * API rejects a conversation containing either.
+   */
+  private removeOrphanedToolBlocks(
+    messages: AnthropicMessage[],
+  ): AnthropicMessage[] {
+    const toolUseIds = new Set<string>();
+    const toolResultIds = new Set<string>();
+    for (const message of messages) {
+      for (const block of message.content) {
+        if (block.type === 'tool_use') {
+          toolUseIds.add(block.id);
+        } else if (block.type === 'tool_result') {
+          toolResultIds.add(block.tool_use_id);
+        }
+      }
+    }
+
+    return messages
+      .map((message) => ({
+        ...message,
+        content: message.content.filter((block) => {
+          if (block.type === 'tool_use') {
+            return toolResultIds.has(block.id);
+          }
+          if (block.type === 'tool_result') {
+            return toolUseIds.has(block.tool_use_id);
+          }
+          return true;
+        }),
+      }))
+      .filter((message) => message.content.length > 0);
+  }
+
+  private mergeConsecutiveMessages(
+    messages: AnthropicMessage[],
+  ): AnthropicMessage[] {
+    const merged: AnthropicMessage[] = [];
+    for (const message of messages) {
+      const last = merged[merged.length - 1];
+      if (last && last.role === message.role) {
+        last.content.push(...message.content);
+      } else {
+        merged.push({ role: message.role, content: [...message.content] });
+      }
+    }
+
+    // Tool results must lead the user message that answers a tool_use turn.
+    for (const message of merged) {
+      if (message.role === 'user') {
+        message.content.sort(
+          (a, b) =>
+            Number(b.type === 'tool_result') - Number(a.type === 'tool_result'),
+        );
+      }
+    }
+    return merged;
+  }
+
+  private restoreThinkingBlocks(
+    messages: AnthropicMessage[],
+  ): AnthropicMessage[] {
+    for (const message of messages) {
+      if (message.role !== 'assistant') {
+        continue;
+      }
+      const thinking = new Set<AnthropicThinkingContent>();
+      for (const block of message.content) {
+        if (block.type === 'tool_use') {
+          for (const thought of this.thinkingByToolUseId.get(block.id) ?? []) {
+            thinking.add(thought);
+          }
+        }
+      }
+      if (thinking.size > 0) {
+        message.content.unshift(...thinking);
+      }
+    }
+    return messages;
+  }
+
+  private rememberThinking(
+    thinking: AnthropicThinkingContent[],
+    toolUseIds: string[],
+  ): void {
+    if (thinking.length === 0) {
+      return;
+    }
+    for (const id of toolUseIds) {
+      this.thinkingByToolUseId.set(id, thinking);
+    }
+  }
+
+  private createResponse(
+    responseId: string,
+    parts: Part[],
+    finishReason?: FinishReason,
+  ): GenerateContentResponse {
+    const response = new GenerateContentResponse();
+    response.responseId = responseId;
+    response.createTime = Date.now().toString();
+    response.modelVersion = this.model;
+    response.candidates = [
+      {
+        content: { parts, role: 'model' },
+        index: 0,
+        safetyRatings: [],
+        ...(finishReason !== undefined ? { finishReason } : {}),
+      },
+    ];
+    response.promptFeedback = { safetyRatings: [] };
+    return response;
+  }
+
+  private convertMessageToGemini(
+    message: AnthropicMessagesResponse,
+  ): GenerateContentResponse {
+    const parts: Part[] = [];
+    const thinking: AnthropicThinkingContent[] = [];
+    const toolUseIds: string[] = [];
+
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        parts.push({ text: block.text });
+      } else if (block.type === 'tool_use') {
+        toolUseIds.push(block.id);
+        parts.push({
+          functionCall: { id: block.id, name: block.name, args: block.input },
+        });
+      } else if (
+        block.type === 'thinking' ||
+        block.type === 'redacted_thinking'
+      ) {
+        thinking.push(block);
+      }
+    }
+    this.rememberThinking(thinking, toolUseIds);
+
+    const response = this.createResponse(
+      message.id,
+      parts,
+      mapStopReason(message.stop_reason),
+    );
+    response.usageMetadata = convertUsage(message.usage);
+    return response;
+  }
+
+  private async *streamGenerator(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    let responseId = '';
+    let usage: AnthropicUsage = {};
+    const blocks = new Map<number, StreamingBlock>();
+    const thinking: AnthropicThinkingContent[] = [];
+    const toolUseIds: string[] = [];
+
+    const thoughtResponse = (paragraph: string) =>
+      this.createResponse(responseId, [
+        { text: toThoughtText(paragraph), thought: true },
+      ]);
+
+    for await (const event of parseServerSentEvents(body)) {
+      switch (event.type) {
+        case 'message_start':
+          responseId = event.message.id;
+          usage = { ...event.message.usage };
+          break;
+
+        case 'content_block_start':
+          blocks.set(event.index, {
+            block: { ...event.content_block },
+            partialJson: '',
+            pendingThought: '',
+          });
+          break;
+
+        case 'content_block_delta': {
+          const current = blocks.get(event.index);
+          if (!current) {
+            break;
+          }
+          const { block } = current;
+          const { delta } = event;
+          if (delta.type === 'text_delta' && delta.text) {
+            yield this.createResponse(responseId, [{ text: delta.text }]);
+          } else if (delta.type === 'input_json_delta') {
+            current.partialJson += delta.partial_json;
+          } else if (
+            delta.type === 'thinking_delta' &&
+            block.type === 'thinking'
+          ) {
+            block.thinking += delta.thinking;
+            current.pendingThought += delta.thinking;
+            // Surface one thought per paragraph rather than per token.
+            let paragraphEnd = current.pendingThought.indexOf('\n\n');
+            while (paragraphEnd !== -1) {
+              const paragraph = current.pendingThought.slice(0, paragraphEnd);
+              current.pendingThought = current.pendingThought.slice(
+                paragraphEnd + 2,
+              );
+              if (paragraph.trim()) {
+                yield thoughtResponse(paragraph);
+              }
+              paragraphEnd = current.pendingThought.indexOf('\n\n');
+            }
+          } else if (
+            delta.type === 'signature_delta' &&
+            block.type === 'thinking'
+          ) {
+            block.signature = (block.signature ?? '') + delta.signature;
+          }
+          break;
+        }
+
+        case 'content_block_stop': {
+          const current = blocks.get(event.index);
+          blocks.delete(event.index);
+          if (!current) {
+            break;
+          }
+          const { block } = current;
+          if (block.type === 'thinking' || block.type === 'redacted_thinking') {
+            thinking.push(block);
+            if (current.pendingThought.trim()) {
+              yield thoughtResponse(current.pendingThought);
+            }
+          } else if (block.type === 'tool_use') {
+            toolUseIds.push(block.id);
+            const args = current.partialJson
+              ? safeJsonParse<Record<string, unknown>>(current.partialJson, {})
+              : block.input;
+            yield this.createResponse(responseId, [
+              { functionCall: { id: block.id, name: block.name, args } },
+            ]);
+          }
+          break;
+        }
+
+        case 'message_delta': {
+          usage = { ...usage, ...event.usage };
+          const response = this.createResponse(
+            responseId,
+            [],
+            mapStopReason(event.delta.stop_reason),
+          );
+          response.usageMetadata = convertUsage(usage);
+          yield response;
+          break;
+        }
+
+        case 'error':
+          throw new AnthropicApiError(
+            `Anthropic API streaming error: ${event.error.message}`,
+            STREAM_ERROR_STATUS[event.error.type],
+            event.error.type,
+          );
+
+        default:
+          // message_stop and ping carry nothing to forward.
+          break;
+      }
+    }
+
+    this.rememberThinking(thinking, toolUseIds);
+  }
+}
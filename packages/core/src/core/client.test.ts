@@ -16,14 +16,23 @@ import {
 import { findIndexAfterFraction, GeminiClient } from './client.js';
 import { AuthType, ContentGenerator } from './contentGenerator.js';
 import { GeminiChat } from './geminiChat.js';
-import { Config } from '../config/config.js';
+import { ApprovalMode, Config } from '../config/config.js';
 import { GeminiEventType, Turn } from './turn.js';
-import { getCoreSystemPrompt } from './prompts.js';
+import {
+  getCoreSystemPrompt,
+  getPlanModeExitPrompt,
+  getPlanModePrompt,
+} from './prompts.js';
 import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { setSimulate429 } from '../utils/testUtils.js';
-import { tokenLimit } from './tokenLimits.js';
 import { ideContext } from '../ide/ideContext.js';
+import { HookEventName } from '../hooks/types.js';
+import { HookRunner } from '../hooks/hookRunner.js';
+import {
+  SessionMetrics,
+  uiTelemetryService,
+} from '../telemetry/uiTelemetry.js';
 
 // --- Mocks ---
 const mockChatCreateFn = vi.fn();
@@ -145,8 +154,12 @@ describe('findIndexAfterFraction', () => {
 
 describe('Gemini Client (client.ts)', () => {
   let client: GeminiClient;
+  const mockModelRegistry = {
+    getContextLength: vi.fn(),
+  };
   beforeEach(async () => {
     vi.resetAllMocks();
+    mockModelRegistry.getContextLength.mockReturnValue(1_048_576);
 
     // Disable 429 simulation for tests
     setSimulate429(false);
@@ -214,6 +227,9 @@ describe('Gemini Client (client.ts)', () => {
       getFileService: vi.fn().mockReturnValue(fileService),
       getMaxSessionTurns: vi.fn().mockReturnValue(0),
       getSessionTokenLimit: vi.fn().mockReturnValue(32000),
+      getSessionBudgetUsd: vi.fn().mockReturnValue(-1),
+      getFallbackChain: vi.fn().mockReturnValue([]),
+      getModelRegistry: vi.fn().mockReturnValue(mockModelRegistry),
       getQuotaErrorOccurred: vi.fn().mockReturnValue(false),
       setQuotaErrorOccurred: vi.fn(),
       getNoBrowser: vi.fn().mockReturnValue(false),
@@ -221,6 +237,7 @@ describe('Gemini Client (client.ts)', () => {
       getUsageStatisticsEnabled: vi.fn().mockReturnValue(true),
       getIdeModeFeature: vi.fn().mockReturnValue(false),
       getIdeMode: vi.fn().mockReturnValue(true),
+      getApprovalMode: vi.fn().mockReturnValue(ApprovalMode.DEFAULT),
       getDebugMode: vi.fn().mockReturnValue(false),
       getWorkspaceContext: vi.fn().mockReturnValue({
         getDirectories: vi.fn().mockReturnValue(['/test/dir']),
@@ -229,6 +246,10 @@ describe('Gemini Client (client.ts)', () => {
       setFallbackMode: vi.fn(),
       getCliVersion: vi.fn().mockReturnValue('1.0.0'),
       getChatCompression: vi.fn().mockReturnValue(undefined),
+      getHookRunner: vi.fn().mockReturnValue({
+        hasHooks: vi.fn().mockReturnValue(false),
+        run: vi.fn(),
+      }),
     };
     const MockedConfig = vi.mocked(Config, true);
     MockedConfig.mockImplementation(
@@ -537,10 +558,6 @@ describe('Gemini Client (client.ts)', () => {
     const mockGetHistory = vi.fn();
 
     beforeEach(() => {
-      vi.mock('./tokenLimits', () => ({
-        tokenLimit: vi.fn(),
-      }));
-
       client['contentGenerator'] = {
         countTokens: mockCountTokens,
       } as unknown as ContentGenerator;
@@ -555,7 +572,7 @@ describe('Gemini Client (client.ts)', () => {
 
     it('should not trigger summarization if token count is below threshold', async () => {
       const MOCKED_TOKEN_LIMIT = 1000;
-      vi.mocked(tokenLimit).mockReturnValue(MOCKED_TOKEN_LIMIT);
+      mockModelRegistry.getContextLength.mockReturnValue(MOCKED_TOKEN_LIMIT);
       mockGetHistory.mockReturnValue([
         { role: 'user', parts: [{ text: '...history...' }] },
       ]);
@@ -568,7 +585,7 @@ describe('Gemini Client (client.ts)', () => {
       const result = await client.tryCompressChat('prompt-id-2');
       const newChat = client.getChat();
 
-      expect(tokenLimit).toHaveBeenCalled();
+      expect(mockModelRegistry.getContextLength).toHaveBeenCalled();
       expect(result).toBeNull();
       expect(newChat).toBe(initialChat);
     });
@@ -576,7 +593,7 @@ describe('Gemini Client (client.ts)', () => {
     it('should trigger summarization if token count is at threshold with contextPercentageThreshold setting', async () => {
       const MOCKED_TOKEN_LIMIT = 1000;
       const MOCKED_CONTEXT_PERCENTAGE_THRESHOLD = 0.5;
-      vi.mocked(tokenLimit).mockReturnValue(MOCKED_TOKEN_LIMIT);
+      mockModelRegistry.getContextLength.mockReturnValue(MOCKED_TOKEN_LIMIT);
       vi.spyOn(client['config'], 'getChatCompression').mockReturnValue({
         contextPercentageThreshold: MOCKED_CONTEXT_PERCENTAGE_THRESHOLD,
       });
@@ -602,7 +619,7 @@ describe('Gemini Client (client.ts)', () => {
       const result = await client.tryCompressChat('prompt-id-3');
       const newChat = client.getChat();
 
-      expect(tokenLimit).toHaveBeenCalled();
+      expect(mockModelRegistry.getContextLength).toHaveBeenCalled();
       expect(mockSendMessage).toHaveBeenCalled();
 
       // Assert that summarization happened and returned the correct stats
@@ -617,7 +634,7 @@ describe('Gemini Client (client.ts)', () => {
 
     it('should not compress across a function call response', async () => {
       const MOCKED_TOKEN_LIMIT = 1000;
-      vi.mocked(tokenLimit).mockReturnValue(MOCKED_TOKEN_LIMIT);
+      mockModelRegistry.getContextLength.mockReturnValue(MOCKED_TOKEN_LIMIT);
       mockGetHistory.mockReturnValue([
         { role: 'user', parts: [{ text: '...history 1...' }] },
         { role: 'model', parts: [{ text: '...history 2...' }] },
@@ -654,7 +671,7 @@ describe('Gemini Client (client.ts)', () => {
       const result = await client.tryCompressChat('prompt-id-3');
       const newChat = client.getChat();
 
-      expect(tokenLimit).toHaveBeenCalled();
+      expect(mockModelRegistry.getContextLength).toHaveBeenCalled();
       expect(mockSendMessage).toHaveBeenCalled();
 
       // Assert that summarization happened and returned the correct stats
@@ -1023,6 +1040,189 @@ ${JSON.stringify(
       expect(finalResult).toBeInstanceOf(Turn);
     });
 
+    it('should tell the model when plan mode starts and ends', async () => {
+      vi.mocked(getPlanModePrompt).mockReturnValue('plan mode on');
+      vi.mocked(getPlanModeExitPrompt).mockReturnValue('plan mode off');
+      mockTurnRunFn.mockImplementation(async function* () {
+        yield { type: 'content', value: 'Hello' };
+      });
+
+      const mockChat: Partial<GeminiChat> = {
+        addHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+      };
+      client['chat'] = mockChat as GeminiChat;
+      client['contentGenerator'] = {
+        countTokens: vi.fn().mockResolvedValue({ totalTokens: 0 }),
+        generateContent: mockGenerateContentFn,
+      } as unknown as ContentGenerator;
+
+      const send = async (promptId: string) => {
+        const stream = client.sendMessageStream(
+          [{ text: 'Hi' }],
+          new AbortController().signal,
+          promptId,
+        );
+        for await (const _ of stream) {
+          // consume
+        }
+      };
+      const getApprovalMode = vi.spyOn(client['config'], 'getApprovalMode');
+
+      getApprovalMode.mockReturnValue(ApprovalMode.PLAN);
+      await send('prompt-id-1');
+      await send('prompt-id-2');
+      getApprovalMode.mockReturnValue(ApprovalMode.AUTO_EDIT);
+      await send('prompt-id-3');
+
+      expect(mockChat.addHistory).toHaveBeenCalledTimes(2);
+      expect(mockChat.addHistory).toHaveBeenNthCalledWith(1, {
+        role: 'user',
+        parts: [{ text: 'plan mode on' }],
+      });
+      expect(mockChat.addHistory).toHaveBeenNthCalledWith(2, {
+        role: 'user',
+        parts: [{ text: 'plan mode off' }],
+      });
+    });
+
+    it('should not send prompts denied by a UserPromptSubmit hook', async () => {
+      const hookRunner = {
+        hasHooks: (event: HookEventName) =>
+          event === HookEventName.UserPromptSubmit,
+        run: vi
+          .fn()
+          .mockResolvedValue({ decision: 'deny', reason: 'No secrets.' }),
+      };
+      vi.spyOn(client['config'], 'getHookRunner').mockReturnValue(
+        hookRunner as unknown as HookRunner,
+      );
+      client['chat'] = {
+        addHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+      } as unknown as GeminiChat;
+
+      const stream = client.sendMessageStream(
+        [{ text: 'my password is hunter2' }],
+        new AbortController().signal,
+        'prompt-id-hook',
+      );
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(hookRunner.run).toHaveBeenCalledWith(
+        HookEventName.UserPromptSubmit,
+        { prompt: 'my password is hunter2' },
+        expect.any(AbortSignal),
+      );
+      expect(events).toEqual([
+        {
+          type: GeminiEventType.Error,
+          value: {
+            error: {
+              message: 'Prompt blocked by a UserPromptSubmit hook: No secrets.',
+            },
+          },
+        },
+      ]);
+      expect(mockTurnRunFn).not.toHaveBeenCalled();
+    });
+
+    it('should send the feedback of Stop hooks to the model', async () => {
+      const hookRunner = {
+        hasHooks: (event: HookEventName) => event === HookEventName.Stop,
+        run: vi
+          .fn()
+          .mockResolvedValueOnce({ decision: 'deny', reason: 'Tests fail.' })
+          .mockResolvedValue({}),
+      };
+      vi.spyOn(client['config'], 'getHookRunner').mockReturnValue(
+        hookRunner as unknown as HookRunner,
+      );
+      mockTurnRunFn.mockImplementation(async function* () {
+        yield { type: 'content', value: 'Done' };
+      });
+      client['chat'] = {
+        addHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+      } as unknown as GeminiChat;
+      client['contentGenerator'] = {
+        countTokens: vi.fn().mockResolvedValue({ totalTokens: 0 }),
+        generateContent: mockGenerateContentFn,
+      } as unknown as ContentGenerator;
+
+      const stream = client.sendMessageStream(
+        [{ text: 'Fix the bug' }],
+        new AbortController().signal,
+        'prompt-id-stop',
+      );
+      for await (const _ of stream) {
+        // consume
+      }
+
+      expect(mockTurnRunFn).toHaveBeenCalledTimes(2);
+      expect(mockTurnRunFn).toHaveBeenLastCalledWith(
+        [{ text: 'Stop hook feedback: Tests fail.' }],
+        expect.any(AbortSignal),
+      );
+      expect(hookRunner.run).toHaveBeenNthCalledWith(
+        1,
+        HookEventName.Stop,
+        { stop_hook_active: false },
+        expect.any(AbortSignal),
+      );
+      expect(hookRunner.run).toHaveBeenNthCalledWith(
+        2,
+        HookEventName.Stop,
+        { stop_hook_active: true },
+        expect.any(AbortSignal),
+      );
+    });
+
+    it('should run Stop hooks after the model was switched', async () => {
+      const hookRunner = {
+        hasHooks: (event: HookEventName) => event === HookEventName.Stop,
+        run: vi.fn().mockResolvedValue({}),
+      };
+      vi.spyOn(client['config'], 'getHookRunner').mockReturnValue(
+        hookRunner as unknown as HookRunner,
+      );
+      const initialModel = client['config'].getModel();
+      mockTurnRunFn.mockImplementation(async function* () {
+        // A quota error falls back to another model during the turn.
+        vi.spyOn(client['config'], 'getModel').mockReturnValue(
+          initialModel + '-fallback',
+        );
+        yield { type: 'content', value: 'Done' };
+      });
+      client['chat'] = {
+        addHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+      } as unknown as GeminiChat;
+      client['contentGenerator'] = {
+        countTokens: vi.fn().mockResolvedValue({ totalTokens: 0 }),
+        generateContent: mockGenerateContentFn,
+      } as unknown as ContentGenerator;
+
+      const stream = client.sendMessageStream(
+        [{ text: 'Fix the bug' }],
+        new AbortController().signal,
+        'prompt-id-stop-switch',
+      );
+      for await (const _ of stream) {
+        // consume
+      }
+
+      expect(hookRunner.run).toHaveBeenCalledWith(
+        HookEventName.Stop,
+        { stop_hook_active: false },
+        expect.any(AbortSignal),
+      );
+      expect(mockTurnRunFn).toHaveBeenCalledTimes(1);
+    });
+
     it('should stop infinite loop after MAX_TURNS when nextSpeaker always returns model', async () => {
       // Get the mocked checkNextSpeaker function and configure it to trigger infinite loop
       const { checkNextSpeaker } = await import(
@@ -1121,6 +1321,47 @@ ${JSON.stringify(
       expect(eventCount).toBeLessThan(200); // Should not exceed our safety limit
     });
 
+    it('should yield SessionBudgetExceeded once the session cost reaches the budget', async () => {
+      vi.spyOn(client['config'], 'getSessionBudgetUsd').mockReturnValue(1);
+      vi.spyOn(uiTelemetryService, 'getMetrics').mockReturnValue({
+        models: {
+          'gpt-4o': { costUsd: 0.75 },
+          'gpt-4o-mini': { costUsd: 0.5 },
+        },
+      } as unknown as SessionMetrics);
+      client['chat'] = {
+        addHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+      } as unknown as GeminiChat;
+      client['contentGenerator'] = {
+        countTokens: vi.fn().mockResolvedValue({ totalTokens: 0 }),
+      } as unknown as ContentGenerator;
+
+      const stream = client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-budget',
+      );
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        {
+          type: GeminiEventType.SessionBudgetExceeded,
+          value: {
+            currentCostUsd: 1.25,
+            budgetUsd: 1,
+            message:
+              'Session budget exceeded: $1.25 spent of the $1.00 budget. ' +
+              'Please start a new session or increase the sessionBudgetUsd in your settings.json.',
+          },
+        },
+      ]);
+      expect(mockTurnRunFn).not.toHaveBeenCalled();
+    });
+
     it('should yield MaxSessionTurns and stop when session turn limit is reached', async () => {
       // Arrange
       const MAX_SESSION_TURNS = 5;
@@ -1451,6 +1692,50 @@ ${JSON.stringify(
         },
       );
 
+      it('sends the current diagnostics when they change', async () => {
+        const openFiles = [
+          {
+            path: '/path/to/active/file.ts',
+            isActive: true,
+            timestamp: Date.now(),
+          },
+        ];
+        const diagnostic = {
+          path: '/path/to/active/file.ts',
+          range: {
+            start: { line: 3, character: 4 },
+            end: { line: 3, character: 9 },
+          },
+          severity: 'error' as const,
+          source: 'ts',
+          message: "Cannot find name 'foo'.",
+        };
+        client['lastSentIdeContext'] = {
+          workspaceState: { openFiles, diagnostics: [diagnostic] },
+        };
+        vi.mocked(ideContext.getIdeContext).mockReturnValue({
+          workspaceState: { openFiles, diagnostics: [] },
+        });
+
+        const stream = client.sendMessageStream(
+          [{ text: 'Hi' }],
+          new AbortController().signal,
+          'prompt-id-diagnostics',
+        );
+        for await (const _ of stream) {
+          // consume stream
+        }
+
+        const mockChat = client['chat'] as unknown as {
+          addHistory: ReturnType<(typeof vi)['fn']>;
+        };
+        const contextText = mockChat.addHistory.mock.calls[0][0].parts[0].text;
+        const contextJson = JSON.parse(
+          contextText.match(/```json\n(.*)\n```/s)![1],
+        );
+        expect(contextJson).toEqual({ changes: { diagnostics: [] } });
+      });
+
       it('sends full context when history is cleared, even if editor state is unchanged', async () => {
         const activeFile = {
           path: '/path/to/active/file.ts',
@@ -24,16 +24,22 @@ import {
   GeminiEventType,
   ChatCompressionInfo,
 } from './turn.js';
-import { Config } from '../config/config.js';
+import { ApprovalMode, Config } from '../config/config.js';
 import { UserTierId } from '../code_assist/types.js';
-import { getCoreSystemPrompt, getCompressionPrompt } from './prompts.js';
+import {
+  getCoreSystemPrompt,
+  getCompressionPrompt,
+  getPlanModePrompt,
+  getPlanModeExitPrompt,
+} from './prompts.js';
 import { checkNextSpeaker } from '../utils/nextSpeakerChecker.js';
 import { reportError } from '../utils/errorReporting.js';
 import { GeminiChat } from './geminiChat.js';
 import { retryWithBackoff } from '../utils/retry.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { isFunctionResponse } from '../utils/messageInspectors.js';
-import { tokenLimit } from './tokenLimits.js';
+import { getSessionCostUsd } from './modelPricing.js';
+import { FallbackContentGenerator } from './fallbackContentGenerator.js';
 import {
   AuthType,
   ContentGenerator,
@@ -46,11 +52,16 @@ import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import { LoopDetectionService } from '../services/loopDetectionService.js';
 import { ideContext } from '../ide/ideContext.js';
 import { logNextSpeakerCheck } from '../telemetry/loggers.js';
+import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
 import { NextSpeakerCheckEvent } from '../telemetry/types.js';
 import { IdeContext, File } from '../ide/ideContext.js';
+import { HookEventName } from '../hooks/types.js';
+import { partToString } from '../utils/partUtils.js';
 
 function isThinkingSupported(model: string) {
   if (model.startsWith('gemini-2.5')) return true;
+  // Claude models with extended thinking (Messages API only)
+  if (/^claude-(3-7-sonnet|(opus|sonnet|haiku)-4)/.test(model)) return true;
   return false;
 }
 
@@ -112,6 +123,12 @@ export class GeminiClient {
   private lastPromptId: string;
   private lastSentIdeContext: IdeContext | undefined;
   private forceFullIdeContext = true;
+  private planModeSent = false;
+  /**
+   * Whether the model is responding to the feedback of a Stop hook, so that
+   * Stop hooks can avoid blocking it forever.
+   */
+  private stopHookActive = false;
 
   constructor(private config: Config) {
     if (config.getProxy()) {
@@ -124,11 +141,21 @@ export class GeminiClient {
   }
 
   async initialize(contentGeneratorConfig: ContentGeneratorConfig) {
-    this.contentGenerator = await createContentGenerator(
+    const contentGenerator = await createContentGenerator(
       contentGeneratorConfig,
       this.config,
       this.config.getSessionId(),
     );
+    const fallbackChain = this.config.getFallbackChain();
+    this.contentGenerator =
+      fallbackChain.length > 0
+        ? new FallbackContentGenerator(
+            contentGenerator,
+            contentGeneratorConfig,
+            fallbackChain,
+            this.config,
+          )
+        : contentGenerator;
     this.chat = await this.startChat();
   }
 
@@ -176,6 +203,10 @@ export class GeminiClient {
 
   async resetChat(): Promise<void> {
     this.chat = await this.startChat();
+    const hookRunner = this.config.getHookRunner();
+    if (hookRunner.hasHooks(HookEventName.SessionStart)) {
+      await hookRunner.run(HookEventName.SessionStart, { source: 'clear' });
+    }
   }
 
   async addDirectoryContext(): Promise<void> {
@@ -191,6 +222,7 @@ export class GeminiClient {
 
   async startChat(extraHistory?: Content[]): Promise<GeminiChat> {
     this.forceFullIdeContext = true;
+    this.planModeSent = false;
     const envParts = await getEnvironmentContext(this.config);
     const toolRegistry = await this.config.getToolRegistry();
     const toolDeclarations = toolRegistry.getFunctionDeclarations();
@@ -276,6 +308,11 @@ export class GeminiClient {
         contextData.otherOpenFiles = otherOpenFiles;
       }
 
+      const diagnostics = currentIdeContext.workspaceState?.diagnostics || [];
+      if (diagnostics.length > 0) {
+        contextData.diagnostics = diagnostics;
+      }
+
       if (Object.keys(contextData).length === 0) {
         return { contextParts: [], newIdeContext: currentIdeContext };
       }
@@ -385,6 +422,18 @@ export class GeminiClient {
         };
       }
 
+      // Diagnostics are sent in full whenever they change, so that resolved
+      // problems disappear from the model's view.
+      const lastDiagnostics =
+        this.lastSentIdeContext.workspaceState?.diagnostics || [];
+      const currentDiagnostics =
+        currentIdeContext.workspaceState?.diagnostics || [];
+      if (
+        JSON.stringify(lastDiagnostics) !== JSON.stringify(currentDiagnostics)
+      ) {
+        changes.diagnostics = currentDiagnostics;
+      }
+
       if (Object.keys(changes).length === 0) {
         return { contextParts: [], newIdeContext: currentIdeContext };
       }
@@ -415,9 +464,11 @@ export class GeminiClient {
     turns: number = this.MAX_TURNS,
     originalModel?: string,
   ): AsyncGenerator<ServerGeminiStreamEvent, Turn> {
-    if (this.lastPromptId !== prompt_id) {
+    const isNewPrompt = this.lastPromptId !== prompt_id;
+    if (isNewPrompt) {
       this.loopDetector.reset(prompt_id);
       this.lastPromptId = prompt_id;
+      this.stopHookActive = false;
     }
     this.sessionTurnCount++;
     if (
@@ -433,6 +484,26 @@ export class GeminiClient {
       return new Turn(this.getChat(), prompt_id);
     }
 
+    const hookRunner = this.config.getHookRunner();
+    if (isNewPrompt && hookRunner.hasHooks(HookEventName.UserPromptSubmit)) {
+      const hookResult = await hookRunner.run(
+        HookEventName.UserPromptSubmit,
+        { prompt: partToString(request) },
+        signal,
+      );
+      if (hookResult.decision === 'deny') {
+        yield {
+          type: GeminiEventType.Error,
+          value: {
+            error: {
+              message: `Prompt blocked by a UserPromptSubmit hook: ${hookResult.reason ?? 'no reason given.'}`,
+            },
+          },
+        };
+        return new Turn(this.getChat(), prompt_id);
+      }
+    }
+
     // Track the original model from the first call to detect model switching
     const initialModel = originalModel || this.config.getModel();
 
@@ -485,6 +556,24 @@ export class GeminiClient {
       }
     }
 
+    const sessionBudgetUsd = this.config.getSessionBudgetUsd();
+    if (sessionBudgetUsd > 0) {
+      const sessionCostUsd = getSessionCostUsd(uiTelemetryService.getMetrics());
+      if (sessionCostUsd >= sessionBudgetUsd) {
+        yield {
+          type: GeminiEventType.SessionBudgetExceeded,
+          value: {
+            currentCostUsd: sessionCostUsd,
+            budgetUsd: sessionBudgetUsd,
+            message:
+              `Session budget exceeded: $${sessionCostUsd.toFixed(2)} spent of the $${sessionBudgetUsd.toFixed(2)} budget. ` +
+              'Please start a new session or increase the sessionBudgetUsd in your settings.json.',
+          },
+        };
+        return new Turn(this.getChat(), prompt_id);
+      }
+    }
+
     // Prevent context updates from being sent while a tool call is
     // waiting for a response. The Qwen API requires that a functionResponse
     // part from the user immediately follows a functionCall part from the model
@@ -516,6 +605,19 @@ export class GeminiClient {
       this.forceFullIdeContext = false;
     }
 
+    // Tell the model when plan mode starts or ends, as the user can switch
+    // modes at any time.
+    const planMode = this.config.getApprovalMode() === ApprovalMode.PLAN;
+    if (planMode !== this.planModeSent && !hasPendingToolCall) {
+      this.getChat().addHistory({
+        role: 'user',
+        parts: [
+          { text: planMode ? getPlanModePrompt() : getPlanModeExitPrompt() },
+        ],
+      });
+      this.planModeSent = planMode;
+    }
+
     const turn = new Turn(this.getChat(), prompt_id);
 
     const loopDetected = await this.loopDetector.turnStarted(signal);
@@ -534,37 +636,58 @@ export class GeminiClient {
     }
     if (!turn.pendingToolCalls.length && signal && !signal.aborted) {
       // Check if model was switched during the call (likely due to quota error)
-      const currentModel = this.config.getModel();
-      if (currentModel !== initialModel) {
-        // Model was switched (likely due to quota error fallback)
-        // Don't continue with recursive call to prevent unwanted Flash execution
-        return turn;
+      // If so, don't let the model continue on its own to prevent unwanted
+      // Flash execution, but still run the Stop hooks.
+      if (this.config.getModel() === initialModel) {
+        const nextSpeakerCheck = await checkNextSpeaker(
+          this.getChat(),
+          this,
+          signal,
+        );
+        logNextSpeakerCheck(
+          this.config,
+          new NextSpeakerCheckEvent(
+            prompt_id,
+            turn.finishReason?.toString() || '',
+            nextSpeakerCheck?.next_speaker || '',
+          ),
+        );
+        if (nextSpeakerCheck?.next_speaker === 'model') {
+          const nextRequest = [{ text: 'Please continue.' }];
+          // This recursive call's events will be yielded out, but the final
+          // turn object will be from the top-level call.
+          yield* this.sendMessageStream(
+            nextRequest,
+            signal,
+            prompt_id,
+            boundedTurns - 1,
+            initialModel,
+          );
+          return turn;
+        }
       }
 
-      const nextSpeakerCheck = await checkNextSpeaker(
-        this.getChat(),
-        this,
-        signal,
-      );
-      logNextSpeakerCheck(
-        this.config,
-        new NextSpeakerCheckEvent(
-          prompt_id,
-          turn.finishReason?.toString() || '',
-          nextSpeakerCheck?.next_speaker || '',
-        ),
-      );
-      if (nextSpeakerCheck?.next_speaker === 'model') {
-        const nextRequest = [{ text: 'Please continue.' }];
-        // This recursive call's events will be yielded out, but the final
-        // turn object will be from the top-level call.
-        yield* this.sendMessageStream(
-          nextRequest,
+      if (hookRunner.hasHooks(HookEventName.Stop)) {
+        const hookResult = await hookRunner.run(
+          HookEventName.Stop,
+          { stop_hook_active: this.stopHookActive },
           signal,
-          prompt_id,
-          boundedTurns - 1,
-          initialModel,
         );
+        if (hookResult.decision === 'deny' && !signal.aborted) {
+          // The hook wants the model to keep going, so send it the reason.
+          this.stopHookActive = true;
+          yield* this.sendMessageStream(
+            [
+              {
+                text: `Stop hook feedback: ${hookResult.reason ?? 'Continue working on the task.'}`,
+              },
+            ],
+            signal,
+            prompt_id,
+            boundedTurns - 1,
+            initialModel,
+          );
+        }
       }
     }
     return turn;
@@ -779,7 +902,13 @@ export class GeminiClient {
     if (!force) {
       const threshold =
         contextPercentageThreshold ?? this.COMPRESSION_TOKEN_THRESHOLD;
-      if (originalTokenCount < threshold * tokenLimit(model)) {
+      const contextLength = this.config
+        .getModelRegistry()
+        .getContextLength(
+          model,
+          this.config.getContentGeneratorConfig()?.authType,
+        );
+      if (originalTokenCount < threshold * contextLength) {
         return null;
       }
     }
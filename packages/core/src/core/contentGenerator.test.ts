@@ -15,12 +15,15 @@ import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { GoogleGenAI } from '@google/genai';
 import { Config } from '../config/config.js';
 import { LoggingContentGenerator } from './loggingContentGenerator.js';
+import { AnthropicContentGenerator } from './anthropicContentGenerator.js';
+import { ModelRegistry } from './modelRegistry.js';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
 
 const mockConfig = {
   getCliVersion: vi.fn().mockReturnValue('1.0.0'),
+  getModelRegistry: () => new ModelRegistry(),
 } as unknown as Config;
 
 describe('createContentGenerator', () => {
@@ -71,6 +74,30 @@ describe('createContentGenerator', () => {
       ),
     );
   });
+
+  it('should create a native AnthropicContentGenerator', async () => {
+    const generator = await createContentGenerator(
+      {
+        model: 'claude-sonnet-4-20250514',
+        apiKey: 'test-api-key',
+        authType: AuthType.USE_ANTHROPIC,
+      },
+      mockConfig,
+    );
+    expect(generator).toBeInstanceOf(LoggingContentGenerator);
+    expect(
+      (generator as unknown as { wrapped: ContentGenerator }).wrapped,
+    ).toBeInstanceOf(AnthropicContentGenerator);
+  });
+
+  it('should require an API key for Anthropic', async () => {
+    await expect(
+      createContentGenerator(
+        { model: 'claude-sonnet-4-20250514', authType: AuthType.USE_ANTHROPIC },
+        mockConfig,
+      ),
+    ).rejects.toThrow('Anthropic API key is required');
+  });
 });
 
 describe('createContentGeneratorConfig', () => {
@@ -266,18 +266,21 @@ export async function createContentGenerator(
     return new OpenAIContentGenerator(config, gcConfig);
   }
 
-  // Handle Anthropic separately (requires API key but has default base URL)
+  // Handle Anthropic separately (native Messages API, has default base URL)
   if (config.authType === AuthType.USE_ANTHROPIC) {
     if (!config.apiKey) {
       throw new Error('Anthropic API key is required');
     }
 
-    // Import OpenAIContentGenerator dynamically to avoid circular dependencies
-    const { OpenAIContentGenerator } = await import(
-      './openaiContentGenerator.js'
+    // Import AnthropicContentGenerator dynamically to avoid circular dependencies
+    const { AnthropicContentGenerator } = await import(
+      './anthropicContentGenerator.js'
     );
 
-    return new OpenAIContentGenerator(config, gcConfig);
+    return new LoggingContentGenerator(
+      new AnthropicContentGenerator(config, gcConfig),
+      gcConfig,
+    );
   }
 
   // Handle Grok separately (requires API key and uses OpenAI-compatible API)
@@ -306,6 +309,9 @@ export async function createContentGenerator(
       );
     }
 
+    // Local servers know the context window they load the model with
+    await gcConfig.getModelRegistry().discover(config);
+
     // Import OpenAIContentGenerator dynamically to avoid circular dependencies
     const { OpenAIContentGenerator } = await import(
       './openaiContentGenerator.js'
@@ -21,6 +21,11 @@ import {
   Config,
   Icon,
   ApprovalMode,
+  ToolErrorType,
+  HookEventName,
+  HookResult,
+  HookRunner,
+  ExitPlanModeTool,
 } from '../index.js';
 import { Part, PartListUnion } from '@google/genai';
 
@@ -98,6 +103,8 @@ describe('CoreToolScheduler', () => {
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
       getApprovalMode: () => ApprovalMode.DEFAULT,
+      getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
+      getMaxConcurrentToolCalls: () => 8,
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -169,6 +176,8 @@ describe('CoreToolScheduler with payload', () => {
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
       getApprovalMode: () => ApprovalMode.DEFAULT,
+      getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
+      getMaxConcurrentToolCalls: () => 8,
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -446,6 +455,8 @@ describe('CoreToolScheduler edit cancellation', () => {
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
       getApprovalMode: () => ApprovalMode.DEFAULT,
+      getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
+      getMaxConcurrentToolCalls: () => 8,
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -541,6 +552,8 @@ describe('CoreToolScheduler YOLO mode', () => {
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
       getApprovalMode: () => ApprovalMode.YOLO,
+      getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
+      getMaxConcurrentToolCalls: () => 8,
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -593,6 +606,458 @@ describe('CoreToolScheduler YOLO mode', () => {
   });
 });
 
+describe('CoreToolScheduler plan mode', () => {
+  const runInPlanMode = async (mockTool: MockTool) => {
+    const toolRegistry = {
+      getTool: () => mockTool,
+      getToolByName: () => mockTool,
+      getFunctionDeclarations: () => [],
+      tools: new Map(),
+      discovery: {} as any,
+      registerTool: () => {},
+      getToolByDisplayName: () => mockTool,
+      getTools: () => [],
+      discoverTools: async () => {},
+      getAllTools: () => [],
+      getToolsByServer: () => [],
+    };
+    const onAllToolCallsComplete = vi.fn();
+    const mockConfig = {
+      getSessionId: () => 'test-session-id',
+      getUsageStatisticsEnabled: () => true,
+      getDebugMode: () => false,
+      getApprovalMode: () => ApprovalMode.PLAN,
+      getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
+      getMaxConcurrentToolCalls: () => 8,
+    } as unknown as Config;
+
+    const scheduler = new CoreToolScheduler({
+      config: mockConfig,
+      toolRegistry: Promise.resolve(toolRegistry as any),
+      onAllToolCallsComplete,
+      onToolCallsUpdate: vi.fn(),
+      getPreferredEditor: () => 'vscode',
+      onEditorClose: vi.fn(),
+    });
+    await scheduler.schedule(
+      [
+        {
+          callId: '1',
+          name: 'mockTool',
+          args: { param: 'value' },
+          isClientInitiated: false,
+          prompt_id: 'prompt-id-plan',
+        },
+      ],
+      new AbortController().signal,
+    );
+    return onAllToolCallsComplete.mock.calls[0][0][0] as ToolCall;
+  };
+
+  it('should refuse tools that are not read-only', async () => {
+    const mockTool = new MockTool();
+
+    const completedCall = await runInPlanMode(mockTool);
+
+    expect(mockTool.executeFn).not.toHaveBeenCalled();
+    expect(completedCall.status).toBe('error');
+    if (completedCall.status === 'error') {
+      expect(completedCall.response.errorType).toBe(
+        ToolErrorType.PLAN_MODE_RESTRICTED,
+      );
+      expect(completedCall.response.error?.message).toContain(
+        'is not available in plan mode',
+      );
+    }
+  });
+
+  it('should run read-only tools', async () => {
+    const mockTool = new MockTool();
+    vi.spyOn(mockTool, 'isReadOnly').mockReturnValue(true);
+
+    const completedCall = await runInPlanMode(mockTool);
+
+    expect(mockTool.isReadOnly).toHaveBeenCalledWith({ param: 'value' });
+    expect(completedCall.status).toBe('success');
+  });
+});
+
+describe('CoreToolScheduler hooks', () => {
+  const runWithHooks = async (
+    mockTool: MockTool,
+    hookResults: Partial<Record<HookEventName, HookResult>>,
+  ) => {
+    const toolRegistry = {
+      getTool: () => mockTool,
+      getToolByName: () => mockTool,
+      getFunctionDeclarations: () => [],
+      tools: new Map(),
+      discovery: {} as any,
+      registerTool: () => {},
+      getToolByDisplayName: () => mockTool,
+      getTools: () => [],
+      discoverTools: async () => {},
+      getAllTools: () => [],
+      getToolsByServer: () => [],
+    };
+    const hookRunner = {
+      hasHooks: (event: HookEventName) => event in hookResults,
+      run: vi.fn(async (event: HookEventName) => hookResults[event] ?? {}),
+    };
+    const onAllToolCallsComplete = vi.fn();
+    const onToolCallsUpdate = vi.fn();
+    const mockConfig = {
+      getSessionId: () => 'test-session-id',
+      getUsageStatisticsEnabled: () => true,
+      getDebugMode: () => false,
+      getApprovalMode: () => ApprovalMode.DEFAULT,
+      getHookRunner: () => hookRunner,
+      getMaxConcurrentToolCalls: () => 8,
+    } as unknown as Config;
+
+    const scheduler = new CoreToolScheduler({
+      config: mockConfig,
+      toolRegistry: Promise.resolve(toolRegistry as any),
+      onAllToolCallsComplete,
+      onToolCallsUpdate,
+      getPreferredEditor: () => 'vscode',
+      onEditorClose: vi.fn(),
+    });
+    await scheduler.schedule(
+      [
+        {
+          callId: '1',
+          name: mockTool.name,
+          args: { param: 'value' },
+          isClientInitiated: false,
+          prompt_id: 'prompt-id-hooks',
+        },
+      ],
+      new AbortController().signal,
+    );
+    return { onAllToolCallsComplete, onToolCallsUpdate, hookRunner };
+  };
+
+  const runToCompletionWithHooks = async (
+    mockTool: MockTool,
+    hookResults: Partial<Record<HookEventName, HookResult>>,
+  ) => {
+    const { onAllToolCallsComplete, hookRunner } = await runWithHooks(
+      mockTool,
+      hookResults,
+    );
+    await vi.waitFor(() => {
+      expect(onAllToolCallsComplete).toHaveBeenCalled();
+    });
+    return {
+      completedCall: onAllToolCallsComplete.mock.calls[0][0][0] as ToolCall,
+      hookRunner,
+    };
+  };
+
+  it('should block tool calls denied by a PreToolUse hook', async () => {
+    const mockTool = new MockTool('mockTool');
+
+    const { completedCall, hookRunner } = await runToCompletionWithHooks(
+      mockTool,
+      {
+        [HookEventName.PreToolUse]: {
+          decision: 'deny',
+          reason: 'Use the formatter instead.',
+        },
+      },
+    );
+
+    expect(hookRunner.run).toHaveBeenCalledWith(
+      HookEventName.PreToolUse,
+      { tool_name: 'mockTool', tool_input: { param: 'value' } },
+      expect.any(AbortSignal),
+    );
+    expect(mockTool.executeFn).not.toHaveBeenCalled();
+    expect(completedCall.status).toBe('error');
+    if (completedCall.status === 'error') {
+      expect(completedCall.response.errorType).toBe(ToolErrorType.HOOK_DENIED);
+      expect(completedCall.response.error?.message).toBe(
+        'Tool call blocked by a PreToolUse hook: Use the formatter instead.',
+      );
+    }
+  });
+
+  it('should run approved tool calls with the arguments from the hook', async () => {
+    const mockTool = new MockTool('mockTool');
+    mockTool.shouldConfirm = true;
+
+    const { completedCall } = await runToCompletionWithHooks(mockTool, {
+      [HookEventName.PreToolUse]: {
+        decision: 'approve',
+        toolInput: { param: 'changed' },
+      },
+    });
+
+    expect(mockTool.executeFn).toHaveBeenCalledWith({ param: 'changed' });
+    expect(completedCall.status).toBe('success');
+    expect(completedCall.request.args).toEqual({ param: 'changed' });
+  });
+
+  it('should still ask the user to approve leaving plan mode', async () => {
+    const mockTool = new MockTool(ExitPlanModeTool.Name);
+    mockTool.shouldConfirm = true;
+
+    const { onToolCallsUpdate } = await runWithHooks(mockTool, {
+      [HookEventName.PreToolUse]: { decision: 'approve' },
+    });
+
+    await vi.waitFor(() => {
+      const toolCalls = onToolCallsUpdate.mock.lastCall?.[0] as ToolCall[];
+      expect(toolCalls?.[0]?.status).toBe('awaiting_approval');
+    });
+    expect(mockTool.executeFn).not.toHaveBeenCalled();
+  });
+
+  it('should send the feedback of PostToolUse hooks to the model', async () => {
+    const mockTool = new MockTool('mockTool');
+
+    const { completedCall, hookRunner } = await runToCompletionWithHooks(
+      mockTool,
+      {
+        [HookEventName.PostToolUse]: {
+          decision: 'deny',
+          reason: 'Lint failed.',
+        },
+      },
+    );
+
+    expect(hookRunner.run).toHaveBeenCalledWith(
+      HookEventName.PostToolUse,
+      {
+        tool_name: 'mockTool',
+        tool_input: { param: 'value' },
+        tool_response: {
+          output: 'Tool mockTool executed successfully.',
+          error: undefined,
+        },
+      },
+      expect.any(AbortSignal),
+    );
+    expect(completedCall.status).toBe('success');
+    if (completedCall.status === 'success') {
+      expect(completedCall.response.responseParts).toEqual([
+        {
+          functionResponse: {
+            id: '1',
+            name: 'mockTool',
+            response: { output: 'Tool mockTool executed successfully.' },
+          },
+        },
+        { text: 'PostToolUse hook feedback: Lint failed.' },
+      ]);
+    }
+  });
+});
+
+describe('CoreToolScheduler parallel execution', () => {
+  class MockFileTool extends MockTool {
+    constructor(
+      name: string,
+      private readonly readOnly: boolean,
+    ) {
+      super(name);
+    }
+
+    override toolLocations(params: Record<string, unknown>) {
+      return [{ path: params['path'] as string }];
+    }
+
+    override isReadOnly(): boolean {
+      return this.readOnly;
+    }
+  }
+
+  const runBatch = async (
+    tools: MockTool[],
+    requests: Array<{ name: string; path: string }>,
+    maxConcurrentToolCalls = 8,
+    // Aborted as soon as the first call starts.
+    abortController?: AbortController,
+  ) => {
+    const started: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    for (const tool of tools) {
+      tool.executeFn.mockImplementation(
+        async (params: Record<string, unknown>) => {
+          started.push(`${tool.name}:${params['path']}`);
+          abortController?.abort();
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          running--;
+          return { llmContent: 'done', returnDisplay: 'done' };
+        },
+      );
+    }
+    const toolRegistry = {
+      getTool: (name: string) => tools.find((tool) => tool.name === name),
+    };
+    const onAllToolCallsComplete = vi.fn();
+    const mockConfig = {
+      getSessionId: () => 'test-session-id',
+      getUsageStatisticsEnabled: () => true,
+      getDebugMode: () => false,
+      getApprovalMode: () => ApprovalMode.YOLO,
+      getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
+      getMaxConcurrentToolCalls: () => maxConcurrentToolCalls,
+    } as unknown as Config;
+
+    const scheduler = new CoreToolScheduler({
+      config: mockConfig,
+      toolRegistry: Promise.resolve(toolRegistry as any),
+      onAllToolCallsComplete,
+      onToolCallsUpdate: vi.fn(),
+      getPreferredEditor: () => 'vscode',
+      onEditorClose: vi.fn(),
+    });
+    await scheduler.schedule(
+      requests.map(({ name, path }, i) => ({
+        callId: String(i + 1),
+        name,
+        args: { path },
+        isClientInitiated: false,
+        prompt_id: 'prompt-id-parallel',
+      })),
+      (abortController ?? new AbortController()).signal,
+    );
+    await vi.waitFor(() => {
+      expect(onAllToolCallsComplete).toHaveBeenCalled();
+    });
+    return {
+      started,
+      maxRunning,
+      completedCalls: onAllToolCallsComplete.mock.calls[0][0] as ToolCall[],
+    };
+  };
+
+  it('should run calls that write the same file one at a time, in order', async () => {
+    const replace = new MockFileTool('replace', false);
+    const readFile = new MockFileTool('read_file', true);
+
+    const { started, maxRunning, completedCalls } = await runBatch(
+      [replace, readFile],
+      [
+        { name: 'replace', path: '/project/a.ts' },
+        { name: 'read_file', path: '/project/a.ts' },
+        { name: 'replace', path: '/project/a.ts' },
+      ],
+    );
+
+    expect(maxRunning).toBe(1);
+    expect(started).toEqual([
+      'replace:/project/a.ts',
+      'read_file:/project/a.ts',
+      'replace:/project/a.ts',
+    ]);
+    const lastCall = completedCalls[2];
+    expect(lastCall.status).toBe('success');
+    if (lastCall.status === 'success') {
+      expect(lastCall.response.responseParts).toEqual([
+        {
+          functionResponse: {
+            id: '3',
+            name: 'replace',
+            response: { output: 'done' },
+          },
+        },
+        {
+          text: expect.stringContaining(
+            'this call ran after the earlier "replace", "read_file" call(s)',
+          ),
+        },
+      ]);
+    }
+  });
+
+  it('should run reads and writes of different files in parallel', async () => {
+    const replace = new MockFileTool('replace', false);
+    const readFile = new MockFileTool('read_file', true);
+
+    const { maxRunning, completedCalls } = await runBatch(
+      [replace, readFile],
+      [
+        { name: 'read_file', path: '/project/a.ts' },
+        { name: 'read_file', path: '/project/a.ts' },
+        { name: 'replace', path: '/project/b.ts' },
+        { name: 'replace', path: '/project/src/c.ts' },
+      ],
+    );
+
+    expect(maxRunning).toBe(4);
+    expect(completedCalls.every((call) => call.status === 'success')).toBe(
+      true,
+    );
+  });
+
+  it('should run writes with unknown paths one at a time', async () => {
+    const readFile = new MockFileTool('read_file', true);
+    const ls = new MockFileTool('list_directory', true);
+    const shell = new MockTool('run_shell_command');
+
+    const { started } = await runBatch(
+      [readFile, ls, shell],
+      [
+        { name: 'read_file', path: '/project/a.ts' },
+        { name: 'run_shell_command', path: 'npm test' },
+        { name: 'list_directory', path: '/project' },
+      ],
+    );
+
+    expect(started).toEqual([
+      'read_file:/project/a.ts',
+      'run_shell_command:npm test',
+      'list_directory:/project',
+    ]);
+  });
+
+  it('should not run more calls at once than the concurrency limit', async () => {
+    const readFile = new MockFileTool('read_file', true);
+
+    const { maxRunning } = await runBatch(
+      [readFile],
+      ['a', 'b', 'c', 'd', 'e'].map((name) => ({
+        name: 'read_file',
+        path: `/project/${name}.ts`,
+      })),
+      2,
+    );
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should cancel queued calls when the running call is aborted', async () => {
+    const replace = new MockFileTool('replace', false);
+    const readFile = new MockFileTool('read_file', true);
+
+    const { started, completedCalls } = await runBatch(
+      [replace, readFile],
+      [
+        { name: 'replace', path: '/project/a.ts' },
+        { name: 'replace', path: '/project/a.ts' },
+        { name: 'read_file', path: '/project/b.ts' },
+        { name: 'read_file', path: '/project/c.ts' },
+      ],
+      1,
+      new AbortController(),
+    );
+
+    expect(started).toEqual(['replace:/project/a.ts']);
+    expect(completedCalls.map((call) => call.status)).toEqual([
+      'cancelled',
+      'cancelled',
+      'cancelled',
+      'cancelled',
+    ]);
+  });
+});
+
 describe('CoreToolScheduler request queueing', () => {
   it('should queue a request if another is running', async () => {
     let resolveFirstCall: (result: ToolResult) => void;
@@ -626,6 +1091,8 @@ describe('CoreToolScheduler request queueing', () => {
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
       getApprovalMode: () => ApprovalMode.YOLO, // Use YOLO to avoid confirmation prompts
+      getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
+      getMaxConcurrentToolCalls: () => 8,
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -735,6 +1202,8 @@ describe('CoreToolScheduler request queueing', () => {
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
       getApprovalMode: () => ApprovalMode.YOLO,
+      getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
+      getMaxConcurrentToolCalls: () => 8,
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -21,15 +21,24 @@ import {
   ToolErrorType,
   AnyDeclarativeTool,
   AnyToolInvocation,
+  ExitPlanModeTool,
+  HookEventName,
 } from '../index.js';
 import { Part, PartListUnion } from '@google/genai';
 import { getResponseTextFromParts } from '../utils/generateContentResponseUtilities.js';
+import {
+  addResponseNotes,
+  PreToolUseHookOutcome,
+  runPostToolUseHooks,
+  runPreToolUseHooks,
+} from '../hooks/toolHooks.js';
 import {
   isModifiableDeclarativeTool,
   ModifyContext,
   modifyWithEditor,
 } from '../tools/modifiable-tool.js';
 import * as Diff from 'diff';
+import path from 'path';
 
 export type ValidatingToolCall = {
   status: 'validating';
@@ -73,7 +82,7 @@ export type ExecutingToolCall = {
   request: ToolCallRequestInfo;
   tool: AnyDeclarativeTool;
   invocation: AnyToolInvocation;
-  liveOutput?: string;
+  liveOutput?: ToolResultDisplay;
   startTime?: number;
   outcome?: ToolConfirmationOutcome;
 };
@@ -120,7 +129,7 @@ export type ConfirmHandler = (
 
 export type OutputUpdateHandler = (
   toolCallId: string,
-  outputChunk: string,
+  outputChunk: ToolResultDisplay,
 ) => void;
 
 export type AllToolCallsCompleteHandler = (
@@ -225,6 +234,51 @@ const createErrorResponse = (
   errorType,
 });
 
+/**
+ * What a tool call reads or writes, to decide whether it can run in parallel
+ * with other calls.
+ */
+interface ToolCallAccess {
+  isReadOnly: boolean;
+  /** The absolute paths the call touches, or undefined if unknown. */
+  paths: string[] | undefined;
+}
+
+const getToolCallAccess = (
+  call: ScheduledToolCall | ExecutingToolCall,
+): ToolCallAccess => {
+  const locations = call.invocation.toolLocations();
+  return {
+    isReadOnly: call.tool.isReadOnly(call.request.args),
+    paths:
+      locations.length > 0
+        ? locations.map((location) => path.resolve(location.path))
+        : undefined,
+  };
+};
+
+const pathsOverlap = (a: string, b: string): boolean =>
+  a === b || a.startsWith(b + path.sep) || b.startsWith(a + path.sep);
+
+/**
+ * Returns whether two tool calls may interfere when run at the same time.
+ * Calls that only read never conflict. Otherwise, calls conflict when they
+ * touch overlapping paths, or when either does not report its paths.
+ */
+const toolCallsConflict = (a: ToolCallAccess, b: ToolCallAccess): boolean => {
+  if (a.isReadOnly && b.isReadOnly) {
+    return false;
+  }
+  const pathsA = a.paths;
+  const pathsB = b.paths;
+  if (!pathsA || !pathsB) {
+    return true;
+  }
+  return pathsA.some((pathA) =>
+    pathsB.some((pathB) => pathsOverlap(pathA, pathB)),
+  );
+};
+
 interface CoreToolSchedulerOptions {
   toolRegistry: Promise<ToolRegistry>;
   outputUpdateHandler?: OutputUpdateHandler;
@@ -245,6 +299,8 @@ export class CoreToolScheduler {
   private config: Config;
   private onEditorClose: () => void;
   private isFinalizingToolCalls = false;
+  /** The names of the earlier calls each call had to wait for, by call ID. */
+  private serializedCalls = new Map<string, Set<string>>();
   private isScheduling = false;
   private requestQueue: Array<{
     request: ToolCallRequestInfo | ToolCallRequestInfo[];
@@ -535,9 +591,18 @@ export class CoreToolScheduler {
       }
       const requestsToProcess = Array.isArray(request) ? request : [request];
       const toolRegistry = await this.toolRegistry;
+      const hookOutcomes = await this.runPreToolUseHooks(
+        requestsToProcess,
+        toolRegistry,
+        signal,
+      );
 
       const newToolCalls: ToolCall[] = requestsToProcess.map(
-        (reqInfo): ToolCall => {
+        (originalReqInfo): ToolCall => {
+          const hookOutcome = hookOutcomes.get(originalReqInfo.callId);
+          const reqInfo = hookOutcome
+            ? { ...originalReqInfo, args: hookOutcome.args }
+            : originalReqInfo;
           const toolInstance = toolRegistry.getTool(reqInfo.name);
           if (!toolInstance) {
             return {
@@ -552,6 +617,20 @@ export class CoreToolScheduler {
             };
           }
 
+          if (hookOutcome?.denyMessage) {
+            return {
+              status: 'error',
+              request: reqInfo,
+              tool: toolInstance,
+              response: createErrorResponse(
+                reqInfo,
+                new Error(hookOutcome.denyMessage),
+                ToolErrorType.HOOK_DENIED,
+              ),
+              durationMs: 0,
+            };
+          }
+
           const invocationOrError = this.buildInvocation(
             toolInstance,
             reqInfo.args,
@@ -570,6 +649,25 @@ export class CoreToolScheduler {
             };
           }
 
+          if (
+            this.config.getApprovalMode() === ApprovalMode.PLAN &&
+            !toolInstance.isReadOnly(reqInfo.args)
+          ) {
+            return {
+              status: 'error',
+              request: reqInfo,
+              tool: toolInstance,
+              response: createErrorResponse(
+                reqInfo,
+                new Error(
+                  `Tool "${reqInfo.name}" is not available in plan mode because it may modify files or other state. Only use read-only tools until the user approves your plan with "${ExitPlanModeTool.Name}".`,
+                ),
+                ToolErrorType.PLAN_MODE_RESTRICTED,
+              ),
+              durationMs: 0,
+            };
+          }
+
           return {
             status: 'validating',
             request: reqInfo,
@@ -591,7 +689,10 @@ export class CoreToolScheduler {
         const { request: reqInfo, invocation } = toolCall;
 
         try {
-          if (this.config.getApprovalMode() === ApprovalMode.YOLO) {
+          if (
+            this.config.getApprovalMode() === ApprovalMode.YOLO ||
+            hookOutcomes.get(reqInfo.callId)?.approved
+          ) {
             this.setToolCallOutcome(
               reqInfo.callId,
               ToolConfirmationOutcome.ProceedAlways,
@@ -673,6 +774,37 @@ export class CoreToolScheduler {
     }
   }
 
+  /**
+   * Runs the PreToolUse hooks of each registered tool call, one call at a
+   * time.
+   * @returns The hook outcomes, by call ID.
+   */
+  private async runPreToolUseHooks(
+    requests: ToolCallRequestInfo[],
+    toolRegistry: ToolRegistry,
+    signal: AbortSignal,
+  ): Promise<Map<string, PreToolUseHookOutcome>> {
+    const outcomes = new Map<string, PreToolUseHookOutcome>();
+    if (!this.config.getHookRunner().hasHooks(HookEventName.PreToolUse)) {
+      return outcomes;
+    }
+
+    for (const reqInfo of requests) {
+      if (toolRegistry.getTool(reqInfo.name)) {
+        outcomes.set(
+          reqInfo.callId,
+          await runPreToolUseHooks(
+            this.config,
+            reqInfo.name,
+            reqInfo.args,
+            signal,
+          ),
+        );
+      }
+    }
+    return outcomes;
+  }
+
   async handleConfirmationResponse(
     callId: string,
     originalOnConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>,
@@ -784,94 +916,212 @@ export class CoreToolScheduler {
   }
 
   private attemptExecutionOfScheduledCalls(signal: AbortSignal): void {
-    const allCallsFinalOrScheduled = this.toolCalls.every(
+    if (signal.aborted) {
+      // Calls still waiting for a slot or a conflicting call never start.
+      for (const toolCall of this.toolCalls) {
+        if (toolCall.status === 'scheduled') {
+          this.setStatusInternal(
+            toolCall.request.callId,
+            'cancelled',
+            'User cancelled tool execution.',
+          );
+        }
+      }
+      return;
+    }
+
+    const allCallsReady = this.toolCalls.every(
       (call) =>
         call.status === 'scheduled' ||
+        call.status === 'executing' ||
         call.status === 'cancelled' ||
         call.status === 'success' ||
         call.status === 'error',
     );
 
-    if (allCallsFinalOrScheduled) {
-      const callsToExecute = this.toolCalls.filter(
-        (call) => call.status === 'scheduled',
+    if (allCallsReady) {
+      // Calls start in the order they were requested. A call waits for the
+      // earlier calls it conflicts with, so those run one at a time, while
+      // calls that do not conflict run in parallel up to the limit.
+      const maxConcurrent = Math.max(
+        1,
+        this.config.getMaxConcurrentToolCalls(),
       );
+      let executingCount = this.toolCalls.filter(
+        (call) => call.status === 'executing',
+      ).length;
+      const pendingCalls: Array<{ call: ToolCall; access: ToolCallAccess }> =
+        [];
+
+      for (const toolCall of this.toolCalls) {
+        if (
+          toolCall.status !== 'scheduled' &&
+          toolCall.status !== 'executing'
+        ) {
+          continue;
+        }
 
-      callsToExecute.forEach((toolCall) => {
-        if (toolCall.status !== 'scheduled') return;
-
-        const scheduledCall = toolCall;
-        const { callId, name: toolName } = scheduledCall.request;
-        const invocation = scheduledCall.invocation;
-        this.setStatusInternal(callId, 'executing');
-
-        const liveOutputCallback =
-          scheduledCall.tool.canUpdateOutput && this.outputUpdateHandler
-            ? (outputChunk: string) => {
-                if (this.outputUpdateHandler) {
-                  this.outputUpdateHandler(callId, outputChunk);
-                }
-                this.toolCalls = this.toolCalls.map((tc) =>
-                  tc.request.callId === callId && tc.status === 'executing'
-                    ? { ...tc, liveOutput: outputChunk }
-                    : tc,
-                );
-                this.notifyToolCallsUpdate();
-              }
-            : undefined;
+        const access = getToolCallAccess(toolCall);
+        const conflictingCalls = pendingCalls
+          .filter((earlier) => toolCallsConflict(earlier.access, access))
+          .map((earlier) => earlier.call);
+        pendingCalls.push({ call: toolCall, access });
 
-        invocation
-          .execute(signal, liveOutputCallback)
-          .then(async (toolResult: ToolResult) => {
-            if (signal.aborted) {
-              this.setStatusInternal(
-                callId,
-                'cancelled',
-                'User cancelled tool execution.',
-              );
-              return;
-            }
+        if (toolCall.status !== 'scheduled') {
+          continue;
+        }
+        if (conflictingCalls.length > 0) {
+          const waitedFor =
+            this.serializedCalls.get(toolCall.request.callId) ?? new Set();
+          for (const call of conflictingCalls) {
+            waitedFor.add(call.request.name);
+          }
+          this.serializedCalls.set(toolCall.request.callId, waitedFor);
+          continue;
+        }
+        if (executingCount >= maxConcurrent) {
+          continue;
+        }
 
-            if (toolResult.error === undefined) {
-              const response = convertToFunctionResponse(
-                toolName,
-                callId,
-                toolResult.llmContent,
-              );
-              const successResponse: ToolCallResponseInfo = {
-                callId,
-                responseParts: response,
-                resultDisplay: toolResult.returnDisplay,
-                error: undefined,
-                errorType: undefined,
-              };
-              this.setStatusInternal(callId, 'success', successResponse);
-            } else {
-              // It is a failure
-              const error = new Error(toolResult.error.message);
-              const errorResponse = createErrorResponse(
-                scheduledCall.request,
-                error,
-                toolResult.error.type,
-              );
-              this.setStatusInternal(callId, 'error', errorResponse);
+        executingCount++;
+        this.executeScheduledCall(toolCall, signal);
+      }
+    }
+  }
+
+  private executeScheduledCall(
+    scheduledCall: ScheduledToolCall,
+    signal: AbortSignal,
+  ): void {
+    const { callId, name: toolName } = scheduledCall.request;
+    const invocation = scheduledCall.invocation;
+    if (signal.aborted) {
+      this.setStatusInternal(
+        callId,
+        'cancelled',
+        'User cancelled tool execution.',
+      );
+      return;
+    }
+    this.setStatusInternal(callId, 'executing');
+
+    const liveOutputCallback =
+      scheduledCall.tool.canUpdateOutput && this.outputUpdateHandler
+        ? (outputChunk: ToolResultDisplay) => {
+            if (this.outputUpdateHandler) {
+              this.outputUpdateHandler(callId, outputChunk);
             }
-          })
-          .catch((executionError: Error) => {
-            this.setStatusInternal(
-              callId,
-              'error',
-              createErrorResponse(
-                scheduledCall.request,
-                executionError instanceof Error
-                  ? executionError
-                  : new Error(String(executionError)),
-                ToolErrorType.UNHANDLED_EXCEPTION,
-              ),
+            this.toolCalls = this.toolCalls.map((tc) =>
+              tc.request.callId === callId && tc.status === 'executing'
+                ? { ...tc, liveOutput: outputChunk }
+                : tc,
             );
-          });
+            this.notifyToolCallsUpdate();
+          }
+        : undefined;
+
+    invocation
+      .execute(signal, liveOutputCallback)
+      .then(async (toolResult: ToolResult) => {
+        if (signal.aborted) {
+          this.setStatusInternal(
+            callId,
+            'cancelled',
+            'User cancelled tool execution.',
+          );
+          this.attemptExecutionOfScheduledCalls(signal);
+          return;
+        }
+
+        // Without PostToolUse hooks, the call completes without waiting.
+        const hookFeedback = this.config
+          .getHookRunner()
+          .hasHooks(HookEventName.PostToolUse)
+          ? await runPostToolUseHooks(
+              this.config,
+              toolName,
+              scheduledCall.request.args,
+              toolResult,
+              signal,
+            )
+          : undefined;
+
+        if (toolResult.error === undefined) {
+          const response = convertToFunctionResponse(
+            toolName,
+            callId,
+            toolResult.llmContent,
+          );
+          const successResponse: ToolCallResponseInfo = {
+            callId,
+            responseParts: response,
+            resultDisplay: toolResult.returnDisplay,
+            error: undefined,
+            errorType: undefined,
+          };
+          this.setStatusInternal(
+            callId,
+            'success',
+            this.withResponseNotes(successResponse, hookFeedback),
+          );
+        } else {
+          // It is a failure
+          const error = new Error(toolResult.error.message);
+          const errorResponse = createErrorResponse(
+            scheduledCall.request,
+            error,
+            toolResult.error.type,
+          );
+          this.setStatusInternal(
+            callId,
+            'error',
+            this.withResponseNotes(errorResponse, hookFeedback),
+          );
+        }
+        this.attemptExecutionOfScheduledCalls(signal);
+      })
+      .catch((executionError: Error) => {
+        this.setStatusInternal(
+          callId,
+          'error',
+          createErrorResponse(
+            scheduledCall.request,
+            executionError instanceof Error
+              ? executionError
+              : new Error(String(executionError)),
+            ToolErrorType.UNHANDLED_EXCEPTION,
+          ),
+        );
+        this.attemptExecutionOfScheduledCalls(signal);
       });
+  }
+
+  /**
+   * Adds notes for the model to a tool response: the feedback of PostToolUse
+   * hooks, and which earlier calls the call had to wait for.
+   */
+  private withResponseNotes(
+    response: ToolCallResponseInfo,
+    hookFeedback: string | undefined,
+  ): ToolCallResponseInfo {
+    const notes: string[] = [];
+    if (hookFeedback) {
+      notes.push(hookFeedback);
+    }
+    const waitedFor = this.serializedCalls.get(response.callId);
+    if (waitedFor) {
+      const names = [...waitedFor].map((name) => `"${name}"`).join(', ');
+      notes.push(
+        `Note: this call ran after the earlier ${names} call(s) in the same batch, because they may access the same files. Calls that may interfere run one at a time in the order they were requested; other calls run in parallel.`,
+      );
+    }
+    if (notes.length === 0) {
+      return response;
     }
+    return {
+      ...response,
+      responseParts: addResponseNotes(response.responseParts, notes),
+    };
   }
 
   private async checkAndNotifyCompletion(): Promise<void> {
@@ -885,6 +1135,7 @@ export class CoreToolScheduler {
     if (this.toolCalls.length > 0 && allCallsAreTerminal) {
       const completedCalls = [...this.toolCalls] as CompletedToolCall[];
       this.toolCalls = [];
+      this.serializedCalls.clear();
 
       for (const call of completedCalls) {
         logToolCall(this.config, new ToolCallEvent(call));
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import {
+  FallbackContentGenerator,
+  describeModelFallback,
+  getFallbackReason,
+} from './fallbackContentGenerator.js';
+import {
+  AuthType,
+  ContentGenerator,
+  ContentGeneratorConfig,
+  createContentGenerator,
+  createContentGeneratorConfig,
+} from './contentGenerator.js';
+import { Config } from '../config/config.js';
+
+vi.mock('./contentGenerator.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./contentGenerator.js')>();
+  return {
+    ...actual,
+    createContentGenerator: vi.fn(),
+    createContentGeneratorConfig: vi.fn(),
+  };
+});
+
+function httpError(status: number, message = `Request failed with ${status}`) {
+  return Object.assign(new Error(message), { status });
+}
+
+function mockGenerator(
+  generateContent: ContentGenerator['generateContent'],
+): ContentGenerator {
+  return {
+    generateContent: vi.fn(generateContent),
+    generateContentStream: vi.fn(),
+    countTokens: vi.fn(),
+    embedContent: vi.fn(),
+  };
+}
+
+const response = (text: string) =>
+  ({
+    candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+  }) as GenerateContentResponse;
+
+const request = {
+  model: 'claude-sonnet-4',
+  contents: [{ role: 'user', parts: [{ text: 'hello' }] }],
+};
+
+describe('getFallbackReason', () => {
+  it('should classify quota errors, timeouts and server errors', () => {
+    expect(
+      getFallbackReason(
+        httpError(
+          429,
+          "Quota exceeded for quota metric 'Gemini 2.5 Pro Requests'",
+        ),
+      ),
+    ).toBe('quota');
+    expect(getFallbackReason(httpError(503))).toBe('server_error');
+    expect(getFallbackReason(new Error('connect ECONNREFUSED'))).toBe(
+      'server_error',
+    );
+    expect(getFallbackReason(new Error('Request timeout after 120s.'))).toBe(
+      'timeout',
+    );
+  });
+
+  it('should leave rate limits and client errors alone', () => {
+    expect(getFallbackReason(httpError(429))).toBeUndefined();
+    expect(getFallbackReason(httpError(400))).toBeUndefined();
+  });
+});
+
+describe('FallbackContentGenerator', () => {
+  const primaryConfig: ContentGeneratorConfig = {
+    model: 'claude-sonnet-4',
+    authType: AuthType.USE_ANTHROPIC,
+  };
+  let config: Config;
+  let onFallback: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    onFallback = vi.fn();
+    config = {
+      getSessionId: () => 'session-id',
+      activateFallback: vi.fn(),
+      modelFallbackHandler: onFallback,
+    } as unknown as Config;
+    vi.mocked(createContentGeneratorConfig).mockImplementation(
+      (_config, authType) => ({
+        model: authType === AuthType.USE_OPENAI ? 'gpt-4o' : 'llama2',
+        authType,
+      }),
+    );
+  });
+
+  it('should retry on the next provider and stay there', async () => {
+    const primary = mockGenerator(async () => {
+      throw httpError(503);
+    });
+    const openai = mockGenerator(async () => response('from openai'));
+    vi.mocked(createContentGenerator).mockResolvedValue(openai);
+    const generator = new FallbackContentGenerator(
+      primary,
+      primaryConfig,
+      [{ provider: 'openai' }, { provider: 'ollama' }],
+      config,
+    );
+
+    await expect(generator.generateContent(request, 'p1')).resolves.toEqual(
+      response('from openai'),
+    );
+    expect(openai.generateContent).toHaveBeenCalledWith(
+      { ...request, model: 'gpt-4o' },
+      'p1',
+    );
+    expect(config.activateFallback).toHaveBeenCalledWith({
+      model: 'gpt-4o',
+      authType: AuthType.USE_OPENAI,
+    });
+    expect(onFallback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fromProvider: AuthType.USE_ANTHROPIC,
+        fromModel: 'claude-sonnet-4',
+        toProvider: 'openai',
+        toModel: 'gpt-4o',
+        reason: 'server_error',
+      }),
+    );
+
+    await generator.generateContent(request, 'p2');
+    expect(primary.generateContent).toHaveBeenCalledTimes(3);
+    expect(openai.generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry a single server error on the same provider', async () => {
+    const primary = mockGenerator(async () => response('from anthropic'));
+    vi.mocked(primary.generateContent)
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(new Error('fetch failed'));
+    const generator = new FallbackContentGenerator(
+      primary,
+      primaryConfig,
+      [{ provider: 'openai' }],
+      config,
+    );
+
+    await expect(generator.generateContent(request, 'p1')).resolves.toEqual(
+      response('from anthropic'),
+    );
+    vi.mocked(primary.generateContent)
+      .mockRejectedValueOnce(httpError(500))
+      .mockRejectedValueOnce(httpError(502));
+    await expect(generator.generateContent(request, 'p2')).resolves.toEqual(
+      response('from anthropic'),
+    );
+
+    expect(primary.generateContent).toHaveBeenCalledTimes(6);
+    expect(createContentGenerator).not.toHaveBeenCalled();
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+
+  it('should skip targets that cannot be set up and use the configured model', async () => {
+    const primary = mockGenerator(async () => {
+      throw httpError(500);
+    });
+    const ollama = mockGenerator(async () => response('from ollama'));
+    vi.mocked(createContentGenerator)
+      .mockRejectedValueOnce(new Error('OpenAI API key is required'))
+      .mockResolvedValueOnce(ollama);
+    const generator = new FallbackContentGenerator(
+      primary,
+      primaryConfig,
+      [
+        { provider: 'unknown-provider' },
+        { provider: 'openai' },
+        { provider: 'ollama', model: 'qwen3-coder:30b' },
+      ],
+      config,
+    );
+
+    await generator.generateContent(request, 'p1');
+
+    expect(ollama.generateContent).toHaveBeenCalledWith(
+      { ...request, model: 'qwen3-coder:30b' },
+      'p1',
+    );
+  });
+
+  it('should only fall back after repeated timeouts', async () => {
+    const primary = mockGenerator(async () => {
+      throw new Error('Request timeout after 120s.');
+    });
+    const openai = mockGenerator(async () => response('from openai'));
+    vi.mocked(createContentGenerator).mockResolvedValue(openai);
+    const generator = new FallbackContentGenerator(
+      primary,
+      primaryConfig,
+      [{ provider: 'openai' }],
+      config,
+    );
+
+    await generator.generateContent(request, 'p1');
+
+    expect(primary.generateContent).toHaveBeenCalledTimes(2);
+    expect(onFallback).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'timeout' }),
+    );
+  });
+
+  it('should rethrow errors that do not warrant a fallback', async () => {
+    const primary = mockGenerator(async () => {
+      throw httpError(400);
+    });
+    const generator = new FallbackContentGenerator(
+      primary,
+      primaryConfig,
+      [{ provider: 'openai' }],
+      config,
+    );
+
+    await expect(generator.generateContent(request, 'p1')).rejects.toThrow(
+      'Request failed with 400',
+    );
+    expect(createContentGenerator).not.toHaveBeenCalled();
+  });
+
+  it('should rethrow the error once the chain is exhausted', async () => {
+    const failing = () =>
+      mockGenerator(async () => {
+        throw httpError(502);
+      });
+    vi.mocked(createContentGenerator).mockResolvedValue(failing());
+    const generator = new FallbackContentGenerator(
+      failing(),
+      primaryConfig,
+      [{ provider: 'openai' }],
+      config,
+    );
+
+    await expect(generator.generateContent(request, 'p1')).rejects.toThrow(
+      'Request failed with 502',
+    );
+    expect(onFallback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back when a stream fails before its first chunk', async () => {
+    const primary = mockGenerator(async () => response('unused'));
+    vi.mocked(primary.generateContentStream).mockImplementation(async () =>
+      (async function* () {
+        yield* [];
+        throw httpError(529, 'Overloaded');
+      })(),
+    );
+    const openai = mockGenerator(async () => response('unused'));
+    vi.mocked(openai.generateContentStream).mockResolvedValue(
+      (async function* () {
+        yield response('chunk 1');
+        yield response('chunk 2');
+      })(),
+    );
+    vi.mocked(createContentGenerator).mockResolvedValue(openai);
+    const generator = new FallbackContentGenerator(
+      primary,
+      primaryConfig,
+      [{ provider: 'openai' }],
+      config,
+    );
+
+    const chunks = [];
+    for await (const chunk of await generator.generateContentStream(
+      request,
+      'p1',
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([response('chunk 1'), response('chunk 2')]);
+  });
+});
+
+describe('describeModelFallback', () => {
+  it('should name both providers and the reason', () => {
+    expect(
+      describeModelFallback({
+        fromProvider: 'anthropic',
+        fromModel: 'claude-sonnet-4',
+        toProvider: 'ollama',
+        toModel: 'qwen3-coder:30b',
+        reason: 'quota',
+        error: new Error('quota'),
+      }),
+    ).toBe(
+      'claude-sonnet-4 (anthropic) ran out of quota. Switched to qwen3-coder:30b (ollama) for the rest of this session. The conversation history was kept.',
+    );
+  });
+});
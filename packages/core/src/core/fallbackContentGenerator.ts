@@ -0,0 +1,284 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import { Config } from '../config/config.js';
+import {
+  AuthType,
+  ContentGenerator,
+  ContentGeneratorConfig,
+  createContentGenerator,
+  createContentGeneratorConfig,
+} from './contentGenerator.js';
+import { UserTierId } from '../code_assist/types.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { getErrorStatus } from '../utils/retry.js';
+import {
+  isGenericQuotaExceededError,
+  isProQuotaExceededError,
+  isQwenQuotaExceededError,
+} from '../utils/quotaErrorDetection.js';
+
+/** A provider, and optionally a model of it, to fall back to. */
+export interface FallbackTarget {
+  /** The auth type of the provider, e.g. `anthropic`, `openai` or `ollama`. */
+  provider: string;
+  /** Defaults to the model the provider is configured with. */
+  model?: string;
+}
+
+export type FallbackReason = 'quota' | 'timeout' | 'server_error';
+
+export interface ModelFallbackEvent {
+  fromProvider?: string;
+  fromModel: string;
+  toProvider: string;
+  toModel: string;
+  reason: FallbackReason;
+  error: unknown;
+}
+
+export type ModelFallbackHandler = (event: ModelFallbackEvent) => void;
+
+const REASON_DESCRIPTIONS: Record<FallbackReason, string> = {
+  quota: 'ran out of quota',
+  timeout: 'kept timing out',
+  server_error: 'is unavailable',
+};
+
+/** Returns the notice shown to the user when the session falls back. */
+export function describeModelFallback(event: ModelFallbackEvent): string {
+  const from = event.fromProvider
+    ? `${event.fromModel} (${event.fromProvider})`
+    : event.fromModel;
+  return `${from} ${REASON_DESCRIPTIONS[event.reason]}. Switched to ${event.toModel} (${event.toProvider}) for the rest of this session. The conversation history was kept.`;
+}
+
+/** Timeouts in a row after which the next target is tried. */
+const MAX_CONSECUTIVE_TIMEOUTS = 2;
+
+/**
+ * Server errors and failed connections in a row after which the next target
+ * is tried, so that a single failure does not switch providers.
+ */
+const MAX_CONSECUTIVE_SERVER_ERRORS = 3;
+
+/**
+ * Returns why an error should make the session fall back to another
+ * provider, or `undefined` if it should not. Rate limits that are not quota
+ * errors are left to `retryWithBackoff`.
+ */
+export function getFallbackReason(error: unknown): FallbackReason | undefined {
+  if (
+    isProQuotaExceededError(error) ||
+    isGenericQuotaExceededError(error) ||
+    isQwenQuotaExceededError(error)
+  ) {
+    return 'quota';
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined && status >= 500 && status < 600) {
+    return 'server_error';
+  }
+
+  const message = getErrorMessage(error).toLowerCase();
+  if (
+    message.includes('timeout') ||
+    message.includes('timed out') ||
+    message.includes('etimedout') ||
+    message.includes('deadline exceeded')
+  ) {
+    return 'timeout';
+  }
+  if (
+    message.includes('econnrefused') ||
+    message.includes('fetch failed') ||
+    message.includes('connection error')
+  ) {
+    return 'server_error';
+  }
+  return undefined;
+}
+
+/**
+ * A decorator that moves the session along the `fallbackChain` setting when
+ * the current provider runs out of quota, keeps timing out or keeps failing
+ * with server errors. Requests are retried on the next provider in the chain,
+ * so the conversation continues with its history, and the session stays on
+ * that provider afterwards.
+ */
+export class FallbackContentGenerator implements ContentGenerator {
+  private position = -1;
+  private consecutiveTimeouts = 0;
+  private consecutiveServerErrors = 0;
+
+  constructor(
+    private current: ContentGenerator,
+    private currentConfig: ContentGeneratorConfig,
+    private readonly chain: FallbackTarget[],
+    private readonly config: Config,
+  ) {}
+
+  get userTier(): UserTierId | undefined {
+    return this.current.userTier;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    return this.withFallback(request, (req) =>
+      this.current.generateContent(req, userPromptId),
+    );
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    return this.withFallback(request, async (req) => {
+      const stream = await this.current.generateContentStream(
+        req,
+        userPromptId,
+      );
+      // Errors of many providers only surface with the first chunk. Nothing
+      // has been shown to the user before it, so those can still fall back.
+      const first = await stream.next();
+      return prependChunk(first, stream);
+    });
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return this.current.countTokens(request);
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    return this.current.embedContent(request);
+  }
+
+  private async withFallback<T>(
+    request: GenerateContentParameters,
+    call: (request: GenerateContentParameters) => Promise<T>,
+  ): Promise<T> {
+    let req = request;
+    for (;;) {
+      try {
+        const result = await call(req);
+        this.consecutiveTimeouts = 0;
+        this.consecutiveServerErrors = 0;
+        return result;
+      } catch (error) {
+        const reason = getFallbackReason(error);
+        if (!reason) {
+          throw error;
+        }
+        if (reason === 'timeout') {
+          this.consecutiveTimeouts++;
+          if (this.consecutiveTimeouts < MAX_CONSECUTIVE_TIMEOUTS) {
+            continue;
+          }
+        }
+        if (reason === 'server_error') {
+          this.consecutiveServerErrors++;
+          if (this.consecutiveServerErrors < MAX_CONSECUTIVE_SERVER_ERRORS) {
+            continue;
+          }
+        }
+        if (!(await this.fallBack(reason, error))) {
+          throw error;
+        }
+        req = { ...req, model: this.currentConfig.model };
+      }
+    }
+  }
+
+  /**
+   * Switches to the next target of the chain that can be set up. Returns
+   * false when the chain is exhausted.
+   */
+  private async fallBack(
+    reason: FallbackReason,
+    error: unknown,
+  ): Promise<boolean> {
+    while (++this.position < this.chain.length) {
+      const target = this.chain[this.position];
+      if (!Object.values<string>(AuthType).includes(target.provider)) {
+        console.warn(
+          `Skipping fallback to unknown provider "${target.provider}".`,
+        );
+        continue;
+      }
+
+      const targetConfig = createContentGeneratorConfig(
+        this.config,
+        target.provider as AuthType,
+      );
+      if (target.model) {
+        targetConfig.model = target.model;
+      }
+      if (
+        targetConfig.authType === this.currentConfig.authType &&
+        targetConfig.model === this.currentConfig.model
+      ) {
+        continue;
+      }
+
+      let generator: ContentGenerator;
+      try {
+        generator = await createContentGenerator(
+          targetConfig,
+          this.config,
+          this.config.getSessionId(),
+        );
+      } catch (setupError) {
+        console.warn(
+          `Skipping fallback to ${target.provider}: ${getErrorMessage(setupError)}`,
+        );
+        continue;
+      }
+
+      const event: ModelFallbackEvent = {
+        fromProvider: this.currentConfig.authType,
+        fromModel: this.currentConfig.model,
+        toProvider: target.provider,
+        toModel: targetConfig.model,
+        reason,
+        error,
+      };
+      this.current = generator;
+      this.currentConfig = targetConfig;
+      this.consecutiveTimeouts = 0;
+      this.consecutiveServerErrors = 0;
+      this.config.activateFallback(targetConfig);
+      this.config.modelFallbackHandler?.(event);
+      return true;
+    }
+    return false;
+  }
+}
+
+async function* prependChunk(
+  first: IteratorResult<GenerateContentResponse>,
+  rest: AsyncGenerator<GenerateContentResponse>,
+): AsyncGenerator<GenerateContentResponse> {
+  if (first.done) {
+    return;
+  }
+  yield first.value;
+  yield* rest;
+}
@@ -124,6 +124,8 @@ export class GeminiChat {
     private readonly contentGenerator: ContentGenerator,
     private readonly generationConfig: GenerateContentConfig = {},
     private history: Content[] = [],
+    /** A model to use instead of the config's, e.g. for a subagent. */
+    private readonly model?: string,
   ) {
     validateHistory(history);
   }
@@ -215,7 +217,8 @@ export class GeminiChat {
 
     try {
       const apiCall = () => {
-        const modelToUse = this.config.getModel() || DEFAULT_GEMINI_FLASH_MODEL;
+        const modelToUse =
+          this.model ?? (this.config.getModel() || DEFAULT_GEMINI_FLASH_MODEL);
 
         // Prevent Flash model calls immediately after quota error
         if (
@@ -315,7 +318,7 @@ export class GeminiChat {
 
     try {
       const apiCall = () => {
-        const modelToUse = this.config.getModel();
+        const modelToUse = this.model ?? this.config.getModel();
 
         // Prevent Flash model calls immediately after quota error
         if (
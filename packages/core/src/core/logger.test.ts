@@ -611,6 +611,87 @@ describe('Logger', () => {
     });
   });
 
+  describe('session history', () => {
+    const conversation: Content[] = [
+      { role: 'user', parts: [{ text: 'Hello' }] },
+      { role: 'model', parts: [{ text: 'Hi there' }] },
+    ];
+
+    it('should save and load the history of the current session', async () => {
+      await logger.saveSessionHistory(conversation);
+
+      const fileContent = JSON.parse(
+        await fs.readFile(
+          path.join(TEST_GEMINI_DIR, `session-${testSessionId}.json`),
+          'utf-8',
+        ),
+      );
+      expect(fileContent).toEqual({
+        sessionId: testSessionId,
+        lastUpdated: '2025-01-01T12:00:00.000Z',
+        history: conversation,
+      });
+      expect(await logger.loadSessionHistory(testSessionId)).toEqual(
+        conversation,
+      );
+    });
+
+    it('should return an empty history for an unknown session', async () => {
+      expect(await logger.loadSessionHistory('missing-session')).toEqual([]);
+    });
+
+    it('should list sessions most recent first with their first user message', async () => {
+      const otherLogger = new Logger('older-session');
+      await otherLogger.initialize();
+      await otherLogger.logMessage(MessageSenderType.USER, 'First question');
+      await otherLogger.logMessage(MessageSenderType.USER, 'Second question');
+      await otherLogger.saveSessionHistory(conversation);
+      otherLogger.close();
+
+      vi.setSystemTime(new Date('2025-01-02T12:00:00.000Z'));
+      await logger.saveSessionHistory(conversation.slice(0, 1));
+      // Pick up the log entries written by the other logger
+      logger.close();
+      logger = new Logger(testSessionId);
+      await logger.initialize();
+
+      expect(await logger.listSessions()).toEqual([
+        {
+          sessionId: testSessionId,
+          lastUpdated: '2025-01-02T12:00:00.000Z',
+          messageCount: 1,
+          firstUserMessage: undefined,
+        },
+        {
+          sessionId: 'older-session',
+          lastUpdated: '2025-01-01T12:00:00.000Z',
+          messageCount: 2,
+          firstUserMessage: 'First question',
+        },
+      ]);
+    });
+
+    it('should skip malformed session files', async () => {
+      await fs.writeFile(
+        path.join(TEST_GEMINI_DIR, 'session-broken.json'),
+        '{"not":"a session"}',
+        'utf-8',
+      );
+      await logger.saveSessionHistory(conversation);
+
+      const sessions = await logger.listSessions();
+      expect(sessions.map((session) => session.sessionId)).toEqual([
+        testSessionId,
+      ]);
+    });
+
+    it('should reject session IDs without safe characters', () => {
+      expect(() => logger._sessionPath('../..')).toThrow(
+        'Invalid session ID: ../..',
+      );
+    });
+  });
+
   describe('close', () => {
     it('should reset logger state', async () => {
       await logger.logMessage(MessageSenderType.USER, 'A message');
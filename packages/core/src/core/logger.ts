@@ -10,6 +10,7 @@ import { Content } from '@google/genai';
 import { getProjectTempDir } from '../utils/paths.js';
 
 const LOG_FILE_NAME = 'logs.json';
+const SESSION_FILE_PREFIX = 'session-';
 
 export enum MessageSenderType {
   USER = 'user',
@@ -23,6 +24,19 @@ export interface LogEntry {
   message: string;
 }
 
+export interface SessionSummary {
+  sessionId: string;
+  lastUpdated: string;
+  messageCount: number;
+  firstUserMessage: string | undefined;
+}
+
+interface SessionFile {
+  sessionId: string;
+  lastUpdated: string;
+  history: Content[];
+}
+
 export class Logger {
   private qwenDir: string | undefined;
   private logFilePath: string | undefined;
@@ -31,7 +45,14 @@ export class Logger {
   private initialized = false;
   private logs: LogEntry[] = []; // In-memory cache, ideally reflects the last known state of the file
 
-  constructor(sessionId: string) {
+  /**
+   * @param sessionId The ID of the session to log.
+   * @param projectRoot The project whose logs and sessions to use.
+   */
+  constructor(
+    sessionId: string,
+    private readonly projectRoot: string = process.cwd(),
+  ) {
     this.sessionId = sessionId;
   }
 
@@ -94,7 +115,7 @@ export class Logger {
       return;
     }
 
-    this.qwenDir = getProjectTempDir(process.cwd());
+    this.qwenDir = getProjectTempDir(this.projectRoot);
     this.logFilePath = path.join(this.qwenDir, LOG_FILE_NAME);
 
     try {
@@ -333,6 +354,140 @@ export class Logger {
     }
   }
 
+  _sessionPath(sessionId: string): string {
+    if (!this.qwenDir) {
+      throw new Error('Session file path not set.');
+    }
+    // Sanitize the ID to prevent directory traversal attacks
+    const sanitizedId = sessionId.replace(/[^a-zA-Z0-9-_]/g, '');
+    if (!sanitizedId) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.qwenDir, `${SESSION_FILE_PREFIX}${sanitizedId}.json`);
+  }
+
+  /**
+   * Persists the full conversation of the current session so that it can be
+   * picked up again with `--continue` or `--resume`.
+   */
+  async saveSessionHistory(conversation: Content[]): Promise<void> {
+    if (!this.initialized || this.sessionId === undefined) {
+      console.debug(
+        'Logger not initialized or session ID missing. Cannot save session history.',
+      );
+      return;
+    }
+    const sessionFile: SessionFile = {
+      sessionId: this.sessionId,
+      lastUpdated: new Date().toISOString(),
+      history: conversation,
+    };
+    const filePath = this._sessionPath(this.sessionId);
+    try {
+      await fs.writeFile(
+        filePath,
+        JSON.stringify(sessionFile, null, 2),
+        'utf-8',
+      );
+    } catch (error) {
+      console.debug('Error writing to session file:', error);
+    }
+  }
+
+  private async _readSessionFile(
+    filePath: string,
+  ): Promise<SessionFile | null> {
+    try {
+      const fileContent = await fs.readFile(filePath, 'utf-8');
+      const parsed = JSON.parse(fileContent);
+      if (
+        typeof parsed?.sessionId !== 'string' ||
+        typeof parsed.lastUpdated !== 'string' ||
+        !Array.isArray(parsed.history)
+      ) {
+        console.debug(`Session file at ${filePath} is malformed. Skipping.`);
+        return null;
+      }
+      return parsed as SessionFile;
+    } catch (error) {
+      const nodeError = error as NodeJS.ErrnoException;
+      if (nodeError.code !== 'ENOENT') {
+        console.debug(
+          `Failed to read or parse session file ${filePath}:`,
+          error,
+        );
+      }
+      return null;
+    }
+  }
+
+  async loadSessionHistory(sessionId: string): Promise<Content[]> {
+    if (!this.initialized) {
+      console.error(
+        'Logger not initialized or session file path not set. Cannot load session history.',
+      );
+      return [];
+    }
+    const sessionFile = await this._readSessionFile(
+      this._sessionPath(sessionId),
+    );
+    return sessionFile?.history ?? [];
+  }
+
+  /**
+   * Lists the saved sessions of this project, most recently updated first.
+   */
+  async listSessions(): Promise<SessionSummary[]> {
+    if (!this.initialized || !this.qwenDir) {
+      console.error(
+        'Logger not initialized or session file path not set. Cannot list sessions.',
+      );
+      return [];
+    }
+
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.qwenDir);
+    } catch (error) {
+      console.debug('Failed to read session directory:', error);
+      return [];
+    }
+
+    const sessions: SessionSummary[] = [];
+    for (const fileName of fileNames) {
+      if (
+        !fileName.startsWith(SESSION_FILE_PREFIX) ||
+        !fileName.endsWith('.json')
+      ) {
+        continue;
+      }
+      const sessionFile = await this._readSessionFile(
+        path.join(this.qwenDir, fileName),
+      );
+      if (!sessionFile) {
+        continue;
+      }
+      const firstUserMessage = this.logs
+        .filter(
+          (entry) =>
+            entry.sessionId === sessionFile.sessionId &&
+            entry.type === MessageSenderType.USER,
+        )
+        .sort((a, b) => a.messageId - b.messageId)[0]?.message;
+      sessions.push({
+        sessionId: sessionFile.sessionId,
+        lastUpdated: sessionFile.lastUpdated,
+        messageCount: sessionFile.history.length,
+        firstUserMessage,
+      });
+    }
+
+    return sessions.sort(
+      (a, b) =>
+        new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime(),
+    );
+  }
+
   close(): void {
     this.initialized = false;
     this.logFilePath = undefined;
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MODEL_PRICING,
+  ModelPricing,
+  calculateCostUsd,
+  findModelPrice,
+  getSessionCostByProvider,
+  getSessionCostUsd,
+} from './modelPricing.js';
+import { SessionMetrics } from '../telemetry/uiTelemetry.js';
+
+describe('findModelPrice', () => {
+  const pricing: ModelPricing = {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'openrouter/gpt-4o': { input: 3, output: 12 },
+    'ollama/*': { input: 0, output: 0 },
+  };
+
+  it('should prefer the provider-specific price', () => {
+    expect(findModelPrice(pricing, 'gpt-4o', 'openrouter')).toEqual({
+      input: 3,
+      output: 12,
+    });
+    expect(findModelPrice(pricing, 'gpt-4o', 'openai')).toEqual({
+      input: 2.5,
+      output: 10,
+    });
+  });
+
+  it('should price dated and tagged variants by their longest base name', () => {
+    expect(findModelPrice(pricing, 'gpt-4o-mini-2024-07-18')).toEqual({
+      input: 0.15,
+      output: 0.6,
+    });
+    expect(findModelPrice(pricing, 'gpt-4o-2024-08-06')).toEqual({
+      input: 2.5,
+      output: 10,
+    });
+    expect(findModelPrice(pricing, 'gpt-4olike')).toBeUndefined();
+  });
+
+  it("should fall back to the provider's wildcard price", () => {
+    expect(findModelPrice(pricing, 'qwen2.5-coder:7b', 'ollama')).toEqual({
+      input: 0,
+      output: 0,
+    });
+    expect(findModelPrice(pricing, 'qwen2.5-coder:7b', 'runpod')).toBe(
+      undefined,
+    );
+  });
+
+  it('should price common models by default', () => {
+    expect(
+      findModelPrice(DEFAULT_MODEL_PRICING, 'claude-sonnet-4-20250514'),
+    ).toBeDefined();
+  });
+});
+
+describe('calculateCostUsd', () => {
+  it('should bill cached prompt tokens at the cached price and thoughts as output', () => {
+    const cost = calculateCostUsd(
+      { input: 2, output: 10, cachedInput: 1 },
+      {
+        prompt: 1_000_000,
+        cached: 500_000,
+        candidates: 100_000,
+        thoughts: 50_000,
+      },
+    );
+
+    expect(cost).toBeCloseTo(1 + 0.5 + 1.5);
+  });
+
+  it('should bill cached tokens at the input price when no cached price is set', () => {
+    const cost = calculateCostUsd(
+      { input: 2, output: 10 },
+      { prompt: 1_000_000, cached: 500_000, candidates: 0, thoughts: 0 },
+    );
+
+    expect(cost).toBeCloseTo(2);
+  });
+});
+
+describe('session costs', () => {
+  const model = (provider: string | undefined, costUsd: number | undefined) =>
+    ({ provider, costUsd }) as SessionMetrics['models'][string];
+
+  const metrics = {
+    models: {
+      'gpt-4o': model('openai', 0.5),
+      'gpt-4o-mini': model('openai', 0.25),
+      'claude-sonnet-4': model('anthropic', 1),
+      'custom-model': model('runpod', undefined),
+    },
+  } as unknown as SessionMetrics;
+
+  it('should sum the cost of every priced model', () => {
+    expect(getSessionCostUsd(metrics)).toBeCloseTo(1.75);
+  });
+
+  it('should group the cost by provider', () => {
+    expect(getSessionCostByProvider(metrics)).toEqual({
+      openai: 0.75,
+      anthropic: 1,
+    });
+  });
+});
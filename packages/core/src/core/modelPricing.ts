@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SessionMetrics } from '../telemetry/uiTelemetry.js';
+import { findModelEntry } from './modelRegistry.js';
+
+/** The price of a model in US dollars per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** The price of cached prompt tokens. Defaults to `input`. */
+  cachedInput?: number;
+}
+
+/**
+ * Model prices keyed by `<provider>/<model>`, `<provider>/*` or a bare model
+ * name, where the provider is the auth type, e.g. `openai` or `anthropic`. A
+ * model name key also prices its dated or tagged variants, such as
+ * `claude-sonnet-4-20250514` for `claude-sonnet-4`.
+ */
+export type ModelPricing = Record<string, ModelPrice>;
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+/**
+ * List prices of common models. Users can override or extend them with the
+ * `modelPricing` setting.
+ */
+export const DEFAULT_MODEL_PRICING: ModelPricing = {
+  // Google
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  // OpenAI
+  'gpt-5': { input: 1.25, output: 10, cachedInput: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+  'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  // Anthropic
+  'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+  // xAI
+  'grok-4': { input: 3, output: 15, cachedInput: 0.75 },
+  'grok-3': { input: 3, output: 15, cachedInput: 0.75 },
+  'grok-3-mini': { input: 0.3, output: 0.5, cachedInput: 0.075 },
+  // Local and free providers
+  'ollama/*': FREE,
+  'lm-studio/*': FREE,
+  'qwen-oauth/*': FREE,
+};
+
+/**
+ * Finds the price of a model, preferring provider-specific entries, then
+ * exact model names, then the longest model name key that the model is a
+ * variant of, and finally the provider's `*` entry.
+ */
+export function findModelPrice(
+  pricing: ModelPricing,
+  model: string,
+  provider?: string,
+): ModelPrice | undefined {
+  return findModelEntry(pricing, model, provider);
+}
+
+/**
+ * Calculates the cost in US dollars of a response from its token counts.
+ * Thinking tokens are billed as output.
+ */
+export function calculateCostUsd(
+  price: ModelPrice,
+  tokens: {
+    prompt: number;
+    candidates: number;
+    cached: number;
+    thoughts: number;
+  },
+): number {
+  const cached = Math.min(tokens.cached, tokens.prompt);
+  return (
+    ((tokens.prompt - cached) * price.input +
+      cached * (price.cachedInput ?? price.input) +
+      (tokens.candidates + tokens.thoughts) * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Returns the estimated cost of the session so far. Models without a known
+ * price count as free.
+ */
+export function getSessionCostUsd(metrics: SessionMetrics): number {
+  return Object.values(metrics.models).reduce(
+    (total, model) => total + (model.costUsd ?? 0),
+    0,
+  );
+}
+
+/**
+ * Returns the estimated cost of the session so far for each provider that
+ * served a model with a known price.
+ */
+export function getSessionCostByProvider(
+  metrics: SessionMetrics,
+): Record<string, number> {
+  const costs: Record<string, number> = {};
+  for (const model of Object.values(metrics.models)) {
+    if (model.costUsd !== undefined) {
+      const provider = model.provider ?? 'unknown';
+      costs[provider] = (costs[provider] ?? 0) + model.costUsd;
+    }
+  }
+  return costs;
+}
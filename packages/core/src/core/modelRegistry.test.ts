@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_CONTEXT_LENGTH,
+  ModelRegistry,
+  findModelEntry,
+} from './modelRegistry.js';
+import { tokenLimit } from './tokenLimits.js';
+import { AuthType, ContentGeneratorConfig } from './contentGenerator.js';
+
+const ollamaConfig: ContentGeneratorConfig = {
+  model: 'qwen3-coder:30b',
+  authType: AuthType.USE_OLLAMA,
+  baseUrl: 'http://localhost:11434',
+};
+
+function mockFetchResponse(body: unknown, ok = true) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok,
+    status: ok ? 200 : 404,
+    json: async () => body,
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('findModelEntry', () => {
+  const entries = {
+    'gpt-4o': 1,
+    'gpt-4o-mini': 2,
+    'openrouter/gpt-4o': 3,
+    'ollama/*': 4,
+  };
+
+  it('should prefer provider-specific entries, then variants, then wildcards', () => {
+    expect(findModelEntry(entries, 'gpt-4o', 'openrouter')).toBe(3);
+    expect(findModelEntry(entries, 'gpt-4o-mini-2024-07-18', 'openai')).toBe(2);
+    expect(findModelEntry(entries, 'llama3.1:8b', 'ollama')).toBe(4);
+    expect(findModelEntry(entries, 'gpt-4olike')).toBeUndefined();
+  });
+});
+
+describe('tokenLimit', () => {
+  it('should know the context windows of Gemini and other providers', () => {
+    expect(tokenLimit('gemini-1.5-pro')).toBe(2_097_152);
+    expect(tokenLimit('gemini-2.0-flash-preview-image-generation')).toBe(
+      32_000,
+    );
+    expect(tokenLimit('gemini-2.5-pro-preview-06-05')).toBe(1_048_576);
+    expect(tokenLimit('gpt-4o-2024-08-06')).toBe(128_000);
+    expect(tokenLimit('claude-sonnet-4-20250514')).toBe(200_000);
+    expect(tokenLimit('qwen3-coder:30b')).toBe(262_144);
+  });
+
+  it('should default to 1M tokens for unknown models', () => {
+    expect(tokenLimit('some-unknown-model')).toBe(DEFAULT_CONTEXT_LENGTH);
+  });
+});
+
+describe('ModelRegistry', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should apply settings over discovered metadata over defaults', () => {
+    const registry = new ModelRegistry({
+      'gpt-4o': { maxOutputTokens: 4_096 },
+      'ollama/*': { contextLength: 8_192 },
+    });
+
+    expect(registry.getMetadata('gpt-4o')).toEqual({
+      contextLength: 128_000,
+      maxOutputTokens: 4_096,
+      supportsTools: true,
+      supportsVision: true,
+    });
+    expect(registry.getContextLength('llama3.1:8b', AuthType.USE_OLLAMA)).toBe(
+      8_192,
+    );
+
+    registry.register('openai/gpt-4o', { contextLength: 64_000 });
+    expect(registry.getContextLength('gpt-4o', AuthType.USE_OPENAI)).toBe(
+      64_000,
+    );
+    expect(registry.getContextLength('unknown-model')).toBe(
+      DEFAULT_CONTEXT_LENGTH,
+    );
+  });
+
+  it('should discover the num_ctx and capabilities of Ollama models', async () => {
+    const fetchMock = mockFetchResponse({
+      parameters: 'temperature 0.7\nnum_ctx 32768',
+      model_info: { 'qwen3moe.context_length': 262_144 },
+      capabilities: ['completion', 'tools'],
+    });
+    const registry = new ModelRegistry();
+
+    await registry.discover({
+      ...ollamaConfig,
+      baseUrl: 'http://localhost:11434/v1/',
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:11434/api/show',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ model: 'qwen3-coder:30b' }),
+      }),
+    );
+    expect(
+      registry.getMetadata('qwen3-coder:30b', AuthType.USE_OLLAMA),
+    ).toEqual(
+      expect.objectContaining({
+        contextLength: 32_768,
+        supportsTools: true,
+        supportsVision: false,
+        supportsThinking: false,
+      }),
+    );
+  });
+
+  it("should fall back to the model's trained context length", async () => {
+    mockFetchResponse({
+      model_info: {
+        'general.architecture': 'llama',
+        'llama.context_length': 131_072,
+      },
+    });
+    const registry = new ModelRegistry();
+
+    await registry.discover({ ...ollamaConfig, model: 'my-model' });
+
+    expect(registry.getContextLength('my-model', AuthType.USE_OLLAMA)).toBe(
+      131_072,
+    );
+  });
+
+  it('should ask about each model once and ignore failures', async () => {
+    const fetchMock = mockFetchResponse({}, false);
+    const registry = new ModelRegistry();
+
+    await registry.discover(ollamaConfig);
+    await registry.discover(ollamaConfig);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(
+      registry.getContextLength('qwen3-coder:30b', AuthType.USE_OLLAMA),
+    ).toBe(262_144);
+  });
+
+  it('should not ask providers without a discovery endpoint', async () => {
+    const fetchMock = mockFetchResponse({});
+    const registry = new ModelRegistry();
+
+    await registry.discover({
+      model: 'gpt-4o',
+      authType: AuthType.USE_OPENAI,
+      baseUrl: 'https://api.openai.com/v1',
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
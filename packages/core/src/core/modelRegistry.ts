@@ -0,0 +1,335 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AuthType, ContentGeneratorConfig } from './contentGenerator.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/** What a model can do and how much it can read and write. */
+export interface ModelMetadata {
+  /** The maximum number of tokens in the prompt, including history. */
+  contextLength: number;
+  /** The maximum number of tokens in a single response. */
+  maxOutputTokens?: number;
+  supportsTools?: boolean;
+  supportsVision?: boolean;
+  supportsThinking?: boolean;
+}
+
+/**
+ * Model metadata keyed by `<provider>/<model>`, `<provider>/*` or a bare
+ * model name, where the provider is the auth type, e.g. `openai` or
+ * `ollama`. A model name key also covers its dated or tagged variants, such
+ * as `claude-sonnet-4-20250514` for `claude-sonnet-4` or `qwen3-coder:30b`
+ * for `qwen3-coder`.
+ */
+export type ModelMetadataMap = Record<string, Partial<ModelMetadata>>;
+
+export const DEFAULT_CONTEXT_LENGTH = 1_048_576;
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+/**
+ * Metadata of common models. Users can override or extend it with the
+ * `modelMetadata` setting.
+ */
+export const DEFAULT_MODEL_METADATA: ModelMetadataMap = {
+  // Google, from https://ai.google.dev/gemini-api/docs/models
+  'gemini-2.5-pro': {
+    contextLength: 1_048_576,
+    maxOutputTokens: 65_536,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'gemini-2.5-flash': {
+    contextLength: 1_048_576,
+    maxOutputTokens: 65_536,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'gemini-2.5-flash-lite': {
+    contextLength: 1_048_576,
+    maxOutputTokens: 65_536,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'gemini-2.0-flash': {
+    contextLength: 1_048_576,
+    maxOutputTokens: 8_192,
+    supportsTools: true,
+    supportsVision: true,
+  },
+  'gemini-2.0-flash-preview-image-generation': {
+    contextLength: 32_000,
+    maxOutputTokens: 8_192,
+    supportsVision: true,
+  },
+  'gemini-1.5-pro': {
+    contextLength: 2_097_152,
+    maxOutputTokens: 8_192,
+    supportsTools: true,
+    supportsVision: true,
+  },
+  'gemini-1.5-flash': {
+    contextLength: 1_048_576,
+    maxOutputTokens: 8_192,
+    supportsTools: true,
+    supportsVision: true,
+  },
+  // Qwen
+  'qwen3-coder-plus': {
+    contextLength: 1_048_576,
+    maxOutputTokens: 65_536,
+    supportsTools: true,
+  },
+  'qwen3-coder-flash': {
+    contextLength: 1_048_576,
+    maxOutputTokens: 65_536,
+    supportsTools: true,
+  },
+  'qwen3-coder': {
+    contextLength: 262_144,
+    maxOutputTokens: 65_536,
+    supportsTools: true,
+  },
+  'qwen2.5-coder': { contextLength: 32_768, supportsTools: true },
+  // OpenAI
+  'gpt-5': {
+    contextLength: 400_000,
+    maxOutputTokens: 128_000,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'gpt-4.1': {
+    contextLength: 1_047_576,
+    maxOutputTokens: 32_768,
+    supportsTools: true,
+    supportsVision: true,
+  },
+  'gpt-4o': {
+    contextLength: 128_000,
+    maxOutputTokens: 16_384,
+    supportsTools: true,
+    supportsVision: true,
+  },
+  o3: {
+    contextLength: 200_000,
+    maxOutputTokens: 100_000,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'o4-mini': {
+    contextLength: 200_000,
+    maxOutputTokens: 100_000,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  // Anthropic
+  'claude-opus-4': {
+    contextLength: 200_000,
+    maxOutputTokens: 32_000,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'claude-sonnet-4': {
+    contextLength: 200_000,
+    maxOutputTokens: 64_000,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'claude-3-7-sonnet': {
+    contextLength: 200_000,
+    maxOutputTokens: 64_000,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'claude-3-5-sonnet': {
+    contextLength: 200_000,
+    maxOutputTokens: 8_192,
+    supportsTools: true,
+    supportsVision: true,
+  },
+  'claude-3-5-haiku': {
+    contextLength: 200_000,
+    maxOutputTokens: 8_192,
+    supportsTools: true,
+  },
+  // xAI
+  'grok-4': {
+    contextLength: 256_000,
+    supportsTools: true,
+    supportsVision: true,
+    supportsThinking: true,
+  },
+  'grok-code-fast-1': {
+    contextLength: 256_000,
+    supportsTools: true,
+    supportsThinking: true,
+  },
+  'grok-3': { contextLength: 131_072, supportsTools: true },
+  'grok-3-mini': {
+    contextLength: 131_072,
+    supportsTools: true,
+    supportsThinking: true,
+  },
+  // Open models commonly served locally
+  'llama3.1': { contextLength: 131_072, supportsTools: true },
+  'llama3.2': { contextLength: 131_072, supportsTools: true },
+  'llama3.3': { contextLength: 131_072, supportsTools: true },
+  llama2: { contextLength: 4_096 },
+};
+
+/** Characters that may follow a model name key in a variant's name. */
+const VARIANT_SEPARATORS = ['-', ':', '@'];
+
+/**
+ * Finds the entry for a model, preferring provider-specific entries, then
+ * exact model names, then the longest model name key that the model is a
+ * variant of, and finally the provider's `*` entry.
+ */
+export function findModelEntry<T>(
+  entries: Record<string, T>,
+  model: string,
+  provider?: string,
+): T | undefined {
+  const names = provider ? [`${provider}/${model}`, model] : [model];
+  for (const name of names) {
+    if (entries[name]) {
+      return entries[name];
+    }
+  }
+
+  for (const name of names) {
+    let bestKey: string | undefined;
+    for (const key of Object.keys(entries)) {
+      if (
+        name.startsWith(key) &&
+        VARIANT_SEPARATORS.includes(name.charAt(key.length)) &&
+        (!bestKey || key.length > bestKey.length)
+      ) {
+        bestKey = key;
+      }
+    }
+    if (bestKey) {
+      return entries[bestKey];
+    }
+  }
+
+  return provider ? entries[`${provider}/*`] : undefined;
+}
+
+interface OllamaShowResponse {
+  parameters?: string;
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
+
+/**
+ * Knows the context window, output limit and capabilities of models. The
+ * metadata of a model comes from, in order of precedence, the
+ * `modelMetadata` setting, what the provider reported about the model, and
+ * the built-in defaults.
+ */
+export class ModelRegistry {
+  private readonly discovered: ModelMetadataMap = {};
+  private readonly attempted = new Set<string>();
+
+  constructor(private readonly overrides: ModelMetadataMap = {}) {}
+
+  /** Records metadata of a model, e.g. from a provider's discovery endpoint. */
+  register(key: string, metadata: Partial<ModelMetadata>): void {
+    this.discovered[key] = { ...this.discovered[key], ...metadata };
+  }
+
+  getMetadata(model: string, provider?: string): ModelMetadata {
+    return {
+      contextLength: DEFAULT_CONTEXT_LENGTH,
+      ...findModelEntry(DEFAULT_MODEL_METADATA, model, provider),
+      ...findModelEntry(this.discovered, model, provider),
+      ...findModelEntry(this.overrides, model, provider),
+    };
+  }
+
+  getContextLength(model: string, provider?: string): number {
+    return this.getMetadata(model, provider).contextLength;
+  }
+
+  /**
+   * Asks the provider of a content generator config about its model, for the
+   * providers that can tell. Each model is only asked about once, and
+   * failures leave the registry unchanged.
+   */
+  async discover(config: ContentGeneratorConfig): Promise<void> {
+    if (config.authType !== AuthType.USE_OLLAMA || !config.baseUrl) {
+      return;
+    }
+    const key = `${config.authType}/${config.model}`;
+    if (this.attempted.has(key)) {
+      return;
+    }
+    this.attempted.add(key);
+
+    try {
+      const metadata = await fetchOllamaMetadata(config.baseUrl, config.model);
+      if (metadata) {
+        this.register(key, metadata);
+      }
+    } catch (error) {
+      console.debug(
+        `Could not fetch metadata of model ${config.model}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Reads a model's metadata from Ollama's `/api/show` endpoint. The context
+ * length is the model's `num_ctx` parameter if it sets one, and otherwise
+ * the context length the model was trained with.
+ */
+async function fetchOllamaMetadata(
+  baseUrl: string,
+  model: string,
+): Promise<Partial<ModelMetadata> | undefined> {
+  const url = `${baseUrl.replace(/\/$/, '').replace(/\/v1$/, '')}/api/show`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model }),
+    signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+  const data = (await response.json()) as OllamaShowResponse;
+
+  const metadata: Partial<ModelMetadata> = {};
+  const numCtx = data.parameters?.match(/^num_ctx\s+(\d+)/m);
+  if (numCtx) {
+    metadata.contextLength = Number(numCtx[1]);
+  } else {
+    for (const [name, value] of Object.entries(data.model_info ?? {})) {
+      if (name.endsWith('.context_length') && typeof value === 'number') {
+        metadata.contextLength = value;
+        break;
+      }
+    }
+  }
+  if (data.capabilities) {
+    metadata.supportsTools = data.capabilities.includes('tools');
+    metadata.supportsVision = data.capabilities.includes('vision');
+    metadata.supportsThinking = data.capabilities.includes('thinking');
+  }
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
@@ -9,8 +9,12 @@ import { executeToolCall } from './nonInteractiveToolExecutor.js';
 import {
   ToolRegistry,
   ToolCallRequestInfo,
+  ToolErrorType,
   ToolResult,
   Config,
+  HookEventName,
+  HookResult,
+  HookRunner,
 } from '../index.js';
 import { Part } from '@google/genai';
 import { MockTool } from '../test-utils/tools.js';
@@ -19,6 +23,7 @@ const mockConfig = {
   getSessionId: () => 'test-session-id',
   getUsageStatisticsEnabled: () => true,
   getDebugMode: () => false,
+  getHookRunner: () => new HookRunner({}, 'test-session-id', '/tmp'),
 } as unknown as Config;
 
 describe('executeToolCall', () => {
@@ -50,7 +55,7 @@ describe('executeToolCall', () => {
       returnDisplay: 'Success!',
     };
     vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
-    vi.spyOn(mockTool, 'buildAndExecute').mockResolvedValue(toolResult);
+    vi.spyOn(mockTool, 'execute').mockResolvedValue(toolResult);
 
     const response = await executeToolCall(
       mockConfig,
@@ -60,9 +65,10 @@ describe('executeToolCall', () => {
     );
 
     expect(mockToolRegistry.getTool).toHaveBeenCalledWith('testTool');
-    expect(mockTool.buildAndExecute).toHaveBeenCalledWith(
+    expect(mockTool.execute).toHaveBeenCalledWith(
       request.args,
       abortController.signal,
+      undefined,
     );
     expect(response.callId).toBe('call1');
     expect(response.error).toBeUndefined();
@@ -122,7 +128,7 @@ describe('executeToolCall', () => {
     };
     const executionError = new Error('Tool execution failed');
     vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
-    vi.spyOn(mockTool, 'buildAndExecute').mockRejectedValue(executionError);
+    vi.spyOn(mockTool, 'execute').mockRejectedValue(executionError);
 
     const response = await executeToolCall(
       mockConfig,
@@ -145,6 +151,41 @@ describe('executeToolCall', () => {
     ]);
   });
 
+  it('should report invalid parameters without treating them as unhandled', async () => {
+    const request: ToolCallRequestInfo = {
+      callId: 'call3b',
+      name: 'testTool',
+      args: { param1: 'value1' },
+      isClientInitiated: false,
+      prompt_id: 'prompt-id-3b',
+    };
+    vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
+    vi.spyOn(mockTool, 'validateToolParams').mockReturnValue(
+      'param1 is not allowed',
+    );
+    const executeSpy = vi.spyOn(mockTool, 'execute');
+
+    const response = await executeToolCall(
+      mockConfig,
+      request,
+      mockToolRegistry,
+      abortController.signal,
+    );
+
+    expect(executeSpy).not.toHaveBeenCalled();
+    expect(response.errorType).toBe(ToolErrorType.INVALID_TOOL_PARAMS);
+    expect(response.error?.message).toBe('param1 is not allowed');
+    expect(response.responseParts).toEqual([
+      {
+        functionResponse: {
+          name: 'testTool',
+          id: 'call3b',
+          response: { error: 'param1 is not allowed' },
+        },
+      },
+    ]);
+  });
+
   it('should handle cancellation during tool execution', async () => {
     const request: ToolCallRequestInfo = {
       callId: 'call4',
@@ -156,27 +197,25 @@ describe('executeToolCall', () => {
     const cancellationError = new Error('Operation cancelled');
     vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
 
-    vi.spyOn(mockTool, 'buildAndExecute').mockImplementation(
-      async (_args, signal) => {
-        if (signal?.aborted) {
-          return Promise.reject(cancellationError);
-        }
-        return new Promise((_resolve, reject) => {
-          signal?.addEventListener('abort', () => {
-            reject(cancellationError);
-          });
-          // Simulate work that might happen if not aborted immediately
-          const timeoutId = setTimeout(
-            () =>
-              reject(
-                new Error('Should have been cancelled if not aborted prior'),
-              ),
-            100,
-          );
-          signal?.addEventListener('abort', () => clearTimeout(timeoutId));
+    vi.spyOn(mockTool, 'execute').mockImplementation(async (_args, signal) => {
+      if (signal?.aborted) {
+        return Promise.reject(cancellationError);
+      }
+      return new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => {
+          reject(cancellationError);
         });
-      },
-    );
+        // Simulate work that might happen if not aborted immediately
+        const timeoutId = setTimeout(
+          () =>
+            reject(
+              new Error('Should have been cancelled if not aborted prior'),
+            ),
+          100,
+        );
+        signal?.addEventListener('abort', () => clearTimeout(timeoutId));
+      });
+    });
 
     abortController.abort(); // Abort before calling
     const response = await executeToolCall(
@@ -207,7 +246,7 @@ describe('executeToolCall', () => {
       returnDisplay: 'Image processed',
     };
     vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
-    vi.spyOn(mockTool, 'buildAndExecute').mockResolvedValue(toolResult);
+    vi.spyOn(mockTool, 'execute').mockResolvedValue(toolResult);
 
     const response = await executeToolCall(
       mockConfig,
@@ -230,4 +269,101 @@ describe('executeToolCall', () => {
       imageDataPart,
     ]);
   });
+
+  describe('hooks', () => {
+    const request: ToolCallRequestInfo = {
+      callId: 'call6',
+      name: 'testTool',
+      args: { param: 'value' },
+      isClientInitiated: false,
+      prompt_id: 'prompt-id-6',
+    };
+
+    const configWithHooks = (
+      hookResults: Partial<Record<HookEventName, HookResult>>,
+    ) => {
+      const hookRunner = {
+        hasHooks: (event: HookEventName) => event in hookResults,
+        run: vi.fn(async (event: HookEventName) => hookResults[event] ?? {}),
+      };
+      const config = {
+        ...mockConfig,
+        getHookRunner: () => hookRunner,
+      } as unknown as Config;
+      return { config, hookRunner };
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
+    });
+
+    it('should block tool calls denied by a PreToolUse hook', async () => {
+      const { config, hookRunner } = configWithHooks({
+        [HookEventName.PreToolUse]: {
+          decision: 'deny',
+          reason: 'Writes are frozen.',
+        },
+      });
+
+      const response = await executeToolCall(
+        config,
+        request,
+        mockToolRegistry,
+        abortController.signal,
+      );
+
+      expect(hookRunner.run).toHaveBeenCalledWith(
+        HookEventName.PreToolUse,
+        { tool_name: 'testTool', tool_input: { param: 'value' } },
+        abortController.signal,
+      );
+      expect(mockTool.executeFn).not.toHaveBeenCalled();
+      expect(response.errorType).toBe(ToolErrorType.HOOK_DENIED);
+      expect(response.error?.message).toBe(
+        'Tool call blocked by a PreToolUse hook: Writes are frozen.',
+      );
+    });
+
+    it('should run tool calls with the arguments modified by a PreToolUse hook', async () => {
+      const { config } = configWithHooks({
+        [HookEventName.PreToolUse]: { toolInput: { param: 'changed' } },
+      });
+
+      await executeToolCall(
+        config,
+        request,
+        mockToolRegistry,
+        abortController.signal,
+      );
+
+      expect(mockTool.executeFn).toHaveBeenCalledWith({ param: 'changed' });
+    });
+
+    it('should send the feedback of PostToolUse hooks to the model', async () => {
+      const { config } = configWithHooks({
+        [HookEventName.PostToolUse]: {
+          decision: 'deny',
+          reason: 'Run the tests next.',
+        },
+      });
+
+      const response = await executeToolCall(
+        config,
+        request,
+        mockToolRegistry,
+        abortController.signal,
+      );
+
+      expect(response.responseParts).toEqual([
+        {
+          functionResponse: {
+            name: 'testTool',
+            id: 'call6',
+            response: { output: 'Tool mock-tool executed successfully.' },
+          },
+        },
+        { text: 'PostToolUse hook feedback: Run the tests next.' },
+      ]);
+    });
+  });
 });
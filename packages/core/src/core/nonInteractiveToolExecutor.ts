@@ -5,6 +5,7 @@
  */
 
 import {
+  AnyToolInvocation,
   FileDiff,
   logToolCall,
   ToolCallRequestInfo,
@@ -16,6 +17,11 @@ import {
 import { Config } from '../config/config.js';
 import { convertToFunctionResponse } from './coreToolScheduler.js';
 import { ToolCallDecision } from '../telemetry/tool-call-decision.js';
+import {
+  addResponseNotes,
+  runPostToolUseHooks,
+  runPreToolUseHooks,
+} from '../hooks/toolHooks.js';
 
 /**
  * Executes a single tool call non-interactively.
@@ -63,16 +69,53 @@ export async function executeToolCall(
     };
   }
 
+  const effectiveAbortSignal = abortSignal ?? new AbortController().signal;
+  const hookOutcome = await runPreToolUseHooks(
+    config,
+    toolCallRequest.name,
+    toolCallRequest.args,
+    effectiveAbortSignal,
+  );
+  if (hookOutcome.denyMessage) {
+    return createErrorResponse(
+      config,
+      toolCallRequest,
+      new Error(hookOutcome.denyMessage),
+      ToolErrorType.HOOK_DENIED,
+      Date.now() - startTime,
+    );
+  }
+  const args = hookOutcome.args;
+
+  let invocation: AnyToolInvocation;
+  try {
+    invocation = tool.build(args);
+  } catch (e) {
+    // Invalid arguments are reported to the model, which can try again.
+    return createErrorResponse(
+      config,
+      toolCallRequest,
+      e instanceof Error ? e : new Error(String(e)),
+      ToolErrorType.INVALID_TOOL_PARAMS,
+      Date.now() - startTime,
+    );
+  }
+
   try {
     // Directly execute without confirmation or live output handling
-    const effectiveAbortSignal = abortSignal ?? new AbortController().signal;
-    const toolResult: ToolResult = await tool.buildAndExecute(
-      toolCallRequest.args,
+    const toolResult: ToolResult = await invocation.execute(
       effectiveAbortSignal,
       // No live output callback for non-interactive mode
     );
 
     const tool_output = toolResult.llmContent;
+    const hookFeedback = await runPostToolUseHooks(
+      config,
+      toolCallRequest.name,
+      args,
+      toolResult,
+      effectiveAbortSignal,
+    );
 
     const tool_display = toolResult.returnDisplay;
 
@@ -99,7 +142,7 @@ export async function executeToolCall(
       'event.name': 'tool_call',
       'event.timestamp': new Date().toISOString(),
       function_name: toolCallRequest.name,
-      function_args: toolCallRequest.args,
+      function_args: args,
       duration_ms: durationMs,
       success: toolResult.error === undefined,
       error:
@@ -119,7 +162,10 @@ export async function executeToolCall(
 
     return {
       callId: toolCallRequest.callId,
-      responseParts: response,
+      responseParts: addResponseNotes(
+        response,
+        hookFeedback ? [hookFeedback] : [],
+      ),
       resultDisplay: tool_display,
       error:
         toolResult.error === undefined
@@ -129,33 +175,47 @@ export async function executeToolCall(
         toolResult.error === undefined ? undefined : toolResult.error.type,
     };
   } catch (e) {
-    const error = e instanceof Error ? e : new Error(String(e));
-    const durationMs = Date.now() - startTime;
-    logToolCall(config, {
-      'event.name': 'tool_call',
-      'event.timestamp': new Date().toISOString(),
-      function_name: toolCallRequest.name,
-      function_args: toolCallRequest.args,
-      duration_ms: durationMs,
-      success: false,
-      error: error.message,
-      error_type: ToolErrorType.UNHANDLED_EXCEPTION,
-      prompt_id: toolCallRequest.prompt_id,
-    });
-    return {
-      callId: toolCallRequest.callId,
-      responseParts: [
-        {
-          functionResponse: {
-            id: toolCallRequest.callId,
-            name: toolCallRequest.name,
-            response: { error: error.message },
-          },
-        },
-      ],
-      resultDisplay: error.message,
-      error,
-      errorType: ToolErrorType.UNHANDLED_EXCEPTION,
-    };
+    return createErrorResponse(
+      config,
+      toolCallRequest,
+      e instanceof Error ? e : new Error(String(e)),
+      ToolErrorType.UNHANDLED_EXCEPTION,
+      Date.now() - startTime,
+    );
   }
 }
+
+function createErrorResponse(
+  config: Config,
+  toolCallRequest: ToolCallRequestInfo,
+  error: Error,
+  errorType: ToolErrorType,
+  durationMs: number,
+): ToolCallResponseInfo {
+  logToolCall(config, {
+    'event.name': 'tool_call',
+    'event.timestamp': new Date().toISOString(),
+    function_name: toolCallRequest.name,
+    function_args: toolCallRequest.args,
+    duration_ms: durationMs,
+    success: false,
+    error: error.message,
+    error_type: errorType,
+    prompt_id: toolCallRequest.prompt_id,
+  });
+  return {
+    callId: toolCallRequest.callId,
+    responseParts: [
+      {
+        functionResponse: {
+          id: toolCallRequest.callId,
+          name: toolCallRequest.name,
+          response: { error: error.message },
+        },
+      },
+    ],
+    resultDisplay: error.message,
+    error,
+    errorType,
+  };
+}
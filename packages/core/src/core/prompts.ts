@@ -13,7 +13,14 @@ import { GrepTool } from '../tools/grep.js';
 import { ReadFileTool } from '../tools/read-file.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
 import { ShellTool } from '../tools/shell.js';
+import {
+  KillBackgroundJobTool,
+  ReadBackgroundJobTool,
+  StartBackgroundJobTool,
+  WaitForBackgroundJobTool,
+} from '../tools/background-jobs.js';
 import { WriteFileTool } from '../tools/write-file.js';
+import { ExitPlanModeTool } from '../tools/exit-plan-mode.js';
 import process from 'node:process';
 import { isGitRepository } from '../utils/gitUtils.js';
 import { MemoryTool, GEMINI_CONFIG_DIR } from '../tools/memoryTool.js';
@@ -183,7 +190,7 @@ When requested to perform tasks like fixing bugs, adding features, refactoring,
 - **File Paths:** Always use absolute paths when referring to files with tools like '${ReadFileTool.Name}' or '${WriteFileTool.Name}'. Relative paths are not supported. You must provide an absolute path.
 - **Parallelism:** Execute multiple independent tool calls in parallel when feasible (i.e. searching the codebase).
 - **Command Execution:** Use the '${ShellTool.Name}' tool for running shell commands, remembering the safety rule to explain modifying commands first.
-- **Background Processes:** Use background processes (via \`&\`) for commands that are unlikely to stop on their own, e.g. \`node server.js &\`. If unsure, ask the user.
+- **Background Processes:** Use the '${StartBackgroundJobTool.Name}' tool for commands that are unlikely to stop on their own, e.g. \`node server.js\` or \`npm run dev\`. Use '${WaitForBackgroundJobTool.Name}' to wait until the job is ready and '${ReadBackgroundJobTool.Name}' to check its output, and stop it with '${KillBackgroundJobTool.Name}' when it is no longer needed. If unsure, ask the user.
 - **Interactive Commands:** Try to avoid shell commands that are likely to require user interaction (e.g. \`git rebase -i\`). Use non-interactive versions of commands (e.g. \`npm init -y\` instead of \`npm init\`) when available, and otherwise remind the user that interactive shell commands are not supported and may cause hangs until canceled by the user.
 - **Remembering Facts:** Use the '${MemoryTool.Name}' tool to remember specific, *user-related* facts or preferences when the user explicitly asks, or when they state a clear, concise piece of information that would help personalize or streamline *your future interactions with them* (e.g., preferred coding style, common project paths they use, personal tool aliases). This tool is for user-specific information that should persist across sessions. Do *not* use it for general project context or information. If unsure whether to save something, you can ask the user, "Should I remember that for you?"
 - **Respect User Confirmations:** Most tool calls (also denoted as 'function calls') will first require confirmation from the user, where they will either approve or cancel the function call. If a user cancels a function call, respect their choice and do _not_ try to make the function call again. It is okay to request the tool call again _only_ if the user requests that same tool call on a subsequent prompt. When a user cancels a function call, assume best intentions from the user and consider inquiring if they prefer any alternative paths forward.
@@ -420,6 +427,30 @@ Your core function is efficient and safe assistance. Balance extreme conciseness
   return `${basePrompt}${memorySuffix}`;
 }
 
+/**
+ * Provides the instructions sent to the model when the user turns plan mode
+ * on: investigate with read-only tools, then present a plan for approval.
+ */
+export function getPlanModePrompt(): string {
+  return `
+<system-reminder>
+Plan mode is active. The user wants you to research the task and agree on a plan with them before anything is changed.
+
+- Only use read-only tools: read, list and search files, fetch web pages, and run shell commands that do not modify anything (e.g. \`git log\`, \`ls\`). Calls to tools that edit files, run other commands or save memories will be refused.
+- Investigate until you understand the code involved. Ask the user about anything that is ambiguous.
+- When you are ready, call the '${ExitPlanModeTool.Name}' tool with a structured plan: a short summary, the ordered steps with the files each step touches, and any risks or open questions. Do not present the plan as plain text.
+- The user either approves the plan, which ends plan mode so that you can implement it, or rejects it so that you keep planning with their feedback.
+</system-reminder>`.trim();
+}
+
+/**
+ * Provides the notice sent to the model when plan mode ends without an
+ * approved plan, e.g. because the user switched modes.
+ */
+export function getPlanModeExitPrompt(): string {
+  return '<system-reminder>Plan mode is no longer active. You may use all of your tools again.</system-reminder>';
+}
+
 /**
  * Provides the system prompt for the history compression process.
  * This prompt instructs the model to act as a specialized state manager,
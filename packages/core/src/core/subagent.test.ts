@@ -30,6 +30,9 @@ import {
   Type,
 } from '@google/genai';
 import { ToolErrorType } from '../tools/tool-error.js';
+import { HookEventName } from '../hooks/types.js';
+import { HookRunner } from '../hooks/hookRunner.js';
+import { MockTool } from '../test-utils/tools.js';
 
 vi.mock('./geminiChat.js');
 vi.mock('./contentGenerator.js');
@@ -593,6 +596,122 @@ describe('subagent.ts', () => {
         expect(scope.output.terminate_reason).toBe(SubagentTerminateMode.GOAL);
       });
 
+      it('should report each tool call through the run options', async () => {
+        const { config } = await createMockConfig();
+        const toolConfig: ToolConfig = { tools: ['list_files'] };
+
+        mockSendMessageStream.mockImplementation(
+          createMockStream([
+            [{ id: 'call_1', name: 'list_files', args: { path: '.' } }],
+            'stop',
+          ]),
+        );
+        const toolResponse = {
+          callId: 'call_1',
+          responseParts: 'file1.txt',
+          resultDisplay: 'Listed 1 file',
+          error: undefined,
+          errorType: undefined,
+        };
+        vi.mocked(executeToolCall).mockResolvedValue(toolResponse);
+
+        const scope = await SubAgentScope.create(
+          'test-agent',
+          config,
+          promptConfig,
+          defaultModelConfig,
+          defaultRunConfig,
+          toolConfig,
+        );
+
+        const onToolCallStart = vi.fn();
+        const onToolCallEnd = vi.fn();
+        await scope.runNonInteractive(new ContextState(), {
+          onToolCallStart,
+          onToolCallEnd,
+        });
+
+        const expectedRequest = expect.objectContaining({
+          callId: 'call_1',
+          name: 'list_files',
+          args: { path: '.' },
+        });
+        expect(onToolCallStart).toHaveBeenCalledOnce();
+        expect(onToolCallStart).toHaveBeenCalledWith(expectedRequest);
+        expect(onToolCallEnd).toHaveBeenCalledWith(
+          expectedRequest,
+          toolResponse,
+        );
+      });
+
+      it('should stop without further turns when the external signal is aborted', async () => {
+        const { config } = await createMockConfig();
+        const toolConfig: ToolConfig = { tools: ['list_files'] };
+        const abortController = new AbortController();
+
+        mockSendMessageStream.mockImplementation(
+          createMockStream([
+            [{ id: 'call_1', name: 'list_files', args: {} }],
+            'stop',
+          ]),
+        );
+        vi.mocked(executeToolCall).mockImplementation(async () => {
+          abortController.abort();
+          return {
+            callId: 'call_1',
+            responseParts: 'file1.txt',
+            resultDisplay: 'Listed 1 file',
+            error: undefined,
+            errorType: undefined,
+          };
+        });
+
+        const scope = await SubAgentScope.create(
+          'test-agent',
+          config,
+          promptConfig,
+          defaultModelConfig,
+          defaultRunConfig,
+          toolConfig,
+        );
+
+        await scope.runNonInteractive(new ContextState(), {
+          signal: abortController.signal,
+        });
+
+        expect(mockSendMessageStream).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(executeToolCall).mock.calls[0][3]?.aborted).toBe(true);
+      });
+
+      it("should run with its own model without changing the caller's", async () => {
+        const { config } = await createMockConfig();
+        const mainModel = config.getModel();
+        const modelsDuringRun: string[] = [];
+        mockSendMessageStream.mockImplementation(async () => {
+          modelsDuringRun.push(config.getModel());
+          return createMockStream(['stop'])();
+        });
+
+        const scope = await SubAgentScope.create(
+          'test-agent',
+          config,
+          promptConfig,
+          defaultModelConfig,
+          defaultRunConfig,
+        );
+        await scope.runNonInteractive(new ContextState());
+
+        expect(defaultModelConfig.model).not.toBe(mainModel);
+        expect(modelsDuringRun).toEqual([mainModel]);
+        expect(config.getModel()).toBe(mainModel);
+        expect(vi.mocked(GeminiChat).mock.lastCall?.[4]).toBe(
+          defaultModelConfig.model,
+        );
+        expect(vi.mocked(createContentGenerator).mock.lastCall?.[0].model).toBe(
+          defaultModelConfig.model,
+        );
+      });
+
       it('should provide specific tool error responses to the model', async () => {
         const { config } = await createMockConfig();
         const toolConfig: ToolConfig = { tools: ['failing_tool'] };
@@ -642,6 +761,57 @@ describe('subagent.ts', () => {
         ]);
       });
 
+      it('should stop tool calls that a PreToolUse hook blocks', async () => {
+        const mockTool = new MockTool('write_file');
+        const { config } = await createMockConfig({
+          getTool: vi.fn().mockReturnValue(mockTool),
+        });
+        vi.spyOn(config, 'getHookRunner').mockReturnValue({
+          hasHooks: (event: HookEventName) =>
+            event === HookEventName.PreToolUse,
+          run: vi.fn(async () => ({
+            decision: 'deny',
+            reason: 'Writes are frozen.',
+          })),
+        } as unknown as HookRunner);
+        const actual = await vi.importActual<
+          typeof import('./nonInteractiveToolExecutor.js')
+        >('./nonInteractiveToolExecutor.js');
+        vi.mocked(executeToolCall).mockImplementation(actual.executeToolCall);
+
+        mockSendMessageStream.mockImplementation(
+          createMockStream([
+            [{ id: 'call_write', name: 'write_file', args: { path: 'a' } }],
+            'stop',
+          ]),
+        );
+
+        const scope = await SubAgentScope.create(
+          'test-agent',
+          config,
+          promptConfig,
+          defaultModelConfig,
+          defaultRunConfig,
+          { tools: ['write_file'] },
+        );
+        await scope.runNonInteractive(new ContextState());
+
+        expect(mockTool.executeFn).not.toHaveBeenCalled();
+        const secondCallArgs = mockSendMessageStream.mock.calls[1][0];
+        expect(secondCallArgs.message).toEqual([
+          {
+            functionResponse: {
+              id: 'call_write',
+              name: 'write_file',
+              response: {
+                error:
+                  'Tool call blocked by a PreToolUse hook: Writes are frozen.',
+              },
+            },
+          },
+        ]);
+      });
+
       it('should nudge the model if it stops before emitting all required variables', async () => {
         const { config } = await createMockConfig();
         const outputConfig: OutputConfig = {
@@ -7,7 +7,7 @@
 import { reportError } from '../utils/errorReporting.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
 import { Config } from '../config/config.js';
-import { ToolCallRequestInfo } from './turn.js';
+import { ToolCallRequestInfo, ToolCallResponseInfo } from './turn.js';
 import { executeToolCall } from './nonInteractiveToolExecutor.js';
 import { createContentGenerator } from './contentGenerator.js';
 import { getEnvironmentContext } from '../utils/environmentContext.js';
@@ -147,6 +147,59 @@ export interface RunConfig {
   max_turns?: number;
 }
 
+/**
+ * A named, reusable subagent definition, such as a "reviewer" or "test-writer".
+ * Profiles are loaded by the host (e.g. from `.qwen/agents/*.toml`) and bundle
+ * the prompt, model, run and tool settings used to create a `SubAgentScope`.
+ */
+export interface SubagentProfile {
+  /** The unique name used to select the profile. */
+  name: string;
+  /** A short, human-readable summary of what the profile is for. */
+  description?: string;
+  /**
+   * The subagent's system prompt. The delegated task is available as `${task}`;
+   * if the prompt does not reference it, the task is appended.
+   */
+  systemPrompt: string;
+  /** Tool names the subagent may use. Defaults to the read-only tools. */
+  tools?: string[];
+  /** The model to use. Defaults to the current session model. */
+  model?: string;
+  temp?: number;
+  top_p?: number;
+  max_turns?: number;
+  max_time_minutes?: number;
+  /** Variables the subagent must emit, keyed by name with a description. */
+  outputs?: Record<string, string>;
+  /** The file the profile was loaded from, if any. */
+  filePath?: string;
+  /** The extension that ships the profile, if any. */
+  extensionName?: string;
+}
+
+/**
+ * Optional hooks that let the caller cancel a non-interactive run and observe
+ * the tool calls the subagent makes along the way.
+ */
+export interface RunOptions {
+  /**
+   * Aborts the run, including any in-flight model request or tool call.
+   */
+  signal?: AbortSignal;
+  /**
+   * Invoked before each tool call made by the subagent.
+   */
+  onToolCallStart?: (request: ToolCallRequestInfo) => void;
+  /**
+   * Invoked once a tool call made by the subagent has completed.
+   */
+  onToolCallEnd?: (
+    request: ToolCallRequestInfo,
+    response: ToolCallResponseInfo,
+  ) => void;
+}
+
 /**
  * Manages the runtime context state for the subagent.
  * This class provides a mechanism to store and retrieve key-value pairs
@@ -338,9 +391,13 @@ export class SubAgentScope {
    * This method orchestrates the subagent's execution loop, including prompt templating,
    * tool execution, and termination conditions.
    * @param {ContextState} context - The current context state containing variables for prompt templating.
+   * @param {RunOptions} [options] - Optional cancellation signal and progress callbacks.
    * @returns {Promise<void>} A promise that resolves when the subagent has completed its execution.
    */
-  async runNonInteractive(context: ContextState): Promise<void> {
+  async runNonInteractive(
+    context: ContextState,
+    options: RunOptions = {},
+  ): Promise<void> {
     const chat = await this.createChatObject(context);
 
     if (!chat) {
@@ -349,6 +406,11 @@ export class SubAgentScope {
     }
 
     const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    if (options.signal?.aborted) {
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
     const toolRegistry: ToolRegistry =
       await this.runtimeContext.getToolRegistry();
 
@@ -426,7 +488,9 @@ export class SubAgentScope {
             toolRegistry,
             abortController,
             promptId,
+            options,
           );
+          if (abortController.signal.aborted) return;
         } else {
           // Model stopped calling tools. Check if goal is met.
           if (
@@ -464,6 +528,8 @@ export class SubAgentScope {
       console.error('Error during subagent execution:', error);
       this.output.terminate_reason = SubagentTerminateMode.ERROR;
       throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -475,6 +541,7 @@ export class SubAgentScope {
    * @param {FunctionCall[]} functionCalls - An array of `FunctionCall` objects to process.
    * @param {ToolRegistry} toolRegistry - The tool registry to look up and execute tools.
    * @param {AbortController} abortController - An `AbortController` to signal cancellation of tool executions.
+   * @param {RunOptions} options - Progress callbacks to notify around each tool call.
    * @returns {Promise<Content[]>} A promise that resolves to an array of `Content` parts representing the tool responses,
    *          which are then used to update the chat history.
    */
@@ -483,6 +550,7 @@ export class SubAgentScope {
     toolRegistry: ToolRegistry,
     abortController: AbortController,
     promptId: string,
+    options: RunOptions,
   ): Promise<Content[]> {
     const toolResponseParts: Part[] = [];
 
@@ -496,7 +564,9 @@ export class SubAgentScope {
         prompt_id: promptId,
       };
 
-      let toolResponse;
+      options.onToolCallStart?.(requestInfo);
+
+      let toolResponse: ToolCallResponseInfo;
 
       // Handle scope-local tools first.
       if (functionCall.name === 'self.emitvalue') {
@@ -509,6 +579,7 @@ export class SubAgentScope {
           responseParts: `Emitted variable ${valName} successfully`,
           resultDisplay: `Emitted variable ${valName} successfully`,
           error: undefined,
+          errorType: undefined,
         };
       } else {
         toolResponse = await executeToolCall(
@@ -519,6 +590,8 @@ export class SubAgentScope {
         );
       }
 
+      options.onToolCallEnd?.(requestInfo, toolResponse);
+
       if (toolResponse.error) {
         console.error(
           `Error executing tool ${functionCall.name}: ${toolResponse.resultDisplay || toolResponse.error.message}`,
@@ -587,19 +660,23 @@ export class SubAgentScope {
         generationConfig.systemInstruction = systemInstruction;
       }
 
+      // Subagents may run in parallel with each other and the main session,
+      // so the model is passed to the chat rather than set on the config.
       const contentGenerator = await createContentGenerator(
-        this.runtimeContext.getContentGeneratorConfig(),
+        {
+          ...this.runtimeContext.getContentGeneratorConfig(),
+          model: this.modelConfig.model,
+        },
         this.runtimeContext,
         this.runtimeContext.getSessionId(),
       );
 
-      this.runtimeContext.setModel(this.modelConfig.model);
-
       return new GeminiChat(
         this.runtimeContext,
         contentGenerator,
         generationConfig,
         start_history,
+        this.modelConfig.model,
       );
     } catch (error) {
       await reportError(
@@ -10,6 +10,7 @@ import {
   FunctionCall,
   FunctionDeclaration,
   FinishReason,
+  GenerateContentResponseUsageMetadata,
 } from '@google/genai';
 import {
   ToolCallConfirmationDetails,
@@ -52,8 +53,10 @@ export enum GeminiEventType {
   Thought = 'thought',
   MaxSessionTurns = 'max_session_turns',
   SessionTokenLimitExceeded = 'session_token_limit_exceeded',
+  SessionBudgetExceeded = 'session_budget_exceeded',
   Finished = 'finished',
   LoopDetected = 'loop_detected',
+  UsageMetadata = 'usage_metadata',
 }
 
 export interface StructuredError {
@@ -71,6 +74,12 @@ export interface SessionTokenLimitExceededValue {
   message: string;
 }
 
+export interface SessionBudgetExceededValue {
+  currentCostUsd: number;
+  budgetUsd: number;
+  message: string;
+}
+
 export interface ToolCallRequestInfo {
   callId: string;
   name: string;
@@ -150,6 +159,11 @@ export type ServerGeminiSessionTokenLimitExceededEvent = {
   value: SessionTokenLimitExceededValue;
 };
 
+export type ServerGeminiSessionBudgetExceededEvent = {
+  type: GeminiEventType.SessionBudgetExceeded;
+  value: SessionBudgetExceededValue;
+};
+
 export type ServerGeminiFinishedEvent = {
   type: GeminiEventType.Finished;
   value: FinishReason;
@@ -159,6 +173,11 @@ export type ServerGeminiLoopDetectedEvent = {
   type: GeminiEventType.LoopDetected;
 };
 
+export type ServerGeminiUsageMetadataEvent = {
+  type: GeminiEventType.UsageMetadata;
+  value: GenerateContentResponseUsageMetadata;
+};
+
 // The original union type, now composed of the individual types
 export type ServerGeminiStreamEvent =
   | ServerGeminiContentEvent
@@ -171,8 +190,10 @@ export type ServerGeminiStreamEvent =
   | ServerGeminiThoughtEvent
   | ServerGeminiMaxSessionTurnsEvent
   | ServerGeminiSessionTokenLimitExceededEvent
+  | ServerGeminiSessionBudgetExceededEvent
   | ServerGeminiFinishedEvent
-  | ServerGeminiLoopDetectedEvent;
+  | ServerGeminiLoopDetectedEvent
+  | ServerGeminiUsageMetadataEvent;
 
 // A turn manages the agentic loop turn within the server context.
 export class Turn {
@@ -204,6 +225,7 @@ export class Turn {
         this.prompt_id,
       );
 
+      let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
       for await (const resp of responseStream) {
         if (signal?.aborted) {
           yield { type: GeminiEventType.UserCancelled };
@@ -211,6 +233,10 @@ export class Turn {
           return;
         }
         this.debugResponses.push(resp);
+        // Streaming responses report cumulative usage, so keep the latest.
+        if (resp.usageMetadata) {
+          usageMetadata = resp.usageMetadata;
+        }
 
         const thoughtPart = resp.candidates?.[0]?.content?.parts?.[0];
         if (thoughtPart?.thought) {
@@ -259,6 +285,10 @@ export class Turn {
           };
         }
       }
+
+      if (usageMetadata) {
+        yield { type: GeminiEventType.UsageMetadata, value: usageMetadata };
+      }
     } catch (e) {
       const error = toFriendlyError(e);
       if (error instanceof UnauthorizedError) {
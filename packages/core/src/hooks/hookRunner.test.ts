@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import os from 'os';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HookRunner } from './hookRunner.js';
+import { HookEventName, HooksConfig } from './types.js';
+
+/** A hook command that runs a Node.js script with the input as `input`. */
+const nodeHook = (script: string) =>
+  `"${process.execPath}" -e ${JSON.stringify(
+    `let d='';process.stdin.on('data',c=>d+=c).on('end',()=>{const input=JSON.parse(d);${script}})`,
+  )}`;
+
+describe('HookRunner', () => {
+  const createRunner = (hooks: HooksConfig) =>
+    new HookRunner(hooks, 'session-1', os.tmpdir());
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('sends the event as JSON on stdin and reads the decision from stdout', async () => {
+    const runner = createRunner({
+      [HookEventName.PreToolUse]: [
+        {
+          command: nodeHook(
+            `console.log(JSON.stringify({decision:'approve',reason:[input.hook_event_name,input.session_id,input.tool_name,input.tool_input.file_path].join(' ')}))`,
+          ),
+        },
+      ],
+    });
+
+    const result = await runner.run(HookEventName.PreToolUse, {
+      tool_name: 'write_file',
+      tool_input: { file_path: 'a.ts' },
+    });
+
+    expect(result).toEqual({
+      decision: 'approve',
+      reason: 'PreToolUse session-1 write_file a.ts',
+    });
+  });
+
+  it('denies with stderr as the reason when a hook exits with code 2', async () => {
+    const runner = createRunner({
+      [HookEventName.PreToolUse]: [
+        { command: 'echo "rm -rf is not allowed" >&2; exit 2' },
+        { command: 'echo \'{"decision":"approve"}\'' },
+      ],
+    });
+
+    const result = await runner.run(HookEventName.PreToolUse, {
+      tool_name: 'run_shell_command',
+      tool_input: { command: 'rm -rf /' },
+    });
+
+    expect(result).toEqual({
+      decision: 'deny',
+      reason: 'rm -rf is not allowed',
+    });
+  });
+
+  it('passes modified tool arguments on to the next hook', async () => {
+    const runner = createRunner({
+      [HookEventName.PreToolUse]: [
+        {
+          command: nodeHook(
+            `console.log(JSON.stringify({tool_input:{...input.tool_input,count:input.tool_input.count+1}}))`,
+          ),
+        },
+        {
+          command: nodeHook(
+            `console.log(JSON.stringify({tool_input:{...input.tool_input,count:input.tool_input.count*10}}))`,
+          ),
+        },
+      ],
+    });
+
+    const result = await runner.run(HookEventName.PreToolUse, {
+      tool_name: 'mock',
+      tool_input: { count: 1 },
+    });
+
+    expect(result).toEqual({ toolInput: { count: 20 } });
+  });
+
+  it('only runs tool hooks whose matcher matches the tool name', async () => {
+    const runner = createRunner({
+      [HookEventName.PostToolUse]: [
+        { matcher: 'replace|write_file', command: 'exit 2' },
+      ],
+    });
+
+    expect(
+      await runner.run(HookEventName.PostToolUse, { tool_name: 'read_file' }),
+    ).toEqual({});
+    expect(
+      (await runner.run(HookEventName.PostToolUse, { tool_name: 'replace' }))
+        .decision,
+    ).toBe('deny');
+  });
+
+  it('ignores hooks that fail or time out', async () => {
+    const runner = createRunner({
+      [HookEventName.Stop]: [
+        { command: 'echo broken >&2; exit 1' },
+        { command: 'sleep 5', timeout: 100 },
+        { command: 'echo not json' },
+        { command: 'echo "{not json"' },
+      ],
+    });
+
+    expect(await runner.run(HookEventName.Stop, {})).toEqual({});
+    expect(console.warn).toHaveBeenCalledWith(
+      'Stop hook "echo broken >&2; exit 1" failed: exited with code 1: broken',
+    );
+    expect(console.warn).toHaveBeenCalledWith(
+      'Stop hook "sleep 5" failed: timed out after 100ms',
+    );
+    expect(console.warn).toHaveBeenCalledWith(
+      'Stop hook "echo "{not json"" failed: printed invalid JSON',
+    );
+  });
+
+  it('denies when a PreToolUse hook fails or times out', async () => {
+    const run = (command: string, timeout?: number) =>
+      createRunner({
+        [HookEventName.PreToolUse]: [{ command, timeout }],
+      }).run(HookEventName.PreToolUse, { tool_name: 'run_shell_command' });
+
+    expect(await run('exit 1')).toEqual({
+      decision: 'deny',
+      reason: 'PreToolUse hook "exit 1" failed: exited with code 1',
+    });
+    expect(await run('sleep 5', 100)).toEqual({
+      decision: 'deny',
+      reason: 'PreToolUse hook "sleep 5" failed: timed out after 100ms',
+    });
+    expect(await run('echo "{not json"')).toEqual({
+      decision: 'deny',
+      reason: 'PreToolUse hook "echo "{not json"" failed: printed invalid JSON',
+    });
+  });
+
+  it('lets hooks choose whether they fail closed', async () => {
+    const runner = createRunner({
+      [HookEventName.PreToolUse]: [{ command: 'exit 1', failClosed: false }],
+      [HookEventName.UserPromptSubmit]: [
+        { command: 'exit 1', failClosed: true },
+      ],
+    });
+
+    expect(
+      await runner.run(HookEventName.PreToolUse, { tool_name: 'mock' }),
+    ).toEqual({});
+    expect(
+      (await runner.run(HookEventName.UserPromptSubmit, { prompt: 'hi' }))
+        .decision,
+    ).toBe('deny');
+  });
+
+  it('reports whether an event has hooks', () => {
+    const runner = createRunner({
+      [HookEventName.Stop]: [{ command: 'true' }],
+    });
+
+    expect(runner.hasHooks(HookEventName.Stop)).toBe(true);
+    expect(runner.hasHooks(HookEventName.PreToolUse)).toBe(false);
+  });
+});
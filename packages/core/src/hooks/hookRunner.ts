@@ -0,0 +1,234 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn } from 'node:child_process';
+import { getErrorMessage } from '../utils/errors.js';
+import {
+  HookConfig,
+  HookEventName,
+  HookInput,
+  HookResult,
+  HooksConfig,
+} from './types.js';
+
+const DEFAULT_HOOK_TIMEOUT_MS = 60000;
+
+/** Exit code with which a hook command denies the action. */
+const DENY_EXIT_CODE = 2;
+
+const TOOL_EVENTS: ReadonlySet<HookEventName> = new Set([
+  HookEventName.PreToolUse,
+  HookEventName.PostToolUse,
+]);
+
+interface CommandOutput {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export type HookEventInput = Omit<
+  HookInput,
+  'hook_event_name' | 'session_id' | 'cwd'
+>;
+
+/**
+ * Runs the commands configured in the `hooks` settings when lifecycle events
+ * happen, and combines their decisions.
+ */
+export class HookRunner {
+  constructor(
+    private readonly hooks: HooksConfig,
+    private readonly sessionId: string,
+    private readonly cwd: string,
+  ) {}
+
+  /**
+   * Returns whether any hook is configured for an event, so callers can skip
+   * building its input.
+   */
+  hasHooks(event: HookEventName): boolean {
+    return (this.hooks[event]?.length ?? 0) > 0;
+  }
+
+  /**
+   * Runs the hooks for an event one after the other, in the configured order.
+   * A hook sees the tool arguments as modified by the hooks before it, and
+   * the first hook to deny stops the rest. A hook that fails or times out
+   * denies when it is configured to fail closed, which PreToolUse hooks do
+   * by default, and is reported and otherwise ignored when it is not.
+   */
+  async run(
+    event: HookEventName,
+    eventInput: HookEventInput,
+    signal?: AbortSignal,
+  ): Promise<HookResult> {
+    const result: HookResult = {};
+    let input: HookInput = {
+      ...eventInput,
+      hook_event_name: event,
+      session_id: this.sessionId,
+      cwd: this.cwd,
+    };
+
+    for (const hook of this.getMatchingHooks(event, input.tool_name)) {
+      if (signal?.aborted) {
+        break;
+      }
+
+      let hookResult: HookResult;
+      try {
+        const output = await this.runCommand(hook, input, signal);
+        if (signal?.aborted) {
+          break;
+        }
+        hookResult = this.parseOutput(hook, output);
+      } catch (error) {
+        if (signal?.aborted) {
+          break;
+        }
+        const message = `${event} hook "${hook.command}" failed: ${getErrorMessage(error)}`;
+        if (hook.failClosed ?? event === HookEventName.PreToolUse) {
+          return { decision: 'deny', reason: message };
+        }
+        console.warn(message);
+        continue;
+      }
+
+      if (hookResult.decision === 'deny') {
+        return { decision: 'deny', reason: hookResult.reason };
+      }
+      if (hookResult.decision === 'approve') {
+        result.decision = 'approve';
+        result.reason = hookResult.reason;
+      }
+      if (hookResult.toolInput && event === HookEventName.PreToolUse) {
+        result.toolInput = hookResult.toolInput;
+        input = { ...input, tool_input: hookResult.toolInput };
+      }
+    }
+
+    return result;
+  }
+
+  private getMatchingHooks(
+    event: HookEventName,
+    toolName: string | undefined,
+  ): HookConfig[] {
+    const hooks = this.hooks[event] ?? [];
+    if (!TOOL_EVENTS.has(event) || toolName === undefined) {
+      return hooks;
+    }
+
+    return hooks.filter((hook) => {
+      if (!hook.matcher || hook.matcher === '*') {
+        return true;
+      }
+      try {
+        return new RegExp(`^(?:${hook.matcher})$`).test(toolName);
+      } catch {
+        console.warn(
+          `Ignoring ${event} hook "${hook.command}" with invalid matcher "${hook.matcher}".`,
+        );
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Reads the decision of a hook from its output. Throws when the command
+   * failed or printed invalid JSON.
+   */
+  private parseOutput(
+    hook: HookConfig,
+    { exitCode, stdout, stderr }: CommandOutput,
+  ): HookResult {
+    if (exitCode === DENY_EXIT_CODE) {
+      return {
+        decision: 'deny',
+        reason: stderr.trim() || `Blocked by hook "${hook.command}".`,
+      };
+    }
+    if (exitCode !== 0) {
+      throw new Error(
+        `exited with code ${exitCode}${stderr.trim() ? `: ${stderr.trim()}` : ''}`,
+      );
+    }
+
+    const text = stdout.trim();
+    if (!text.startsWith('{')) {
+      return {};
+    }
+
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('printed invalid JSON');
+    }
+
+    const result: HookResult = {};
+    if (parsed['decision'] === 'approve' || parsed['decision'] === 'deny') {
+      result.decision = parsed['decision'];
+    }
+    if (typeof parsed['reason'] === 'string') {
+      result.reason = parsed['reason'];
+    }
+    const toolInput = parsed['tool_input'];
+    if (
+      toolInput &&
+      typeof toolInput === 'object' &&
+      !Array.isArray(toolInput)
+    ) {
+      result.toolInput = toolInput as Record<string, unknown>;
+    }
+    return result;
+  }
+
+  private runCommand(
+    hook: HookConfig,
+    input: HookInput,
+    signal?: AbortSignal,
+  ): Promise<CommandOutput> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(hook.command, {
+        cwd: this.cwd,
+        shell: true,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (data) => (stdout += data));
+      child.stderr.on('data', (data) => (stderr += data));
+      // The command may exit without reading its input.
+      child.stdin.on('error', () => {});
+
+      const onAbort = () => child.kill();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const timeout = hook.timeout ?? DEFAULT_HOOK_TIMEOUT_MS;
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error(`timed out after ${timeout}ms`));
+      }, timeout);
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      child.on('error', (error) => {
+        cleanup();
+        reject(error);
+      });
+      child.on('close', (exitCode) => {
+        cleanup();
+        resolve({ exitCode, stdout, stderr });
+      });
+
+      child.stdin.end(JSON.stringify(input));
+    });
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PartListUnion } from '@google/genai';
+import { Config } from '../config/config.js';
+import { ToolResult } from '../tools/tools.js';
+import { ExitPlanModeTool } from '../tools/exit-plan-mode.js';
+import { partToString } from '../utils/partUtils.js';
+import { HookEventName } from './types.js';
+
+/** What the PreToolUse hooks decided about a tool call. */
+export interface PreToolUseHookOutcome {
+  /** The arguments of the call, as modified by the hooks. */
+  args: Record<string, unknown>;
+  /** Set when a hook denied the call, to send to the model as its error. */
+  denyMessage?: string;
+  /** Whether a hook approved the call, so that it runs without confirmation. */
+  approved: boolean;
+}
+
+/**
+ * Runs the PreToolUse hooks of a tool call. Every path that runs tool calls
+ * goes through this, so that hooks cannot be bypassed by running the agent
+ * non-interactively, as a subagent or over ACP.
+ */
+export async function runPreToolUseHooks(
+  config: Config,
+  toolName: string,
+  args: Record<string, unknown>,
+  signal: AbortSignal,
+): Promise<PreToolUseHookOutcome> {
+  const hookRunner = config.getHookRunner();
+  if (!hookRunner.hasHooks(HookEventName.PreToolUse)) {
+    return { args, approved: false };
+  }
+
+  const result = await hookRunner.run(
+    HookEventName.PreToolUse,
+    { tool_name: toolName, tool_input: args },
+    signal,
+  );
+  return {
+    args: result.toolInput ?? args,
+    denyMessage:
+      result.decision === 'deny'
+        ? `Tool call blocked by a PreToolUse hook: ${result.reason ?? 'no reason given.'}`
+        : undefined,
+    // Only the user can approve leaving plan mode.
+    approved:
+      result.decision === 'approve' && toolName !== ExitPlanModeTool.Name,
+  };
+}
+
+/**
+ * Runs the PostToolUse hooks of a finished tool call.
+ * @returns The note for the model when a hook denied, with the reason it gave.
+ */
+export async function runPostToolUseHooks(
+  config: Config,
+  toolName: string,
+  args: Record<string, unknown>,
+  toolResult: ToolResult,
+  signal: AbortSignal,
+): Promise<string | undefined> {
+  const hookRunner = config.getHookRunner();
+  if (!hookRunner.hasHooks(HookEventName.PostToolUse)) {
+    return undefined;
+  }
+
+  const result = await hookRunner.run(
+    HookEventName.PostToolUse,
+    {
+      tool_name: toolName,
+      tool_input: args,
+      tool_response: {
+        output: partToString(toolResult.llmContent),
+        error: toolResult.error?.message,
+      },
+    },
+    signal,
+  );
+  return result.decision === 'deny'
+    ? `PostToolUse hook feedback: ${result.reason ?? 'no reason given.'}`
+    : undefined;
+}
+
+/** Adds notes for the model, such as hook feedback, to a tool response. */
+export function addResponseNotes(
+  responseParts: PartListUnion,
+  notes: string[],
+): PartListUnion {
+  if (notes.length === 0) {
+    return responseParts;
+  }
+  const parts = Array.isArray(responseParts) ? responseParts : [responseParts];
+  return [
+    ...parts.map((part) => (typeof part === 'string' ? { text: part } : part)),
+    ...notes.map((text) => ({ text })),
+  ];
+}
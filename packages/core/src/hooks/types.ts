@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export enum HookEventName {
+  /** Before a tool call is confirmed and executed. */
+  PreToolUse = 'PreToolUse',
+  /** After a tool call has finished, successfully or not. */
+  PostToolUse = 'PostToolUse',
+  /** When the user submits a prompt, before it is sent to the model. */
+  UserPromptSubmit = 'UserPromptSubmit',
+  /** When the model has finished responding to a prompt. */
+  Stop = 'Stop',
+  /** When a new chat session starts. */
+  SessionStart = 'SessionStart',
+}
+
+/**
+ * A command to run on a hook event. The command runs in a shell in the
+ * project directory and receives a JSON `HookInput` on stdin.
+ */
+export interface HookConfig {
+  command: string;
+  /**
+   * For tool events, a regular expression that must match the whole tool
+   * name, e.g. `replace|write_file`. Omit it or use `*` to match every tool.
+   */
+  matcher?: string;
+  /** Timeout in milliseconds. Defaults to 60000. */
+  timeout?: number;
+  /**
+   * Whether the action is denied when the command fails to start, times out,
+   * exits with a code other than 0 or 2, or prints invalid JSON. Defaults to
+   * true for PreToolUse and to false for other events, whose failures are
+   * only reported.
+   */
+  failClosed?: boolean;
+}
+
+/** The `hooks` settings: the commands to run for each event. */
+export type HooksConfig = Partial<Record<HookEventName, HookConfig[]>>;
+
+/** The JSON object written to the stdin of a hook command. */
+export interface HookInput {
+  hook_event_name: HookEventName;
+  session_id: string;
+  cwd: string;
+  /** For tool events. */
+  tool_name?: string;
+  /** For tool events, the arguments of the tool call. */
+  tool_input?: Record<string, unknown>;
+  /** For PostToolUse, the result of the tool call. */
+  tool_response?: {
+    output: string;
+    error?: string;
+  };
+  /** For UserPromptSubmit. */
+  prompt?: string;
+  /**
+   * For Stop, whether the model is already continuing because a Stop hook
+   * denied before. Check it to avoid keeping the model going forever.
+   */
+  stop_hook_active?: boolean;
+  /**
+   * For SessionStart, `startup` when the CLI starts and `clear` when the
+   * conversation is cleared.
+   */
+  source?: 'startup' | 'clear';
+}
+
+export type HookDecision = 'approve' | 'deny';
+
+/**
+ * The combined outcome of the hooks that ran for an event.
+ *
+ * A hook command reports its decision by printing a JSON object with any of
+ * `decision`, `reason` and `tool_input` to stdout, or denies by exiting with
+ * code 2, in which case stderr is the reason.
+ */
+export interface HookResult {
+  /**
+   * - `approve`: for PreToolUse, run the tool without asking the user.
+   * - `deny`: block the tool call or prompt. For PostToolUse, send the
+   *   reason to the model; for Stop, send it to the model and let the model
+   *   continue.
+   */
+  decision?: HookDecision;
+  /** Why the hook made its decision. Sent to the model on `deny`. */
+  reason?: string;
+  /** For PreToolUse, arguments that replace those of the tool call. */
+  toolInput?: Record<string, unknown>;
+}
@@ -300,5 +300,46 @@ describe('ideContext', () => {
       const result = IdeContextSchema.safeParse(context);
       expect(result.success).toBe(false);
     });
+
+    it('should validate a context with diagnostics', () => {
+      const context = {
+        workspaceState: {
+          diagnostics: [
+            {
+              path: '/path/to/file.ts',
+              range: {
+                start: { line: 1, character: 0 },
+                end: { line: 1, character: 5 },
+              },
+              severity: 'error',
+              source: 'ts',
+              message: 'Type error',
+            },
+          ],
+        },
+      };
+      const result = IdeContextSchema.safeParse(context);
+      expect(result.success).toBe(true);
+    });
+
+    it('should fail validation with an unknown diagnostic severity', () => {
+      const context = {
+        workspaceState: {
+          diagnostics: [
+            {
+              path: '/path/to/file.ts',
+              range: {
+                start: { line: 1, character: 0 },
+                end: { line: 1, character: 5 },
+              },
+              severity: 'fatal',
+              message: 'Type error',
+            },
+          ],
+        },
+      };
+      const result = IdeContextSchema.safeParse(context);
+      expect(result.success).toBe(false);
+    });
   });
 });
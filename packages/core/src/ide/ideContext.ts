@@ -23,10 +23,32 @@ export const FileSchema = z.object({
 });
 export type File = z.infer<typeof FileSchema>;
 
+const PositionSchema = z.object({
+  line: z.number(),
+  character: z.number(),
+});
+
+/**
+ * Zod schema for validating a diagnostic (compiler error, lint warning...)
+ * reported by the IDE. Lines are 1-based, like the cursor position.
+ */
+export const DiagnosticSchema = z.object({
+  path: z.string(),
+  range: z.object({
+    start: PositionSchema,
+    end: PositionSchema,
+  }),
+  severity: z.enum(['error', 'warning', 'information', 'hint']),
+  source: z.string().optional(),
+  message: z.string(),
+});
+export type Diagnostic = z.infer<typeof DiagnosticSchema>;
+
 export const IdeContextSchema = z.object({
   workspaceState: z
     .object({
       openFiles: z.array(FileSchema).optional(),
+      diagnostics: z.array(DiagnosticSchema).optional(),
     })
     .optional(),
 });
@@ -17,10 +17,14 @@ export * from './core/geminiChat.js';
 export * from './core/logger.js';
 export * from './core/prompts.js';
 export * from './core/tokenLimits.js';
+export * from './core/modelRegistry.js';
+export * from './core/fallbackContentGenerator.js';
+export * from './core/modelPricing.js';
 export * from './core/turn.js';
 export * from './core/geminiRequest.js';
 export * from './core/coreToolScheduler.js';
 export * from './core/nonInteractiveToolExecutor.js';
+export * from './core/subagent.js';
 
 export * from './code_assist/codeAssist.js';
 export * from './code_assist/oauth2.js';
@@ -44,13 +48,33 @@ export * from './utils/shell-utils.js';
 export * from './utils/systemEncoding.js';
 export * from './utils/textUtils.js';
 export * from './utils/formatters.js';
+export * from './utils/terminalSerializer.js';
 export * from './utils/filesearch/fileSearch.js';
 export * from './utils/credentialManager.js';
+export * from './utils/inputValidator.js';
 
 // Export services
 export * from './services/fileDiscoveryService.js';
+export * from './services/fileSystemService.js';
 export * from './services/gitService.js';
 
+// Export language server support
+export * from './lsp/types.js';
+export * from './lsp/lspManager.js';
+
+// Export the semantic code index
+export * from './semantic/codeChunker.js';
+export * from './semantic/semanticIndex.js';
+
+// Export web search backends
+export * from './web-search/types.js';
+export * from './web-search/providers.js';
+
+// Export lifecycle hooks
+export * from './hooks/types.js';
+export * from './hooks/hookRunner.js';
+export * from './hooks/toolHooks.js';
+
 // Export IDE specific logic
 export * from './ide/ide-client.js';
 export * from './ide/ideContext.js';
@@ -60,6 +84,7 @@ export * from './ide/constants.js';
 
 // Export Shell Execution Service
 export * from './services/shellExecutionService.js';
+export * from './services/backgroundJobManager.js';
 
 // Export base tool definitions
 export * from './tools/tools.js';
@@ -68,6 +93,7 @@ export * from './tools/tool-registry.js';
 
 // Export prompt logic
 export * from './prompts/mcp-prompts.js';
+export * from './resources/resource-registry.js';
 
 // Export specific tool logic
 export * from './tools/read-file.js';
@@ -79,10 +105,17 @@ export * from './tools/write-file.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
+export * from './tools/background-jobs.js';
 export * from './tools/web-search.js';
 export * from './tools/read-many-files.js';
+export * from './tools/delegate-task.js';
+export * from './tools/lsp.js';
+export * from './tools/semantic-search.js';
+export * from './tools/read-mcp-resource.js';
+export * from './tools/exit-plan-mode.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
+export * from './mcp/client-requests.js';
 
 // MCP OAuth
 export { MCPOAuthProvider } from './mcp/oauth-provider.js';
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { LspConnection } from './lspConnection.js';
+import { LspServerConfig } from './types.js';
+
+const SHUTDOWN_TIMEOUT_MS = 1000;
+
+const LANGUAGE_IDS: Record<string, string> = {
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'typescriptreact',
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'javascriptreact',
+  '.py': 'python',
+  '.pyi': 'python',
+};
+
+const CLIENT_CAPABILITIES = {
+  textDocument: {
+    synchronization: { didSave: false, dynamicRegistration: false },
+    definition: { linkSupport: true },
+    references: {},
+    hover: { contentFormat: ['markdown', 'plaintext'] },
+    rename: { prepareSupport: false },
+  },
+  workspace: {
+    symbol: {},
+    configuration: true,
+    workspaceFolders: true,
+  },
+};
+
+interface OpenDocument {
+  version: number;
+  mtimeMs: number;
+}
+
+export function toFileUri(filePath: string): string {
+  return pathToFileURL(filePath).toString();
+}
+
+/**
+ * A language server process serving one workspace directory.
+ */
+export class LspClient {
+  private process: ChildProcess | undefined;
+  private connection: LspConnection | undefined;
+  private readonly openDocuments = new Map<string, OpenDocument>();
+
+  constructor(
+    readonly name: string,
+    private readonly serverConfig: LspServerConfig,
+    readonly rootDir: string,
+  ) {}
+
+  /**
+   * Spawns the server and completes the `initialize` handshake.
+   */
+  async start(): Promise<void> {
+    const child = spawn(
+      this.serverConfig.command,
+      this.serverConfig.args ?? [],
+      {
+        cwd: this.rootDir,
+        env: { ...process.env, ...this.serverConfig.env },
+        stdio: ['pipe', 'pipe', 'pipe'],
+        windowsHide: true,
+      },
+    );
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+    // Servers log to stderr; drain it so that they never block on it.
+    child.stderr?.resume();
+
+    const connection = new LspConnection(
+      child.stdout!,
+      child.stdin!,
+      this.serverConfig.timeout,
+    );
+    child.on('exit', (code) =>
+      connection.dispose(
+        new Error(`The ${this.name} language server exited with code ${code}`),
+      ),
+    );
+    this.process = child;
+    this.connection = connection;
+
+    const rootUri = toFileUri(this.rootDir);
+    await connection.request('initialize', {
+      processId: process.pid,
+      rootUri,
+      workspaceFolders: [{ uri: rootUri, name: path.basename(this.rootDir) }],
+      capabilities: CLIENT_CAPABILITIES,
+      initializationOptions: this.serverConfig.initializationOptions,
+    });
+    connection.notify('initialized', {});
+  }
+
+  request<T>(
+    method: string,
+    params: unknown,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (!this.connection) {
+      return Promise.reject(
+        new Error(`The ${this.name} language server is not running`),
+      );
+    }
+    return this.connection.request<T>(method, params, signal);
+  }
+
+  /**
+   * Sends the current content of a file to the server, so that requests about
+   * it see the latest edits.
+   * @returns The URI of the document.
+   */
+  async syncDocument(filePath: string): Promise<string> {
+    const uri = toFileUri(filePath);
+    const { mtimeMs } = await fsPromises.stat(filePath);
+    const openDocument = this.openDocuments.get(uri);
+    if (openDocument?.mtimeMs === mtimeMs) {
+      return uri;
+    }
+
+    const text = await fsPromises.readFile(filePath, 'utf8');
+    if (!openDocument) {
+      this.openDocuments.set(uri, { version: 1, mtimeMs });
+      this.connection?.notify('textDocument/didOpen', {
+        textDocument: {
+          uri,
+          languageId: this.getLanguageId(filePath),
+          version: 1,
+          text,
+        },
+      });
+    } else {
+      openDocument.version++;
+      openDocument.mtimeMs = mtimeMs;
+      this.connection?.notify('textDocument/didChange', {
+        textDocument: { uri, version: openDocument.version },
+        contentChanges: [{ text }],
+      });
+    }
+    return uri;
+  }
+
+  /**
+   * Asks the server to shut down, then stops its process.
+   */
+  async stop(): Promise<void> {
+    const connection = this.connection;
+    if (connection) {
+      await Promise.race([
+        connection.request('shutdown', null).catch(() => undefined),
+        new Promise((resolve) => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS)),
+      ]);
+      connection.notify('exit', null);
+      connection.dispose();
+    }
+    this.process?.kill();
+    this.process = undefined;
+    this.connection = undefined;
+    this.openDocuments.clear();
+  }
+
+  private getLanguageId(filePath: string): string {
+    const extension = path.extname(filePath).toLowerCase();
+    return (
+      this.serverConfig.languageIds?.[extension] ??
+      LANGUAGE_IDS[extension] ??
+      extension.slice(1)
+    );
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { LspConnection } from './lspConnection.js';
+
+const frame = (message: object): Buffer => {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  return Buffer.concat([
+    Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, 'ascii'),
+    body,
+  ]);
+};
+
+describe('LspConnection', () => {
+  let fromServer: PassThrough;
+  let toServer: PassThrough;
+  let sent: Array<Record<string, unknown>>;
+  let connection: LspConnection;
+
+  beforeEach(() => {
+    fromServer = new PassThrough();
+    toServer = new PassThrough();
+    sent = [];
+    let pending = '';
+    toServer.on('data', (chunk: Buffer) => {
+      pending += chunk.toString('utf8');
+      let match;
+      while ((match = pending.match(/^Content-Length: (\d+)\r\n\r\n/))) {
+        const start = match[0].length;
+        const end = start + parseInt(match[1], 10);
+        if (pending.length < end) {
+          break;
+        }
+        sent.push(JSON.parse(pending.slice(start, end)));
+        pending = pending.slice(end);
+      }
+    });
+    connection = new LspConnection(fromServer, toServer, 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves requests with the matching response', async () => {
+    const result = connection.request('textDocument/hover', { a: 1 });
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    expect(sent[0]).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'textDocument/hover',
+      params: { a: 1 },
+    });
+
+    // Split the response across chunks to exercise the framing.
+    const response = frame({ jsonrpc: '2.0', id: 1, result: { ok: true } });
+    fromServer.write(response.subarray(0, 10));
+    fromServer.write(response.subarray(10));
+
+    await expect(result).resolves.toEqual({ ok: true });
+  });
+
+  it('rejects requests that fail on the server', async () => {
+    const result = connection.request('workspace/symbol', {});
+    fromServer.write(
+      frame({
+        jsonrpc: '2.0',
+        id: 1,
+        error: { code: -32603, message: 'No project' },
+      }),
+    );
+
+    await expect(result).rejects.toThrow('workspace/symbol failed: No project');
+  });
+
+  it('answers requests from the server', async () => {
+    fromServer.write(
+      frame({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'workspace/configuration',
+        params: { items: [{}, {}] },
+      }),
+    );
+
+    await vi.waitFor(() =>
+      expect(sent).toEqual([{ jsonrpc: '2.0', id: 7, result: [null, null] }]),
+    );
+  });
+
+  it('cancels requests on abort and times out', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const cancelled = connection.request(
+      'textDocument/references',
+      {},
+      controller.signal,
+    );
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('was cancelled');
+    expect(sent[1]).toMatchObject({
+      method: '$/cancelRequest',
+      params: { id: 1 },
+    });
+
+    const timedOut = connection.request('textDocument/definition', {});
+    vi.advanceTimersByTime(1000);
+    await expect(timedOut).rejects.toThrow('timed out after 1000ms');
+  });
+
+  it('rejects pending and later requests once the server is gone', async () => {
+    const pending = connection.request('initialize', {});
+    fromServer.destroy();
+
+    await expect(pending).rejects.toThrow('connection closed');
+    await expect(connection.request('shutdown', null)).rejects.toThrow(
+      'connection closed',
+    );
+  });
+});
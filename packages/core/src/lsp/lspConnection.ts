@@ -0,0 +1,199 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Readable, Writable } from 'stream';
+
+export const DEFAULT_LSP_TIMEOUT_MS = 30_000;
+
+const HEADER_DELIMITER = '\r\n\r\n';
+const CONTENT_LENGTH_HEADER = /Content-Length: *(\d+)/i;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * A JSON-RPC connection to a language server, framed with `Content-Length`
+ * headers as described in the LSP base protocol.
+ */
+export class LspConnection {
+  private nextId = 1;
+  private buffer = Buffer.alloc(0);
+  private readonly pending = new Map<number, PendingRequest>();
+  private closedError: Error | undefined;
+
+  constructor(
+    private readonly input: Readable,
+    private readonly output: Writable,
+    private readonly timeout = DEFAULT_LSP_TIMEOUT_MS,
+  ) {
+    input.on('data', (chunk: Buffer) => this.onData(chunk));
+    input.on('close', () =>
+      this.dispose(new Error('Language server connection closed')),
+    );
+  }
+
+  /**
+   * Sends a request and resolves with its result.
+   * @param signal Cancels the request on the server and rejects the promise.
+   */
+  request<T>(
+    method: string,
+    params: unknown,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`${method} was cancelled`));
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.notify('$/cancelRequest', { id });
+        this.settle(id, new Error(`${method} was cancelled`));
+      };
+      const timer = setTimeout(
+        () =>
+          this.settle(
+            id,
+            new Error(`${method} timed out after ${this.timeout}ms`),
+          ),
+        this.timeout,
+      );
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        method,
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as T);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timer,
+      });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params: unknown): void {
+    if (!this.closedError) {
+      this.send({ jsonrpc: '2.0', method, params });
+    }
+  }
+
+  /**
+   * Rejects every pending request. Later requests fail with the same error.
+   */
+  dispose(error = new Error('Language server connection closed')): void {
+    this.closedError ??= error;
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, this.closedError);
+    }
+  }
+
+  private send(message: JsonRpcMessage): void {
+    const body = Buffer.from(JSON.stringify(message), 'utf8');
+    this.output.write(`Content-Length: ${body.length}${HEADER_DELIMITER}`);
+    this.output.write(body);
+  }
+
+  private settle(id: number, error: Error | undefined, result?: unknown) {
+    const request = this.pending.get(id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(id);
+    clearTimeout(request.timer);
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(result);
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = header.match(CONTENT_LENGTH_HEADER);
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      if (!match) {
+        // Not a valid message; skip its header and resynchronize.
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+      const bodyEnd = bodyStart + parseInt(match[1], 10);
+      if (this.buffer.length < bodyEnd) {
+        return;
+      }
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      try {
+        this.handleMessage(JSON.parse(body) as JsonRpcMessage);
+      } catch (_error) {
+        // Ignore messages that are not valid JSON.
+      }
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (message.method === undefined) {
+      // A response to one of our requests.
+      if (typeof message.id !== 'number') {
+        return;
+      }
+      const method = this.pending.get(message.id)?.method;
+      this.settle(
+        message.id,
+        message.error
+          ? new Error(`${method} failed: ${message.error.message}`)
+          : undefined,
+        message.result,
+      );
+      return;
+    }
+
+    if (message.id !== undefined) {
+      // A request from the server. We only answer the ones servers block on,
+      // with neutral results.
+      this.send({
+        jsonrpc: '2.0',
+        id: message.id,
+        result: this.getServerRequestResult(message),
+      });
+    }
+    // Notifications (diagnostics, logs, progress...) are ignored.
+  }
+
+  private getServerRequestResult(message: JsonRpcMessage): unknown {
+    if (message.method === 'workspace/configuration') {
+      const items = (message.params as { items?: unknown[] })?.items ?? [];
+      return items.map(() => null);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WorkspaceContext } from '../utils/workspaceContext.js';
+import { LspClient } from './lspClient.js';
+import { LspManager, LspServerUnavailableError } from './lspManager.js';
+import { LspServerConfig } from './types.js';
+
+const SERVERS: Record<string, LspServerConfig> = {
+  typescript: {
+    command: 'typescript-language-server',
+    extensions: ['.ts'],
+    rootMarkers: ['tsconfig.json'],
+  },
+  go: { command: 'gopls', extensions: ['.go'], rootMarkers: ['go.mod'] },
+};
+
+describe('LspManager', () => {
+  let tmpDir: string;
+  let start: ReturnType<typeof vi.fn>;
+  let stop: ReturnType<typeof vi.fn>;
+  let createClient: ReturnType<typeof vi.fn>;
+  let manager: LspManager;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-manager-test-')),
+    );
+    fs.writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{}');
+    start = vi.fn().mockResolvedValue(undefined);
+    stop = vi.fn().mockResolvedValue(undefined);
+    createClient = vi.fn(
+      (name: string, _config: LspServerConfig, rootDir: string) =>
+        ({ name, rootDir, start, stop }) as unknown as LspClient,
+    );
+    manager = new LspManager(
+      SERVERS,
+      new WorkspaceContext(tmpDir),
+      createClient,
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('starts one server per language and workspace directory', async () => {
+    const first = await manager.getClientForFile(path.join(tmpDir, 'a.ts'));
+    const second = await manager.getClientForFile(
+      path.join(tmpDir, 'src', 'b.ts'),
+    );
+
+    expect(first).toBe(second);
+    expect(first.rootDir).toBe(tmpDir);
+    expect(createClient).toHaveBeenCalledTimes(1);
+    expect(start).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects files that no server handles or outside the workspace', async () => {
+    await expect(
+      manager.getClientForFile(path.join(tmpDir, 'notes.md')),
+    ).rejects.toThrow('No language server is configured for .md files.');
+    await expect(
+      manager.getClientForFile(path.join(tmpDir, 'notes.md')),
+    ).rejects.toThrow(LspServerUnavailableError);
+    await expect(
+      manager.getClientForFile(path.join(os.tmpdir(), 'elsewhere.ts')),
+    ).rejects.toThrow('File is not in the workspace');
+  });
+
+  it('retries servers that failed to start', async () => {
+    start.mockRejectedValueOnce(new Error('spawn ENOENT'));
+    const filePath = path.join(tmpDir, 'a.ts');
+
+    await expect(manager.getClientForFile(filePath)).rejects.toThrow(
+      'Failed to start the typescript language server (typescript-language-server): spawn ENOENT',
+    );
+    await expect(manager.getClientForFile(filePath)).resolves.toBeDefined();
+    expect(createClient).toHaveBeenCalledTimes(2);
+  });
+
+  it('picks servers for the workspace from project markers', async () => {
+    const clients = await manager.getClientsForWorkspace();
+
+    expect(clients.map((client) => client.name)).toEqual(['typescript']);
+  });
+
+  it('stops every running server on shutdown', async () => {
+    await manager.getClientForFile(path.join(tmpDir, 'a.ts'));
+    await manager.getClientForFile(path.join(tmpDir, 'main.go'));
+
+    await manager.shutdown();
+
+    expect(stop).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getErrorMessage } from '../utils/errors.js';
+import { WorkspaceContext } from '../utils/workspaceContext.js';
+import { LspClient } from './lspClient.js';
+import { LspServerConfig } from './types.js';
+
+export type LspClientFactory = (
+  name: string,
+  serverConfig: LspServerConfig,
+  rootDir: string,
+) => LspClient;
+
+/**
+ * Thrown when no language server is configured for a request, or the server
+ * cannot be started.
+ */
+export class LspServerUnavailableError extends Error {}
+
+/**
+ * Starts language servers on demand, one per server and workspace directory,
+ * and keeps them running for the rest of the session.
+ */
+export class LspManager {
+  private readonly clients = new Map<string, Promise<LspClient>>();
+
+  constructor(
+    private readonly servers: Record<string, LspServerConfig>,
+    private readonly workspaceContext: WorkspaceContext,
+    private readonly createClient: LspClientFactory = (
+      name,
+      serverConfig,
+      rootDir,
+    ) => new LspClient(name, serverConfig, rootDir),
+  ) {}
+
+  /**
+   * Returns the name of the server that handles a file, if any.
+   */
+  getServerNameForFile(filePath: string): string | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    return Object.keys(this.servers).find((name) =>
+      this.servers[name].extensions.includes(extension),
+    );
+  }
+
+  /**
+   * Returns a running server for a file in the workspace, starting it if
+   * needed.
+   * @throws {LspServerUnavailableError} If no server handles the file or the
+   * server fails to start.
+   */
+  async getClientForFile(filePath: string): Promise<LspClient> {
+    const serverName = this.getServerNameForFile(filePath);
+    if (!serverName) {
+      throw new LspServerUnavailableError(
+        `No language server is configured for ${path.extname(filePath) || 'extensionless'} files.`,
+      );
+    }
+    const rootDir = this.getWorkspaceDirectory(filePath);
+    if (!rootDir) {
+      throw new Error(`File is not in the workspace: ${filePath}`);
+    }
+    return this.getClient(serverName, rootDir);
+  }
+
+  /**
+   * Returns a running server for every workspace directory that contains a
+   * project of the server's language, e.g. a `tsconfig.json`.
+   */
+  async getClientsForWorkspace(): Promise<LspClient[]> {
+    const requests: Array<Promise<LspClient>> = [];
+    for (const rootDir of this.workspaceContext.getDirectories()) {
+      for (const [serverName, serverConfig] of Object.entries(this.servers)) {
+        const hasProject = (serverConfig.rootMarkers ?? []).some((marker) =>
+          fs.existsSync(path.join(rootDir, marker)),
+        );
+        if (hasProject || this.clients.has(this.getKey(serverName, rootDir))) {
+          requests.push(this.getClient(serverName, rootDir));
+        }
+      }
+    }
+    const results = await Promise.allSettled(requests);
+    const clients = results
+      .filter(
+        (result): result is PromiseFulfilledResult<LspClient> =>
+          result.status === 'fulfilled',
+      )
+      .map((result) => result.value);
+    if (clients.length === 0) {
+      const failure = results.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === 'rejected',
+      );
+      throw failure
+        ? failure.reason
+        : new LspServerUnavailableError(
+            'No language server applies to the workspace. Pass a file to pick one.',
+          );
+    }
+    return clients;
+  }
+
+  /**
+   * Stops every running server.
+   */
+  async shutdown(): Promise<void> {
+    const clients = await Promise.allSettled(this.clients.values());
+    this.clients.clear();
+    await Promise.all(
+      clients.map((result) =>
+        result.status === 'fulfilled' ? result.value.stop() : undefined,
+      ),
+    );
+  }
+
+  private getKey(serverName: string, rootDir: string): string {
+    return `${serverName}:${rootDir}`;
+  }
+
+  private getWorkspaceDirectory(filePath: string): string | undefined {
+    const resolvedPath = path.resolve(filePath);
+    return this.workspaceContext
+      .getDirectories()
+      .filter((dir) => {
+        const relative = path.relative(dir, resolvedPath);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+      })
+      .sort((a, b) => b.length - a.length)[0];
+  }
+
+  private getClient(serverName: string, rootDir: string): Promise<LspClient> {
+    const key = this.getKey(serverName, rootDir);
+    let client = this.clients.get(key);
+    if (!client) {
+      const serverConfig = this.servers[serverName];
+      client = this.startClient(serverName, serverConfig, rootDir);
+      // Forget servers that failed to start, so that a later call can retry
+      // once the server is installed.
+      client.catch(() => this.clients.delete(key));
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  private async startClient(
+    serverName: string,
+    serverConfig: LspServerConfig,
+    rootDir: string,
+  ): Promise<LspClient> {
+    const client = this.createClient(serverName, serverConfig, rootDir);
+    try {
+      await client.start();
+    } catch (error) {
+      await client.stop().catch(() => undefined);
+      throw new LspServerUnavailableError(
+        `Failed to start the ${serverName} language server (${serverConfig.command}): ${getErrorMessage(error)}. Install it or configure "lspServers" in settings.`,
+      );
+    }
+    return client;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * How to start a language server and which files it handles.
+ */
+export interface LspServerConfig {
+  /** Executable of the server, e.g. `typescript-language-server`. */
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** File extensions handled by the server, including the dot. */
+  extensions: string[];
+  /**
+   * Files or directories that mark a project of the server's language, e.g.
+   * `tsconfig.json`. Used to pick servers when no file is given.
+   */
+  rootMarkers?: string[];
+  /** Overrides the language ID sent to the server for each extension. */
+  languageIds?: Record<string, string>;
+  initializationOptions?: unknown;
+  /** Request timeout in milliseconds. */
+  timeout?: number;
+}
+
+export const DEFAULT_LSP_SERVERS: Record<string, LspServerConfig> = {
+  typescript: {
+    command: 'typescript-language-server',
+    args: ['--stdio'],
+    extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+    rootMarkers: ['tsconfig.json', 'jsconfig.json', 'package.json'],
+  },
+  python: {
+    command: 'pyright-langserver',
+    args: ['--stdio'],
+    extensions: ['.py', '.pyi'],
+    rootMarkers: [
+      'pyproject.toml',
+      'setup.py',
+      'setup.cfg',
+      'requirements.txt',
+      'pyrightconfig.json',
+    ],
+  },
+  go: {
+    command: 'gopls',
+    extensions: ['.go'],
+    rootMarkers: ['go.mod', 'go.work'],
+  },
+};
+
+// --- Protocol types (the subset of the LSP specification that we use) ---
+
+/** A zero-based position, as in the LSP specification. */
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+
+export interface LspLocationLink {
+  targetUri: string;
+  targetRange: LspRange;
+  targetSelectionRange: LspRange;
+}
+
+export interface LspSymbolInformation {
+  name: string;
+  kind: number;
+  location: LspLocation | { uri: string };
+  containerName?: string;
+}
+
+export interface LspMarkupContent {
+  kind: string;
+  value: string;
+}
+
+export type LspMarkedString = string | { language: string; value: string };
+
+export interface LspHover {
+  contents: LspMarkupContent | LspMarkedString | LspMarkedString[];
+  range?: LspRange;
+}
+
+export interface LspTextEdit {
+  range: LspRange;
+  newText: string;
+}
+
+export interface LspWorkspaceEdit {
+  changes?: Record<string, LspTextEdit[]>;
+  documentChanges?: Array<
+    { textDocument: { uri: string }; edits: LspTextEdit[] } | { kind: string }
+  >;
+}
+
+/** Names of the `SymbolKind` values of the LSP specification. */
+export const SYMBOL_KIND_NAMES: Record<number, string> = {
+  1: 'File',
+  2: 'Module',
+  3: 'Namespace',
+  4: 'Package',
+  5: 'Class',
+  6: 'Method',
+  7: 'Property',
+  8: 'Field',
+  9: 'Constructor',
+  10: 'Enum',
+  11: 'Interface',
+  12: 'Function',
+  13: 'Variable',
+  14: 'Constant',
+  15: 'String',
+  16: 'Number',
+  17: 'Boolean',
+  18: 'Array',
+  19: 'Object',
+  20: 'Key',
+  21: 'Null',
+  22: 'EnumMember',
+  23: 'Struct',
+  24: 'Event',
+  25: 'Operator',
+  26: 'TypeParameter',
+};
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FinishReason } from '@google/genai';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  createSamplingMessage,
+  elicitUserInput,
+  MCPClientRequestHandler,
+} from './client-requests.js';
+import { Config } from '../config/config.js';
+
+describe('MCP client requests', () => {
+  const generateContent = vi.fn();
+  let handler: MCPClientRequestHandler | undefined;
+  let config: Config;
+
+  const samplingParams = {
+    messages: [
+      {
+        role: 'user' as const,
+        content: { type: 'text' as const, text: 'Summarize the log' },
+      },
+      {
+        role: 'assistant' as const,
+        content: { type: 'text' as const, text: 'Which log?' },
+      },
+    ],
+    systemPrompt: 'You are a log analyzer.',
+    maxTokens: 100,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handler = {
+      confirmSampling: vi.fn().mockResolvedValue(true),
+      elicit: vi.fn(),
+    };
+    config = {
+      getMcpClientRequestHandler: () => handler,
+      getModel: () => 'test-model',
+      getSessionId: () => 'session',
+      getGeminiClient: () => ({
+        getContentGenerator: () => ({ generateContent }),
+      }),
+    } as unknown as Config;
+  });
+
+  describe('createSamplingMessage', () => {
+    it('should generate content once the user approves', async () => {
+      generateContent.mockResolvedValue({
+        candidates: [
+          {
+            content: { role: 'model', parts: [{ text: 'All good.' }] },
+            finishReason: FinishReason.MAX_TOKENS,
+          },
+        ],
+      });
+      const signal = new AbortController().signal;
+
+      const result = await createSamplingMessage(
+        'logs',
+        samplingParams,
+        config,
+        signal,
+      );
+
+      expect(handler!.confirmSampling).toHaveBeenCalledWith({
+        serverName: 'logs',
+        params: samplingParams,
+      });
+      expect(generateContent).toHaveBeenCalledWith(
+        {
+          model: 'test-model',
+          contents: [
+            { role: 'user', parts: [{ text: 'Summarize the log' }] },
+            { role: 'model', parts: [{ text: 'Which log?' }] },
+          ],
+          config: {
+            abortSignal: signal,
+            systemInstruction: 'You are a log analyzer.',
+            maxOutputTokens: 100,
+            temperature: undefined,
+            stopSequences: undefined,
+          },
+        },
+        'session#mcp-sampling#logs',
+      );
+      expect(result).toEqual({
+        model: 'test-model',
+        role: 'assistant',
+        stopReason: 'maxTokens',
+        content: { type: 'text', text: 'All good.' },
+      });
+    });
+
+    it('should reject the request if the user declines', async () => {
+      vi.mocked(handler!.confirmSampling).mockResolvedValue(false);
+
+      await expect(
+        createSamplingMessage(
+          'logs',
+          samplingParams,
+          config,
+          new AbortController().signal,
+        ),
+      ).rejects.toThrow('User rejected sampling request.');
+      expect(generateContent).not.toHaveBeenCalled();
+    });
+
+    it('should reject the request without a handler', async () => {
+      handler = undefined;
+
+      await expect(
+        createSamplingMessage(
+          'logs',
+          samplingParams,
+          config,
+          new AbortController().signal,
+        ),
+      ).rejects.toBeInstanceOf(McpError);
+      expect(generateContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('elicitUserInput', () => {
+    const elicitParams = {
+      message: 'Which environment?',
+      requestedSchema: {
+        type: 'object' as const,
+        properties: {
+          env: { type: 'string' as const, enum: ['dev', 'prod'] },
+        },
+      },
+    };
+
+    it('should return the answer of the user', async () => {
+      vi.mocked(handler!.elicit).mockResolvedValue({
+        action: 'accept',
+        content: { env: 'dev' },
+      });
+
+      const result = await elicitUserInput('deploy', elicitParams, config);
+
+      expect(handler!.elicit).toHaveBeenCalledWith({
+        serverName: 'deploy',
+        message: 'Which environment?',
+        requestedSchema: elicitParams.requestedSchema,
+      });
+      expect(result).toEqual({ action: 'accept', content: { env: 'dev' } });
+    });
+
+    it('should decline without a handler', async () => {
+      handler = undefined;
+
+      const result = await elicitUserInput('deploy', elicitParams, config);
+
+      expect(result).toEqual({ action: 'decline' });
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+  ErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Content, FinishReason, Part } from '@google/genai';
+import type { Config } from '../config/config.js';
+import { getResponseText } from '../utils/generateContentResponseUtilities.js';
+
+/**
+ * A request from an MCP server to sample the model.
+ */
+export interface MCPSamplingRequest {
+  serverName: string;
+  params: CreateMessageRequest['params'];
+}
+
+/**
+ * A request from an MCP server for structured input from the user.
+ */
+export interface MCPElicitationRequest {
+  serverName: string;
+  message: string;
+  requestedSchema: ElicitRequest['params']['requestedSchema'];
+}
+
+/**
+ * Involves the user in requests that MCP servers send to the client.
+ * Registered by interactive front ends with `Config.setMcpClientRequestHandler`.
+ */
+export interface MCPClientRequestHandler {
+  /**
+   * Asks the user whether the server may sample the model.
+   * @returns Whether the user approved the request.
+   */
+  confirmSampling(request: MCPSamplingRequest): Promise<boolean>;
+
+  /**
+   * Asks the user to fill in the form described by the requested schema.
+   */
+  elicit(request: MCPElicitationRequest): Promise<ElicitResult>;
+}
+
+function toSamplingContents(
+  messages: CreateMessageRequest['params']['messages'],
+): Content[] {
+  return messages.map((message) => {
+    let part: Part;
+    if (message.content.type === 'text') {
+      part = { text: message.content.text };
+    } else {
+      part = {
+        inlineData: {
+          mimeType: message.content.mimeType,
+          data: message.content.data,
+        },
+      };
+    }
+    return {
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [part],
+    };
+  });
+}
+
+function toStopReason(finishReason: FinishReason | undefined): string {
+  switch (finishReason) {
+    case FinishReason.MAX_TOKENS:
+      return 'maxTokens';
+    case FinishReason.STOP:
+    case undefined:
+      return 'endTurn';
+    default:
+      return finishReason;
+  }
+}
+
+/**
+ * Handles a `sampling/createMessage` request of an MCP server. The request is
+ * sent to the active content generator once the user approves it.
+ * @throws An McpError if there is no user to ask or the user declined.
+ */
+export async function createSamplingMessage(
+  serverName: string,
+  params: CreateMessageRequest['params'],
+  config: Config,
+  signal: AbortSignal,
+): Promise<CreateMessageResult> {
+  const handler = config.getMcpClientRequestHandler();
+  if (!handler) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      'Sampling requires an interactive session.',
+    );
+  }
+  if (!(await handler.confirmSampling({ serverName, params }))) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      'User rejected sampling request.',
+    );
+  }
+
+  const model = config.getModel();
+  const response = await config
+    .getGeminiClient()
+    .getContentGenerator()
+    .generateContent(
+      {
+        model,
+        contents: toSamplingContents(params.messages),
+        config: {
+          abortSignal: signal,
+          systemInstruction: params.systemPrompt,
+          maxOutputTokens: params.maxTokens,
+          temperature: params.temperature,
+          stopSequences: params.stopSequences,
+        },
+      },
+      `${config.getSessionId()}#mcp-sampling#${serverName}`,
+    );
+
+  return {
+    model,
+    role: 'assistant',
+    stopReason: toStopReason(response.candidates?.[0]?.finishReason),
+    content: {
+      type: 'text',
+      text: getResponseText(response) ?? '',
+    },
+  };
+}
+
+/**
+ * Handles an `elicitation/create` request of an MCP server. Without a user to
+ * ask, the request is declined.
+ */
+export async function elicitUserInput(
+  serverName: string,
+  params: ElicitRequest['params'],
+  config: Config,
+): Promise<ElicitResult> {
+  const handler = config.getMcpClientRequestHandler();
+  if (!handler) {
+    return { action: 'decline' };
+  }
+  return handler.elicit({
+    serverName,
+    message: params.message,
+    requestedSchema: params.requestedSchema,
+  });
+}
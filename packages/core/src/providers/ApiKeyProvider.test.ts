@@ -0,0 +1,78 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ApiKeyProvider } from './ApiKeyProvider.js';
+import { AuthProvider, IProviderService, ProviderConfig } from './types.js';
+
+describe('ApiKeyProvider', () => {
+  const providerService = {
+    getCredentials: vi.fn().mockResolvedValue({ apiKey: 'test-key' }),
+  } as unknown as IProviderService;
+
+  const createProvider = (config: Partial<ProviderConfig>) =>
+    new ApiKeyProvider(
+      {
+        type: AuthProvider.API_KEY,
+        name: 'openai',
+        displayName: 'OpenAI',
+        enabled: true,
+        ...config,
+      },
+      providerService,
+    );
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(
+          JSON.stringify({ data: [{ id: 'gpt-4o' }, { id: 'gpt-4o-mini' }] }),
+        ),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getAvailableModels', () => {
+    test('should list OpenAI models from the default endpoint', async () => {
+      const models = await createProvider({}).getAvailableModels();
+
+      expect(models).toEqual(['gpt-4o', 'gpt-4o-mini']);
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.openai.com/v1/models',
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer test-key' },
+        }),
+      );
+    });
+
+    test('should list models from a configured base URL', async () => {
+      await createProvider({
+        baseUrl: 'https://proxy.example.com/v1/',
+      }).getAvailableModels();
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://proxy.example.com/v1/models',
+      );
+    });
+
+    test('should not guess an endpoint for providers without a default', async () => {
+      const models = await createProvider({
+        name: 'runpod',
+        displayName: 'RunPod',
+      }).getAvailableModels();
+
+      expect(models).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -202,4 +202,89 @@ export class ApiKeyProvider extends BaseProvider {
         return `${this.name.toUpperCase()}_MODEL`;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get available models from the provider's model listing endpoint
+   */
+  async getAvailableModels(): Promise<string[]> {
+    const credentials = await this.getCredentials();
+    const apiKey = credentials?.apiKey;
+    const modelsUrl = this.getModelsUrl(apiKey);
+    if (!apiKey || !modelsUrl) {
+      return [];
+    }
+
+    try {
+      const response = await fetch(modelsUrl, {
+        method: 'GET',
+        headers: this.getModelsHeaders(apiKey),
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (!response.ok) {
+        return [];
+      }
+
+      const data = await response.json();
+      return this.parseModelsResponse(data);
+    } catch (error) {
+      console.warn(`Failed to fetch models for ${this.name}:`, error);
+      return [];
+    }
+  }
+
+  private getModelsUrl(apiKey?: string): string | null {
+    switch (this.name) {
+      case 'anthropic': {
+        const baseUrl = (this.config.baseUrl || 'https://api.anthropic.com').replace(/\/$/, '');
+        return `${baseUrl}/v1/models`;
+      }
+      case 'gemini': {
+        const baseUrl = (this.config.baseUrl || 'https://generativelanguage.googleapis.com/v1beta').replace(/\/$/, '');
+        return `${baseUrl}/models?key=${encodeURIComponent(apiKey ?? '')}`;
+      }
+      case 'openai': {
+        const baseUrl = (this.config.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+        return `${baseUrl}/models`;
+      }
+      case 'grok': {
+        const baseUrl = (this.config.baseUrl || 'https://api.x.ai/v1').replace(/\/$/, '');
+        return `${baseUrl}/models`;
+      }
+      default:
+        // Other OpenAI-compatible APIs (e.g. RunPod) list models at /models
+        return this.config.baseUrl ? `${this.config.baseUrl.replace(/\/$/, '')}/models` : null;
+    }
+  }
+
+  private getModelsHeaders(apiKey: string): Record<string, string> {
+    switch (this.name) {
+      case 'anthropic':
+        return {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        };
+      case 'gemini':
+        return {};
+      default:
+        return { Authorization: `Bearer ${apiKey}` };
+    }
+  }
+
+  private parseModelsResponse(data: unknown): string[] {
+    const response = data as {
+      data?: Array<{ id?: string }>;
+      models?: Array<{ name?: string }>;
+    };
+
+    if (this.name === 'gemini') {
+      return (response.models ?? [])
+        .map((model) => model.name?.replace(/^models\//, ''))
+        .filter((name): name is string => !!name);
+    }
+
+    return (response.data ?? [])
+      .map((model) => model.id)
+      .filter((id): id is string => !!id);
+  }
+}
@@ -141,6 +141,14 @@ export abstract class BaseProvider implements IProvider {
     }
   }
 
+  /**
+   * Get the models offered by the provider
+   * Base implementation only knows the configured model
+   */
+  async getAvailableModels(): Promise<string[]> {
+    return this.config.model ? [this.config.model] : [];
+  }
+
   /**
    * Cleanup provider resources
    * Can be overridden by providers that need cleanup
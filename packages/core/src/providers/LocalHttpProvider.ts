@@ -102,7 +102,7 @@ export class LocalHttpProvider extends BaseProvider {
       if (healthUrl) {
         const response = await fetch(healthUrl, {
           method: 'GET',
-          timeout: 5000,
+          signal: AbortSignal.timeout(5000),
         });
         return response.ok;
       }
@@ -144,7 +144,7 @@ export class LocalHttpProvider extends BaseProvider {
 
       const response = await fetch(modelsUrl, {
         method: 'GET',
-        timeout: 10000,
+        signal: AbortSignal.timeout(10000),
       });
 
       if (!response.ok) {
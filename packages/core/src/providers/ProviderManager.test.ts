@@ -7,6 +7,7 @@
 import { describe, test, expect, beforeEach, vi } from 'vitest';
 import { ProviderManager } from './ProviderManager.js';
 import { AuthProvider, ProviderConfig } from './types.js';
+import { AuthType } from '../core/contentGenerator.js';
 
 // Mock credential manager
 vi.mock('../utils/credentialManager.js', () => ({
@@ -159,6 +160,41 @@ describe('ProviderManager', () => {
     });
   });
 
+  describe('Auth Type Mapping', () => {
+    test('should map providers to auth types and back', () => {
+      expect(providerManager.getAuthTypeForProvider('ollama')).toBe(AuthType.USE_OLLAMA);
+      expect(providerManager.getAuthTypeForProvider('unknown')).toBeUndefined();
+      expect(providerManager.getProviderNameForAuthType(AuthType.USE_ANTHROPIC)).toBe('anthropic');
+      expect(providerManager.getProviderNameForAuthType(AuthType.USE_VERTEX_AI)).toBe('google-oauth');
+    });
+  });
+
+  describe('Provider Models', () => {
+    test('should list models advertised by a local provider', async () => {
+      const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ models: [{ name: 'llama3' }, { name: 'qwen2.5-coder' }] })),
+      );
+      await providerManager.registerProvider({
+        type: AuthProvider.LOCAL_HTTP,
+        name: 'ollama',
+        displayName: 'Ollama',
+        enabled: true,
+        baseUrl: 'http://localhost:11434',
+        model: 'llama3',
+      });
+
+      const models = await providerManager.getProviderModels('ollama');
+
+      expect(models).toEqual(['llama3', 'qwen2.5-coder']);
+      expect(fetchSpy).toHaveBeenCalledWith('http://localhost:11434/api/tags', expect.anything());
+      fetchSpy.mockRestore();
+    });
+
+    test('should return no models for an unknown provider', async () => {
+      expect(await providerManager.getProviderModels('nonexistent')).toEqual([]);
+    });
+  });
+
   describe('Provider Statistics', () => {
     test('should get provider stats', async () => {
       await providerManager.initialize();
@@ -13,8 +13,10 @@ import {
   ProviderCredentials,
   LegacyAuthType,
   LEGACY_AUTH_TYPE_MAPPING,
+  PROVIDER_AUTH_TYPES,
   PROVIDER_TEMPLATES,
 } from './types.js';
+import { AuthType } from '../core/contentGenerator.js';
 import { ProviderFactory } from './ProviderFactory.js';
 import { ProviderService } from './ProviderService.js';
 
@@ -187,6 +189,43 @@ export class ProviderManager {
     return await provider.testConnection();
   }
 
+  /**
+   * Get the models offered by a provider
+   */
+  async getProviderModels(name: string): Promise<string[]> {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      return [];
+    }
+
+    return await provider.getAvailableModels();
+  }
+
+  /**
+   * Get the AuthType used to create the content generator for a provider
+   */
+  getAuthTypeForProvider(name: string): AuthType | undefined {
+    return PROVIDER_AUTH_TYPES[name];
+  }
+
+  /**
+   * Get the provider name that serves an AuthType
+   */
+  getProviderNameForAuthType(authType: AuthType): string | null {
+    for (const [name, providerAuthType] of Object.entries(PROVIDER_AUTH_TYPES)) {
+      if (providerAuthType === authType) {
+        return name;
+      }
+    }
+
+    // Vertex AI and Cloud Shell authenticate through the Google OAuth provider
+    if (authType === AuthType.USE_VERTEX_AI || authType === AuthType.CLOUD_SHELL) {
+      return 'google-oauth';
+    }
+
+    return null;
+  }
+
   /**
    * Get provider credentials
    */
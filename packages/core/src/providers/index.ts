@@ -4,6 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ProviderManager } from './ProviderManager.js';
+import { LegacyAuthAdapter } from './LegacyAuthAdapter.js';
+
 // Types and interfaces
 export * from './types.js';
 
@@ -24,6 +27,8 @@ export { LegacyAuthAdapter } from './LegacyAuthAdapter.js';
 
 // Global provider manager instance
 let globalProviderManager: ProviderManager | null = null;
+let globalProviderManagerInitialization: Promise<ProviderManager> | null =
+  null;
 
 /**
  * Get the global provider manager instance
@@ -37,11 +42,20 @@ export function getProviderManager(): ProviderManager {
 
 /**
  * Initialize the global provider manager
+ * Subsequent calls reuse the first initialization
  */
-export async function initializeProviderManager(): Promise<ProviderManager> {
-  const manager = getProviderManager();
-  await manager.initialize();
-  return manager;
+export function initializeProviderManager(): Promise<ProviderManager> {
+  if (!globalProviderManagerInitialization) {
+    const manager = getProviderManager();
+    globalProviderManagerInitialization = manager
+      .initialize()
+      .then(() => manager)
+      .catch((error) => {
+        globalProviderManagerInitialization = null;
+        throw error;
+      });
+  }
+  return globalProviderManagerInitialization;
 }
 
 /**
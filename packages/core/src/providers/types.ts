@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { AuthType } from '../core/contentGenerator.js';
+
 /**
  * Unified provider authentication patterns
  * Consolidates 12 AuthTypes into 4 essential patterns
@@ -75,6 +77,7 @@ export interface IProvider {
   getCredentials(): Promise<ProviderCredentials | null>;
   setCredentials(credentials: ProviderCredentials): Promise<void>;
   testConnection(): Promise<boolean>;
+  getAvailableModels(): Promise<string[]>;
   cleanup(): Promise<void>;
 }
 
@@ -120,6 +123,21 @@ export const LEGACY_AUTH_TYPE_MAPPING: Record<LegacyAuthType, AuthProvider> = {
   [LegacyAuthType.QWEN_OAUTH]: AuthProvider.LEGACY_OAUTH,
 };
 
+/**
+ * Mapping from provider name to the AuthType used to create its content generator
+ */
+export const PROVIDER_AUTH_TYPES: Record<string, AuthType> = {
+  'openai': AuthType.USE_OPENAI,
+  'anthropic': AuthType.USE_ANTHROPIC,
+  'gemini': AuthType.USE_GEMINI,
+  'grok': AuthType.USE_GROK,
+  'runpod': AuthType.USE_RUNPOD,
+  'ollama': AuthType.USE_OLLAMA,
+  'lm-studio': AuthType.USE_LM_STUDIO,
+  'google-oauth': AuthType.LOGIN_WITH_GOOGLE,
+  'qwen-oauth': AuthType.QWEN_OAUTH,
+};
+
 /**
  * Provider configuration templates for quick setup
  */
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ResourceRegistry } from './resource-registry.js';
+
+describe('ResourceRegistry', () => {
+  const contents = [{ uri: 'db://tables/users', text: 'id, name' }];
+
+  const createRegistry = () => {
+    const registry = new ResourceRegistry();
+    const read = vi.fn().mockResolvedValue({ contents });
+    const readTemplate = vi.fn().mockResolvedValue({ contents });
+    registry.setResourcesForServer(
+      'db',
+      [{ uri: 'db://schema', name: 'schema', serverName: 'db', read }],
+      [
+        {
+          uriTemplate: 'db://tables/{table}',
+          name: 'table',
+          serverName: 'db',
+          read: readTemplate,
+        },
+      ],
+    );
+    return { registry, read, readTemplate };
+  };
+
+  it('reads listed resources', async () => {
+    const { registry, read } = createRegistry();
+
+    await expect(registry.readResource('db', 'db://schema')).resolves.toEqual({
+      contents,
+    });
+    expect(read).toHaveBeenCalledOnce();
+  });
+
+  it('reads resources that match a resource template', async () => {
+    const { registry, readTemplate } = createRegistry();
+
+    await registry.readResource('db', 'db://tables/users');
+
+    expect(readTemplate).toHaveBeenCalledWith('db://tables/users');
+    await expect(
+      registry.readResource('db', 'db://tables/users/rows'),
+    ).rejects.toThrow(
+      "MCP server 'db' has no resource with URI 'db://tables/users/rows'.",
+    );
+  });
+
+  it('tracks updates until the resource is read', async () => {
+    const { registry } = createRegistry();
+
+    registry.markResourceUpdated('db', 'db://schema');
+    expect(registry.getResource('db', 'db://schema')?.updated).toBe(true);
+
+    await registry.readResource('db', 'db://schema');
+    expect(registry.getResource('db', 'db://schema')?.updated).toBe(false);
+  });
+
+  it('replaces and removes the resources of a server', () => {
+    const { registry } = createRegistry();
+    registry.setResourcesForServer(
+      'docs',
+      [
+        {
+          uri: 'docs://readme',
+          name: 'readme',
+          serverName: 'docs',
+          read: vi.fn(),
+        },
+      ],
+      [],
+    );
+
+    expect(registry.getServerNames()).toEqual(['db', 'docs']);
+
+    registry.setResourcesForServer('db', [], []);
+    expect(registry.hasServer('db')).toBe(false);
+
+    registry.removeResourcesByServer('docs');
+    expect(registry.getAllResources()).toEqual([]);
+  });
+});
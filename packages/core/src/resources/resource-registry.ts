@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DiscoveredMCPResource,
+  DiscoveredMCPResourceTemplate,
+} from '../tools/mcp-client.js';
+import { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Converts an RFC 6570 URI template into a regular expression that matches
+ * the URIs it expands to.
+ */
+function uriTemplateToRegExp(uriTemplate: string): RegExp {
+  const pattern = uriTemplate
+    .split(/(\{[^}]*\})/)
+    .map((part) => {
+      if (!part.startsWith('{')) {
+        return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+      }
+      // Reserved expansions ({+var}, {#var}) may contain slashes
+      return /^\{[+#]/.test(part) ? '.*' : '[^/]*';
+    })
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+export class ResourceRegistry {
+  private resources: Map<string, DiscoveredMCPResource> = new Map();
+  private templates: DiscoveredMCPResourceTemplate[] = [];
+
+  /**
+   * Replaces the resources and resource templates of a server.
+   */
+  setResourcesForServer(
+    serverName: string,
+    resources: DiscoveredMCPResource[],
+    templates: DiscoveredMCPResourceTemplate[],
+  ): void {
+    this.removeResourcesByServer(serverName);
+    for (const resource of resources) {
+      this.resources.set(this.key(serverName, resource.uri), resource);
+    }
+    this.templates.push(...templates);
+  }
+
+  /**
+   * Returns all discovered resources, sorted by server and URI.
+   */
+  getAllResources(): DiscoveredMCPResource[] {
+    return Array.from(this.resources.values()).sort(
+      (a, b) =>
+        a.serverName.localeCompare(b.serverName) || a.uri.localeCompare(b.uri),
+    );
+  }
+
+  /**
+   * Returns the resources of a specific MCP server.
+   */
+  getResourcesByServer(serverName: string): DiscoveredMCPResource[] {
+    return this.getAllResources().filter(
+      (resource) => resource.serverName === serverName,
+    );
+  }
+
+  /**
+   * Returns the resource templates of a specific MCP server.
+   */
+  getResourceTemplatesByServer(
+    serverName: string,
+  ): DiscoveredMCPResourceTemplate[] {
+    return this.templates.filter(
+      (template) => template.serverName === serverName,
+    );
+  }
+
+  /**
+   * Get a discovered resource by its server and URI.
+   */
+  getResource(
+    serverName: string,
+    uri: string,
+  ): DiscoveredMCPResource | undefined {
+    return this.resources.get(this.key(serverName, uri));
+  }
+
+  /**
+   * Returns the names of the servers with resources or resource templates.
+   */
+  getServerNames(): string[] {
+    const serverNames = new Set<string>();
+    for (const resource of this.resources.values()) {
+      serverNames.add(resource.serverName);
+    }
+    for (const template of this.templates) {
+      serverNames.add(template.serverName);
+    }
+    return Array.from(serverNames).sort();
+  }
+
+  /**
+   * Whether the server has any resources or resource templates.
+   */
+  hasServer(serverName: string): boolean {
+    return this.getServerNames().includes(serverName);
+  }
+
+  /**
+   * Reads a resource of a server, either a listed one or one that matches a
+   * resource template of the server.
+   * @throws An error if the server has no such resource.
+   */
+  async readResource(
+    serverName: string,
+    uri: string,
+  ): Promise<ReadResourceResult> {
+    const resource = this.getResource(serverName, uri);
+    if (resource) {
+      resource.updated = false;
+      return resource.read();
+    }
+    const template = this.getResourceTemplatesByServer(serverName).find(
+      (candidate) => uriTemplateToRegExp(candidate.uriTemplate).test(uri),
+    );
+    if (template) {
+      return template.read(uri);
+    }
+    throw new Error(
+      `MCP server '${serverName}' has no resource with URI '${uri}'.`,
+    );
+  }
+
+  /**
+   * Records that the server reported a change to the content of a resource.
+   */
+  markResourceUpdated(serverName: string, uri: string): void {
+    const resource = this.getResource(serverName, uri);
+    if (resource) {
+      resource.updated = true;
+    }
+  }
+
+  /**
+   * Clears all the resources from the registry.
+   */
+  clear(): void {
+    this.resources.clear();
+    this.templates = [];
+  }
+
+  /**
+   * Removes all resources and resource templates from a specific server.
+   */
+  removeResourcesByServer(serverName: string): void {
+    for (const [key, resource] of this.resources.entries()) {
+      if (resource.serverName === serverName) {
+        this.resources.delete(key);
+      }
+    }
+    this.templates = this.templates.filter(
+      (template) => template.serverName !== serverName,
+    );
+  }
+
+  private key(serverName: string, uri: string): string {
+    return `${serverName}:${uri}`;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MAX_CHUNK_LINES, chunkCode } from './codeChunker.js';
+
+describe('chunkCode', () => {
+  it('should split TypeScript into declarations with their comments', () => {
+    const content = [
+      "import fs from 'fs';",
+      '',
+      '/** Reads a file. */',
+      'export async function readConfig(path: string) {',
+      '  return fs.promises.readFile(path);',
+      '}',
+      '',
+      'export const parse = (text: string) => JSON.parse(text);',
+      '',
+      '@Injectable()',
+      'export class ConfigService {',
+      '  load() {}',
+      '}',
+    ].join('\n');
+
+    expect(
+      chunkCode(content).map(({ startLine, endLine, name }) => ({
+        startLine,
+        endLine,
+        name,
+      })),
+    ).toEqual([
+      { startLine: 1, endLine: 1, name: undefined },
+      { startLine: 3, endLine: 6, name: 'readConfig' },
+      { startLine: 8, endLine: 8, name: 'parse' },
+      { startLine: 10, endLine: 13, name: 'ConfigService' },
+    ]);
+    expect(chunkCode(content)[1].text).toBe(
+      [
+        '/** Reads a file. */',
+        'export async function readConfig(path: string) {',
+        '  return fs.promises.readFile(path);',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  it('should recognize Python, Go and Rust declarations', () => {
+    const names = (content: string) =>
+      chunkCode(content).map((chunk) => chunk.name);
+
+    expect(
+      names('class Parser:\n    pass\n\nasync def main():\n    pass\n'),
+    ).toEqual(['Parser', 'main']);
+    expect(
+      names(
+        'package main\n\ntype Server struct {}\n\nfunc (s *Server) Start() {}\n',
+      ),
+    ).toEqual([undefined, 'Server', 'Start']);
+    expect(names('pub fn run() {}\n\nimpl Display for Point {}\n')).toEqual([
+      'run',
+      'Point',
+    ]);
+  });
+
+  it('should name a leading comment-only chunk after the first declaration', () => {
+    const chunks = chunkCode('// Copyright\n\nfunction main() {}\n');
+
+    expect(chunks).toEqual([
+      {
+        startLine: 1,
+        endLine: 3,
+        name: 'main',
+        text: '// Copyright\n\nfunction main() {}',
+      },
+    ]);
+  });
+
+  it('should split long declarations at their methods', () => {
+    const method = (name: string) => [
+      `  ${name}() {`,
+      ...Array.from({ length: 48 }, () => '    work();'),
+      '  }',
+    ];
+    const content = [
+      'class Big {',
+      ...method('first'),
+      ...method('second'),
+      ...method('third'),
+      '}',
+    ].join('\n');
+
+    const chunks = chunkCode(content);
+
+    expect(chunks.map(({ startLine, name }) => ({ startLine, name }))).toEqual([
+      { startLine: 1, name: 'Big' },
+      { startLine: 102, name: 'third' },
+    ]);
+    for (const chunk of chunks) {
+      expect(chunk.endLine - chunk.startLine + 1).toBeLessThanOrEqual(
+        MAX_CHUNK_LINES,
+      );
+    }
+  });
+
+  it('should split files without declarations into fixed windows', () => {
+    const content = Array.from(
+      { length: MAX_CHUNK_LINES * 2 + 10 },
+      (_, i) => `line ${i + 1}`,
+    ).join('\n');
+
+    expect(
+      chunkCode(content).map(({ startLine, endLine }) => [startLine, endLine]),
+    ).toEqual([
+      [1, MAX_CHUNK_LINES],
+      [MAX_CHUNK_LINES + 1, MAX_CHUNK_LINES * 2],
+      [MAX_CHUNK_LINES * 2 + 1, MAX_CHUNK_LINES * 2 + 10],
+    ]);
+  });
+});
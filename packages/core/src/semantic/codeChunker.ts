@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A span of lines of a file that is embedded as a whole. */
+export interface CodeChunk {
+  /** 1-based, inclusive. */
+  startLine: number;
+  /** 1-based, inclusive. */
+  endLine: number;
+  /** The function, class or other declaration the chunk starts with. */
+  name?: string;
+  text: string;
+}
+
+/** Chunks longer than this are split, preferably at nested declarations. */
+export const MAX_CHUNK_LINES = 120;
+
+/**
+ * Declarations that start a chunk when they are not indented. The first
+ * capture group is the declared name.
+ */
+const DECLARATION_PATTERNS: RegExp[] = [
+  // JavaScript and TypeScript
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\*?\s*([\w$]+)/,
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s+([\w$]+)/,
+  /^(?:export\s+)?(?:declare\s+)?(?:interface|type|enum|namespace)\s+([\w$]+)/,
+  /^(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>)/,
+  // Python
+  /^(?:async\s+)?def\s+(\w+)/,
+  /^class\s+(\w+)/,
+  // Go
+  /^func\s+(?:\([^)]*\)\s*)?(\w+)/,
+  /^type\s+(\w+)\s+(?:struct|interface)\b/,
+  // Rust
+  /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|mod)\s+(\w+)/,
+  /^impl(?:<[^>]*>)?\s+(?:[\w:]+\s+for\s+)?([\w:]+)/,
+  // Java, C#, Kotlin and Swift
+  /^(?:(?:public|private|protected|internal|static|final|abstract|sealed|partial|open|data)\s+)*(?:class|interface|enum|record|struct|object|protocol|extension)\s+(\w+)/,
+];
+
+/**
+ * Methods and nested functions, which are only used to split declarations
+ * that are too long to embed as one chunk.
+ */
+const NESTED_DECLARATION_PATTERNS: RegExp[] = [
+  /^\s+(?:(?:public|private|protected|static|async|override|readonly|get|set)\s+)*(?!(?:if|for|while|switch|catch|return)\b)([\w$]+)\s*(?:<[^>]*>)?\([^)]*\)?\s*(?::[^{]*)?\{\s*$/,
+  /^\s+(?:async\s+)?def\s+(\w+)/,
+  /^\s+(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?fn\s+(\w+)/,
+];
+
+/** Comments and decorators directly above a declaration belong to it. */
+const LEADING_LINE_PATTERN = /^\s*(?:\/\/|\/\*|\*|#|@|\/\/\/)/;
+
+function matchDeclaration(
+  line: string,
+  patterns: RegExp[],
+): string | undefined {
+  for (const pattern of patterns) {
+    const match = pattern.exec(line);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits the content of a source file into chunks of top-level functions,
+ * classes and other declarations. Comments above a declaration stay with it,
+ * and whatever comes before the first declaration, such as imports, forms a
+ * chunk of its own. Files without recognizable declarations are split into
+ * chunks of {@link MAX_CHUNK_LINES} lines.
+ */
+export function chunkCode(content: string): CodeChunk[] {
+  const lines = content.split(/\r?\n/);
+  const starts: Array<{ line: number; name?: string }> = [{ line: 0 }];
+
+  for (let i = 0; i < lines.length; i++) {
+    const name = matchDeclaration(lines[i], DECLARATION_PATTERNS);
+    if (name === undefined) {
+      continue;
+    }
+    let start = i;
+    while (start > 0 && LEADING_LINE_PATTERN.test(lines[start - 1])) {
+      start--;
+    }
+    const previous = starts[starts.length - 1];
+    if (
+      previous.name === undefined &&
+      lines
+        .slice(previous.line, start)
+        .every((line) => line.trim() === '' || LEADING_LINE_PATTERN.test(line))
+    ) {
+      // Only comments come before the first declaration, e.g. a license.
+      previous.name = name;
+      continue;
+    }
+    starts.push({ line: start, name });
+  }
+
+  const chunks: CodeChunk[] = [];
+  for (let i = 0; i < starts.length; i++) {
+    const end = i + 1 < starts.length ? starts[i + 1].line : lines.length;
+    chunks.push(...splitLongSpan(lines, starts[i].line, end, starts[i].name));
+  }
+  return chunks.filter((chunk) => chunk.text.trim() !== '');
+}
+
+/**
+ * Turns the lines [start, end) into one chunk, or into several if there are
+ * more than {@link MAX_CHUNK_LINES}. Long spans are cut before the last
+ * nested declaration that fits, or at the limit if there is none.
+ */
+function splitLongSpan(
+  lines: string[],
+  start: number,
+  end: number,
+  name: string | undefined,
+): CodeChunk[] {
+  const chunks: CodeChunk[] = [];
+  let chunkStart = start;
+  let chunkName = name;
+  while (end - chunkStart > MAX_CHUNK_LINES) {
+    let cut = chunkStart + MAX_CHUNK_LINES;
+    let cutName: string | undefined;
+    for (let i = cut - 1; i > chunkStart; i--) {
+      const nested = matchDeclaration(lines[i], NESTED_DECLARATION_PATTERNS);
+      if (nested !== undefined) {
+        cut = i;
+        cutName = nested;
+        break;
+      }
+    }
+    chunks.push(toChunk(lines, chunkStart, cut, chunkName));
+    chunkStart = cut;
+    chunkName = cutName ?? chunkName;
+  }
+  chunks.push(toChunk(lines, chunkStart, end, chunkName));
+  return chunks;
+}
+
+function toChunk(
+  lines: string[],
+  start: number,
+  end: number,
+  name: string | undefined,
+): CodeChunk {
+  while (end > start && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return {
+    startLine: start + 1,
+    endLine: end,
+    ...(name !== undefined ? { name } : {}),
+    text: lines.slice(start, end).join('\n'),
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SEMANTIC_INDEX_FILE_NAME,
+  SemanticIndex,
+  SemanticIndexUnavailableError,
+} from './semanticIndex.js';
+import { Config } from '../config/config.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+
+const VOCABULARY = ['retry', 'parse', 'render'];
+
+/** Embeds a text as the number of times it mentions each word. */
+const fakeEmbed = async (texts: string[]) =>
+  texts.map((text) =>
+    VOCABULARY.map((word) => text.toLowerCase().split(word).length - 1 + 0.01),
+  );
+
+describe('SemanticIndex', () => {
+  let rootDir: string;
+  let tempDir: string;
+  let embeddingModel: string;
+  let config: Config;
+  let embed: ReturnType<typeof vi.fn>;
+  let indexes: SemanticIndex[];
+
+  const createIndex = () => {
+    const index = new SemanticIndex(config, embed);
+    indexes.push(index);
+    return index;
+  };
+
+  const embeddedFiles = () =>
+    embed.mock.calls
+      .flatMap(([texts]) => texts as string[])
+      .map((text) => text.split('\n')[0]);
+
+  const writeFile = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(rootDir, name)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, name), content);
+  };
+
+  beforeEach(() => {
+    rootDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-index-root-')),
+    );
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-index-tmp-'));
+    embeddingModel = 'test-embedding';
+    embed = vi.fn(fakeEmbed);
+    indexes = [];
+    config = {
+      getProjectTempDir: () => tempDir,
+      getTargetDir: () => rootDir,
+      getWorkspaceContext: () => createMockWorkspaceContext(rootDir),
+      getFileService: () => new FileDiscoveryService(rootDir),
+      getFileFilteringRespectGitIgnore: () => true,
+      getEmbeddingModel: () => embeddingModel,
+    } as unknown as Config;
+
+    writeFile(
+      'src/retry.ts',
+      'export function retryWithBackoff() {\n  // retry until it works\n}\n',
+    );
+    writeFile('src/parser.ts', 'export function parseArgs() {}\n');
+    writeFile('src/data.json', '{"retry": true}');
+    writeFile('node_modules/lib/index.js', 'function retry() {}\n');
+  });
+
+  afterEach(() => {
+    for (const index of indexes) {
+      index.dispose();
+    }
+    vi.restoreAllMocks();
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should index source files and rank chunks by similarity', async () => {
+    const index = createIndex();
+
+    const results = await index.search('how do we retry', 5);
+
+    expect(embeddedFiles().sort()).toEqual([
+      'how do we retry',
+      'src/parser.ts',
+      'src/retry.ts',
+    ]);
+    expect(results.map((result) => result.name)).toEqual([
+      'retryWithBackoff',
+      'parseArgs',
+    ]);
+    expect(results[0]).toMatchObject({
+      filePath: path.join(rootDir, 'src/retry.ts'),
+      startLine: 1,
+      endLine: 3,
+    });
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(fs.existsSync(path.join(tempDir, SEMANTIC_INDEX_FILE_NAME))).toBe(
+      true,
+    );
+    expect(index.getStatus()).toMatchObject({
+      fileCount: 2,
+      chunkCount: 2,
+      indexing: false,
+      watching: true,
+    });
+  });
+
+  it('should only embed files that changed since the index was saved', async () => {
+    await createIndex().update();
+    embed.mockClear();
+
+    writeFile('src/render.ts', 'export function render() {}\n');
+    fs.rmSync(path.join(rootDir, 'src/parser.ts'));
+    const result = await createIndex().update();
+
+    expect(embeddedFiles()).toEqual(['src/render.ts']);
+    expect(result).toEqual({
+      indexedFiles: 1,
+      removedFiles: 1,
+      fileCount: 2,
+      chunkCount: 2,
+    });
+  });
+
+  it('should start over when rebuilt or when the embedding model changes', async () => {
+    await createIndex().update();
+    embed.mockClear();
+
+    await createIndex().rebuild();
+    expect(embeddedFiles()).toHaveLength(2);
+
+    embed.mockClear();
+    embeddingModel = 'another-embedding';
+    await createIndex().update();
+    expect(embeddedFiles()).toHaveLength(2);
+  });
+
+  it('should skip files ignored by .geminiignore', async () => {
+    writeFile('.geminiignore', 'src/parser.ts\n');
+
+    await createIndex().update();
+
+    expect(embeddedFiles()).toEqual(['src/retry.ts']);
+  });
+
+  it('should index changed files while watching', async () => {
+    const listeners = new Map<
+      string,
+      (eventType: string, fileName: string) => void
+    >();
+    vi.spyOn(fs, 'watch').mockImplementation(((
+      directory: string,
+      _options: unknown,
+      listener: (eventType: string, fileName: string) => void,
+    ) => {
+      listeners.set(directory, listener);
+      return { on: vi.fn(), close: vi.fn() };
+    }) as unknown as typeof fs.watch);
+    writeFile('.geminiignore', 'dist/\n');
+    writeFile('dist/retry.js', 'function retry() {}\n');
+    const index = createIndex();
+    await index.update();
+    embed.mockClear();
+
+    expect([...listeners.keys()]).toEqual([rootDir, path.join(rootDir, 'src')]);
+    writeFile('src/render.ts', 'export function render() {}\n');
+    listeners.get(path.join(rootDir, 'src'))!('rename', 'render.ts');
+    listeners.get(rootDir)!('change', '.geminiignore');
+    await index.flushChanges();
+
+    expect(embeddedFiles()).toEqual(['src/render.ts']);
+    const results = await index.search('render', 1);
+    expect(results[0].name).toBe('render');
+  });
+
+  it('should ask for /index when the index cannot be built for a search', async () => {
+    const index = createIndex();
+    embed.mockRejectedValueOnce(new Error('Embeddings are not supported'));
+
+    const search = index.search('retry', 1);
+
+    await expect(search).rejects.toThrow(SemanticIndexUnavailableError);
+    await expect(search).rejects.toThrow(
+      'The semantic index could not be built: Embeddings are not supported. Run /index update first.',
+    );
+  });
+
+  it('should keep the previous chunks of files that fail to embed', async () => {
+    const index = createIndex();
+    await index.update();
+    embed.mockRejectedValueOnce(new Error('Embeddings are not supported'));
+
+    writeFile('src/retry.ts', 'export function retryForever() {}\n');
+    await expect(index.update()).rejects.toThrow(
+      'Embeddings are not supported',
+    );
+
+    expect(index.getStatus()).toMatchObject({
+      fileCount: 2,
+      lastError: 'Embeddings are not supported',
+    });
+    const results = await index.search('retry', 1);
+    expect(results[0].name).toBe('retryWithBackoff');
+  });
+});
@@ -0,0 +1,541 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { Config } from '../config/config.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import { chunkCode } from './codeChunker.js';
+
+export const SEMANTIC_INDEX_FILE_NAME = 'semantic-index.json';
+
+/** Bump when the stored format or the chunking changes. */
+const INDEX_VERSION = 1;
+
+/** The most inputs embedded with one request. */
+const EMBEDDING_BATCH_SIZE = 100;
+
+/** Larger files are usually generated or data, not code worth searching. */
+const MAX_FILE_SIZE_BYTES = 512 * 1024;
+
+/** Text beyond this is not embedded, but still returned with results. */
+const MAX_EMBEDDED_CHARS = 8_000;
+
+/** File changes are indexed once no further change came in this long. */
+const WATCH_DEBOUNCE_MS = 1_000;
+
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+
+/** The extensions of the files that are indexed. */
+export const INDEXED_EXTENSIONS: ReadonlySet<string> = new Set([
+  '.c',
+  '.cc',
+  '.cpp',
+  '.cs',
+  '.css',
+  '.dart',
+  '.go',
+  '.h',
+  '.hpp',
+  '.java',
+  '.js',
+  '.jsx',
+  '.kt',
+  '.lua',
+  '.md',
+  '.mjs',
+  '.cjs',
+  '.php',
+  '.py',
+  '.rb',
+  '.rs',
+  '.scala',
+  '.sh',
+  '.sql',
+  '.svelte',
+  '.swift',
+  '.ts',
+  '.tsx',
+  '.vue',
+]);
+
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface SemanticSearchResult {
+  /** Absolute path of the file. */
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  name?: string;
+  text: string;
+  /** Cosine similarity to the query, between -1 and 1. */
+  score: number;
+}
+
+export interface SemanticIndexStatus {
+  indexPath: string;
+  fileCount: number;
+  chunkCount: number;
+  /** Whether the index is being built or updated right now. */
+  indexing: boolean;
+  /** Whether file changes are picked up as they happen. */
+  watching: boolean;
+  lastUpdated?: Date;
+  lastError?: string;
+}
+
+/** What an update of the index did. */
+export interface SemanticIndexUpdate {
+  indexedFiles: number;
+  removedFiles: number;
+  fileCount: number;
+  chunkCount: number;
+}
+
+interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  name?: string;
+  text: string;
+  embedding: number[];
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  chunks: IndexedChunk[];
+}
+
+interface IndexData {
+  version: number;
+  embeddingModel: string;
+  updatedAt?: string;
+  /** Keyed by absolute path. */
+  files: Record<string, IndexedFile>;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function isInIgnoredDirectory(filePath: string): boolean {
+  return filePath
+    .split(path.sep)
+    .some((segment) => IGNORED_DIRECTORIES.includes(segment));
+}
+
+/**
+ * Thrown by a search when the index has not been built and building it fails.
+ */
+export class SemanticIndexUnavailableError extends Error {}
+
+/**
+ * A local index of embeddings of the functions, classes and other chunks of
+ * the code in the workspace, stored in the project temp dir. Updates only
+ * embed the files that changed since the index was last saved, and once the
+ * index has been built, changes to files are indexed as they happen.
+ */
+export class SemanticIndex {
+  private data: IndexData | undefined;
+  private queue: Promise<unknown> = Promise.resolve();
+  private activeUpdates = 0;
+  private updatedThisSession = false;
+  private lastError: string | undefined;
+  /** Keyed by the watched directory. */
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private readonly changedPaths = new Set<string>();
+  private watchTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly config: Config,
+    private readonly embed: EmbedFunction = (texts) =>
+      config.getGeminiClient().generateEmbedding(texts),
+  ) {}
+
+  getIndexPath(): string {
+    return path.join(this.config.getProjectTempDir(), SEMANTIC_INDEX_FILE_NAME);
+  }
+
+  getStatus(): SemanticIndexStatus {
+    return {
+      indexPath: this.getIndexPath(),
+      ...this.count(this.data?.files ?? {}),
+      indexing: this.activeUpdates > 0,
+      watching: this.watchers.size > 0,
+      lastUpdated: this.data?.updatedAt
+        ? new Date(this.data.updatedAt)
+        : undefined,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Indexes the files that were added or changed since the last update and
+   * forgets deleted ones, then keeps watching the workspace for changes.
+   */
+  async update(signal?: AbortSignal): Promise<SemanticIndexUpdate> {
+    return this.enqueue(async () => {
+      const data = await this.load();
+      const files = await this.findFiles();
+      const wanted = new Set(files);
+
+      let removedFiles = 0;
+      for (const filePath of Object.keys(data.files)) {
+        if (!wanted.has(filePath)) {
+          delete data.files[filePath];
+          removedFiles++;
+        }
+      }
+      const indexedFiles = await this.indexFiles(data, files, signal);
+
+      await this.save(data);
+      this.updatedThisSession = true;
+      this.watchDirectories(files);
+      return { indexedFiles, removedFiles, ...this.count(data.files) };
+    });
+  }
+
+  /** Discards the stored index and indexes every file again. */
+  async rebuild(signal?: AbortSignal): Promise<SemanticIndexUpdate> {
+    await this.enqueue(async () => {
+      this.data = this.emptyIndex();
+    });
+    return this.update(signal);
+  }
+
+  /**
+   * Returns the chunks most similar to the query, best first. The index is
+   * brought up to date first if it has not been in this session.
+   * @throws {SemanticIndexUnavailableError} If that update fails.
+   */
+  async search(
+    query: string,
+    maxResults: number,
+    options: { directory?: string; signal?: AbortSignal } = {},
+  ): Promise<SemanticSearchResult[]> {
+    if (!this.updatedThisSession) {
+      try {
+        await this.update(options.signal);
+      } catch (error) {
+        throw new SemanticIndexUnavailableError(
+          `The semantic index could not be built: ${getErrorMessage(error)}. Run /index update first.`,
+        );
+      }
+    }
+    // Wait for changes that are being indexed.
+    await this.queue;
+
+    const [queryEmbedding] = await this.embed([query]);
+    const directory = options.directory
+      ? path.resolve(options.directory) + path.sep
+      : undefined;
+    const results: SemanticSearchResult[] = [];
+    for (const [filePath, file] of Object.entries(this.data?.files ?? {})) {
+      if (directory && !filePath.startsWith(directory)) {
+        continue;
+      }
+      for (const chunk of file.chunks) {
+        results.push({
+          filePath,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          ...(chunk.name !== undefined ? { name: chunk.name } : {}),
+          text: chunk.text,
+          score: cosineSimilarity(queryEmbedding, chunk.embedding),
+        });
+      }
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, maxResults);
+  }
+
+  /** Indexes the files that changed while watching. */
+  async flushChanges(): Promise<void> {
+    clearTimeout(this.watchTimer);
+    const filePaths = [...this.changedPaths];
+    this.changedPaths.clear();
+    if (filePaths.length === 0) {
+      return;
+    }
+    await this.enqueue(async () => {
+      const data = await this.load();
+      const existing = filePaths.filter(
+        (filePath) => fs.existsSync(filePath) && this.shouldIndex(filePath),
+      );
+      for (const filePath of filePaths) {
+        if (!existing.includes(filePath)) {
+          delete data.files[filePath];
+        }
+      }
+      await this.indexFiles(data, existing);
+      await this.save(data);
+    });
+  }
+
+  /** Stops watching the workspace for changes. */
+  dispose(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    clearTimeout(this.watchTimer);
+    this.changedPaths.clear();
+  }
+
+  /**
+   * Runs index operations one after another, so that updates, watched
+   * changes and searches never see a half-written index.
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const run = async () => {
+      this.activeUpdates++;
+      try {
+        const result = await operation();
+        this.lastError = undefined;
+        return result;
+      } catch (error) {
+        this.lastError = getErrorMessage(error);
+        throw error;
+      } finally {
+        this.activeUpdates--;
+      }
+    };
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private emptyIndex(): IndexData {
+    return {
+      version: INDEX_VERSION,
+      embeddingModel: this.config.getEmbeddingModel(),
+      files: {},
+    };
+  }
+
+  private count(files: IndexData['files']): {
+    fileCount: number;
+    chunkCount: number;
+  } {
+    const indexed = Object.values(files);
+    return {
+      fileCount: indexed.length,
+      chunkCount: indexed.reduce((sum, file) => sum + file.chunks.length, 0),
+    };
+  }
+
+  /**
+   * Reads the stored index. An index of another version or embedding model
+   * is discarded, since its embeddings cannot be compared with new ones.
+   */
+  private async load(): Promise<IndexData> {
+    if (this.data) {
+      return this.data;
+    }
+    try {
+      const stored = JSON.parse(
+        await fs.promises.readFile(this.getIndexPath(), 'utf8'),
+      ) as IndexData;
+      if (
+        stored.version === INDEX_VERSION &&
+        stored.embeddingModel === this.config.getEmbeddingModel()
+      ) {
+        this.data = stored;
+        return stored;
+      }
+    } catch (error) {
+      if (!isNodeError(error) || error.code !== 'ENOENT') {
+        console.debug(
+          `Ignoring unreadable semantic index: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+    this.data = this.emptyIndex();
+    return this.data;
+  }
+
+  private async save(data: IndexData): Promise<void> {
+    data.updatedAt = new Date().toISOString();
+    const indexPath = this.getIndexPath();
+    await fs.promises.mkdir(path.dirname(indexPath), { recursive: true });
+    await fs.promises.writeFile(indexPath, JSON.stringify(data));
+  }
+
+  /** Returns the absolute paths of the files in the workspace to index. */
+  private async findFiles(): Promise<string[]> {
+    const files: string[] = [];
+    for (const directory of this.config
+      .getWorkspaceContext()
+      .getDirectories()) {
+      const entries = await glob('**/*', {
+        cwd: directory,
+        nodir: true,
+        absolute: true,
+        ignore: IGNORED_DIRECTORIES.map((name) => `**/${name}/**`),
+        follow: false,
+      });
+      files.push(...entries.filter((entry) => this.shouldIndex(entry)));
+    }
+    return [...new Set(files)].sort();
+  }
+
+  private shouldIndex(filePath: string): boolean {
+    if (
+      !INDEXED_EXTENSIONS.has(path.extname(filePath).toLowerCase()) ||
+      isInIgnoredDirectory(filePath)
+    ) {
+      return false;
+    }
+    return !this.config
+      .getFileService()
+      .shouldIgnoreFile(path.relative(this.config.getTargetDir(), filePath), {
+        respectGitIgnore: this.config.getFileFilteringRespectGitIgnore(),
+      });
+  }
+
+  /**
+   * Chunks and embeds the files that changed since they were indexed.
+   * Returns how many were indexed.
+   */
+  private async indexFiles(
+    data: IndexData,
+    filePaths: string[],
+    signal?: AbortSignal,
+  ): Promise<number> {
+    const pending: Array<{ filePath: string; file: IndexedFile }> = [];
+    for (const filePath of filePaths) {
+      let stats: fs.Stats;
+      try {
+        stats = await fs.promises.stat(filePath);
+      } catch {
+        delete data.files[filePath];
+        continue;
+      }
+      const existing = data.files[filePath];
+      if (
+        existing &&
+        existing.mtimeMs === stats.mtimeMs &&
+        existing.size === stats.size
+      ) {
+        continue;
+      }
+      if (stats.size > MAX_FILE_SIZE_BYTES) {
+        delete data.files[filePath];
+        continue;
+      }
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      const chunks = chunkCode(content).map((chunk) => ({
+        ...chunk,
+        embedding: [] as number[],
+      }));
+      pending.push({
+        filePath,
+        file: { mtimeMs: stats.mtimeMs, size: stats.size, chunks },
+      });
+    }
+
+    // Files are stored once all their chunks are embedded, so an aborted or
+    // failed update leaves the index consistent.
+    const chunks = pending.flatMap(({ filePath, file }) =>
+      file.chunks.map((chunk) => ({ filePath, chunk })),
+    );
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      signal?.throwIfAborted();
+      const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const embeddings = await this.embed(
+        batch.map(({ filePath, chunk }) =>
+          `${path.relative(this.config.getTargetDir(), filePath)}\n${chunk.text}`.slice(
+            0,
+            MAX_EMBEDDED_CHARS,
+          ),
+        ),
+      );
+      batch.forEach(({ chunk }, index) => {
+        chunk.embedding = embeddings[index];
+      });
+    }
+    for (const { filePath, file } of pending) {
+      data.files[filePath] = file;
+    }
+    return pending.length;
+  }
+
+  /**
+   * Watches the workspace directories and the directories of the files to
+   * index, each without its subdirectories. Watching the workspaces
+   * recursively would also watch ignored directories such as node_modules
+   * and build output, which can use up the inotify watches on Linux. Files
+   * in new directories are indexed by the next update.
+   */
+  private watchDirectories(filePaths: string[]): void {
+    const directories = new Set([
+      ...this.config.getWorkspaceContext().getDirectories(),
+      ...filePaths.map((filePath) => path.dirname(filePath)),
+    ]);
+    for (const [directory, watcher] of this.watchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (this.watchers.has(directory)) {
+        continue;
+      }
+      try {
+        const watcher = fs.watch(
+          directory,
+          { persistent: false },
+          (_eventType, fileName) => {
+            if (fileName) {
+              this.onFileChanged(path.join(directory, fileName.toString()));
+            }
+          },
+        );
+        watcher.on('error', (error) => {
+          console.debug(
+            `Stopped watching ${directory} for the semantic index: ${getErrorMessage(error)}`,
+          );
+          watcher.close();
+          this.watchers.delete(directory);
+        });
+        this.watchers.set(directory, watcher);
+      } catch (error) {
+        console.debug(
+          `Cannot watch ${directory} for the semantic index: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  private onFileChanged(filePath: string): void {
+    if (
+      !INDEXED_EXTENSIONS.has(path.extname(filePath).toLowerCase()) ||
+      isInIgnoredDirectory(filePath)
+    ) {
+      return;
+    }
+    this.changedPaths.add(filePath);
+    clearTimeout(this.watchTimer);
+    this.watchTimer = setTimeout(() => {
+      this.flushChanges().catch((error) =>
+        console.debug(
+          `Failed to update the semantic index: ${getErrorMessage(error)}`,
+        ),
+      );
+    }, WATCH_DEBOUNCE_MS);
+    this.watchTimer.unref();
+  }
+}
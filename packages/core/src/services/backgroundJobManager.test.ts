@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  BackgroundJobManager,
+  describeJobStatus,
+} from './backgroundJobManager.js';
+
+/** Waits for a job to end, without expecting any output. */
+const NEVER_MATCHES = /(?!)/;
+
+describe('BackgroundJobManager', () => {
+  let manager: BackgroundJobManager;
+
+  const startJob = (name: string, command: string) =>
+    manager.start(name, command, os.tmpdir());
+
+  beforeEach(() => {
+    manager = new BackgroundJobManager();
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  it('keeps the output of a job that has exited', async () => {
+    const started = startJob('build', 'echo built; echo warning >&2; exit 3');
+    expect(started).toMatchObject({ name: 'build', status: 'running' });
+
+    await manager.waitFor('build', NEVER_MATCHES, { timeoutMs: 5000 });
+
+    const result = manager.read('build');
+    expect(result.output).toBe('built\nwarning\n');
+    expect(result.nextOffset).toBe(14);
+    expect(result.job).toMatchObject({
+      status: 'exited',
+      exitCode: 3,
+      outputLength: 14,
+    });
+    expect(describeJobStatus(result.job)).toBe('exited with code 3');
+  });
+
+  it('reads the output from an offset', async () => {
+    startJob('log', 'printf "first\\nsecond\\nthird\\n"');
+    await manager.waitFor('log', NEVER_MATCHES, { timeoutMs: 5000 });
+
+    expect(manager.read('log', 6)).toMatchObject({
+      output: 'second\nthird\n',
+      startOffset: 6,
+      nextOffset: 19,
+    });
+    expect(manager.read('log', 6, 7)).toMatchObject({
+      output: 'second\n',
+      nextOffset: 13,
+    });
+    expect(manager.read('log', 19).output).toBe('');
+  });
+
+  it('waits for a pattern and returns the output up to the match', async () => {
+    startJob(
+      'server',
+      'echo starting; sleep 0.2; echo "listening on port 3000"; echo more; sleep 30',
+    );
+
+    const result = await manager.waitFor('server', /port (\d+)/, {
+      timeoutMs: 5000,
+    });
+
+    expect(result.match).toBe('port 3000');
+    expect(result.timedOut).toBe(false);
+    expect(result.output).toBe('starting\nlistening on port 3000');
+    expect(result.nextOffset).toBe(31);
+    expect(result.job.status).toBe('running');
+  });
+
+  it('only matches output after the offset', async () => {
+    startJob(
+      'watcher',
+      'echo "build done"; sleep 0.3; echo "build done"; sleep 30',
+    );
+    const first = await manager.waitFor('watcher', /build done/, {
+      timeoutMs: 5000,
+    });
+
+    const second = await manager.waitFor('watcher', /build done/, {
+      offset: first.nextOffset,
+      timeoutMs: 5000,
+    });
+
+    expect(second.match).toBe('build done');
+    expect(second.startOffset).toBe(first.nextOffset);
+    expect(second.nextOffset).toBe(21);
+  });
+
+  it('stops waiting when the timeout expires or the job exits', async () => {
+    startJob('quiet', 'sleep 30');
+    startJob('failing', 'echo "fatal error"; exit 1');
+
+    const timedOut = await manager.waitFor('quiet', /ready/, {
+      timeoutMs: 100,
+    });
+    const exited = await manager.waitFor('failing', /ready/, {
+      timeoutMs: 5000,
+    });
+
+    expect(timedOut).toMatchObject({ timedOut: true, match: undefined });
+    expect(exited).toMatchObject({
+      timedOut: false,
+      match: undefined,
+      output: 'fatal error\n',
+    });
+    expect(exited.job.status).toBe('exited');
+  });
+
+  it('stops waiting when the signal is aborted', async () => {
+    startJob('quiet', 'sleep 30');
+    const controller = new AbortController();
+
+    const wait = manager.waitFor('quiet', /ready/, {
+      timeoutMs: 5000,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(await wait).toMatchObject({ timedOut: false, match: undefined });
+  });
+
+  it('kills a job with the processes it started', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    const marker = path.join(tempDir, 'alive');
+    startJob('server', `(sleep 0.5; touch "${marker}") & echo started; wait`);
+    await manager.waitFor('server', /started/, { timeoutMs: 5000 });
+
+    const job = await manager.kill('server');
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    expect(job).toMatchObject({ status: 'killed', signal: 'SIGTERM' });
+    expect(describeJobStatus(job)).toBe('was killed');
+    await expect(fs.access(marker)).rejects.toThrow();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('stops every running job on shutdown', async () => {
+    startJob('one', 'sleep 30');
+    startJob('two', 'sleep 30');
+    startJob('done', 'true');
+    await manager.waitFor('done', NEVER_MATCHES, { timeoutMs: 5000 });
+
+    await manager.shutdown();
+
+    expect(manager.list().map((job) => [job.name, job.status])).toEqual([
+      ['one', 'killed'],
+      ['two', 'killed'],
+      ['done', 'exited'],
+    ]);
+  });
+
+  it('only replaces a job with the same name once it has ended', async () => {
+    startJob('server', 'sleep 30');
+
+    expect(() => startJob('server', 'true')).toThrow(
+      "Background job 'server' is already running.",
+    );
+
+    await manager.kill('server');
+    startJob('server', 'echo again');
+    await manager.waitFor('server', NEVER_MATCHES, { timeoutMs: 5000 });
+    expect(manager.read('server').output).toBe('again\n');
+    expect(manager.list()).toHaveLength(1);
+  });
+
+  it('throws for unknown jobs', () => {
+    startJob('server', 'sleep 30');
+
+    expect(() => manager.read('missing')).toThrow(
+      "No background job named 'missing'. Jobs: server.",
+    );
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { TextDecoder } from 'util';
+import os from 'os';
+import stripAnsi from 'strip-ansi';
+import { getCachedEncodingForBuffer } from '../utils/systemEncoding.js';
+
+/** The most output kept per job. Older output is dropped first. */
+export const MAX_JOB_OUTPUT_LENGTH = 1024 * 1024;
+export const DEFAULT_JOB_READ_LENGTH = 32 * 1024;
+const SIGKILL_TIMEOUT_MS = 2000;
+const OUTPUT_CLOSE_TIMEOUT_MS = 500;
+
+export type BackgroundJobStatus = 'running' | 'exited' | 'killed';
+
+/** A snapshot of the state of a background job. */
+export interface BackgroundJobInfo {
+  name: string;
+  command: string;
+  cwd: string;
+  pid: number | undefined;
+  status: BackgroundJobStatus;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Why the command could not be started, if it could not. */
+  error?: string;
+  startTime: number;
+  endTime?: number;
+  /** The length of all output so far, which is the offset of the next output. */
+  outputLength: number;
+}
+
+export interface BackgroundJobOutput {
+  job: BackgroundJobInfo;
+  /** The stdout and stderr of the job, in the order they were written. */
+  output: string;
+  /**
+   * The offset at which the output starts. Later than the requested offset if
+   * the output in between was dropped.
+   */
+  startOffset: number;
+  /** The offset to continue reading from. */
+  nextOffset: number;
+}
+
+export interface BackgroundJobWaitResult extends BackgroundJobOutput {
+  /** The text that matched, unless the job ended or the wait timed out first. */
+  match?: string;
+  timedOut: boolean;
+}
+
+export interface BackgroundJobWaitOptions {
+  /** The offset to search from. Defaults to the start of the output. */
+  offset?: number;
+  timeoutMs: number;
+  signal?: AbortSignal;
+  /** The most output to return. Older output is left out first. */
+  maxLength?: number;
+}
+
+interface BackgroundJob {
+  info: Omit<BackgroundJobInfo, 'outputLength'>;
+  child: ChildProcess;
+  output: string;
+  /** The length of the output that was dropped from the start of `output`. */
+  droppedLength: number;
+  exited: Promise<void>;
+  /** Called when the job writes output or exits. */
+  listeners: Set<() => void>;
+}
+
+/**
+ * Describes the status of a job, e.g. "running (PID 123)" or "exited with
+ * code 1".
+ */
+export function describeJobStatus(job: BackgroundJobInfo): string {
+  if (job.status === 'running') {
+    return `running (PID ${job.pid})`;
+  }
+  if (job.status === 'killed') {
+    return 'was killed';
+  }
+  if (job.error) {
+    return `failed to start: ${job.error}`;
+  }
+  return job.signal
+    ? `exited by signal ${job.signal}`
+    : `exited with code ${job.exitCode}`;
+}
+
+/**
+ * Runs long-running commands, such as dev servers and watchers, in the
+ * background. Keeps their output so that it can be read later, and stops them
+ * on request or when the session ends.
+ */
+export class BackgroundJobManager {
+  private readonly jobs = new Map<string, BackgroundJob>();
+
+  /**
+   * Starts a command as a named job. A job that has ended is replaced by a new
+   * job with the same name.
+   * @throws {Error} If a job with the name is still running.
+   */
+  start(name: string, command: string, cwd: string): BackgroundJobInfo {
+    if (this.jobs.get(name)?.info.status === 'running') {
+      throw new Error(`Background job '${name}' is already running.`);
+    }
+
+    const isWindows = os.platform() === 'win32';
+    const child = spawn(command, [], {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      shell: isWindows ? true : 'bash',
+      // Run the job in its own process group, so that it can be stopped with
+      // all the processes it starts.
+      detached: !isWindows,
+      env: {
+        ...process.env,
+        QWEN_CODE: '1',
+      },
+    });
+
+    let resolveExited: () => void;
+    const job: BackgroundJob = {
+      info: {
+        name,
+        command,
+        cwd,
+        pid: child.pid,
+        status: 'running',
+        exitCode: null,
+        signal: null,
+        startTime: Date.now(),
+      },
+      child,
+      output: '',
+      droppedLength: 0,
+      exited: new Promise((resolve) => {
+        resolveExited = resolve;
+      }),
+      listeners: new Set(),
+    };
+    this.jobs.set(name, job);
+
+    const notify = () => {
+      for (const listener of [...job.listeners]) {
+        listener();
+      }
+    };
+
+    const decoders: Partial<Record<'stdout' | 'stderr', TextDecoder>> = {};
+    const appendOutput = (text: string) => {
+      if (!text) {
+        return;
+      }
+      job.output += stripAnsi(text);
+      const excess = job.output.length - MAX_JOB_OUTPUT_LENGTH;
+      if (excess > 0) {
+        job.output = job.output.slice(excess);
+        job.droppedLength += excess;
+      }
+      notify();
+    };
+    const handleOutput = (data: Buffer, stream: 'stdout' | 'stderr') => {
+      let decoder = decoders[stream];
+      if (!decoder) {
+        try {
+          decoder = new TextDecoder(getCachedEncodingForBuffer(data));
+        } catch {
+          // Not every encoding is supported on every platform.
+          decoder = new TextDecoder('utf-8');
+        }
+        decoders[stream] = decoder;
+      }
+      appendOutput(decoder.decode(data, { stream: true }));
+    };
+
+    let closed = false;
+    const finish = (
+      exitCode: number | null,
+      signal: NodeJS.Signals | null,
+      error?: Error,
+    ) => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      for (const decoder of Object.values(decoders)) {
+        appendOutput(decoder.decode());
+      }
+      if (job.info.status === 'running') {
+        job.info.status = 'exited';
+      }
+      job.info.exitCode = exitCode;
+      job.info.signal = signal;
+      job.info.endTime = Date.now();
+      if (error) {
+        job.info.error = error.message;
+      }
+      resolveExited();
+      notify();
+    };
+
+    child.stdout?.on('data', (data: Buffer) => handleOutput(data, 'stdout'));
+    child.stderr?.on('data', (data: Buffer) => handleOutput(data, 'stderr'));
+    child.on('error', (error) => finish(null, null, error));
+    // 'close' waits for the output streams to end, unlike 'exit'.
+    child.on('close', (code, signal) => finish(code, signal));
+
+    return this.getInfo(job);
+  }
+
+  /** Returns the state of every job, in the order they were started. */
+  list(): BackgroundJobInfo[] {
+    return [...this.jobs.values()].map((job) => this.getInfo(job));
+  }
+
+  /** Returns the state of a job, if there is a job with the name. */
+  get(name: string): BackgroundJobInfo | undefined {
+    const job = this.jobs.get(name);
+    return job ? this.getInfo(job) : undefined;
+  }
+
+  /**
+   * Returns the output of a job from an offset.
+   * @throws {Error} If there is no job with the name.
+   */
+  read(
+    name: string,
+    offset = 0,
+    maxLength = DEFAULT_JOB_READ_LENGTH,
+  ): BackgroundJobOutput {
+    const job = this.getJob(name);
+    const startOffset = Math.max(offset, job.droppedLength);
+    const output = job.output.slice(
+      startOffset - job.droppedLength,
+      startOffset - job.droppedLength + maxLength,
+    );
+    return {
+      job: this.getInfo(job),
+      output,
+      startOffset,
+      nextOffset: startOffset + output.length,
+    };
+  }
+
+  /**
+   * Waits until the output of a job from an offset matches a pattern, the job
+   * ends or the timeout expires. Returns the output up to the end of the match.
+   * @throws {Error} If there is no job with the name.
+   */
+  waitFor(
+    name: string,
+    pattern: RegExp,
+    options: BackgroundJobWaitOptions,
+  ): Promise<BackgroundJobWaitResult> {
+    const job = this.getJob(name);
+    const maxLength = options.maxLength ?? DEFAULT_JOB_READ_LENGTH;
+    const requestedOffset = options.offset ?? 0;
+
+    const createResult = (
+      endOffset: number,
+      timedOut: boolean,
+      match?: string,
+    ): BackgroundJobWaitResult => {
+      const startOffset = Math.max(
+        requestedOffset,
+        job.droppedLength,
+        endOffset - maxLength,
+      );
+      return {
+        job: this.getInfo(job),
+        output: job.output.slice(
+          startOffset - job.droppedLength,
+          endOffset - job.droppedLength,
+        ),
+        startOffset,
+        nextOffset: endOffset,
+        match,
+        timedOut,
+      };
+    };
+
+    return new Promise((resolve) => {
+      let settled = false;
+      let timer: NodeJS.Timeout | undefined = undefined;
+      const endOffset = () => job.droppedLength + job.output.length;
+      const done = (result: BackgroundJobWaitResult) => {
+        settled = true;
+        clearTimeout(timer);
+        job.listeners.delete(check);
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      const check = () => {
+        const searchOffset = Math.max(requestedOffset, job.droppedLength);
+        const match = pattern.exec(
+          job.output.slice(searchOffset - job.droppedLength),
+        );
+        if (match) {
+          done(
+            createResult(
+              searchOffset + match.index + match[0].length,
+              false,
+              match[0],
+            ),
+          );
+        } else if (job.info.status !== 'running') {
+          done(createResult(endOffset(), false));
+        }
+      };
+      const onAbort = () => done(createResult(endOffset(), false));
+
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      check();
+      if (settled) {
+        return;
+      }
+      job.listeners.add(check);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      timer = setTimeout(
+        () => done(createResult(endOffset(), true)),
+        options.timeoutMs,
+      );
+    });
+  }
+
+  /**
+   * Stops a job and every process it started, and waits until it exits.
+   * @throws {Error} If there is no job with the name.
+   */
+  async kill(name: string): Promise<BackgroundJobInfo> {
+    const job = this.getJob(name);
+    if (job.info.status === 'running') {
+      await this.killJob(job);
+    }
+    return this.getInfo(job);
+  }
+
+  /**
+   * Stops every running job.
+   */
+  async shutdown(): Promise<void> {
+    await Promise.all(
+      [...this.jobs.values()]
+        .filter((job) => job.info.status === 'running')
+        .map((job) => this.killJob(job)),
+    );
+  }
+
+  private getJob(name: string): BackgroundJob {
+    const job = this.jobs.get(name);
+    if (!job) {
+      const names = [...this.jobs.keys()];
+      throw new Error(
+        `No background job named '${name}'. Jobs: ${names.length > 0 ? names.join(', ') : 'none'}.`,
+      );
+    }
+    return job;
+  }
+
+  private getInfo(job: BackgroundJob): BackgroundJobInfo {
+    return {
+      ...job.info,
+      outputLength: job.droppedLength + job.output.length,
+    };
+  }
+
+  private async killJob(job: BackgroundJob): Promise<void> {
+    const { child } = job;
+    job.info.status = 'killed';
+    if (child.pid === undefined) {
+      return;
+    }
+
+    let processExited = child.exitCode !== null || child.signalCode !== null;
+    const processExit = processExited
+      ? Promise.resolve()
+      : new Promise<void>((resolve) =>
+          child.once('exit', () => {
+            processExited = true;
+            resolve();
+          }),
+        );
+    if (os.platform() === 'win32') {
+      spawn('taskkill', ['/pid', child.pid.toString(), '/f', '/t']);
+    } else {
+      try {
+        // Stop the whole process group, with SIGKILL if SIGTERM is not enough.
+        process.kill(-child.pid, 'SIGTERM');
+        await Promise.race([processExit, delay(SIGKILL_TIMEOUT_MS)]);
+        if (!processExited) {
+          process.kill(-child.pid, 'SIGKILL');
+        }
+      } catch (_error) {
+        // The process group is gone, or was never created.
+        if (!processExited) {
+          child.kill('SIGKILL');
+        }
+      }
+    }
+    await processExit;
+    // Processes that left the process group can keep the output open.
+    await Promise.race([job.exited, delay(OUTPUT_CLOSE_TIMEOUT_MS)]);
+    child.stdout?.destroy();
+    child.stderr?.destroy();
+    await job.exited;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+
+/**
+ * Reads and writes the text files that tools work on. Editors that host the
+ * agent can provide their own implementation, so that tools see unsaved
+ * changes and edits land in the editor's buffers.
+ */
+export interface FileSystemService {
+  /**
+   * Reads a text file.
+   * @throws An error with code `ENOENT` if the file does not exist.
+   */
+  readTextFile(filePath: string): Promise<string>;
+
+  /** Writes a text file. The parent directory must exist. */
+  writeTextFile(filePath: string, content: string): Promise<void>;
+}
+
+/** Reads and writes files on disk. */
+export class StandardFileSystemService implements FileSystemService {
+  async readTextFile(filePath: string): Promise<string> {
+    return fs.promises.readFile(filePath, 'utf8');
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    await fs.promises.writeFile(filePath, content, 'utf8');
+  }
+}
@@ -27,10 +27,16 @@ const mockPlatform = vi.hoisted(() => vi.fn());
 vi.mock('os', () => ({
   default: {
     platform: mockPlatform,
+    constants: { signals: { SIGTERM: 15, SIGKILL: 9 } },
   },
   platform: mockPlatform,
 }));
 
+const mockGetPty = vi.hoisted(() => vi.fn());
+vi.mock('../utils/getPty.js', () => ({
+  getPty: mockGetPty,
+}));
+
 const mockProcessKill = vi
   .spyOn(process, 'kill')
   .mockImplementation(() => true);
@@ -69,7 +75,7 @@ describe('ShellExecutionService', () => {
     simulation: (cp: typeof mockChildProcess, ac: AbortController) => void,
   ) => {
     const abortController = new AbortController();
-    const handle = ShellExecutionService.execute(
+    const handle = await ShellExecutionService.execute(
       command,
       '/test/dir',
       onOutputEventMock,
@@ -252,7 +258,7 @@ describe('ShellExecutionService', () => {
       // Don't await the result inside the simulation block for this specific test.
       // We need to control the timeline manually.
       const abortController = new AbortController();
-      const handle = ShellExecutionService.execute(
+      const handle = await ShellExecutionService.execute(
         'unresponsive_process',
         '/test/dir',
         onOutputEventMock,
@@ -372,4 +378,133 @@ describe('ShellExecutionService', () => {
       );
     });
   });
+
+  describe('Pseudo-terminal Execution', () => {
+    let ptyProcess: {
+      pid: number;
+      onData: Mock;
+      onExit: Mock;
+      write: Mock;
+      resize: Mock;
+      kill: Mock;
+    };
+    let mockPtySpawn: Mock;
+
+    const emitData = (data: string) => ptyProcess.onData.mock.calls[0][0](data);
+    const emitExit = (exitCode: number, signal = 0) =>
+      ptyProcess.onExit.mock.calls[0][0]({ exitCode, signal });
+
+    beforeEach(() => {
+      ptyProcess = {
+        pid: 4242,
+        onData: vi.fn(),
+        onExit: vi.fn(),
+        write: vi.fn(),
+        resize: vi.fn(),
+        kill: vi.fn(),
+      };
+      mockPtySpawn = vi.fn().mockReturnValue(ptyProcess);
+      mockGetPty.mockResolvedValue({ spawn: mockPtySpawn });
+    });
+
+    const executeInPty = (abortSignal = new AbortController().signal) =>
+      ShellExecutionService.execute(
+        'npm init',
+        '/test/dir',
+        onOutputEventMock,
+        abortSignal,
+        { usePty: true },
+      );
+
+    it('should run the command in a pseudo-terminal and render its screen', async () => {
+      const handle = await executeInPty();
+
+      expect(mockSpawn).not.toHaveBeenCalled();
+      expect(mockPtySpawn).toHaveBeenCalledWith(
+        'bash',
+        ['-c', 'npm init'],
+        expect.objectContaining({
+          name: 'xterm-256color',
+          cwd: '/test/dir',
+          cols: 80,
+          rows: 24,
+        }),
+      );
+
+      emitData('package name: \x1b[32mdemo\x1b[0m\r\n');
+      await vi.waitFor(() =>
+        expect(onOutputEventMock).toHaveBeenCalledWith({
+          type: 'terminal',
+          lines: [[{ text: 'package name: ' }, { text: 'demo', fg: 'green' }]],
+        }),
+      );
+
+      emitExit(0);
+      const result = await handle.result;
+
+      expect(handle.pid).toBe(4242);
+      expect(result.output).toBe('package name: demo');
+      expect(result.stdout).toBe('package name: demo');
+      expect(result.exitCode).toBe(0);
+      expect(result.signal).toBeNull();
+      expect(result.aborted).toBe(false);
+    });
+
+    it('should forward input and resizes while the command runs', async () => {
+      const handle = await executeInPty();
+
+      expect(ShellExecutionService.isPtyActive(4242)).toBe(true);
+      ShellExecutionService.writeToPty(4242, 'y\r');
+      ShellExecutionService.resizePty(4242, 100);
+      expect(ptyProcess.write).toHaveBeenCalledWith('y\r');
+      expect(ptyProcess.resize).toHaveBeenCalledWith(100, 24);
+
+      emitExit(0);
+      await handle.result;
+
+      expect(ShellExecutionService.isPtyActive(4242)).toBe(false);
+      ShellExecutionService.writeToPty(4242, 'n\r');
+      expect(ptyProcess.write).toHaveBeenCalledTimes(1);
+    });
+
+    it('should kill the process group on abort', async () => {
+      const abortController = new AbortController();
+      const handle = await executeInPty(abortController.signal);
+
+      abortController.abort();
+      expect(mockProcessKill).toHaveBeenCalledWith(-4242, 'SIGTERM');
+
+      emitExit(0, 15);
+      const result = await handle.result;
+
+      expect(result.aborted).toBe(true);
+      expect(result.exitCode).toBeNull();
+      expect(result.signal).toBe('SIGTERM');
+    });
+
+    it('should kill the process group if aborted before it started', async () => {
+      const abortController = new AbortController();
+      abortController.abort();
+
+      const handle = await executeInPty(abortController.signal);
+      expect(mockProcessKill).toHaveBeenCalledWith(-4242, 'SIGTERM');
+
+      emitExit(0, 15);
+      expect((await handle.result).aborted).toBe(true);
+    });
+
+    it('should fall back to pipes if no pseudo-terminal is available', async () => {
+      mockGetPty.mockResolvedValue(null);
+
+      const handle = await executeInPty();
+      mockChildProcess.emit('exit', 0, null);
+      await handle.result;
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'npm init',
+        [],
+        expect.objectContaining({ shell: 'bash' }),
+      );
+    });
+  });
 });
@@ -8,10 +8,23 @@ import { spawn } from 'child_process';
 import { TextDecoder } from 'util';
 import os from 'os';
 import stripAnsi from 'strip-ansi';
+import xtermHeadless from '@xterm/headless';
 import { getCachedEncodingForBuffer } from '../utils/systemEncoding.js';
 import { isBinary } from '../utils/textUtils.js';
+import { getPty, PtyModule, PtyProcess } from '../utils/getPty.js';
+import {
+  serializeTerminalScreen,
+  serializeTerminalText,
+  TerminalLine,
+} from '../utils/terminalSerializer.js';
+
+const { Terminal } = xtermHeadless;
 
 const SIGKILL_TIMEOUT_MS = 200;
+const DEFAULT_PTY_COLUMNS = 80;
+const DEFAULT_PTY_ROWS = 24;
+const PTY_SCROLLBACK_LINES = 10000;
+const PTY_RENDER_INTERVAL_MS = 50;
 
 /** A structured result from a shell command execution. */
 export interface ShellExecutionResult {
@@ -35,6 +48,20 @@ export interface ShellExecutionResult {
   pid: number | undefined;
 }
 
+/** Options for a shell command execution. */
+export interface ShellExecutionOptions {
+  /**
+   * Runs the command in a pseudo-terminal, so that it can prompt for input
+   * and print colors. Falls back to pipes if no PTY implementation is
+   * available.
+   */
+  usePty?: boolean;
+  /** The number of columns of the pseudo-terminal. */
+  terminalColumns?: number;
+  /** The number of rows of the pseudo-terminal. */
+  terminalRows?: number;
+}
+
 /** A handle for an ongoing shell execution. */
 export interface ShellExecutionHandle {
   /** The process ID of the spawned shell. */
@@ -64,25 +91,232 @@ export type ShellOutputEvent =
       type: 'binary_progress';
       /** The total number of bytes received so far. */
       bytesReceived: number;
+    }
+  | {
+      /** The screen of a command running in a pseudo-terminal changed. */
+      type: 'terminal';
+      /** The visible lines of the terminal. */
+      lines: TerminalLine[];
     };
 
+interface ActivePty {
+  ptyProcess: PtyProcess;
+  terminal: InstanceType<typeof Terminal>;
+}
+
+function getSignalName(signal: number): NodeJS.Signals | null {
+  const entry = Object.entries(os.constants.signals).find(
+    ([, value]) => value === signal,
+  );
+  return entry ? (entry[0] as NodeJS.Signals) : null;
+}
+
 /**
  * A centralized service for executing shell commands with robust process
  * management, cross-platform compatibility, and streaming output capabilities.
  *
  */
 export class ShellExecutionService {
+  private static readonly activePtys = new Map<number, ActivePty>();
+
   /**
-   * Executes a shell command using `spawn`, capturing all output and lifecycle events.
+   * Executes a shell command using `spawn`, or in a pseudo-terminal if
+   * requested, capturing all output and lifecycle events.
    *
    * @param commandToExecute The exact command string to run.
    * @param cwd The working directory to execute the command in.
    * @param onOutputEvent A callback for streaming structured events about the execution, including data chunks and status updates.
    * @param abortSignal An AbortSignal to terminate the process and its children.
+   * @param options Options for the execution, such as whether to use a pseudo-terminal.
    * @returns An object containing the process ID (pid) and a promise that
    *          resolves with the complete execution result.
    */
-  static execute(
+  static async execute(
+    commandToExecute: string,
+    cwd: string,
+    onOutputEvent: (event: ShellOutputEvent) => void,
+    abortSignal: AbortSignal,
+    options: ShellExecutionOptions = {},
+  ): Promise<ShellExecutionHandle> {
+    const pty = options.usePty ? await getPty() : null;
+    if (pty) {
+      try {
+        return this.executeWithPty(
+          pty,
+          commandToExecute,
+          cwd,
+          onOutputEvent,
+          abortSignal,
+          options,
+        );
+      } catch {
+        // Fall back to pipes if the pseudo-terminal cannot be created.
+      }
+    }
+    return this.executeWithPipes(
+      commandToExecute,
+      cwd,
+      onOutputEvent,
+      abortSignal,
+    );
+  }
+
+  /**
+   * Sends input to a command running in a pseudo-terminal, as if it was typed
+   * by the user. Does nothing if the command has exited.
+   */
+  static writeToPty(pid: number, input: string): void {
+    this.activePtys.get(pid)?.ptyProcess.write(input);
+  }
+
+  /**
+   * Resizes the pseudo-terminal of a running command. Keeps the number of
+   * rows if it is not given.
+   */
+  static resizePty(pid: number, columns: number, rows?: number): void {
+    const activePty = this.activePtys.get(pid);
+    if (!activePty) {
+      return;
+    }
+    const { ptyProcess, terminal } = activePty;
+    const newRows = rows ?? terminal.rows;
+    if (terminal.cols === columns && terminal.rows === newRows) {
+      return;
+    }
+    ptyProcess.resize(columns, newRows);
+    terminal.resize(columns, newRows);
+  }
+
+  /** Returns whether a command with this pid is running in a pseudo-terminal. */
+  static isPtyActive(pid: number): boolean {
+    return this.activePtys.has(pid);
+  }
+
+  private static executeWithPty(
+    pty: PtyModule,
+    commandToExecute: string,
+    cwd: string,
+    onOutputEvent: (event: ShellOutputEvent) => void,
+    abortSignal: AbortSignal,
+    options: ShellExecutionOptions,
+  ): ShellExecutionHandle {
+    const isWindows = os.platform() === 'win32';
+    const columns = options.terminalColumns ?? DEFAULT_PTY_COLUMNS;
+    const rows = options.terminalRows ?? DEFAULT_PTY_ROWS;
+
+    const ptyProcess = pty.spawn(
+      isWindows ? 'cmd.exe' : 'bash',
+      isWindows ? ['/c', commandToExecute] : ['-c', commandToExecute],
+      {
+        name: 'xterm-256color',
+        cols: columns,
+        rows,
+        cwd,
+        env: {
+          ...process.env,
+          QWEN_CODE: '1',
+          TERM: 'xterm-256color',
+          // A pager would wait for input that the model cannot give.
+          PAGER: 'cat',
+          GIT_PAGER: 'cat',
+        },
+      },
+    );
+    const terminal = new Terminal({
+      cols: columns,
+      rows,
+      scrollback: PTY_SCROLLBACK_LINES,
+      allowProposedApi: true,
+    });
+    const pid = ptyProcess.pid;
+    this.activePtys.set(pid, { ptyProcess, terminal });
+
+    const result = new Promise<ShellExecutionResult>((resolve) => {
+      const outputChunks: Buffer[] = [];
+      let exited = false;
+      let renderTimer: NodeJS.Timeout | undefined;
+      // The terminal parses its input asynchronously.
+      let pendingWrites = Promise.resolve();
+
+      const render = () => {
+        renderTimer = undefined;
+        if (!exited) {
+          onOutputEvent({
+            type: 'terminal',
+            lines: serializeTerminalScreen(terminal),
+          });
+        }
+      };
+
+      ptyProcess.onData((data) => {
+        outputChunks.push(Buffer.from(data, 'utf-8'));
+        pendingWrites = pendingWrites.then(
+          () =>
+            new Promise<void>((res) => {
+              terminal.write(data, res);
+            }),
+        );
+        void pendingWrites.then(() => {
+          renderTimer ??= setTimeout(render, PTY_RENDER_INTERVAL_MS);
+        });
+      });
+
+      const abortHandler = async () => {
+        if (exited) {
+          return;
+        }
+        if (isWindows) {
+          ptyProcess.kill();
+          return;
+        }
+        try {
+          // The pseudo-terminal runs the command in its own process group.
+          process.kill(-pid, 'SIGTERM');
+          await new Promise((res) => setTimeout(res, SIGKILL_TIMEOUT_MS));
+          if (!exited) {
+            process.kill(-pid, 'SIGKILL');
+          }
+        } catch (_e) {
+          if (!exited) ptyProcess.kill('SIGKILL');
+        }
+      };
+
+      abortSignal.addEventListener('abort', abortHandler, { once: true });
+      // The signal may have been aborted while the pseudo-terminal module
+      // was loading.
+      if (abortSignal.aborted) {
+        void abortHandler();
+      }
+
+      ptyProcess.onExit(({ exitCode, signal }) => {
+        exited = true;
+        clearTimeout(renderTimer);
+        abortSignal.removeEventListener('abort', abortHandler);
+        ShellExecutionService.activePtys.delete(pid);
+
+        void pendingWrites.then(() => {
+          const output = serializeTerminalText(terminal);
+          terminal.dispose();
+          resolve({
+            rawOutput: Buffer.concat(outputChunks),
+            output,
+            // A pseudo-terminal does not separate stdout and stderr.
+            stdout: output,
+            stderr: '',
+            exitCode: signal ? null : exitCode,
+            signal: signal ? getSignalName(signal) : null,
+            error: null,
+            aborted: abortSignal.aborted,
+            pid,
+          });
+        });
+      });
+    });
+
+    return { pid, result };
+  }
+
+  private static executeWithPipes(
     commandToExecute: string,
     cwd: string,
     onOutputEvent: (event: ShellOutputEvent) => void,
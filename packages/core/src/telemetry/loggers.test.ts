@@ -188,7 +188,10 @@ describe('loggers', () => {
       getUsageStatisticsEnabled: () => true,
       getTelemetryEnabled: () => true,
       getTelemetryLogPromptsEnabled: () => true,
-    } as Config;
+      getModelPricing: () => ({
+        'priced-model': { input: 2, output: 10, cachedInput: 1 },
+      }),
+    } as unknown as Config;
 
     const mockMetrics = {
       recordApiResponseMetrics: vi.fn(),
@@ -269,6 +272,29 @@ describe('loggers', () => {
       });
     });
 
+    it('should add the estimated cost when the model has a known price', () => {
+      const event = new ApiResponseEvent(
+        'test-response-id-3',
+        'priced-model',
+        100,
+        'prompt-id-1',
+        AuthType.USE_OPENAI,
+        {
+          promptTokenCount: 1000,
+          candidatesTokenCount: 200,
+          cachedContentTokenCount: 400,
+        },
+      );
+
+      logApiResponse(mockConfig, event);
+
+      // 600 * $2 + 400 * $1 + 200 * $10 per million tokens
+      expect(event.cost_usd).toBeCloseTo(0.0036);
+      expect(mockUiEvent.addEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ cost_usd: event.cost_usd }),
+      );
+    });
+
     it('should log an API response with an error', () => {
       const usageData: GenerateContentResponseUsageMetadata = {
         promptTokenCount: 17,
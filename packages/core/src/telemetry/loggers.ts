@@ -43,6 +43,7 @@ import { isTelemetrySdkInitialized } from './sdk.js';
 import { uiTelemetryService, UiEvent } from './uiTelemetry.js';
 import { QwenLogger } from './qwen-logger/qwen-logger.js';
 import { safeJsonStringify } from '../utils/safeJsonStringify.js';
+import { calculateCostUsd, findModelPrice } from '../core/modelPricing.js';
 
 const shouldLogUserPrompts = (config: Config): boolean =>
   config.getTelemetryLogPromptsEnabled();
@@ -231,6 +232,21 @@ export function logApiError(config: Config, event: ApiErrorEvent): void {
 }
 
 export function logApiResponse(config: Config, event: ApiResponseEvent): void {
+  if (event.cost_usd === undefined) {
+    const price = findModelPrice(
+      config.getModelPricing(),
+      event.model,
+      event.auth_type,
+    );
+    if (price) {
+      event.cost_usd = calculateCostUsd(price, {
+        prompt: event.input_token_count,
+        candidates: event.output_token_count,
+        cached: event.cached_content_token_count,
+        thoughts: event.thoughts_token_count,
+      });
+    }
+  }
   const uiEvent = {
     ...event,
     'event.name': EVENT_API_RESPONSE,
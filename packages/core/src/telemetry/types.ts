@@ -210,6 +210,8 @@ export class ApiResponseEvent {
   response_text?: string;
   prompt_id: string;
   auth_type?: string;
+  /** The estimated cost in US dollars, when the model's price is known. */
+  cost_usd?: number;
 
   constructor(
     response_id: string,
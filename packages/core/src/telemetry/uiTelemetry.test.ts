@@ -259,6 +259,29 @@ describe('UiTelemetryService', () => {
       expect(metrics.models['gemini-2.5-flash'].api.totalRequests).toBe(1);
       expect(service.getLastPromptTokenCount()).toBe(100);
     });
+
+    it('should accumulate the cost and record the provider of a model', () => {
+      const event = {
+        'event.name': EVENT_API_RESPONSE,
+        model: 'gpt-4o',
+        duration_ms: 500,
+        input_token_count: 10,
+        output_token_count: 20,
+        total_token_count: 30,
+        cached_content_token_count: 0,
+        thoughts_token_count: 0,
+        tool_token_count: 0,
+        auth_type: 'openai',
+        cost_usd: 0.25,
+      } as ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE };
+
+      service.addEvent(event);
+      service.addEvent(event);
+
+      const metrics = service.getMetrics();
+      expect(metrics.models['gpt-4o'].provider).toBe('openai');
+      expect(metrics.models['gpt-4o'].costUsd).toBe(0.5);
+    });
   });
 
   describe('API Error Event Processing', () => {
@@ -46,6 +46,10 @@ export interface ModelMetrics {
     thoughts: number;
     tool: number;
   };
+  /** The auth type of the provider that served the model. */
+  provider?: string;
+  /** The estimated cost in US dollars, when the model's price is known. */
+  costUsd?: number;
 }
 
 export interface SessionMetrics {
@@ -160,6 +164,13 @@ export class UiTelemetryService extends EventEmitter {
     modelMetrics.tokens.thoughts += event.thoughts_token_count;
     modelMetrics.tokens.tool += event.tool_token_count;
 
+    if (event.auth_type) {
+      modelMetrics.provider = event.auth_type;
+    }
+    if (event.cost_usd !== undefined) {
+      modelMetrics.costUsd = (modelMetrics.costUsd ?? 0) + event.cost_usd;
+    }
+
     this.#lastPromptTokenCount = event.input_token_count;
   }
 
@@ -0,0 +1,280 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  KillBackgroundJobTool,
+  ReadBackgroundJobTool,
+  StartBackgroundJobTool,
+  WaitForBackgroundJobTool,
+} from './background-jobs.js';
+import { ToolConfirmationOutcome } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { Config } from '../config/config.js';
+import { BackgroundJobManager } from '../services/backgroundJobManager.js';
+import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+
+describe('background job tools', () => {
+  const abortSignal = new AbortController().signal;
+  const rootDir = os.tmpdir();
+  let manager: BackgroundJobManager;
+  let excludeTools: string[];
+  let config: Config;
+
+  beforeEach(() => {
+    manager = new BackgroundJobManager();
+    excludeTools = [];
+    config = {
+      getTargetDir: () => rootDir,
+      getWorkspaceContext: () => createMockWorkspaceContext(rootDir),
+      getCoreTools: () => undefined,
+      getExcludeTools: () => excludeTools,
+      getBackgroundJobManager: () => manager,
+    } as unknown as Config;
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  describe('StartBackgroundJobTool', () => {
+    it('should start a job and report its first output', async () => {
+      const tool = new StartBackgroundJobTool(config);
+      const invocation = tool.build({
+        name: 'server',
+        command: 'echo "listening on 3000"; sleep 30',
+        description: 'Start the server',
+      });
+
+      const result = await invocation.execute(abortSignal);
+
+      expect(invocation.getDescription()).toBe(
+        'server: echo "listening on 3000"; sleep 30 (Start the server)',
+      );
+      const job = manager.get('server')!;
+      expect(job).toMatchObject({ status: 'running', cwd: rootDir });
+      expect(result.llmContent).toContain(`Status: running (PID ${job.pid})`);
+      expect(result.llmContent).toContain(
+        'Output (offset 0 to 18):\nlistening on 3000\n',
+      );
+      expect(result.llmContent).toContain('Next offset: 18');
+      expect(result.llmContent).toContain(ReadBackgroundJobTool.Name);
+      expect(result.returnDisplay).toBe(
+        `Job 'server' running (PID ${job.pid})\nlistening on 3000\n`,
+      );
+    });
+
+    it('should report a command that fails right away', async () => {
+      const tool = new StartBackgroundJobTool(config);
+
+      const result = await tool
+        .build({ name: 'build', command: 'echo broken >&2; exit 2' })
+        .execute(abortSignal);
+
+      expect(result.llmContent).toContain('Status: exited with code 2');
+      expect(result.llmContent).toContain('broken');
+      expect(result.llmContent).not.toContain('keeps running');
+    });
+
+    it('should ask for confirmation until the command is always allowed', async () => {
+      const tool = new StartBackgroundJobTool(config);
+      const params = { name: 'server', command: 'npm run dev' };
+
+      const details = await tool
+        .build(params)
+        .shouldConfirmExecute(abortSignal);
+      expect(details).toMatchObject({
+        type: 'exec',
+        title: 'Confirm Background Job',
+        command: 'npm run dev',
+        rootCommand: 'npm',
+      });
+
+      await (
+        details as { onConfirm: (o: ToolConfirmationOutcome) => void }
+      ).onConfirm(ToolConfirmationOutcome.ProceedAlways);
+      expect(await tool.build(params).shouldConfirmExecute(abortSignal)).toBe(
+        false,
+      );
+    });
+
+    it('should reject invalid names, blocked commands and running jobs', async () => {
+      const tool = new StartBackgroundJobTool(config);
+      excludeTools = ['run_shell_command(rm)'];
+      manager.start('server', 'sleep 30', rootDir);
+
+      expect(() => tool.build({ name: 'dev server', command: 'ls' })).toThrow(
+        "name may only contain letters, digits, '.', '_' and '-', got: dev server",
+      );
+      expect(() =>
+        tool.build({ name: 'clean', command: 'rm -rf dist' }),
+      ).toThrow("Command 'rm -rf dist' is blocked by configuration");
+      expect(() => tool.build({ name: 'server', command: 'ls' })).toThrow(
+        "Background job 'server' is already running.",
+      );
+      expect(() =>
+        tool.build({ name: 'other', command: 'ls', directory: 'missing' }),
+      ).toThrow("Directory 'missing' is not a registered workspace directory.");
+    });
+
+    it('should run the command in a workspace directory', async () => {
+      const tool = new StartBackgroundJobTool(config);
+
+      await tool
+        .build({
+          name: 'pwd',
+          command: 'pwd',
+          directory: path.basename(rootDir),
+        })
+        .execute(abortSignal);
+
+      expect(manager.get('pwd')?.cwd).toBe(
+        path.resolve(rootDir, path.basename(rootDir)),
+      );
+    });
+  });
+
+  describe('ReadBackgroundJobTool', () => {
+    it('should read the output from an offset', async () => {
+      manager.start('log', 'printf "one\\ntwo\\n"', rootDir);
+      await manager.waitFor('log', /(?!)/, { timeoutMs: 5000 });
+      const tool = new ReadBackgroundJobTool(config);
+
+      const result = await tool
+        .build({ name: 'log', offset: 4 })
+        .execute(abortSignal);
+
+      expect(result.llmContent).toBe(
+        [
+          'Job: log',
+          'Command: printf "one\\ntwo\\n"',
+          'Status: exited with code 0',
+          'Output (offset 4 to 8):',
+          'two\n',
+          'Next offset: 8',
+        ].join('\n'),
+      );
+      expect(result.returnDisplay).toBe('two\n');
+      expect(tool.isReadOnly({ name: 'log' })).toBe(true);
+    });
+
+    it('should list the jobs when the name is unknown', () => {
+      manager.start('server', 'sleep 30', rootDir);
+      const message = "No background job named 'dev'. Jobs: server.";
+
+      expect(() =>
+        new ReadBackgroundJobTool(config).build({ name: 'dev' }),
+      ).toThrow(message);
+      expect(() =>
+        new WaitForBackgroundJobTool(config).build({
+          name: 'dev',
+          pattern: 'ready',
+        }),
+      ).toThrow(message);
+      expect(() =>
+        new KillBackgroundJobTool(config).build({ name: 'dev' }),
+      ).toThrow(message);
+    });
+
+    it('should report jobs that disappear as background job failures', async () => {
+      manager.start('server', 'sleep 30', rootDir);
+      const invocation = new ReadBackgroundJobTool(config).build({
+        name: 'server',
+      });
+      await manager.shutdown();
+      manager = new BackgroundJobManager();
+
+      const result = await invocation.execute(abortSignal);
+
+      expect(result.error).toEqual({
+        message: "No background job named 'server'. Jobs: none.",
+        type: ToolErrorType.BACKGROUND_JOB_FAILURE,
+      });
+    });
+  });
+
+  describe('WaitForBackgroundJobTool', () => {
+    it('should return the output up to the match', async () => {
+      manager.start(
+        'server',
+        'echo compiling; sleep 0.2; echo "ready in 200ms"; sleep 30',
+        rootDir,
+      );
+      const tool = new WaitForBackgroundJobTool(config);
+
+      const result = await tool
+        .build({ name: 'server', pattern: '^ready in \\d+ms$' })
+        .execute(abortSignal);
+
+      expect(result.returnDisplay).toBe(
+        'Found a match for /^ready in \\d+ms$/: ready in 200ms',
+      );
+      expect(result.llmContent).toContain(
+        'Output (offset 0 to 24):\ncompiling\nready in 200ms\nNext offset: 24',
+      );
+      expect(tool.isReadOnly({ name: 'server', pattern: 'x' })).toBe(true);
+    });
+
+    it('should report a timeout and a job that exits first', async () => {
+      manager.start('quiet', 'sleep 30', rootDir);
+      manager.start('failing', 'echo crashed; exit 1', rootDir);
+      const tool = new WaitForBackgroundJobTool(config);
+
+      const timedOut = await tool
+        .build({ name: 'quiet', pattern: 'ready', timeout_seconds: 1 })
+        .execute(abortSignal);
+      const exited = await tool
+        .build({ name: 'failing', pattern: 'ready' })
+        .execute(abortSignal);
+
+      expect(timedOut.returnDisplay).toBe(
+        'No match for /ready/ within 1 seconds.',
+      );
+      expect(exited.returnDisplay).toBe(
+        'The job exited with code 1 without a match for /ready/.',
+      );
+    });
+
+    it('should reject invalid patterns and timeouts', () => {
+      const tool = new WaitForBackgroundJobTool(config);
+
+      expect(() => tool.build({ name: 'server', pattern: '(' })).toThrow(
+        'Invalid regular expression pattern: (',
+      );
+      expect(() =>
+        tool.build({ name: 'server', pattern: 'x', timeout_seconds: 601 }),
+      ).toThrow();
+    });
+  });
+
+  describe('KillBackgroundJobTool', () => {
+    it('should stop a running job', async () => {
+      manager.start('server', 'sleep 30', rootDir);
+      const tool = new KillBackgroundJobTool(config);
+
+      const result = await tool.build({ name: 'server' }).execute(abortSignal);
+
+      expect(result.returnDisplay).toBe("Stopped background job 'server'.");
+      expect(result.llmContent).toContain('Status: was killed');
+      expect(manager.get('server')?.status).toBe('killed');
+      expect(tool.isReadOnly({ name: 'server' })).toBe(false);
+    });
+
+    it('should report a job that has already exited', async () => {
+      manager.start('build', 'exit 0', rootDir);
+      await manager.waitFor('build', /(?!)/, { timeoutMs: 5000 });
+      const tool = new KillBackgroundJobTool(config);
+
+      const result = await tool.build({ name: 'build' }).execute(abortSignal);
+
+      expect(result.returnDisplay).toBe(
+        "Background job 'build' was not running: it exited with code 0.",
+      );
+    });
+  });
+});
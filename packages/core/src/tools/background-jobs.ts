@@ -0,0 +1,627 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'path';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Icon,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolExecuteConfirmationDetails,
+  ToolInvocation,
+  ToolResult,
+} from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import {
+  getCommandRoots,
+  isCommandAllowed,
+  stripShellWrapper,
+} from '../utils/shell-utils.js';
+import { Config } from '../config/config.js';
+import { ShellTool } from './shell.js';
+import {
+  BackgroundJobInfo,
+  BackgroundJobOutput,
+  describeJobStatus,
+} from '../services/backgroundJobManager.js';
+
+/** How long a new job is watched for early output or failure. */
+export const JOB_STARTUP_WAIT_MS = 1000;
+const DEFAULT_WAIT_SECONDS = 60;
+const MAX_WAIT_SECONDS = 600;
+const JOB_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+// Matches nothing, to wait until a new job exits or the startup wait is over.
+const NEVER_MATCHES = /(?!)/;
+
+// --- Parameters ---
+
+export interface StartBackgroundJobToolParams {
+  /**
+   * The name to refer to the job by
+   */
+  name: string;
+
+  /**
+   * The command to run as `bash -c <command>`
+   */
+  command: string;
+
+  /**
+   * A brief description of the command for the user (optional)
+   */
+  description?: string;
+
+  /**
+   * The workspace directory to run the command in (optional)
+   */
+  directory?: string;
+}
+
+export interface ReadBackgroundJobToolParams {
+  /**
+   * The name of the job
+   */
+  name: string;
+
+  /**
+   * The offset in the output to read from (optional, defaults to 0)
+   */
+  offset?: number;
+}
+
+export interface WaitForBackgroundJobToolParams {
+  /**
+   * The name of the job
+   */
+  name: string;
+
+  /**
+   * The regular expression to wait for in the output
+   */
+  pattern: string;
+
+  /**
+   * The offset in the output to search from (optional, defaults to 0)
+   */
+  offset?: number;
+
+  /**
+   * How long to wait, in seconds (optional, defaults to 60)
+   */
+  timeout_seconds?: number;
+}
+
+export interface KillBackgroundJobToolParams {
+  /**
+   * The name of the job
+   */
+  name: string;
+}
+
+const NAME_PROPERTY = {
+  description:
+    'The name of the background job, as given when it was started (e.g., "dev-server").',
+  type: 'string',
+};
+
+const OFFSET_PROPERTY = {
+  description:
+    'Optional: The offset in the output to start from (default: 0, the start of the output). Pass the "Next offset" of an earlier call to only get newer output.',
+  type: 'number',
+  minimum: 0,
+};
+
+// --- Helpers ---
+
+function validateName(name: string): string | null {
+  return JOB_NAME_PATTERN.test(name)
+    ? null
+    : `name may only contain letters, digits, '.', '_' and '-', got: ${name}`;
+}
+
+function validateJobExists(config: Config, name: string): string | null {
+  const names = config
+    .getBackgroundJobManager()
+    .list()
+    .map((job) => job.name);
+  return names.includes(name)
+    ? null
+    : `No background job named '${name}'. Jobs: ${names.length > 0 ? names.join(', ') : 'none'}.`;
+}
+
+function validateOffset(offset: number | undefined): string | null {
+  if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+    return `offset must be a non-negative integer, got: ${offset}`;
+  }
+  return null;
+}
+
+function formatJob(job: BackgroundJobInfo): string[] {
+  return [
+    `Job: ${job.name}`,
+    `Command: ${job.command}`,
+    `Status: ${describeJobStatus(job)}`,
+  ];
+}
+
+function formatOutput(result: BackgroundJobOutput, offset = 0): string[] {
+  const lines: string[] = [];
+  if (result.startOffset > offset) {
+    lines.push(
+      `(Output before offset ${result.startOffset} is not shown: it was dropped or is too long.)`,
+    );
+  }
+  lines.push(
+    `Output (offset ${result.startOffset} to ${result.nextOffset}):`,
+    result.output || '(empty)',
+    `Next offset: ${result.nextOffset}`,
+  );
+  if (result.nextOffset < result.job.outputLength) {
+    lines.push(
+      `More output is available. Read again from offset ${result.nextOffset}.`,
+    );
+  }
+  return lines;
+}
+
+// --- Invocations ---
+
+abstract class BackgroundJobToolInvocation<
+  TParams extends { name: string },
+> extends BaseToolInvocation<TParams, ToolResult> {
+  constructor(
+    protected readonly config: Config,
+    params: TParams,
+  ) {
+    super(params);
+  }
+
+  protected abstract run(signal: AbortSignal): Promise<ToolResult>;
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    try {
+      return await this.run(signal);
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      return {
+        llmContent: `Error with background job '${this.params.name}': ${errorMessage}`,
+        returnDisplay: `Error: ${errorMessage}`,
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.BACKGROUND_JOB_FAILURE,
+        },
+      };
+    }
+  }
+}
+
+class StartBackgroundJobToolInvocation extends BackgroundJobToolInvocation<StartBackgroundJobToolParams> {
+  constructor(
+    config: Config,
+    params: StartBackgroundJobToolParams,
+    private readonly allowlist: Set<string>,
+  ) {
+    super(config, params);
+  }
+
+  getDescription(): string {
+    let description = `${this.params.name}: ${this.params.command}`;
+    if (this.params.directory) {
+      description += ` [in ${this.params.directory}]`;
+    }
+    if (this.params.description) {
+      description += ` (${this.params.description.replace(/\n/g, ' ')})`;
+    }
+    return description;
+  }
+
+  async shouldConfirmExecute(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    const rootCommands = [
+      ...new Set(getCommandRoots(stripShellWrapper(this.params.command))),
+    ];
+    const commandsToConfirm = rootCommands.filter(
+      (command) => !this.allowlist.has(command),
+    );
+    if (commandsToConfirm.length === 0) {
+      return false;
+    }
+
+    const confirmationDetails: ToolExecuteConfirmationDetails = {
+      type: 'exec',
+      title: 'Confirm Background Job',
+      command: this.params.command,
+      rootCommand: commandsToConfirm.join(', '),
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          commandsToConfirm.forEach((command) => this.allowlist.add(command));
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  protected async run(signal: AbortSignal): Promise<ToolResult> {
+    const cwd = path.resolve(
+      this.config.getTargetDir(),
+      this.params.directory || '',
+    );
+    const manager = this.config.getBackgroundJobManager();
+    manager.start(
+      this.params.name,
+      stripShellWrapper(this.params.command),
+      cwd,
+    );
+    // Report commands that fail right away, and what the job printed first.
+    const result = await manager.waitFor(this.params.name, NEVER_MATCHES, {
+      timeoutMs: JOB_STARTUP_WAIT_MS,
+      signal,
+    });
+
+    const lines = [
+      ...formatJob(result.job),
+      `Directory: ${this.params.directory || '(root)'}`,
+      ...formatOutput(result),
+    ];
+    if (result.job.status === 'running') {
+      lines.push(
+        `The job keeps running in the background. Use ${ReadBackgroundJobTool.Name} or ${WaitForBackgroundJobTool.Name} with the next offset to follow its output, and ${KillBackgroundJobTool.Name} to stop it.`,
+      );
+    }
+    return {
+      llmContent: lines.join('\n'),
+      returnDisplay: `Job '${this.params.name}' ${describeJobStatus(result.job)}${result.output ? `\n${result.output}` : ''}`,
+    };
+  }
+}
+
+class ReadBackgroundJobToolInvocation extends BackgroundJobToolInvocation<ReadBackgroundJobToolParams> {
+  getDescription(): string {
+    return this.params.offset
+      ? `${this.params.name} from offset ${this.params.offset}`
+      : this.params.name;
+  }
+
+  protected async run(_signal: AbortSignal): Promise<ToolResult> {
+    const result = this.config
+      .getBackgroundJobManager()
+      .read(this.params.name, this.params.offset);
+    return {
+      llmContent: [
+        ...formatJob(result.job),
+        ...formatOutput(result, this.params.offset),
+      ].join('\n'),
+      returnDisplay: result.output || 'No new output',
+    };
+  }
+}
+
+class WaitForBackgroundJobToolInvocation extends BackgroundJobToolInvocation<WaitForBackgroundJobToolParams> {
+  getDescription(): string {
+    return `/${this.params.pattern}/ in ${this.params.name}`;
+  }
+
+  protected async run(signal: AbortSignal): Promise<ToolResult> {
+    const timeoutSeconds = this.params.timeout_seconds ?? DEFAULT_WAIT_SECONDS;
+    const result = await this.config
+      .getBackgroundJobManager()
+      .waitFor(this.params.name, new RegExp(this.params.pattern, 'm'), {
+        offset: this.params.offset,
+        timeoutMs: timeoutSeconds * 1000,
+        signal,
+      });
+
+    let summary: string;
+    if (result.match !== undefined) {
+      summary = `Found a match for /${this.params.pattern}/: ${result.match}`;
+    } else if (result.timedOut) {
+      summary = `No match for /${this.params.pattern}/ within ${timeoutSeconds} seconds.`;
+    } else if (result.job.status !== 'running') {
+      summary = `The job ${describeJobStatus(result.job)} without a match for /${this.params.pattern}/.`;
+    } else {
+      summary = `Stopped waiting for /${this.params.pattern}/ because the call was cancelled.`;
+    }
+    return {
+      llmContent: [
+        summary,
+        ...formatJob(result.job),
+        ...formatOutput(result, this.params.offset),
+      ].join('\n'),
+      returnDisplay: summary,
+    };
+  }
+}
+
+class KillBackgroundJobToolInvocation extends BackgroundJobToolInvocation<KillBackgroundJobToolParams> {
+  getDescription(): string {
+    return this.params.name;
+  }
+
+  protected async run(_signal: AbortSignal): Promise<ToolResult> {
+    const manager = this.config.getBackgroundJobManager();
+    const wasRunning = manager.get(this.params.name)?.status === 'running';
+    const job = await manager.kill(this.params.name);
+    const summary = wasRunning
+      ? `Stopped background job '${job.name}'.`
+      : `Background job '${job.name}' was not running: it ${describeJobStatus(job)}.`;
+    return {
+      llmContent: [summary, ...formatJob(job)].join('\n'),
+      returnDisplay: summary,
+    };
+  }
+}
+
+// --- Tools ---
+
+export class StartBackgroundJobTool extends BaseDeclarativeTool<
+  StartBackgroundJobToolParams,
+  ToolResult
+> {
+  static readonly Name = 'start_background_job';
+  private readonly allowlist = new Set<string>();
+
+  constructor(private readonly config: Config) {
+    super(
+      StartBackgroundJobTool.Name,
+      'StartBackgroundJob',
+      `Starts a long-running command, such as a dev server, file watcher or test runner in watch mode, as a named job in the background, as \`bash -c <command>\`. Returns right away with the first output of the job. The output of the job is kept, so that it can be read later with ${ReadBackgroundJobTool.Name} or awaited with ${WaitForBackgroundJobTool.Name}, and the job can be stopped with ${KillBackgroundJobTool.Name}. Jobs are stopped when the session ends. Use this instead of starting background processes with \`&\` in ${ShellTool.Name}.`,
+      Icon.Terminal,
+      {
+        properties: {
+          name: {
+            description:
+              'A short name for the job, to refer to it later (e.g., "dev-server"). May contain letters, digits, ".", "_" and "-". A job that has ended can be replaced by a new job with the same name.',
+            type: 'string',
+          },
+          command: {
+            description:
+              'Exact bash command to run as `bash -c <command>`. Do not add `&`.',
+            type: 'string',
+          },
+          description: {
+            description:
+              'Brief description of the command for the user. Be specific and concise. Ideally a single sentence.',
+            type: 'string',
+          },
+          directory: {
+            description:
+              '(OPTIONAL) Directory to run the command in, if not the project root directory. Must be the name of a workspace directory.',
+            type: 'string',
+          },
+        },
+        required: ['name', 'command'],
+        type: 'object',
+      },
+      false, // output is not markdown
+    );
+  }
+
+  validateToolParams(params: StartBackgroundJobToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+    const nameError = validateName(params.name);
+    if (nameError) {
+      return nameError;
+    }
+    const command = stripShellWrapper(params.command);
+    if (!command.trim()) {
+      return 'Command cannot be empty.';
+    }
+    const commandCheck = isCommandAllowed(command, this.config);
+    if (!commandCheck.allowed) {
+      return commandCheck.reason ?? `Command is not allowed: ${command}`;
+    }
+    if (getCommandRoots(command).length === 0) {
+      return 'Could not identify command root to obtain permission from user.';
+    }
+    if (
+      this.config.getBackgroundJobManager().get(params.name)?.status ===
+      'running'
+    ) {
+      return `Background job '${params.name}' is already running. Stop it first or choose another name.`;
+    }
+    if (params.directory) {
+      if (path.isAbsolute(params.directory)) {
+        return 'Directory cannot be absolute. Please refer to workspace directories by their name.';
+      }
+      const matchingDirs = this.config
+        .getWorkspaceContext()
+        .getDirectories()
+        .filter((dir) => path.basename(dir) === params.directory);
+      if (matchingDirs.length === 0) {
+        return `Directory '${params.directory}' is not a registered workspace directory.`;
+      }
+      if (matchingDirs.length > 1) {
+        return `Directory name '${params.directory}' is ambiguous as it matches multiple workspace directories.`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: StartBackgroundJobToolParams,
+  ): ToolInvocation<StartBackgroundJobToolParams, ToolResult> {
+    return new StartBackgroundJobToolInvocation(
+      this.config,
+      params,
+      this.allowlist,
+    );
+  }
+}
+
+export class ReadBackgroundJobTool extends BaseDeclarativeTool<
+  ReadBackgroundJobToolParams,
+  ToolResult
+> {
+  static readonly Name = 'read_background_job';
+
+  constructor(private readonly config: Config) {
+    super(
+      ReadBackgroundJobTool.Name,
+      'ReadBackgroundJob',
+      'Reads the output of a background job, stdout and stderr in the order they were written, from an offset. Returns the status of the job, the output and the offset to read newer output from next time.',
+      Icon.Terminal,
+      {
+        properties: {
+          name: NAME_PROPERTY,
+          offset: OFFSET_PROPERTY,
+        },
+        required: ['name'],
+        type: 'object',
+      },
+      false, // output is not markdown
+    );
+  }
+
+  isReadOnly(_params: ReadBackgroundJobToolParams): boolean {
+    return true;
+  }
+
+  validateToolParams(params: ReadBackgroundJobToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+    return (
+      validateJobExists(this.config, params.name) ??
+      validateOffset(params.offset)
+    );
+  }
+
+  protected createInvocation(
+    params: ReadBackgroundJobToolParams,
+  ): ToolInvocation<ReadBackgroundJobToolParams, ToolResult> {
+    return new ReadBackgroundJobToolInvocation(this.config, params);
+  }
+}
+
+export class WaitForBackgroundJobTool extends BaseDeclarativeTool<
+  WaitForBackgroundJobToolParams,
+  ToolResult
+> {
+  static readonly Name = 'wait_for_background_job';
+
+  constructor(private readonly config: Config) {
+    super(
+      WaitForBackgroundJobTool.Name,
+      'WaitForBackgroundJob',
+      'Waits until the output of a background job matches a regular expression, e.g. until a dev server reports that it is listening or a watcher finishes a build. Also returns when the job exits or the timeout expires. Returns the match, the status of the job, the output up to the match and the offset to continue from.',
+      Icon.Terminal,
+      {
+        properties: {
+          name: NAME_PROPERTY,
+          pattern: {
+            description:
+              "The regular expression (JavaScript syntax) to search for in the output (e.g., 'listening on|ready in', 'error'). '^' and '$' match at line boundaries.",
+            type: 'string',
+          },
+          offset: {
+            ...OFFSET_PROPERTY,
+            description:
+              'Optional: The offset in the output to search from (default: 0, the start of the output). Pass the "Next offset" of an earlier call to only match newer output.',
+          },
+          timeout_seconds: {
+            description: `Optional: How long to wait for a match, in seconds (default: ${DEFAULT_WAIT_SECONDS}, max: ${MAX_WAIT_SECONDS}).`,
+            type: 'number',
+            minimum: 1,
+            maximum: MAX_WAIT_SECONDS,
+          },
+        },
+        required: ['name', 'pattern'],
+        type: 'object',
+      },
+      false, // output is not markdown
+    );
+  }
+
+  isReadOnly(_params: WaitForBackgroundJobToolParams): boolean {
+    return true;
+  }
+
+  validateToolParams(params: WaitForBackgroundJobToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+    try {
+      new RegExp(params.pattern);
+    } catch (error) {
+      return `Invalid regular expression pattern: ${params.pattern}. Error: ${getErrorMessage(error)}`;
+    }
+    if (
+      params.timeout_seconds !== undefined &&
+      (params.timeout_seconds < 1 || params.timeout_seconds > MAX_WAIT_SECONDS)
+    ) {
+      return `timeout_seconds must be between 1 and ${MAX_WAIT_SECONDS}, got: ${params.timeout_seconds}`;
+    }
+    return (
+      validateJobExists(this.config, params.name) ??
+      validateOffset(params.offset)
+    );
+  }
+
+  protected createInvocation(
+    params: WaitForBackgroundJobToolParams,
+  ): ToolInvocation<WaitForBackgroundJobToolParams, ToolResult> {
+    return new WaitForBackgroundJobToolInvocation(this.config, params);
+  }
+}
+
+export class KillBackgroundJobTool extends BaseDeclarativeTool<
+  KillBackgroundJobToolParams,
+  ToolResult
+> {
+  static readonly Name = 'kill_background_job';
+
+  constructor(private readonly config: Config) {
+    super(
+      KillBackgroundJobTool.Name,
+      'KillBackgroundJob',
+      'Stops a background job and every process it started. Its output can still be read afterwards.',
+      Icon.Terminal,
+      {
+        properties: {
+          name: NAME_PROPERTY,
+        },
+        required: ['name'],
+        type: 'object',
+      },
+      false, // output is not markdown
+    );
+  }
+
+  validateToolParams(params: KillBackgroundJobToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+    return validateJobExists(this.config, params.name);
+  }
+
+  protected createInvocation(
+    params: KillBackgroundJobToolParams,
+  ): ToolInvocation<KillBackgroundJobToolParams, ToolResult> {
+    return new KillBackgroundJobToolInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_SUBAGENT_TOOLS,
+  DelegateTaskTool,
+  DelegateTaskToolParams,
+} from './delegate-task.js';
+import { Config } from '../config/config.js';
+import { ToolRegistry } from './tool-registry.js';
+import { ToolErrorType } from './tool-error.js';
+import {
+  ContextState,
+  RunOptions,
+  SubAgentScope,
+  SubagentProfile,
+  SubagentTerminateMode,
+} from '../core/subagent.js';
+import { SubagentProgressDisplay, ToolConfirmationOutcome } from './tools.js';
+
+vi.mock('../core/subagent.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../core/subagent.js')>();
+  return {
+    ...actual,
+    SubAgentScope: { create: vi.fn() },
+  };
+});
+
+describe('DelegateTaskTool', () => {
+  const registeredTools = new Set([...DEFAULT_SUBAGENT_TOOLS, 'write_file']);
+  const toolRegistry = {
+    getTool: vi.fn((name: string) =>
+      registeredTools.has(name)
+        ? {
+            build: () => ({ getDescription: () => `describe ${name}` }),
+          }
+        : undefined,
+    ),
+  } as unknown as ToolRegistry;
+  const reviewer: SubagentProfile = {
+    name: 'reviewer',
+    description: 'Reviews code changes',
+    systemPrompt: 'You review code.',
+    tools: ['read_file', 'write_file'],
+    model: 'review-model',
+    temp: 0.2,
+    max_turns: 8,
+    outputs: { review: 'The review comments' },
+  };
+  const config = {
+    getModel: () => 'main-model',
+    getToolRegistry: async () => toolRegistry,
+    getSubagentProfiles: () => [reviewer],
+    getSubagentProfile: (name: string) =>
+      name === reviewer.name ? reviewer : undefined,
+  } as unknown as Config;
+
+  let tool: DelegateTaskTool;
+  let runNonInteractive: ReturnType<typeof vi.fn>;
+  let scopeOutput: SubAgentScope['output'];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tool = new DelegateTaskTool(config);
+    scopeOutput = {
+      emitted_vars: { result: 'Found 3 callers' },
+      terminate_reason: SubagentTerminateMode.GOAL,
+    };
+    runNonInteractive = vi.fn(
+      async (_context: ContextState, options: RunOptions) => {
+        const request = {
+          callId: 'call-1',
+          name: 'glob',
+          args: { pattern: '**/*.ts' },
+          isClientInitiated: true,
+          prompt_id: 'prompt-1',
+        };
+        options.onToolCallStart?.(request);
+        options.onToolCallEnd?.(request, {
+          callId: 'call-1',
+          responseParts: 'a.ts',
+          resultDisplay: 'Found 1 file',
+          error: undefined,
+          errorType: undefined,
+        });
+      },
+    );
+    vi.mocked(SubAgentScope.create).mockImplementation(
+      async () =>
+        ({
+          output: scopeOutput,
+          runNonInteractive,
+        }) as unknown as SubAgentScope,
+    );
+  });
+
+  describe('build', () => {
+    it('rejects an empty task', () => {
+      expect(() => tool.build({ task: '  ' })).toThrow(
+        "The 'task' parameter cannot be empty.",
+      );
+    });
+
+    it('rejects delegating to itself', () => {
+      expect(() =>
+        tool.build({ task: 'Do it', tools: [DelegateTaskTool.Name] }),
+      ).toThrow(`A subagent cannot use '${DelegateTaskTool.Name}' itself.`);
+    });
+
+    it('rejects unknown agent profiles', () => {
+      expect(() => tool.build({ task: 'Do it', agent: 'missing' })).toThrow(
+        "Unknown agent profile 'missing'. Available profiles: reviewer.",
+      );
+    });
+
+    it('rejects a non-positive turn budget', () => {
+      expect(() => tool.build({ task: 'Do it', max_turns: 0 })).toThrow(
+        "The 'max_turns' parameter must be at least 1.",
+      );
+    });
+  });
+
+  it('lists the available agent profiles in its description', () => {
+    expect(tool.description).toContain('- reviewer: Reviews code changes');
+  });
+
+  describe('shouldConfirmExecute', () => {
+    it('does not confirm read-only delegations', async () => {
+      const invocation = tool.build({ task: 'Find callers' });
+      expect(
+        await invocation.shouldConfirmExecute(new AbortController().signal),
+      ).toBe(false);
+    });
+
+    it('confirms delegations that grant other tools', async () => {
+      const invocation = tool.build({
+        task: 'Fix the bug',
+        tools: ['read_file', 'write_file'],
+      });
+      const details = await invocation.shouldConfirmExecute(
+        new AbortController().signal,
+      );
+      expect(details).toMatchObject({
+        type: 'info',
+        title: 'Confirm Task Delegation',
+      });
+      expect(details && 'prompt' in details && details.prompt).toContain(
+        'write_file',
+      );
+    });
+
+    it('only skips confirmation for the same tools after always allowing', async () => {
+      const signal = new AbortController().signal;
+      const details = await tool
+        .build({ task: 'Fix the bug', tools: ['write_file', 'read_file'] })
+        .shouldConfirmExecute(signal);
+      await (
+        details as { onConfirm: (o: ToolConfirmationOutcome) => Promise<void> }
+      ).onConfirm(ToolConfirmationOutcome.ProceedAlways);
+
+      expect(
+        await tool
+          .build({ task: 'Fix another bug', tools: ['write_file'] })
+          .shouldConfirmExecute(signal),
+      ).toBe(false);
+      expect(
+        await tool
+          .build({ task: 'Run the tests', tools: ['run_shell_command'] })
+          .shouldConfirmExecute(signal),
+      ).not.toBe(false);
+      expect(
+        await new DelegateTaskTool(config)
+          .build({ task: 'Fix the bug', tools: ['write_file'] })
+          .shouldConfirmExecute(signal),
+      ).not.toBe(false);
+    });
+  });
+
+  describe('execute', () => {
+    it('runs the subagent and returns its outputs', async () => {
+      const params: DelegateTaskToolParams = {
+        task: 'Find the callers of foo()',
+        max_turns: 5,
+        outputs: [{ name: 'callers', description: 'The callers of foo()' }],
+      };
+      const updateOutput = vi.fn();
+      const signal = new AbortController().signal;
+
+      const result = await tool.build(params).execute(signal, updateOutput);
+
+      expect(SubAgentScope.create).toHaveBeenCalledWith(
+        'delegate',
+        config,
+        expect.objectContaining({ systemPrompt: expect.any(String) }),
+        expect.objectContaining({ model: 'main-model' }),
+        { max_turns: 5, max_time_minutes: 10 },
+        { tools: [...DEFAULT_SUBAGENT_TOOLS] },
+        { outputs: { callers: 'The callers of foo()' } },
+      );
+      const context: ContextState = runNonInteractive.mock.calls[0][0];
+      expect(context.get('task')).toBe(params.task);
+      expect(runNonInteractive.mock.calls[0][1].signal).toBe(signal);
+
+      expect(JSON.parse(result.llmContent as string)).toEqual({
+        emitted_vars: { result: 'Found 3 callers' },
+        terminate_reason: 'GOAL',
+      });
+      expect(result.error).toBeUndefined();
+      const display = result.returnDisplay as SubagentProgressDisplay;
+      expect(display.terminateReason).toBe('GOAL');
+      expect(display.toolCalls).toEqual([
+        {
+          callId: 'call-1',
+          name: 'glob',
+          description: 'describe glob',
+          status: 'success',
+          resultDisplay: 'Found 1 file',
+        },
+      ]);
+    });
+
+    it('streams subagent tool calls as they start and finish', async () => {
+      const updateOutput = vi.fn();
+
+      await tool
+        .build({ task: 'Find callers' })
+        .execute(new AbortController().signal, updateOutput);
+
+      expect(updateOutput).toHaveBeenCalledTimes(2);
+      expect(updateOutput.mock.calls[0][0].toolCalls[0].status).toBe(
+        'executing',
+      );
+      expect(updateOutput.mock.calls[1][0].toolCalls[0].status).toBe('success');
+    });
+
+    it('asks for a single result report when no outputs are declared', async () => {
+      await tool
+        .build({ task: 'Find callers' })
+        .execute(new AbortController().signal);
+
+      const outputConfig = vi.mocked(SubAgentScope.create).mock.calls[0][6];
+      expect(Object.keys(outputConfig!.outputs)).toEqual(['result']);
+    });
+
+    it('runs the task with an agent profile', async () => {
+      await tool
+        .build({ task: 'Review the diff', agent: 'reviewer' })
+        .execute(new AbortController().signal);
+
+      expect(SubAgentScope.create).toHaveBeenCalledWith(
+        'reviewer',
+        config,
+        { systemPrompt: 'You review code.\n\nTask:\n${task}' },
+        { model: 'review-model', temp: 0.2, top_p: 1 },
+        { max_turns: 8, max_time_minutes: 10 },
+        { tools: ['read_file', 'write_file'] },
+        { outputs: { review: 'The review comments' } },
+      );
+    });
+
+    it('confirms profiles that grant other tools', async () => {
+      const details = await tool
+        .build({ task: 'Review the diff', agent: 'reviewer' })
+        .shouldConfirmExecute(new AbortController().signal);
+
+      expect(details && 'prompt' in details && details.prompt).toContain(
+        'write_file',
+      );
+    });
+
+    it('does not let profiles grant delegation to subagents', async () => {
+      const lead: SubagentProfile = {
+        name: 'lead',
+        systemPrompt: 'You lead.',
+        tools: ['read_file', DelegateTaskTool.Name],
+      };
+      const leadTool = new DelegateTaskTool({
+        ...config,
+        getSubagentProfile: () => lead,
+      } as unknown as Config);
+      const params = { task: 'Plan the work', agent: 'lead' };
+
+      await leadTool.build(params).execute(new AbortController().signal);
+
+      expect(leadTool.isReadOnly(params)).toBe(true);
+      expect(vi.mocked(SubAgentScope.create).mock.calls[0][5]).toEqual({
+        tools: ['read_file'],
+      });
+    });
+
+    it('returns an error for tools that are not registered', async () => {
+      const result = await tool
+        .build({ task: 'Do it', tools: ['missing_tool'] })
+        .execute(new AbortController().signal);
+
+      expect(result.error?.type).toBe(ToolErrorType.INVALID_TOOL_PARAMS);
+      expect(result.llmContent).toContain('missing_tool');
+      expect(SubAgentScope.create).not.toHaveBeenCalled();
+    });
+
+    it('returns an error when the subagent fails', async () => {
+      vi.mocked(SubAgentScope.create).mockRejectedValue(
+        new Error('Tool "x" requires user confirmation'),
+      );
+
+      const result = await tool
+        .build({ task: 'Do it' })
+        .execute(new AbortController().signal);
+
+      expect(result.error?.type).toBe(ToolErrorType.UNHANDLED_EXCEPTION);
+      expect(result.llmContent).toContain('requires user confirmation');
+      expect(
+        (result.returnDisplay as SubagentProgressDisplay).terminateReason,
+      ).toBe(SubagentTerminateMode.ERROR);
+    });
+  });
+});
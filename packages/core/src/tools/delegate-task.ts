@@ -0,0 +1,466 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Icon,
+  SubagentProgressDisplay,
+  SubagentToolCallDisplay,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolInvocation,
+  ToolResult,
+  ToolResultDisplay,
+} from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { Config } from '../config/config.js';
+import { ToolRegistry } from './tool-registry.js';
+import {
+  ContextState,
+  SubAgentScope,
+  SubagentProfile,
+  SubagentTerminateMode,
+} from '../core/subagent.js';
+import { ToolCallRequestInfo, ToolCallResponseInfo } from '../core/turn.js';
+
+const DEFAULT_MAX_TURNS = 20;
+const DEFAULT_MAX_TIME_MINUTES = 10;
+const SUBAGENT_NAME = 'delegate';
+
+/**
+ * Tools the subagent gets when the caller does not name any. They are all
+ * read-only, so delegating with them does not need user confirmation. The
+ * names are spelled out because the tool modules import the config, which
+ * imports this module, so their classes may not be defined yet.
+ */
+export const DEFAULT_SUBAGENT_TOOLS: readonly string[] = [
+  'list_directory',
+  'read_file',
+  'search_file_content',
+  'glob',
+  'read_many_files',
+];
+
+const DEFAULT_OUTPUT: DelegateTaskOutput = {
+  name: 'result',
+  description:
+    'A concise report of the outcome of the task, including every finding the caller needs.',
+};
+
+const TASK_PLACEHOLDER = '${task}';
+
+const SUBAGENT_SYSTEM_PROMPT = `You are a focused subagent. The main agent has delegated a single, self-contained task to you.
+Complete the task using only the tools available to you, then report back.
+
+Task:
+${TASK_PLACEHOLDER}`;
+
+export interface DelegateTaskOutput {
+  /**
+   * The name of the variable the subagent must emit.
+   */
+  name: string;
+
+  /**
+   * What the variable should contain.
+   */
+  description: string;
+}
+
+/**
+ * Parameters for the DelegateTaskTool
+ */
+export interface DelegateTaskToolParams {
+  /**
+   * Complete, self-contained instructions for the subagent
+   */
+  task: string;
+
+  /**
+   * Name of a subagent profile to run the task with (optional)
+   */
+  agent?: string;
+
+  /**
+   * Names of the tools the subagent may use (optional, defaults to read-only tools)
+   */
+  tools?: string[];
+
+  /**
+   * Maximum number of model turns (optional)
+   */
+  max_turns?: number;
+
+  /**
+   * Maximum wall-clock time in minutes (optional)
+   */
+  max_time_minutes?: number;
+
+  /**
+   * Variables the subagent must emit before finishing (optional)
+   */
+  outputs?: DelegateTaskOutput[];
+}
+
+/**
+ * Returns the tools a delegation explicitly grants, from its parameters or
+ * its profile, without `delegate_task` so that subagents cannot delegate in
+ * turn.
+ */
+function getGrantedTools(
+  params: DelegateTaskToolParams,
+  profile: SubagentProfile | undefined,
+): string[] | undefined {
+  return (params.tools ?? profile?.tools)?.filter(
+    (name) => name !== DelegateTaskTool.Name,
+  );
+}
+
+class DelegateTaskToolInvocation extends BaseToolInvocation<
+  DelegateTaskToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: DelegateTaskToolParams,
+    private readonly allowlist: Set<string>,
+  ) {
+    super(params);
+  }
+
+  private get profile(): SubagentProfile | undefined {
+    return this.params.agent
+      ? this.config.getSubagentProfile(this.params.agent)
+      : undefined;
+  }
+
+  getDescription(): string {
+    const firstLine = this.params.task.trim().split('\n')[0];
+    const description =
+      firstLine.length > 100 ? `${firstLine.substring(0, 97)}...` : firstLine;
+    return this.params.agent
+      ? `(${this.params.agent}) ${description}`
+      : description;
+  }
+
+  async shouldConfirmExecute(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    // The subagent runs its tools without asking, so only delegations that
+    // grant more than read-only access are confirmed up front.
+    // "Always allow" only covers later delegations with the same tools.
+    const elevatedTools = (getGrantedTools(this.params, this.profile) ?? [])
+      .filter((name) => !DEFAULT_SUBAGENT_TOOLS.includes(name))
+      .sort();
+    const allowlistKey = elevatedTools.join(',');
+    if (elevatedTools.length === 0 || this.allowlist.has(allowlistKey)) {
+      return false;
+    }
+
+    const confirmationDetails: ToolCallConfirmationDetails = {
+      type: 'info',
+      title: 'Confirm Task Delegation',
+      prompt: `Run a subagent that may use ${elevatedTools.join(', ')} without further confirmation, to: ${this.params.task}`,
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.allowlist.add(allowlistKey);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: ToolResultDisplay) => void,
+  ): Promise<ToolResult> {
+    const profile = this.profile;
+    const toolRegistry = await this.config.getToolRegistry();
+    const tools =
+      getGrantedTools(this.params, profile) ??
+      DEFAULT_SUBAGENT_TOOLS.filter((name) => toolRegistry.getTool(name));
+    const unknownTools = tools.filter((name) => !toolRegistry.getTool(name));
+    if (unknownTools.length > 0) {
+      const message = `Unknown tools requested for the subagent: ${unknownTools.join(', ')}`;
+      return {
+        llmContent: `Error: ${message}`,
+        returnDisplay: message,
+        error: {
+          message,
+          type: ToolErrorType.INVALID_TOOL_PARAMS,
+        },
+      };
+    }
+
+    let outputs: Record<string, string> = {};
+    if (this.params.outputs) {
+      for (const output of this.params.outputs) {
+        outputs[output.name] = output.description;
+      }
+    } else if (profile?.outputs && Object.keys(profile.outputs).length > 0) {
+      outputs = { ...profile.outputs };
+    } else {
+      outputs[DEFAULT_OUTPUT.name] = DEFAULT_OUTPUT.description;
+    }
+
+    let systemPrompt = profile?.systemPrompt ?? SUBAGENT_SYSTEM_PROMPT;
+    if (!systemPrompt.includes(TASK_PLACEHOLDER)) {
+      systemPrompt += `\n\nTask:\n${TASK_PLACEHOLDER}`;
+    }
+
+    const subagentName = profile?.name ?? SUBAGENT_NAME;
+    const display: SubagentProgressDisplay = {
+      subagentName,
+      task: this.params.task,
+      toolCalls: [],
+    };
+    const publish = () =>
+      updateOutput?.({ ...display, toolCalls: [...display.toolCalls] });
+
+    const onToolCallStart = (request: ToolCallRequestInfo) => {
+      display.toolCalls.push({
+        callId: request.callId,
+        name: request.name,
+        description: this.describeToolCall(toolRegistry, request),
+        status: 'executing',
+      });
+      publish();
+    };
+    const onToolCallEnd = (
+      request: ToolCallRequestInfo,
+      response: ToolCallResponseInfo,
+    ) => {
+      display.toolCalls = display.toolCalls.map(
+        (call): SubagentToolCallDisplay =>
+          call.callId === request.callId
+            ? {
+                ...call,
+                status: response.error ? 'error' : 'success',
+                resultDisplay:
+                  typeof response.resultDisplay === 'string'
+                    ? response.resultDisplay
+                    : undefined,
+              }
+            : call,
+      );
+      publish();
+    };
+
+    let scope: SubAgentScope;
+    try {
+      scope = await SubAgentScope.create(
+        subagentName,
+        this.config,
+        { systemPrompt },
+        {
+          model: profile?.model ?? this.config.getModel(),
+          temp: profile?.temp ?? 0,
+          top_p: profile?.top_p ?? 1,
+        },
+        {
+          max_turns:
+            this.params.max_turns ?? profile?.max_turns ?? DEFAULT_MAX_TURNS,
+          max_time_minutes:
+            this.params.max_time_minutes ??
+            profile?.max_time_minutes ??
+            DEFAULT_MAX_TIME_MINUTES,
+        },
+        { tools },
+        { outputs },
+      );
+
+      const context = new ContextState();
+      context.set('task', this.params.task);
+      await scope.runNonInteractive(context, {
+        signal,
+        onToolCallStart,
+        onToolCallEnd,
+      });
+    } catch (error) {
+      const message = `Subagent failed: ${getErrorMessage(error)}`;
+      display.terminateReason = SubagentTerminateMode.ERROR;
+      return {
+        llmContent: `Error: ${message}`,
+        returnDisplay: { ...display },
+        error: {
+          message,
+          type: ToolErrorType.UNHANDLED_EXCEPTION,
+        },
+      };
+    }
+
+    display.terminateReason = scope.output.terminate_reason;
+    const result = {
+      emitted_vars: scope.output.emitted_vars,
+      terminate_reason: scope.output.terminate_reason,
+    };
+    return {
+      llmContent: JSON.stringify(result, null, 2),
+      returnDisplay: { ...display },
+      summary: `Subagent finished with ${scope.output.terminate_reason} after ${display.toolCalls.length} tool call(s)`,
+    };
+  }
+
+  private describeToolCall(
+    toolRegistry: ToolRegistry,
+    request: ToolCallRequestInfo,
+  ): string {
+    const tool = toolRegistry.getTool(request.name);
+    if (!tool) {
+      return '';
+    }
+    try {
+      return tool.build(request.args).getDescription();
+    } catch {
+      // Invalid arguments surface as an error once the call completes.
+      return '';
+    }
+  }
+}
+
+function describeProfiles(profiles: SubagentProfile[]): string {
+  if (profiles.length === 0) {
+    return '';
+  }
+  const lines = profiles.map((profile) =>
+    profile.description
+      ? `- ${profile.name}: ${profile.description}`
+      : `- ${profile.name}`,
+  );
+  return `\n\nAvailable agent profiles (pass one as 'agent'):\n${lines.join('\n')}`;
+}
+
+/**
+ * Lets the main agent hand a self-contained task to a subagent with its own
+ * chat, a restricted tool list and a turn/time budget.
+ */
+export class DelegateTaskTool extends BaseDeclarativeTool<
+  DelegateTaskToolParams,
+  ToolResult
+> {
+  static readonly Name: string = 'delegate_task';
+  private readonly allowlist = new Set<string>();
+
+  constructor(private readonly config: Config) {
+    super(
+      DelegateTaskTool.Name,
+      'DelegateTask',
+      `Delegates a self-contained task to a subagent that runs in its own conversation and returns only its declared outputs. Use this for focused research or multi-step investigations whose intermediate results would otherwise clutter the main conversation.
+
+The subagent cannot see the current conversation or ask the user questions, so 'task' must contain every detail it needs. By default it may only use read-only tools (${DEFAULT_SUBAGENT_TOOLS.join(', ')}). The result is a JSON object with 'emitted_vars' (the declared outputs, or a single 'result' report) and 'terminate_reason' (GOAL, MAX_TURNS, TIMEOUT or ERROR).${describeProfiles(config.getSubagentProfiles())}`,
+      Icon.Hammer,
+      {
+        properties: {
+          task: {
+            description:
+              'Complete, self-contained instructions for the subagent, including the goal and any relevant file paths or context.',
+            type: 'string',
+          },
+          agent: {
+            description:
+              "Optional: The name of a predefined agent profile to run the task with. The profile supplies the subagent's instructions, tools, model and budgets; explicitly passed arguments take precedence.",
+            type: 'string',
+          },
+          tools: {
+            description: `Optional: Names of the tools the subagent may use. Defaults to the read-only tools. Cannot include '${DelegateTaskTool.Name}'.`,
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+          },
+          max_turns: {
+            description: `Optional: Maximum number of model turns before the subagent is stopped. Defaults to ${DEFAULT_MAX_TURNS}.`,
+            type: 'number',
+          },
+          max_time_minutes: {
+            description: `Optional: Maximum running time in minutes before the subagent is stopped. Defaults to ${DEFAULT_MAX_TIME_MINUTES}.`,
+            type: 'number',
+          },
+          outputs: {
+            description: `Optional: Variables the subagent must emit before finishing. Defaults to a single '${DEFAULT_OUTPUT.name}' report.`,
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: {
+                  description: 'The variable name, e.g. "summary".',
+                  type: 'string',
+                },
+                description: {
+                  description: 'What the variable should contain.',
+                  type: 'string',
+                },
+              },
+              required: ['name', 'description'],
+            },
+          },
+        },
+        required: ['task'],
+        type: 'object',
+      },
+      true, // isOutputMarkdown
+      true, // canUpdateOutput
+    );
+  }
+
+  /**
+   * Validates the parameters for the tool.
+   */
+  validateToolParams(params: DelegateTaskToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+
+    if (!params.task || params.task.trim() === '') {
+      return "The 'task' parameter cannot be empty.";
+    }
+    if (
+      params.agent !== undefined &&
+      !this.config.getSubagentProfile(params.agent)
+    ) {
+      const available = this.config
+        .getSubagentProfiles()
+        .map((profile) => profile.name);
+      return `Unknown agent profile '${params.agent}'. Available profiles: ${available.length > 0 ? available.join(', ') : 'none'}.`;
+    }
+    if (params.tools?.includes(DelegateTaskTool.Name)) {
+      return `A subagent cannot use '${DelegateTaskTool.Name}' itself.`;
+    }
+    if (params.max_turns !== undefined && params.max_turns < 1) {
+      return "The 'max_turns' parameter must be at least 1.";
+    }
+    if (params.max_time_minutes !== undefined && params.max_time_minutes <= 0) {
+      return "The 'max_time_minutes' parameter must be greater than 0.";
+    }
+    return null;
+  }
+
+  /**
+   * Delegations are read-only when the subagent may only use the default
+   * read-only tools.
+   */
+  isReadOnly(params: DelegateTaskToolParams): boolean {
+    const profile = params.agent
+      ? this.config.getSubagentProfile(params.agent)
+      : undefined;
+    return (getGrantedTools(params, profile) ?? []).every((name) =>
+      DEFAULT_SUBAGENT_TOOLS.includes(name),
+    );
+  }
+
+  protected createInvocation(
+    params: DelegateTaskToolParams,
+  ): ToolInvocation<DelegateTaskToolParams, ToolResult> {
+    return new DelegateTaskToolInvocation(this.config, params, this.allowlist);
+  }
+}
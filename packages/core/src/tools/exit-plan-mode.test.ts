@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExitPlanModeTool, formatPlan } from './exit-plan-mode.js';
+import { ApprovalMode, Config } from '../config/config.js';
+import { ToolConfirmationOutcome } from './tools.js';
+
+describe('ExitPlanModeTool', () => {
+  const signal = new AbortController().signal;
+  const params = {
+    summary: 'Add a retry helper.',
+    steps: [
+      { description: 'Write the helper', files: ['src/retry.ts'] },
+      { description: 'Use it in the client' },
+    ],
+    risks: ['Retries may hide errors'],
+  };
+  let approvalMode: ApprovalMode;
+  let tool: ExitPlanModeTool;
+
+  beforeEach(() => {
+    approvalMode = ApprovalMode.PLAN;
+    tool = new ExitPlanModeTool({
+      getApprovalMode: () => approvalMode,
+      setApprovalMode: (mode: ApprovalMode) => {
+        approvalMode = mode;
+      },
+    } as unknown as Config);
+  });
+
+  it('formats the plan as markdown', () => {
+    expect(formatPlan(params)).toBe(
+      [
+        'Add a retry helper.',
+        '',
+        '1. Write the helper (`src/retry.ts`)',
+        '2. Use it in the client',
+        '',
+        '**Risks and open questions**',
+        '',
+        '- Retries may hide errors',
+      ].join('\n'),
+    );
+  });
+
+  it('rejects plans without steps', () => {
+    expect(() => tool.build({ summary: 'Nothing', steps: [] })).toThrow(
+      'params/steps must NOT have fewer than 1 items',
+    );
+  });
+
+  it('asks for approval in plan mode and switches modes on approval', async () => {
+    const invocation = tool.build(params);
+
+    const details = await invocation.shouldConfirmExecute(signal);
+    expect(details).toMatchObject({ type: 'plan', plan: formatPlan(params) });
+    if (details) {
+      await details.onConfirm(ToolConfirmationOutcome.ProceedAlways);
+    }
+    expect(approvalMode).toBe(ApprovalMode.AUTO_EDIT);
+
+    const result = await invocation.execute(signal);
+    expect(result.llmContent).toContain('The user approved the plan');
+    expect(result.llmContent).toContain('Edits are approved automatically.');
+  });
+
+  it('switches to the default mode when edits should be confirmed', async () => {
+    const details = await tool.build(params).shouldConfirmExecute(signal);
+    if (details) {
+      await details.onConfirm(ToolConfirmationOutcome.ProceedOnce);
+    }
+
+    expect(approvalMode).toBe(ApprovalMode.DEFAULT);
+  });
+
+  it('does not ask for approval outside plan mode', async () => {
+    approvalMode = ApprovalMode.DEFAULT;
+
+    expect(await tool.build(params).shouldConfirmExecute(signal)).toBe(false);
+  });
+
+  it('is always allowed in plan mode', () => {
+    expect(tool.isReadOnly(params)).toBe(true);
+  });
+});
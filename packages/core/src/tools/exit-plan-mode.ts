@@ -0,0 +1,219 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Icon,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolInvocation,
+  ToolResult,
+} from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { ApprovalMode, Config } from '../config/config.js';
+
+export interface PlanStep {
+  /**
+   * What the step does
+   */
+  description: string;
+
+  /**
+   * Files the step creates or modifies (optional)
+   */
+  files?: string[];
+}
+
+/**
+ * Parameters for the ExitPlanModeTool
+ */
+export interface ExitPlanModeToolParams {
+  /**
+   * A short overview of the approach
+   */
+  summary: string;
+
+  /**
+   * The ordered steps of the plan
+   */
+  steps: PlanStep[];
+
+  /**
+   * Risks and open questions (optional)
+   */
+  risks?: string[];
+}
+
+/**
+ * Renders a plan as markdown, for the approval dialog and the history.
+ */
+export function formatPlan(params: ExitPlanModeToolParams): string {
+  const lines = [params.summary.trim(), ''];
+  params.steps.forEach((step, i) => {
+    const files = step.files?.length
+      ? ` (${step.files.map((file) => `\`${file}\``).join(', ')})`
+      : '';
+    lines.push(`${i + 1}. ${step.description.trim()}${files}`);
+  });
+  if (params.risks?.length) {
+    lines.push('', '**Risks and open questions**', '');
+    lines.push(...params.risks.map((risk) => `- ${risk.trim()}`));
+  }
+  return lines.join('\n');
+}
+
+class ExitPlanModeToolInvocation extends BaseToolInvocation<
+  ExitPlanModeToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: ExitPlanModeToolParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return `Plan with ${this.params.steps.length} step${this.params.steps.length === 1 ? '' : 's'}`;
+  }
+
+  async shouldConfirmExecute(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() !== ApprovalMode.PLAN) {
+      return false;
+    }
+
+    return {
+      type: 'plan',
+      title: 'Approve Plan',
+      plan: formatPlan(this.params),
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        } else if (outcome === ToolConfirmationOutcome.ProceedOnce) {
+          this.config.setApprovalMode(ApprovalMode.DEFAULT);
+        }
+      },
+    };
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    const approvalMode = this.config.getApprovalMode();
+    if (approvalMode === ApprovalMode.PLAN) {
+      const message =
+        'The plan has not been approved, so plan mode is still active.';
+      return {
+        llmContent: `Error: ${message}`,
+        returnDisplay: message,
+        error: {
+          message,
+          type: ToolErrorType.PLAN_MODE_RESTRICTED,
+        },
+      };
+    }
+
+    const editApproval =
+      approvalMode === ApprovalMode.DEFAULT
+        ? 'The user will confirm each edit.'
+        : 'Edits are approved automatically.';
+    return {
+      llmContent: `The user approved the plan and plan mode has ended. ${editApproval} Implement the plan now, step by step.`,
+      returnDisplay: formatPlan(this.params),
+    };
+  }
+}
+
+/**
+ * Presents the plan made in plan mode to the user. Approving it ends plan
+ * mode, switching to the default or auto-edit approval mode.
+ */
+export class ExitPlanModeTool extends BaseDeclarativeTool<
+  ExitPlanModeToolParams,
+  ToolResult
+> {
+  static readonly Name: string = 'exit_plan_mode';
+
+  constructor(private readonly config: Config) {
+    super(
+      ExitPlanModeTool.Name,
+      'ExitPlanMode',
+      'Presents your implementation plan to the user for approval when plan mode is active. Call it once you have investigated the task with read-only tools and know what to change. If the user approves, plan mode ends and you can implement the plan; otherwise keep planning with their feedback. Do not use this tool outside of plan mode.',
+      Icon.LightBulb,
+      {
+        properties: {
+          summary: {
+            description:
+              'A short overview of the approach, in one or two sentences.',
+            type: 'string',
+          },
+          steps: {
+            description: 'The ordered steps of the plan.',
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              properties: {
+                description: {
+                  description: 'What the step does, in one sentence.',
+                  type: 'string',
+                },
+                files: {
+                  description:
+                    'Optional: The files the step creates or modifies.',
+                  type: 'array',
+                  items: { type: 'string' },
+                },
+              },
+              required: ['description'],
+            },
+          },
+          risks: {
+            description:
+              'Optional: Risks, trade-offs and open questions the user should know about before approving.',
+            type: 'array',
+            items: { type: 'string' },
+          },
+        },
+        required: ['summary', 'steps'],
+        type: 'object',
+      },
+    );
+  }
+
+  /**
+   * Validates the parameters for the tool.
+   */
+  validateToolParams(params: ExitPlanModeToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+
+    if (!params.summary || params.summary.trim() === '') {
+      return "The 'summary' parameter cannot be empty.";
+    }
+    return null;
+  }
+
+  /**
+   * Presenting a plan is how plan mode ends, so it is always allowed.
+   */
+  isReadOnly(_params: ExitPlanModeToolParams): boolean {
+    return true;
+  }
+
+  protected createInvocation(
+    params: ExitPlanModeToolParams,
+  ): ToolInvocation<ExitPlanModeToolParams, ToolResult> {
+    return new ExitPlanModeToolInvocation(this.config, params);
+  }
+}
@@ -6,7 +6,7 @@
 
 import fs from 'fs';
 import path from 'path';
-import { BaseTool, Icon, ToolResult } from './tools.js';
+import { BaseTool, Icon, ToolLocation, ToolResult } from './tools.js';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { makeRelative, shortenPath } from '../utils/paths.js';
 import { Config, DEFAULT_FILE_FILTERING_OPTIONS } from '../config/config.js';
@@ -173,6 +173,10 @@ export class LSTool extends BaseTool<LSToolParams, ToolResult> {
     return shortenPath(relativePath);
   }
 
+  override toolLocations(params: LSToolParams): ToolLocation[] {
+    return [{ path: params.path }];
+  }
+
   // Helper for consistent error formatting
   private errorResult(llmContent: string, returnDisplay: string): ToolResult {
     return {
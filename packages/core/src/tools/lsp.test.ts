@@ -0,0 +1,243 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs/promises';
+import os from 'os';
+import { Config } from '../config/config.js';
+import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+import { toFileUri } from '../lsp/lspClient.js';
+import { LspServerUnavailableError } from '../lsp/lspManager.js';
+import { ToolErrorType } from './tool-error.js';
+import {
+  LspDefinitionTool,
+  LspHoverTool,
+  LspReferencesTool,
+  LspRenamePreviewTool,
+  LspWorkspaceSymbolsTool,
+} from './lsp.js';
+
+describe('LSP tools', () => {
+  let tempRootDir: string;
+  let mainPath: string;
+  let utilPath: string;
+  const abortSignal = new AbortController().signal;
+
+  const mockClient = {
+    syncDocument: vi.fn(async (filePath: string) => toFileUri(filePath)),
+    request: vi.fn(),
+  };
+  const mockLspManager = {
+    getClientForFile: vi.fn(),
+    getClientsForWorkspace: vi.fn(),
+  };
+  const mockConfig = {
+    getTargetDir: () => tempRootDir,
+    getWorkspaceContext: () => createMockWorkspaceContext(tempRootDir),
+    getLspManager: () => mockLspManager,
+  } as unknown as Config;
+
+  const range = (line: number, start: number, end: number) => ({
+    start: { line, character: start },
+    end: { line, character: end },
+  });
+
+  beforeEach(async () => {
+    tempRootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lsp-tool-root-'));
+    mainPath = path.join(tempRootDir, 'main.ts');
+    utilPath = path.join(tempRootDir, 'util.ts');
+    await fs.writeFile(
+      mainPath,
+      "import { format } from './util';\n\nconsole.log(format(1), format(2));\n",
+    );
+    await fs.writeFile(
+      utilPath,
+      'export function format(value: number) {\n  return String(value);\n}\n',
+    );
+    vi.clearAllMocks();
+    mockLspManager.getClientForFile.mockResolvedValue(mockClient);
+    mockLspManager.getClientsForWorkspace.mockResolvedValue([mockClient]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempRootDir, { recursive: true, force: true });
+  });
+
+  it('rejects symbols that are not on the given line', async () => {
+    const tool = new LspDefinitionTool(mockConfig);
+    const result = await tool
+      .build({ file_path: 'main.ts', line: 1, symbol: 'missing' })
+      .execute(abortSignal);
+
+    expect(result.llmContent).toContain(
+      'Symbol "missing" not found on line 1 of main.ts.',
+    );
+    expect(result.error?.type).toBe(ToolErrorType.LSP_REQUEST_FAILURE);
+    expect(mockClient.request).not.toHaveBeenCalled();
+  });
+
+  it('validates lines and result limits', () => {
+    const tool = new LspReferencesTool(mockConfig);
+
+    expect(
+      tool.validateToolParams({ file_path: 'main.ts', line: 0, symbol: 'x' }),
+    ).toBe('params/line must be >= 1');
+    expect(
+      tool.validateToolParams({ file_path: 'main.ts', line: 1.5, symbol: 'x' }),
+    ).toBe('line must be a positive integer, got: 1.5');
+    expect(
+      tool.validateToolParams({
+        file_path: 'main.ts',
+        line: 1,
+        symbol: 'format',
+        maxResults: 500,
+      }),
+    ).toBe('params/maxResults must be <= 200');
+  });
+
+  it('finds definitions and formats them like grep output', async () => {
+    mockClient.request.mockResolvedValue([
+      {
+        targetUri: toFileUri(utilPath),
+        targetRange: range(0, 0, 2),
+        targetSelectionRange: range(0, 16, 22),
+      },
+    ]);
+    const tool = new LspDefinitionTool(mockConfig);
+
+    const result = await tool
+      .build({ file_path: 'main.ts', line: 3, symbol: 'format' })
+      .execute(abortSignal);
+
+    expect(mockClient.request).toHaveBeenCalledWith(
+      'textDocument/definition',
+      {
+        textDocument: { uri: toFileUri(mainPath) },
+        position: { line: 2, character: 12 },
+      },
+      abortSignal,
+    );
+    expect(result.llmContent).toBe(
+      'Found 1 definition of "format" (main.ts:L3):\n---\nFile: util.ts\nL1: export function format(value: number) {\n---',
+    );
+    expect(result.returnDisplay).toBe('Found 1 definition');
+  });
+
+  it('truncates references to maxResults', async () => {
+    mockClient.request.mockResolvedValue([
+      { uri: toFileUri(mainPath), range: range(2, 12, 18) },
+      { uri: toFileUri(mainPath), range: range(2, 23, 29) },
+      { uri: toFileUri(mainPath), range: range(0, 9, 15) },
+    ]);
+    const tool = new LspReferencesTool(mockConfig);
+
+    const result = await tool
+      .build({
+        file_path: 'util.ts',
+        line: 1,
+        symbol: 'format',
+        maxResults: 2,
+      })
+      .execute(abortSignal);
+
+    expect(mockClient.request.mock.calls[0][1]).toMatchObject({
+      context: { includeDeclaration: false },
+    });
+    expect(result.llmContent).toContain(
+      'Found 2 references to "format" (util.ts:L1) (showing first 2 of 3 total references)',
+    );
+    expect(result.returnDisplay).toBe('Found 2 references (truncated from 3)');
+  });
+
+  it('returns hover contents', async () => {
+    mockClient.request.mockResolvedValue({
+      contents: {
+        kind: 'markdown',
+        value: '```ts\nfunction format(value: number): string\n```',
+      },
+    });
+    const tool = new LspHoverTool(mockConfig);
+
+    const result = await tool
+      .build({ file_path: 'util.ts', line: 1, symbol: 'format' })
+      .execute(abortSignal);
+
+    expect(result.llmContent).toContain(
+      'function format(value: number): string',
+    );
+  });
+
+  it('previews a rename without modifying files', async () => {
+    mockClient.request.mockResolvedValue({
+      changes: {
+        [toFileUri(mainPath)]: [
+          { range: range(0, 9, 15), newText: 'formatValue' },
+          { range: range(2, 12, 18), newText: 'formatValue' },
+          { range: range(2, 23, 29), newText: 'formatValue' },
+        ],
+        [toFileUri(utilPath)]: [
+          { range: range(0, 16, 22), newText: 'formatValue' },
+        ],
+      },
+    });
+    const tool = new LspRenamePreviewTool(mockConfig);
+
+    const result = await tool
+      .build({
+        file_path: 'util.ts',
+        line: 1,
+        symbol: 'format',
+        new_name: 'formatValue',
+      })
+      .execute(abortSignal);
+
+    expect(result.llmContent).toContain('would change 3 lines in 2 files');
+    expect(result.llmContent).toContain(
+      'L3: console.log(formatValue(1), formatValue(2));',
+    );
+    expect(result.llmContent).toContain(
+      'L1: export function formatValue(value: number) {',
+    );
+    expect(await fs.readFile(utilPath, 'utf8')).toContain('function format(');
+  });
+
+  it('searches workspace symbols', async () => {
+    mockClient.request.mockResolvedValue([
+      {
+        name: 'format',
+        kind: 12,
+        location: { uri: toFileUri(utilPath), range: range(0, 16, 22) },
+      },
+    ]);
+    const tool = new LspWorkspaceSymbolsTool(mockConfig);
+
+    const result = await tool.build({ query: 'form' }).execute(abortSignal);
+
+    expect(mockLspManager.getClientsForWorkspace).toHaveBeenCalled();
+    expect(result.llmContent).toBe(
+      'Found 1 symbol for query "form":\n---\nFile: util.ts\nL1: Function format\n---',
+    );
+  });
+
+  it('reports language servers that fail to start', async () => {
+    mockLspManager.getClientForFile.mockRejectedValue(
+      new LspServerUnavailableError(
+        'Failed to start the typescript language server',
+      ),
+    );
+    const tool = new LspDefinitionTool(mockConfig);
+
+    const result = await tool
+      .build({ file_path: 'main.ts', line: 3, symbol: 'format' })
+      .execute(abortSignal);
+
+    expect(result.error).toEqual({
+      message: 'Failed to start the typescript language server',
+      type: ToolErrorType.LSP_SERVER_UNAVAILABLE,
+    });
+  });
+});
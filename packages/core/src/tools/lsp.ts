@@ -0,0 +1,786 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fsPromises from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Icon,
+  ToolInvocation,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { Config } from '../config/config.js';
+import { LspClient } from '../lsp/lspClient.js';
+import { LspServerUnavailableError } from '../lsp/lspManager.js';
+import {
+  LspHover,
+  LspLocation,
+  LspLocationLink,
+  LspMarkedString,
+  LspPosition,
+  LspSymbolInformation,
+  LspTextEdit,
+  LspWorkspaceEdit,
+  SYMBOL_KIND_NAMES,
+} from '../lsp/types.js';
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_RESULTS_LIMIT = 200;
+
+// --- Parameters ---
+
+/**
+ * Parameters that point at a symbol in a file.
+ */
+export interface LspPositionParams {
+  /**
+   * Path to the file, absolute or relative to the project root
+   */
+  file_path: string;
+
+  /**
+   * The 1-based line on which the symbol appears
+   */
+  line: number;
+
+  /**
+   * The symbol as written on the line, e.g. a function or variable name
+   */
+  symbol: string;
+}
+
+export interface LspReferencesToolParams extends LspPositionParams {
+  /**
+   * Whether to list the declaration along with the references (optional)
+   */
+  include_declaration?: boolean;
+
+  /**
+   * Maximum number of references to return (optional, defaults to 50)
+   */
+  maxResults?: number;
+}
+
+export interface LspWorkspaceSymbolsToolParams {
+  /**
+   * The symbol name, or part of it, to search for
+   */
+  query: string;
+
+  /**
+   * A file whose language server to query (optional)
+   */
+  file_path?: string;
+
+  /**
+   * Maximum number of symbols to return (optional, defaults to 50)
+   */
+  maxResults?: number;
+}
+
+export interface LspRenamePreviewToolParams extends LspPositionParams {
+  /**
+   * The new name of the symbol
+   */
+  new_name: string;
+}
+
+const POSITION_PROPERTIES = {
+  file_path: {
+    description:
+      'Path of the file containing the symbol, absolute or relative to the project root.',
+    type: 'string',
+  },
+  line: {
+    description: 'The 1-based line number on which the symbol appears.',
+    type: 'number',
+    minimum: 1,
+  },
+  symbol: {
+    description:
+      "The symbol exactly as written on that line (e.g., 'createServer'). Its first occurrence on the line is used.",
+    type: 'string',
+  },
+};
+
+const MAX_RESULTS_PROPERTY = {
+  description: `Optional: Maximum number of results to return (default: ${DEFAULT_MAX_RESULTS}, max: ${MAX_RESULTS_LIMIT}).`,
+  type: 'number',
+  minimum: 1,
+  maximum: MAX_RESULTS_LIMIT,
+};
+
+// --- Helpers ---
+
+interface ResolvedPosition {
+  filePath: string;
+  position: LspPosition;
+}
+
+/**
+ * A location in a file, with a 1-based line number.
+ */
+interface LineMatch {
+  filePath: string;
+  lineNumber: number;
+  /** Replaces the text of the line in the output. */
+  text?: string;
+}
+
+function resolveFilePath(config: Config, filePath: string): string {
+  const absolutePath = path.resolve(config.getTargetDir(), filePath);
+  const workspaceContext = config.getWorkspaceContext();
+  if (!workspaceContext.isPathWithinWorkspace(absolutePath)) {
+    throw new Error(
+      `Path validation failed: Attempted path "${filePath}" resolves outside the allowed workspace directories: ${workspaceContext.getDirectories().join(', ')}`,
+    );
+  }
+  return absolutePath;
+}
+
+async function resolvePosition(
+  config: Config,
+  params: LspPositionParams,
+): Promise<ResolvedPosition> {
+  const filePath = resolveFilePath(config, params.file_path);
+  const lines = (await fsPromises.readFile(filePath, 'utf8')).split(/\r?\n/);
+  const lineText = lines[params.line - 1];
+  if (lineText === undefined) {
+    throw new Error(
+      `Line ${params.line} is past the end of ${params.file_path} (${lines.length} lines).`,
+    );
+  }
+  const character = lineText.indexOf(params.symbol);
+  if (character === -1) {
+    throw new Error(
+      `Symbol "${params.symbol}" not found on line ${params.line} of ${params.file_path}.`,
+    );
+  }
+  return { filePath, position: { line: params.line - 1, character } };
+}
+
+function validatePositionParams(params: LspPositionParams): string | null {
+  if (!Number.isInteger(params.line) || params.line < 1) {
+    return `line must be a positive integer, got: ${params.line}`;
+  }
+  if (params.symbol.trim() === '') {
+    return 'symbol must not be empty';
+  }
+  return null;
+}
+
+function validateMaxResults(maxResults: number | undefined): string | null {
+  if (
+    maxResults !== undefined &&
+    (!Number.isInteger(maxResults) ||
+      maxResults < 1 ||
+      maxResults > MAX_RESULTS_LIMIT)
+  ) {
+    return `maxResults must be an integer between 1 and ${MAX_RESULTS_LIMIT}, got: ${maxResults}`;
+  }
+  return null;
+}
+
+function uriToPath(uri: string): string | undefined {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+}
+
+function toLineMatches(
+  locations: Array<LspLocation | LspLocationLink> | LspLocation | null,
+): LineMatch[] {
+  const list = !locations
+    ? []
+    : Array.isArray(locations)
+      ? locations
+      : [locations];
+  return list.flatMap((location) => {
+    const uri = 'targetUri' in location ? location.targetUri : location.uri;
+    const range =
+      'targetUri' in location ? location.targetSelectionRange : location.range;
+    const filePath = uriToPath(uri);
+    return filePath ? [{ filePath, lineNumber: range.start.line + 1 }] : [];
+  });
+}
+
+function displayPath(config: Config, filePath: string): string {
+  const relativePath = makeRelative(filePath, config.getTargetDir());
+  return relativePath.startsWith('..') ? filePath : relativePath;
+}
+
+/**
+ * Formats matches like the output of the grep tool: grouped by file, with the
+ * text of each line.
+ */
+async function formatLineMatches(
+  config: Config,
+  header: string,
+  matches: LineMatch[],
+): Promise<string> {
+  const matchesByFile = new Map<string, LineMatch[]>();
+  for (const match of matches) {
+    const fileMatches = matchesByFile.get(match.filePath) ?? [];
+    fileMatches.push(match);
+    matchesByFile.set(match.filePath, fileMatches);
+  }
+
+  let content = `${header}:\n---\n`;
+  for (const [filePath, fileMatches] of matchesByFile) {
+    let lines: string[] = [];
+    try {
+      lines = (await fsPromises.readFile(filePath, 'utf8')).split(/\r?\n/);
+    } catch (_error) {
+      // Show the line numbers alone when the file cannot be read.
+    }
+    content += `File: ${displayPath(config, filePath)}\n`;
+    for (const match of fileMatches.sort(
+      (a, b) => a.lineNumber - b.lineNumber,
+    )) {
+      const text = match.text ?? lines[match.lineNumber - 1] ?? '';
+      content += `L${match.lineNumber}: ${text.trim()}\n`;
+    }
+    content += '---\n';
+  }
+  return content.trim();
+}
+
+function formatPosition(params: LspPositionParams): string {
+  return `"${params.symbol}" (${params.file_path}:L${params.line})`;
+}
+
+function plural(count: number, singular: string, pluralForm: string): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+// --- Invocations ---
+
+abstract class LspToolInvocation<
+  TParams extends object,
+> extends BaseToolInvocation<TParams, ToolResult> {
+  constructor(
+    protected readonly config: Config,
+    params: TParams,
+  ) {
+    super(params);
+  }
+
+  protected abstract run(signal: AbortSignal): Promise<ToolResult>;
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    try {
+      return await this.run(signal);
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      return {
+        llmContent: `Error during language server request: ${errorMessage}`,
+        returnDisplay: `Error: ${errorMessage}`,
+        error: {
+          message: errorMessage,
+          type:
+            error instanceof LspServerUnavailableError
+              ? ToolErrorType.LSP_SERVER_UNAVAILABLE
+              : ToolErrorType.LSP_REQUEST_FAILURE,
+        },
+      };
+    }
+  }
+
+  protected async getClientAndPosition(
+    params: LspPositionParams,
+  ): Promise<{ client: LspClient; uri: string; position: LspPosition }> {
+    const { filePath, position } = await resolvePosition(this.config, params);
+    const client = await this.config.getLspManager().getClientForFile(filePath);
+    const uri = await client.syncDocument(filePath);
+    return { client, uri, position };
+  }
+}
+
+abstract class LspPositionToolInvocation<
+  TParams extends LspPositionParams,
+> extends LspToolInvocation<TParams> {
+  getDescription(): string {
+    const filePath = path.resolve(
+      this.config.getTargetDir(),
+      this.params.file_path,
+    );
+    return `'${this.params.symbol}' in ${shortenPath(
+      makeRelative(filePath, this.config.getTargetDir()),
+    )}:${this.params.line}`;
+  }
+
+  toolLocations(): ToolLocation[] {
+    return [
+      {
+        path: path.resolve(this.config.getTargetDir(), this.params.file_path),
+        line: this.params.line,
+      },
+    ];
+  }
+}
+
+class LspDefinitionToolInvocation extends LspPositionToolInvocation<LspPositionParams> {
+  protected async run(signal: AbortSignal): Promise<ToolResult> {
+    const { client, uri, position } = await this.getClientAndPosition(
+      this.params,
+    );
+    const result = await client.request<
+      LspLocation | Array<LspLocation | LspLocationLink> | null
+    >('textDocument/definition', { textDocument: { uri }, position }, signal);
+    const matches = toLineMatches(result);
+    if (matches.length === 0) {
+      return {
+        llmContent: `No definition found for ${formatPosition(this.params)}.`,
+        returnDisplay: 'No definition found',
+      };
+    }
+    const found = plural(matches.length, 'definition', 'definitions');
+    return {
+      llmContent: await formatLineMatches(
+        this.config,
+        `Found ${found} of ${formatPosition(this.params)}`,
+        matches,
+      ),
+      returnDisplay: `Found ${found}`,
+    };
+  }
+}
+
+class LspReferencesToolInvocation extends LspPositionToolInvocation<LspReferencesToolParams> {
+  protected async run(signal: AbortSignal): Promise<ToolResult> {
+    const { client, uri, position } = await this.getClientAndPosition(
+      this.params,
+    );
+    const result = await client.request<LspLocation[] | null>(
+      'textDocument/references',
+      {
+        textDocument: { uri },
+        position,
+        context: {
+          includeDeclaration: this.params.include_declaration ?? false,
+        },
+      },
+      signal,
+    );
+    const matches = toLineMatches(result);
+    if (matches.length === 0) {
+      return {
+        llmContent: `No references found for ${formatPosition(this.params)}.`,
+        returnDisplay: 'No references found',
+      };
+    }
+
+    const maxResults = this.params.maxResults ?? DEFAULT_MAX_RESULTS;
+    const shown = matches.slice(0, maxResults);
+    const found = plural(shown.length, 'reference', 'references');
+    let header = `Found ${found} to ${formatPosition(this.params)}`;
+    let displayText = `Found ${found}`;
+    if (matches.length > maxResults) {
+      header += ` (showing first ${shown.length} of ${matches.length} total references)`;
+      displayText += ` (truncated from ${matches.length})`;
+    }
+    return {
+      llmContent: await formatLineMatches(this.config, header, shown),
+      returnDisplay: displayText,
+    };
+  }
+}
+
+class LspHoverToolInvocation extends LspPositionToolInvocation<LspPositionParams> {
+  protected async run(signal: AbortSignal): Promise<ToolResult> {
+    const { client, uri, position } = await this.getClientAndPosition(
+      this.params,
+    );
+    const result = await client.request<LspHover | null>(
+      'textDocument/hover',
+      { textDocument: { uri }, position },
+      signal,
+    );
+    const text = result ? formatHoverContents(result.contents) : '';
+    if (!text) {
+      return {
+        llmContent: `No type information found for ${formatPosition(this.params)}.`,
+        returnDisplay: 'No type information found',
+      };
+    }
+    return {
+      llmContent: `Type information for ${formatPosition(this.params)}:\n---\n${text}`,
+      returnDisplay: 'Found type information',
+    };
+  }
+}
+
+function formatMarkedString(value: LspMarkedString): string {
+  return typeof value === 'string'
+    ? value
+    : `\`\`\`${value.language}\n${value.value}\n\`\`\``;
+}
+
+function formatHoverContents(contents: LspHover['contents']): string {
+  if (Array.isArray(contents)) {
+    return contents.map(formatMarkedString).join('\n\n').trim();
+  }
+  if (typeof contents === 'object' && 'kind' in contents) {
+    return contents.value.trim();
+  }
+  return formatMarkedString(contents).trim();
+}
+
+class LspRenamePreviewToolInvocation extends LspPositionToolInvocation<LspRenamePreviewToolParams> {
+  protected async run(signal: AbortSignal): Promise<ToolResult> {
+    const { client, uri, position } = await this.getClientAndPosition(
+      this.params,
+    );
+    const result = await client.request<LspWorkspaceEdit | null>(
+      'textDocument/rename',
+      { textDocument: { uri }, position, newName: this.params.new_name },
+      signal,
+    );
+    const editsByFile = getWorkspaceEdits(result);
+    const matches: LineMatch[] = [];
+    for (const [filePath, edits] of editsByFile) {
+      matches.push(...(await previewEdits(filePath, edits)));
+    }
+    if (matches.length === 0) {
+      return {
+        llmContent: `Renaming ${formatPosition(this.params)} would not change any file.`,
+        returnDisplay: 'No changes',
+      };
+    }
+    const summary = `${plural(matches.length, 'line', 'lines')} in ${plural(editsByFile.size, 'file', 'files')}`;
+    return {
+      llmContent: await formatLineMatches(
+        this.config,
+        `Renaming ${formatPosition(this.params)} to "${this.params.new_name}" would change ${summary}. This is a preview: no file was modified. The lines below show the result of the rename`,
+        matches,
+      ),
+      returnDisplay: `Rename would change ${summary}`,
+    };
+  }
+}
+
+function getWorkspaceEdits(
+  edit: LspWorkspaceEdit | null,
+): Map<string, LspTextEdit[]> {
+  const editsByFile = new Map<string, LspTextEdit[]>();
+  const add = (uri: string, edits: LspTextEdit[]) => {
+    const filePath = uriToPath(uri);
+    if (filePath && edits.length > 0) {
+      editsByFile.set(filePath, [
+        ...(editsByFile.get(filePath) ?? []),
+        ...edits,
+      ]);
+    }
+  };
+  for (const [uri, edits] of Object.entries(edit?.changes ?? {})) {
+    add(uri, edits);
+  }
+  for (const change of edit?.documentChanges ?? []) {
+    if ('textDocument' in change) {
+      add(change.textDocument.uri, change.edits);
+    }
+  }
+  return editsByFile;
+}
+
+/**
+ * Applies the edits to the lines they start on, to show how each line would
+ * read after the rename.
+ */
+async function previewEdits(
+  filePath: string,
+  edits: LspTextEdit[],
+): Promise<LineMatch[]> {
+  const lines = (await fsPromises.readFile(filePath, 'utf8')).split(/\r?\n/);
+  const editsByLine = new Map<number, LspTextEdit[]>();
+  for (const edit of edits) {
+    const line = edit.range.start.line;
+    editsByLine.set(line, [...(editsByLine.get(line) ?? []), edit]);
+  }
+
+  return [...editsByLine.entries()].map(([line, lineEdits]) => {
+    let text = lines[line] ?? '';
+    // Apply from the end of the line so earlier offsets stay valid.
+    for (const edit of lineEdits.sort(
+      (a, b) => b.range.start.character - a.range.start.character,
+    )) {
+      const end =
+        edit.range.end.line === line ? edit.range.end.character : text.length;
+      text =
+        text.slice(0, edit.range.start.character) +
+        edit.newText +
+        text.slice(end);
+    }
+    return { filePath, lineNumber: line + 1, text };
+  });
+}
+
+class LspWorkspaceSymbolsToolInvocation extends LspToolInvocation<LspWorkspaceSymbolsToolParams> {
+  getDescription(): string {
+    return `'${this.params.query}'`;
+  }
+
+  protected async run(signal: AbortSignal): Promise<ToolResult> {
+    const lspManager = this.config.getLspManager();
+    const clients = this.params.file_path
+      ? [
+          await lspManager.getClientForFile(
+            resolveFilePath(this.config, this.params.file_path),
+          ),
+        ]
+      : await lspManager.getClientsForWorkspace();
+
+    const symbols: LspSymbolInformation[] = [];
+    for (const client of clients) {
+      const result = await client.request<LspSymbolInformation[] | null>(
+        'workspace/symbol',
+        { query: this.params.query },
+        signal,
+      );
+      symbols.push(...(result ?? []));
+    }
+
+    const matches = symbols.flatMap((symbol): LineMatch[] => {
+      const filePath = uriToPath(symbol.location.uri);
+      if (!filePath) {
+        return [];
+      }
+      const kind = SYMBOL_KIND_NAMES[symbol.kind] ?? 'Symbol';
+      const container = symbol.containerName
+        ? ` in ${symbol.containerName}`
+        : '';
+      return [
+        {
+          filePath,
+          lineNumber:
+            'range' in symbol.location
+              ? symbol.location.range.start.line + 1
+              : 1,
+          text: `${kind} ${symbol.name}${container}`,
+        },
+      ];
+    });
+    if (matches.length === 0) {
+      return {
+        llmContent: `No symbols found for query "${this.params.query}".`,
+        returnDisplay: 'No symbols found',
+      };
+    }
+
+    const maxResults = this.params.maxResults ?? DEFAULT_MAX_RESULTS;
+    const shown = matches.slice(0, maxResults);
+    const found = plural(shown.length, 'symbol', 'symbols');
+    let header = `Found ${found} for query "${this.params.query}"`;
+    let displayText = `Found ${found}`;
+    if (matches.length > maxResults) {
+      header += ` (showing first ${shown.length} of ${matches.length} total symbols)`;
+      displayText += ` (truncated from ${matches.length})`;
+    }
+    return {
+      llmContent: await formatLineMatches(this.config, header, shown),
+      returnDisplay: displayText,
+    };
+  }
+}
+
+// --- Tools ---
+
+abstract class LspPositionTool<
+  TParams extends LspPositionParams,
+> extends BaseDeclarativeTool<TParams, ToolResult> {
+  validateToolParams(params: TParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+    return validatePositionParams(params);
+  }
+}
+
+export class LspDefinitionTool extends LspPositionTool<LspPositionParams> {
+  static readonly Name = 'lsp_definition';
+
+  constructor(private readonly config: Config) {
+    super(
+      LspDefinitionTool.Name,
+      'GoToDefinition',
+      'Finds where a symbol is defined using the language server of the file (e.g., TypeScript, Python, Go). Follows imports and re-exports, unlike a text search. Returns the lines of the definitions with their file paths and line numbers.',
+      Icon.FileSearch,
+      {
+        properties: POSITION_PROPERTIES,
+        required: ['file_path', 'line', 'symbol'],
+        type: 'object',
+      },
+    );
+  }
+
+  protected createInvocation(
+    params: LspPositionParams,
+  ): ToolInvocation<LspPositionParams, ToolResult> {
+    return new LspDefinitionToolInvocation(this.config, params);
+  }
+}
+
+export class LspReferencesTool extends LspPositionTool<LspReferencesToolParams> {
+  static readonly Name = 'lsp_references';
+
+  constructor(private readonly config: Config) {
+    super(
+      LspReferencesTool.Name,
+      'FindReferences',
+      'Finds every reference to a symbol across the project using the language server of the file. Unlike a text search, it only returns real uses of that symbol, including call sites through aliases and re-exports. Returns the lines of the references with their file paths and line numbers.',
+      Icon.FileSearch,
+      {
+        properties: {
+          ...POSITION_PROPERTIES,
+          include_declaration: {
+            description:
+              'Optional: Whether to include the declaration of the symbol in the results (default: false).',
+            type: 'boolean',
+          },
+          maxResults: MAX_RESULTS_PROPERTY,
+        },
+        required: ['file_path', 'line', 'symbol'],
+        type: 'object',
+      },
+    );
+  }
+
+  validateToolParams(params: LspReferencesToolParams): string | null {
+    return (
+      super.validateToolParams(params) ?? validateMaxResults(params.maxResults)
+    );
+  }
+
+  protected createInvocation(
+    params: LspReferencesToolParams,
+  ): ToolInvocation<LspReferencesToolParams, ToolResult> {
+    return new LspReferencesToolInvocation(this.config, params);
+  }
+}
+
+export class LspHoverTool extends LspPositionTool<LspPositionParams> {
+  static readonly Name = 'lsp_hover';
+
+  constructor(private readonly config: Config) {
+    super(
+      LspHoverTool.Name,
+      'GetTypeInfo',
+      'Shows the type, signature and documentation of a symbol, as an editor would on hover, using the language server of the file.',
+      Icon.FileSearch,
+      {
+        properties: POSITION_PROPERTIES,
+        required: ['file_path', 'line', 'symbol'],
+        type: 'object',
+      },
+    );
+  }
+
+  protected createInvocation(
+    params: LspPositionParams,
+  ): ToolInvocation<LspPositionParams, ToolResult> {
+    return new LspHoverToolInvocation(this.config, params);
+  }
+}
+
+export class LspRenamePreviewTool extends LspPositionTool<LspRenamePreviewToolParams> {
+  static readonly Name = 'lsp_rename_preview';
+
+  constructor(private readonly config: Config) {
+    super(
+      LspRenamePreviewTool.Name,
+      'PreviewRename',
+      'Previews renaming a symbol across the project using the language server of the file. Lists every line the rename would change, as it would read afterwards. Does not modify any file.',
+      Icon.FileSearch,
+      {
+        properties: {
+          ...POSITION_PROPERTIES,
+          new_name: {
+            description: 'The new name of the symbol.',
+            type: 'string',
+          },
+        },
+        required: ['file_path', 'line', 'symbol', 'new_name'],
+        type: 'object',
+      },
+    );
+  }
+
+  validateToolParams(params: LspRenamePreviewToolParams): string | null {
+    const error = super.validateToolParams(params);
+    if (error) {
+      return error;
+    }
+    return params.new_name.trim() === '' ? 'new_name must not be empty' : null;
+  }
+
+  protected createInvocation(
+    params: LspRenamePreviewToolParams,
+  ): ToolInvocation<LspRenamePreviewToolParams, ToolResult> {
+    return new LspRenamePreviewToolInvocation(this.config, params);
+  }
+}
+
+export class LspWorkspaceSymbolsTool extends BaseDeclarativeTool<
+  LspWorkspaceSymbolsToolParams,
+  ToolResult
+> {
+  static readonly Name = 'lsp_workspace_symbols';
+
+  constructor(private readonly config: Config) {
+    super(
+      LspWorkspaceSymbolsTool.Name,
+      'SearchSymbols',
+      'Searches the classes, functions, variables and other symbols declared in the project by name, using the language servers of the project. Returns each symbol with its kind, file path and line number.',
+      Icon.FileSearch,
+      {
+        properties: {
+          query: {
+            description:
+              'The name of the symbol, or part of it, to search for.',
+            type: 'string',
+          },
+          file_path: {
+            description:
+              "Optional: A file of the project whose language server to search. If omitted, searches with the language servers of every project type found in the workspace (e.g., TypeScript when there is a 'tsconfig.json').",
+            type: 'string',
+          },
+          maxResults: MAX_RESULTS_PROPERTY,
+        },
+        required: ['query'],
+        type: 'object',
+      },
+    );
+  }
+
+  validateToolParams(params: LspWorkspaceSymbolsToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+    if (params.query.trim() === '') {
+      return 'query must not be empty';
+    }
+    return validateMaxResults(params.maxResults);
+  }
+
+  protected createInvocation(
+    params: LspWorkspaceSymbolsToolParams,
+  ): ToolInvocation<LspWorkspaceSymbolsToolParams, ToolResult> {
+    return new LspWorkspaceSymbolsToolInvocation(this.config, params);
+  }
+}
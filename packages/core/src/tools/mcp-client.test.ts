@@ -12,20 +12,36 @@ import {
   isEnabled,
   discoverTools,
   discoverPrompts,
+  discoverResources,
+  readMcpResource,
   hasValidTypes,
   connectToMcpServer,
+  connectAndDiscover,
+  getMCPServerReconnectHistory,
+  getMCPServerStatus,
+  getReconnectDelay,
+  MCPReconnectEventType,
+  MCPServerStatus,
 } from './mcp-client.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import * as SdkClientStdioLib from '@modelcontextprotocol/sdk/client/stdio.js';
 import * as ClientLib from '@modelcontextprotocol/sdk/client/index.js';
 import * as GenAiLib from '@google/genai';
 import { GoogleCredentialProvider } from '../mcp/google-auth-provider.js';
-import { AuthProviderType } from '../config/config.js';
+import { AuthProviderType, Config } from '../config/config.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
 
 import { DiscoveredMCPTool } from './mcp-tool.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
 import { pathToFileURL } from 'node:url';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ToolRegistry } from './tool-registry.js';
 
 vi.mock('@modelcontextprotocol/sdk/client/stdio.js');
 vi.mock('@modelcontextprotocol/sdk/client/index.js');
@@ -58,6 +74,42 @@ describe('mcp-client', () => {
       expect(mockedMcpToTool).toHaveBeenCalledOnce();
     });
 
+    it('should mark tools annotated as read-only without listing them again', async () => {
+      const listTools = vi.fn().mockResolvedValue({
+        tools: [
+          {
+            name: 'search',
+            inputSchema: { type: 'object' },
+            annotations: { readOnlyHint: true },
+          },
+          { name: 'write', inputSchema: { type: 'object' } },
+        ],
+      });
+      const mockedClient = { listTools } as unknown as ClientLib.Client;
+      vi.mocked(GenAiLib.mcpToTool).mockImplementation(
+        (...clients) =>
+          ({
+            tool: async () => {
+              await (clients[0] as ClientLib.Client).listTools();
+              return {
+                functionDeclarations: [{ name: 'search' }, { name: 'write' }],
+              };
+            },
+          }) as unknown as GenAiLib.CallableTool,
+      );
+
+      await discoverTools('test-server', {}, mockedClient);
+
+      expect(listTools).toHaveBeenCalledOnce();
+      const readOnlyHints = vi
+        .mocked(DiscoveredMCPTool)
+        .mock.calls.map((args) => [args[2], args[8]]);
+      expect(readOnlyHints).toEqual([
+        ['search', true],
+        ['write', false],
+      ]);
+    });
+
     it('should log an error if there is an error discovering a tool', async () => {
       const mockedClient = {} as unknown as ClientLib.Client;
       const consoleErrorSpy = vi
@@ -280,7 +332,7 @@ describe('mcp-client', () => {
   });
 
   describe('connectToMcpServer', () => {
-    it('should register a roots/list handler', async () => {
+    it('should register the roots, sampling and elicitation handlers', async () => {
       const mockedClient = {
         registerCapabilities: vi.fn(),
         setRequestHandler: vi.fn(),
@@ -306,12 +358,26 @@ describe('mcp-client', () => {
         },
         false,
         mockWorkspaceContext,
+        {} as Config,
       );
 
       expect(mockedClient.registerCapabilities).toHaveBeenCalledWith({
         roots: {},
+        sampling: {},
+        elicitation: {},
       });
-      expect(mockedClient.setRequestHandler).toHaveBeenCalledOnce();
+      expect(mockedClient.setRequestHandler).toHaveBeenCalledWith(
+        ListRootsRequestSchema,
+        expect.any(Function),
+      );
+      expect(mockedClient.setRequestHandler).toHaveBeenCalledWith(
+        CreateMessageRequestSchema,
+        expect.any(Function),
+      );
+      expect(mockedClient.setRequestHandler).toHaveBeenCalledWith(
+        ElicitRequestSchema,
+        expect.any(Function),
+      );
       const handler = mockedClient.setRequestHandler.mock.calls[0][1];
       const roots = await handler();
       expect(roots).toEqual({
@@ -329,6 +395,144 @@ describe('mcp-client', () => {
     });
   });
 
+  describe('connectAndDiscover', () => {
+    const toolRegistry = {
+      registerTool: vi.fn(),
+      removeMcpToolsByServer: vi.fn(),
+    };
+    const promptRegistry = { removePromptsByServer: vi.fn() };
+    const setTools = vi.fn();
+    const cliConfig = {
+      getGeminiClient: () => ({ isInitialized: () => true, setTools }),
+    } as unknown as Config;
+    const workspaceContext = {
+      getDirectories: () => [],
+    } as unknown as WorkspaceContext;
+
+    const createClient = () => ({
+      registerCapabilities: vi.fn(),
+      setRequestHandler: vi.fn(),
+      setNotificationHandler: vi.fn(),
+      connect: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn().mockResolvedValue(undefined),
+      getServerCapabilities: vi
+        .fn()
+        .mockReturnValue({ tools: { listChanged: true } }),
+      onclose: undefined as (() => void) | undefined,
+    });
+
+    const mockToolNames = (...names: string[]) =>
+      vi.mocked(GenAiLib.mcpToTool).mockReturnValue({
+        tool: () =>
+          Promise.resolve({
+            functionDeclarations: names.map((name) => ({ name })),
+          }),
+      } as unknown as GenAiLib.CallableTool);
+
+    const discover = (serverName: string) =>
+      connectAndDiscover(
+        serverName,
+        { command: 'test-command' },
+        toolRegistry as unknown as ToolRegistry,
+        promptRegistry as unknown as PromptRegistry,
+        {} as ResourceRegistry,
+        false,
+        workspaceContext,
+        cliConfig,
+      );
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(DiscoveredMCPTool).mockImplementation(
+        (
+          _mcpCallableTool: GenAiLib.CallableTool,
+          serverName: string,
+          name: string,
+        ) => ({ name, serverName }) as unknown as DiscoveredMCPTool,
+      );
+      vi.spyOn(SdkClientStdioLib, 'StdioClientTransport').mockReturnValue({
+        close: vi.fn(),
+      } as unknown as SdkClientStdioLib.StdioClientTransport);
+    });
+
+    it('should re-discover tools when the server reports a changed tool list', async () => {
+      const client = createClient();
+      vi.mocked(ClientLib.Client).mockReturnValue(
+        client as unknown as ClientLib.Client,
+      );
+      mockToolNames('first');
+
+      await discover('list-changed-server');
+      expect(toolRegistry.registerTool).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'first' }),
+      );
+
+      const [, onToolsChanged] = client.setNotificationHandler.mock.calls.find(
+        ([schema]) => schema === ToolListChangedNotificationSchema,
+      )!;
+      mockToolNames('second');
+      await onToolsChanged();
+
+      expect(toolRegistry.removeMcpToolsByServer).toHaveBeenLastCalledWith(
+        'list-changed-server',
+      );
+      expect(toolRegistry.registerTool).toHaveBeenLastCalledWith(
+        expect.objectContaining({ name: 'second' }),
+      );
+      expect(setTools).toHaveBeenCalledOnce();
+    });
+
+    it('should reconnect with backoff when the connection closes', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const lostClient = createClient();
+      const failingClient = createClient();
+      failingClient.connect.mockRejectedValue(new Error('spawn failed'));
+      const newClient = createClient();
+      vi.mocked(ClientLib.Client)
+        .mockReturnValueOnce(lostClient as unknown as ClientLib.Client)
+        .mockReturnValueOnce(failingClient as unknown as ClientLib.Client)
+        .mockReturnValueOnce(newClient as unknown as ClientLib.Client);
+      mockToolNames('tool');
+
+      try {
+        await discover('reconnect-server');
+        lostClient.onclose!();
+        expect(getMCPServerStatus('reconnect-server')).toBe(
+          MCPServerStatus.DISCONNECTED,
+        );
+
+        await vi.advanceTimersByTimeAsync(getReconnectDelay(1));
+        expect(failingClient.connect).toHaveBeenCalled();
+        expect(newClient.connect).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(getReconnectDelay(2));
+        expect(newClient.connect).toHaveBeenCalled();
+        expect(getMCPServerStatus('reconnect-server')).toBe(
+          MCPServerStatus.CONNECTED,
+        );
+        expect(
+          getMCPServerReconnectHistory('reconnect-server').map(
+            ({ type, attempt }) => ({ type, attempt }),
+          ),
+        ).toEqual([
+          { type: MCPReconnectEventType.DISCONNECTED, attempt: undefined },
+          { type: MCPReconnectEventType.FAILED, attempt: 1 },
+          { type: MCPReconnectEventType.RECONNECTED, attempt: 2 },
+        ]);
+        expect(setTools).toHaveBeenCalledOnce();
+
+        // Closing the replaced client does not start another reconnect
+        lostClient.onclose!();
+        expect(getMCPServerStatus('reconnect-server')).toBe(
+          MCPServerStatus.CONNECTED,
+        );
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   describe('discoverPrompts', () => {
     const mockedPromptRegistry = {
       registerPrompt: vi.fn(),
@@ -435,6 +639,95 @@ describe('mcp-client', () => {
     });
   });
 
+  describe('discoverResources', () => {
+    it('should register resources and resource templates', async () => {
+      const mockRequest = vi.fn(async ({ method }: { method: string }) =>
+        method === 'resources/list'
+          ? { resources: [{ uri: 'file:///a.txt', name: 'a' }] }
+          : {
+              resourceTemplates: [
+                { uriTemplate: 'db://tables/{table}', name: 'table' },
+              ],
+            },
+      );
+      const mockedClient = {
+        getServerCapabilities: vi.fn().mockReturnValue({ resources: {} }),
+        request: mockRequest,
+      } as unknown as ClientLib.Client;
+      const resourceRegistry = new ResourceRegistry();
+
+      const found = await discoverResources(
+        'test-server',
+        mockedClient,
+        resourceRegistry,
+      );
+
+      expect(found).toBe(true);
+      expect(resourceRegistry.getResourcesByServer('test-server')).toEqual([
+        expect.objectContaining({
+          uri: 'file:///a.txt',
+          serverName: 'test-server',
+        }),
+      ]);
+      expect(
+        resourceRegistry.getResourceTemplatesByServer('test-server'),
+      ).toEqual([
+        expect.objectContaining({ uriTemplate: 'db://tables/{table}' }),
+      ]);
+    });
+
+    it('should do nothing if the server has no resource support', async () => {
+      const mockRequest = vi.fn();
+      const mockedClient = {
+        getServerCapabilities: vi.fn().mockReturnValue({}),
+        request: mockRequest,
+      } as unknown as ClientLib.Client;
+
+      const found = await discoverResources(
+        'test-server',
+        mockedClient,
+        new ResourceRegistry(),
+      );
+
+      expect(found).toBe(false);
+      expect(mockRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readMcpResource', () => {
+    it('should subscribe to a resource on its first read', async () => {
+      const contents = [{ uri: 'file:///a.txt', text: 'hello' }];
+      const mockRequest = vi.fn(async ({ method }: { method: string }) =>
+        method === 'resources/read' ? { contents } : {},
+      );
+      const mockedClient = {
+        getServerCapabilities: vi
+          .fn()
+          .mockReturnValue({ resources: { subscribe: true } }),
+        request: mockRequest,
+      } as unknown as ClientLib.Client;
+
+      const result = await readMcpResource(
+        'test-server',
+        mockedClient,
+        'file:///a.txt',
+      );
+      await readMcpResource('test-server', mockedClient, 'file:///a.txt');
+
+      expect(result.contents).toEqual(contents);
+      expect(
+        mockRequest.mock.calls.filter(
+          ([request]) => request.method === 'resources/subscribe',
+        ),
+      ).toEqual([
+        [
+          { method: 'resources/subscribe', params: { uri: 'file:///a.txt' } },
+          expect.anything(),
+        ],
+      ]);
+    });
+  });
+
   describe('appendMcpServerCommand', () => {
     it('should do nothing if no MCP servers or command are configured', () => {
       const out = populateMcpServerCommand({}, undefined);
@@ -21,15 +21,33 @@ import {
   GetPromptResult,
   GetPromptResultSchema,
   ListRootsRequestSchema,
+  Resource,
+  ResourceTemplate,
+  ListResourcesResultSchema,
+  ListResourceTemplatesResultSchema,
+  ReadResourceResult,
+  ReadResourceResultSchema,
+  EmptyResultSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ToolListChangedNotificationSchema,
+  PromptListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { parse } from 'shell-quote';
-import { AuthProviderType, MCPServerConfig } from '../config/config.js';
+import { AuthProviderType, Config, MCPServerConfig } from '../config/config.js';
+import {
+  createSamplingMessage,
+  elicitUserInput,
+} from '../mcp/client-requests.js';
 import { GoogleCredentialProvider } from '../mcp/google-auth-provider.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 
 import { FunctionDeclaration, mcpToTool } from '@google/genai';
 import { ToolRegistry } from './tool-registry.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
 import { MCPOAuthProvider } from '../mcp/oauth-provider.js';
 import { OAuthUtils } from '../mcp/oauth-utils.js';
 import { MCPOAuthTokenStorage } from '../mcp/oauth-token-storage.js';
@@ -40,11 +58,28 @@ import { WorkspaceContext } from '../utils/workspaceContext.js';
 
 export const MCP_DEFAULT_TIMEOUT_MSEC = 10 * 60 * 1000; // default to 10 minutes
 
+export const MCP_RECONNECT_MAX_ATTEMPTS = 5;
+export const MCP_RECONNECT_INITIAL_DELAY_MSEC = 1000;
+export const MCP_RECONNECT_MAX_DELAY_MSEC = 30 * 1000;
+const MCP_RECONNECT_HISTORY_LIMIT = 20;
+
 export type DiscoveredMCPPrompt = Prompt & {
   serverName: string;
   invoke: (params: Record<string, unknown>) => Promise<GetPromptResult>;
 };
 
+export type DiscoveredMCPResource = Resource & {
+  serverName: string;
+  /** Set when the server reported a change since the resource was last read. */
+  updated?: boolean;
+  read: () => Promise<ReadResourceResult>;
+};
+
+export type DiscoveredMCPResourceTemplate = ResourceTemplate & {
+  serverName: string;
+  read: (uri: string) => Promise<ReadResourceResult>;
+};
+
 /**
  * Enum representing the connection status of an MCP server
  */
@@ -69,6 +104,29 @@ export enum MCPDiscoveryState {
   COMPLETED = 'completed',
 }
 
+/**
+ * Enum representing the events of reconnecting to an MCP server
+ */
+export enum MCPReconnectEventType {
+  /** The connection to the server was lost */
+  DISCONNECTED = 'disconnected',
+  /** A reconnect attempt failed */
+  FAILED = 'failed',
+  /** A reconnect attempt succeeded */
+  RECONNECTED = 'reconnected',
+  /** All reconnect attempts failed */
+  GAVE_UP = 'gave_up',
+}
+
+export interface MCPReconnectEvent {
+  type: MCPReconnectEventType;
+  /** When the event happened, in milliseconds since the epoch */
+  timestamp: number;
+  /** The reconnect attempt, starting at 1 */
+  attempt?: number;
+  error?: string;
+}
+
 /**
  * Map to track the status of each MCP server within the core package
  */
@@ -79,6 +137,22 @@ const serverStatuses: Map<string, MCPServerStatus> = new Map();
  */
 let mcpDiscoveryState: MCPDiscoveryState = MCPDiscoveryState.NOT_STARTED;
 
+/**
+ * The client of each connected MCP server. A lost connection is only
+ * re-established while its client is still the active one.
+ */
+const activeClients: Map<string, Client> = new Map();
+
+/**
+ * The recent reconnect events of each MCP server
+ */
+const reconnectHistories: Map<string, MCPReconnectEvent[]> = new Map();
+
+/**
+ * The URIs of the resources that each client is subscribed to
+ */
+const resourceSubscriptions: WeakMap<Client, Set<string>> = new WeakMap();
+
 /**
  * Map to track which MCP servers have been discovered to require OAuth
  */
@@ -93,6 +167,13 @@ type StatusChangeListener = (
 ) => void;
 const statusChangeListeners: StatusChangeListener[] = [];
 
+/**
+ * Event listeners for changes to the tools or prompts of an MCP server after
+ * its initial discovery
+ */
+type ServerUpdateListener = (serverName: string) => void;
+const serverUpdateListeners: ServerUpdateListener[] = [];
+
 /**
  * Add a listener for MCP server status changes
  */
@@ -149,6 +230,117 @@ export function getMCPDiscoveryState(): MCPDiscoveryState {
   return mcpDiscoveryState;
 }
 
+/**
+ * Add a listener that is called when a server changes its tools or prompts,
+ * or is reconnected
+ */
+export function addMCPServerUpdateListener(
+  listener: ServerUpdateListener,
+): void {
+  serverUpdateListeners.push(listener);
+}
+
+/**
+ * Remove a listener for MCP server updates
+ */
+export function removeMCPServerUpdateListener(
+  listener: ServerUpdateListener,
+): void {
+  const index = serverUpdateListeners.indexOf(listener);
+  if (index !== -1) {
+    serverUpdateListeners.splice(index, 1);
+  }
+}
+
+/**
+ * Tells the model and the listeners about changed tools or prompts of a server
+ */
+async function notifyMCPServerUpdated(
+  serverName: string,
+  cliConfig: Config,
+): Promise<void> {
+  const geminiClient = cliConfig.getGeminiClient();
+  if (geminiClient?.isInitialized()) {
+    await geminiClient.setTools();
+  }
+  for (const listener of serverUpdateListeners) {
+    listener(serverName);
+  }
+}
+
+/**
+ * Get the recent reconnect events of an MCP server, oldest first
+ */
+export function getMCPServerReconnectHistory(
+  serverName: string,
+): MCPReconnectEvent[] {
+  return [...(reconnectHistories.get(serverName) ?? [])];
+}
+
+function recordReconnectEvent(
+  serverName: string,
+  event: Omit<MCPReconnectEvent, 'timestamp'>,
+): void {
+  const history = reconnectHistories.get(serverName) ?? [];
+  history.push({ ...event, timestamp: Date.now() });
+  reconnectHistories.set(
+    serverName,
+    history.slice(-MCP_RECONNECT_HISTORY_LIMIT),
+  );
+}
+
+/**
+ * Returns the delay before a reconnect attempt, doubling with each attempt
+ */
+export function getReconnectDelay(attempt: number): number {
+  return Math.min(
+    MCP_RECONNECT_INITIAL_DELAY_MSEC * 2 ** (attempt - 1),
+    MCP_RECONNECT_MAX_DELAY_MSEC,
+  );
+}
+
+/**
+ * Tries to re-establish the lost connection of a server with exponential
+ * backoff. Stops early if another discovery replaced the lost client.
+ */
+async function reconnectMcpServer(
+  mcpServerName: string,
+  lostClient: Client,
+  reconnect: () => Promise<void>,
+  cliConfig: Config,
+): Promise<void> {
+  recordReconnectEvent(mcpServerName, {
+    type: MCPReconnectEventType.DISCONNECTED,
+  });
+  updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+
+  for (let attempt = 1; attempt <= MCP_RECONNECT_MAX_ATTEMPTS; attempt++) {
+    await new Promise((resolve) =>
+      setTimeout(resolve, getReconnectDelay(attempt)).unref(),
+    );
+    if (activeClients.get(mcpServerName) !== lostClient) {
+      return;
+    }
+    await reconnect();
+    if (activeClients.get(mcpServerName) !== lostClient) {
+      recordReconnectEvent(mcpServerName, {
+        type: MCPReconnectEventType.RECONNECTED,
+        attempt,
+      });
+      await notifyMCPServerUpdated(mcpServerName, cliConfig);
+      return;
+    }
+    recordReconnectEvent(mcpServerName, {
+      type: MCPReconnectEventType.FAILED,
+      attempt,
+    });
+  }
+  recordReconnectEvent(mcpServerName, {
+    type: MCPReconnectEventType.GAVE_UP,
+    attempt: MCP_RECONNECT_MAX_ATTEMPTS,
+  });
+}
+
 /**
  * Extract WWW-Authenticate header from error message string.
  * This is a more robust approach than regex matching.
@@ -302,6 +494,7 @@ async function createTransportWithOAuth(
  * @param mcpServers A record of named MCP server configurations.
  * @param mcpServerCommand An optional command string for a dynamically specified MCP server.
  * @param toolRegistry The central registry where discovered tools will be registered.
+ * @param cliConfig The config of the session, used to answer requests of the servers.
  * @returns A promise that resolves when the discovery process has been attempted for all servers.
  */
 export async function discoverMcpTools(
@@ -309,8 +502,10 @@ export async function discoverMcpTools(
   mcpServerCommand: string | undefined,
   toolRegistry: ToolRegistry,
   promptRegistry: PromptRegistry,
+  resourceRegistry: ResourceRegistry,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
+  cliConfig: Config,
 ): Promise<void> {
   mcpDiscoveryState = MCPDiscoveryState.IN_PROGRESS;
   try {
@@ -323,8 +518,10 @@ export async function discoverMcpTools(
           mcpServerConfig,
           toolRegistry,
           promptRegistry,
+          resourceRegistry,
           debugMode,
           workspaceContext,
+          cliConfig,
         ),
     );
     await Promise.all(discoveryPromises);
@@ -356,11 +553,12 @@ export function populateMcpServerCommand(
 /**
  * Connects to an MCP server and discovers available tools, registering them with the tool registry.
  * This function handles the complete lifecycle of connecting to a server, discovering tools,
- * and cleaning up resources if no tools are found.
+ * prompts and resources, and cleaning up if none are found.
  *
  * @param mcpServerName The name identifier for this MCP server
  * @param mcpServerConfig Configuration object containing connection details
  * @param toolRegistry The registry to register discovered tools with
+ * @param cliConfig The config of the session, used to answer requests of the server
  * @returns Promise that resolves when discovery is complete
  */
 export async function connectAndDiscover(
@@ -368,8 +566,10 @@ export async function connectAndDiscover(
   mcpServerConfig: MCPServerConfig,
   toolRegistry: ToolRegistry,
   promptRegistry: PromptRegistry,
+  resourceRegistry: ResourceRegistry,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
+  cliConfig: Config,
 ): Promise<void> {
   updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTING);
 
@@ -380,13 +580,30 @@ export async function connectAndDiscover(
       mcpServerConfig,
       debugMode,
       workspaceContext,
+      cliConfig,
     );
 
-    mcpClient.onerror = (error) => {
+    const client = mcpClient;
+    client.onerror = async (error) => {
       console.error(`MCP ERROR (${mcpServerName}):`, error.toString());
       updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+      if (activeClients.get(mcpServerName) !== client) {
+        return;
+      }
+      // Transports report some errors without closing, so check whether the
+      // server still answers and reconnect if it does not.
+      try {
+        await client.ping({ timeout: 5000 });
+        updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTED);
+      } catch {
+        await client.close();
+      }
     };
 
+    // Replace what an earlier connection to the server discovered
+    toolRegistry.removeMcpToolsByServer(mcpServerName);
+    promptRegistry.removePromptsByServer(mcpServerName);
+
     // Attempt to discover both prompts and tools
     const prompts = await discoverPrompts(
       mcpServerName,
@@ -398,12 +615,62 @@ export async function connectAndDiscover(
       mcpServerConfig,
       mcpClient,
     );
+    const hasResources = await discoverResources(
+      mcpServerName,
+      mcpClient,
+      resourceRegistry,
+    );
 
-    // If we have neither prompts nor tools, it's a failed discovery
-    if (prompts.length === 0 && tools.length === 0) {
-      throw new Error('No prompts or tools found on the server.');
+    // If we have neither prompts, tools nor resources, it's a failed discovery
+    if (prompts.length === 0 && tools.length === 0 && !hasResources) {
+      throw new Error('No prompts, tools or resources found on the server.');
     }
 
+    if (client.getServerCapabilities()?.tools?.listChanged) {
+      client.setNotificationHandler(
+        ToolListChangedNotificationSchema,
+        async () => {
+          const changedTools = await discoverTools(
+            mcpServerName,
+            mcpServerConfig,
+            client,
+          );
+          toolRegistry.removeMcpToolsByServer(mcpServerName);
+          for (const tool of changedTools) {
+            toolRegistry.registerTool(tool);
+          }
+          await notifyMCPServerUpdated(mcpServerName, cliConfig);
+        },
+      );
+    }
+    if (client.getServerCapabilities()?.prompts?.listChanged) {
+      client.setNotificationHandler(
+        PromptListChangedNotificationSchema,
+        async () => {
+          promptRegistry.removePromptsByServer(mcpServerName);
+          await discoverPrompts(mcpServerName, client, promptRegistry);
+          await notifyMCPServerUpdated(mcpServerName, cliConfig);
+        },
+      );
+    }
+    if (client.getServerCapabilities()?.resources?.listChanged) {
+      client.setNotificationHandler(
+        ResourceListChangedNotificationSchema,
+        async () => {
+          await discoverResources(mcpServerName, client, resourceRegistry);
+        },
+      );
+    }
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      async (notification) => {
+        resourceRegistry.markResourceUpdated(
+          mcpServerName,
+          notification.params.uri,
+        );
+      },
+    );
+
     // If we found anything, the server is connected
     updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTED);
 
@@ -411,6 +678,32 @@ export async function connectAndDiscover(
     for (const tool of tools) {
       toolRegistry.registerTool(tool);
     }
+
+    const previousClient = activeClients.get(mcpServerName);
+    activeClients.set(mcpServerName, client);
+    if (previousClient && previousClient !== client) {
+      await previousClient.close().catch(() => {});
+    }
+    client.onclose = () => {
+      if (activeClients.get(mcpServerName) === client) {
+        void reconnectMcpServer(
+          mcpServerName,
+          client,
+          () =>
+            connectAndDiscover(
+              mcpServerName,
+              mcpServerConfig,
+              toolRegistry,
+              promptRegistry,
+              resourceRegistry,
+              debugMode,
+              workspaceContext,
+              cliConfig,
+            ),
+          cliConfig,
+        );
+      }
+    };
   } catch (error) {
     if (mcpClient) {
       mcpClient.close();
@@ -483,6 +776,35 @@ export function hasValidTypes(schema: unknown): boolean {
   return true;
 }
 
+/**
+ * Wraps a client so that the names of the tools it lists with a
+ * `readOnlyHint` annotation are added to `readOnlyToolNames`. `mcpToTool`
+ * lists the tools while discovering them but drops their annotations, so
+ * this saves listing them a second time.
+ */
+function recordReadOnlyTools(
+  mcpClient: Client,
+  readOnlyToolNames: Set<string>,
+): Client {
+  return new Proxy(mcpClient, {
+    get(target, property) {
+      if (property === 'listTools') {
+        return async (...args: Parameters<Client['listTools']>) => {
+          const result = await target.listTools(...args);
+          for (const tool of result.tools) {
+            if (tool.annotations?.readOnlyHint) {
+              readOnlyToolNames.add(tool.name);
+            }
+          }
+          return result;
+        };
+      }
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
 /**
  * Discovers and sanitizes tools from a connected MCP client.
  * It retrieves function declarations from the client, filters out disabled tools,
@@ -500,7 +822,10 @@ export async function discoverTools(
   mcpClient: Client,
 ): Promise<DiscoveredMCPTool[]> {
   try {
-    const mcpCallableTool = mcpToTool(mcpClient);
+    const readOnlyToolNames = new Set<string>();
+    const mcpCallableTool = mcpToTool(
+      recordReadOnlyTools(mcpClient, readOnlyToolNames),
+    );
     const tool = await mcpCallableTool.tool();
 
     if (!Array.isArray(tool.functionDeclarations)) {
@@ -533,6 +858,8 @@ export async function discoverTools(
             funcDecl.parametersJsonSchema ?? { type: 'object', properties: {} },
             mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
             mcpServerConfig.trust,
+            undefined,
+            readOnlyToolNames.has(funcDecl.name!),
           ),
         );
       } catch (error) {
@@ -606,6 +933,109 @@ export async function discoverPrompts(
   }
 }
 
+/**
+ * Discovers the resources and resource templates of a connected MCP client
+ * and replaces those of the server in the resource registry.
+ *
+ * @param mcpServerName The name of the MCP server.
+ * @param mcpClient The active MCP client instance.
+ * @param resourceRegistry The registry to register discovered resources with.
+ * @returns Whether the server has any resources or resource templates.
+ */
+export async function discoverResources(
+  mcpServerName: string,
+  mcpClient: Client,
+  resourceRegistry: ResourceRegistry,
+): Promise<boolean> {
+  // Only request resources if the server supports them.
+  if (mcpClient.getServerCapabilities()?.resources == null) return false;
+
+  try {
+    const [{ resources }, { resourceTemplates }] = await Promise.all([
+      mcpClient.request(
+        { method: 'resources/list', params: {} },
+        ListResourcesResultSchema,
+      ),
+      mcpClient
+        .request(
+          { method: 'resources/templates/list', params: {} },
+          ListResourceTemplatesResultSchema,
+        )
+        // Not all servers with resources have templates
+        .catch(() => ({ resourceTemplates: [] })),
+    ]);
+
+    resourceRegistry.setResourcesForServer(
+      mcpServerName,
+      resources.map((resource) => ({
+        ...resource,
+        serverName: mcpServerName,
+        read: () => readMcpResource(mcpServerName, mcpClient, resource.uri),
+      })),
+      resourceTemplates.map((template) => ({
+        ...template,
+        serverName: mcpServerName,
+        read: (uri: string) => readMcpResource(mcpServerName, mcpClient, uri),
+      })),
+    );
+    return resources.length > 0 || resourceTemplates.length > 0;
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      !error.message?.includes('Method not found')
+    ) {
+      console.error(
+        `Error discovering resources from ${mcpServerName}: ${getErrorMessage(
+          error,
+        )}`,
+      );
+    }
+    return false;
+  }
+}
+
+/**
+ * Reads a resource from a connected MCP client. If the server supports it,
+ * the client subscribes to changes of the resource on its first read.
+ *
+ * @param mcpServerName The name of the MCP server.
+ * @param mcpClient The active MCP client instance.
+ * @param uri The URI of the resource to read.
+ * @returns A promise that resolves to the contents of the resource.
+ */
+export async function readMcpResource(
+  mcpServerName: string,
+  mcpClient: Client,
+  uri: string,
+): Promise<ReadResourceResult> {
+  const result = await mcpClient.request(
+    { method: 'resources/read', params: { uri } },
+    ReadResourceResultSchema,
+  );
+
+  const subscribed = resourceSubscriptions.get(mcpClient) ?? new Set();
+  resourceSubscriptions.set(mcpClient, subscribed);
+  if (
+    mcpClient.getServerCapabilities()?.resources?.subscribe &&
+    !subscribed.has(uri)
+  ) {
+    subscribed.add(uri);
+    try {
+      await mcpClient.request(
+        { method: 'resources/subscribe', params: { uri } },
+        EmptyResultSchema,
+      );
+    } catch (error) {
+      console.error(
+        `Error subscribing to resource '${uri}' from ${mcpServerName}: ${getErrorMessage(
+          error,
+        )}`,
+      );
+    }
+  }
+  return result;
+}
+
 /**
  * Invokes a prompt on a connected MCP client.
  *
@@ -656,6 +1086,7 @@ export async function invokeMcpPrompt(
  *
  * @param mcpServerName The name of the MCP server, used for logging and identification.
  * @param mcpServerConfig The configuration specifying how to connect to the server.
+ * @param cliConfig The config of the session, used to answer sampling and elicitation requests.
  * @returns A promise that resolves to a connected MCP `Client` instance.
  * @throws An error if the connection fails or the configuration is invalid.
  */
@@ -664,6 +1095,7 @@ export async function connectToMcpServer(
   mcpServerConfig: MCPServerConfig,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
+  cliConfig: Config,
 ): Promise<Client> {
   const mcpClient = new Client({
     name: 'qwen-code-mcp-client',
@@ -672,6 +1104,8 @@ export async function connectToMcpServer(
 
   mcpClient.registerCapabilities({
     roots: {},
+    sampling: {},
+    elicitation: {},
   });
 
   mcpClient.setRequestHandler(ListRootsRequestSchema, async () => {
@@ -687,6 +1121,19 @@ export async function connectToMcpServer(
     };
   });
 
+  mcpClient.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+    createSamplingMessage(
+      mcpServerName,
+      request.params,
+      cliConfig,
+      extra.signal,
+    ),
+  );
+
+  mcpClient.setRequestHandler(ElicitRequestSchema, (request) =>
+    elicitUserInput(mcpServerName, request.params, cliConfig),
+  );
+
   // patch Client.callTool to use request timeout as genai McpCallTool.callTool does not do it
   // TODO: remove this hack once GenAI SDK does callTool with request options
   if ('callTool' in mcpClient) {
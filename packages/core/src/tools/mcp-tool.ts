@@ -62,6 +62,7 @@ export class DiscoveredMCPTool extends BaseTool<ToolParams, ToolResult> {
     readonly timeout?: number,
     readonly trust?: boolean,
     nameOverride?: string,
+    readonly readOnlyHint = false,
   ) {
     super(
       nameOverride ?? generateValidName(serverToolName),
@@ -84,9 +85,18 @@ export class DiscoveredMCPTool extends BaseTool<ToolParams, ToolResult> {
       this.timeout,
       this.trust,
       `${this.serverName}__${this.serverToolName}`,
+      this.readOnlyHint,
     );
   }
 
+  /**
+   * MCP tools are read-only when the server annotates them with
+   * `readOnlyHint`.
+   */
+  isReadOnly(_params: ToolParams): boolean {
+    return this.readOnlyHint;
+  }
+
   async shouldConfirmExecute(
     _params: ToolParams,
     _abortSignal: AbortSignal,
@@ -13,6 +13,7 @@ import fs from 'fs';
 import fsp from 'fs/promises';
 import { Config } from '../config/config.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import { StandardFileSystemService } from '../services/fileSystemService.js';
 import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
 import { ToolInvocation, ToolResult } from './tools.js';
 
@@ -30,6 +31,7 @@ describe('ReadFileTool', () => {
     const mockConfigInstance = {
       getFileService: () => new FileDiscoveryService(tempRootDir),
       getTargetDir: () => tempRootDir,
+      getFileSystemService: () => new StandardFileSystemService(),
       getWorkspaceContext: () => createMockWorkspaceContext(tempRootDir),
     } as unknown as Config;
     tool = new ReadFileTool(mockConfigInstance);
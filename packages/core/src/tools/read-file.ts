@@ -77,6 +77,7 @@ class ReadFileToolInvocation extends BaseToolInvocation<
       this.config.getTargetDir(),
       this.params.offset,
       this.params.limit,
+      this.config.getFileSystemService(),
     );
 
     if (result.error) {
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReadMcpResourceTool } from './read-mcp-resource.js';
+import { ToolErrorType } from './tool-error.js';
+import { Config } from '../config/config.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
+
+describe('ReadMcpResourceTool', () => {
+  const abortSignal = new AbortController().signal;
+  let read: ReturnType<typeof vi.fn>;
+  let tool: ReadMcpResourceTool;
+
+  beforeEach(() => {
+    read = vi.fn();
+    const resourceRegistry = new ResourceRegistry();
+    resourceRegistry.setResourcesForServer(
+      'docs',
+      [
+        {
+          uri: 'docs://readme',
+          name: 'readme',
+          description: 'The project readme',
+          serverName: 'docs',
+          read,
+        },
+      ],
+      [
+        {
+          uriTemplate: 'docs://pages/{page}',
+          name: 'page',
+          serverName: 'docs',
+          read: vi.fn(),
+        },
+      ],
+    );
+    tool = new ReadMcpResourceTool({
+      getResourceRegistry: () => resourceRegistry,
+    } as unknown as Config);
+  });
+
+  it('should list the resources of a server', async () => {
+    const result = await tool
+      .build({ server_name: 'docs' })
+      .execute(abortSignal);
+
+    expect(result.llmContent).toBe(
+      [
+        "Resources of MCP server 'docs':",
+        '- docs://readme (readme): The project readme',
+        '- docs://pages/{page} (template, page)',
+      ].join('\n'),
+    );
+    expect(result.returnDisplay).toBe('Found 2 resources');
+  });
+
+  it('should return text and binary contents', async () => {
+    read.mockResolvedValue({
+      contents: [
+        { uri: 'docs://readme', text: '# Readme' },
+        { uri: 'docs://logo', mimeType: 'image/png', blob: 'aGk=' },
+      ],
+    });
+
+    const invocation = tool.build({
+      server_name: 'docs',
+      uri: 'docs://readme',
+    });
+    const result = await invocation.execute(abortSignal);
+
+    expect(invocation.getDescription()).toBe('docs:docs://readme');
+    expect(result.llmContent).toEqual([
+      { text: '--- docs://readme ---\n\n# Readme\n\n' },
+      { inlineData: { mimeType: 'image/png', data: 'aGk=' } },
+    ]);
+    expect(result.returnDisplay).toBe('Read docs://readme');
+  });
+
+  it('should return an error when reading fails', async () => {
+    const result = await tool
+      .build({ server_name: 'docs', uri: 'docs://missing' })
+      .execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.MCP_RESOURCE_READ_FAILURE);
+    expect(result.llmContent).toBe(
+      "Error reading MCP resource: MCP server 'docs' has no resource with URI 'docs://missing'.",
+    );
+  });
+
+  it('should report reads that the server rejects', async () => {
+    read.mockRejectedValue(new Error('MCP error -32002: Resource not found'));
+
+    const result = await tool
+      .build({ server_name: 'docs', uri: 'docs://readme' })
+      .execute(abortSignal);
+
+    expect(result.error).toEqual({
+      message: 'MCP error -32002: Resource not found',
+      type: ToolErrorType.MCP_RESOURCE_READ_FAILURE,
+    });
+  });
+
+  it('should reject servers without resources', () => {
+    expect(() => tool.build({ server_name: 'other' })).toThrow(
+      "MCP server 'other' has no resources. Servers with resources: docs",
+    );
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Part, PartListUnion } from '@google/genai';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Icon,
+  ToolInvocation,
+  ToolResult,
+} from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { Config } from '../config/config.js';
+
+/**
+ * Parameters for the ReadMcpResourceTool
+ */
+export interface ReadMcpResourceToolParams {
+  /**
+   * The MCP server that provides the resource
+   */
+  server_name: string;
+
+  /**
+   * The URI of the resource to read (optional, lists the resources if omitted)
+   */
+  uri?: string;
+}
+
+class ReadMcpResourceToolInvocation extends BaseToolInvocation<
+  ReadMcpResourceToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: ReadMcpResourceToolParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return this.params.uri
+      ? `${this.params.server_name}:${this.params.uri}`
+      : `resources of ${this.params.server_name}`;
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    const resourceRegistry = this.config.getResourceRegistry();
+    const serverName = this.params.server_name;
+
+    if (!this.params.uri) {
+      const resources = resourceRegistry.getResourcesByServer(serverName);
+      const templates =
+        resourceRegistry.getResourceTemplatesByServer(serverName);
+      const lines = [
+        ...resources.map(
+          (resource) =>
+            `- ${resource.uri} (${resource.name})${resource.description ? `: ${resource.description}` : ''}`,
+        ),
+        ...templates.map(
+          (template) =>
+            `- ${template.uriTemplate} (template, ${template.name})${template.description ? `: ${template.description}` : ''}`,
+        ),
+      ];
+      return {
+        llmContent: `Resources of MCP server '${serverName}':\n${lines.join('\n')}`,
+        returnDisplay: `Found ${lines.length} resource${lines.length === 1 ? '' : 's'}`,
+      };
+    }
+
+    try {
+      const { contents } = await resourceRegistry.readResource(
+        serverName,
+        this.params.uri,
+      );
+      const parts: Part[] = [];
+      for (const content of contents) {
+        if ('text' in content && typeof content.text === 'string') {
+          parts.push({ text: `--- ${content.uri} ---\n\n${content.text}\n\n` });
+        } else if ('blob' in content && typeof content.blob === 'string') {
+          parts.push({
+            inlineData: {
+              mimeType: content.mimeType ?? 'application/octet-stream',
+              data: content.blob,
+            },
+          });
+        }
+      }
+      const llmContent: PartListUnion =
+        parts.length > 0
+          ? parts
+          : `Resource '${this.params.uri}' of MCP server '${serverName}' is empty.`;
+      return {
+        llmContent,
+        returnDisplay: `Read ${this.params.uri}`,
+      };
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      return {
+        llmContent: `Error reading MCP resource: ${errorMessage}`,
+        returnDisplay: `Error: ${errorMessage}`,
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.MCP_RESOURCE_READ_FAILURE,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Implementation of the tool that reads resources of MCP servers
+ */
+export class ReadMcpResourceTool extends BaseDeclarativeTool<
+  ReadMcpResourceToolParams,
+  ToolResult
+> {
+  static readonly Name = 'read_mcp_resource';
+
+  constructor(private readonly config: Config) {
+    super(
+      ReadMcpResourceTool.Name,
+      'ReadMcpResource',
+      'Reads a resource, such as a document, database schema or log, that an MCP server provides. Omit the URI to list the resources and resource templates of the server. The user can refer to resources as @server:uri.',
+      Icon.FileSearch,
+      {
+        properties: {
+          server_name: {
+            description:
+              'The name of the MCP server that provides the resource.',
+            type: 'string',
+          },
+          uri: {
+            description:
+              'Optional: The URI of the resource, either a listed one or one that matches a resource template of the server. If omitted, lists the resources of the server.',
+            type: 'string',
+          },
+        },
+        required: ['server_name'],
+        type: 'object',
+      },
+    );
+  }
+
+  /**
+   * Validates the parameters for the tool.
+   */
+  validateToolParams(params: ReadMcpResourceToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+
+    const resourceRegistry = this.config.getResourceRegistry();
+    if (!resourceRegistry.hasServer(params.server_name)) {
+      const serverNames = resourceRegistry.getServerNames();
+      return `MCP server '${params.server_name}' has no resources. Servers with resources: ${serverNames.join(', ') || 'none'}`;
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ReadMcpResourceToolParams,
+  ): ToolInvocation<ReadMcpResourceToolParams, ToolResult> {
+    return new ReadMcpResourceToolInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'path';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SemanticSearchTool } from './semantic-search.js';
+import { ToolErrorType } from './tool-error.js';
+import { Config } from '../config/config.js';
+import {
+  SemanticIndexUnavailableError,
+  SemanticSearchResult,
+} from '../semantic/semanticIndex.js';
+import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+
+describe('SemanticSearchTool', () => {
+  const rootDir = path.resolve('/project');
+  const abortSignal = new AbortController().signal;
+  let search: ReturnType<typeof vi.fn>;
+  let tool: SemanticSearchTool;
+
+  const result = (
+    overrides: Partial<SemanticSearchResult>,
+  ): SemanticSearchResult => ({
+    filePath: path.join(rootDir, 'src/retry.ts'),
+    startLine: 10,
+    endLine: 12,
+    name: 'retryWithBackoff',
+    text: 'export function retryWithBackoff() {\n  // ...\n}',
+    score: 0.8734,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    search = vi.fn();
+    tool = new SemanticSearchTool({
+      getTargetDir: () => rootDir,
+      getWorkspaceContext: () => createMockWorkspaceContext(rootDir),
+      getSemanticIndex: () => ({ search }),
+    } as unknown as Config);
+  });
+
+  it('should return ranked snippets with their locations', async () => {
+    search.mockResolvedValue([
+      result({}),
+      result({
+        filePath: path.join(rootDir, 'src/http.ts'),
+        startLine: 1,
+        endLine: 3,
+        name: undefined,
+        text: "import { retryWithBackoff } from './retry.js';",
+        score: 0.51,
+      }),
+    ]);
+
+    const invocation = tool.build({ query: 'retries', path: 'src' });
+    const toolResult = await invocation.execute(abortSignal);
+
+    expect(search).toHaveBeenCalledWith('retries', 10, {
+      directory: path.join(rootDir, 'src'),
+      signal: abortSignal,
+    });
+    expect(invocation.getDescription()).toBe("'retries' within src");
+    expect(toolResult.llmContent).toBe(
+      [
+        'Found 2 snippets for query "retries", most relevant first:',
+        '---',
+        'src/retry.ts:10-12 (retryWithBackoff), score 0.87',
+        '```',
+        'export function retryWithBackoff() {',
+        '  // ...',
+        '}',
+        '```',
+        '---',
+        'src/http.ts:1-3, score 0.51',
+        '```',
+        "import { retryWithBackoff } from './retry.js';",
+        '```',
+      ].join('\n'),
+    );
+    expect(toolResult.returnDisplay).toBe('Found 2 snippets');
+  });
+
+  it('should cut long snippets', async () => {
+    search.mockResolvedValue([
+      result({
+        text: Array.from({ length: 70 }, (_, i) => `line ${i}`).join('\n'),
+      }),
+    ]);
+
+    const toolResult = await tool
+      .build({ query: 'retries', max_results: 1 })
+      .execute(abortSignal);
+
+    expect(search).toHaveBeenCalledWith('retries', 1, {
+      directory: undefined,
+      signal: abortSignal,
+    });
+    expect(toolResult.llmContent).toContain('line 59\n... 10 more lines\n```');
+    expect(toolResult.llmContent).not.toContain('line 60');
+  });
+
+  it('should report when nothing is found', async () => {
+    search.mockResolvedValue([]);
+
+    const toolResult = await tool
+      .build({ query: 'retries' })
+      .execute(abortSignal);
+
+    expect(toolResult.llmContent).toBe(
+      'No indexed code found for query "retries".',
+    );
+  });
+
+  it('should report search errors', async () => {
+    search.mockRejectedValue(new Error('Embeddings are not supported'));
+
+    const toolResult = await tool
+      .build({ query: 'retries' })
+      .execute(abortSignal);
+
+    expect(toolResult.error).toEqual({
+      message: 'Embeddings are not supported',
+      type: ToolErrorType.SEMANTIC_SEARCH_FAILURE,
+    });
+  });
+
+  it('should ask for /index when the index cannot be built', async () => {
+    const message =
+      'The semantic index could not be built: Embeddings are not supported. Run /index update first.';
+    search.mockRejectedValue(new SemanticIndexUnavailableError(message));
+
+    const toolResult = await tool
+      .build({ query: 'retries' })
+      .execute(abortSignal);
+
+    expect(toolResult.llmContent).toBe(
+      `Error during semantic search: ${message}`,
+    );
+    expect(toolResult.error).toEqual({
+      message,
+      type: ToolErrorType.SEMANTIC_INDEX_UNAVAILABLE,
+    });
+  });
+
+  it('should reject empty queries and paths outside the workspace', () => {
+    expect(tool.validateToolParams({ query: '  ' })).toBe(
+      "The 'query' parameter cannot be empty.",
+    );
+    expect(tool.validateToolParams({ query: 'x', max_results: 0 })).toContain(
+      'max_results',
+    );
+    expect(
+      tool.validateToolParams({ query: 'x', path: '../elsewhere' }),
+    ).toContain('resolves outside the allowed workspace directories');
+  });
+});
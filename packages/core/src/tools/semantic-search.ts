@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'path';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Icon,
+  ToolInvocation,
+  ToolResult,
+} from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { Config } from '../config/config.js';
+import {
+  SemanticIndexUnavailableError,
+  SemanticSearchResult,
+} from '../semantic/semanticIndex.js';
+
+const DEFAULT_MAX_RESULTS = 10;
+const MAX_RESULTS_LIMIT = 50;
+
+/** Snippets are cut to this many lines in the output. */
+const MAX_SNIPPET_LINES = 60;
+
+/**
+ * Parameters for the SemanticSearchTool
+ */
+export interface SemanticSearchToolParams {
+  /**
+   * A natural language description of the code to find
+   */
+  query: string;
+
+  /**
+   * The directory to search in (optional, defaults to the whole workspace)
+   */
+  path?: string;
+
+  /**
+   * Maximum number of snippets to return (optional, defaults to 10)
+   */
+  max_results?: number;
+}
+
+function formatResult(config: Config, result: SemanticSearchResult): string {
+  const lines = result.text.split('\n');
+  const shown = lines.slice(0, MAX_SNIPPET_LINES);
+  const omitted = lines.length - shown.length;
+  const name = result.name ? ` (${result.name})` : '';
+  return [
+    `${makeRelative(result.filePath, config.getTargetDir())}:${result.startLine}-${result.endLine}${name}, score ${result.score.toFixed(2)}`,
+    '```',
+    ...shown,
+    ...(omitted > 0 ? [`... ${omitted} more lines`] : []),
+    '```',
+  ].join('\n');
+}
+
+class SemanticSearchToolInvocation extends BaseToolInvocation<
+  SemanticSearchToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: SemanticSearchToolParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    let description = `'${this.params.query}'`;
+    if (this.params.path) {
+      const searchDir = path.resolve(
+        this.config.getTargetDir(),
+        this.params.path,
+      );
+      description += ` within ${shortenPath(
+        makeRelative(searchDir, this.config.getTargetDir()),
+      )}`;
+    }
+    return description;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    try {
+      const results = await this.config
+        .getSemanticIndex()
+        .search(
+          this.params.query,
+          this.params.max_results ?? DEFAULT_MAX_RESULTS,
+          {
+            directory: this.params.path
+              ? path.resolve(this.config.getTargetDir(), this.params.path)
+              : undefined,
+            signal,
+          },
+        );
+      if (results.length === 0) {
+        return {
+          llmContent: `No indexed code found for query "${this.params.query}".`,
+          returnDisplay: 'No matches found',
+        };
+      }
+
+      const found = `${results.length} snippet${results.length === 1 ? '' : 's'}`;
+      return {
+        llmContent: `Found ${found} for query "${this.params.query}", most relevant first:\n---\n${results
+          .map((result) => formatResult(this.config, result))
+          .join('\n---\n')}`,
+        returnDisplay: `Found ${found}`,
+      };
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      return {
+        llmContent: `Error during semantic search: ${errorMessage}`,
+        returnDisplay: `Error: ${errorMessage}`,
+        error: {
+          message: errorMessage,
+          type:
+            error instanceof SemanticIndexUnavailableError
+              ? ToolErrorType.SEMANTIC_INDEX_UNAVAILABLE
+              : ToolErrorType.SEMANTIC_SEARCH_FAILURE,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Implementation of the semantic search tool logic
+ */
+export class SemanticSearchTool extends BaseDeclarativeTool<
+  SemanticSearchToolParams,
+  ToolResult
+> {
+  static readonly Name = 'semantic_search';
+
+  constructor(private readonly config: Config) {
+    super(
+      SemanticSearchTool.Name,
+      'SemanticSearch',
+      'Finds code by meaning rather than exact text, using an embedding index of the functions, classes and other chunks of the files in the workspace. Useful when you do not know the names to search for, e.g. "where are retries with backoff implemented". Returns the most relevant snippets with their file paths, line ranges and similarity scores. The index is built on first use and kept up to date as files change.',
+      Icon.FileSearch,
+      {
+        properties: {
+          query: {
+            description:
+              'A natural language description of the code to find, e.g. "parsing of command line arguments".',
+            type: 'string',
+          },
+          path: {
+            description:
+              'Optional: The directory to search within, absolute or relative to the project root. If omitted, searches the whole workspace.',
+            type: 'string',
+          },
+          max_results: {
+            description: `Optional: Maximum number of snippets to return (default: ${DEFAULT_MAX_RESULTS}, max: ${MAX_RESULTS_LIMIT}).`,
+            type: 'number',
+            minimum: 1,
+            maximum: MAX_RESULTS_LIMIT,
+          },
+        },
+        required: ['query'],
+        type: 'object',
+      },
+    );
+  }
+
+  /**
+   * Validates the parameters for the tool.
+   */
+  validateToolParams(params: SemanticSearchToolParams): string | null {
+    const errors = SchemaValidator.validate(
+      this.schema.parametersJsonSchema,
+      params,
+    );
+    if (errors) {
+      return errors;
+    }
+
+    if (params.query.trim() === '') {
+      return "The 'query' parameter cannot be empty.";
+    }
+    if (
+      params.max_results !== undefined &&
+      (!Number.isInteger(params.max_results) ||
+        params.max_results < 1 ||
+        params.max_results > MAX_RESULTS_LIMIT)
+    ) {
+      return `max_results must be an integer between 1 and ${MAX_RESULTS_LIMIT}, got: ${params.max_results}`;
+    }
+    if (params.path) {
+      const searchDir = path.resolve(this.config.getTargetDir(), params.path);
+      const workspaceContext = this.config.getWorkspaceContext();
+      if (!workspaceContext.isPathWithinWorkspace(searchDir)) {
+        return `Search path ("${searchDir}") resolves outside the allowed workspace directories: ${workspaceContext.getDirectories().join(', ')}`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: SemanticSearchToolParams,
+  ): ToolInvocation<SemanticSearchToolParams, ToolResult> {
+    return new SemanticSearchToolInvocation(this.config, params);
+  }
+}
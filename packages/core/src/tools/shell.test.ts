@@ -19,7 +19,17 @@ vi.mock('../services/shellExecutionService.js', () => ({
   ShellExecutionService: { execute: mockShellExecutionService },
 }));
 vi.mock('fs');
-vi.mock('os');
+// Core reads the home directory while it is imported.
+vi.mock('os', async (importOriginal) => {
+  const actualOs = await importOriginal<typeof import('os')>();
+  const mockOs = {
+    ...actualOs,
+    homedir: vi.fn(() => '/mock/home/user'),
+    platform: vi.fn(),
+    tmpdir: vi.fn(),
+  };
+  return { ...mockOs, default: mockOs };
+});
 vi.mock('crypto');
 vi.mock('../utils/summarizer.js');
 
@@ -57,6 +67,7 @@ describe('ShellTool', () => {
       getSummarizeToolOutputConfig: vi.fn().mockReturnValue(undefined),
       getWorkspaceContext: () => createMockWorkspaceContext('.'),
       getGeminiClient: vi.fn(),
+      getInteractiveShell: vi.fn().mockReturnValue(false),
       getGitCoAuthor: vi.fn().mockReturnValue({
         enabled: true,
         name: 'Qwen-Coder',
@@ -68,6 +79,7 @@ describe('ShellTool', () => {
 
     vi.mocked(os.platform).mockReturnValue('linux');
     vi.mocked(os.tmpdir).mockReturnValue('/tmp');
+    vi.mocked(fs.existsSync).mockReturnValue(false);
     (vi.mocked(crypto.randomBytes) as Mock).mockReturnValue(
       Buffer.from('abcdef', 'hex'),
     );
@@ -139,8 +151,9 @@ describe('ShellTool', () => {
     };
 
     it('should wrap command on linux and parse pgrep output', async () => {
+      // Commands with `&` are rejected by the security validation.
       const promise = shellTool.execute(
-        { command: 'my-command &' },
+        { command: 'my-command' },
         mockAbortSignal,
       );
       resolveShellExecution({ pid: 54321 });
@@ -151,12 +164,13 @@ describe('ShellTool', () => {
       const result = await promise;
 
       const tmpFile = path.join(os.tmpdir(), 'shell_pgrep_abcdef.tmp');
-      const wrappedCommand = `{ my-command & }; __code=$?; pgrep -g 0 >${tmpFile} 2>&1; exit $__code;`;
+      const wrappedCommand = `{ my-command; }; __code=$?; pgrep -g 0 >${tmpFile} 2>&1; exit $__code;`;
       expect(mockShellExecutionService).toHaveBeenCalledWith(
         wrappedCommand,
         expect.any(String),
         expect.any(Function),
         mockAbortSignal,
+        { usePty: false },
       );
       expect(result.llmContent).toContain('Background PIDs: 54322');
       expect(vi.mocked(fs.unlinkSync)).toHaveBeenCalledWith(tmpFile);
@@ -182,6 +196,7 @@ describe('ShellTool', () => {
         expect.any(String),
         expect.any(Function),
         mockAbortSignal,
+        { usePty: false },
       );
     });
 
@@ -394,6 +409,69 @@ describe('ShellTool', () => {
         await promise;
       });
     });
+
+    describe('pseudo-terminal', () => {
+      const succeed = () =>
+        resolveExecutionPromise({
+          rawOutput: Buffer.from(''),
+          output: '',
+          stdout: '',
+          stderr: '',
+          exitCode: 0,
+          signal: null,
+          error: null,
+          aborted: false,
+          pid: 12345,
+        });
+
+      it('should show the terminal of commands in a pseudo-terminal', async () => {
+        (mockConfig.getInteractiveShell as Mock).mockReturnValue(true);
+        const updateOutputMock = vi.fn();
+        const promise = shellTool.execute(
+          { command: 'npm init' },
+          mockAbortSignal,
+          updateOutputMock,
+        );
+
+        // The screen is only rendered once the command has started.
+        await new Promise((resolve) => setImmediate(resolve));
+        const lines = [[{ text: 'package name: ', bold: true }]];
+        mockShellOutputCallback({ type: 'terminal', lines });
+        succeed();
+        await promise;
+
+        expect(mockShellExecutionService).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.any(String),
+          expect.any(Function),
+          mockAbortSignal,
+          { usePty: true },
+        );
+        expect(updateOutputMock).toHaveBeenCalledWith({
+          pid: 12345,
+          terminal: lines,
+        });
+      });
+
+      it('should use pipes when the interactive shell is disabled', async () => {
+        (mockConfig.getInteractiveShell as Mock).mockReturnValue(false);
+        const promise = shellTool.execute(
+          { command: 'npm init' },
+          mockAbortSignal,
+        );
+        succeed();
+        await promise;
+
+        expect(mockConfig.getInteractiveShell).toHaveBeenCalled();
+        expect(mockShellExecutionService).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.any(String),
+          expect.any(Function),
+          mockAbortSignal,
+          { usePty: false },
+        );
+      });
+    });
   });
 
   describe('shouldConfirmExecute', () => {
@@ -15,6 +15,7 @@ import {
   ToolCallConfirmationDetails,
   ToolExecuteConfirmationDetails,
   ToolConfirmationOutcome,
+  ToolResultDisplay,
   Icon,
 } from './tools.js';
 import { ToolErrorType } from './tool-error.js';
@@ -29,6 +30,7 @@ import { formatMemoryUsage } from '../utils/formatters.js';
 import {
   getCommandRoots,
   isCommandAllowed,
+  isReadOnlyCommand,
   stripShellWrapper,
 } from '../utils/shell-utils.js';
 
@@ -48,7 +50,7 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
     super(
       ShellTool.Name,
       'Shell',
-      `This tool executes a given shell command as \`bash -c <command>\`. Command can start background processes using \`&\`. Command is executed as a subprocess that leads its own process group. Command process group can be terminated as \`kill -- -PGID\` or signaled as \`kill -s SIGNAL -- -PGID\`.
+      `This tool executes a given shell command as \`bash -c <command>\`. Command can start background processes using \`&\`, but their later output cannot be read; use \`start_background_job\` instead for servers, watchers and other commands that keep running. Command is executed as a subprocess that leads its own process group. Command process group can be terminated as \`kill -- -PGID\` or signaled as \`kill -s SIGNAL -- -PGID\`.
 
       The following information is returned:
 
@@ -153,6 +155,10 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
     return null;
   }
 
+  isReadOnly(params: ShellToolParams): boolean {
+    return isReadOnlyCommand(stripShellWrapper(params.command));
+  }
+
   async shouldConfirmExecute(
     params: ShellToolParams,
     _abortSignal: AbortSignal,
@@ -188,7 +194,7 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
   async execute(
     params: ShellToolParams,
     signal: AbortSignal,
-    updateOutput?: (output: string) => void,
+    updateOutput?: (output: ToolResultDisplay) => void,
   ): Promise<ToolResult> {
     const strippedCommand = stripShellWrapper(params.command);
     const validationError = this.validateToolParams({
@@ -244,7 +250,7 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
       let lastUpdateTime = Date.now();
       let isBinaryStream = false;
 
-      const { result: resultPromise } = ShellExecutionService.execute(
+      const handle = await ShellExecutionService.execute(
         commandToExecute,
         cwd,
         (event: ShellOutputEvent) => {
@@ -252,7 +258,7 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
             return;
           }
 
-          let currentDisplayOutput = '';
+          let currentDisplayOutput: ToolResultDisplay = '';
           let shouldUpdate = false;
 
           switch (event.type) {
@@ -285,6 +291,15 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
                 shouldUpdate = true;
               }
               break;
+            case 'terminal':
+              // The service already limits how often the screen is rendered,
+              // and typed input should show up right away.
+              currentDisplayOutput = {
+                pid: handle.pid!,
+                terminal: event.lines,
+              };
+              shouldUpdate = true;
+              break;
             default: {
               throw new Error('An unhandled ShellOutputEvent was found.');
             }
@@ -296,9 +311,15 @@ export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
           }
         },
         signal,
+        {
+          // Commands in the background would be hung up with the terminal.
+          usePty:
+            this.config.getInteractiveShell() &&
+            !processedCommand.trim().endsWith('&'),
+        },
       );
 
-      const result = await resultPromise;
+      const result = await handle.result;
 
       const backgroundPIDs: number[] = [];
       if (os.platform() !== 'win32') {
@@ -13,6 +13,8 @@ export enum ToolErrorType {
   UNKNOWN = 'unknown',
   UNHANDLED_EXCEPTION = 'unhandled_exception',
   TOOL_NOT_REGISTERED = 'tool_not_registered',
+  PLAN_MODE_RESTRICTED = 'plan_mode_restricted',
+  HOOK_DENIED = 'hook_denied',
 
   // File System Errors
   FILE_NOT_FOUND = 'file_not_found',
@@ -29,4 +31,18 @@ export enum ToolErrorType {
   EDIT_NO_OCCURRENCE_FOUND = 'edit_no_occurrence_found',
   EDIT_EXPECTED_OCCURRENCE_MISMATCH = 'edit_expected_occurrence_mismatch',
   EDIT_NO_CHANGE = 'edit_no_change',
+
+  // Background Job Errors
+  BACKGROUND_JOB_FAILURE = 'background_job_failure',
+
+  // Language Server Errors
+  LSP_SERVER_UNAVAILABLE = 'lsp_server_unavailable',
+  LSP_REQUEST_FAILURE = 'lsp_request_failure',
+
+  // Semantic Search Errors
+  SEMANTIC_INDEX_UNAVAILABLE = 'semantic_index_unavailable',
+  SEMANTIC_SEARCH_FAILURE = 'semantic_search_failure',
+
+  // MCP Errors
+  MCP_RESOURCE_READ_FAILURE = 'mcp_resource_read_failure',
 }
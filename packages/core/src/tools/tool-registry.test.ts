@@ -142,6 +142,10 @@ describe('ToolRegistry', () => {
       clear: vi.fn(),
       removePromptsByServer: vi.fn(),
     } as any);
+    vi.spyOn(config, 'getResourceRegistry').mockReturnValue({
+      clear: vi.fn(),
+      removeResourcesByServer: vi.fn(),
+    } as any);
     mockDiscoverMcpTools.mockReset().mockResolvedValue(undefined);
   });
 
@@ -328,8 +332,10 @@ describe('ToolRegistry', () => {
         undefined,
         toolRegistry,
         config.getPromptRegistry(),
+        config.getResourceRegistry(),
         false,
         expect.any(Object),
+        config,
       );
     });
 
@@ -352,8 +358,10 @@ describe('ToolRegistry', () => {
         undefined,
         toolRegistry,
         config.getPromptRegistry(),
+        config.getResourceRegistry(),
         false,
         expect.any(Object),
+        config,
       );
     });
   });
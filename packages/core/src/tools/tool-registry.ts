@@ -150,6 +150,18 @@ export class ToolRegistry {
     this.tools.set(tool.name, tool);
   }
 
+  /**
+   * Removes the tools that were discovered from an MCP server.
+   * @param serverName - The name of the server.
+   */
+  removeMcpToolsByServer(serverName: string): void {
+    for (const [name, tool] of this.tools.entries()) {
+      if (tool instanceof DiscoveredMCPTool && tool.serverName === serverName) {
+        this.tools.delete(name);
+      }
+    }
+  }
+
   private removeDiscoveredTools(): void {
     for (const tool of this.tools.values()) {
       if (tool instanceof DiscoveredTool || tool instanceof DiscoveredMCPTool) {
@@ -168,6 +180,7 @@ export class ToolRegistry {
     this.removeDiscoveredTools();
 
     this.config.getPromptRegistry().clear();
+    this.config.getResourceRegistry().clear();
 
     await this.discoverAndRegisterToolsFromCommand();
 
@@ -177,8 +190,10 @@ export class ToolRegistry {
       this.config.getMcpServerCommand(),
       this,
       this.config.getPromptRegistry(),
+      this.config.getResourceRegistry(),
       this.config.getDebugMode(),
       this.config.getWorkspaceContext(),
+      this.config,
     );
   }
 
@@ -192,6 +207,7 @@ export class ToolRegistry {
     this.removeDiscoveredTools();
 
     this.config.getPromptRegistry().clear();
+    this.config.getResourceRegistry().clear();
 
     // discover tools using MCP servers, if configured
     await discoverMcpTools(
@@ -199,8 +215,10 @@ export class ToolRegistry {
       this.config.getMcpServerCommand(),
       this,
       this.config.getPromptRegistry(),
+      this.config.getResourceRegistry(),
       this.config.getDebugMode(),
       this.config.getWorkspaceContext(),
+      this.config,
     );
   }
 
@@ -210,13 +228,10 @@ export class ToolRegistry {
    */
   async discoverToolsForServer(serverName: string): Promise<void> {
     // Remove any previously discovered tools from this server
-    for (const [name, tool] of this.tools.entries()) {
-      if (tool instanceof DiscoveredMCPTool && tool.serverName === serverName) {
-        this.tools.delete(name);
-      }
-    }
+    this.removeMcpToolsByServer(serverName);
 
     this.config.getPromptRegistry().removePromptsByServer(serverName);
+    this.config.getResourceRegistry().removeResourcesByServer(serverName);
 
     const mcpServers = this.config.getMcpServers() ?? {};
     const serverConfig = mcpServers[serverName];
@@ -226,8 +241,10 @@ export class ToolRegistry {
         undefined,
         this,
         this.config.getPromptRegistry(),
+        this.config.getResourceRegistry(),
         this.config.getDebugMode(),
         this.config.getWorkspaceContext(),
+        this.config,
       );
     }
   }
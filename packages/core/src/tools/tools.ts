@@ -7,6 +7,7 @@
 import { FunctionDeclaration, PartListUnion } from '@google/genai';
 import { ToolErrorType } from './tool-error.js';
 import { DiffUpdateResult } from '../ide/ideContext.js';
+import { TerminalLine } from '../utils/terminalSerializer.js';
 
 /**
  * Represents a validated and ready-to-execute tool call.
@@ -49,7 +50,7 @@ export interface ToolInvocation<
    */
   execute(
     signal: AbortSignal,
-    updateOutput?: (output: string) => void,
+    updateOutput?: (output: ToolResultDisplay) => void,
   ): Promise<TResult>;
 }
 
@@ -77,7 +78,7 @@ export abstract class BaseToolInvocation<
 
   abstract execute(
     signal: AbortSignal,
-    updateOutput?: (output: string) => void,
+    updateOutput?: (output: ToolResultDisplay) => void,
   ): Promise<TResult>;
 }
 
@@ -116,7 +117,7 @@ export class LegacyToolInvocation<
 
   execute(
     signal: AbortSignal,
-    updateOutput?: (output: string) => void,
+    updateOutput?: (output: ToolResultDisplay) => void,
   ): Promise<TResult> {
     return this.legacyTool.execute(this.params, signal, updateOutput);
   }
@@ -211,6 +212,18 @@ export abstract class DeclarativeTool<
     return null;
   }
 
+  /**
+   * Whether a call with the given parameters leaves files, commands and other
+   * state untouched. Plan mode only runs read-only calls.
+   * By default, tools that search, list or fetch are read-only, and tools that
+   * edit, run commands, save memories or call out to other tools are not.
+   * Subclasses should override this when it depends on the parameters.
+   * @param params The raw parameters from the model.
+   */
+  isReadOnly(_params: TParams): boolean {
+    return READ_ONLY_ICONS.has(this.icon);
+  }
+
   /**
    * The core of the new pattern. It validates parameters and, if successful,
    * returns a `ToolInvocation` object that encapsulates the logic for the
@@ -231,7 +244,7 @@ export abstract class DeclarativeTool<
   async buildAndExecute(
     params: TParams,
     signal: AbortSignal,
-    updateOutput?: (output: string) => void,
+    updateOutput?: (output: ToolResultDisplay) => void,
   ): Promise<TResult> {
     const invocation = this.build(params);
     return invocation.execute(signal, updateOutput);
@@ -372,7 +385,7 @@ export abstract class BaseTool<
   abstract execute(
     params: TParams,
     signal: AbortSignal,
-    updateOutput?: (output: string) => void,
+    updateOutput?: (output: ToolResultDisplay) => void,
   ): Promise<TResult>;
 }
 
@@ -491,7 +504,11 @@ export function hasCycleInSchema(schema: object): boolean {
   return traverse(schema, new Set<string>(), new Set<string>());
 }
 
-export type ToolResultDisplay = string | FileDiff;
+export type ToolResultDisplay =
+  | string
+  | FileDiff
+  | SubagentProgressDisplay
+  | TerminalDisplay;
 
 export interface FileDiff {
   fileDiff: string;
@@ -501,6 +518,36 @@ export interface FileDiff {
   diffStat?: DiffStat;
 }
 
+/**
+ * Structured display for a tool that runs a subagent, so the UI can render the
+ * subagent's own tool calls as a nested group under the parent tool call.
+ */
+export interface SubagentProgressDisplay {
+  subagentName: string;
+  task: string;
+  toolCalls: SubagentToolCallDisplay[];
+  // Set once the subagent has finished.
+  terminateReason?: string;
+}
+
+/**
+ * Structured display of a command running in a pseudo-terminal, so the UI can
+ * render the terminal with its colors and let the user type into it.
+ */
+export interface TerminalDisplay {
+  // The process ID of the pseudo-terminal, for `ShellExecutionService.writeToPty`.
+  pid: number;
+  terminal: TerminalLine[];
+}
+
+export interface SubagentToolCallDisplay {
+  callId: string;
+  name: string;
+  description: string;
+  status: 'executing' | 'success' | 'error';
+  resultDisplay?: string;
+}
+
 export interface DiffStat {
   ai_removed_lines: number;
   ai_added_lines: number;
@@ -547,6 +594,14 @@ export interface ToolMcpConfirmationDetails {
   onConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>;
 }
 
+export interface ToolPlanConfirmationDetails {
+  type: 'plan';
+  title: string;
+  onConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>;
+  // The plan, as markdown
+  plan: string;
+}
+
 export interface ToolInfoConfirmationDetails {
   type: 'info';
   title: string;
@@ -559,7 +614,8 @@ export type ToolCallConfirmationDetails =
   | ToolEditConfirmationDetails
   | ToolExecuteConfirmationDetails
   | ToolMcpConfirmationDetails
-  | ToolInfoConfirmationDetails;
+  | ToolInfoConfirmationDetails
+  | ToolPlanConfirmationDetails;
 
 export enum ToolConfirmationOutcome {
   ProceedOnce = 'proceed_once',
@@ -581,6 +637,13 @@ export enum Icon {
   Terminal = 'terminal',
 }
 
+const READ_ONLY_ICONS: ReadonlySet<Icon> = new Set([
+  Icon.FileSearch,
+  Icon.Folder,
+  Icon.Globe,
+  Icon.Regex,
+]);
+
 export interface ToolLocation {
   // Absolute path to the file
   path: string;
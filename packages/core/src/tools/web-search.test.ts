@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WebSearchTool } from './web-search.js';
+import { Config } from '../config/config.js';
+import { WebSearchProvider } from '../web-search/types.js';
+
+describe('WebSearchTool', () => {
+  const signal = new AbortController().signal;
+
+  const createTool = (provider: WebSearchProvider | undefined) =>
+    new WebSearchTool({
+      getWebSearchProvider: () => provider,
+      getWebSearchConfig: () => ({ maxResults: 2 }),
+    } as unknown as Config);
+
+  it('returns the answer with numbered sources', async () => {
+    const search = vi.fn().mockResolvedValue({
+      answer: 'Use the LTS release.',
+      results: [
+        { title: 'Releases', url: 'https://nodejs.org/en/about/releases' },
+      ],
+    });
+    const tool = createTool({ displayName: 'Tavily', search });
+
+    const result = await tool.execute({ query: 'node version' }, signal);
+
+    expect(search).toHaveBeenCalledWith('node version', {
+      maxResults: 2,
+      signal: expect.any(AbortSignal),
+    });
+    expect(result.llmContent).toBe(
+      'Web search results for "node version":\n\nUse the LTS release.\n\nSources:\n[1] Releases (https://nodejs.org/en/about/releases)',
+    );
+    expect(result.returnDisplay).toBe(
+      'Search results for "node version" returned by Tavily.',
+    );
+    expect(result.sources).toEqual([
+      { title: 'Releases', url: 'https://nodejs.org/en/about/releases' },
+    ]);
+  });
+
+  it('summarizes the results of backends without answers', async () => {
+    const tool = createTool({
+      displayName: 'SearxNG',
+      search: vi.fn().mockResolvedValue({
+        results: [
+          {
+            title: 'A',
+            url: 'https://a.example',
+            snippet: 'First\n  result',
+            publishedDate: '2025-03-01',
+          },
+          { title: 'B', url: 'https://b.example' },
+        ],
+      }),
+    });
+
+    const result = await tool.execute({ query: 'q' }, signal);
+
+    expect(result.llmContent).toBe(
+      'Web search results for "q":\n\n[1] A (2025-03-01)\nFirst result\n\n[2] B\n\nSources:\n[1] A (https://a.example)\n[2] B (https://b.example)',
+    );
+  });
+
+  it('reports empty results and search errors', async () => {
+    const search = vi.fn().mockResolvedValueOnce({ results: [] });
+    const tool = createTool({ displayName: 'Brave', search });
+
+    expect((await tool.execute({ query: 'q' }, signal)).llmContent).toBe(
+      'No search results or information found for query: "q"',
+    );
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    search.mockRejectedValueOnce(new Error('Brave API error: 429'));
+    expect((await tool.execute({ query: 'q' }, signal)).llmContent).toBe(
+      'Error: Error during web search for query "q": Brave API error: 429',
+    );
+  });
+
+  it('explains how to enable search when no provider is configured', async () => {
+    const result = await createTool(undefined).execute({ query: 'q' }, signal);
+
+    expect(result.llmContent).toContain('no search provider is configured');
+  });
+});
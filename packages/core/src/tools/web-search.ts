@@ -8,20 +8,10 @@ import { BaseTool, Icon, ToolResult } from './tools.js';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { Config } from '../config/config.js';
+import { formatWebSearchResponse } from '../web-search/format.js';
 
-interface TavilyResultItem {
-  title: string;
-  url: string;
-  content?: string;
-  score?: number;
-  published_date?: string;
-}
-
-interface TavilySearchResponse {
-  query: string;
-  answer?: string;
-  results: TavilyResultItem[];
-}
+const DEFAULT_MAX_RESULTS = 5;
+const DEFAULT_TIMEOUT_MS = 15000;
 
 /**
  * Parameters for the WebSearchTool.
@@ -41,7 +31,8 @@ export interface WebSearchToolResult extends ToolResult {
 }
 
 /**
- * A tool to perform web searches using Tavily API.
+ * A tool to perform web searches with the backend selected by the `webSearch`
+ * settings (Tavily, Brave, SearxNG or a JSON endpoint).
  */
 export class WebSearchTool extends BaseTool<
   WebSearchToolParams,
@@ -52,8 +43,8 @@ export class WebSearchTool extends BaseTool<
   constructor(private readonly config: Config) {
     super(
       WebSearchTool.Name,
-      'TavilySearch',
-      'Performs a web search using the Tavily API and returns a concise answer with sources. Requires the TAVILY_API_KEY environment variable.',
+      'WebSearch',
+      'Performs a web search and returns a concise answer or summaries of the top results, with numbered sources.',
       Icon.Globe,
       {
         type: 'object',
@@ -94,7 +85,7 @@ export class WebSearchTool extends BaseTool<
 
   async execute(
     params: WebSearchToolParams,
-    _signal: AbortSignal,
+    signal: AbortSignal,
   ): Promise<WebSearchToolResult> {
     const validationError = this.validateToolParams(params);
     if (validationError) {
@@ -104,67 +95,26 @@ export class WebSearchTool extends BaseTool<
       };
     }
 
-    const apiKey = this.config.getTavilyApiKey() || process.env.TAVILY_API_KEY;
-    if (!apiKey) {
+    const provider = this.config.getWebSearchProvider();
+    if (!provider) {
       return {
         llmContent:
-          'Web search is disabled because TAVILY_API_KEY is not configured. Please set it in your settings.json, .env file, or via --tavily-api-key command line argument to enable web search.',
+          'Web search is disabled because no search provider is configured. Please configure "webSearch" in your settings.json, or set TAVILY_API_KEY, to enable web search.',
         returnDisplay:
-          'Web search disabled. Configure TAVILY_API_KEY to enable Tavily search.',
+          'Web search disabled. Configure a search provider to enable it.',
       };
     }
 
+    const { maxResults = DEFAULT_MAX_RESULTS, timeout = DEFAULT_TIMEOUT_MS } =
+      this.config.getWebSearchConfig();
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000);
-      const response = await fetch('https://api.tavily.com/search', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          api_key: apiKey,
-          query: params.query,
-          search_depth: 'advanced',
-          max_results: 5,
-          include_answer: true,
-        }),
-        signal: controller.signal,
+      const response = await provider.search(params.query, {
+        maxResults,
+        signal: AbortSignal.any([signal, AbortSignal.timeout(timeout)]),
       });
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const text = await response.text().catch(() => '');
-        throw new Error(
-          `Tavily API error: ${response.status} ${response.statusText}${text ? ` - ${text}` : ''}`,
-        );
-      }
 
-      const data = (await response.json()) as TavilySearchResponse;
-
-      const sources = (data.results || []).map((r) => ({
-        title: r.title,
-        url: r.url,
-      }));
-
-      const sourceListFormatted = sources.map(
-        (s, i) => `[${i + 1}] ${s.title || 'Untitled'} (${s.url})`,
-      );
-
-      let content = data.answer?.trim() || '';
+      const content = formatWebSearchResponse(response);
       if (!content) {
-        // Fallback: build a concise summary from top results
-        content = sources
-          .slice(0, 3)
-          .map((s, i) => `${i + 1}. ${s.title} - ${s.url}`)
-          .join('\n');
-      }
-
-      if (sourceListFormatted.length > 0) {
-        content += `\n\nSources:\n${sourceListFormatted.join('\n')}`;
-      }
-
-      if (!content.trim()) {
         return {
           llmContent: `No search results or information found for query: "${params.query}"`,
           returnDisplay: 'No information found.',
@@ -173,8 +123,8 @@ export class WebSearchTool extends BaseTool<
 
       return {
         llmContent: `Web search results for "${params.query}":\n\n${content}`,
-        returnDisplay: `Search results for "${params.query}" returned.`,
-        sources,
+        returnDisplay: `Search results for "${params.query}" returned by ${provider.displayName}.`,
+        sources: response.results.map(({ title, url }) => ({ title, url })),
       };
     } catch (error: unknown) {
       const errorMessage = `Error during web search for query "${params.query}": ${getErrorMessage(
@@ -33,6 +33,7 @@ import {
   CorrectedEditResult,
 } from '../utils/editCorrector.js';
 import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+import { StandardFileSystemService } from '../services/fileSystemService.js';
 
 const rootDir = path.resolve(os.tmpdir(), 'qwen-code-test-root');
 
@@ -51,8 +52,10 @@ vi.mocked(ensureCorrectFileContent).mockImplementation(
 );
 
 // Mock Config
+const fileSystemService = new StandardFileSystemService();
 const mockConfigInternal = {
   getTargetDir: () => rootDir,
+  getFileSystemService: () => fileSystemService,
   getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
   setApprovalMode: vi.fn(),
   getGeminiClient: vi.fn(), // Initialize as a plain mock function
@@ -320,10 +323,9 @@ describe('WriteFileTool', () => {
       fs.writeFileSync(filePath, 'content', { mode: 0o000 });
 
       const readError = new Error('Permission denied');
-      const originalReadFileSync = fs.readFileSync;
-      vi.spyOn(fs, 'readFileSync').mockImplementationOnce(() => {
-        throw readError;
-      });
+      vi.spyOn(fileSystemService, 'readTextFile').mockRejectedValueOnce(
+        readError,
+      );
 
       // @ts-expect-error _getCorrectedFileContent is private
       const result = await tool._getCorrectedFileContent(
@@ -332,7 +334,7 @@ describe('WriteFileTool', () => {
         abortSignal,
       );
 
-      expect(fs.readFileSync).toHaveBeenCalledWith(filePath, 'utf8');
+      expect(fileSystemService.readTextFile).toHaveBeenCalledWith(filePath);
       expect(mockEnsureCorrectEdit).not.toHaveBeenCalled();
       expect(mockEnsureCorrectFileContent).not.toHaveBeenCalled();
       expect(result.correctedContent).toBe(proposedContent);
@@ -343,7 +345,6 @@ describe('WriteFileTool', () => {
         code: undefined,
       });
 
-      vi.spyOn(fs, 'readFileSync').mockImplementation(originalReadFileSync);
       fs.chmodSync(filePath, 0o600);
     });
   });
@@ -369,15 +370,13 @@ describe('WriteFileTool', () => {
       fs.writeFileSync(filePath, 'original', { mode: 0o000 });
 
       const readError = new Error('Simulated read error for confirmation');
-      const originalReadFileSync = fs.readFileSync;
-      vi.spyOn(fs, 'readFileSync').mockImplementationOnce(() => {
-        throw readError;
-      });
+      vi.spyOn(fileSystemService, 'readTextFile').mockRejectedValueOnce(
+        readError,
+      );
 
       const confirmation = await tool.shouldConfirmExecute(params, abortSignal);
       expect(confirmation).toBe(false);
 
-      vi.spyOn(fs, 'readFileSync').mockImplementation(originalReadFileSync);
       fs.chmodSync(filePath, 0o600);
     });
 
@@ -494,10 +493,9 @@ describe('WriteFileTool', () => {
       fs.writeFileSync(filePath, 'original', { mode: 0o000 });
 
       const readError = new Error('Simulated read error for execute');
-      const originalReadFileSync = fs.readFileSync;
-      vi.spyOn(fs, 'readFileSync').mockImplementationOnce(() => {
-        throw readError;
-      });
+      vi.spyOn(fileSystemService, 'readTextFile').mockRejectedValueOnce(
+        readError,
+      );
 
       const result = await tool.execute(params, abortSignal);
       expect(result.llmContent).toContain('Error checking existing file:');
@@ -510,7 +508,6 @@ describe('WriteFileTool', () => {
         type: ToolErrorType.FILE_WRITE_FAILURE,
       });
 
-      vi.spyOn(fs, 'readFileSync').mockImplementation(originalReadFileSync);
       fs.chmodSync(filePath, 0o600);
     });
 
@@ -732,13 +729,10 @@ describe('WriteFileTool', () => {
       const filePath = path.join(rootDir, 'permission_denied_file.txt');
       const content = 'test content';
 
-      // Mock writeFileSync to throw EACCES error
-      const originalWriteFileSync = fs.writeFileSync;
-      vi.spyOn(fs, 'writeFileSync').mockImplementationOnce(() => {
-        const error = new Error('Permission denied') as NodeJS.ErrnoException;
-        error.code = 'EACCES';
-        throw error;
-      });
+      // Make the write fail with EACCES
+      const error = new Error('Permission denied') as NodeJS.ErrnoException;
+      error.code = 'EACCES';
+      vi.spyOn(fileSystemService, 'writeTextFile').mockRejectedValueOnce(error);
 
       const params = { file_path: filePath, content };
       const result = await tool.execute(params, abortSignal);
@@ -748,23 +742,18 @@ describe('WriteFileTool', () => {
         `Permission denied writing to file: ${filePath} (EACCES)`,
       );
       expect(result.returnDisplay).toContain('Permission denied');
-
-      vi.spyOn(fs, 'writeFileSync').mockImplementation(originalWriteFileSync);
     });
 
     it('should return NO_SPACE_LEFT error when write fails with ENOSPC', async () => {
       const filePath = path.join(rootDir, 'no_space_file.txt');
       const content = 'test content';
 
-      // Mock writeFileSync to throw ENOSPC error
-      const originalWriteFileSync = fs.writeFileSync;
-      vi.spyOn(fs, 'writeFileSync').mockImplementationOnce(() => {
-        const error = new Error(
-          'No space left on device',
-        ) as NodeJS.ErrnoException;
-        error.code = 'ENOSPC';
-        throw error;
-      });
+      // Make the write fail with ENOSPC
+      const error = new Error(
+        'No space left on device',
+      ) as NodeJS.ErrnoException;
+      error.code = 'ENOSPC';
+      vi.spyOn(fileSystemService, 'writeTextFile').mockRejectedValueOnce(error);
 
       const params = { file_path: filePath, content };
       const result = await tool.execute(params, abortSignal);
@@ -774,8 +763,6 @@ describe('WriteFileTool', () => {
         `No space left on device: ${filePath} (ENOSPC)`,
       );
       expect(result.returnDisplay).toContain('No space left');
-
-      vi.spyOn(fs, 'writeFileSync').mockImplementation(originalWriteFileSync);
     });
 
     it('should return TARGET_IS_DIRECTORY error when write fails with EISDIR', async () => {
@@ -791,13 +778,10 @@ describe('WriteFileTool', () => {
         return originalExistsSync(path as string);
       });
 
-      // Mock writeFileSync to throw EISDIR error
-      const originalWriteFileSync = fs.writeFileSync;
-      vi.spyOn(fs, 'writeFileSync').mockImplementationOnce(() => {
-        const error = new Error('Is a directory') as NodeJS.ErrnoException;
-        error.code = 'EISDIR';
-        throw error;
-      });
+      // Make the write fail with EISDIR
+      const error = new Error('Is a directory') as NodeJS.ErrnoException;
+      error.code = 'EISDIR';
+      vi.spyOn(fileSystemService, 'writeTextFile').mockRejectedValueOnce(error);
 
       const params = { file_path: dirPath, content };
       const result = await tool.execute(params, abortSignal);
@@ -809,7 +793,6 @@ describe('WriteFileTool', () => {
       expect(result.returnDisplay).toContain('Target is a directory');
 
       vi.spyOn(fs, 'existsSync').mockImplementation(originalExistsSync);
-      vi.spyOn(fs, 'writeFileSync').mockImplementation(originalWriteFileSync);
     });
 
     it('should return FILE_WRITE_FAILURE for generic write errors', async () => {
@@ -819,10 +802,10 @@ describe('WriteFileTool', () => {
       // Ensure fs.existsSync is not mocked for this test
       vi.restoreAllMocks();
 
-      // Mock writeFileSync to throw generic error
-      vi.spyOn(fs, 'writeFileSync').mockImplementationOnce(() => {
-        throw new Error('Generic write error');
-      });
+      // Make the write fail with a generic error
+      vi.spyOn(fileSystemService, 'writeTextFile').mockRejectedValueOnce(
+        new Error('Generic write error'),
+      );
 
       const params = { file_path: filePath, content };
       const result = await tool.execute(params, abortSignal);
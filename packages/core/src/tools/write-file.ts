@@ -15,6 +15,7 @@ import {
   ToolEditConfirmationDetails,
   ToolConfirmationOutcome,
   ToolCallConfirmationDetails,
+  ToolLocation,
   Icon,
 } from './tools.js';
 import { ToolErrorType } from './tool-error.js';
@@ -185,6 +186,10 @@ export class WriteFileTool
     return `Writing to ${shortenPath(relativePath)}`;
   }
 
+  override toolLocations(params: WriteFileToolParams): ToolLocation[] {
+    return [{ path: params.file_path }];
+  }
+
   /**
    * Handles the confirmation prompt for the WriteFile tool.
    */
@@ -316,7 +321,9 @@ export class WriteFileTool
         fs.mkdirSync(dirName, { recursive: true });
       }
 
-      fs.writeFileSync(params.file_path, fileContent, 'utf8');
+      await this.config
+        .getFileSystemService()
+        .writeTextFile(params.file_path, fileContent);
 
       // Generate diff for display result
       const fileName = path.basename(params.file_path);
@@ -443,7 +450,9 @@ export class WriteFileTool
     let correctedContent = proposedContent;
 
     try {
-      originalContent = fs.readFileSync(filePath, 'utf8');
+      originalContent = await this.config
+        .getFileSystemService()
+        .readTextFile(filePath);
       fileExists = true; // File exists and was read
     } catch (err) {
       if (isNodeError(err) && err.code === 'ENOENT') {
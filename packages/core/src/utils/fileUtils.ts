@@ -8,6 +8,10 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { PartUnion } from '@google/genai';
 import mime from 'mime-types';
+import {
+  FileSystemService,
+  StandardFileSystemService,
+} from '../services/fileSystemService.js';
 
 // Constants for text file processing
 const DEFAULT_MAX_LINES_TEXT_FILE = 2000;
@@ -218,6 +222,7 @@ export interface ProcessedFileReadResult {
  * @param rootDirectory Absolute path to the project root for relative path display.
  * @param offset Optional offset for text files (0-based line number).
  * @param limit Optional limit for text files (number of lines to read).
+ * @param fileSystemService The service that reads text files.
  * @returns ProcessedFileReadResult object.
  */
 export async function processSingleFileContent(
@@ -225,6 +230,7 @@ export async function processSingleFileContent(
   rootDirectory: string,
   offset?: number,
   limit?: number,
+  fileSystemService: FileSystemService = new StandardFileSystemService(),
 ): Promise<ProcessedFileReadResult> {
   try {
     if (!fs.existsSync(filePath)) {
@@ -286,7 +292,7 @@ export async function processSingleFileContent(
         };
       }
       case 'text': {
-        const content = await fs.promises.readFile(filePath, 'utf8');
+        const content = await fileSystemService.readTextFile(filePath);
         const lines = content.split('\n');
         const originalLineCount = lines.length;
 
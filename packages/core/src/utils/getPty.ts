@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** The parts of a node-pty process that the CLI uses. */
+export interface PtyProcess {
+  readonly pid: number;
+  onData(listener: (data: string) => void): unknown;
+  onExit(
+    listener: (event: { exitCode: number; signal?: number }) => void,
+  ): unknown;
+  write(data: string): void;
+  resize(columns: number, rows: number): void;
+  kill(signal?: string): void;
+}
+
+/** The parts of the node-pty module that the CLI uses. */
+export interface PtyModule {
+  spawn(
+    file: string,
+    args: string[],
+    options: {
+      name?: string;
+      cols?: number;
+      rows?: number;
+      cwd?: string;
+      env?: Record<string, string | undefined>;
+    },
+  ): PtyProcess;
+}
+
+let cachedPty: PtyModule | null | undefined;
+
+/**
+ * Loads the native pseudo-terminal module. It is an optional dependency, so
+ * this returns null if it is not installed or has no build for this platform.
+ */
+export async function getPty(): Promise<PtyModule | null> {
+  if (cachedPty === undefined) {
+    try {
+      // Not a literal, so the type check does not require the module.
+      const moduleName = '@lydell/node-pty';
+      const pty = await import(moduleName);
+      cachedPty = (pty.default ?? pty) as PtyModule;
+    } catch {
+      cachedPty = null;
+    }
+  }
+  return cachedPty;
+}
@@ -25,6 +25,20 @@ export interface ValidationLimits {
   maxFileSize?: number;
 }
 
+export interface DetectedSecret {
+  type: string;
+  start: number;
+  end: number;
+}
+
+interface SecretPattern {
+  type: string;
+  pattern: RegExp;
+  // The capture group holding the secret, when the match includes its label.
+  // The group must end the match.
+  valueGroup?: number;
+}
+
 export interface ValidationContext {
   toolName: string;
   parameterName: string;
@@ -80,6 +94,25 @@ export class InputValidator {
     maxFileSize: 50 * 1024 * 1024, // 50MB
   };
 
+  private static readonly SECRET_PATTERNS: SecretPattern[] = [
+    {
+      type: 'private_key',
+      pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    },
+    { type: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+    { type: 'github_token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+    { type: 'anthropic_api_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+    { type: 'openai_api_key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+    { type: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+    { type: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+    { type: 'bearer_token', pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{20,}=*)/g, valueGroup: 1 },
+    {
+      type: 'credential',
+      pattern: /\b[A-Za-z0-9_]*(?:api[_-]?key|secret|token|password|passwd)[A-Za-z0-9_]*['"]?\s*[:=]\s*['"]?([^\s'"]{8,})/gi,
+      valueGroup: 1,
+    },
+  ];
+
   private auditLogger: AuditLogger;
 
   constructor() {
@@ -471,6 +504,39 @@ export class InputValidator {
     return suspiciousPatterns.some(pattern => pattern.test(url));
   }
 
+  /**
+   * Finds API keys, tokens, private keys and credential assignments in text.
+   * Overlapping matches are reported once, keeping the first pattern that matched.
+   */
+  static detectSecrets(text: string): DetectedSecret[] {
+    const found: DetectedSecret[] = [];
+    for (const { type, pattern, valueGroup } of InputValidator.SECRET_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const end = match.index! + match[0].length;
+        const start = valueGroup ? end - match[valueGroup].length : match.index!;
+        if (!found.some((secret) => start < secret.end && end > secret.start)) {
+          found.push({ type, start, end });
+        }
+      }
+    }
+    return found.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Replaces every secret found by `detectSecrets` with a `[REDACTED:<type>]` marker.
+   */
+  static redactSecrets(text: string): string {
+    let redacted = text;
+    const secrets = InputValidator.detectSecrets(text);
+    for (const secret of secrets.reverse()) {
+      redacted =
+        redacted.slice(0, secret.start) +
+        `[REDACTED:${secret.type}]` +
+        redacted.slice(secret.end);
+    }
+    return redacted;
+  }
+
   /**
    * Creates tool-specific validation limits
    */
@@ -12,6 +12,7 @@ export const GEMINI_DIR = '.qwen';
 export const GOOGLE_ACCOUNTS_FILENAME = 'google_accounts.json';
 const TMP_DIR_NAME = 'tmp';
 const COMMANDS_DIR_NAME = 'commands';
+const AGENTS_DIR_NAME = 'agents';
 
 /**
  * Special characters that need to be escaped in file paths for shell compatibility.
@@ -200,3 +201,20 @@ export function getUserCommandsDir(): string {
 export function getProjectCommandsDir(projectRoot: string): string {
   return path.join(projectRoot, GEMINI_DIR, COMMANDS_DIR_NAME);
 }
+
+/**
+ * Returns the absolute path to the user-level subagent profiles directory.
+ * @returns The path to the user's agents directory.
+ */
+export function getUserAgentsDir(): string {
+  return path.join(os.homedir(), GEMINI_DIR, AGENTS_DIR_NAME);
+}
+
+/**
+ * Returns the absolute path to the project-level subagent profiles directory.
+ * @param projectRoot The absolute path to the project's root directory.
+ * @returns The path to the project's agents directory.
+ */
+export function getProjectAgentsDir(projectRoot: string): string {
+  return path.join(projectRoot, GEMINI_DIR, AGENTS_DIR_NAME);
+}
@@ -9,6 +9,7 @@ import {
   checkCommandPermissions,
   getCommandRoots,
   isCommandAllowed,
+  isReadOnlyCommand,
   stripShellWrapper,
 } from './shell-utils.js';
 import { Config } from '../config/config.js';
@@ -252,6 +253,11 @@ describe('getCommandRoots', () => {
     const result = getCommandRoots('echo "hello" && git commit -m "feat"');
     expect(result).toEqual(['echo', 'git']);
   });
+
+  it('should split commands on lines outside of quotes', () => {
+    expect(getCommandRoots('ls\nrm -rf foo')).toEqual(['ls', 'rm']);
+    expect(getCommandRoots('echo "a\nb"')).toEqual(['echo']);
+  });
 });
 
 describe('stripShellWrapper', () => {
@@ -275,3 +281,55 @@ describe('stripShellWrapper', () => {
     expect(stripShellWrapper('ls -l')).toEqual('ls -l');
   });
 });
+
+describe('isReadOnlyCommand', () => {
+  it('should allow chains of read-only commands', () => {
+    expect(isReadOnlyCommand('ls -la && cat README.md')).toBe(true);
+    expect(isReadOnlyCommand('git log --oneline | head -5')).toBe(true);
+    expect(isReadOnlyCommand('grep -r "a > b" src 2>/dev/null')).toBe(true);
+    expect(isReadOnlyCommand('find . -name "*.ts"')).toBe(true);
+  });
+
+  it('should reject commands that may write', () => {
+    expect(isReadOnlyCommand('rm -rf dist')).toBe(false);
+    expect(isReadOnlyCommand('ls && npm install')).toBe(false);
+    expect(isReadOnlyCommand('git commit -m "msg"')).toBe(false);
+    expect(isReadOnlyCommand('find . -name "*.log" -delete')).toBe(false);
+  });
+
+  it('should reject read-only commands with options that write or run programs', () => {
+    expect(isReadOnlyCommand('tree -o tree.txt')).toBe(false);
+    expect(isReadOnlyCommand('tree -ao tree.txt')).toBe(false);
+    expect(isReadOnlyCommand('git diff --output=changes.patch')).toBe(false);
+    expect(isReadOnlyCommand('git log --output log.txt')).toBe(false);
+    expect(isReadOnlyCommand('git grep -Ovim TODO')).toBe(false);
+    expect(isReadOnlyCommand('rg --pre ./run.sh TODO')).toBe(false);
+    expect(isReadOnlyCommand('rg --pre=./run.sh TODO')).toBe(false);
+    expect(isReadOnlyCommand('date -s "2020-01-01"')).toBe(false);
+    expect(isReadOnlyCommand('date --set="2020-01-01"')).toBe(false);
+    expect(isReadOnlyCommand('less -o copy.txt notes.md')).toBe(false);
+    expect(isReadOnlyCommand('uniq input.txt output.txt')).toBe(false);
+  });
+
+  it('should allow the same commands without those options', () => {
+    expect(isReadOnlyCommand('tree -a src')).toBe(true);
+    expect(isReadOnlyCommand('git diff --stat')).toBe(true);
+    expect(isReadOnlyCommand('rg -o "TODO.*" src')).toBe(true);
+    expect(isReadOnlyCommand('date +%s')).toBe(true);
+    expect(isReadOnlyCommand('cat words.txt | uniq -c')).toBe(true);
+    expect(isReadOnlyCommand('uniq -c words.txt')).toBe(true);
+  });
+
+  it('should reject redirections to files and command substitution', () => {
+    expect(isReadOnlyCommand('ls > files.txt')).toBe(false);
+    expect(isReadOnlyCommand('echo hi >> notes.md')).toBe(false);
+    expect(isReadOnlyCommand('cat $(rm -rf dist)')).toBe(false);
+  });
+
+  it('should check each line of a multi-line command', () => {
+    expect(isReadOnlyCommand('ls\nrm -rf foo')).toBe(false);
+    expect(isReadOnlyCommand('ls\ntouch x')).toBe(false);
+    expect(isReadOnlyCommand('ls\ncat README.md\n')).toBe(true);
+    expect(isReadOnlyCommand('grep "a\nb" notes.md')).toBe(true);
+  });
+});
@@ -8,7 +8,8 @@ import { Config } from '../config/config.js';
 
 /**
  * Splits a shell command into a list of individual commands, respecting quotes.
- * This is used to separate chained commands (e.g., using &&, ||, ;).
+ * This is used to separate chained commands (e.g., using &&, ||, ; or
+ * newlines).
  * @param command The shell command string to parse
  * @returns An array of individual command strings
  */
@@ -43,7 +44,12 @@ export function splitCommands(command: string): string[] {
         commands.push(currentCommand.trim());
         currentCommand = '';
         i++; // Skip the next character
-      } else if (char === ';' || char === '&' || char === '|') {
+      } else if (
+        char === ';' ||
+        char === '&' ||
+        char === '|' ||
+        char === '\n'
+      ) {
         commands.push(currentCommand.trim());
         currentCommand = '';
       } else {
@@ -513,3 +519,149 @@ export function isCommandAllowed(
   }
   return { allowed: false, reason: blockReason };
 }
+
+// Commands that only read files or report on the system, unless they are
+// given one of their WRITE_OPTIONS.
+const READ_ONLY_COMMANDS = new Set([
+  'cat',
+  'head',
+  'tail',
+  'less',
+  'more',
+  'ls',
+  'tree',
+  'pwd',
+  'echo',
+  'printf',
+  'wc',
+  'grep',
+  'egrep',
+  'fgrep',
+  'rg',
+  'file',
+  'stat',
+  'du',
+  'df',
+  'which',
+  'whereis',
+  'type',
+  'whoami',
+  'id',
+  'date',
+  'uname',
+  'printenv',
+  'basename',
+  'dirname',
+  'realpath',
+  'readlink',
+  'diff',
+  'cmp',
+  'uniq',
+  'cut',
+  'tr',
+  'nl',
+  'jq',
+  'md5sum',
+  'sha1sum',
+  'sha256sum',
+  'ps',
+]);
+
+const READ_ONLY_GIT_SUBCOMMANDS = new Set([
+  'status',
+  'log',
+  'diff',
+  'show',
+  'blame',
+  'grep',
+  'ls-files',
+  'rev-parse',
+  'describe',
+  'shortlog',
+]);
+
+const FIND_WRITE_ACTIONS = new Set([
+  '-delete',
+  '-exec',
+  '-execdir',
+  '-ok',
+  '-okdir',
+  '-fprint',
+  '-fprint0',
+  '-fprintf',
+  '-fls',
+]);
+
+// Options that make an otherwise read-only command write files, change the
+// system or run other programs, keyed by command or git subcommand. Short
+// options also match when combined with others, e.g. `-ao` for `-o`.
+const WRITE_OPTIONS: Record<string, string[]> = {
+  tree: ['-o'],
+  less: ['-o', '-O', '--log-file', '--LOG-FILE'],
+  file: ['-C', '--compile'],
+  rg: ['--pre'],
+  date: ['-s', '--set'],
+  'git diff': ['--output'],
+  'git log': ['--output'],
+  'git show': ['--output'],
+  'git grep': ['-O', '--open-files-in-pager'],
+};
+
+function hasWriteOption(key: string, args: string[]): boolean {
+  const options = WRITE_OPTIONS[key] ?? [];
+  return args.some((arg) =>
+    options.some((option) =>
+      option.startsWith('--')
+        ? arg === option || arg.startsWith(`${option}=`)
+        : /^-[^-]/.test(arg) && arg.includes(option.charAt(1)),
+    ),
+  );
+}
+
+/**
+ * Detects redirections that write to a file. Redirections to `/dev/null` and
+ * between file descriptors (e.g. `2>&1`) are not counted.
+ */
+function hasOutputRedirection(command: string): boolean {
+  const unquoted = command
+    .replace(/'[^']*'|"(?:\\.|[^"\\])*"/g, '')
+    .replace(/\d*>>?\s*\/dev\/null/g, '')
+    .replace(/\d*>&\d/g, '');
+  return unquoted.includes('>');
+}
+
+function isReadOnlySimpleCommand(command: string): boolean {
+  const root = getCommandRoot(command);
+  const args = command.trim().split(/\s+/).slice(1);
+  if (root === 'git') {
+    return (
+      READ_ONLY_GIT_SUBCOMMANDS.has(args[0]) &&
+      !hasWriteOption(`git ${args[0]}`, args.slice(1))
+    );
+  }
+  if (root === 'find') {
+    return !args.some((arg) => FIND_WRITE_ACTIONS.has(arg));
+  }
+  if (root === 'uniq') {
+    // `uniq INPUT OUTPUT` writes to OUTPUT.
+    return args.filter((arg) => !arg.startsWith('-')).length < 2;
+  }
+  return !!root && READ_ONLY_COMMANDS.has(root) && !hasWriteOption(root, args);
+}
+
+/**
+ * Checks whether a shell command only reads files and reports on the system.
+ * Commands that are not known to be read-only, command substitutions and
+ * redirections to files all make the command count as writing.
+ * @param command The shell command string to check
+ * @returns true if every command in the chain is read-only
+ * @example isReadOnlyCommand("git log | head -5") returns true
+ * @example isReadOnlyCommand("ls > files.txt") returns false
+ */
+export function isReadOnlyCommand(command: string): boolean {
+  if (detectCommandSubstitution(command) || hasOutputRedirection(command)) {
+    return false;
+  }
+  const commands = splitCommands(command);
+  return commands.length > 0 && commands.every(isReadOnlySimpleCommand);
+}
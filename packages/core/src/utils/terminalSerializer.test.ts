@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import xtermHeadless from '@xterm/headless';
+import {
+  serializeTerminalScreen,
+  serializeTerminalText,
+  terminalLinesToText,
+} from './terminalSerializer.js';
+
+const { Terminal } = xtermHeadless;
+
+async function createTerminal(
+  data: string,
+  columns = 20,
+  rows = 5,
+): Promise<InstanceType<typeof Terminal>> {
+  const terminal = new Terminal({
+    cols: columns,
+    rows,
+    scrollback: 100,
+    allowProposedApi: true,
+  });
+  await new Promise<void>((resolve) => terminal.write(data, resolve));
+  return terminal;
+}
+
+describe('terminalSerializer', () => {
+  describe('serializeTerminalScreen', () => {
+    it('should split lines into spans with the same style', async () => {
+      const terminal = await createTerminal(
+        'plain \x1b[1;31mbold red\x1b[0m\r\n\x1b[38;5;208morange\x1b[0m \x1b[48;2;0;128;255mbg\x1b[0m',
+      );
+
+      expect(serializeTerminalScreen(terminal)).toEqual([
+        [{ text: 'plain ' }, { text: 'bold red', fg: 'red', bold: true }],
+        [
+          { text: 'orange', fg: 'ansi256(208)' },
+          { text: ' ' },
+          { text: 'bg', bg: '#0080ff' },
+        ],
+      ]);
+    });
+
+    it('should only return the visible screen', async () => {
+      const terminal = await createTerminal(
+        '1\r\n2\r\n3\r\n4\r\n5\r\n6',
+        20,
+        3,
+      );
+
+      expect(terminalLinesToText(serializeTerminalScreen(terminal))).toBe(
+        '4\n5\n6',
+      );
+    });
+
+    it('should render what the command drew over earlier output', async () => {
+      const terminal = await createTerminal('Progress: 10%\rProgress: 99%');
+
+      expect(serializeTerminalScreen(terminal)).toEqual([
+        [{ text: 'Progress: 99%' }],
+      ]);
+    });
+  });
+
+  describe('serializeTerminalText', () => {
+    it('should include the scrollback and join wrapped lines', async () => {
+      const terminal = await createTerminal(
+        'first\r\nthis line is longer than ten\r\nlast\r\n\r\n',
+        10,
+        2,
+      );
+
+      expect(serializeTerminalText(terminal)).toBe(
+        'first\nthis line is longer than ten\nlast',
+      );
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IBufferCell, IBufferLine, Terminal } from '@xterm/headless';
+
+/**
+ * A run of terminal text that shares the same style. Colors are ANSI color
+ * names, `ansi256(n)` palette colors or `#rrggbb` hex colors.
+ */
+export interface TerminalSpan {
+  text: string;
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strikethrough?: boolean;
+}
+
+/** A line of the terminal, split into styled spans. */
+export type TerminalLine = TerminalSpan[];
+
+const ANSI_COLOR_NAMES = [
+  'black',
+  'red',
+  'green',
+  'yellow',
+  'blue',
+  'magenta',
+  'cyan',
+  'white',
+  'gray',
+  'redBright',
+  'greenBright',
+  'yellowBright',
+  'blueBright',
+  'magentaBright',
+  'cyanBright',
+  'whiteBright',
+];
+
+function toColor(
+  isRGB: boolean,
+  isPalette: boolean,
+  color: number,
+): string | undefined {
+  if (isRGB) {
+    return `#${color.toString(16).padStart(6, '0')}`;
+  }
+  if (isPalette) {
+    return ANSI_COLOR_NAMES[color] ?? `ansi256(${color})`;
+  }
+  return undefined;
+}
+
+function getCellStyle(cell: IBufferCell): Omit<TerminalSpan, 'text'> {
+  const style: Omit<TerminalSpan, 'text'> = {};
+  const fg = toColor(cell.isFgRGB(), cell.isFgPalette(), cell.getFgColor());
+  const bg = toColor(cell.isBgRGB(), cell.isBgPalette(), cell.getBgColor());
+  if (fg) style.fg = fg;
+  if (bg) style.bg = bg;
+  if (cell.isBold()) style.bold = true;
+  if (cell.isDim()) style.dim = true;
+  if (cell.isItalic()) style.italic = true;
+  if (cell.isUnderline()) style.underline = true;
+  if (cell.isInverse()) style.inverse = true;
+  if (cell.isStrikethrough()) style.strikethrough = true;
+  return style;
+}
+
+function isSameStyle(
+  a: Omit<TerminalSpan, 'text'>,
+  b: Omit<TerminalSpan, 'text'>,
+): boolean {
+  return (
+    a.fg === b.fg &&
+    a.bg === b.bg &&
+    a.bold === b.bold &&
+    a.dim === b.dim &&
+    a.italic === b.italic &&
+    a.underline === b.underline &&
+    a.inverse === b.inverse &&
+    a.strikethrough === b.strikethrough
+  );
+}
+
+function serializeLine(line: IBufferLine, columns: number): TerminalLine {
+  // Trailing blank cells without a background are not part of the output.
+  let end = 0;
+  for (let x = 0; x < columns; x++) {
+    const cell = line.getCell(x);
+    if (cell && (cell.getChars() !== '' || !cell.isBgDefault())) {
+      end = x + cell.getWidth();
+    }
+  }
+
+  const spans: TerminalLine = [];
+  for (let x = 0; x < end; x++) {
+    const cell = line.getCell(x);
+    // The second half of a wide character has a width of 0.
+    if (!cell || cell.getWidth() === 0) {
+      continue;
+    }
+    const style = getCellStyle(cell);
+    const text = cell.getChars() || ' ';
+    const last = spans[spans.length - 1];
+    if (last && isSameStyle(last, style)) {
+      last.text += text;
+    } else {
+      spans.push({ text, ...style });
+    }
+  }
+  return spans;
+}
+
+/**
+ * Returns the visible screen of the terminal as styled lines, without the
+ * blank lines below the last output.
+ */
+export function serializeTerminalScreen(terminal: Terminal): TerminalLine[] {
+  const buffer = terminal.buffer.active;
+  const lines: TerminalLine[] = [];
+  for (let y = 0; y < terminal.rows; y++) {
+    const line = buffer.getLine(buffer.baseY + y);
+    lines.push(line ? serializeLine(line, terminal.cols) : []);
+  }
+  while (lines.length > 0 && lines[lines.length - 1].length === 0) {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Returns all text of the terminal, including the scrollback, as plain text.
+ * Lines that the terminal wrapped are joined again.
+ */
+export function serializeTerminalText(terminal: Terminal): string {
+  const buffer = terminal.buffer.active;
+  const lines: string[] = [];
+  for (let y = 0; y < buffer.length; y++) {
+    const line = buffer.getLine(y);
+    if (!line) {
+      continue;
+    }
+    const text = line.translateToString(true);
+    if (line.isWrapped && lines.length > 0) {
+      lines[lines.length - 1] += text;
+    } else {
+      lines.push(text);
+    }
+  }
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  return lines.join('\n');
+}
+
+/** Returns the text of styled terminal lines without their styles. */
+export function terminalLinesToText(lines: TerminalLine[]): string {
+  return lines.map((line) => line.map((span) => span.text).join('')).join('\n');
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { WebSearchResponse } from './types.js';
+
+const MAX_SNIPPET_LENGTH = 300;
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > MAX_SNIPPET_LENGTH
+    ? `${singleLine.slice(0, MAX_SNIPPET_LENGTH)}...`
+    : singleLine;
+}
+
+/**
+ * Formats a search response for the model: the direct answer if the backend
+ * gave one, otherwise a summary of each result, followed by the numbered list
+ * of sources that the summaries cite.
+ * @returns An empty string if there is neither an answer nor any result.
+ */
+export function formatWebSearchResponse(response: WebSearchResponse): string {
+  const { answer, results } = response;
+
+  let content = answer?.trim() || '';
+  if (!content) {
+    content = results
+      .map((result, i) => {
+        const date = result.publishedDate ? ` (${result.publishedDate})` : '';
+        const snippet = result.snippet ? `\n${truncate(result.snippet)}` : '';
+        return `[${i + 1}] ${result.title}${date}${snippet}`;
+      })
+      .join('\n\n');
+  }
+
+  if (results.length > 0) {
+    const sources = results.map(
+      (result, i) => `[${i + 1}] ${result.title} (${result.url})`,
+    );
+    content += `\n\nSources:\n${sources.join('\n')}`;
+  }
+
+  return content.trim();
+}
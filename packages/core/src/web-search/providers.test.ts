@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  BraveSearchProvider,
+  JsonEndpointSearchProvider,
+  SearxngSearchProvider,
+  TavilySearchProvider,
+  createWebSearchProvider,
+} from './providers.js';
+
+describe('web search providers', () => {
+  const signal = new AbortController().signal;
+  const fetchMock = vi.fn();
+
+  const respondWith = (body: unknown) =>
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify(body), { status: 200 }),
+    );
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('TAVILY_API_KEY', '');
+    vi.stubEnv('BRAVE_API_KEY', '');
+    vi.stubEnv('SEARXNG_URL', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    fetchMock.mockReset();
+  });
+
+  it('normalizes Tavily results and answers', async () => {
+    respondWith({
+      query: 'node',
+      answer: ' Node.js 22 is the current LTS. ',
+      results: [
+        { title: 'Releases', url: 'https://nodejs.org', content: 'LTS list' },
+        { title: 'Duplicate', url: 'https://nodejs.org' },
+      ],
+    });
+
+    const response = await new TavilySearchProvider('tvly-key').search('node', {
+      maxResults: 3,
+      signal,
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      api_key: 'tvly-key',
+      query: 'node',
+      max_results: 3,
+    });
+    expect(response).toEqual({
+      answer: 'Node.js 22 is the current LTS.',
+      results: [
+        { title: 'Releases', url: 'https://nodejs.org', snippet: 'LTS list' },
+      ],
+    });
+  });
+
+  it('strips highlighting from Brave results', async () => {
+    respondWith({
+      web: {
+        results: [
+          {
+            title: 'About <strong>Node</strong>',
+            url: 'https://nodejs.org/en/about',
+            description: 'An <strong>asynchronous</strong> runtime',
+            page_age: '2025-01-02',
+          },
+        ],
+      },
+    });
+
+    const response = await new BraveSearchProvider('brave-key').search('node', {
+      maxResults: 5,
+      signal,
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'https://api.search.brave.com/res/v1/web/search?q=node&count=5',
+    );
+    expect(init.headers['X-Subscription-Token']).toBe('brave-key');
+    expect(response.results).toEqual([
+      {
+        title: 'About Node',
+        url: 'https://nodejs.org/en/about',
+        snippet: 'An asynchronous runtime',
+        publishedDate: '2025-01-02',
+      },
+    ]);
+  });
+
+  it('queries the JSON API of a SearxNG instance', async () => {
+    respondWith({
+      answers: [{ answer: '42' }],
+      results: [
+        { title: 'A', url: 'https://a.example', content: 'first' },
+        { title: 'B', url: 'https://b.example', publishedDate: null },
+      ],
+    });
+
+    const response = await new SearxngSearchProvider(
+      'http://localhost:8888/searx',
+    ).search('meaning of life', { maxResults: 1, signal });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:8888/searx/search?q=meaning+of+life&format=json',
+    );
+    expect(response).toEqual({
+      answer: '42',
+      results: [{ title: 'A', url: 'https://a.example', snippet: 'first' }],
+    });
+  });
+
+  it('maps the fields of a generic JSON endpoint', async () => {
+    respondWith({
+      data: {
+        items: [{ name: 'Doc', link: 'https://docs.example', summary: 'S' }],
+      },
+    });
+    const provider = new JsonEndpointSearchProvider({
+      url: 'https://search.example/api?q={query}&n={maxResults}',
+      headers: { Authorization: 'Bearer token' },
+      resultsPath: 'data.items',
+      titleField: 'name',
+      urlField: 'link',
+      snippetField: 'summary',
+    });
+
+    const response = await provider.search('a b', { maxResults: 2, signal });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://search.example/api?q=a%20b&n=2',
+    );
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(
+      'Bearer token',
+    );
+    expect(response.results).toEqual([
+      { title: 'Doc', url: 'https://docs.example', snippet: 'S' },
+    ]);
+  });
+
+  it('reports HTTP and response shape errors', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('invalid key', { status: 401, statusText: 'Unauthorized' }),
+    );
+    await expect(
+      new BraveSearchProvider('bad').search('q', { maxResults: 5, signal }),
+    ).rejects.toThrow('Brave API error: 401 Unauthorized - invalid key');
+
+    respondWith({ items: [] });
+    await expect(
+      new JsonEndpointSearchProvider({
+        url: 'https://search.example/api?q={query}',
+        resultsPath: 'results',
+      }).search('q', { maxResults: 5, signal }),
+    ).rejects.toThrow('Expected an array of results at "results"');
+  });
+
+  it('creates the selected provider only when it is configured', () => {
+    expect(createWebSearchProvider({})).toBeUndefined();
+    expect(createWebSearchProvider({ apiKey: 'key' })).toBeInstanceOf(
+      TavilySearchProvider,
+    );
+    expect(createWebSearchProvider({ provider: 'brave' })).toBeUndefined();
+
+    vi.stubEnv('BRAVE_API_KEY', 'env-key');
+    expect(createWebSearchProvider({ provider: 'brave' })).toBeInstanceOf(
+      BraveSearchProvider,
+    );
+    expect(
+      createWebSearchProvider({
+        provider: 'searxng',
+        baseUrl: 'http://localhost:8888',
+      }),
+    ).toBeInstanceOf(SearxngSearchProvider);
+    expect(createWebSearchProvider({ provider: 'json' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  JsonSearchEndpointConfig,
+  WebSearchConfig,
+  WebSearchOptions,
+  WebSearchProvider,
+  WebSearchResponse,
+  WebSearchResult,
+} from './types.js';
+
+const TAVILY_SEARCH_URL = 'https://api.tavily.com/search';
+const BRAVE_SEARCH_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+async function fetchJson(
+  providerName: string,
+  url: string,
+  init: RequestInit,
+): Promise<unknown> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(
+      `${providerName} API error: ${response.status} ${response.statusText}${text ? ` - ${text}` : ''}`,
+    );
+  }
+  return response.json();
+}
+
+function getPath(value: unknown, path: string | undefined): unknown {
+  if (!path) {
+    return value;
+  }
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value,
+    );
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== ''
+    ? value.trim()
+    : undefined;
+}
+
+function stripHtml(text: string | undefined): string | undefined {
+  return text?.replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Keeps the results that have a URL, dropping duplicates, up to `maxResults`.
+ */
+function normalizeResults(
+  results: Array<Partial<WebSearchResult>>,
+  maxResults: number,
+): WebSearchResult[] {
+  const seen = new Set<string>();
+  const normalized: WebSearchResult[] = [];
+  for (const result of results) {
+    if (!result.url || seen.has(result.url)) {
+      continue;
+    }
+    seen.add(result.url);
+    normalized.push({
+      title: result.title || 'Untitled',
+      url: result.url,
+      ...(result.snippet ? { snippet: result.snippet } : {}),
+      ...(result.publishedDate ? { publishedDate: result.publishedDate } : {}),
+    });
+    if (normalized.length >= maxResults) {
+      break;
+    }
+  }
+  return normalized;
+}
+
+interface TavilyResultItem {
+  title: string;
+  url: string;
+  content?: string;
+  score?: number;
+  published_date?: string;
+}
+
+interface TavilySearchResponse {
+  query: string;
+  answer?: string;
+  results: TavilyResultItem[];
+}
+
+export class TavilySearchProvider implements WebSearchProvider {
+  readonly displayName = 'Tavily';
+
+  constructor(private readonly apiKey: string) {}
+
+  async search(
+    query: string,
+    { maxResults, signal }: WebSearchOptions,
+  ): Promise<WebSearchResponse> {
+    const data = (await fetchJson(this.displayName, TAVILY_SEARCH_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        api_key: this.apiKey,
+        query,
+        search_depth: 'advanced',
+        max_results: maxResults,
+        include_answer: true,
+      }),
+      signal,
+    })) as TavilySearchResponse;
+
+    return {
+      answer: asString(data.answer),
+      results: normalizeResults(
+        (data.results || []).map((r) => ({
+          title: r.title,
+          url: r.url,
+          snippet: asString(r.content),
+          publishedDate: r.published_date,
+        })),
+        maxResults,
+      ),
+    };
+  }
+}
+
+interface BraveSearchResponse {
+  web?: {
+    results?: Array<{
+      title?: string;
+      url?: string;
+      description?: string;
+      page_age?: string;
+    }>;
+  };
+}
+
+export class BraveSearchProvider implements WebSearchProvider {
+  readonly displayName = 'Brave';
+
+  constructor(private readonly apiKey: string) {}
+
+  async search(
+    query: string,
+    { maxResults, signal }: WebSearchOptions,
+  ): Promise<WebSearchResponse> {
+    const url = new URL(BRAVE_SEARCH_URL);
+    url.searchParams.set('q', query);
+    url.searchParams.set('count', String(maxResults));
+    const data = (await fetchJson(this.displayName, url.toString(), {
+      headers: {
+        Accept: 'application/json',
+        'X-Subscription-Token': this.apiKey,
+      },
+      signal,
+    })) as BraveSearchResponse;
+
+    return {
+      results: normalizeResults(
+        (data.web?.results || []).map((r) => ({
+          title: stripHtml(r.title),
+          url: r.url,
+          snippet: asString(stripHtml(r.description)),
+          publishedDate: r.page_age,
+        })),
+        maxResults,
+      ),
+    };
+  }
+}
+
+interface SearxngSearchResponse {
+  results?: Array<{
+    title?: string;
+    url?: string;
+    content?: string;
+    publishedDate?: string | null;
+  }>;
+  answers?: Array<string | { answer?: string }>;
+}
+
+/**
+ * Searches a self-hosted SearxNG instance. The instance must allow the `json`
+ * output format (`search.formats` in its `settings.yml`).
+ */
+export class SearxngSearchProvider implements WebSearchProvider {
+  readonly displayName = 'SearxNG';
+
+  constructor(private readonly baseUrl: string) {}
+
+  async search(
+    query: string,
+    { maxResults, signal }: WebSearchOptions,
+  ): Promise<WebSearchResponse> {
+    const url = new URL('search', this.baseUrl.replace(/\/?$/, '/'));
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    const data = (await fetchJson(this.displayName, url.toString(), {
+      headers: { Accept: 'application/json' },
+      signal,
+    })) as SearxngSearchResponse;
+
+    const answer = data.answers?.[0];
+    return {
+      answer: asString(typeof answer === 'string' ? answer : answer?.answer),
+      results: normalizeResults(
+        (data.results || []).map((r) => ({
+          title: r.title,
+          url: r.url,
+          snippet: asString(r.content),
+          publishedDate: r.publishedDate ?? undefined,
+        })),
+        maxResults,
+      ),
+    };
+  }
+}
+
+/**
+ * Searches any endpoint that returns its results as JSON, as described by a
+ * {@link JsonSearchEndpointConfig}.
+ */
+export class JsonEndpointSearchProvider implements WebSearchProvider {
+  readonly displayName = 'Search endpoint';
+
+  constructor(private readonly endpoint: JsonSearchEndpointConfig) {}
+
+  async search(
+    query: string,
+    { maxResults, signal }: WebSearchOptions,
+  ): Promise<WebSearchResponse> {
+    const method = this.endpoint.method ?? 'GET';
+    const url = this.endpoint.url
+      .replace(/\{query\}/g, encodeURIComponent(query))
+      .replace(/\{maxResults\}/g, String(maxResults));
+    const data = await fetchJson(this.displayName, url, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(method === 'POST' ? { 'Content-Type': 'application/json' } : {}),
+        ...this.endpoint.headers,
+      },
+      body:
+        method === 'POST'
+          ? JSON.stringify({ query, max_results: maxResults })
+          : undefined,
+      signal,
+    });
+
+    const results = getPath(data, this.endpoint.resultsPath);
+    if (!Array.isArray(results)) {
+      throw new Error(
+        `Expected an array of results at "${this.endpoint.resultsPath ?? ''}" in the response of ${this.displayName}.`,
+      );
+    }
+    return {
+      answer: this.endpoint.answerPath
+        ? asString(getPath(data, this.endpoint.answerPath))
+        : undefined,
+      results: normalizeResults(
+        results.map((r) => ({
+          title: asString(getPath(r, this.endpoint.titleField ?? 'title')),
+          url: asString(getPath(r, this.endpoint.urlField ?? 'url')),
+          snippet: asString(
+            getPath(r, this.endpoint.snippetField ?? 'snippet'),
+          ),
+        })),
+        maxResults,
+      ),
+    };
+  }
+}
+
+/**
+ * Creates the provider selected by the `webSearch` settings.
+ * @returns The provider, or undefined if it is missing its API key or URL.
+ */
+export function createWebSearchProvider(
+  config: WebSearchConfig,
+): WebSearchProvider | undefined {
+  switch (config.provider ?? 'tavily') {
+    case 'tavily': {
+      const apiKey = config.apiKey || process.env.TAVILY_API_KEY;
+      return apiKey ? new TavilySearchProvider(apiKey) : undefined;
+    }
+    case 'brave': {
+      const apiKey = config.apiKey || process.env.BRAVE_API_KEY;
+      return apiKey ? new BraveSearchProvider(apiKey) : undefined;
+    }
+    case 'searxng': {
+      const baseUrl = config.baseUrl || process.env.SEARXNG_URL;
+      return baseUrl ? new SearxngSearchProvider(baseUrl) : undefined;
+    }
+    case 'json':
+      return config.json?.url
+        ? new JsonEndpointSearchProvider(config.json)
+        : undefined;
+    default:
+      return undefined;
+  }
+}
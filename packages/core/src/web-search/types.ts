@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type WebSearchProviderName = 'tavily' | 'brave' | 'searxng' | 'json';
+
+/**
+ * Describes how to call a search endpoint that is not one of the built-in
+ * backends, and where to find the results in its JSON response.
+ */
+export interface JsonSearchEndpointConfig {
+  /**
+   * URL of the endpoint. `{query}` and `{maxResults}` are replaced with the
+   * URL-encoded query and the number of results to request.
+   */
+  url: string;
+  /** `POST` sends `{ "query": ..., "max_results": ... }` as the body. */
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  /** Dot-separated path to the array of results, e.g. `data.items`. */
+  resultsPath?: string;
+  /** Dot-separated path to a direct answer, if the endpoint returns one. */
+  answerPath?: string;
+  titleField?: string;
+  urlField?: string;
+  snippetField?: string;
+}
+
+/**
+ * The `webSearch` settings: which backend the `web_search` tool uses and how
+ * to reach it.
+ */
+export interface WebSearchConfig {
+  /** Defaults to `tavily`. */
+  provider?: WebSearchProviderName;
+  /** API key for Tavily or Brave. */
+  apiKey?: string;
+  /** Base URL of the SearxNG instance, e.g. `http://localhost:8888`. */
+  baseUrl?: string;
+  /** Maximum number of results to return. Defaults to 5. */
+  maxResults?: number;
+  /** Request timeout in milliseconds. Defaults to 15000. */
+  timeout?: number;
+  json?: JsonSearchEndpointConfig;
+}
+
+/** A search result, normalized across backends. */
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet?: string;
+  publishedDate?: string;
+}
+
+export interface WebSearchResponse {
+  /** A direct answer to the query, for backends that generate one. */
+  answer?: string;
+  results: WebSearchResult[];
+}
+
+export interface WebSearchOptions {
+  maxResults: number;
+  signal: AbortSignal;
+}
+
+export interface WebSearchProvider {
+  /** Shown to the user, e.g. `Brave`. */
+  readonly displayName: string;
+  search(query: string, options: WebSearchOptions): Promise<WebSearchResponse>;
+}
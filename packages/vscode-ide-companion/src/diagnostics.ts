@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright 2025 CodeDuet
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as vscode from 'vscode';
+import type { Diagnostic } from '@qwen-code/qwen-code-core';
+
+// Keeps the context sent with every prompt small in workspaces with many
+// problems.
+export const MAX_DIAGNOSTICS = 50;
+
+function toSeverity(
+  severity: vscode.DiagnosticSeverity,
+): Diagnostic['severity'] {
+  switch (severity) {
+    case vscode.DiagnosticSeverity.Error:
+      return 'error';
+    case vscode.DiagnosticSeverity.Warning:
+      return 'warning';
+    case vscode.DiagnosticSeverity.Information:
+      return 'information';
+    default:
+      return 'hint';
+  }
+}
+
+function toDiagnostic(
+  uri: vscode.Uri,
+  diagnostic: vscode.Diagnostic,
+): Diagnostic {
+  const { start, end } = diagnostic.range;
+  return {
+    path: uri.fsPath,
+    range: {
+      start: { line: start.line + 1, character: start.character },
+      end: { line: end.line + 1, character: end.character },
+    },
+    severity: toSeverity(diagnostic.severity),
+    source: diagnostic.source,
+    message: diagnostic.message,
+  };
+}
+
+/**
+ * Collects the diagnostics reported for files in the workspace, most severe
+ * first.
+ * @param options.uri Only collect the diagnostics of this file.
+ * @param options.minSeverity Skip diagnostics that are less severe.
+ */
+export function collectDiagnostics(
+  options: {
+    uri?: vscode.Uri;
+    minSeverity?: vscode.DiagnosticSeverity;
+  } = {},
+): Diagnostic[] {
+  const entries: Array<[vscode.Uri, vscode.Diagnostic[]]> = options.uri
+    ? [[options.uri, vscode.languages.getDiagnostics(options.uri)]]
+    : vscode.languages.getDiagnostics();
+  const minSeverity = options.minSeverity ?? vscode.DiagnosticSeverity.Hint;
+
+  return entries
+    .filter(([uri]) => uri.scheme === 'file')
+    .flatMap(([uri, diagnostics]) =>
+      diagnostics
+        .filter((diagnostic) => diagnostic.severity <= minSeverity)
+        .map((diagnostic) => ({ uri, diagnostic })),
+    )
+    .sort((a, b) => a.diagnostic.severity - b.diagnostic.severity)
+    .map(({ uri, diagnostic }) => toDiagnostic(uri, diagnostic));
+}
@@ -13,6 +13,7 @@ import express, { type Request, type Response } from 'express';
 import { randomUUID } from 'node:crypto';
 import { type Server as HTTPServer } from 'node:http';
 import { z } from 'zod';
+import { collectDiagnostics, MAX_DIAGNOSTICS } from './diagnostics.js';
 import { DiffManager } from './diff-manager.js';
 import { OpenFilesManager } from './open-files-manager.js';
 
@@ -280,5 +281,32 @@ const createMcpServer = (diffManager: DiffManager) => {
       };
     },
   );
+  server.registerTool(
+    'get_diagnostics',
+    {
+      description:
+        '(IDE Tool) Get the errors, warnings and hints that the IDE reports for a file, or for the whole workspace when no file is given.',
+      inputSchema: z.object({
+        filePath: z.string().optional(),
+      }).shape,
+    },
+    async ({ filePath }: { filePath?: string }) => {
+      const diagnostics = collectDiagnostics({
+        uri: filePath ? vscode.Uri.file(filePath) : undefined,
+      });
+      const response = {
+        diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+        omitted: Math.max(0, diagnostics.length - MAX_DIAGNOSTICS),
+      };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response),
+          },
+        ],
+      };
+    },
+  );
   return server;
 };
@@ -31,6 +31,16 @@ vi.mock('vscode', () => ({
     onDidCloseTextDocument: vi.fn(),
     onDidRenameFiles: vi.fn(),
   },
+  languages: {
+    onDidChangeDiagnostics: vi.fn(),
+    getDiagnostics: vi.fn(),
+  },
+  DiagnosticSeverity: {
+    Error: 0,
+    Warning: 1,
+    Information: 2,
+    Hint: 3,
+  },
   Uri: {
     file: (path: string) => ({
       fsPath: path,
@@ -53,6 +63,7 @@ describe('OpenFilesManager', () => {
   let onDidDeleteFilesListener: (e: vscode.FileDeleteEvent) => void;
   let onDidCloseTextDocumentListener: (doc: vscode.TextDocument) => void;
   let onDidRenameFilesListener: (e: vscode.FileRenameEvent) => void;
+  let onDidChangeDiagnosticsListener: (e: vscode.DiagnosticChangeEvent) => void;
 
   beforeEach(() => {
     vi.useFakeTimers();
@@ -88,6 +99,16 @@ describe('OpenFilesManager', () => {
       },
     );
 
+    vi.mocked(vscode.languages.onDidChangeDiagnostics).mockImplementation(
+      (listener) => {
+        onDidChangeDiagnosticsListener = listener;
+        return { dispose: vi.fn() };
+      },
+    );
+    vi.mocked(vscode.languages.getDiagnostics).mockReturnValue(
+      [] as unknown as ReturnType<typeof vscode.languages.getDiagnostics>,
+    );
+
     context = {
       subscriptions: [],
     } as unknown as vscode.ExtensionContext;
@@ -437,4 +458,63 @@ describe('OpenFilesManager', () => {
 
     expect(manager.state.workspaceState!.openFiles).toHaveLength(0);
   });
+
+  it('fires onDidChange when diagnostics of a file change', async () => {
+    const manager = new OpenFilesManager(context);
+    const onDidChangeSpy = vi.fn();
+    manager.onDidChange(onDidChangeSpy);
+
+    onDidChangeDiagnosticsListener({ uris: [getUri('/test/file1.ts')] });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onDidChangeSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports errors and warnings of workspace files, most severe first', () => {
+    const makeDiagnostic = (severity: number, message: string) => ({
+      range: {
+        start: { line: 2, character: 4 },
+        end: { line: 2, character: 8 },
+      },
+      severity,
+      source: 'ts',
+      message,
+    });
+    vi.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+      [
+        getUri('/test/file1.ts'),
+        [
+          makeDiagnostic(vscode.DiagnosticSeverity.Warning, 'Unused variable'),
+          makeDiagnostic(vscode.DiagnosticSeverity.Hint, 'Could be const'),
+        ],
+      ],
+      [
+        { fsPath: 'Untitled-1', scheme: 'untitled' },
+        [makeDiagnostic(vscode.DiagnosticSeverity.Error, 'Ignored')],
+      ],
+      [
+        getUri('/test/file2.ts'),
+        [makeDiagnostic(vscode.DiagnosticSeverity.Error, 'Type error')],
+      ],
+    ] as unknown as ReturnType<typeof vscode.languages.getDiagnostics>);
+    const manager = new OpenFilesManager(context);
+
+    expect(manager.state.workspaceState!.diagnostics).toEqual([
+      {
+        path: '/test/file2.ts',
+        range: {
+          start: { line: 3, character: 4 },
+          end: { line: 3, character: 8 },
+        },
+        severity: 'error',
+        source: 'ts',
+        message: 'Type error',
+      },
+      expect.objectContaining({
+        path: '/test/file1.ts',
+        severity: 'warning',
+        message: 'Unused variable',
+      }),
+    ]);
+  });
 });
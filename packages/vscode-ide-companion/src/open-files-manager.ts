@@ -6,12 +6,14 @@
 
 import * as vscode from 'vscode';
 import type { File, IdeContext } from '@qwen-code/qwen-code-core';
+import { collectDiagnostics, MAX_DIAGNOSTICS } from './diagnostics.js';
 
 export const MAX_FILES = 10;
 const MAX_SELECTED_TEXT_LENGTH = 16384; // 16 KiB limit
 
 /**
- * Keeps track of the workspace state, including open files, cursor position, and selected text.
+ * Keeps track of the workspace state, including open files, cursor position, selected text,
+ * and the errors and warnings reported for workspace files.
  */
 export class OpenFilesManager {
   private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
@@ -68,12 +70,21 @@ export class OpenFilesManager {
       this.fireWithDebounce();
     });
 
+    const diagnosticsWatcher = vscode.languages.onDidChangeDiagnostics(
+      (event) => {
+        if (event.uris.some((uri) => this.isFileUri(uri))) {
+          this.fireWithDebounce();
+        }
+      },
+    );
+
     context.subscriptions.push(
       editorWatcher,
       selectionWatcher,
       closeWatcher,
       deleteWatcher,
       renameWatcher,
+      diagnosticsWatcher,
     );
 
     // Just add current active file on start-up.
@@ -172,6 +183,9 @@ export class OpenFilesManager {
     return {
       workspaceState: {
         openFiles: [...this.openFiles],
+        diagnostics: collectDiagnostics({
+          minSeverity: vscode.DiagnosticSeverity.Warning,
+        }).slice(0, MAX_DIAGNOSTICS),
       },
     };
   }